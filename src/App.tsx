@@ -14,6 +14,8 @@ import { useProjectStore } from './stores/projectStore'
 import { useHistoryStore } from './stores/historyStore'
 import { usePersistenceStore } from './stores/persistenceStore'
 import { captureCanvasScreenshot, downloadBlob } from './lib/screenshotExport'
+import { useMetricsWorkerStatus } from './hooks/useMetricsWorkerStatus'
+import { useTimelineAudio } from './hooks/useTimelineAudio'
 
 export default function App() {
   const [isExportOpen, setIsExportOpen] = useState(false)
@@ -27,6 +29,12 @@ export default function App() {
   // Keyboard shortcuts help modal
   const shortcutsHelp = useKeyboardShortcutsHelp()
 
+  // WORKER-001: Keep the metrics worker queue state in the project store
+  useMetricsWorkerStatus()
+
+  // MIX-001: Play the timeline audio mix alongside the muted preview
+  useTimelineAudio()
+
   // PERSIST-001: Initialize persistence store
   const { init: initPersistence, createNewProject, currentProjectId, saveCurrentProject } = usePersistenceStore()
 
@@ -65,6 +73,7 @@ export default function App() {
     'Digit6': 'json-diff',
     'Digit7': 'model-3d',
     'Digit8': 'document',
+    'Digit9': 'subtitle',
   }
 
   // MODE-001 to MODE-005: Additional mode shortcuts
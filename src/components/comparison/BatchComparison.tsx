@@ -1,10 +1,22 @@
 /**
  * WEBGL-013: Batch Comparison Mode
  * Compare multiple images at once with matrix view and export
+ * METRICS-002: MS-SSIM, CIEDE2000 and per-channel PSNR columns
+ * METRICS-004: No-reference sharpness, noise and naturalness columns per side
+ * MASK-001: ROI and painted mask apply to every pair, inside/outside columns
+ * WORKER-001: Pairs are scored in the metrics worker pool
+ * HDR-001: Pairs with an HDR image are scored on linear floats
  */
 
 import { useState, useCallback, useRef } from 'react'
 import { useMediaStore } from '../../stores/mediaStore'
+import { useProjectStore } from '../../stores/projectStore'
+import { QUALITY_METRICS, FLIP_DEFAULT_PPD } from '../../lib/metrics'
+import { runMetricsJob, captureFramePair, captureHDRSides, getMetricsPoolSize, isAbortError } from '../../lib/metricsWorkerPool'
+import { isMaskActive } from '../../lib/metricMask'
+import { getHDRImage } from '../../lib/hdrImage'
+import { HDR_DISPLAY_DEFAULTS } from '../../lib/hdrDisplay'
+import type { MediaFile, NoReferenceScores, QualityMetricId } from '../../types'
 import { Upload, Grid3X3, SortAsc, SortDesc, Filter, X, Play, Pause, FileJson, FileSpreadsheet } from 'lucide-react'
 
 interface BatchResult {
@@ -13,13 +25,91 @@ interface BatchResult {
   nameA: string
   nameB: string
   ssim: number
+  msssim: number
+  psnr: number
+  psnrY: number
+  psnrCb: number
+  psnrCr: number
   deltaE: number
+  deltaE2000: number
+  flip: number
+  // METRICS-004: NaN when an image is too small to score
+  sharpnessA: number
+  sharpnessB: number
+  noiseA: number
+  noiseB: number
+  naturalnessA: number
+  naturalnessB: number
+  // MASK-001: NaN without a mask (or when a side of it is empty)
+  psnrInside: number
+  psnrOutside: number
+  msssimInside: number
+  msssimOutside: number
   diffPixelPercent: number
   peakDifference: number
   meanDifference: number
   timestamp: number
 }
 
+type BatchSortKey = 'ssim' | 'msssim' | 'psnr' | 'psnrY' | 'psnrCb' | 'psnrCr' | 'deltaE' | 'deltaE2000' | 'flip' | 'diffPixelPercent'
+  | 'sharpnessA' | 'sharpnessB' | 'noiseA' | 'noiseB' | 'naturalnessA' | 'naturalnessB'
+  | 'psnrInside' | 'psnrOutside' | 'msssimInside' | 'msssimOutside'
+
+// METRICS-002: Sortable columns contributed by each selectable metric
+const METRIC_COLUMNS: Record<QualityMetricId, { key: BatchSortKey; label: string }[]> = {
+  'ssim': [{ key: 'ssim', label: 'SSIM' }],
+  'ms-ssim': [{ key: 'msssim', label: 'MS-SSIM' }],
+  'psnr': [{ key: 'psnr', label: 'PSNR' }],
+  'psnr-ycbcr': [
+    { key: 'psnrY', label: 'PSNR Y' },
+    { key: 'psnrCb', label: 'PSNR Cb' },
+    { key: 'psnrCr', label: 'PSNR Cr' },
+  ],
+  'delta-e94': [{ key: 'deltaE', label: 'Delta E' }],
+  'delta-e2000': [{ key: 'deltaE2000', label: 'ΔE00' }],
+  'flip': [{ key: 'flip', label: 'FLIP' }],
+  'sharpness': [
+    { key: 'sharpnessA', label: 'Sharp A' },
+    { key: 'sharpnessB', label: 'Sharp B' },
+  ],
+  'noise': [
+    { key: 'noiseA', label: 'Noise A' },
+    { key: 'noiseB', label: 'Noise B' },
+  ],
+  'naturalness': [
+    { key: 'naturalnessA', label: 'Natural A' },
+    { key: 'naturalnessB', label: 'Natural B' },
+  ],
+}
+
+// METRICS-004: Per-side columns, the better side of each pair is shown in green
+const NO_REFERENCE_COLUMNS: Record<string, { other: BatchSortKey; higherIsBetter: boolean }> = {
+  sharpnessA: { other: 'sharpnessB', higherIsBetter: true },
+  sharpnessB: { other: 'sharpnessA', higherIsBetter: true },
+  noiseA: { other: 'noiseB', higherIsBetter: false },
+  noiseB: { other: 'noiseA', higherIsBetter: false },
+  naturalnessA: { other: 'naturalnessB', higherIsBetter: false },
+  naturalnessB: { other: 'naturalnessA', higherIsBetter: false },
+}
+
+// MASK-001: Shown while a mask is active
+const MASK_COLUMNS: { key: BatchSortKey; label: string }[] = [
+  { key: 'psnrInside', label: 'PSNR In' },
+  { key: 'psnrOutside', label: 'PSNR Out' },
+  { key: 'msssimInside', label: 'MS-SSIM In' },
+  { key: 'msssimOutside', label: 'MS-SSIM Out' },
+]
+
+// Every pair is scored on this grid
+const BATCH_SAMPLE_WIDTH = 640
+const BATCH_SAMPLE_HEIGHT = 480
+
+const UNSCORED: NoReferenceScores = { sharpness: NaN, noiseSigma: NaN, naturalness: NaN }
+
+const formatPSNR = (value: number) => (Number.isNaN(value) ? '' : Number.isFinite(value) ? value.toFixed(2) : '∞')
+// Unscored values (NaN) are left empty in exports
+const formatOptional = (value: number, digits: number) => (Number.isNaN(value) ? '' : value.toFixed(digits))
+
 interface BatchComparisonProps {
   isOpen: boolean
   onClose: () => void
@@ -27,17 +117,20 @@ interface BatchComparisonProps {
 
 export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
   const { files } = useMediaStore()
+  const { enabledQualityMetrics, toggleQualityMetric, webglComparisonSettings, metricsWorkerStatus } = useProjectStore()
+  const { roi, metricMask, hdrExposure, hdrGamma, hdrToneMap } = webglComparisonSettings
+  const hasMask = isMaskActive(metricMask)
   const [selectedFiles, setSelectedFiles] = useState<string[]>([])
   const [results, setResults] = useState<BatchResult[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
   const [progress, setProgress] = useState(0)
-  const [sortBy, setSortBy] = useState<'ssim' | 'deltaE' | 'diffPixelPercent'>('ssim')
+  const [sortBy, setSortBy] = useState<BatchSortKey>('ssim')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
   const [filterThreshold] = useState(0) // Threshold filter (can be made configurable later)
   const [showOnlyDifferent, setShowOnlyDifferent] = useState(false)
 
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const abortRef = useRef(false)
+  const abortRef = useRef<AbortController | null>(null)
 
   // Filter to only image files
   const imageFiles = files.filter(f => f.type === 'image')
@@ -63,42 +156,108 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
   }, [])
 
   // Run batch comparison
+  // WORKER-001: Pairs are scored in the metrics worker pool, a few per worker in flight
   const runBatchComparison = useCallback(async () => {
     if (selectedFiles.length < 2) return
 
+    const controller = new AbortController()
+    abortRef.current = controller
+    const { signal } = controller
     setIsProcessing(true)
     setProgress(0)
-    abortRef.current = false
 
     const newResults: BatchResult[] = []
-    const totalComparisons = (selectedFiles.length * (selectedFiles.length - 1)) / 2
+    const pairs: [MediaFile, MediaFile][] = []
+    for (let i = 0; i < selectedFiles.length; i++) {
+      for (let j = i + 1; j < selectedFiles.length; j++) {
+        const fileA = files.find(f => f.id === selectedFiles[i])
+        const fileB = files.find(f => f.id === selectedFiles[j])
+        if (fileA && fileB) pairs.push([fileA, fileB])
+      }
+    }
     let completed = 0
 
-    // Create offscreen canvas for comparison
-    const canvas = document.createElement('canvas')
-    canvas.width = 640
-    canvas.height = 480
-    const ctx = canvas.getContext('2d')
-    if (!ctx) {
-      setIsProcessing(false)
-      return
+    // Each image appears in several pairs, decode it once
+    const images = new Map<string, Promise<HTMLImageElement>>()
+    const getImage = (file: MediaFile) => {
+      let image = images.get(file.id)
+      if (!image) {
+        image = loadImage(file.url)
+        images.set(file.id, image)
+      }
+      return image
     }
 
-    // Compare each pair
-    for (let i = 0; i < selectedFiles.length && !abortRef.current; i++) {
-      for (let j = i + 1; j < selectedFiles.length && !abortRef.current; j++) {
-        const fileA = files.find(f => f.id === selectedFiles[i])
-        const fileB = files.find(f => f.id === selectedFiles[j])
+    // METRICS-004: Each image appears in several pairs, score it once at native resolution
+    const noReferenceCache = new Map<string, Promise<NoReferenceScores>>()
+    const getNoReference = (id: string, img: HTMLImageElement) => {
+      let scores = noReferenceCache.get(id)
+      if (!scores) {
+        scores = createImageBitmap(img)
+          .then(frame => runMetricsJob({ kind: 'no-reference', frame, roi: null }, signal))
+          .then(result => result ?? UNSCORED)
+        noReferenceCache.set(id, scores)
+      }
+      return scores
+    }
 
-        if (!fileA || !fileB) continue
+    let nextPair = 0
+    const runPairs = async () => {
+      while (nextPair < pairs.length && !signal.aborted) {
+        const [fileA, fileB] = pairs[nextPair++]
 
         try {
           // Load images
-          const imgA = await loadImage(fileA.url)
-          const imgB = await loadImage(fileB.url)
-
-          // Compute metrics
-          const metrics = computeMetricsFromCanvas(ctx, canvas, imgA, imgB)
+          const [imgA, imgB] = await Promise.all([getImage(fileA), getImage(fileB)])
+
+          // Compute metrics (MASK-001: same ROI and mask as the WebGL analysis)
+          const scorePair = async () => {
+            // HDR-001: Linear float metrics when either image is HDR
+            const hdrA = fileA.hdr ? getHDRImage(fileA.url) : null
+            const hdrB = fileB.hdr ? getHDRImage(fileB.url) : null
+            if (hdrA || hdrB) {
+              const sides = await captureHDRSides(imgA, hdrA, imgB, hdrB, BATCH_SAMPLE_WIDTH, BATCH_SAMPLE_HEIGHT, roi, false)
+              if (!sides) return null
+              return runMetricsJob({
+                kind: 'hdr-analysis',
+                sideA: sides[0],
+                sideB: sides[1],
+                sampleWidth: BATCH_SAMPLE_WIDTH,
+                sampleHeight: BATCH_SAMPLE_HEIGHT,
+                display: {
+                  exposure: hdrExposure ?? HDR_DISPLAY_DEFAULTS.exposure,
+                  gamma: hdrGamma ?? HDR_DISPLAY_DEFAULTS.gamma,
+                  toneMap: hdrToneMap ?? HDR_DISPLAY_DEFAULTS.toneMap,
+                },
+                threshold: 10,
+                roi,
+                pixelsPerDegree: FLIP_DEFAULT_PPD,
+                mask: metricMask,
+                scoreSides: false,
+              }, signal)
+            }
+
+            const frames = await captureFramePair(imgA, imgB)
+            if (!frames) return null
+            return runMetricsJob({
+              kind: 'pair',
+              frameA: frames[0],
+              frameB: frames[1],
+              width: BATCH_SAMPLE_WIDTH,
+              height: BATCH_SAMPLE_HEIGHT,
+              threshold: 10,
+              roi,
+              mask: metricMask,
+            }, signal)
+          }
+
+          const [metrics, noReferenceA, noReferenceB] = await Promise.all([
+            scorePair(),
+            getNoReference(fileA.id, imgA),
+            getNoReference(fileB.id, imgB),
+          ])
+          if (!metrics) throw new Error('Image has no decoded pixels')
+          const { inside, outside } = metrics.maskBreakdown ?? { inside: null, outside: null }
 
           newResults.push({
             idA: fileA.id,
@@ -106,31 +265,49 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
             nameA: fileA.name,
             nameB: fileB.name,
             ssim: metrics.ssim,
+            msssim: metrics.msssim,
+            psnr: metrics.psnr,
+            psnrY: metrics.psnrYCbCr.y,
+            psnrCb: metrics.psnrYCbCr.cb,
+            psnrCr: metrics.psnrYCbCr.cr,
             deltaE: metrics.deltaE,
+            deltaE2000: metrics.deltaE2000,
+            flip: metrics.flip,
+            sharpnessA: noReferenceA.sharpness,
+            sharpnessB: noReferenceB.sharpness,
+            noiseA: noReferenceA.noiseSigma,
+            noiseB: noReferenceB.noiseSigma,
+            naturalnessA: noReferenceA.naturalness,
+            naturalnessB: noReferenceB.naturalness,
+            psnrInside: inside?.psnr ?? NaN,
+            psnrOutside: outside?.psnr ?? NaN,
+            msssimInside: inside?.msssim ?? NaN,
+            msssimOutside: outside?.msssim ?? NaN,
             diffPixelPercent: metrics.diffPixelPercent,
             peakDifference: metrics.peakDifference,
             meanDifference: metrics.meanDifference,
             timestamp: Date.now()
           })
         } catch (err) {
+          if (isAbortError(err)) break
           console.error(`Failed to compare ${fileA.name} with ${fileB.name}:`, err)
         }
 
         completed++
-        setProgress((completed / totalComparisons) * 100)
-
-        // Allow UI to update
-        await new Promise(resolve => setTimeout(resolve, 10))
+        setProgress((completed / pairs.length) * 100)
       }
     }
 
+    await Promise.all(Array.from({ length: Math.min(pairs.length, getMetricsPoolSize() * 2) }, runPairs))
+
+    abortRef.current = null
     setResults(newResults)
     setIsProcessing(false)
-  }, [selectedFiles, files])
+  }, [selectedFiles, files, roi, metricMask, hdrExposure, hdrGamma, hdrToneMap])
 
   // Stop processing
   const stopProcessing = useCallback(() => {
-    abortRef.current = true
+    abortRef.current?.abort()
   }, [])
 
   // Load image as HTMLImageElement
@@ -143,71 +320,11 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
     })
   }
 
-  // Compute metrics using 2D canvas
-  const computeMetricsFromCanvas = (
-    ctx: CanvasRenderingContext2D,
-    canvas: HTMLCanvasElement,
-    imgA: HTMLImageElement,
-    imgB: HTMLImageElement
-  ) => {
-    const width = canvas.width
-    const height = canvas.height
-
-    // Draw image A
-    ctx.clearRect(0, 0, width, height)
-    ctx.drawImage(imgA, 0, 0, width, height)
-    const dataA = ctx.getImageData(0, 0, width, height).data
-
-    // Draw image B
-    ctx.clearRect(0, 0, width, height)
-    ctx.drawImage(imgB, 0, 0, width, height)
-    const dataB = ctx.getImageData(0, 0, width, height).data
-
-    // Compute metrics
-    let sumDiff = 0
-    let maxDiff = 0
-    let diffPixels = 0
-    let sumSquaredDiff = 0
-    const threshold = 10 // Default threshold
-
-    for (let i = 0; i < dataA.length; i += 4) {
-      const dr = Math.abs(dataA[i] - dataB[i])
-      const dg = Math.abs(dataA[i + 1] - dataB[i + 1])
-      const db = Math.abs(dataA[i + 2] - dataB[i + 2])
-      const diff = (dr + dg + db) / 3
-
-      sumDiff += diff
-      maxDiff = Math.max(maxDiff, diff)
-      sumSquaredDiff += diff * diff
-
-      if (diff > threshold) {
-        diffPixels++
-      }
-    }
-
-    const pixelCount = dataA.length / 4
-    const meanDiff = sumDiff / pixelCount
-    const variance = sumSquaredDiff / pixelCount - meanDiff * meanDiff
-
-    // Simplified SSIM approximation
-    const ssim = 1 - (variance / (255 * 255)) * 0.5 - (meanDiff / 255) * 0.5
-
-    // Simplified Delta E (using RGB difference as approximation)
-    const deltaE = meanDiff * 0.4 // Rough approximation
-
-    return {
-      ssim: Math.max(0, Math.min(1, ssim)),
-      deltaE: deltaE,
-      diffPixelPercent: (diffPixels / pixelCount) * 100,
-      peakDifference: maxDiff,
-      meanDifference: meanDiff
-    }
-  }
-
   // Sort results
   const sortedResults = [...results].sort((a, b) => {
     const multiplier = sortOrder === 'asc' ? 1 : -1
-    return (a[sortBy] - b[sortBy]) * multiplier
+    if (a[sortBy] === b[sortBy]) return 0
+    return (a[sortBy] < b[sortBy] ? -1 : 1) * multiplier
   })
 
   // Filter results
@@ -224,7 +341,9 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
       totalComparisons: filteredResults.length,
       results: filteredResults
     }
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+    // Infinite PSNR (identical images) is written as null
+    const json = JSON.stringify(data, (_key, value) => (typeof value === 'number' && !Number.isFinite(value) ? null : value), 2)
+    const blob = new Blob([json], { type: 'application/json' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
@@ -235,12 +354,28 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
 
   // Export as CSV
   const exportCSV = useCallback(() => {
-    const headers = ['File A', 'File B', 'SSIM', 'Delta E', 'Diff Pixels %', 'Peak Diff', 'Mean Diff']
+    const headers = ['File A', 'File B', 'SSIM', 'MS-SSIM', 'PSNR', 'PSNR Y', 'PSNR Cb', 'PSNR Cr', 'Delta E', 'Delta E 2000', 'FLIP', 'Sharpness A', 'Sharpness B', 'Noise A', 'Noise B', 'Naturalness A', 'Naturalness B',
+      ...(hasMask ? ['PSNR Inside', 'PSNR Outside', 'MS-SSIM Inside', 'MS-SSIM Outside'] : []),
+      'Diff Pixels %', 'Peak Diff', 'Mean Diff']
     const rows = filteredResults.map(r => [
       r.nameA,
       r.nameB,
       r.ssim.toFixed(4),
+      r.msssim.toFixed(4),
+      formatPSNR(r.psnr),
+      formatPSNR(r.psnrY),
+      formatPSNR(r.psnrCb),
+      formatPSNR(r.psnrCr),
       r.deltaE.toFixed(2),
+      r.deltaE2000.toFixed(2),
+      r.flip.toFixed(4),
+      formatOptional(r.sharpnessA, 1),
+      formatOptional(r.sharpnessB, 1),
+      formatOptional(r.noiseA, 3),
+      formatOptional(r.noiseB, 3),
+      formatOptional(r.naturalnessA, 4),
+      formatOptional(r.naturalnessB, 4),
+      ...(hasMask ? [formatPSNR(r.psnrInside), formatPSNR(r.psnrOutside), formatOptional(r.msssimInside, 4), formatOptional(r.msssimOutside, 4)] : []),
       r.diffPixelPercent.toFixed(2),
       r.peakDifference.toFixed(0),
       r.meanDifference.toFixed(2)
@@ -253,7 +388,7 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
     a.download = `batch-comparison-${Date.now()}.csv`
     a.click()
     URL.revokeObjectURL(url)
-  }, [filteredResults])
+  }, [filteredResults, hasMask])
 
   // Compute summary statistics
   const summaryStats = results.length > 0 ? {
@@ -264,6 +399,40 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
     avgDiffPercent: results.reduce((sum, r) => sum + r.diffPixelPercent, 0) / results.length
   } : null
 
+  // METRICS-002: Columns for the enabled metrics
+  const visibleColumns = (Object.keys(METRIC_COLUMNS) as QualityMetricId[])
+    .filter(metric => enabledQualityMetrics.includes(metric))
+    .flatMap(metric => METRIC_COLUMNS[metric])
+    .concat(hasMask ? MASK_COLUMNS : [])
+
+  const formatCell = (key: string, value: number) => {
+    if (Number.isNaN(value)) return '---'
+    if (key.startsWith('sharpness')) return value.toFixed(0)
+    if (key.startsWith('naturalness')) return value.toFixed(3)
+    if (key === 'ssim' || key.startsWith('msssim') || key === 'flip') return value.toFixed(4)
+    if (key.startsWith('psnr')) return formatPSNR(value)
+    return value.toFixed(2)
+  }
+
+  const getCellColor = (key: string, value: number, result: BatchResult) => {
+    const noReference = NO_REFERENCE_COLUMNS[key]
+    if (noReference) {
+      const other = result[noReference.other]
+      if (Number.isNaN(value) || Number.isNaN(other) || value === other) return 'text-gray-300'
+      return (value > other) === noReference.higherIsBetter ? 'text-green-400' : 'text-gray-300'
+    }
+    if (key === 'ssim' || key.startsWith('msssim')) {
+      return value > 0.95 ? 'text-green-400' : value > 0.8 ? 'text-yellow-400' : 'text-red-400'
+    }
+    if (key === 'flip') {
+      return value < 0.05 ? 'text-green-400' : value < 0.15 ? 'text-yellow-400' : 'text-red-400'
+    }
+    if (key.startsWith('psnr')) {
+      return !Number.isFinite(value) || value >= 40 ? 'text-green-400' : value >= 30 ? 'text-yellow-400' : 'text-red-400'
+    }
+    return value < 1 ? 'text-green-400' : value < 5 ? 'text-yellow-400' : 'text-red-400'
+  }
+
   if (!isOpen) return null
 
   return (
@@ -341,6 +510,10 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
                       style={{ width: `${progress}%` }}
                     />
                   </div>
+                  {/* WORKER-001: Pool queue state */}
+                  <div className="text-xs text-gray-500">
+                    {metricsWorkerStatus.running} of {metricsWorkerStatus.workers} workers busy • {metricsWorkerStatus.queued} queued
+                  </div>
                   <button
                     onClick={stopProcessing}
                     className="w-full px-4 py-2 bg-red-600 text-white rounded flex items-center justify-center gap-2"
@@ -403,7 +576,28 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
                   className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
                 >
                   <option value="ssim">SSIM</option>
+                  <option value="msssim">MS-SSIM</option>
+                  <option value="psnr">PSNR</option>
+                  <option value="psnrY">PSNR Y</option>
+                  <option value="psnrCb">PSNR Cb</option>
+                  <option value="psnrCr">PSNR Cr</option>
                   <option value="deltaE">Delta E</option>
+                  <option value="deltaE2000">ΔE00</option>
+                  <option value="flip">FLIP</option>
+                  {hasMask && (
+                    <>
+                      <option value="psnrInside">PSNR inside mask</option>
+                      <option value="psnrOutside">PSNR outside mask</option>
+                      <option value="msssimInside">MS-SSIM inside mask</option>
+                      <option value="msssimOutside">MS-SSIM outside mask</option>
+                    </>
+                  )}
+                  <option value="sharpnessA">Sharpness A</option>
+                  <option value="sharpnessB">Sharpness B</option>
+                  <option value="noiseA">Noise A</option>
+                  <option value="noiseB">Noise B</option>
+                  <option value="naturalnessA">Naturalness A</option>
+                  <option value="naturalnessB">Naturalness B</option>
                   <option value="diffPixelPercent">Diff %</option>
                 </select>
                 <button
@@ -427,6 +621,24 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
                 </label>
               </div>
 
+              {/* METRICS-002: Column selection */}
+              <div className="flex items-center gap-1">
+                {(Object.keys(QUALITY_METRICS) as QualityMetricId[]).map(metric => (
+                  <button
+                    key={metric}
+                    onClick={() => toggleQualityMetric(metric)}
+                    title={QUALITY_METRICS[metric].description}
+                    className={`px-2 py-0.5 rounded text-xs ${
+                      enabledQualityMetrics.includes(metric)
+                        ? 'bg-[#ff5722]/20 text-white border border-[#ff5722]'
+                        : 'bg-gray-800 text-gray-500 border border-gray-700 hover:text-gray-300'
+                    }`}
+                  >
+                    {QUALITY_METRICS[metric].label}
+                  </button>
+                ))}
+              </div>
+
               <div className="flex-1" />
 
               <div className="flex items-center gap-2">
@@ -463,8 +675,21 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
                     <tr>
                       <th className="text-left px-4 py-2 text-gray-400 font-medium">File A</th>
                       <th className="text-left px-4 py-2 text-gray-400 font-medium">File B</th>
-                      <th className="text-right px-4 py-2 text-gray-400 font-medium">SSIM</th>
-                      <th className="text-right px-4 py-2 text-gray-400 font-medium">Delta E</th>
+                      {visibleColumns.map(column => (
+                        <th
+                          key={column.key}
+                          onClick={() => {
+                            if (sortBy === column.key) {
+                              setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc')
+                            } else {
+                              setSortBy(column.key)
+                            }
+                          }}
+                          className={`text-right px-4 py-2 font-medium ${sortBy === column.key ? 'text-white' : 'text-gray-400'} cursor-pointer hover:text-white`}
+                        >
+                          {column.label}
+                        </th>
+                      ))}
                       <th className="text-right px-4 py-2 text-gray-400 font-medium">Diff %</th>
                       <th className="text-right px-4 py-2 text-gray-400 font-medium">Peak</th>
                       <th className="text-right px-4 py-2 text-gray-400 font-medium">Mean</th>
@@ -478,18 +703,11 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
                       >
                         <td className="px-4 py-2 text-white truncate max-w-[150px]">{result.nameA}</td>
                         <td className="px-4 py-2 text-white truncate max-w-[150px]">{result.nameB}</td>
-                        <td className={`px-4 py-2 text-right font-mono ${
-                          result.ssim > 0.95 ? 'text-green-400' :
-                          result.ssim > 0.8 ? 'text-yellow-400' : 'text-red-400'
-                        }`}>
-                          {result.ssim.toFixed(4)}
-                        </td>
-                        <td className={`px-4 py-2 text-right font-mono ${
-                          result.deltaE < 1 ? 'text-green-400' :
-                          result.deltaE < 5 ? 'text-yellow-400' : 'text-red-400'
-                        }`}>
-                          {result.deltaE.toFixed(2)}
-                        </td>
+                        {visibleColumns.map(column => (
+                          <td key={column.key} className={`px-4 py-2 text-right font-mono ${getCellColor(column.key, result[column.key], result)}`}>
+                            {formatCell(column.key, result[column.key])}
+                          </td>
+                        ))}
                         <td className={`px-4 py-2 text-right font-mono ${
                           result.diffPixelPercent < 1 ? 'text-green-400' :
                           result.diffPixelPercent < 10 ? 'text-yellow-400' : 'text-red-400'
@@ -512,6 +730,7 @@ export function BatchComparison({ isOpen, onClose }: BatchComparisonProps) {
             {/* Footer */}
             <div className="px-6 py-2 border-t border-gray-700 text-xs text-gray-500">
               Showing {filteredResults.length} of {results.length} results
+              {(roi || hasMask) && ` • Metrics restricted to the ${hasMask ? 'painted mask' : 'ROI'}`}
             </div>
           </div>
         </div>
@@ -5,6 +5,7 @@ import { usePlaybackStore } from '../../stores/playbackStore'
 import { useMediaStore } from '../../stores/mediaStore'
 import { useSyncedZoom } from '../../hooks/useSyncedZoom'
 import { useOptimizedClipSync } from '../../hooks/useOptimizedVideoSync'
+import { useClipGrader } from '../../hooks/useClipGrader'
 import type { BlendMode } from '../../types'
 
 const blendModeMap: Record<BlendMode, GlobalCompositeOperation> = {
@@ -57,6 +58,10 @@ export function BlendModes() {
   useOptimizedClipSync(videoARef, activeClipA || firstClipA)
   useOptimizedClipSync(videoBRef, activeClipB || firstClipB)
 
+  // COLOR-001: Blend the colour-graded frames
+  const gradeA = useClipGrader(displayClipA)
+  const gradeB = useClipGrader(displayClipB)
+
   const renderFrame = useCallback(() => {
     const canvas = canvasRef.current
     const ctx = canvas?.getContext('2d')
@@ -79,13 +84,13 @@ export function BlendModes() {
     // Draw video B first (base layer)
     if (videoB && mediaB?.type === 'video') {
       ctx.globalCompositeOperation = 'source-over'
-      ctx.drawImage(videoB, 0, 0, canvas.width, canvas.height)
+      ctx.drawImage(gradeB(videoB), 0, 0, canvas.width, canvas.height)
     }
 
     // Draw video A with blend mode
     if (videoA && mediaA?.type === 'video') {
       ctx.globalCompositeOperation = blendModeMap[blendMode]
-      ctx.drawImage(videoA, 0, 0, canvas.width, canvas.height)
+      ctx.drawImage(gradeA(videoA), 0, 0, canvas.width, canvas.height)
     }
 
     // Reset composite operation and restore transform
@@ -95,7 +100,7 @@ export function BlendModes() {
     if (isPlaying) {
       animationRef.current = requestAnimationFrame(renderFrame)
     }
-  }, [blendMode, isPlaying, mediaA, mediaB, zoom, panX, panY])
+  }, [blendMode, isPlaying, mediaA, mediaB, zoom, panX, panY, gradeA, gradeB])
 
   // Video sync is now handled by useClipAwareVideoSync hook
 
@@ -0,0 +1,268 @@
+/**
+ * CODE-001: Code Diff View
+ * Side-by-side source diff with syntax highlighting, intra-line token
+ * highlighting of changed lines, moved-block detection and ignore
+ * whitespace / comments toggles. Long unchanged runs are folded.
+ */
+import { Fragment, useMemo, useState } from 'react'
+import { cn } from '../../lib/utils'
+import { computeCodeDiff, type CodeDiffCell, type CodeDiffRow } from '../../lib/codeDiff'
+import { CODE_LANGUAGE_LABELS, type CodeLanguage, type SyntaxToken, type SyntaxTokenType } from '../../lib/syntaxHighlight'
+import type { DiffPart } from '../../lib/textDiff'
+import { AlertTriangle, MessageSquareOff, Move, Space, UnfoldVertical } from 'lucide-react'
+
+interface CodeDiffViewProps {
+  textA: string
+  textB: string
+  language: CodeLanguage // Detected; can be overridden in the view
+  showLineNumbers: boolean
+  showWhitespace: boolean
+}
+
+// Unchanged lines kept around each change when folding
+const CONTEXT_LINES = 3
+
+const TOKEN_COLORS: Record<SyntaxTokenType, string> = {
+  keyword: 'text-purple-400',
+  string: 'text-amber-300',
+  comment: 'text-text-muted italic',
+  number: 'text-blue-400',
+  function: 'text-sky-300',
+  type: 'text-teal-300',
+  plain: 'text-text-primary',
+}
+
+const CELL_STYLES: Record<CodeDiffCell['kind'], string> = {
+  equal: '',
+  added: 'bg-green-500/10',
+  removed: 'bg-red-500/10',
+  moved: 'bg-blue-500/10',
+  ignored: 'opacity-50',
+}
+
+const CELL_MARKERS: Record<CodeDiffCell['kind'], { symbol: string; color: string }> = {
+  equal: { symbol: '', color: '' },
+  added: { symbol: '+', color: 'text-green-400' },
+  removed: { symbol: '−', color: 'text-red-400' },
+  moved: { symbol: '↕', color: 'text-blue-400' },
+  ignored: { symbol: '·', color: 'text-text-muted' },
+}
+
+type DisplayItem =
+  | { type: 'row'; row: CodeDiffRow }
+  | { type: 'fold'; start: number; count: number }
+
+function renderWhitespace(text: string): string {
+  return text.replace(/ /g, '·').replace(/\t/g, '→   ')
+}
+
+/**
+ * Syntax tokens split where the intra-line diff changes, so both
+ * colourings show at once
+ */
+function splitTokens(tokens: SyntaxToken[], inline?: DiffPart[]): { token: SyntaxToken; changed: boolean }[] {
+  if (!inline) return tokens.map(token => ({ token, changed: false }))
+
+  const changedRanges: [number, number][] = []
+  let offset = 0
+  for (const part of inline) {
+    if (part.type !== 'equal') changedRanges.push([offset, offset + part.text.length])
+    offset += part.text.length
+  }
+
+  const segments: { token: SyntaxToken; changed: boolean }[] = []
+  let position = 0
+  for (const token of tokens) {
+    const end = position + token.text.length
+    const cuts = new Set([position, end])
+    for (const [start, stop] of changedRanges) {
+      if (start > position && start < end) cuts.add(start)
+      if (stop > position && stop < end) cuts.add(stop)
+    }
+    const points = Array.from(cuts).sort((x, y) => x - y)
+    for (let k = 0; k < points.length - 1; k++) {
+      const [from, to] = [points[k], points[k + 1]]
+      segments.push({
+        token: { type: token.type, text: token.text.slice(from - position, to - position) },
+        changed: changedRanges.some(([start, stop]) => from >= start && to <= stop),
+      })
+    }
+    position = end
+  }
+  return segments
+}
+
+function CodeCell({
+  cell,
+  side,
+  showLineNumbers,
+  showWhitespace,
+}: {
+  cell: CodeDiffCell | null
+  side: 'a' | 'b'
+  showLineNumbers: boolean
+  showWhitespace: boolean
+}) {
+  if (!cell) {
+    return (
+      <div className="flex-1 min-w-0 flex bg-surface/40">
+        {showLineNumbers && <div className="w-10 flex-shrink-0 border-r border-border" />}
+      </div>
+    )
+  }
+
+  const marker = CELL_MARKERS[cell.kind]
+  const highlight = side === 'a' ? 'bg-red-500/30' : 'bg-green-500/30'
+
+  return (
+    <div className={cn('flex-1 min-w-0 flex', CELL_STYLES[cell.kind])}>
+      {showLineNumbers && (
+        <div className="w-10 flex-shrink-0 text-right pr-2 text-text-muted/50 text-[10px] select-none border-r border-border leading-5 tabular-nums">
+          {cell.line}
+        </div>
+      )}
+      <div className={cn('w-5 flex-shrink-0 text-center text-xs select-none font-bold leading-5', marker.color)}>
+        {marker.symbol}
+      </div>
+      <pre className="flex-1 min-w-0 pr-2 whitespace-pre-wrap break-all leading-5">
+        {splitTokens(cell.tokens, cell.inline).map(({ token, changed }, i) => (
+          <span key={i} className={cn(TOKEN_COLORS[token.type], changed && highlight)}>
+            {showWhitespace ? renderWhitespace(token.text) : token.text}
+          </span>
+        ))}
+        {cell.text === '' && ' '}
+      </pre>
+      {cell.movedLine && (
+        <span className="flex-shrink-0 px-1.5 text-[10px] text-blue-400 leading-5 select-none">
+          {side === 'a' ? `moved to ${cell.movedLine}` : `moved from ${cell.movedLine}`}
+        </span>
+      )}
+    </div>
+  )
+}
+
+export function CodeDiffView({ textA, textB, language, showLineNumbers, showWhitespace }: CodeDiffViewProps) {
+  const [languageOverride, setLanguageOverride] = useState<CodeLanguage | null>(null)
+  const [ignoreWhitespace, setIgnoreWhitespace] = useState(false)
+  const [ignoreComments, setIgnoreComments] = useState(false)
+  const [expandedFolds, setExpandedFolds] = useState<Set<number>>(new Set())
+
+  const activeLanguage = languageOverride ?? language
+
+  const diff = useMemo(
+    () => computeCodeDiff(textA, textB, activeLanguage, { ignoreWhitespace, ignoreComments }),
+    [textA, textB, activeLanguage, ignoreWhitespace, ignoreComments]
+  )
+
+  // Fold unchanged runs longer than the context around changes
+  const items = useMemo(() => {
+    const isChanged = (row: CodeDiffRow) => row.left?.kind !== 'equal' || row.right?.kind !== 'equal'
+    const result: DisplayItem[] = []
+    let k = 0
+    while (k < diff.rows.length) {
+      if (isChanged(diff.rows[k])) {
+        result.push({ type: 'row', row: diff.rows[k] })
+        k++
+        continue
+      }
+      let end = k
+      while (end < diff.rows.length && !isChanged(diff.rows[end])) end++
+      const keepBefore = k === 0 ? 0 : CONTEXT_LINES
+      const keepAfter = end === diff.rows.length ? 0 : CONTEXT_LINES
+      const hidden = end - k - keepBefore - keepAfter
+      if (hidden > 1 && !expandedFolds.has(k)) {
+        for (let i = k; i < k + keepBefore; i++) result.push({ type: 'row', row: diff.rows[i] })
+        result.push({ type: 'fold', start: k, count: hidden })
+        for (let i = end - keepAfter; i < end; i++) result.push({ type: 'row', row: diff.rows[i] })
+      } else {
+        for (let i = k; i < end; i++) result.push({ type: 'row', row: diff.rows[i] })
+      }
+      k = end
+    }
+    return result
+  }, [diff, expandedFolds])
+
+  const { stats } = diff
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Code diff toolbar */}
+      <div className="h-8 bg-surface/50 border-b border-border flex items-center justify-between px-3 text-[10px]">
+        <div className="flex items-center gap-2">
+          <select
+            value={activeLanguage}
+            onChange={e => setLanguageOverride(e.target.value as CodeLanguage)}
+            className="bg-background border border-border px-1 py-0.5 text-text-primary"
+            title="Language (detected from the file extension)"
+          >
+            {Object.entries(CODE_LANGUAGE_LABELS).map(([id, label]) => (
+              <option key={id} value={id}>{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setIgnoreWhitespace(!ignoreWhitespace)}
+            className={cn(
+              'flex items-center gap-1 px-2 py-0.5 font-medium transition-colors',
+              ignoreWhitespace ? 'bg-accent/20 text-accent' : 'text-text-muted hover:text-text-primary'
+            )}
+            title="Ignore whitespace changes"
+          >
+            <Space className="w-3 h-3" />
+            Ignore whitespace
+          </button>
+          <button
+            onClick={() => setIgnoreComments(!ignoreComments)}
+            className={cn(
+              'flex items-center gap-1 px-2 py-0.5 font-medium transition-colors',
+              ignoreComments ? 'bg-accent/20 text-accent' : 'text-text-muted hover:text-text-primary'
+            )}
+            title="Ignore comment changes"
+          >
+            <MessageSquareOff className="w-3 h-3" />
+            Ignore comments
+          </button>
+        </div>
+        <div className="flex items-center gap-3 tabular-nums">
+          {!diff.aligned && (
+            <span className="flex items-center gap-1 text-warning" title="Files too large to align line by line">
+              <AlertTriangle className="w-3 h-3" />
+              Not aligned
+            </span>
+          )}
+          <span className="text-red-400 font-medium">−{stats.removed}</span>
+          <span className="text-green-400 font-medium">+{stats.added}</span>
+          <span className="text-amber-400 font-medium">~{stats.modified}</span>
+          {stats.movedBlocks > 0 && (
+            <span className="flex items-center gap-1 text-blue-400 font-medium" title={`${stats.movedLines} lines in moved blocks`}>
+              <Move className="w-3 h-3" />
+              {stats.movedBlocks} moved
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Side-by-side rows */}
+      <div className="flex-1 overflow-auto font-mono text-xs">
+        {items.map((item, i) => (
+          <Fragment key={i}>
+            {item.type === 'row' ? (
+              <div className="flex border-b border-border/20">
+                <CodeCell cell={item.row.left} side="a" showLineNumbers={showLineNumbers} showWhitespace={showWhitespace} />
+                <div className="w-px flex-shrink-0 bg-border" />
+                <CodeCell cell={item.row.right} side="b" showLineNumbers={showLineNumbers} showWhitespace={showWhitespace} />
+              </div>
+            ) : (
+              <button
+                onClick={() => setExpandedFolds(new Set(expandedFolds).add(item.start))}
+                className="w-full flex items-center justify-center gap-1.5 py-0.5 bg-surface/60 text-[10px] text-text-muted hover:text-accent hover:bg-accent/10 transition-colors"
+              >
+                <UnfoldVertical className="w-3 h-3" />
+                {item.count} unchanged lines
+              </button>
+            )}
+          </Fragment>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+/**
+ * COLOR-001: Graded copy of a preview video or image
+ * Sits over the source element with the same object-fit and redraws through
+ * the clip's grade and LUT whenever the source shows a new frame or the grade
+ * changes, using the shared grade renderer. Renders nothing for ungraded
+ * clips, so the source shows through untouched.
+ */
+import { useEffect, useRef } from 'react'
+import { useLUTStore } from '../../stores/lutStore'
+import { isIdentityGrade, type CubeLUT } from '../../lib/colorGrade'
+import { getGradeSourceSize, getSharedColorGradeRenderer, type GradeSource } from '../../lib/webgl/ColorGradeRenderer'
+import type { ColorGrade, TimelineClip } from '../../types'
+
+interface ColorGradeLayerProps {
+  source: React.RefObject<GradeSource | null>
+  clip: TimelineClip | null
+  className?: string
+}
+
+export function ColorGradeLayer({ source, clip, className = 'w-full h-full object-contain' }: ColorGradeLayerProps) {
+  const grade = clip?.colorGrade
+  const lut = useLUTStore((state) => state.getLUT(grade?.lutId))
+
+  if (!grade || isIdentityGrade(grade, lut)) return null
+  // Remount for new media, whose element the source ref may now point at
+  return <GradeCanvas key={clip?.mediaId} source={source} grade={grade} lut={lut ?? null} className={className} />
+}
+
+interface GradeCanvasProps {
+  source: React.RefObject<GradeSource | null>
+  grade: ColorGrade
+  lut: CubeLUT | null
+  className: string
+}
+
+function GradeCanvas({ source, grade, lut, className }: GradeCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const element = source.current
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!element || !canvas || !ctx) return
+
+    const draw = () => {
+      if (element instanceof HTMLVideoElement && element.readyState < 2) return
+      if (element instanceof HTMLImageElement && !element.complete) return
+      const { width, height } = getGradeSourceSize(element)
+      if (!width || !height) return
+      const graded = getSharedColorGradeRenderer().apply(element, grade, lut)
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width
+        canvas.height = height
+      }
+      ctx.drawImage(graded, 0, 0, width, height)
+    }
+    draw()
+
+    // Redraw only when the source shows a new frame
+    if (element instanceof HTMLVideoElement) {
+      const hasRVFC = 'requestVideoFrameCallback' in HTMLVideoElement.prototype
+      let frameRequest = 0
+      const onVideoFrame = () => {
+        draw()
+        frameRequest = element.requestVideoFrameCallback(onVideoFrame)
+      }
+      if (hasRVFC) frameRequest = element.requestVideoFrameCallback(onVideoFrame)
+
+      const events = hasRVFC ? ['loadeddata', 'seeked'] : ['loadeddata', 'seeked', 'timeupdate']
+      events.forEach((event) => element.addEventListener(event, draw))
+      return () => {
+        if (hasRVFC) element.cancelVideoFrameCallback(frameRequest)
+        events.forEach((event) => element.removeEventListener(event, draw))
+      }
+    }
+
+    if (element instanceof HTMLImageElement) {
+      element.addEventListener('load', draw)
+      return () => element.removeEventListener('load', draw)
+    }
+  }, [source, grade, lut])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`absolute inset-0 pointer-events-none ${className}`}
+    />
+  )
+}
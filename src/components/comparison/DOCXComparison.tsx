@@ -142,7 +142,7 @@ export function DOCXComparison() {
         <div className="text-center">
           <FileText className="w-12 h-12 mx-auto mb-4 opacity-30" />
           <p className="text-lg">No Word documents loaded</p>
-          <p className="text-sm mt-2">Upload DOCX files to Track A and Track B</p>
+          <p className="text-sm mt-2">Upload DOCX or ODT files to Track A and Track B</p>
         </div>
       </div>
     )
@@ -5,6 +5,7 @@
 import { useRef, useEffect, useCallback, useState } from 'react'
 import { useTimelineStore } from '../../stores/timelineStore'
 import { useMediaStore } from '../../stores/mediaStore'
+import { useClipGrader } from '../../hooks/useClipGrader'
 import { cn } from '../../lib/utils'
 
 type HeatmapMode = 'absolute' | 'amplified' | 'threshold'
@@ -31,6 +32,9 @@ export function DifferenceHeatmap() {
   const rawMediaB = clipB ? getFile(clipB.mediaId) : null
   const mediaA = rawMediaA?.type === 'video' || rawMediaA?.type === 'image' ? rawMediaA : null
   const mediaB = rawMediaB?.type === 'video' || rawMediaB?.type === 'image' ? rawMediaB : null
+  // COLOR-001: Diff the colour-graded frames
+  const gradeA = useClipGrader(clipA)
+  const gradeB = useClipGrader(clipB)
 
   // Render the difference heatmap
   const renderFrame = useCallback(() => {
@@ -64,8 +68,8 @@ export function DifferenceHeatmap() {
     if (!ctxA || !ctxB) return
 
     // Draw videos to temp canvases
-    ctxA.drawImage(videoA, 0, 0, canvas.width, canvas.height)
-    ctxB.drawImage(videoB, 0, 0, canvas.width, canvas.height)
+    ctxA.drawImage(gradeA(videoA), 0, 0, canvas.width, canvas.height)
+    ctxB.drawImage(gradeB(videoB), 0, 0, canvas.width, canvas.height)
 
     // Get pixel data
     const dataA = ctxA.getImageData(0, 0, canvas.width, canvas.height)
@@ -130,7 +134,7 @@ export function DifferenceHeatmap() {
     if (isPlaying) {
       animationRef.current = requestAnimationFrame(renderFrame)
     }
-  }, [isPlaying, mode, threshold, amplification])
+  }, [isPlaying, mode, threshold, amplification, gradeA, gradeB])
 
   // Apply playback speed (VID-002)
   useEffect(() => {
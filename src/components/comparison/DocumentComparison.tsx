@@ -6,7 +6,8 @@ import { CSVComparison } from './CSVComparison'
 import { ExcelComparison } from './ExcelComparison'
 import { DOCXComparison } from './DOCXComparison'
 import { PDFComparison } from './PDFComparison'
-import { FileText, FileSpreadsheet, Table, Upload, File } from 'lucide-react'
+import { PPTXComparison } from './PPTXComparison'
+import { FileText, FileSpreadsheet, Table, Upload, File, Presentation } from 'lucide-react'
 import { cn } from '../../lib/utils'
 import type { MediaType } from '../../types'
 
@@ -34,7 +35,7 @@ const documentTypes: DocumentTypeConfig[] = [
   },
   {
     type: 'excel',
-    accept: '.xlsx,.xls',
+    accept: '.xlsx,.xls,.ods',
     label: 'Excel',
     icon: FileSpreadsheet,
     color: 'text-emerald-400',
@@ -44,7 +45,7 @@ const documentTypes: DocumentTypeConfig[] = [
   },
   {
     type: 'docx',
-    accept: '.docx',
+    accept: '.docx,.odt',
     label: 'Word',
     icon: FileText,
     color: 'text-blue-400',
@@ -61,6 +62,16 @@ const documentTypes: DocumentTypeConfig[] = [
     bgColor: 'bg-red-500/10 hover:bg-red-500/20',
     borderColor: 'border-red-500/30 hover:border-red-500/50',
     description: 'PDF files'
+  },
+  {
+    type: 'pptx',
+    accept: '.pptx',
+    label: 'PowerPoint',
+    icon: Presentation,
+    color: 'text-orange-400',
+    bgColor: 'bg-orange-500/10 hover:bg-orange-500/20',
+    borderColor: 'border-orange-500/30 hover:border-orange-500/50',
+    description: 'Slides & notes'
   }
 ]
 
@@ -92,7 +103,7 @@ export function DocumentComparison() {
     const typeB = mediaB?.type
 
     // Both files should be document types
-    const docTypes: MediaType[] = ['csv', 'excel', 'docx', 'pdf']
+    const docTypes: MediaType[] = ['csv', 'excel', 'docx', 'pdf', 'pptx']
 
     if (typeA && docTypes.includes(typeA)) return typeA
     if (typeB && docTypes.includes(typeB)) return typeB
@@ -151,7 +162,7 @@ export function DocumentComparison() {
 
           <h2 className="text-lg font-semibold text-text-primary mb-1">Document Comparison</h2>
           <p className="text-xs text-text-muted mb-4">
-            Upload CSV, Excel, Word, or PDF files to compare
+            Upload CSV, Excel, Word, PDF, PowerPoint or OpenDocument files to compare
           </p>
 
           {/* Upload sections for Track A and Track B - side by side */}
@@ -164,7 +175,7 @@ export function DocumentComparison() {
                 </div>
                 <span className="text-sm font-medium text-orange-400">Document A</span>
               </div>
-              <div className="grid grid-cols-4 gap-1.5">
+              <div className="grid grid-cols-5 gap-1.5">
                 {documentTypes.map((doc) => {
                   const Icon = doc.icon
                   return (
@@ -193,7 +204,7 @@ export function DocumentComparison() {
                 </div>
                 <span className="text-sm font-medium text-lime-400">Document B</span>
               </div>
-              <div className="grid grid-cols-4 gap-1.5">
+              <div className="grid grid-cols-5 gap-1.5">
                 {documentTypes.map((doc) => {
                   const Icon = doc.icon
                   return (
@@ -235,6 +246,8 @@ export function DocumentComparison() {
       return <DOCXComparison />
     case 'pdf':
       return <PDFComparison />
+    case 'pptx':
+      return <PPTXComparison />
     default:
       return (
         <div className="w-full h-full flex items-center justify-center text-text-muted">
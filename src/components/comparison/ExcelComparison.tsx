@@ -162,7 +162,7 @@ export function ExcelComparison() {
         <div className="text-center">
           <FileSpreadsheet className="w-12 h-12 mx-auto mb-4 opacity-30" />
           <p className="text-lg">No Excel files loaded</p>
-          <p className="text-sm mt-2">Upload Excel files (.xlsx, .xls) to Track A and Track B</p>
+          <p className="text-sm mt-2">Upload Excel or OpenDocument files (.xlsx, .xls, .ods) to Track A and Track B</p>
         </div>
       </div>
     )
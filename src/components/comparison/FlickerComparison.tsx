@@ -1,6 +1,7 @@
 /**
  * IMG-001: Flicker Comparison Mode
  * Alternates between images/videos A and B for spotting differences
+ * COLOR-001: Both layers show their clip's colour grade
  */
 import { useRef, useState, useEffect, useCallback, useMemo } from 'react'
 import { useTimelineStore } from '../../stores/timelineStore'
@@ -9,10 +10,14 @@ import { useMediaStore } from '../../stores/mediaStore'
 import { useSyncedZoom } from '../../hooks/useSyncedZoom'
 import { useOptimizedClipSync } from '../../hooks/useOptimizedVideoSync'
 import { cn } from '../../lib/utils'
+import { ColorGradeLayer } from './ColorGradeLayer'
+import type { TimelineClip } from '../../types'
 
 export function FlickerComparison() {
   const videoARef = useRef<HTMLVideoElement>(null)
   const videoBRef = useRef<HTMLVideoElement>(null)
+  const imgARef = useRef<HTMLImageElement>(null)
+  const imgBRef = useRef<HTMLImageElement>(null)
   const [showA, setShowA] = useState(true)
   const [flickerSpeed, setFlickerSpeed] = useState(500) // ms
   const [autoFlicker, setAutoFlicker] = useState(true)
@@ -89,7 +94,13 @@ export function FlickerComparison() {
 
   const transformStyle = getTransformStyle()
 
-  const renderMedia = (media: typeof mediaA, ref: React.RefObject<HTMLVideoElement | null>, track: 'a' | 'b') => {
+  const renderMedia = (
+    media: typeof mediaA,
+    ref: React.RefObject<HTMLVideoElement | null>,
+    imgRef: React.RefObject<HTMLImageElement | null>,
+    clip: TimelineClip | null,
+    track: 'a' | 'b'
+  ) => {
     if (!media) {
       return (
         <div className="w-full h-full flex items-center justify-center text-text-muted bg-surface">
@@ -100,19 +111,25 @@ export function FlickerComparison() {
 
     if (media.type === 'video') {
       return (
-        <video
-          ref={ref}
-          src={media.url}
-          className="w-full h-full object-contain"
-          data-track={track}
-          muted
-          playsInline
-        />
+        <>
+          <video
+            ref={ref}
+            src={media.url}
+            className="w-full h-full object-contain"
+            data-track={track}
+            muted
+            playsInline
+          />
+          <ColorGradeLayer source={ref} clip={clip} />
+        </>
       )
     }
 
     return (
-      <img src={media.url} className="w-full h-full object-contain" alt="" data-track={track} draggable={false} />
+      <>
+        <img ref={imgRef} src={media.url} className="w-full h-full object-contain" alt="" data-track={track} draggable={false} />
+        <ColorGradeLayer source={imgRef} clip={clip} />
+      </>
     )
   }
 
@@ -136,8 +153,8 @@ export function FlickerComparison() {
         'absolute inset-0 transition-opacity duration-75 overflow-hidden',
         showA ? 'opacity-100' : 'opacity-0'
       )}>
-        <div className="w-full h-full" style={transformStyle}>
-          {renderMedia(mediaA, videoARef, 'a')}
+        <div className="w-full h-full relative" style={transformStyle}>
+          {renderMedia(mediaA, videoARef, imgARef, displayClipA, 'a')}
         </div>
       </div>
 
@@ -146,8 +163,8 @@ export function FlickerComparison() {
         'absolute inset-0 transition-opacity duration-75 overflow-hidden',
         showA ? 'opacity-0' : 'opacity-100'
       )}>
-        <div className="w-full h-full" style={transformStyle}>
-          {renderMedia(mediaB, videoBRef, 'b')}
+        <div className="w-full h-full relative" style={transformStyle}>
+          {renderMedia(mediaB, videoBRef, imgBRef, displayClipB, 'b')}
         </div>
       </div>
 
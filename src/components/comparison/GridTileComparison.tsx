@@ -15,6 +15,7 @@ import { usePlaybackStore } from '../../stores/playbackStore'
 import { useMediaStore } from '../../stores/mediaStore'
 import { useProjectStore } from '../../stores/projectStore'
 import { useOptimizedClipSync } from '../../hooks/useOptimizedVideoSync'
+import { useClipGrader } from '../../hooks/useClipGrader'
 import { Grid, Play, Pause, RotateCcw } from 'lucide-react'
 
 export function GridTileComparison() {
@@ -70,6 +71,10 @@ export function GridTileComparison() {
   useOptimizedClipSync(videoARef, activeClipA || firstClipA)
   useOptimizedClipSync(videoBRef, activeClipB || firstClipB)
 
+  // COLOR-001: Draw the colour-graded frames
+  const gradeA = useClipGrader(displayClipA)
+  const gradeB = useClipGrader(displayClipB)
+
   // Handle image load
   const handleImageALoad = useCallback(() => {
     setImagesLoaded(prev => ({ ...prev, a: true }))
@@ -155,14 +160,14 @@ export function GridTileComparison() {
     const ctxB = tempCanvasB.getContext('2d')
 
     if (ctxA && sourceA && sourceAReady) {
-      ctxA.drawImage(sourceA, 0, 0, width, height)
+      ctxA.drawImage(gradeA(sourceA), 0, 0, width, height)
     } else if (ctxA) {
       ctxA.fillStyle = '#1a1a1a'
       ctxA.fillRect(0, 0, width, height)
     }
 
     if (ctxB && sourceB && sourceBReady) {
-      ctxB.drawImage(sourceB, 0, 0, width, height)
+      ctxB.drawImage(gradeB(sourceB), 0, 0, width, height)
     } else if (ctxB) {
       ctxB.fillStyle = '#252525'
       ctxB.fillRect(0, 0, width, height)
@@ -241,7 +246,7 @@ export function GridTileComparison() {
     }
 
     animationRef.current = requestAnimationFrame(render)
-  }, [mediaA, mediaB, gridTileSettings, imagesLoaded])
+  }, [mediaA, mediaB, gridTileSettings, imagesLoaded, gradeA, gradeB])
 
   // Start render loop
   useEffect(() => {
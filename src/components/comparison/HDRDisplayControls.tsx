@@ -0,0 +1,131 @@
+/**
+ * HDR-001: HDR Display Controls
+ * Exposure, tone map and gamma for OpenEXR / Radiance images, shared by A
+ * and B so both sides are viewed through the same transform. Shown while
+ * either side is an HDR image.
+ */
+
+import { useProjectStore } from '../../stores/projectStore'
+import { useMediaStore } from '../../stores/mediaStore'
+import { HDR_DISPLAY_DEFAULTS, HDR_TONE_MAPS } from '../../lib/hdrDisplay'
+import type { HDRToneMap, MediaFile } from '../../types'
+import { Sun, RotateCcw } from 'lucide-react'
+
+interface HDRDisplayControlsProps {
+  mediaA: MediaFile | null
+  mediaB: MediaFile | null
+}
+
+function formatLayer(layer: string): string {
+  return layer === '' ? 'Base' : layer
+}
+
+export function HDRDisplayControls({ mediaA, mediaB }: HDRDisplayControlsProps) {
+  const { webglComparisonSettings, setWebGLComparisonSettings } = useProjectStore()
+  const setHDRLayer = useMediaStore(state => state.setHDRLayer)
+
+  if (!mediaA?.hdr && !mediaB?.hdr) return null
+
+  const exposure = webglComparisonSettings.hdrExposure ?? HDR_DISPLAY_DEFAULTS.exposure
+  const gamma = webglComparisonSettings.hdrGamma ?? HDR_DISPLAY_DEFAULTS.gamma
+  const toneMap = webglComparisonSettings.hdrToneMap ?? HDR_DISPLAY_DEFAULTS.toneMap
+
+  const sides = [
+    { label: 'A', media: mediaA },
+    { label: 'B', media: mediaB },
+  ]
+
+  return (
+    <div className="absolute bottom-14 left-4 z-20 bg-black/80 rounded px-3 py-2 text-xs text-white space-y-2 w-64">
+      <div className="flex items-center gap-2">
+        <Sun size={14} className="text-yellow-400" />
+        <span className="font-semibold">HDR Display</span>
+        <button
+          onClick={() => setWebGLComparisonSettings({
+            hdrExposure: HDR_DISPLAY_DEFAULTS.exposure,
+            hdrGamma: HDR_DISPLAY_DEFAULTS.gamma,
+            hdrToneMap: HDR_DISPLAY_DEFAULTS.toneMap,
+          })}
+          className="ml-auto p-1 rounded bg-gray-700 hover:bg-gray-600"
+          title="Reset exposure, tone map and gamma"
+        >
+          <RotateCcw size={12} />
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-gray-400" title="Exposure in stops (x2 per stop)">
+        <span className="w-14">Exposure</span>
+        <input
+          type="range"
+          min={-10}
+          max={10}
+          step={0.1}
+          value={exposure}
+          onChange={e => setWebGLComparisonSettings({ hdrExposure: parseFloat(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-10 text-right font-mono text-white">{exposure > 0 ? '+' : ''}{exposure.toFixed(1)}</span>
+      </label>
+
+      <label className="flex items-center gap-2 text-gray-400" title="Display gamma applied after the tone map">
+        <span className="w-14">Gamma</span>
+        <input
+          type="range"
+          min={1}
+          max={3}
+          step={0.05}
+          value={gamma}
+          onChange={e => setWebGLComparisonSettings({ hdrGamma: parseFloat(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-10 text-right font-mono text-white">{gamma.toFixed(2)}</span>
+      </label>
+
+      <label className="flex items-center gap-2 text-gray-400">
+        <span className="w-14">Tone map</span>
+        <select
+          value={toneMap}
+          onChange={e => setWebGLComparisonSettings({ hdrToneMap: e.target.value as HDRToneMap })}
+          className="flex-1 bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-white"
+          title={HDR_TONE_MAPS[toneMap].description}
+        >
+          {(Object.keys(HDR_TONE_MAPS) as HDRToneMap[]).map(id => (
+            <option key={id} value={id}>{HDR_TONE_MAPS[id].label}</option>
+          ))}
+        </select>
+      </label>
+
+      {/* Per-side format, peak and EXR layer */}
+      <div className="border-t border-gray-700 pt-2 space-y-1">
+        {sides.map(({ label, media }) => (
+          <div key={label} className="flex items-center gap-2 text-gray-400">
+            <span className="w-4 font-semibold text-white">{label}</span>
+            {media?.hdr ? (
+              <>
+                <span className="font-mono">
+                  {media.hdr.format.toUpperCase()} {media.hdr.pixelType} • peak {media.hdr.peak.toFixed(1)}
+                </span>
+                {media.hdr.layers.length > 1 && (
+                  <select
+                    value={media.hdr.layer}
+                    onChange={e => {
+                      setHDRLayer(media.id, e.target.value).catch(err => console.error('Failed to switch EXR layer:', err))
+                    }}
+                    className="ml-auto max-w-[90px] bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-white"
+                    title={`Layer (${media.hdr.channels.length} channels)`}
+                  >
+                    {media.hdr.layers.map(layer => (
+                      <option key={layer} value={layer}>{formatLayer(layer)}</option>
+                    ))}
+                  </select>
+                )}
+              </>
+            ) : (
+              <span>8-bit (display-referred)</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,11 @@
 /**
  * JSON Diff View - Dedicated JSON comparison mode
+ * STRUCT-001: Also YAML, TOML and XML files
  */
 import { useState, useRef } from 'react'
 import { useProjectStore } from '../../stores/projectStore'
 import { cn } from '../../lib/utils'
+import { STRUCTURED_ACCEPT } from '../../lib/structuredData'
 import { JsonTreeDiff } from './JsonTreeDiff'
 import {
   Upload,
@@ -86,14 +88,14 @@ export function JsonDiffView() {
               <input
                 ref={fileInputARef}
                 type="file"
-                accept=".json"
+                accept={STRUCTURED_ACCEPT}
                 onChange={handleFileUpload('a')}
                 className="hidden"
               />
               <button
                 onClick={() => fileInputARef.current?.click()}
                 className="p-1.5 text-text-muted hover:text-accent hover:bg-surface-hover transition-colors"
-                title="Upload JSON file"
+                title="Upload JSON, YAML, TOML or XML file"
               >
                 <Upload className="w-3.5 h-3.5" />
               </button>
@@ -173,14 +175,14 @@ export function JsonDiffView() {
               <input
                 ref={fileInputBRef}
                 type="file"
-                accept=".json"
+                accept={STRUCTURED_ACCEPT}
                 onChange={handleFileUpload('b')}
                 className="hidden"
               />
               <button
                 onClick={() => fileInputBRef.current?.click()}
                 className="p-1.5 text-text-muted hover:text-secondary hover:bg-surface-hover transition-colors"
-                title="Upload JSON file"
+                title="Upload JSON, YAML, TOML or XML file"
               >
                 <Upload className="w-3.5 h-3.5" />
               </button>
@@ -1,9 +1,20 @@
 /**
  * TXT-004: JSON Tree Diff
  * Professional side-by-side JSON comparison with tree view
+ * STRUCT-001: YAML, TOML and XML diff in the same tree, with XML attributes
+ * and YAML anchors / aliases marked on their nodes
  */
 import { useState, useMemo } from 'react'
 import { cn } from '../../lib/utils'
+import {
+  detectStructuredFormat,
+  parseStructuredData,
+  STRUCTURED_FORMAT_LABELS,
+  XML_ATTRIBUTE_PREFIX,
+  XML_TEXT_KEY,
+  type StructuredFormat,
+  type StructuredNodeInfo,
+} from '../../lib/structuredData'
 import {
   ChevronRight,
   ChevronDown,
@@ -14,7 +25,8 @@ import {
   EyeOff,
   Layers,
   Copy,
-  Check
+  Check,
+  AlertTriangle
 } from 'lucide-react'
 
 interface JsonTreeDiffProps {
@@ -35,20 +47,11 @@ interface DiffNode {
   isArray?: boolean
 }
 
-function parseJSON(str: string): unknown {
-  try {
-    return JSON.parse(str)
-  } catch {
-    const lines = str.split('\n')
-    const result: Record<string, string> = {}
-    for (const line of lines) {
-      const match = line.match(/^(\s*)([^:]+):\s*(.*)$/)
-      if (match) {
-        result[match[2].trim()] = match[3].trim()
-      }
-    }
-    return Object.keys(result).length > 0 ? result : str
-  }
+// STRUCT-001: Format details shown on tree nodes
+interface TreeContext {
+  format: StructuredFormat | null
+  nodeInfoA: Map<string, StructuredNodeInfo>
+  nodeInfoB: Map<string, StructuredNodeInfo>
 }
 
 function compareValues(a: unknown, b: unknown): DiffType {
@@ -65,7 +68,8 @@ function buildDiffTree(a: unknown, b: unknown, key: string = 'root', path: strin
   if (
     a && b &&
     typeof a === 'object' && typeof b === 'object' &&
-    !Array.isArray(a) && !Array.isArray(b)
+    !Array.isArray(a) && !Array.isArray(b) &&
+    !(a instanceof Date) && !(b instanceof Date)
   ) {
     const aObj = a as Record<string, unknown>
     const bObj = b as Record<string, unknown>
@@ -103,6 +107,7 @@ function formatValue(val: unknown, truncate = true): string {
   }
   if (typeof val === 'boolean') return String(val)
   if (typeof val === 'number') return String(val)
+  if (val instanceof Date) return val.toISOString()
   if (Array.isArray(val)) return `[${val.length} items]`
   if (typeof val === 'object') return `{${Object.keys(val).length} keys}`
   return String(val)
@@ -114,11 +119,39 @@ function getTypeColor(val: unknown): string {
   if (typeof val === 'string') return 'text-green-400'
   if (typeof val === 'number') return 'text-blue-400'
   if (typeof val === 'boolean') return 'text-yellow-400'
+  if (val instanceof Date) return 'text-cyan-400'
   return 'text-text-secondary'
 }
 
 // Tree Node Component
-function TreeNode({ node, depth = 0, showUnchanged }: { node: DiffNode; depth?: number; showUnchanged: boolean }) {
+// STRUCT-001: Key label by format (XML attributes, text and elements)
+function NodeKey({ node, format }: { node: DiffNode; format: StructuredFormat | null }) {
+  if (node.isArray) return <span className="font-medium text-blue-300">[{node.key}]</span>
+  if (format === 'xml') {
+    if (node.key === XML_TEXT_KEY) return <span className="italic text-text-muted">text</span>
+    if (node.key.startsWith(XML_ATTRIBUTE_PREFIX)) {
+      return <span className="text-amber-300">@{node.key.slice(XML_ATTRIBUTE_PREFIX.length)}</span>
+    }
+    return <span className="font-medium text-purple-400">&lt;{node.key}&gt;</span>
+  }
+  return <span className="font-medium text-purple-400">{node.key}</span>
+}
+
+// STRUCT-001: YAML anchor (&), alias (*) and merge (<<) markers
+function NodeInfoBadges({ info }: { info?: StructuredNodeInfo }) {
+  if (!info) return null
+  return (
+    <>
+      {info.anchor && <span className="text-[10px] text-teal-400" title="Anchor">&amp;{info.anchor}</span>}
+      {info.alias && <span className="text-[10px] text-pink-400" title="Alias">*{info.alias}</span>}
+      {info.merges?.map(source => (
+        <span key={source} className="text-[10px] text-pink-400" title="Merged mapping">&lt;&lt; *{source}</span>
+      ))}
+    </>
+  )
+}
+
+function TreeNode({ node, depth = 0, showUnchanged, context }: { node: DiffNode; depth?: number; showUnchanged: boolean; context: TreeContext }) {
   const [isExpanded, setIsExpanded] = useState(depth < 3 || node.type !== 'unchanged')
   const hasChildren = node.children && node.children.length > 0
 
@@ -169,12 +202,8 @@ function TreeNode({ node, depth = 0, showUnchanged }: { node: DiffNode; depth?:
         </span>
 
         {/* Key */}
-        <span className={cn(
-          'font-medium',
-          node.isArray ? 'text-blue-300' : 'text-purple-400'
-        )}>
-          {node.isArray ? `[${node.key}]` : node.key}
-        </span>
+        <NodeKey node={node} format={context.format} />
+        <NodeInfoBadges info={context.nodeInfoB.get(node.path) ?? context.nodeInfoA.get(node.path)} />
 
         {/* Colon */}
         {!hasChildren && <span className="text-text-muted">:</span>}
@@ -215,7 +244,7 @@ function TreeNode({ node, depth = 0, showUnchanged }: { node: DiffNode; depth?:
       {hasChildren && isExpanded && (
         <div>
           {filteredChildren.map((child, i) => (
-            <TreeNode key={`${child.path}-${i}`} node={child} depth={depth + 1} showUnchanged={showUnchanged} />
+            <TreeNode key={`${child.path}-${i}`} node={child} depth={depth + 1} showUnchanged={showUnchanged} context={context} />
           ))}
         </div>
       )}
@@ -310,11 +339,19 @@ export function JsonTreeDiff({ jsonA, jsonB }: JsonTreeDiffProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('tree')
   const [copied, setCopied] = useState<'a' | 'b' | null>(null)
 
-  const diffTree = useMemo(() => {
-    const parsedA = parseJSON(jsonA)
-    const parsedB = parseJSON(jsonB)
-    return buildDiffTree(parsedA, parsedB)
-  }, [jsonA, jsonB])
+  const parsedA = useMemo(() => parseStructuredData(jsonA), [jsonA])
+  const parsedB = useMemo(() => parseStructuredData(jsonB), [jsonB])
+  const diffTree = useMemo(() => buildDiffTree(parsedA.value, parsedB.value), [parsedA, parsedB])
+  const context = useMemo<TreeContext>(() => ({
+    format: parsedB.format ?? parsedA.format,
+    nodeInfoA: parsedA.nodeInfo,
+    nodeInfoB: parsedB.nodeInfo,
+  }), [parsedA, parsedB])
+  const parseError = parsedA.error ?? parsedB.error
+  const formatLabels = [...new Set([parsedA.format, parsedB.format])]
+    .filter((format): format is StructuredFormat => format !== null)
+    .map(format => STRUCTURED_FORMAT_LABELS[format])
+  const formatLabel = formatLabels.join(' → ')
 
   const stats = useMemo(() => {
     let added = 0, removed = 0, modified = 0, unchanged = 0
@@ -370,6 +407,16 @@ export function JsonTreeDiff({ jsonA, jsonB }: JsonTreeDiffProps) {
               {stats.unchanged} unchanged
             </span>
           )}
+          {/* STRUCT-001: Detected formats */}
+          {formatLabel && (
+            <span className="text-[10px] font-mono text-text-secondary">{formatLabel}</span>
+          )}
+          {parseError && (
+            <span className="flex items-center gap-1 text-[10px] text-warning" title={parseError}>
+              <AlertTriangle className="w-3 h-3" />
+              Parse error
+            </span>
+          )}
         </div>
 
         {/* View controls */}
@@ -440,14 +487,14 @@ export function JsonTreeDiff({ jsonA, jsonB }: JsonTreeDiffProps) {
           diffTree.children && diffTree.children.length > 0 ? (
             <div className="py-1">
               {diffTree.children.map((child, i) => (
-                <TreeNode key={`${child.path}-${i}`} node={child} showUnchanged={showUnchanged} />
+                <TreeNode key={`${child.path}-${i}`} node={child} showUnchanged={showUnchanged} context={context} />
               ))}
             </div>
           ) : (
             <div className="h-full flex items-center justify-center text-text-muted">
               <div className="text-center">
                 <Layers className="w-8 h-8 mx-auto mb-2 opacity-30" />
-                <p className="text-sm">No JSON structure to compare</p>
+                <p className="text-sm">No structured data to compare</p>
               </div>
             </div>
           )
@@ -460,16 +507,5 @@ export function JsonTreeDiff({ jsonA, jsonB }: JsonTreeDiffProps) {
 }
 
 export function isStructuredData(content: string): boolean {
-  const trimmed = content.trim()
-  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
-    try {
-      JSON.parse(trimmed)
-      return true
-    } catch {
-      return false
-    }
-  }
-  const lines = trimmed.split('\n')
-  const yamlLikeLines = lines.filter(line => /^\s*[a-zA-Z_][a-zA-Z0-9_]*\s*:/.test(line))
-  return yamlLikeLines.length > lines.length * 0.5
+  return detectStructuredFormat(content) !== null
 }
@@ -1,10 +1,16 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { Search } from 'lucide-react'
+import { useClipGrader } from '../../hooks/useClipGrader'
+import type { GradeSource } from '../../lib/webgl/ColorGradeRenderer'
+import type { TimelineClip } from '../../types'
 
 interface MagnifierLoupeProps {
   sourceARef: React.RefObject<HTMLImageElement | HTMLVideoElement | null>
   sourceBRef: React.RefObject<HTMLImageElement | HTMLVideoElement | null>
   containerRef: React.RefObject<HTMLDivElement | null>
+  // COLOR-001: Clips whose colour grade the loupes show
+  clipA?: TimelineClip | null
+  clipB?: TimelineClip | null
   isEnabled: boolean
   onToggle: () => void
 }
@@ -23,12 +29,16 @@ export function MagnifierLoupe({
   sourceARef,
   sourceBRef,
   containerRef,
+  clipA,
+  clipB,
   isEnabled,
   onToggle,
 }: MagnifierLoupeProps) {
   const [position, setPosition] = useState<LoupePosition | null>(null)
   const canvasARef = useRef<HTMLCanvasElement>(null)
   const canvasBRef = useRef<HTMLCanvasElement>(null)
+  const gradeA = useClipGrader(clipA)
+  const gradeB = useClipGrader(clipB)
 
   const updateLoupe = useCallback((e: MouseEvent) => {
     if (!containerRef.current) return
@@ -47,6 +57,7 @@ export function MagnifierLoupe({
   const drawLoupe = useCallback((
     canvas: HTMLCanvasElement | null,
     source: HTMLImageElement | HTMLVideoElement | null,
+    grade: (source: GradeSource) => GradeSource,
     sourceX: number,
     sourceY: number
   ) => {
@@ -74,7 +85,7 @@ export function MagnifierLoupe({
     // Clear and draw
     ctx.clearRect(0, 0, LOUPE_SIZE, LOUPE_SIZE)
     ctx.drawImage(
-      source,
+      grade(source),
       Math.max(0, sx),
       Math.max(0, sy),
       regionSize,
@@ -99,9 +110,9 @@ export function MagnifierLoupe({
   useEffect(() => {
     if (!isEnabled || !position) return
 
-    drawLoupe(canvasARef.current, sourceARef.current, position.sourceX, position.sourceY)
-    drawLoupe(canvasBRef.current, sourceBRef.current, position.sourceX, position.sourceY)
-  }, [isEnabled, position, sourceARef, sourceBRef, drawLoupe])
+    drawLoupe(canvasARef.current, sourceARef.current, gradeA, position.sourceX, position.sourceY)
+    drawLoupe(canvasBRef.current, sourceBRef.current, gradeB, position.sourceX, position.sourceY)
+  }, [isEnabled, position, sourceARef, sourceBRef, gradeA, gradeB, drawLoupe])
 
   useEffect(() => {
     if (!isEnabled || !containerRef.current) return
@@ -0,0 +1,140 @@
+/**
+ * MESHDIFF-001: Mesh Distance Panel
+ * Legend and statistics of the 3D distance view: mean / max / RMS of the
+ * nearest-surface distance in both directions, the symmetric Hausdorff
+ * distance, and bounding box and topology of each model.
+ */
+
+import { Loader2 } from 'lucide-react'
+import { DISTANCE_RAMP_CSS, type MeshTopologyStats } from '../../lib/meshHeatmap'
+import type { DistanceStats, MeshDistanceResult } from '../../lib/meshDistance'
+
+interface MeshDistancePanelProps {
+  statsA: MeshTopologyStats | null
+  statsB: MeshTopologyStats | null
+  result: MeshDistanceResult | null
+  error: string | null
+  isComputing: boolean
+  maxDistance: number
+  range: number // Legend maximum as a fraction of the Hausdorff distance
+  onRangeChange: (range: number) => void
+}
+
+function formatDistance(value: number): string {
+  if (value === 0) return '0'
+  return Math.abs(value) >= 1000 || Math.abs(value) < 0.001 ? value.toExponential(2) : value.toPrecision(3)
+}
+
+function getDiagonal(stats: MeshTopologyStats): number {
+  return Math.hypot(...stats.boundsMax.map((max, i) => max - stats.boundsMin[i]))
+}
+
+function DistanceRow({ label, stats }: { label: string; stats: DistanceStats }) {
+  return (
+    <tr>
+      <td className="pr-3 text-text-muted">{label}</td>
+      <td className="pr-3 text-right font-mono">{formatDistance(stats.mean)}</td>
+      <td className="pr-3 text-right font-mono">{formatDistance(stats.max)}</td>
+      <td className="text-right font-mono">{formatDistance(stats.rms)}</td>
+    </tr>
+  )
+}
+
+function TopologyColumn({ side, stats }: { side: 'A' | 'B'; stats: MeshTopologyStats }) {
+  const size = stats.boundsMax.map((max, i) => formatDistance(max - stats.boundsMin[i])).join(' × ')
+  return (
+    <div className="space-y-0.5 min-w-0">
+      <div className="font-semibold text-text-primary">{side}</div>
+      <div>{stats.vertices.toLocaleString()} vertices</div>
+      {stats.triangles > 0 && <div>{stats.triangles.toLocaleString()} triangles</div>}
+      {stats.points > 0 && <div>{stats.points.toLocaleString()} points</div>}
+      <div>{stats.meshes} meshes, {stats.materials.length} materials</div>
+      <div className="font-mono">{size}</div>
+      {stats.materials.length > 0 && (
+        <div className="truncate opacity-70" title={stats.materials.join(', ')}>
+          {stats.materials.join(', ')}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function MeshDistancePanel({
+  statsA,
+  statsB,
+  result,
+  error,
+  isComputing,
+  maxDistance,
+  range,
+  onRangeChange,
+}: MeshDistancePanelProps) {
+  const diagonal = statsA ? getDiagonal(statsA) : 0
+
+  return (
+    <div className="w-80 bg-black/70 backdrop-blur-sm px-3 py-2 rounded-lg text-xs text-text-secondary space-y-2">
+      {isComputing && (
+        <div className="flex items-center gap-2 text-text-muted">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Measuring distances…
+        </div>
+      )}
+      {error && <div className="text-error">{error}</div>}
+
+      {result && (
+        <>
+          {/* Legend */}
+          <div>
+            <div className="h-2 rounded" style={{ background: DISTANCE_RAMP_CSS }} />
+            <div className="flex justify-between mt-0.5 font-mono text-text-muted">
+              <span>0</span>
+              <span>{formatDistance(maxDistance)}{range < 1 ? '+' : ''}</span>
+            </div>
+            <div className="flex items-center gap-2 mt-1">
+              <span className="text-text-muted">Range</span>
+              <input
+                type="range"
+                min={0.05}
+                max={1}
+                step={0.05}
+                value={range}
+                onChange={e => onRangeChange(parseFloat(e.target.value))}
+                className="flex-1"
+              />
+              <span className="w-8 text-right font-mono">{Math.round(range * 100)}%</span>
+            </div>
+          </div>
+
+          {/* Distance statistics, in model units */}
+          <table className="w-full">
+            <thead>
+              <tr className="text-text-muted">
+                <th />
+                <th className="pr-3 text-right font-normal">Mean</th>
+                <th className="pr-3 text-right font-normal">Max</th>
+                <th className="text-right font-normal">RMS</th>
+              </tr>
+            </thead>
+            <tbody className="text-text-primary">
+              <DistanceRow label="A → B" stats={result.aToB} />
+              <DistanceRow label="B → A" stats={result.bToA} />
+            </tbody>
+          </table>
+          <div className="text-text-primary">
+            Hausdorff <span className="font-mono">{formatDistance(result.hausdorff)}</span>
+            {diagonal > 0 && (
+              <span className="text-text-muted"> ({((result.hausdorff / diagonal) * 100).toFixed(2)}% of A's diagonal)</span>
+            )}
+          </div>
+        </>
+      )}
+
+      {statsA && statsB && (
+        <div className="grid grid-cols-2 gap-3 pt-2 border-t border-white/10">
+          <TopologyColumn side="A" stats={statsA} />
+          <TopologyColumn side="B" stats={statsB} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,290 @@
+/**
+ * MASK-001: Metric Mask Editor
+ * Paint brush strokes or draw polygons over the comparison to restrict every
+ * metric to a region (e.g. faces). Shapes are stored in normalized
+ * coordinates with the project, like the ROI.
+ */
+
+import { useState, useRef, useEffect, useCallback, useId } from 'react'
+import { useProjectStore } from '../../stores/projectStore'
+import { isMaskActive } from '../../lib/metricMask'
+import type { MaskShape } from '../../types'
+import { Brush, Pentagon, Eraser, Undo2, Trash2, Eye, EyeOff, Check } from 'lucide-react'
+
+type MaskTool = 'brush' | 'polygon'
+
+// Polygon closes when clicking within this distance of the first vertex (normalized x)
+const CLOSE_DISTANCE = 0.015
+// Minimum spacing between recorded brush points (normalized x)
+const BRUSH_SPACING = 0.003
+
+const MASK_COLOR = '#22d3ee'
+
+export function MetricMaskEditor() {
+  const {
+    webglComparisonSettings,
+    addMaskShape,
+    undoMaskShape,
+    setMetricMask,
+    toggleMetricMask,
+    toggleMaskEditor,
+  } = useProjectStore()
+  const { metricMask, showMaskEditor } = webglComparisonSettings
+
+  const [tool, setTool] = useState<MaskTool>('brush')
+  const [erase, setErase] = useState(false)
+  const [brushRadius, setBrushRadius] = useState(0.02)
+  const [draft, setDraft] = useState<MaskShape | null>(null)
+  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null)
+  const [aspect, setAspect] = useState(9 / 16)
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const maskId = useId()
+  const active = isMaskActive(metricMask)
+  const visible = showMaskEditor || active
+
+  // Draw in a viewBox of 1 x aspect so brush circles stay round
+  useEffect(() => {
+    const el = overlayRef.current
+    if (!el) return
+    const observer = new ResizeObserver(() => {
+      if (el.clientWidth > 0) setAspect(el.clientHeight / el.clientWidth)
+    })
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [visible])
+
+  const toNormalized = useCallback((e: React.MouseEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    }
+  }, [])
+
+  const commitPolygon = useCallback(() => {
+    if (draft?.type === 'polygon' && draft.points.length >= 3) {
+      addMaskShape(draft)
+    }
+    setDraft(null)
+  }, [draft, addMaskShape])
+
+  // Enter closes the polygon, Escape drops the draft
+  useEffect(() => {
+    if (!showMaskEditor) return
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setDraft(null)
+      if (e.key === 'Enter') commitPolygon()
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  }, [showMaskEditor, commitPolygon])
+
+  const handleMouseDown = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    if (e.button !== 0) return
+    const point = toNormalized(e)
+
+    if (tool === 'brush') {
+      setDraft({ type: 'brush', points: [point], radius: brushRadius, erase })
+      return
+    }
+
+    // Polygon: add a vertex, or close when clicking the first one
+    if (draft?.type === 'polygon') {
+      const first = draft.points[0]
+      const dx = point.x - first.x
+      const dy = (point.y - first.y) * aspect
+      if (draft.points.length >= 3 && Math.sqrt(dx * dx + dy * dy) < CLOSE_DISTANCE) {
+        commitPolygon()
+      } else {
+        setDraft({ ...draft, points: [...draft.points, point] })
+      }
+    } else {
+      setDraft({ type: 'polygon', points: [point], radius: 0, erase })
+    }
+  }, [tool, brushRadius, erase, draft, aspect, toNormalized, commitPolygon])
+
+  const handleMouseMove = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    const point = toNormalized(e)
+    setCursor(point)
+
+    if (draft?.type === 'brush') {
+      const last = draft.points[draft.points.length - 1]
+      const dx = point.x - last.x
+      const dy = (point.y - last.y) * aspect
+      if (Math.sqrt(dx * dx + dy * dy) >= BRUSH_SPACING) {
+        setDraft({ ...draft, points: [...draft.points, point] })
+      }
+    }
+  }, [draft, aspect, toNormalized])
+
+  const handleMouseUp = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    if (draft?.type === 'brush') {
+      addMaskShape(draft)
+      setDraft(null)
+    }
+  }, [draft, addMaskShape])
+
+  const handleMouseLeave = useCallback(() => {
+    setCursor(null)
+    if (draft?.type === 'brush') {
+      addMaskShape(draft)
+      setDraft(null)
+    }
+  }, [draft, addMaskShape])
+
+  const handleDoubleClick = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation()
+    commitPolygon()
+  }, [commitPolygon])
+
+  const shapes = metricMask?.shapes ?? []
+  if (!visible) return null
+
+  const renderShape = (shape: MaskShape, key: string | number, fill: string) => {
+    const points = shape.points.map(p => `${p.x},${p.y * aspect}`).join(' ')
+    if (shape.type === 'polygon') {
+      return <polygon key={key} points={points} fill={fill} />
+    }
+    return shape.points.length === 1 ? (
+      <circle key={key} cx={shape.points[0].x} cy={shape.points[0].y * aspect} r={shape.radius} fill={fill} />
+    ) : (
+      <polyline
+        key={key}
+        points={points}
+        fill="none"
+        stroke={fill}
+        strokeWidth={shape.radius * 2}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    )
+  }
+
+  return (
+    <>
+      <div
+        ref={overlayRef}
+        className={`absolute inset-0 z-20 ${showMaskEditor ? '' : 'pointer-events-none'}`}
+        style={{ cursor: showMaskEditor ? 'crosshair' : undefined }}
+        onMouseDown={showMaskEditor ? handleMouseDown : undefined}
+        onMouseMove={showMaskEditor ? handleMouseMove : undefined}
+        onMouseUp={showMaskEditor ? handleMouseUp : undefined}
+        onMouseLeave={showMaskEditor ? handleMouseLeave : undefined}
+        onDoubleClick={showMaskEditor ? handleDoubleClick : undefined}
+      >
+        <svg className="w-full h-full" viewBox={`0 0 1 ${aspect}`} preserveAspectRatio="none">
+          <defs>
+            {/* Shapes in order: white adds, black erases */}
+            <mask id={maskId} maskUnits="userSpaceOnUse" x={0} y={0} width={1} height={aspect}>
+              {shapes.map((shape, i) => renderShape(shape, i, shape.erase ? 'black' : 'white'))}
+            </mask>
+          </defs>
+          {metricMask?.enabled !== false && (
+            <rect x={0} y={0} width={1} height={aspect} fill={MASK_COLOR} fillOpacity={0.3} mask={`url(#${maskId})`} />
+          )}
+          {draft && (
+            <g opacity={0.6}>
+              {draft.type === 'polygon' ? (
+                <polyline
+                  points={[...draft.points, ...(cursor ? [cursor] : [])].map(p => `${p.x},${p.y * aspect}`).join(' ')}
+                  fill="none"
+                  stroke={draft.erase ? '#ef4444' : MASK_COLOR}
+                  strokeWidth={0.002}
+                />
+              ) : (
+                renderShape(draft, 'draft', draft.erase ? '#ef4444' : MASK_COLOR)
+              )}
+            </g>
+          )}
+          {showMaskEditor && tool === 'brush' && cursor && (
+            <circle
+              cx={cursor.x}
+              cy={cursor.y * aspect}
+              r={brushRadius}
+              fill="none"
+              stroke={erase ? '#ef4444' : 'white'}
+              strokeWidth={0.0015}
+            />
+          )}
+        </svg>
+      </div>
+
+      {/* Toolbar */}
+      {showMaskEditor && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30 bg-black/80 rounded px-3 py-2 flex items-center gap-2 text-xs text-white">
+          <span className="text-gray-400 mr-1">Metric Mask</span>
+          <button
+            onClick={() => { setTool('brush'); setDraft(null) }}
+            className={`p-1.5 rounded ${tool === 'brush' ? 'bg-[#ff5722]' : 'bg-gray-700 hover:bg-gray-600'}`}
+            title="Brush"
+          >
+            <Brush size={14} />
+          </button>
+          <button
+            onClick={() => { setTool('polygon'); setDraft(null) }}
+            className={`p-1.5 rounded ${tool === 'polygon' ? 'bg-[#ff5722]' : 'bg-gray-700 hover:bg-gray-600'}`}
+            title="Polygon (click vertices, double-click or Enter to close)"
+          >
+            <Pentagon size={14} />
+          </button>
+          <button
+            onClick={() => setErase(v => !v)}
+            className={`p-1.5 rounded ${erase ? 'bg-red-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            title="Erase from the mask"
+          >
+            <Eraser size={14} />
+          </button>
+          {tool === 'brush' && (
+            <label className="flex items-center gap-1 text-gray-400" title="Brush radius">
+              Size
+              <input
+                type="range"
+                min={0.005}
+                max={0.1}
+                step={0.005}
+                value={brushRadius}
+                onChange={e => setBrushRadius(parseFloat(e.target.value))}
+                className="w-20"
+              />
+            </label>
+          )}
+          <div className="w-px h-5 bg-gray-600" />
+          <button
+            onClick={undoMaskShape}
+            disabled={shapes.length === 0}
+            className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+            title="Undo last shape"
+          >
+            <Undo2 size={14} />
+          </button>
+          <button
+            onClick={() => setMetricMask(null)}
+            disabled={shapes.length === 0}
+            className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+            title="Clear mask"
+          >
+            <Trash2 size={14} />
+          </button>
+          <button
+            onClick={toggleMetricMask}
+            disabled={!metricMask}
+            className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+            title={metricMask?.enabled === false ? 'Use mask for metrics' : 'Ignore mask (full ROI metrics)'}
+          >
+            {metricMask?.enabled === false ? <EyeOff size={14} /> : <Eye size={14} />}
+          </button>
+          <button
+            onClick={() => { setDraft(null); toggleMaskEditor() }}
+            className="p-1.5 rounded bg-[#ff5722] hover:bg-[#ff7043]"
+            title="Done"
+          >
+            <Check size={14} />
+          </button>
+        </div>
+      )}
+    </>
+  )
+}
@@ -1,11 +1,33 @@
 /**
  * VID-004: Video Quality Metrics Overlay
+ * METRICS-002: Selectable MS-SSIM, CIEDE2000 and per-channel PSNR
+ * METRICS-004: No-reference sharpness, noise and naturalness for A and B
  */
+import { useState } from 'react'
 import { useProjectStore } from '../../stores/projectStore'
-import { Activity } from 'lucide-react'
+import { QUALITY_METRICS } from '../../lib/metrics'
+import type { NoReferenceScores, QualityMetricId } from '../../types'
+import { Activity, Settings2 } from 'lucide-react'
+
+// Metrics computed by calculateVideoMetrics (CIE94 is only available in WebGL analysis)
+const OVERLAY_METRICS: QualityMetricId[] = ['ssim', 'ms-ssim', 'psnr', 'psnr-ycbcr', 'delta-e2000', 'sharpness', 'noise', 'naturalness']
 
 export function MetricsOverlay() {
-  const { showMetrics, metricsSSIM, metricsPSNR, toggleMetrics } = useProjectStore()
+  const {
+    showMetrics,
+    metricsSSIM,
+    metricsPSNR,
+    metricsMSSSIM,
+    metricsPSNRYCbCr,
+    metricsDeltaE2000,
+    metricsNoReferenceA,
+    metricsNoReferenceB,
+    metricsMaskBreakdown,
+    enabledQualityMetrics,
+    toggleQualityMetric,
+    toggleMetrics,
+  } = useProjectStore()
+  const [showSelector, setShowSelector] = useState(false)
 
   if (!showMetrics) {
     return (
@@ -31,6 +53,11 @@ export function MetricsOverlay() {
     return `${value.toFixed(2)} dB`
   }
 
+  const formatDeltaE = (value: number | null) => {
+    if (value === null) return '---'
+    return value.toFixed(2)
+  }
+
   const getSSIMColor = (value: number | null) => {
     if (value === null) return 'text-text-muted'
     if (value >= 0.98) return 'text-success'
@@ -45,42 +72,154 @@ export function MetricsOverlay() {
     return 'text-error'
   }
 
+  const getDeltaEColor = (value: number | null) => {
+    if (value === null) return 'text-text-muted'
+    if (value < 1) return 'text-success'
+    if (value < 5) return 'text-warning'
+    return 'text-error'
+  }
+
+  // METRICS-004: Scores are per side, so the better side is highlighted instead of thresholds
+  const renderSideBySide = (
+    label: string,
+    key: keyof NoReferenceScores,
+    higherIsBetter: boolean,
+    format: (value: number) => string
+  ) => {
+    const a = metricsNoReferenceA?.[key] ?? null
+    const b = metricsNoReferenceB?.[key] ?? null
+    const better = a === null || b === null || a === b ? null : (a > b) === higherIsBetter ? 'a' : 'b'
+    return (
+      <div key={label} className="flex justify-between items-center gap-3">
+        <span className="text-[10px] text-text-muted">{label}</span>
+        <span className="text-sm font-mono">
+          <span className={better === 'a' ? 'text-success' : 'text-text-secondary'}>{a === null ? '---' : format(a)}</span>
+          <span className="text-text-muted"> / </span>
+          <span className={better === 'b' ? 'text-success' : 'text-text-secondary'}>{b === null ? '---' : format(b)}</span>
+        </span>
+      </div>
+    )
+  }
+
+  const visibleMetrics = OVERLAY_METRICS.filter(m => enabledQualityMetrics.includes(m))
+
+  const renderRow = (label: string, value: string, color: string) => (
+    <div key={label} className="flex justify-between items-center gap-3">
+      <span className="text-[10px] text-text-muted">{label}</span>
+      <span className={`text-sm font-mono ${color}`}>{value}</span>
+    </div>
+  )
+
+  const renderMetric = (metric: QualityMetricId) => {
+    switch (metric) {
+      case 'ssim':
+        return renderRow('SSIM', formatSSIM(metricsSSIM), getSSIMColor(metricsSSIM))
+      case 'ms-ssim':
+        return renderRow('MS-SSIM', formatSSIM(metricsMSSSIM), getSSIMColor(metricsMSSSIM))
+      case 'psnr':
+        return renderRow('PSNR', formatPSNR(metricsPSNR), getPSNRColor(metricsPSNR))
+      case 'psnr-ycbcr':
+        return (
+          <div key={metric} className="space-y-0.5">
+            {renderRow('PSNR Y', formatPSNR(metricsPSNRYCbCr?.y ?? null), getPSNRColor(metricsPSNRYCbCr?.y ?? null))}
+            {renderRow('PSNR Cb', formatPSNR(metricsPSNRYCbCr?.cb ?? null), getPSNRColor(metricsPSNRYCbCr?.cb ?? null))}
+            {renderRow('PSNR Cr', formatPSNR(metricsPSNRYCbCr?.cr ?? null), getPSNRColor(metricsPSNRYCbCr?.cr ?? null))}
+          </div>
+        )
+      case 'delta-e2000':
+        return renderRow('ΔE00', formatDeltaE(metricsDeltaE2000), getDeltaEColor(metricsDeltaE2000))
+      case 'sharpness':
+        return renderSideBySide('Sharp A/B', 'sharpness', true, v => v.toFixed(0))
+      case 'noise':
+        return renderSideBySide('Noise A/B', 'noiseSigma', false, v => v.toFixed(2))
+      case 'naturalness':
+        return renderSideBySide('Natural A/B', 'naturalness', false, v => v.toFixed(3))
+      default:
+        return null
+    }
+  }
+
   return (
     <div className="absolute top-4 right-4 z-10 bg-black/80 backdrop-blur-sm border border-white/10 p-3 text-white min-w-[140px]">
-      <div className="flex items-center justify-between mb-2">
+      <div className="flex items-center justify-between mb-2 gap-2">
         <span className="text-xs font-medium flex items-center gap-1">
           <Activity className="w-3 h-3" />
           Quality Metrics
         </span>
-        <button
-          onClick={toggleMetrics}
-          className="text-text-muted hover:text-white text-xs"
-        >
-          ×
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowSelector(v => !v)}
+            className={`hover:text-white ${showSelector ? 'text-white' : 'text-text-muted'}`}
+            title="Choose metrics"
+          >
+            <Settings2 className="w-3 h-3" />
+          </button>
+          <button
+            onClick={toggleMetrics}
+            className="text-text-muted hover:text-white text-xs"
+          >
+            ×
+          </button>
+        </div>
       </div>
 
-      <div className="space-y-1.5">
-        <div className="flex justify-between items-center">
-          <span className="text-[10px] text-text-muted">SSIM</span>
-          <span className={`text-sm font-mono ${getSSIMColor(metricsSSIM)}`}>
-            {formatSSIM(metricsSSIM)}
-          </span>
+      {showSelector && (
+        <div className="mb-2 pb-2 border-b border-white/10 space-y-1">
+          {OVERLAY_METRICS.map(metric => (
+            <label key={metric} className="flex items-center gap-2 text-[10px] text-text-secondary cursor-pointer" title={QUALITY_METRICS[metric].description}>
+              <input
+                type="checkbox"
+                checked={enabledQualityMetrics.includes(metric)}
+                onChange={() => toggleQualityMetric(metric)}
+                className="w-3 h-3"
+              />
+              {QUALITY_METRICS[metric].label}
+            </label>
+          ))}
         </div>
+      )}
 
-        <div className="flex justify-between items-center">
-          <span className="text-[10px] text-text-muted">PSNR</span>
-          <span className={`text-sm font-mono ${getPSNRColor(metricsPSNR)}`}>
-            {formatPSNR(metricsPSNR)}
-          </span>
-        </div>
+      <div className="space-y-1.5">
+        {visibleMetrics.length > 0 ? (
+          visibleMetrics.map(renderMetric)
+        ) : (
+          <div className="text-[10px] text-text-muted">No metrics selected</div>
+        )}
       </div>
 
+      {/* MASK-001: Inside vs outside the painted mask */}
+      {metricsMaskBreakdown && (
+        <div className="mt-2 pt-2 border-t border-white/10 space-y-1">
+          <div className="flex justify-between items-center gap-3 text-[9px] text-text-muted">
+            <span>Mask {(metricsMaskBreakdown.coverage * 100).toFixed(0)}%</span>
+            <span>In / Out</span>
+          </div>
+          {renderRow(
+            'PSNR',
+            `${formatPSNR(metricsMaskBreakdown.inside?.psnr ?? null)} / ${formatPSNR(metricsMaskBreakdown.outside?.psnr ?? null)}`,
+            getPSNRColor(metricsMaskBreakdown.inside?.psnr ?? null)
+          )}
+          {renderRow(
+            'MS-SSIM',
+            `${formatSSIM(metricsMaskBreakdown.inside?.msssim ?? null)} / ${formatSSIM(metricsMaskBreakdown.outside?.msssim ?? null)}`,
+            getSSIMColor(metricsMaskBreakdown.inside?.msssim ?? null)
+          )}
+        </div>
+      )}
+
       <div className="mt-2 pt-2 border-t border-white/10">
         <div className="text-[9px] text-text-muted">
           SSIM: 1.0 = identical
           <br />
           PSNR: Higher = similar
+          <br />
+          ΔE: Lower = similar
+          {visibleMetrics.some(m => m === 'sharpness' || m === 'noise' || m === 'naturalness') && (
+            <>
+              <br />
+              A / B: Better side in green
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -1,4 +1,4 @@
-import { useRef, Suspense, useEffect, useMemo, useState, useCallback } from 'react'
+import { useRef, Suspense, useEffect, useMemo, useState, useCallback, use } from 'react'
 import { Canvas, useThree, useFrame } from '@react-three/fiber'
 import { OrbitControls, useGLTF, Environment, ContactShadows, Grid } from '@react-three/drei'
 import { useTimelineStore } from '../../stores/timelineStore'
@@ -6,7 +6,20 @@ import { useMediaStore } from '../../stores/mediaStore'
 import { usePlaybackStore } from '../../stores/playbackStore'
 import { useDropZone } from '../../hooks/useDropZone'
 import { cn } from '../../lib/utils'
-import { Box, Camera, Loader2, RotateCw } from 'lucide-react'
+import { getModelFormat, loadModelCached, MODEL_ACCEPT } from '../../lib/modelLoader'
+import { createDistanceHeatmap, disposeDistanceHeatmap } from '../../lib/meshHeatmap'
+import {
+  applyModelInspection,
+  DEFAULT_MODEL_INSPECTION,
+  getMaterialNames,
+  MODEL_SHADING_LABELS,
+  type ModelInspection,
+  type ModelShading,
+} from '../../lib/modelInspection'
+import { useMeshDistance } from '../../hooks/useMeshDistance'
+import { MeshDistancePanel } from './MeshDistancePanel'
+import type { MediaFile } from '../../types'
+import { Box, Camera, Grid3x3, Loader2, RotateCw, Ruler, ScanEye } from 'lucide-react'
 import * as THREE from 'three'
 import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js'
 
@@ -23,11 +36,48 @@ const turntableState = {
   rotation: 0,
 }
 
-// Model component that renders a GLB/GLTF model positioned on the ground
-function Model({ url, turntableRotation = 0 }: { url: string; turntableRotation?: number }) {
-  const { scene } = useGLTF(url)
+// MESHDIFF-001: Per-vertex distances painted on a model
+interface DistanceHeatmap {
+  distances: Float32Array
+  maxDistance: number
+}
+
+// Reports a model's loaded scene (by media URL) for distance measurement
+type SceneLoadedHandler = (url: string, scene: THREE.Object3D) => void
+
+interface ModelSceneProps {
+  url: string
+  scene: THREE.Object3D
+  turntableRotation?: number
+  heatmap?: DistanceHeatmap | null
+  inspection?: ModelInspection
+  onSceneLoaded?: SceneLoadedHandler
+}
+
+// Renders a loaded model scene positioned on the ground
+function ModelScene({
+  url,
+  scene,
+  turntableRotation = 0,
+  heatmap,
+  inspection = DEFAULT_MODEL_INSPECTION,
+  onSceneLoaded,
+}: ModelSceneProps) {
   const rotationGroupRef = useRef<THREE.Group>(null)
 
+  useEffect(() => {
+    onSceneLoaded?.(url, scene)
+  }, [url, scene, onSceneLoaded])
+
+  // MESHDIFF-001: Painted copy shown in place of the model
+  const heatmapObject = useMemo(
+    () => (heatmap ? createDistanceHeatmap(scene, heatmap.distances, heatmap.maxDistance) : null),
+    [scene, heatmap]
+  )
+  useEffect(() => () => {
+    if (heatmapObject) disposeDistanceHeatmap(heatmapObject)
+  }, [heatmapObject])
+
   // Clone scene and calculate positioning to place model on ground
   const { clonedScene, centerOffset, yOffset, scale } = useMemo(() => {
     // Use SkeletonUtils.clone for proper skinned mesh cloning (characters with bones)
@@ -60,6 +110,9 @@ function Model({ url, turntableRotation = 0 }: { url: string; turntableRotation?
     }
   }, [scene])
 
+  // INSPECT-001: Shading overrides on the clone, undone when they change
+  useEffect(() => applyModelInspection(clonedScene, inspection), [clonedScene, inspection])
+
   // Apply turntable rotation via useFrame for smooth animation
   useFrame(() => {
     if (rotationGroupRef.current) {
@@ -72,12 +125,33 @@ function Model({ url, turntableRotation = 0 }: { url: string; turntableRotation?
     <group ref={rotationGroupRef}>
       {/* Inner group for positioning and scaling */}
       <group position={[centerOffset.x * scale, yOffset, centerOffset.z * scale]} scale={scale}>
-        <primitive object={clonedScene} />
+        <primitive object={heatmapObject ?? clonedScene} />
       </group>
     </group>
   )
 }
 
+type ModelProps = Omit<ModelSceneProps, 'url' | 'scene'> & { media: MediaFile }
+
+// GLB/GLTF through drei (Draco / meshopt decoding)
+function GLTFModel({ media, ...props }: ModelProps) {
+  const { scene } = useGLTF(media.url)
+  return <ModelScene url={media.url} scene={scene} {...props} />
+}
+
+// MODEL-001: OBJ, STL, PLY, FBX and point clouds through the model loader
+function LoadedModel({ media, ...props }: ModelProps) {
+  const format = getModelFormat(media.name) ?? 'obj'
+  const scene = use(loadModelCached(media.url, format, media.modelResources))
+  return <ModelScene url={media.url} scene={scene} {...props} />
+}
+
+// Model component that picks the loader from the file name
+function Model(props: ModelProps) {
+  const format = getModelFormat(props.media.name)
+  return format && format !== 'gltf' ? <LoadedModel {...props} /> : <GLTFModel {...props} />
+}
+
 // Loading placeholder while model loads
 function LoadingPlaceholder() {
   const meshRef = useRef<THREE.Mesh>(null)
@@ -208,7 +282,7 @@ function EmptyState({ side }: { side: 'A' | 'B' }) {
     <div className="w-full h-full flex flex-col items-center justify-center text-text-muted bg-gradient-to-b from-[#2a2a3a] to-[#1a1a2a] gap-3">
       <Box className="w-10 h-10 opacity-50" />
       <span className="text-sm font-medium">Drop 3D Model {side}</span>
-      <span className="text-xs opacity-60">.glb or .gltf</span>
+      <span className="text-xs opacity-60">GLB, GLTF, OBJ, STL, PLY, FBX, PCD, XYZ</span>
     </div>
   )
 }
@@ -260,13 +334,16 @@ function ExportPanel({ canvasRef, modelUrl, side }: ExportPanelProps) {
 
 // Canvas wrapper with ref for export
 interface ModelCanvasProps {
-  modelUrl: string
+  media: MediaFile
   isPrimary: boolean
   turntableRotation: number
+  heatmap?: DistanceHeatmap | null
+  inspection: ModelInspection
+  onSceneLoaded?: SceneLoadedHandler
   onCanvasReady: (canvas: HTMLCanvasElement) => void
 }
 
-function ModelCanvas({ modelUrl, isPrimary, turntableRotation, onCanvasReady }: ModelCanvasProps) {
+function ModelCanvas({ media, isPrimary, turntableRotation, heatmap, inspection, onSceneLoaded, onCanvasReady }: ModelCanvasProps) {
   return (
     <Canvas
       camera={{ position: [3, 1.5, 3], fov: 45 }}
@@ -276,7 +353,13 @@ function ModelCanvas({ modelUrl, isPrimary, turntableRotation, onCanvasReady }:
     >
       <SceneSetup isPrimary={isPrimary}>
         <Suspense fallback={<LoadingPlaceholder />}>
-          <Model url={modelUrl} turntableRotation={turntableRotation} />
+          <Model
+            media={media}
+            turntableRotation={turntableRotation}
+            heatmap={heatmap}
+            inspection={inspection}
+            onSceneLoaded={onSceneLoaded}
+          />
         </Suspense>
       </SceneSetup>
     </Canvas>
@@ -313,6 +396,34 @@ export function Model3DComparison() {
   const progress = currentTime / timelineDuration
   const turntableRotation = progress * Math.PI * 2 * rotationsPerCycle
 
+  // MESHDIFF-001: Distance view between the loaded models
+  const [showDistance, setShowDistance] = useState(false)
+  const [distanceRange, setDistanceRange] = useState(1)
+  const [loadedA, setLoadedA] = useState<{ url: string; scene: THREE.Object3D } | null>(null)
+  const [loadedB, setLoadedB] = useState<{ url: string; scene: THREE.Object3D } | null>(null)
+  const handleSceneA = useCallback<SceneLoadedHandler>((url, scene) => setLoadedA({ url, scene }), [])
+  const handleSceneB = useCallback<SceneLoadedHandler>((url, scene) => setLoadedB({ url, scene }), [])
+  const sceneA = modelA && loadedA?.url === modelA.url ? loadedA.scene : null
+  const sceneB = modelB && loadedB?.url === modelB.url ? loadedB.scene : null
+  const distance = useMeshDistance(sceneA, sceneB, showDistance && !!modelA && !!modelB)
+  const maxDistance = (distance.result?.hausdorff ?? 0) * distanceRange
+
+  // INSPECT-001: Shading modes, applied to both viewports alike
+  const [inspection, setInspection] = useState<ModelInspection>(DEFAULT_MODEL_INSPECTION)
+  const materialNames = useMemo(
+    () => Array.from(new Set([sceneA, sceneB].flatMap(scene => (scene ? getMaterialNames(scene) : [])))).sort(),
+    [sceneA, sceneB]
+  )
+
+  const heatmapA = useMemo(
+    () => (distance.result ? { distances: distance.result.distancesA, maxDistance } : null),
+    [distance.result, maxDistance]
+  )
+  const heatmapB = useMemo(
+    () => (distance.result ? { distances: distance.result.distancesB, maxDistance } : null),
+    [distance.result, maxDistance]
+  )
+
   // Reset state when component mounts
   useEffect(() => {
     sharedCameraState.position.set(3, 1.5, 3)
@@ -328,14 +439,16 @@ export function Model3DComparison() {
       <input
         ref={dropZoneA.fileInputRef}
         type="file"
-        accept=".glb,.gltf"
+        accept={`${MODEL_ACCEPT},.mtl,image/*`}
+        multiple
         className="hidden"
         onChange={dropZoneA.handleFileInputChange}
       />
       <input
         ref={dropZoneB.fileInputRef}
         type="file"
-        accept=".glb,.gltf"
+        accept={`${MODEL_ACCEPT},.mtl,image/*`}
+        multiple
         className="hidden"
         onChange={dropZoneB.handleFileInputChange}
       />
@@ -351,9 +464,12 @@ export function Model3DComparison() {
       >
         {modelA ? (
           <ModelCanvas
-            modelUrl={modelA.url}
+            media={modelA}
             isPrimary={true}
             turntableRotation={turntableRotation}
+            heatmap={heatmapA}
+            inspection={inspection}
+            onSceneLoaded={handleSceneA}
             onCanvasReady={(canvas) => { canvasARef.current = canvas }}
           />
         ) : (
@@ -387,9 +503,12 @@ export function Model3DComparison() {
       >
         {modelB ? (
           <ModelCanvas
-            modelUrl={modelB.url}
+            media={modelB}
             isPrimary={false}
             turntableRotation={turntableRotation}
+            heatmap={heatmapB}
+            inspection={inspection}
+            onSceneLoaded={handleSceneB}
             onCanvasReady={(canvas) => { canvasBRef.current = canvas }}
           />
         ) : (
@@ -418,7 +537,7 @@ export function Model3DComparison() {
           <div className="bg-black/70 backdrop-blur-sm px-5 py-4 text-center rounded-lg">
             <p className="text-text-primary text-sm font-medium">3D Model Comparison</p>
             <p className="text-text-muted text-xs mt-1">
-              Drop or click to load GLB/GLTF models
+              Drop or click to load 3D models (OBJ with its MTL and textures)
             </p>
             <p className="text-text-muted text-xs mt-1 opacity-60">
               Use timeline to control rotation
@@ -427,6 +546,22 @@ export function Model3DComparison() {
         </div>
       )}
 
+      {/* MESHDIFF-001: Distance legend and statistics */}
+      {showDistance && modelA && modelB && (
+        <div className="absolute top-12 left-1/2 -translate-x-1/2 z-10">
+          <MeshDistancePanel
+            statsA={distance.statsA}
+            statsB={distance.statsB}
+            result={distance.result}
+            error={distance.error}
+            isComputing={distance.isComputing}
+            maxDistance={maxDistance}
+            range={distanceRange}
+            onRangeChange={setDistanceRange}
+          />
+        </div>
+      )}
+
       {/* Rotation settings - shown when models are loaded */}
       {(modelA || modelB) && (
         <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10">
@@ -452,6 +587,60 @@ export function Model3DComparison() {
             <span className="text-xs text-text-muted ml-2">
               {isPlaying ? 'Playing' : `${Math.round((progress % 1) * 360)}°`}
             </span>
+            {modelA && modelB && (
+              <button
+                onClick={() => setShowDistance(!showDistance)}
+                className={cn(
+                  'flex items-center gap-1 ml-2 px-2 h-6 text-xs rounded transition-colors',
+                  showDistance
+                    ? 'bg-accent text-white'
+                    : 'bg-white/10 text-text-muted hover:bg-white/20'
+                )}
+                title="Colour each model by its distance to the other"
+              >
+                <Ruler className="w-3.5 h-3.5" />
+                Distance
+              </button>
+            )}
+
+            {/* INSPECT-001: Shading, wireframe and material isolation */}
+            <div className="w-px h-4 bg-white/20 mx-1" />
+            <ScanEye className="w-4 h-4 text-text-muted" />
+            <select
+              value={inspection.shading}
+              onChange={e => setInspection({ ...inspection, shading: e.target.value as ModelShading })}
+              className="h-6 bg-white/10 rounded px-1 text-xs text-text-primary"
+              title="Shading"
+            >
+              {(Object.keys(MODEL_SHADING_LABELS) as ModelShading[]).map(id => (
+                <option key={id} value={id}>{MODEL_SHADING_LABELS[id]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setInspection({ ...inspection, wireframe: !inspection.wireframe })}
+              className={cn(
+                'w-6 h-6 flex items-center justify-center rounded transition-colors',
+                inspection.wireframe
+                  ? 'bg-accent text-white'
+                  : 'bg-white/10 text-text-muted hover:bg-white/20'
+              )}
+              title="Wireframe overlay"
+            >
+              <Grid3x3 className="w-3.5 h-3.5" />
+            </button>
+            {materialNames.length > 1 && (
+              <select
+                value={inspection.material ?? ''}
+                onChange={e => setInspection({ ...inspection, material: e.target.value || null })}
+                className="h-6 max-w-32 bg-white/10 rounded px-1 text-xs text-text-primary"
+                title="Isolate material"
+              >
+                <option value="">All materials</option>
+                {materialNames.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            )}
           </div>
         </div>
       )}
@@ -15,6 +15,7 @@ import { usePlaybackStore } from '../../stores/playbackStore'
 import { useMediaStore } from '../../stores/mediaStore'
 import { useProjectStore } from '../../stores/projectStore'
 import { useOptimizedClipSync } from '../../hooks/useOptimizedVideoSync'
+import { useClipGrader } from '../../hooks/useClipGrader'
 import type { MorphOperation, MorphElementSize, MorphElementShape } from '../../types'
 import {
   Shrink, Expand, Minus, Plus, Circle, Square, X, Trash2, Eye, EyeOff, ArrowRight
@@ -194,6 +195,9 @@ export function MorphologicalView() {
   // Sync video playback
   useOptimizedClipSync(videoARef, activeClipA || firstClipA)
 
+  // COLOR-001: Process the colour-graded frame
+  const gradeA = useClipGrader(displayClipA)
+
   // Handle image load
   const handleImageALoad = useCallback(() => {
     setImagesLoaded(prev => ({ ...prev, a: true }))
@@ -273,7 +277,7 @@ export function MorphologicalView() {
       return
     }
 
-    tempCtx.drawImage(source, 0, 0, tempCanvas.width, tempCanvas.height)
+    tempCtx.drawImage(gradeA(source), 0, 0, tempCanvas.width, tempCanvas.height)
     const imageData = tempCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height)
 
     // Apply operations (in a setTimeout to not block UI)
@@ -282,7 +286,7 @@ export function MorphologicalView() {
       processedImageRef.current = result
       setProcessing(false)
     }, 0)
-  }, [mediaA, morphologicalSettings.operations, applyOperations, imagesLoaded])
+  }, [mediaA, morphologicalSettings.operations, applyOperations, imagesLoaded, gradeA])
 
   // Render function
   const render = useCallback(() => {
@@ -332,7 +336,7 @@ export function MorphologicalView() {
     if (morphologicalSettings.showOriginal && processedImageRef.current) {
       // Left half: original
       const halfWidth = width / 2
-      ctx.drawImage(sourceA, 0, 0, halfWidth, height)
+      ctx.drawImage(gradeA(sourceA), 0, 0, halfWidth, height)
 
       // Right half: processed
       const processedCanvas = document.createElement('canvas')
@@ -373,11 +377,11 @@ export function MorphologicalView() {
       }
     } else {
       // No operations: show original
-      ctx.drawImage(sourceA, 0, 0, width, height)
+      ctx.drawImage(gradeA(sourceA), 0, 0, width, height)
     }
 
     animationRef.current = requestAnimationFrame(render)
-  }, [mediaA, morphologicalSettings.showOriginal, morphologicalSettings.operations.length, imagesLoaded])
+  }, [mediaA, morphologicalSettings.showOriginal, morphologicalSettings.operations.length, imagesLoaded, gradeA])
 
   // Start render loop
   useEffect(() => {
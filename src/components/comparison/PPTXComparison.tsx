@@ -0,0 +1,270 @@
+/**
+ * PPTX-001: PowerPoint Comparison
+ * Slide by slide: rendered thumbnails of A and B side by side with word
+ * diffs of the slide text and speaker notes
+ */
+import { useState, useMemo } from 'react'
+import { useTimelineStore } from '../../stores/timelineStore'
+import { useMediaStore } from '../../stores/mediaStore'
+import { usePlaybackStore } from '../../stores/playbackStore'
+import { cn } from '../../lib/utils'
+import { Presentation, ChevronLeft, ChevronRight, BarChart3, StickyNote } from 'lucide-react'
+import { diffWords, type Change } from 'diff'
+import type { ParsedSlide } from '../../types'
+
+interface SlideDiff {
+  slideNumber: number
+  textChanged: boolean
+  notesChanged: boolean
+  imageChanged: boolean // Layout or styling differs (thumbnails differ)
+}
+
+function DiffText({ parts }: { parts: Change[] }) {
+  if (parts.length === 0) return <span className="text-text-muted italic">Empty</span>
+  return (
+    <>
+      {parts.map((part, idx) => (
+        <span
+          key={idx}
+          className={cn(
+            part.added && 'bg-green-500/20 text-green-400',
+            part.removed && 'bg-red-500/20 text-red-400 line-through'
+          )}
+        >
+          {part.value}
+        </span>
+      ))}
+    </>
+  )
+}
+
+function SlideImage({ slide, label }: { slide?: ParsedSlide; label: string }) {
+  if (!slide) return <div className="text-text-muted text-xs">No slide</div>
+  if (!slide.imageDataUrl) return <div className="text-text-muted text-xs">Slide could not be rendered</div>
+  return (
+    <img
+      src={slide.imageDataUrl}
+      alt={`Slide ${slide.slideNumber} ${label}`}
+      className="max-w-full max-h-full object-contain shadow-lg"
+    />
+  )
+}
+
+export function PPTXComparison() {
+  const { tracks } = useTimelineStore()
+  const { currentTime } = usePlaybackStore()
+  const { getFile } = useMediaStore()
+
+  const [currentSlide, setCurrentSlide] = useState(1)
+  const [showNotes, setShowNotes] = useState(true)
+
+  // Get current clips at playhead
+  const trackA = tracks.find(t => t.type === 'a')
+  const trackB = tracks.find(t => t.type === 'b')
+
+  const clipA = trackA?.clips.find(c => currentTime >= c.startTime && currentTime < c.endTime)
+  const clipB = trackB?.clips.find(c => currentTime >= c.startTime && currentTime < c.endTime)
+
+  const mediaA = clipA ? getFile(clipA.mediaId) : null
+  const mediaB = clipB ? getFile(clipB.mediaId) : null
+
+  // Get parsed slides
+  const slidesA: ParsedSlide[] = useMemo(() => {
+    return mediaA?.documentMeta?.parsedContent?.slides || []
+  }, [mediaA])
+
+  const slidesB: ParsedSlide[] = useMemo(() => {
+    return mediaB?.documentMeta?.parsedContent?.slides || []
+  }, [mediaB])
+
+  const maxSlides = Math.max(slidesA.length, slidesB.length)
+  const slideA = slidesA[currentSlide - 1]
+  const slideB = slidesB[currentSlide - 1]
+
+  // Per-slide changes
+  const slideDiffs = useMemo(() => {
+    const diffs: SlideDiff[] = []
+    for (let i = 0; i < maxSlides; i++) {
+      const a = slidesA[i]
+      const b = slidesB[i]
+      diffs.push({
+        slideNumber: i + 1,
+        textChanged: a?.text !== b?.text,
+        notesChanged: a?.notes !== b?.notes,
+        imageChanged: a?.imageDataUrl !== b?.imageDataUrl,
+      })
+    }
+    return diffs
+  }, [slidesA, slidesB, maxSlides])
+
+  const textDiff = useMemo(() => diffWords(slideA?.text || '', slideB?.text || ''), [slideA, slideB])
+  const notesDiff = useMemo(() => diffWords(slideA?.notes || '', slideB?.notes || ''), [slideA, slideB])
+
+  const stats = useMemo(() => ({
+    slidesA: slidesA.length,
+    slidesB: slidesB.length,
+    textChanged: slideDiffs.filter(d => d.textChanged).length,
+    notesChanged: slideDiffs.filter(d => d.notesChanged).length,
+    layoutChanged: slideDiffs.filter(d => d.imageChanged && !d.textChanged).length,
+  }), [slidesA, slidesB, slideDiffs])
+
+  if (slidesA.length === 0 && slidesB.length === 0) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-text-muted">
+        <div className="text-center">
+          <Presentation className="w-12 h-12 mx-auto mb-4 opacity-30" />
+          <p className="text-lg">No PowerPoint files loaded</p>
+          <p className="text-sm mt-2">Upload PPTX files to Track A and Track B</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col bg-surface">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-4 py-2 bg-surface-alt border-b border-border">
+        <div className="flex items-center gap-2">
+          {/* Slide navigation */}
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setCurrentSlide(s => Math.max(1, s - 1))}
+              disabled={currentSlide <= 1}
+              className="p-1 text-text-muted hover:text-text-primary hover:bg-surface rounded disabled:opacity-30"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-xs text-text-muted px-2">
+              Slide {currentSlide} / {maxSlides}
+            </span>
+            <button
+              onClick={() => setCurrentSlide(s => Math.min(maxSlides, s + 1))}
+              disabled={currentSlide >= maxSlides}
+              className="p-1 text-text-muted hover:text-text-primary hover:bg-surface rounded disabled:opacity-30"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+
+          <button
+            onClick={() => setShowNotes(!showNotes)}
+            className={cn(
+              'px-3 py-1.5 text-xs flex items-center gap-1 rounded',
+              showNotes ? 'bg-accent text-white' : 'text-text-muted hover:text-text-primary'
+            )}
+          >
+            <StickyNote className="w-3 h-3" />
+            Notes
+          </button>
+        </div>
+
+        {/* Statistics */}
+        <div className="flex items-center gap-4 text-xs text-text-muted">
+          <div className="flex items-center gap-1">
+            <BarChart3 className="w-3 h-3" />
+            <span>Text changed: {stats.textChanged}/{maxSlides}</span>
+          </div>
+          <span>Notes changed: {stats.notesChanged}</span>
+          {stats.layoutChanged > 0 && <span>Layout only: {stats.layoutChanged}</span>}
+        </div>
+      </div>
+
+      {/* Main content area */}
+      <div className="flex-1 flex overflow-hidden">
+        {/* Slide list: A and B thumbnails per slide */}
+        <div className="w-44 bg-surface-alt border-r border-border overflow-y-auto p-2 flex flex-col gap-2">
+          {slideDiffs.map(diff => (
+            <button
+              key={diff.slideNumber}
+              onClick={() => setCurrentSlide(diff.slideNumber)}
+              className={cn(
+                'relative p-1 rounded border-2 transition-colors text-left',
+                currentSlide === diff.slideNumber
+                  ? 'border-accent'
+                  : diff.textChanged
+                    ? 'border-yellow-500/50 hover:border-yellow-500'
+                    : 'border-border hover:border-text-muted'
+              )}
+            >
+              <div className="grid grid-cols-2 gap-0.5">
+                {[slidesA[diff.slideNumber - 1], slidesB[diff.slideNumber - 1]].map((slide, side) => (
+                  <div key={side} className="aspect-video bg-neutral-700 overflow-hidden">
+                    {slide?.imageDataUrl && (
+                      <img src={slide.imageDataUrl} alt="" className="w-full h-full object-contain" />
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-1 mt-1 text-[10px] text-text-muted">
+                <span>{diff.slideNumber}</span>
+                <span className="truncate flex-1">
+                  {slidesB[diff.slideNumber - 1]?.title ?? slidesA[diff.slideNumber - 1]?.title}
+                </span>
+                {diff.textChanged && <span className="w-2 h-2 bg-yellow-500 rounded-full flex-shrink-0" title="Text changed" />}
+                {diff.notesChanged && <span className="w-2 h-2 bg-blue-400 rounded-full flex-shrink-0" title="Notes changed" />}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {/* Slide view */}
+        <div className="flex-1 flex flex-col overflow-hidden">
+          <div className="flex flex-1 min-h-0">
+            {/* Slide A */}
+            <div className="flex-1 flex flex-col border-r border-border">
+              <div className="px-3 py-1 bg-orange-500/10 border-b border-border text-xs font-medium text-orange-400">
+                A: {mediaA?.name || 'No file'}
+              </div>
+              <div className="flex-1 min-h-0 p-4 flex items-center justify-center bg-neutral-800">
+                <SlideImage slide={slideA} label="A" />
+              </div>
+            </div>
+
+            {/* Slide B */}
+            <div className="flex-1 flex flex-col">
+              <div className="px-3 py-1 bg-lime-400/10 border-b border-border text-xs font-medium text-lime-400">
+                B: {mediaB?.name || 'No file'}
+              </div>
+              <div className="flex-1 min-h-0 p-4 flex items-center justify-center bg-neutral-800">
+                <SlideImage slide={slideB} label="B" />
+              </div>
+            </div>
+          </div>
+
+          {/* Text and notes diff */}
+          <div className={cn('h-[35%] border-t border-border grid overflow-hidden', showNotes ? 'grid-cols-2' : 'grid-cols-1')}>
+            <div className="overflow-auto p-3">
+              <div className="mb-2 text-xs text-text-muted">Slide {currentSlide} Text</div>
+              <div className="text-sm leading-relaxed whitespace-pre-wrap">
+                <DiffText parts={textDiff} />
+              </div>
+            </div>
+            {showNotes && (
+              <div className="overflow-auto p-3 border-l border-border">
+                <div className="mb-2 text-xs text-text-muted">Speaker Notes</div>
+                <div className="text-sm leading-relaxed whitespace-pre-wrap">
+                  <DiffText parts={notesDiff} />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="flex items-center justify-between px-4 py-2 bg-surface-alt border-t border-border text-xs text-text-muted">
+        <span>Slides: A={stats.slidesA}, B={stats.slidesB}</span>
+        <div className="flex items-center gap-3">
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 bg-yellow-500/50 rounded"></span>
+            Text changed
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 bg-blue-400/50 rounded"></span>
+            Notes changed
+          </span>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,26 +1,35 @@
 /**
  * IMG-003: Pixel Inspector
  * Shows RGB values when clicking on images
+ * BITDEPTH-001: 16-bit images show their code values; the delta uses the
+ * deeper side's scale
  */
 import { useProjectStore } from '../../stores/projectStore'
 import { cn } from '../../lib/utils'
+import type { InspectedPixel } from '../../types'
 
 function rgbToHex(r: number, g: number, b: number): string {
   return '#' + [r, g, b].map(x => x.toString(16).padStart(2, '0')).join('')
 }
 
+// Rescale a code value between bit depths
+function rescale(value: number, fromBits: number, toBits: number): number {
+  return fromBits === toBits ? value : Math.round(value * (2 ** toBits - 1) / (2 ** fromBits - 1))
+}
+
 function PixelInfo({
   label,
   info,
   labelColor
 }: {
   label: string
-  info: { x: number; y: number; r: number; g: number; b: number } | null
+  info: InspectedPixel | null
   labelColor: string
 }) {
   if (!info) return null
 
-  const hex = rgbToHex(info.r, info.g, info.b)
+  const bits = info.bitDepth ?? 8
+  const hex = rgbToHex(rescale(info.r, bits, 8), rescale(info.g, bits, 8), rescale(info.b, bits, 8))
 
   return (
     <div className="flex items-center gap-3">
@@ -34,7 +43,7 @@ function PixelInfo({
         />
         <div className="text-[10px] font-mono text-text-primary">
           <div>R: {info.r} G: {info.g} B: {info.b}</div>
-          <div className="text-text-muted">{hex}</div>
+          <div className="text-text-muted">{hex}{bits !== 8 && ` • ${bits}-bit`}</div>
         </div>
       </div>
       <div className="text-[10px] text-text-muted">
@@ -55,10 +64,13 @@ export function PixelInspector() {
   const hasInfo = pixelInfoA || pixelInfoB
 
   // Calculate difference if both are set
+  const bitsA = pixelInfoA?.bitDepth ?? 8
+  const bitsB = pixelInfoB?.bitDepth ?? 8
+  const diffBits = Math.max(bitsA, bitsB)
   const diff = pixelInfoA && pixelInfoB ? {
-    r: Math.abs(pixelInfoA.r - pixelInfoB.r),
-    g: Math.abs(pixelInfoA.g - pixelInfoB.g),
-    b: Math.abs(pixelInfoA.b - pixelInfoB.b),
+    r: Math.abs(rescale(pixelInfoA.r, bitsA, diffBits) - rescale(pixelInfoB.r, bitsB, diffBits)),
+    g: Math.abs(rescale(pixelInfoA.g, bitsA, diffBits) - rescale(pixelInfoB.g, bitsB, diffBits)),
+    b: Math.abs(rescale(pixelInfoA.b, bitsA, diffBits) - rescale(pixelInfoB.b, bitsB, diffBits)),
   } : null
 
   return (
@@ -100,7 +112,7 @@ export function PixelInspector() {
                 R: {diff.r} G: {diff.g} B: {diff.b}
               </div>
               <div className="text-[10px] text-text-muted">
-                Total: {diff.r + diff.g + diff.b}
+                Total: {diff.r + diff.g + diff.b}{diffBits !== 8 && ` (${diffBits}-bit)`}
               </div>
             </div>
           )}
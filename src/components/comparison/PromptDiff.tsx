@@ -3,12 +3,16 @@
  * TXT-002: Token Counter
  * TXT-003: Syntax Highlighting
  * TXT-004: JSON Tree Diff
+ * CODE-001: Side-by-side code diff
  * Redesigned with elegant, professional UI
  */
 import { useState, useMemo, useRef } from 'react'
 import { useProjectStore } from '../../stores/projectStore'
 import { cn } from '../../lib/utils'
 import { JsonTreeDiff, isStructuredData } from './JsonTreeDiff'
+import { CodeDiffView } from './CodeDiffView'
+import { computeCharDiff, computeWordDiff, computeLineDiff } from '../../lib/textDiff'
+import { getLanguageFromFileName, type CodeLanguage } from '../../lib/syntaxHighlight'
 import {
   Copy,
   Trash2,
@@ -23,143 +27,19 @@ import {
   GitCompare,
   Percent,
   Upload,
-  FileJson
+  FileJson,
+  CodeXml
 } from 'lucide-react'
 
-type DiffMode = 'character' | 'word' | 'line' | 'tree'
+type DiffMode = 'character' | 'word' | 'line' | 'code' | 'tree'
 
-interface DiffPart {
-  type: 'equal' | 'added' | 'removed'
-  text: string
-  lineNumber?: number
-}
-
-// Character-level diff using LCS
-function computeCharDiff(textA: string, textB: string): DiffPart[] {
-  const result: DiffPart[] = []
-  const charsA = textA.split('')
-  const charsB = textB.split('')
-  const m = charsA.length
-  const n = charsB.length
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0))
-
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (charsA[i - 1] === charsB[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1])
-      }
-    }
-  }
-
-  let i = m, j = n
-  const parts: DiffPart[] = []
-
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && charsA[i - 1] === charsB[j - 1]) {
-      parts.unshift({ type: 'equal', text: charsA[i - 1] })
-      i--; j--
-    } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
-      parts.unshift({ type: 'added', text: charsB[j - 1] })
-      j--
-    } else if (i > 0) {
-      parts.unshift({ type: 'removed', text: charsA[i - 1] })
-      i--
-    }
-  }
-
-  for (const part of parts) {
-    if (result.length > 0 && result[result.length - 1].type === part.type) {
-      result[result.length - 1].text += part.text
-    } else {
-      result.push({ ...part })
-    }
-  }
-  return result
-}
-
-// Word-level diff
-function computeWordDiff(textA: string, textB: string): DiffPart[] {
-  const wordsA = textA.split(/(\s+)/)
-  const wordsB = textB.split(/(\s+)/)
-  const result: DiffPart[] = []
-  const m = wordsA.length
-  const n = wordsB.length
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0))
-
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (wordsA[i - 1] === wordsB[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1])
-      }
-    }
-  }
-
-  let i = m, j = n
-  const parts: DiffPart[] = []
-
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && wordsA[i - 1] === wordsB[j - 1]) {
-      parts.unshift({ type: 'equal', text: wordsA[i - 1] })
-      i--; j--
-    } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
-      parts.unshift({ type: 'added', text: wordsB[j - 1] })
-      j--
-    } else if (i > 0) {
-      parts.unshift({ type: 'removed', text: wordsA[i - 1] })
-      i--
-    }
-  }
-
-  for (const part of parts) {
-    if (result.length > 0 && result[result.length - 1].type === part.type) {
-      result[result.length - 1].text += part.text
-    } else {
-      result.push({ ...part })
-    }
-  }
-  return result
-}
-
-// Line-level diff
-function computeLineDiff(textA: string, textB: string): DiffPart[] {
-  const linesA = textA.split('\n')
-  const linesB = textB.split('\n')
-  const m = linesA.length
-  const n = linesB.length
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0))
-
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (linesA[i - 1] === linesB[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1])
-      }
-    }
-  }
-
-  let i = m, j = n
-  const parts: DiffPart[] = []
-  let lineNumA = linesA.length
-  let lineNumB = linesB.length
-
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && linesA[i - 1] === linesB[j - 1]) {
-      parts.unshift({ type: 'equal', text: linesA[i - 1] + '\n', lineNumber: lineNumA })
-      i--; j--; lineNumA--; lineNumB--
-    } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
-      parts.unshift({ type: 'added', text: linesB[j - 1] + '\n', lineNumber: lineNumB })
-      j--; lineNumB--
-    } else if (i > 0) {
-      parts.unshift({ type: 'removed', text: linesA[i - 1] + '\n', lineNumber: lineNumA })
-      i--; lineNumA--
-    }
-  }
-  return parts
+// CODE-001: Highlighting language for text detected by content
+const DETECTED_CODE_LANGUAGES: Record<string, CodeLanguage> = {
+  JSON: 'json',
+  JavaScript: 'javascript',
+  Python: 'python',
+  CSS: 'css',
+  HTML: 'html',
 }
 
 function detectLanguage(text: string): string | null {
@@ -229,6 +109,8 @@ export function PromptDiff() {
   const [copiedA, setCopiedA] = useState(false)
   const [copiedB, setCopiedB] = useState(false)
   const [focusedPanel, setFocusedPanel] = useState<'a' | 'b' | null>(null)
+  // CODE-001: Uploaded file names, for the language by extension
+  const [fileNames, setFileNames] = useState<{ a?: string; b?: string }>({})
 
   // File upload refs
   const fileInputARef = useRef<HTMLInputElement>(null)
@@ -246,10 +128,14 @@ export function PromptDiff() {
       } else {
         setPromptB(content)
       }
+      setFileNames(names => ({ ...names, [side]: file.name }))
 
-      // Auto-switch to tree mode if JSON is detected
+      // Auto-switch to tree mode if JSON is detected, code mode for source files
+      const language = getLanguageFromFileName(file.name)
       if (isStructuredData(content)) {
         setDiffMode('tree')
+      } else if (language && language !== 'plaintext' && language !== 'markdown') {
+        setDiffMode('code')
       }
     }
     reader.readAsText(file)
@@ -275,6 +161,7 @@ export function PromptDiff() {
     const tempA = promptA
     setPromptA(promptB || '')
     setPromptB(tempA || '')
+    setFileNames(names => ({ a: names.b, b: names.a }))
   }
 
   const diffParts = useMemo(() => {
@@ -283,7 +170,8 @@ export function PromptDiff() {
     const b = promptB || ''
     switch (diffMode) {
       case 'character': return computeCharDiff(a, b)
-      case 'line': return computeLineDiff(a, b)
+      case 'line':
+      case 'code': return computeLineDiff(a, b)
       default: return computeWordDiff(a, b)
     }
   }, [promptA, promptB, diffMode])
@@ -300,6 +188,10 @@ export function PromptDiff() {
 
   const languageA = useMemo(() => detectLanguage(promptA || ''), [promptA])
   const languageB = useMemo(() => detectLanguage(promptB || ''), [promptB])
+  const codeLanguage = useMemo<CodeLanguage>(() => {
+    const fromName = getLanguageFromFileName(fileNames.b ?? '') ?? getLanguageFromFileName(fileNames.a ?? '')
+    return fromName ?? DETECTED_CODE_LANGUAGES[languageB ?? languageA ?? ''] ?? 'plaintext'
+  }, [fileNames, languageA, languageB])
   const tokensA = useMemo(() => estimateTokens(promptA || ''), [promptA])
   const tokensB = useMemo(() => estimateTokens(promptB || ''), [promptB])
   const wordsA = (promptA || '').trim().split(/\s+/).filter(Boolean).length
@@ -317,6 +209,7 @@ export function PromptDiff() {
     { mode: 'character', icon: Type, label: 'Char' },
     { mode: 'word', icon: AlignLeft, label: 'Word' },
     { mode: 'line', icon: List, label: 'Line' },
+    { mode: 'code', icon: CodeXml, label: 'Code' },
   ]
 
   return (
@@ -432,7 +325,7 @@ export function PromptDiff() {
                 <input
                   ref={fileInputARef}
                   type="file"
-                  accept=".json,.txt,.md,.js,.ts,.jsx,.tsx,.py,.css,.html,.xml,.yaml,.yml"
+                  accept=".json,.txt,.md,.js,.ts,.jsx,.tsx,.py,.css,.html,.xml,.yaml,.yml,.toml,.rs,.go,.java,.kt,.c,.h,.cpp,.hpp,.cs,.sh,.sql,.scss"
                   onChange={handleFileUpload('a')}
                   className="hidden"
                 />
@@ -554,7 +447,7 @@ export function PromptDiff() {
                 <input
                   ref={fileInputBRef}
                   type="file"
-                  accept=".json,.txt,.md,.js,.ts,.jsx,.tsx,.py,.css,.html,.xml,.yaml,.yml"
+                  accept=".json,.txt,.md,.js,.ts,.jsx,.tsx,.py,.css,.html,.xml,.yaml,.yml,.toml,.rs,.go,.java,.kt,.c,.h,.cpp,.hpp,.cs,.sh,.sql,.scss"
                   onChange={handleFileUpload('b')}
                   className="hidden"
                 />
@@ -657,6 +550,14 @@ export function PromptDiff() {
             </div>
           ) : diffMode === 'tree' ? (
             <JsonTreeDiff jsonA={promptA || ''} jsonB={promptB || ''} />
+          ) : diffMode === 'code' ? (
+            <CodeDiffView
+              textA={promptA || ''}
+              textB={promptB || ''}
+              language={codeLanguage}
+              showLineNumbers={showLineNumbers}
+              showWhitespace={showWhitespace}
+            />
           ) : diffMode === 'line' ? (
             <div className="font-mono text-sm">
               {diffParts.map((part, index) => (
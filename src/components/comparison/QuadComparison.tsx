@@ -7,6 +7,7 @@
  * - Click any quadrant to expand to full view
  * - Independent source selection per quadrant
  * - Labels showing source name in each quadrant
+ * COLOR-001: Each quadrant shows its clip's colour grade
  */
 
 import { useRef, useEffect, useCallback, useMemo } from 'react'
@@ -19,6 +20,7 @@ import { useSyncedZoom } from '../../hooks/useSyncedZoom'
 import { Maximize2, Minimize2, Grid2X2, Upload } from 'lucide-react'
 import { cn } from '../../lib/utils'
 import { useDropZone } from '../../hooks/useDropZone'
+import { ColorGradeLayer } from './ColorGradeLayer'
 
 interface QuadrantProps {
   index: number
@@ -55,6 +57,11 @@ function Quadrant({ index, mediaId, isExpanded, onExpand, onCollapse, transformS
   // Sync video playback
   useOptimizedClipSync(videoRef, activeClip)
 
+  // COLOR-001: Grade of the clip this slot shows
+  const gradeClip = activeClip?.mediaId === mediaId
+    ? activeClip
+    : tracks.flatMap(t => t.clips).find(c => c.mediaId === mediaId) ?? null
+
   // Labels for quadrants
   const labels = ['1', '2', '3', '4']
   const colors = ['#ff5722', '#cddc39', '#2196f3', '#9c27b0']
@@ -78,7 +85,7 @@ function Quadrant({ index, mediaId, isExpanded, onExpand, onCollapse, transformS
         onChange={dropZone.handleFileInputChange}
       />
 
-      <div className="w-full h-full" style={transformStyle}>
+      <div className="w-full h-full relative" style={transformStyle}>
         {media ? (
           media.type === 'video' ? (
             <video
@@ -116,6 +123,9 @@ function Quadrant({ index, mediaId, isExpanded, onExpand, onCollapse, transformS
             <span className="text-xs">Slot {index + 1}</span>
           </div>
         )}
+        {(media?.type === 'video' || media?.type === 'image') && (
+          <ColorGradeLayer source={media.type === 'video' ? videoRef : imgRef} clip={gradeClip} />
+        )}
       </div>
 
       {/* Quadrant label */}
@@ -0,0 +1,427 @@
+/**
+ * METRICS-001: Per-frame Quality Report
+ * Full-pass analysis of every frame on tracks A and B with CSV/JSON export
+ * SHOT-001: Per-shot averages split at detected scene cuts
+ */
+
+import { useState, useCallback, useRef, useMemo } from 'react'
+import { useMediaStore } from '../../stores/mediaStore'
+import { useTimelineStore } from '../../stores/timelineStore'
+import { useProjectStore } from '../../stores/projectStore'
+import { usePlaybackStore } from '../../stores/playbackStore'
+import { useSceneCuts } from '../../hooks/useSceneCuts'
+import { analyzeVideoQuality, countQualityReportFrames, findQualityReportSpans, summarizeQualityByShot, qualityReportToCSV, qualityReportToJSON } from '../../lib/qualityReport'
+import { downloadBlob } from '../../lib/screenshotExport'
+import type { TimelineClip } from '../../types'
+import { ClipboardList, X, Play, Pause, FileJson, FileSpreadsheet, AlertTriangle, Film, Loader2 } from 'lucide-react'
+
+interface QualityReportPanelProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+// Sample resolutions offered for the full pass
+const SAMPLE_SIZES = [
+  { label: '320×180 (fast)', width: 320, height: 180 },
+  { label: '480×270', width: 480, height: 270 },
+  { label: '960×540', width: 960, height: 540 },
+  { label: '1920×1080 (slow)', width: 1920, height: 1080 },
+]
+
+// Maximum rows rendered in the table; exports always include every frame
+const MAX_TABLE_ROWS = 500
+
+export function QualityReportPanel({ isOpen, onClose }: QualityReportPanelProps) {
+  const { files } = useMediaStore()
+  const { tracks, frameRate } = useTimelineStore()
+  const { qualityReport, setQualityReport, webglComparisonSettings } = useProjectStore()
+  const { seek } = usePlaybackStore()
+  const sceneCuts = useSceneCuts()
+
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [sampleSizeIndex, setSampleSizeIndex] = useState(1)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Every stretch where a video clip on A overlaps one on B
+  const spans = useMemo(() => {
+    const resolve = (clip: TimelineClip) => {
+      const media = files.find(f => f.id === clip.mediaId)
+      return media?.type === 'video' ? { clip, name: media.name, url: media.url } : null
+    }
+    return findQualityReportSpans(
+      tracks.find(t => t.type === 'a')?.clips ?? [],
+      tracks.find(t => t.type === 'b')?.clips ?? [],
+      resolve
+    )
+  }, [tracks, files])
+
+  // Per-shot summaries; the shot with the lowest mean SSIM is highlighted
+  const shotSummaries = useMemo(() => {
+    if (!qualityReport || sceneCuts.cutTimes.length === 0) return []
+    return summarizeQualityByShot(qualityReport, sceneCuts.cutTimes).filter(s => s.summary.frameCount > 0)
+  }, [qualityReport, sceneCuts.cutTimes])
+
+  const worstShot = shotSummaries.length > 1
+    ? shotSummaries.reduce((worst, s) => (s.summary.meanSSIM < worst.summary.meanSSIM ? s : worst))
+    : null
+
+  const totalFrames = useMemo(() => countQualityReportFrames(spans, frameRate), [spans, frameRate])
+  const hasSpans = spans.length > 0
+
+  // Run the full pass
+  const runAnalysis = useCallback(async () => {
+    if (!hasSpans) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsProcessing(true)
+    setProgress(0)
+    setError(null)
+
+    const sampleSize = SAMPLE_SIZES[sampleSizeIndex]
+
+    try {
+      const report = await analyzeVideoQuality(spans, {
+        frameRate,
+        sampleWidth: sampleSize.width,
+        sampleHeight: sampleSize.height,
+        threshold: Math.round(webglComparisonSettings.threshold * 255),
+        roi: webglComparisonSettings.roi,
+        mask: webglComparisonSettings.metricMask,
+        onProgress: (p) => setProgress(p),
+        signal: controller.signal,
+      })
+      setQualityReport(report)
+    } catch (err) {
+      console.error('Quality report failed:', err)
+      setError(err instanceof Error ? err.message : 'Analysis failed')
+    }
+
+    abortRef.current = null
+    setIsProcessing(false)
+  }, [spans, hasSpans, frameRate, sampleSizeIndex, webglComparisonSettings.threshold, webglComparisonSettings.roi, webglComparisonSettings.metricMask, setQualityReport])
+
+  const stopAnalysis = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
+  const exportCSV = useCallback(() => {
+    if (!qualityReport) return
+    const blob = new Blob([qualityReportToCSV(qualityReport)], { type: 'text/csv' })
+    downloadBlob(blob, `quality-report-${Date.now()}.csv`)
+  }, [qualityReport])
+
+  const exportJSON = useCallback(() => {
+    if (!qualityReport) return
+    const blob = new Blob([qualityReportToJSON(qualityReport, shotSummaries)], { type: 'application/json' })
+    downloadBlob(blob, `quality-report-${Date.now()}.json`)
+  }, [qualityReport, shotSummaries])
+
+  const formatPSNR = (value: number) => (Number.isFinite(value) ? `${value.toFixed(2)} dB` : '∞ dB')
+
+  if (!isOpen) return null
+
+  const summary = qualityReport?.summary
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1a1a1a] rounded-lg w-full max-w-5xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <ClipboardList size={20} className="text-[#ff5722]" />
+            <h2 className="text-lg font-semibold text-white">Per-frame Quality Report</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="px-6 py-3 border-b border-gray-700 flex items-center gap-4">
+          {hasSpans ? (
+            <div className="text-xs text-gray-400">
+              <span className="text-orange-400">Track A</span>
+              {' vs '}
+              <span className="text-lime-400">Track B</span>
+              {' • '}{spans.length} overlap{spans.length === 1 ? '' : 's'}
+              {' • '}{totalFrames} frames @ {frameRate} fps
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-xs text-yellow-400">
+              <AlertTriangle size={14} />
+              Place overlapping video clips on tracks A and B to analyse
+            </div>
+          )}
+
+          <div className="flex-1" />
+
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Sample:
+            <select
+              value={sampleSizeIndex}
+              onChange={e => setSampleSizeIndex(Number(e.target.value))}
+              disabled={isProcessing}
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+            >
+              {SAMPLE_SIZES.map((size, i) => (
+                <option key={size.label} value={i}>{size.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {isProcessing ? (
+            <button
+              onClick={stopAnalysis}
+              className="px-4 py-1.5 bg-red-600 text-white rounded flex items-center gap-2 text-sm"
+            >
+              <Pause size={14} />
+              Stop ({progress.toFixed(0)}%)
+            </button>
+          ) : (
+            <button
+              onClick={runAnalysis}
+              disabled={!hasSpans}
+              className="px-4 py-1.5 bg-[#ff5722] text-white rounded flex items-center gap-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Play size={14} />
+              Analyze all frames
+            </button>
+          )}
+
+          <button
+            onClick={sceneCuts.isDetecting ? sceneCuts.stop : sceneCuts.detect}
+            disabled={!sceneCuts.canDetect}
+            className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 text-gray-300 rounded text-sm hover:bg-gray-600 disabled:opacity-50"
+            title="Detect scene cuts in video A for per-shot averages"
+          >
+            {sceneCuts.isDetecting ? <Loader2 size={14} className="animate-spin" /> : <Film size={14} />}
+            {sceneCuts.isDetecting ? `${sceneCuts.progress.toFixed(0)}%` : 'Shots'}
+          </button>
+
+          <button
+            onClick={exportCSV}
+            disabled={!qualityReport}
+            className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 text-gray-300 rounded text-sm hover:bg-gray-600 disabled:opacity-50"
+          >
+            <FileSpreadsheet size={14} />
+            CSV
+          </button>
+          <button
+            onClick={exportJSON}
+            disabled={!qualityReport}
+            className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 text-gray-300 rounded text-sm hover:bg-gray-600 disabled:opacity-50"
+          >
+            <FileJson size={14} />
+            JSON
+          </button>
+        </div>
+
+        {isProcessing && (
+          <div className="h-1 bg-gray-700">
+            <div className="h-full bg-[#ff5722] transition-all" style={{ width: `${progress}%` }} />
+          </div>
+        )}
+
+        {error && (
+          <div className="px-6 py-2 text-sm text-red-400 border-b border-gray-700">{error}</div>
+        )}
+
+        {/* Summary */}
+        {summary && summary.frameCount > 0 && (
+          <div className="px-6 py-3 border-b border-gray-700 bg-[#252525]">
+            <div className="text-xs text-gray-400 uppercase tracking-wide mb-2">
+              Summary • {summary.frameCount} frames • {qualityReport.createdAt.replace('T', ' ').slice(0, 19)}
+            </div>
+            <div className="grid grid-cols-6 gap-4 text-sm">
+              <div>
+                <div className="text-gray-500">Mean PSNR</div>
+                <div className="text-white font-mono">{formatPSNR(summary.meanPSNR)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Min PSNR</div>
+                <div className="text-red-400 font-mono">{formatPSNR(summary.minPSNR)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Mean SSIM</div>
+                <div className="text-white font-mono">{summary.meanSSIM.toFixed(4)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Min SSIM</div>
+                <button
+                  onClick={() => {
+                    // Frame numbers skip gaps between overlaps, so look the frame up
+                    const worst = qualityReport.frames.find(f => f.frame === summary.worstFrame)
+                    if (worst) seek(worst.time)
+                  }}
+                  className="text-red-400 font-mono hover:underline"
+                  title="Jump to worst frame"
+                >
+                  {summary.minSSIM.toFixed(4)}
+                </button>
+              </div>
+              <div>
+                <div className="text-gray-500">Mean Delta E</div>
+                <div className="text-white font-mono">{summary.meanDeltaE.toFixed(2)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Mean MS-SSIM</div>
+                <div className="text-white font-mono">{summary.meanMSSSIM.toFixed(4)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Mean ΔE00</div>
+                <div className="text-white font-mono">{summary.meanDeltaE2000.toFixed(2)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Max Peak</div>
+                <div className="text-white font-mono">{summary.maxPeakDifference.toFixed(0)}</div>
+              </div>
+            </div>
+            {/* ARTIFACT-001: Mean artifact profile, A / B */}
+            {summary.meanArtifactsA && summary.meanArtifactsB && (
+              <div className="grid grid-cols-6 gap-4 text-sm mt-3">
+                <div>
+                  <div className="text-gray-500">Block 8x8 A / B</div>
+                  <div className="text-white font-mono">
+                    {summary.meanArtifactsA.blockiness8.toFixed(3)} / {summary.meanArtifactsB.blockiness8.toFixed(3)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Block 16x16 A / B</div>
+                  <div className="text-white font-mono">
+                    {summary.meanArtifactsA.blockiness16.toFixed(3)} / {summary.meanArtifactsB.blockiness16.toFixed(3)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Banding A / B</div>
+                  <div className="text-white font-mono">
+                    {(summary.meanArtifactsA.banding * 100).toFixed(1)}% / {(summary.meanArtifactsB.banding * 100).toFixed(1)}%
+                  </div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Ringing A / B</div>
+                  <div className="text-white font-mono">
+                    {summary.meanArtifactsA.ringing.toFixed(2)} / {summary.meanArtifactsB.ringing.toFixed(2)}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* SHOT-001: Per-shot summary */}
+        {shotSummaries.length > 1 && (
+          <div className="border-b border-gray-700 max-h-48 overflow-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-[#252525] sticky top-0">
+                <tr>
+                  <th className="text-left px-4 py-1.5 text-gray-400 font-medium">Shot</th>
+                  <th className="text-left px-4 py-1.5 text-gray-400 font-medium">Start</th>
+                  <th className="text-right px-4 py-1.5 text-gray-400 font-medium">Frames</th>
+                  <th className="text-right px-4 py-1.5 text-gray-400 font-medium">Mean PSNR</th>
+                  <th className="text-right px-4 py-1.5 text-gray-400 font-medium">Mean SSIM</th>
+                  <th className="text-right px-4 py-1.5 text-gray-400 font-medium">Min SSIM</th>
+                  <th className="text-right px-4 py-1.5 text-gray-400 font-medium">Mean ΔE00</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shotSummaries.map(shot => (
+                  <tr
+                    key={shot.shot}
+                    onClick={() => seek(shot.startTime)}
+                    className={`cursor-pointer hover:bg-[#ff5722]/10 ${shot === worstShot ? 'bg-red-900/30' : ''}`}
+                    title={shot === worstShot ? 'Most divergent shot' : undefined}
+                  >
+                    <td className="px-4 py-1 text-purple-300 font-mono">{shot.shot + 1}</td>
+                    <td className="px-4 py-1 text-gray-300 font-mono">{shot.startTime.toFixed(2)}s</td>
+                    <td className="px-4 py-1 text-right text-gray-300 font-mono">{shot.summary.frameCount}</td>
+                    <td className="px-4 py-1 text-right text-gray-300 font-mono">{formatPSNR(shot.summary.meanPSNR)}</td>
+                    <td className="px-4 py-1 text-right text-gray-300 font-mono">{shot.summary.meanSSIM.toFixed(4)}</td>
+                    <td className="px-4 py-1 text-right text-gray-300 font-mono">{shot.summary.minSSIM.toFixed(4)}</td>
+                    <td className="px-4 py-1 text-right text-gray-300 font-mono">{shot.summary.meanDeltaE2000.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Per-frame table */}
+        <div className="flex-1 overflow-auto">
+          {!qualityReport || qualityReport.frames.length === 0 ? (
+            <div className="flex items-center justify-center h-48 text-gray-500 text-sm">
+              Run a full pass to record metrics for every frame
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-[#252525] sticky top-0">
+                <tr>
+                  <th className="text-left px-4 py-2 text-gray-400 font-medium">Frame</th>
+                  <th className="text-left px-4 py-2 text-gray-400 font-medium">Timecode</th>
+                  <th className="text-right px-4 py-2 text-gray-400 font-medium">PSNR</th>
+                  <th className="text-right px-4 py-2 text-gray-400 font-medium">SSIM</th>
+                  <th className="text-right px-4 py-2 text-gray-400 font-medium">MS-SSIM</th>
+                  <th className="text-right px-4 py-2 text-gray-400 font-medium">Delta E</th>
+                  <th className="text-right px-4 py-2 text-gray-400 font-medium">ΔE00</th>
+                  <th className="text-right px-4 py-2 text-gray-400 font-medium">Diff %</th>
+                  <th className="text-right px-4 py-2 text-gray-400 font-medium">Peak</th>
+                </tr>
+              </thead>
+              <tbody>
+                {qualityReport.frames.slice(0, MAX_TABLE_ROWS).map((frame, idx) => (
+                  <tr
+                    key={frame.frame}
+                    onClick={() => seek(frame.time)}
+                    className={`cursor-pointer hover:bg-[#ff5722]/10 ${idx % 2 === 0 ? 'bg-[#1a1a1a]' : 'bg-[#222]'}`}
+                  >
+                    <td className="px-4 py-1.5 text-gray-300 font-mono">{frame.frame}</td>
+                    <td className="px-4 py-1.5 text-gray-300 font-mono">{frame.timecode}</td>
+                    <td className={`px-4 py-1.5 text-right font-mono ${
+                      !Number.isFinite(frame.psnr) || frame.psnr >= 40 ? 'text-green-400' :
+                      frame.psnr >= 30 ? 'text-yellow-400' : 'text-red-400'
+                    }`}>
+                      {formatPSNR(frame.psnr)}
+                    </td>
+                    <td className={`px-4 py-1.5 text-right font-mono ${
+                      frame.ssim > 0.95 ? 'text-green-400' :
+                      frame.ssim > 0.8 ? 'text-yellow-400' : 'text-red-400'
+                    }`}>
+                      {frame.ssim.toFixed(4)}
+                    </td>
+                    <td className="px-4 py-1.5 text-right font-mono text-gray-300">{frame.msssim.toFixed(4)}</td>
+                    <td className="px-4 py-1.5 text-right font-mono text-gray-300">{frame.deltaE.toFixed(2)}</td>
+                    <td className="px-4 py-1.5 text-right font-mono text-gray-300">{frame.deltaE2000.toFixed(2)}</td>
+                    <td className="px-4 py-1.5 text-right font-mono text-gray-300">{frame.diffPixelPercent.toFixed(1)}%</td>
+                    <td className="px-4 py-1.5 text-right font-mono text-gray-300">{frame.peakDifference.toFixed(0)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        {qualityReport && qualityReport.frames.length > MAX_TABLE_ROWS && (
+          <div className="px-6 py-2 border-t border-gray-700 text-xs text-gray-500">
+            Showing first {MAX_TABLE_ROWS} of {qualityReport.frames.length} frames • exports include every frame
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Toggle button for the quality report
+export function QualityReportToggle({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className="p-2 rounded bg-black/70 text-gray-400 hover:text-white transition-colors"
+      title="Per-frame Quality Report (CSV/JSON)"
+    >
+      <ClipboardList size={16} />
+    </button>
+  )
+}
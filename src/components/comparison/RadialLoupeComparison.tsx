@@ -16,6 +16,7 @@ import { usePlaybackStore } from '../../stores/playbackStore'
 import { useMediaStore } from '../../stores/mediaStore'
 import { useProjectStore } from '../../stores/projectStore'
 import { useOptimizedClipSync } from '../../hooks/useOptimizedVideoSync'
+import { useClipGrader } from '../../hooks/useClipGrader'
 import { Lock, Unlock, Circle, Square, SplitSquareVertical, ZoomIn, ZoomOut } from 'lucide-react'
 
 export function RadialLoupeComparison() {
@@ -68,6 +69,10 @@ export function RadialLoupeComparison() {
   useOptimizedClipSync(videoARef, activeClipA || firstClipA)
   useOptimizedClipSync(videoBRef, activeClipB || firstClipB)
 
+  // COLOR-001: Draw the colour-graded frames
+  const gradeA = useClipGrader(displayClipA)
+  const gradeB = useClipGrader(displayClipB)
+
   // Handle image load
   const handleImageALoad = useCallback(() => {
     setImagesLoaded(prev => ({ ...prev, a: true }))
@@ -131,7 +136,7 @@ export function RadialLoupeComparison() {
 
     // Draw base layer (source A)
     if (sourceA && sourceAReady) {
-      ctx.drawImage(sourceA, 0, 0, width, height)
+      ctx.drawImage(gradeA(sourceA), 0, 0, width, height)
     } else {
       ctx.fillStyle = '#1a1a1a'
       ctx.fillRect(0, 0, width, height)
@@ -173,7 +178,7 @@ export function RadialLoupeComparison() {
           const srcAY = loupeCenter.y * srcAHeight - (srcAHeight / magnification) / 2
 
           ctx.drawImage(
-            sourceA,
+            gradeA(sourceA),
             srcAX, srcAY, srcAWidth / magnification, srcAHeight / magnification,
             loupeCenterX - radius, loupeCenterY - radius, radius * 2, radius * 2
           )
@@ -187,7 +192,7 @@ export function RadialLoupeComparison() {
         ctx.clip()
 
         ctx.drawImage(
-          sourceB,
+          gradeB(sourceB),
           srcX, srcY, srcWidth / magnification, srcHeight / magnification,
           loupeCenterX - radius, loupeCenterY - radius, radius * 2, radius * 2
         )
@@ -203,7 +208,7 @@ export function RadialLoupeComparison() {
       } else {
         // Normal mode: B fills entire loupe
         ctx.drawImage(
-          sourceB,
+          gradeB(sourceB),
           srcX, srcY, srcWidth / magnification, srcHeight / magnification,
           loupeCenterX - radius, loupeCenterY - radius, radius * 2, radius * 2
         )
@@ -234,7 +239,7 @@ export function RadialLoupeComparison() {
     }
 
     animationRef.current = requestAnimationFrame(render)
-  }, [mediaA, mediaB, mousePos, radialLoupeSettings, imagesLoaded])
+  }, [mediaA, mediaB, mousePos, radialLoupeSettings, imagesLoaded, gradeA, gradeB])
 
   // Start render loop
   useEffect(() => {
@@ -3,7 +3,7 @@ import { useTimelineStore } from '../../stores/timelineStore'
 import { usePlaybackStore } from '../../stores/playbackStore'
 import { useMediaStore } from '../../stores/mediaStore'
 import { useProjectStore } from '../../stores/projectStore'
-import { calculateVideoMetrics } from '../../lib/metrics'
+import { runMetricsJob, captureFramePair, isAbortError } from '../../lib/metricsWorkerPool'
 import { MetricsOverlay } from './MetricsOverlay'
 import { PixelInspector } from './PixelInspector'
 import { MagnifierLoupe, useMagnifier } from './MagnifierLoupe'
@@ -13,6 +13,7 @@ import { useOptimizedClipSync } from '../../hooks/useOptimizedVideoSync'
 import { useDropZone } from '../../hooks/useDropZone'
 import { cn } from '../../lib/utils'
 import { Upload } from 'lucide-react'
+import { ColorGradeLayer } from './ColorGradeLayer'
 
 export function SideBySide() {
   const videoARef = useRef<HTMLVideoElement>(null)
@@ -24,7 +25,8 @@ export function SideBySide() {
   const { tracks } = useTimelineStore()
   const { currentTime } = usePlaybackStore()
   const { getFile } = useMediaStore()
-  const { showMetrics, setMetrics } = useProjectStore()
+  const { showMetrics, setMetrics, setExtendedMetrics, webglComparisonSettings } = useProjectStore()
+  const { roi, metricMask } = webglComparisonSettings
   const { zoom, resetZoom, getTransformStyle, containerProps } = useSyncedZoom()
   const { pixelInspectorEnabled, handlePixelClick } = usePixelInspector()
   const magnifier = useMagnifier()
@@ -64,26 +66,50 @@ export function SideBySide() {
   useOptimizedClipSync(videoBRef, activeClipB || firstClipB)
 
   // Calculate quality metrics (VID-004)
+  // WORKER-001: Computed in the metrics worker pool, one update in flight at a time
   useEffect(() => {
     if (!showMetrics) return
 
-    const videoA = videoARef.current
-    const videoB = videoBRef.current
-    if (!videoA || !videoB) return
+    const controller = new AbortController()
+    let inFlight = false
 
-    const updateMetrics = () => {
-      const metrics = calculateVideoMetrics(videoA, videoB)
-      if (metrics) {
-        setMetrics(metrics.ssim, metrics.psnr)
+    const updateMetrics = async () => {
+      // METRICS-004: Images are scored too (no-reference metrics are useful for stills)
+      const sourceA = videoARef.current || imgARef.current
+      const sourceB = videoBRef.current || imgBRef.current
+      if (!sourceA || !sourceB || inFlight) return
+
+      inFlight = true
+      try {
+        const frames = await captureFramePair(sourceA, sourceB)
+        if (frames && !controller.signal.aborted) {
+          // MASK-001: Same ROI and mask as the WebGL analysis
+          const metrics = await runMetricsJob(
+            { kind: 'video', frameA: frames[0], frameB: frames[1], roi, mask: metricMask },
+            controller.signal
+          )
+          if (metrics) {
+            setMetrics(metrics.ssim, metrics.psnr)
+            setExtendedMetrics(metrics)
+          }
+        } else {
+          frames?.forEach(frame => frame.close())
+        }
+      } catch (err) {
+        if (!isAbortError(err)) console.error('Metrics update failed:', err)
       }
+      inFlight = false
     }
 
     // Update metrics periodically
     const interval = setInterval(updateMetrics, 500)
     updateMetrics()
 
-    return () => clearInterval(interval)
-  }, [showMetrics, setMetrics])
+    return () => {
+      clearInterval(interval)
+      controller.abort()
+    }
+  }, [showMetrics, setMetrics, setExtendedMetrics, roi, metricMask])
 
   const transformStyle = getTransformStyle()
 
@@ -120,6 +146,8 @@ export function SideBySide() {
         sourceARef={sourceARef as React.RefObject<HTMLImageElement | HTMLVideoElement | null>}
         sourceBRef={sourceBRef as React.RefObject<HTMLImageElement | HTMLVideoElement | null>}
         containerRef={containerRef}
+        clipA={displayClipA}
+        clipB={displayClipB}
         isEnabled={magnifier.isEnabled}
         onToggle={magnifier.toggle}
       />
@@ -145,7 +173,7 @@ export function SideBySide() {
         )}
         {...dropZoneA.dropZoneProps}
       >
-        <div className="w-full h-full" style={transformStyle}>
+        <div className="w-full h-full relative" style={transformStyle}>
           {mediaA ? (
             mediaA.type === 'video' ? (
               <video
@@ -185,6 +213,10 @@ export function SideBySide() {
               <span className="text-sm">Click or drop Media A</span>
             </div>
           )}
+          {/* COLOR-001: Clip grade */}
+          {mediaA && (
+            <ColorGradeLayer source={mediaA.type === 'video' ? videoARef : imgARef} clip={displayClipA} />
+          )}
         </div>
         {/* A badge - always visible when media loaded */}
         {mediaA && (
@@ -221,7 +253,7 @@ export function SideBySide() {
         )}
         {...dropZoneB.dropZoneProps}
       >
-        <div className="w-full h-full" style={transformStyle}>
+        <div className="w-full h-full relative" style={transformStyle}>
           {mediaB ? (
             mediaB.type === 'video' ? (
               <video
@@ -261,6 +293,10 @@ export function SideBySide() {
               <span className="text-sm">Click or drop Media B</span>
             </div>
           )}
+          {/* COLOR-001: Clip grade */}
+          {mediaB && (
+            <ColorGradeLayer source={mediaB.type === 'video' ? videoBRef : imgBRef} clip={displayClipB} />
+          )}
         </div>
         {/* B badge - always visible when media loaded */}
         {mediaB && (
@@ -7,7 +7,9 @@ import { cn } from '../../lib/utils'
 import { useSyncedZoom } from '../../hooks/useSyncedZoom'
 import { useOptimizedClipSync } from '../../hooks/useOptimizedVideoSync'
 import { useDropZone } from '../../hooks/useDropZone'
+import { MODEL_ACCEPT } from '../../lib/modelLoader'
 import { Upload } from 'lucide-react'
+import { ColorGradeLayer } from './ColorGradeLayer'
 
 interface VideoBounds {
   left: number
@@ -358,6 +360,11 @@ export function SliderComparison() {
               />
             )
           ) : null}
+          {/* COLOR-001: Clip grade */}
+          <ColorGradeLayer
+            source={(mediaB || mediaA)?.type === 'video' ? videoBRef : imgBRef}
+            clip={mediaB ? displayClipB : displayClipA}
+          />
         </div>
       )}
 
@@ -393,6 +400,11 @@ export function SliderComparison() {
                 />
               )
             ) : null}
+            {/* COLOR-001: Clip grade */}
+            <ColorGradeLayer
+              source={(mediaA || mediaB)?.type === 'video' ? videoARef : imgARef}
+              clip={mediaA ? displayClipA : displayClipB}
+            />
           </div>
         </div>
       )}
@@ -401,7 +413,7 @@ export function SliderComparison() {
       <input
         ref={dropZoneA.fileInputRef}
         type="file"
-        accept="video/*,image/*,audio/*,.glb,.gltf"
+        accept={`video/*,image/*,audio/*,${MODEL_ACCEPT},.mtl`}
         multiple
         className="hidden"
         onChange={dropZoneA.handleFileInputChange}
@@ -409,7 +421,7 @@ export function SliderComparison() {
       <input
         ref={dropZoneB.fileInputRef}
         type="file"
-        accept="video/*,image/*,audio/*,.glb,.gltf"
+        accept={`video/*,image/*,audio/*,${MODEL_ACCEPT},.mtl`}
         multiple
         className="hidden"
         onChange={dropZoneB.handleFileInputChange}
@@ -5,6 +5,7 @@ import { useMediaStore } from '../../stores/mediaStore'
 import { useSyncedZoom } from '../../hooks/useSyncedZoom'
 import { cn } from '../../lib/utils'
 import type { SplitLayout } from '../../types'
+import { ColorGradeLayer } from './ColorGradeLayer'
 
 const layoutClasses: Record<SplitLayout, string> = {
   '2x1': 'grid-cols-2 grid-rows-1',
@@ -17,6 +18,8 @@ export function SplitScreen() {
   const videoBRef = useRef<HTMLVideoElement>(null)
   const videoCRef = useRef<HTMLVideoElement>(null)
   const videoDRef = useRef<HTMLVideoElement>(null)
+  const imgARef = useRef<HTMLImageElement>(null)
+  const imgBRef = useRef<HTMLImageElement>(null)
 
   const { splitLayout } = useProjectStore()
   const { currentTime, isPlaying, tracks, playbackSpeed, loopRegion, seek } = useTimelineStore()
@@ -37,6 +40,8 @@ export function SplitScreen() {
   const clipList = [clipA, clipB, null, null].slice(0, slots)
   const mediaList = [mediaA, mediaB, null, null].slice(0, slots)
   const videoRefs = [videoARef, videoBRef, videoCRef, videoDRef].slice(0, slots)
+  // Only the A and B slots hold media
+  const imgRefs = [imgARef, imgBRef]
 
   // Calculate media time from timeline time based on clip's inPoint
   const getMediaTime = useCallback((timelineTime: number, clip: typeof clipA | null) => {
@@ -114,7 +119,7 @@ export function SplitScreen() {
 
       {mediaList.map((media, index) => (
         <div key={index} className="relative bg-surface overflow-hidden">
-          <div className="w-full h-full" style={transformStyle}>
+          <div className="w-full h-full relative" style={transformStyle}>
             {media ? (
               media.type === 'video' ? (
                 <video
@@ -126,13 +131,20 @@ export function SplitScreen() {
                   loop
                 />
               ) : (
-                <img src={media.url} className="w-full h-full object-contain" alt={`Slot ${index + 1}`} draggable={false} />
+                <img ref={imgRefs[index]} src={media.url} className="w-full h-full object-contain" alt={`Slot ${index + 1}`} draggable={false} />
               )
             ) : (
               <div className="w-full h-full flex items-center justify-center text-text-muted">
                 <span>Slot {index + 1}</span>
               </div>
             )}
+            {/* COLOR-001: Slot media through its clip's colour grade */}
+            {media && (
+              <ColorGradeLayer
+                source={media.type === 'video' ? videoRefs[index] : imgRefs[index]}
+                clip={clipList[index] ?? null}
+              />
+            )}
           </div>
         </div>
       ))}
@@ -0,0 +1,358 @@
+/**
+ * SUB-001: Subtitle Comparison
+ * Two SRT / WebVTT / ASS files compared cue by cue: timing offsets, word
+ * diffs of changed text, cues missing from either file, and overlaps or
+ * too-short gaps within each file. A and B are the first two subtitle
+ * files on the text tracks (then the media library); clicking a row seeks
+ * the timeline to the cue.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { AlertTriangle, Captions, Upload } from 'lucide-react'
+import { useMediaStore } from '../../stores/mediaStore'
+import { useTimelineStore } from '../../stores/timelineStore'
+import { usePlaybackStore } from '../../stores/playbackStore'
+import { cn } from '../../lib/utils'
+import { compareSubtitles, type SubtitleCuePair, type SubtitleTimingIssue } from '../../lib/subtitleDiff'
+import { formatSubtitleTime, SUBTITLE_ACCEPT } from '../../lib/subtitleParser'
+import type { MediaFile, SubtitleCue } from '../../types'
+
+type CueFilter = 'all' | 'changed' | 'text' | 'timing' | 'unmatched' | 'issues'
+
+const FILTERS: { id: CueFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'changed', label: 'Changed' },
+  { id: 'text', label: 'Text' },
+  { id: 'timing', label: 'Timing' },
+  { id: 'unmatched', label: 'Unmatched' },
+  { id: 'issues', label: 'Overlaps / Gaps' },
+]
+
+// Shortest gap between cues before it is reported (frames)
+const DEFAULT_MIN_GAP_FRAMES = 2
+
+function formatOffset(seconds: number | null): string {
+  if (seconds === null) return ''
+  const ms = Math.round(seconds * 1000)
+  return ms === 0 ? '0' : `${ms > 0 ? '+' : ''}${ms} ms`
+}
+
+function CueTime({ cue }: { cue: SubtitleCue | null }) {
+  if (!cue) return <span className="text-text-muted">—</span>
+  return (
+    <div className="font-mono leading-tight">
+      <div>{formatSubtitleTime(cue.start)}</div>
+      <div className="text-text-muted">{formatSubtitleTime(cue.end)}</div>
+    </div>
+  )
+}
+
+function CueText({ pair }: { pair: SubtitleCuePair }) {
+  if (pair.diff) {
+    return (
+      <div className="whitespace-pre-wrap">
+        {pair.diff.map((part, index) => (
+          <span
+            key={index}
+            className={cn(
+              part.type === 'added' && 'bg-green-500/20 text-green-400 px-0.5',
+              part.type === 'removed' && 'bg-red-500/20 text-red-400 line-through px-0.5',
+              part.type === 'equal' && 'text-text-primary'
+            )}
+          >
+            {part.text}
+          </span>
+        ))}
+      </div>
+    )
+  }
+
+  const cue = pair.a ?? pair.b
+  return (
+    <div
+      className={cn(
+        'whitespace-pre-wrap',
+        !pair.b && 'text-red-400 line-through',
+        !pair.a && 'text-green-400',
+        pair.a && pair.b && 'text-text-primary'
+      )}
+    >
+      {cue?.text}
+    </div>
+  )
+}
+
+export function SubtitleComparison() {
+  const { files, getFile, addFile } = useMediaStore()
+  const { tracks, frameRate, addClip, addTrack } = useTimelineStore()
+  const { currentTime, seek } = usePlaybackStore()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const activeRowRef = useRef<HTMLTableRowElement>(null)
+
+  const [selectedA, setSelectedA] = useState<string | null>(null)
+  const [selectedB, setSelectedB] = useState<string | null>(null)
+  const [filter, setFilter] = useState<CueFilter>('all')
+  const [minGapFrames, setMinGapFrames] = useState(DEFAULT_MIN_GAP_FRAMES)
+
+  // Subtitle files on text tracks in lane order, then the rest of the library
+  const subtitleFiles = useMemo(() => {
+    const onTimeline = tracks
+      .filter(t => t.type === 'text')
+      .flatMap(t => t.clips)
+      .map(c => getFile(c.mediaId))
+      .filter((m): m is MediaFile => m?.type === 'subtitle' && !!m.subtitles)
+    const library = files.filter(f => f.type === 'subtitle' && f.subtitles)
+    return Array.from(new Set([...onTimeline, ...library]))
+  }, [tracks, files, getFile])
+
+  const mediaA = subtitleFiles.find(f => f.id === selectedA) ?? subtitleFiles[0] ?? null
+  const mediaB = subtitleFiles.find(f => f.id === selectedB) ?? subtitleFiles.find(f => f !== mediaA) ?? null
+
+  const comparison = useMemo(() => {
+    if (!mediaA?.subtitles || !mediaB?.subtitles) return null
+    return compareSubtitles(mediaA.subtitles.cues, mediaB.subtitles.cues, {
+      timingTolerance: 0.5 / frameRate, // Under half a frame is the same frame
+      minGap: minGapFrames / frameRate,
+    })
+  }, [mediaA, mediaB, frameRate, minGapFrames])
+
+  // Overlap / gap issues by cue, per side
+  const issuesByCue = useMemo(() => {
+    const index = (issues: SubtitleTimingIssue[]) => {
+      const map = new Map<SubtitleCue, SubtitleTimingIssue[]>()
+      for (const issue of issues) {
+        for (const cue of [issue.cue, issue.next]) map.set(cue, [...(map.get(cue) ?? []), issue])
+      }
+      return map
+    }
+    return comparison ? { a: index(comparison.issuesA), b: index(comparison.issuesB) } : null
+  }, [comparison])
+
+  const rows = useMemo(() => {
+    if (!comparison || !issuesByCue) return []
+    return comparison.pairs.filter(pair => {
+      switch (filter) {
+        case 'all': return true
+        case 'changed': return pair.textChanged || pair.timingChanged || !pair.a || !pair.b
+        case 'text': return pair.textChanged
+        case 'timing': return pair.timingChanged
+        case 'unmatched': return !pair.a || !pair.b
+        case 'issues': return (!!pair.a && issuesByCue.a.has(pair.a)) || (!!pair.b && issuesByCue.b.has(pair.b))
+      }
+    })
+  }, [comparison, issuesByCue, filter])
+
+  // Timeline time of a cue: subtitle clips may not start at 0
+  const toTimelineTime = useCallback((media: MediaFile, time: number) => {
+    const clip = tracks.flatMap(t => t.clips).find(c => c.mediaId === media.id)
+    return clip ? clip.startTime + (time - clip.inPoint) : time
+  }, [tracks])
+
+  const isActive = (pair: SubtitleCuePair) => {
+    const hit = (media: MediaFile | null, cue: SubtitleCue | null) =>
+      !!media && !!cue && currentTime >= toTimelineTime(media, cue.start) && currentTime < toTimelineTime(media, cue.end)
+    return hit(mediaA, pair.a) || hit(mediaB, pair.b)
+  }
+  const activeIndex = rows.findIndex(isActive)
+
+  // Keep the cue under the playhead in view
+  useEffect(() => {
+    activeRowRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  const handleUpload = useCallback(async (selection: FileList | null) => {
+    if (!selection) return
+    for (const file of Array.from(selection)) {
+      try {
+        const mediaFile = await addFile(file)
+        const textTrack = useTimelineStore.getState().tracks.find(t => t.type === 'text') ?? addTrack('text')
+        addClip(textTrack.id, mediaFile.id, 0, mediaFile.duration || 10)
+      } catch (error) {
+        console.error('Failed to add subtitle file:', error)
+      }
+    }
+  }, [addFile, addClip, addTrack])
+
+  const uploadInput = (
+    <input
+      ref={fileInputRef}
+      type="file"
+      accept={SUBTITLE_ACCEPT}
+      multiple
+      className="hidden"
+      onChange={(e) => {
+        handleUpload(e.target.files)
+        e.target.value = ''
+      }}
+    />
+  )
+
+  if (!comparison || !mediaA || !mediaB || !issuesByCue) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-text-muted p-4">
+        {uploadInput}
+        <div className="text-center">
+          <Captions className="w-10 h-10 mx-auto mb-3 opacity-50" />
+          <h2 className="text-lg font-semibold text-text-primary mb-1">Subtitle Comparison</h2>
+          <p className="text-xs mb-4">
+            {subtitleFiles.length === 1
+              ? 'Add a second subtitle file to compare against'
+              : 'Add two SRT, WebVTT or ASS files to compare cue by cue'}
+          </p>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="inline-flex items-center gap-2 px-3 py-2 text-xs bg-accent/20 text-accent hover:bg-accent/30 border border-accent/40 transition-colors"
+          >
+            <Upload className="w-3 h-3" />
+            Add subtitle files
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const { summary } = comparison
+  const sides = [
+    { label: 'A', media: mediaA, select: setSelectedA, color: 'text-orange-400', issues: comparison.issuesA },
+    { label: 'B', media: mediaB, select: setSelectedB, color: 'text-lime-400', issues: comparison.issuesB },
+  ]
+
+  return (
+    <div className="w-full h-full flex flex-col bg-background text-xs">
+      {uploadInput}
+
+      {/* File pickers and summary */}
+      <div className="flex flex-wrap items-center gap-4 px-4 py-2 border-b border-border">
+        {sides.map(({ label, media, select, color, issues }) => (
+          <label key={label} className="flex items-center gap-2">
+            <span className={cn('font-bold', color)}>{label}</span>
+            <select
+              value={media.id}
+              onChange={e => select(e.target.value)}
+              className="max-w-48 bg-surface border border-border rounded px-1 py-0.5 text-text-primary"
+            >
+              {subtitleFiles.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+            </select>
+            <span className="text-text-muted">
+              {media.subtitles?.cues.length} cues
+              {issues.length > 0 && <span className="text-warning"> • {issues.length} overlaps/gaps</span>}
+            </span>
+          </label>
+        ))}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="p-1 text-text-muted hover:text-text-primary"
+          title="Add subtitle files"
+        >
+          <Upload className="w-3.5 h-3.5" />
+        </button>
+
+        <div className="flex items-center gap-3 ml-auto text-text-secondary">
+          <span>{summary.matched} matched</span>
+          <span className={summary.textChanged > 0 ? 'text-warning' : ''}>{summary.textChanged} text changed</span>
+          <span className={summary.timingChanged > 0 ? 'text-warning' : ''}>{summary.timingChanged} retimed</span>
+          <span className={summary.onlyA > 0 ? 'text-red-400' : ''}>{summary.onlyA} only in A</span>
+          <span className={summary.onlyB > 0 ? 'text-green-400' : ''}>{summary.onlyB} only in B</span>
+          <span title="Mean start offset B − A (a constant sync offset shows here)">
+            Δ mean {formatOffset(summary.meanStartOffset)}, max {formatOffset(summary.maxStartOffset)}
+          </span>
+        </div>
+      </div>
+
+      {/* Filters and gap threshold */}
+      <div className="flex items-center gap-1 px-4 py-1.5 border-b border-border">
+        {FILTERS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setFilter(id)}
+            className={cn(
+              'px-2 py-0.5 rounded transition-colors',
+              filter === id ? 'bg-accent text-white' : 'text-text-muted hover:bg-surface-hover'
+            )}
+          >
+            {label}
+          </button>
+        ))}
+        <label className="flex items-center gap-1 ml-auto text-text-muted">
+          Min gap
+          <input
+            type="number"
+            min={0}
+            max={24}
+            value={minGapFrames}
+            onChange={e => setMinGapFrames(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            className="w-12 bg-surface border border-border rounded px-1 py-0.5 text-text-primary"
+          />
+          frames
+        </label>
+      </div>
+
+      {/* Cue table */}
+      <div className="flex-1 overflow-auto">
+        <table className="w-full border-collapse">
+          <thead className="sticky top-0 bg-surface text-text-muted">
+            <tr>
+              <th className="px-2 py-1 text-left font-normal w-10">#A</th>
+              <th className="px-2 py-1 text-left font-normal w-28">A</th>
+              <th className="px-2 py-1 text-left font-normal w-10">#B</th>
+              <th className="px-2 py-1 text-left font-normal w-28">B</th>
+              <th className="px-2 py-1 text-right font-normal w-24">Δ start / end</th>
+              <th className="px-2 py-1 text-left font-normal">Text</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((pair, index) => {
+              const issues = [
+                ...(pair.a ? issuesByCue.a.get(pair.a) ?? [] : []),
+                ...(pair.b ? issuesByCue.b.get(pair.b) ?? [] : []),
+              ]
+              const cue = pair.a ?? pair.b
+              const media = pair.a ? mediaA : mediaB
+              return (
+                <tr
+                  key={`${pair.a?.index ?? '-'}:${pair.b?.index ?? '-'}`}
+                  ref={index === activeIndex ? activeRowRef : undefined}
+                  onClick={() => cue && seek(toTimelineTime(media, cue.start))}
+                  className={cn(
+                    'border-b border-border/50 align-top cursor-pointer hover:bg-surface-hover',
+                    index === activeIndex && 'bg-accent/10',
+                    !pair.b && 'bg-red-500/5',
+                    !pair.a && 'bg-green-500/5'
+                  )}
+                >
+                  <td className="px-2 py-1 text-text-muted">{pair.a?.index}</td>
+                  <td className="px-2 py-1"><CueTime cue={pair.a} /></td>
+                  <td className="px-2 py-1 text-text-muted">{pair.b?.index}</td>
+                  <td className="px-2 py-1"><CueTime cue={pair.b} /></td>
+                  <td className={cn('px-2 py-1 text-right font-mono', pair.timingChanged ? 'text-warning' : 'text-text-muted')}>
+                    <div>{formatOffset(pair.startOffset)}</div>
+                    <div>{formatOffset(pair.endOffset)}</div>
+                  </td>
+                  <td className="px-2 py-1">
+                    <div className="flex items-start gap-2">
+                      <div className="flex-1"><CueText pair={pair} /></div>
+                      {issues.length > 0 && (
+                        <span
+                          className="flex-shrink-0"
+                          title={issues.map(issue =>
+                            `${issue.kind === 'overlap' ? 'Overlaps' : 'Gap of'} ${Math.round(issue.duration * 1000)} ms ` +
+                            `(cues ${issue.cue.index} and ${issue.next.index})`
+                          ).join('\n')}
+                        >
+                          <AlertTriangle className="w-3.5 h-3.5 text-warning" />
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="p-4 text-center text-text-muted">No cues match this filter</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,12 +2,15 @@
  * WEBGL-009: Temporal Difference Graph
  * Line graph showing difference values over video timeline
  * Clickable to seek, highlights peaks/anomalies
+ * SHOT-001: Per-shot averages split at detected scene cuts
  */
 
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react'
 import { usePlaybackStore } from '../../stores/playbackStore'
 import { useTimelineStore } from '../../stores/timelineStore'
-import { Play, Pause, BarChart2, Loader2 } from 'lucide-react'
+import { useSceneCuts } from '../../hooks/useSceneCuts'
+import { splitIntoShots, findShotIndex } from '../../lib/sceneCutDetector'
+import { Play, Pause, BarChart2, Loader2, Film } from 'lucide-react'
 
 interface DifferenceDataPoint {
   time: number
@@ -15,6 +18,15 @@ interface DifferenceDataPoint {
   peakDiff: number
 }
 
+interface ShotDifference {
+  index: number
+  startTime: number
+  endTime: number
+  meanDiff: number
+  samples: number
+  divergent: boolean
+}
+
 interface TemporalDiffGraphProps {
   videoARef: React.RefObject<HTMLVideoElement | null>
   videoBRef: React.RefObject<HTMLVideoElement | null>
@@ -31,6 +43,7 @@ export function TemporalDiffGraph({ videoARef, videoBRef, isVisible }: TemporalD
 
   const { currentTime, seek, isPlaying, togglePlay } = usePlaybackStore()
   const { duration } = useTimelineStore()
+  const sceneCuts = useSceneCuts()
 
   // Sample interval in seconds (analyze every 0.5 seconds)
   const sampleInterval = 0.5
@@ -158,6 +171,31 @@ export function TemporalDiffGraph({ videoARef, videoBRef, isVisible }: TemporalD
     return peaks
   }, [data])
 
+  // Mean difference of each shot, split at the detected cuts
+  const shotDiffs = useMemo((): ShotDifference[] => {
+    if (data.length === 0 || sceneCuts.cutTimes.length === 0) return []
+
+    const shots = splitIntoShots(sceneCuts.cutTimes, 0, duration)
+    const totals = shots.map(() => ({ sum: 0, count: 0 }))
+    data.forEach(point => {
+      const total = totals[findShotIndex(shots, point.time)]
+      total.sum += point.avgDiff
+      total.count++
+    })
+
+    // Shots clearly above the overall mean are flagged as diverging
+    const overallMean = data.reduce((s, d) => s + d.avgDiff, 0) / data.length
+    return shots.map((shot, i) => {
+      const meanDiff = totals[i].count > 0 ? totals[i].sum / totals[i].count : 0
+      return {
+        ...shot,
+        meanDiff,
+        samples: totals[i].count,
+        divergent: totals[i].count > 0 && meanDiff > overallMean * 1.5 && meanDiff > 1,
+      }
+    })
+  }, [data, sceneCuts.cutTimes, duration])
+
   // Draw the graph
   useEffect(() => {
     const canvas = canvasRef.current
@@ -237,6 +275,32 @@ export function TemporalDiffGraph({ videoARef, videoBRef, isVisible }: TemporalD
     })
     ctx.stroke()
 
+    // Draw shot boundaries and per-shot means
+    ctx.strokeStyle = '#a855f7'
+    ctx.lineWidth = 1
+    ctx.setLineDash([2, 3])
+    sceneCuts.cutTimes.forEach(cutTime => {
+      const x = graphPadding.left + (cutTime / duration) * graphWidth
+      ctx.beginPath()
+      ctx.moveTo(x, graphPadding.top)
+      ctx.lineTo(x, height - graphPadding.bottom)
+      ctx.stroke()
+    })
+    ctx.setLineDash([])
+
+    ctx.lineWidth = 2
+    shotDiffs.forEach(shot => {
+      if (shot.samples === 0) return
+      const x1 = graphPadding.left + (shot.startTime / duration) * graphWidth
+      const x2 = graphPadding.left + (shot.endTime / duration) * graphWidth
+      const y = graphPadding.top + graphHeight - (shot.meanDiff / maxDiff) * graphHeight
+      ctx.strokeStyle = shot.divergent ? 'rgba(239, 68, 68, 0.8)' : 'rgba(168, 85, 247, 0.8)'
+      ctx.beginPath()
+      ctx.moveTo(x1, y)
+      ctx.lineTo(x2, y)
+      ctx.stroke()
+    })
+
     // Draw peak markers
     ctx.fillStyle = '#ff0000'
     peaks.forEach(peakIndex => {
@@ -284,6 +348,14 @@ export function TemporalDiffGraph({ videoARef, videoBRef, isVisible }: TemporalD
       ctx.fillText(`Time: ${hoveredTime.toFixed(1)}s`, hoverX + 15, 45)
       ctx.fillText(`Avg: ${closestPoint.avgDiff.toFixed(1)}`, hoverX + 15, 58)
       ctx.fillText(`Peak: ${closestPoint.peakDiff.toFixed(0)}`, hoverX + 15, 71)
+
+      if (shotDiffs.length > 0) {
+        const shot = shotDiffs[findShotIndex(shotDiffs, hoveredTime)]
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.8)'
+        ctx.fillRect(hoverX + 10, 80, 100, 14)
+        ctx.fillStyle = '#c084fc'
+        ctx.fillText(`Shot ${shot.index + 1}: ${shot.meanDiff.toFixed(1)}`, hoverX + 15, 90)
+      }
     }
 
     // Axis labels
@@ -298,7 +370,7 @@ export function TemporalDiffGraph({ videoARef, videoBRef, isVisible }: TemporalD
     ctx.fillText('Avg Difference', 0, 0)
     ctx.restore()
 
-  }, [data, currentTime, duration, isVisible, peaks, hoveredTime])
+  }, [data, currentTime, duration, isVisible, peaks, hoveredTime, sceneCuts.cutTimes, shotDiffs])
 
   // Handle click to seek
   const handleClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -356,6 +428,29 @@ export function TemporalDiffGraph({ videoARef, videoBRef, isVisible }: TemporalD
               {peaks.length} peak{peaks.length !== 1 ? 's' : ''} detected
             </span>
           )}
+          {sceneCuts.cutTimes.length > 0 && (
+            <span className="text-xs text-purple-400">
+              {sceneCuts.cutTimes.length + 1} shots
+            </span>
+          )}
+          <button
+            onClick={sceneCuts.isDetecting ? sceneCuts.stop : sceneCuts.detect}
+            disabled={!sceneCuts.canDetect}
+            className="px-2 py-1 rounded bg-black/50 text-gray-400 hover:text-white text-xs flex items-center gap-1 transition-colors disabled:opacity-50"
+            title="Detect scene cuts in video A (stored as timeline markers)"
+          >
+            {sceneCuts.isDetecting ? (
+              <>
+                <Loader2 size={12} className="animate-spin" />
+                {sceneCuts.progress.toFixed(0)}%
+              </>
+            ) : (
+              <>
+                <Film size={12} />
+                Shots
+              </>
+            )}
+          </button>
           <button
             onClick={togglePlay}
             className="p-1 rounded bg-black/50 text-gray-400 hover:text-white transition-colors"
@@ -395,6 +490,34 @@ export function TemporalDiffGraph({ videoARef, videoBRef, isVisible }: TemporalD
         />
       </div>
 
+      {/* SHOT-001: Per-shot averages */}
+      {shotDiffs.length > 0 && (
+        <div className="flex items-center gap-2 px-4 py-2 border-t border-gray-700 overflow-x-auto">
+          <span className="text-xs text-gray-500 whitespace-nowrap">Per shot:</span>
+          {shotDiffs.map(shot => (
+            <button
+              key={shot.index}
+              onClick={() => seek(shot.startTime)}
+              className={`px-2 py-0.5 rounded text-xs transition-colors whitespace-nowrap ${
+                shot.divergent
+                  ? 'bg-red-900/50 text-red-300 hover:bg-red-900'
+                  : 'bg-purple-900/40 text-purple-300 hover:bg-purple-900/70'
+              }`}
+              title={`${shot.startTime.toFixed(2)}s – ${shot.endTime.toFixed(2)}s`}
+            >
+              Shot {shot.index + 1}: {shot.samples > 0 ? shot.meanDiff.toFixed(1) : '—'}
+            </button>
+          ))}
+          <button
+            onClick={sceneCuts.clear}
+            className="px-2 py-0.5 text-xs text-gray-500 hover:text-white whitespace-nowrap"
+            title="Remove scene cut markers"
+          >
+            Clear cuts
+          </button>
+        </div>
+      )}
+
       {/* Peak list */}
       {peaks.length > 0 && (
         <div className="flex items-center gap-2 px-4 py-2 border-t border-gray-700 overflow-x-auto">
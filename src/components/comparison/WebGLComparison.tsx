@@ -5,6 +5,9 @@
  * WEBGL-002: Color Legend / Scale Bar
  * WEBGL-007: Zoom and Pan
  * WEBGL-008: A/B Flip Toggle
+ * METRICS-003: FLIP perceptual error map and score
+ * ARTIFACT-001: Per-side blockiness, banding and ringing scores
+ * COLOR-001: Analyses the colour-graded frames of each side
  */
 
 import { useEffect, useRef, useCallback, useState, useMemo } from 'react'
@@ -12,20 +15,51 @@ import { useProjectStore } from '../../stores/projectStore'
 import { useMediaStore } from '../../stores/mediaStore'
 import { useTimelineStore } from '../../stores/timelineStore'
 import { usePlaybackStore } from '../../stores/playbackStore'
+import { useLUTStore } from '../../stores/lutStore'
 import { WebGLComparisonRenderer } from '../../lib/webgl/WebGLComparisonRenderer'
+import { ColorGradeRenderer, type GradeSource } from '../../lib/webgl/ColorGradeRenderer'
+import { isIdentityGrade, type CubeLUT } from '../../lib/colorGrade'
 import { getComparisonModeInfo } from '../../lib/webgl/comparison-shaders'
 import { useOptimizedClipSync } from '../../hooks/useOptimizedVideoSync'
-import { computeMetricsFromWebGLCanvas } from '../../lib/webgl/metricsComputation'
-import { BarChart3, Ruler, FlipHorizontal, ZoomIn, ZoomOut, RotateCcw, Crosshair, Camera, Copy, Scan, X, LineChart, FileText, Palette, AlertTriangle, Activity, Image, Video } from 'lucide-react'
-import type { ROIRect } from '../../types'
+import { runMetricsJob, captureFramePair, captureHDRSides, captureSequenceFrame, isAbortError } from '../../lib/metricsWorkerPool'
+import { QUALITY_METRICS, FLIP_DEFAULT_PPD } from '../../lib/metrics'
+import { getAnalysisSampleSize } from '../../lib/webgl/metricsComputation'
+import { getHDRImage } from '../../lib/hdrImage'
+import { getHighBitDepthImage } from '../../lib/highBitDepthImage'
+import { HDR_DISPLAY_DEFAULTS } from '../../lib/hdrDisplay'
+import { BarChart3, Settings2, Ruler, FlipHorizontal, ZoomIn, ZoomOut, RotateCcw, Crosshair, Camera, Copy, Scan, X, LineChart, FileText, Palette, AlertTriangle, Activity, Image, Video, Brush } from 'lucide-react'
+import type { ROIRect, QualityMetricId, ArtifactScores, NoReferenceScores, MaskRegionMetrics, ColorGrade } from '../../types'
 import { TemporalDiffGraph } from './TemporalDiffGraph'
 import { WebGLSplitView, SplitViewToggle } from './WebGLSplitView'
 import { WebGLPresetsPanel, PresetsToggle } from './WebGLPresetsPanel'
 import { BatchComparison, BatchComparisonToggle } from './BatchComparison'
+import { QualityReportPanel, QualityReportToggle } from './QualityReportPanel'
 import { CustomShaderEditor, ShaderEditorToggle } from './CustomShaderEditor'
+import { MetricMaskEditor } from './MetricMaskEditor'
+import { HDRDisplayControls } from './HDRDisplayControls'
 import { generatePDFReport, downloadBlob, captureCanvasScreenshot } from '../../lib/screenshotExport'
 import { HistogramPanel, ColorWheelPanel, GamutWarningOverlay } from '../scopes'
 
+// METRICS-002: PSNR display helpers
+const formatPSNRValue = (value: number) => (Number.isFinite(value) ? `${value.toFixed(2)} dB` : '∞ dB')
+const getPSNRColorClass = (value: number) =>
+  !Number.isFinite(value) || value >= 40 ? 'text-green-400' : value >= 30 ? 'text-yellow-400' : 'text-red-400'
+
+// ARTIFACT-001: Overlay rows for the per-side artifact scores
+const ARTIFACT_ROWS: { key: keyof ArtifactScores; label: string; format: (v: number) => string }[] = [
+  { key: 'blockiness8', label: 'Block 8x8', format: v => v.toFixed(3) },
+  { key: 'blockiness16', label: 'Block 16x16', format: v => v.toFixed(3) },
+  { key: 'banding', label: 'Banding', format: v => `${(v * 100).toFixed(1)}%` },
+  { key: 'ringing', label: 'Ringing', format: v => v.toFixed(2) },
+]
+
+// METRICS-004: Overlay rows for the per-side no-reference scores
+const NO_REFERENCE_ROWS: { metric: QualityMetricId; key: keyof NoReferenceScores; label: string; higherIsBetter: boolean; format: (v: number) => string }[] = [
+  { metric: 'sharpness', key: 'sharpness', label: 'Sharpness', higherIsBetter: true, format: v => v.toFixed(0) },
+  { metric: 'noise', key: 'noiseSigma', label: 'Noise σ', higherIsBetter: false, format: v => v.toFixed(2) },
+  { metric: 'naturalness', key: 'naturalness', label: 'Naturalness', higherIsBetter: false, format: v => v.toFixed(3) },
+]
+
 export function WebGLComparison() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
@@ -37,6 +71,9 @@ export function WebGLComparison() {
   const animationRef = useRef<number>(0)
   const metricsTimerRef = useRef<number>(0)
   const lastMetricsTimeRef = useRef<number>(0)
+  // COLOR-001: Grade per stable side (a/b before flipAB) and its renderer
+  const gradesRef = useRef<Record<'a' | 'b', { grade?: ColorGrade; lut?: CubeLUT }>>({ a: {}, b: {} })
+  const gradersRef = useRef<Partial<Record<'a' | 'b', ColorGradeRenderer>>>({})
 
   const [mousePos, setMousePos] = useState({ x: 0.5, y: 0.5 })
   const [screenMousePos, setScreenMousePos] = useState({ x: 0, y: 0 })
@@ -66,6 +103,12 @@ export function WebGLComparison() {
   // WEBGL-013: Batch comparison visibility
   const [showBatchComparison, setShowBatchComparison] = useState(false)
 
+  // METRICS-001: Per-frame quality report visibility (only for videos)
+  const [showQualityReport, setShowQualityReport] = useState(false)
+
+  // METRICS-002: Metric selector in the metrics overlay
+  const [showMetricSelector, setShowMetricSelector] = useState(false)
+
   // WEBGL-014: Custom shader editor visibility
   const [showShaderEditor, setShowShaderEditor] = useState(false)
 
@@ -91,7 +134,10 @@ export function WebGLComparison() {
     resetWebGLZoom,
     setROI,
     clearROI,
-    toggleROIControls
+    toggleROIControls,
+    toggleMaskEditor,
+    enabledQualityMetrics,
+    toggleQualityMetric
   } = useProjectStore()
   const { addFile } = useMediaStore()
   const { tracks, addClip } = useTimelineStore()
@@ -136,6 +182,31 @@ export function WebGLComparison() {
   const mediaA = webglComparisonSettings.flipAB ? stableMediaB : stableMediaA
   const mediaB = webglComparisonSettings.flipAB ? stableMediaA : stableMediaB
 
+  // COLOR-001: Grades of the displayed clips, read by the render loop and metrics
+  const gradeA = displayClipA?.colorGrade
+  const gradeB = displayClipB?.colorGrade
+  const lutA = useLUTStore((state) => state.getLUT(gradeA?.lutId))
+  const lutB = useLUTStore((state) => state.getLUT(gradeB?.lutId))
+  useEffect(() => {
+    gradesRef.current = { a: { grade: gradeA, lut: lutA }, b: { grade: gradeB, lut: lutB } }
+  }, [gradeA, lutA, gradeB, lutB])
+
+  useEffect(() => {
+    const graders = gradersRef.current
+    return () => {
+      graders.a?.dispose()
+      graders.b?.dispose()
+    }
+  }, [])
+
+  // Source as graded for its stable side, or the source itself when ungraded
+  const gradeFrame = useCallback(<S extends GradeSource | ImageBitmap>(side: 'a' | 'b', source: S): S | HTMLCanvasElement => {
+    const { grade, lut } = gradesRef.current[side]
+    if (!grade || isIdentityGrade(grade, lut)) return source
+    gradersRef.current[side] ??= new ColorGradeRenderer()
+    return gradersRef.current[side].apply(source, grade, lut)
+  }, [])
+
   // Use the optimized clip sync hook for videos (respects play/pause state)
   useOptimizedClipSync(videoARef, activeClipA || firstClipA)
   useOptimizedClipSync(videoBRef, activeClipB || firstClipB)
@@ -310,21 +381,40 @@ export function WebGLComparison() {
     const imgLoadedA = flipAB ? imagesLoaded.b : imagesLoaded.a
     const imgLoadedB = flipAB ? imagesLoaded.a : imagesLoaded.b
 
+    // HDR-001: Decoded float pixels of HDR images (the <img> shows a preview)
+    const hdrImageA = mediaForA?.hdr ? getHDRImage(mediaForA.url) : null
+    const hdrImageB = mediaForB?.hdr ? getHDRImage(mediaForB.url) : null
+    // BITDEPTH-001: Decoded 16-bit samples (the <img> shows an 8-bit preview)
+    const highBitImageA = mediaForA?.highBitDepth ? getHighBitDepthImage(mediaForA.url) : null
+    const highBitImageB = mediaForB?.highBitDepth ? getHighBitDepthImage(mediaForB.url) : null
+
+    // COLOR-001: Stable sides feeding textures A and B (HDR and high-bit sides stay ungraded)
+    const sideA = flipAB ? 'b' : 'a'
+    const sideB = flipAB ? 'a' : 'b'
+
     // Update texture A
     if (mediaForA) {
       if (mediaForA.type === 'video' && textureASource && textureASource.readyState >= 2 && readyA) {
-        renderer.updateTexture('A', textureASource)
+        renderer.updateTexture('A', gradeFrame(sideA, textureASource))
+      } else if (hdrImageA) {
+        renderer.updateHDRTexture('A', hdrImageA)
+      } else if (highBitImageA) {
+        renderer.updateHighBitDepthTexture('A', highBitImageA)
       } else if (mediaForA.type === 'image' && imgASource && imgLoadedA) {
-        renderer.updateTexture('A', imgASource)
+        renderer.updateTexture('A', gradeFrame(sideA, imgASource))
       }
     }
 
     // Update texture B
     if (mediaForB) {
       if (mediaForB.type === 'video' && textureBSource && textureBSource.readyState >= 2 && readyB) {
-        renderer.updateTexture('B', textureBSource)
+        renderer.updateTexture('B', gradeFrame(sideB, textureBSource))
+      } else if (hdrImageB) {
+        renderer.updateHDRTexture('B', hdrImageB)
+      } else if (highBitImageB) {
+        renderer.updateHighBitDepthTexture('B', highBitImageB)
       } else if (mediaForB.type === 'image' && imgBSource && imgLoadedB) {
-        renderer.updateTexture('B', imgBSource)
+        renderer.updateTexture('B', gradeFrame(sideB, imgBSource))
       }
     }
 
@@ -363,6 +453,10 @@ export function WebGLComparison() {
       loupeSize: settings.loupeSize,
       loupeZoom: settings.loupeZoom,
       checkerSize: settings.checkerSize,
+      pixelsPerDegree: settings.flipPixelsPerDegree ?? FLIP_DEFAULT_PPD,
+      hdrExposure: settings.hdrExposure ?? HDR_DISPLAY_DEFAULTS.exposure,
+      hdrGamma: settings.hdrGamma ?? HDR_DISPLAY_DEFAULTS.gamma,
+      hdrToneMap: settings.hdrToneMap ?? HDR_DISPLAY_DEFAULTS.toneMap,
       mouseX: mousePos.x,
       mouseY: mousePos.y,
       textureAWidth,
@@ -373,7 +467,7 @@ export function WebGLComparison() {
 
     // Continue animation loop
     animationRef.current = requestAnimationFrame(render)
-  }, [stableMediaA, stableMediaB, mousePos, imagesLoaded, videosReady])
+  }, [stableMediaA, stableMediaB, mousePos, imagesLoaded, videosReady, gradeFrame])
 
   // Start render loop
   useEffect(() => {
@@ -388,15 +482,19 @@ export function WebGLComparison() {
 
   // WEBGL-001: Compute metrics periodically (every 500ms)
   // Uses stable media sources and respects flipAB for correct A/B mapping
+  // WORKER-001: Computed in the metrics worker pool, one update in flight at a time
   useEffect(() => {
     if (!webglComparisonSettings.showMetricsOverlay) {
       return
     }
 
+    const controller = new AbortController()
+    let inFlight = false
+
     const computeMetrics = () => {
       const now = Date.now()
       // Only compute every 500ms to avoid performance issues
-      if (now - lastMetricsTimeRef.current < 500) {
+      if (inFlight || now - lastMetricsTimeRef.current < 500) {
         metricsTimerRef.current = requestAnimationFrame(computeMetrics)
         return
       }
@@ -431,19 +529,83 @@ export function WebGLComparison() {
       }
 
       if (sourceA && sourceB && rendererRef.current) {
-        const gl = (rendererRef.current as unknown as { gl: WebGLRenderingContext | null }).gl
-        if (gl) {
-          const metrics = computeMetricsFromWebGLCanvas(
-            gl,
-            canvasRef.current?.width || 640,
-            canvasRef.current?.height || 480,
-            sourceA,
-            sourceB,
-            Math.round(webglComparisonSettings.threshold * 255),
-            webglComparisonSettings.roi // WEBGL-004: Pass ROI for localized metrics
+        const width = canvasRef.current?.width || 640
+        const height = canvasRef.current?.height || 480
+        const frameSourceA = sourceA
+        const frameSourceB = sourceB
+        inFlight = true
+
+        // HDR-001: Linear float metrics when either side is an HDR image
+        const hdrImageA = mediaForA?.hdr ? getHDRImage(mediaForA.url) : null
+        const hdrImageB = mediaForB?.hdr ? getHDRImage(mediaForB.url) : null
+
+        const runHDR = async () => {
+          const { sampleWidth, sampleHeight } = getAnalysisSampleSize(width, height)
+          const sides = await captureHDRSides(
+            frameSourceA, hdrImageA, frameSourceB, hdrImageB,
+            sampleWidth, sampleHeight, webglComparisonSettings.roi, true
           )
-          setWebGLAnalysisMetrics(metrics)
+          if (!sides) return
+          const metrics = await runMetricsJob({
+            kind: 'hdr-analysis',
+            sideA: sides[0],
+            sideB: sides[1],
+            sampleWidth,
+            sampleHeight,
+            display: {
+              exposure: webglComparisonSettings.hdrExposure ?? HDR_DISPLAY_DEFAULTS.exposure,
+              gamma: webglComparisonSettings.hdrGamma ?? HDR_DISPLAY_DEFAULTS.gamma,
+              toneMap: webglComparisonSettings.hdrToneMap ?? HDR_DISPLAY_DEFAULTS.toneMap,
+            },
+            threshold: Math.round(webglComparisonSettings.threshold * 255),
+            roi: webglComparisonSettings.roi,
+            // METRICS-003: Viewing condition scaled from display to sample pixels
+            pixelsPerDegree: (webglComparisonSettings.flipPixelsPerDegree ?? FLIP_DEFAULT_PPD) * (sampleWidth / width),
+            mask: webglComparisonSettings.metricMask,
+            scoreSides: true,
+          }, controller.signal)
+          if (metrics) setWebGLAnalysisMetrics(metrics)
+        }
+
+        const run = async () => {
+          // SEQ-001: Image sequences are scored (and graded) from their decoded source frames
+          const [sequenceA, sequenceB] = await Promise.all([
+            captureSequenceFrame(frameSourceA),
+            captureSequenceFrame(frameSourceB),
+          ])
+          try {
+            if (hdrImageA || hdrImageB || sequenceA?.hdr || sequenceB?.hdr) return await runHDR()
+            // COLOR-001: Captured synchronously, before the render loop redraws the graders
+            const frames = await captureFramePair(
+              gradeFrame(flipAB ? 'b' : 'a', sequenceA?.frame ?? frameSourceA),
+              gradeFrame(flipAB ? 'a' : 'b', sequenceB?.frame ?? frameSourceB)
+            )
+            if (!frames) return
+            const metrics = await runMetricsJob({
+              kind: 'analysis',
+              frameA: frames[0],
+              frameB: frames[1],
+              width,
+              height,
+              threshold: Math.round(webglComparisonSettings.threshold * 255),
+              roi: webglComparisonSettings.roi, // WEBGL-004: Pass ROI for localized metrics
+              pixelsPerDegree: webglComparisonSettings.flipPixelsPerDegree ?? FLIP_DEFAULT_PPD,
+              mask: webglComparisonSettings.metricMask, // MASK-001: Restrict metrics to the painted mask
+            }, controller.signal)
+            setWebGLAnalysisMetrics(metrics)
+          } finally {
+            sequenceA?.frame.close()
+            sequenceB?.frame.close()
+          }
         }
+
+        run()
+          .catch(err => {
+            if (!isAbortError(err)) console.error('Metrics update failed:', err)
+          })
+          .finally(() => {
+            inFlight = false
+          })
       }
 
       metricsTimerRef.current = requestAnimationFrame(computeMetrics)
@@ -452,11 +614,12 @@ export function WebGLComparison() {
     metricsTimerRef.current = requestAnimationFrame(computeMetrics)
 
     return () => {
+      controller.abort()
       if (metricsTimerRef.current) {
         cancelAnimationFrame(metricsTimerRef.current)
       }
     }
-  }, [webglComparisonSettings.showMetricsOverlay, webglComparisonSettings.threshold, webglComparisonSettings.roi, stableMediaA, stableMediaB, imagesLoaded, setWebGLAnalysisMetrics])
+  }, [webglComparisonSettings.showMetricsOverlay, webglComparisonSettings.threshold, webglComparisonSettings.roi, webglComparisonSettings.metricMask, webglComparisonSettings.flipPixelsPerDegree, webglComparisonSettings.hdrExposure, webglComparisonSettings.hdrGamma, webglComparisonSettings.hdrToneMap, stableMediaA, stableMediaB, imagesLoaded, setWebGLAnalysisMetrics, gradeFrame])
 
   // Handle mouse move for interactive modes
   const handleMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
@@ -637,7 +800,7 @@ export function WebGLComparison() {
     if (webglComparisonSettings.showMetricsOverlay && webglAnalysisMetrics) {
       const metricsX = width - 200 * scale
       ctx.fillStyle = 'rgba(0, 0, 0, 0.8)'
-      ctx.fillRect(metricsX, 16 * scale, 180 * scale, 140 * scale)
+      ctx.fillRect(metricsX, 16 * scale, 180 * scale, 220 * scale)
 
       ctx.fillStyle = '#888888'
       ctx.font = `bold ${10 * scale}px system-ui`
@@ -646,7 +809,11 @@ export function WebGLComparison() {
       ctx.font = `${12 * scale}px monospace`
       const metrics = [
         { label: 'SSIM:', value: webglAnalysisMetrics.ssim.toFixed(4) },
+        { label: 'MS-SSIM:', value: webglAnalysisMetrics.msssim.toFixed(4) },
+        { label: 'PSNR:', value: formatPSNRValue(webglAnalysisMetrics.psnr) },
         { label: 'Delta E:', value: webglAnalysisMetrics.deltaE.toFixed(2) },
+        { label: 'ΔE00:', value: webglAnalysisMetrics.deltaE2000.toFixed(2) },
+        { label: 'FLIP:', value: webglAnalysisMetrics.flip.toFixed(4) },
         { label: 'Diff Pixels:', value: `${webglAnalysisMetrics.diffPixelPercent.toFixed(1)}%` },
         { label: 'Peak Diff:', value: webglAnalysisMetrics.peakDifference.toFixed(0) },
         { label: 'Mean Diff:', value: webglAnalysisMetrics.meanDifference.toFixed(1) }
@@ -968,20 +1135,164 @@ export function WebGLComparison() {
       {/* WEBGL-001: Metrics Overlay */}
       {webglComparisonSettings.showMetricsOverlay && webglAnalysisMetrics && (
         <div className="absolute top-4 right-4 bg-black/80 px-4 py-3 rounded text-sm font-mono">
-          <div className="text-gray-300 font-semibold mb-2 text-xs uppercase tracking-wider">Analysis Metrics</div>
-          <div className="space-y-1">
-            <div className="flex justify-between gap-4">
-              <span className="text-gray-400">SSIM:</span>
-              <span className={`font-medium ${webglAnalysisMetrics.ssim > 0.95 ? 'text-green-400' : webglAnalysisMetrics.ssim > 0.8 ? 'text-yellow-400' : 'text-red-400'}`}>
-                {webglAnalysisMetrics.ssim.toFixed(4)}
-              </span>
-            </div>
-            <div className="flex justify-between gap-4">
-              <span className="text-gray-400">Delta E:</span>
-              <span className={`font-medium ${webglAnalysisMetrics.deltaE < 1 ? 'text-green-400' : webglAnalysisMetrics.deltaE < 5 ? 'text-yellow-400' : 'text-red-400'}`}>
-                {webglAnalysisMetrics.deltaE.toFixed(2)}
-              </span>
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <span className="text-gray-300 font-semibold text-xs uppercase tracking-wider">Analysis Metrics</span>
+            {/* METRICS-002: Metric selector */}
+            <button
+              onClick={() => setShowMetricSelector(v => !v)}
+              className={`transition-colors ${showMetricSelector ? 'text-white' : 'text-gray-500 hover:text-white'}`}
+              title="Choose metrics"
+            >
+              <Settings2 size={12} />
+            </button>
+          </div>
+          {showMetricSelector && (
+            <div className="mb-2 pb-2 border-b border-gray-600 space-y-0.5">
+              {(Object.keys(QUALITY_METRICS) as QualityMetricId[]).map(metric => (
+                <label key={metric} className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer" title={QUALITY_METRICS[metric].description}>
+                  <input
+                    type="checkbox"
+                    checked={enabledQualityMetrics.includes(metric)}
+                    onChange={() => toggleQualityMetric(metric)}
+                  />
+                  {QUALITY_METRICS[metric].label}
+                </label>
+              ))}
             </div>
+          )}
+          <div className="space-y-1">
+            {enabledQualityMetrics.includes('ssim') && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-400">SSIM:</span>
+                <span className={`font-medium ${webglAnalysisMetrics.ssim > 0.95 ? 'text-green-400' : webglAnalysisMetrics.ssim > 0.8 ? 'text-yellow-400' : 'text-red-400'}`}>
+                  {webglAnalysisMetrics.ssim.toFixed(4)}
+                </span>
+              </div>
+            )}
+            {enabledQualityMetrics.includes('ms-ssim') && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-400">MS-SSIM:</span>
+                <span className={`font-medium ${webglAnalysisMetrics.msssim > 0.95 ? 'text-green-400' : webglAnalysisMetrics.msssim > 0.8 ? 'text-yellow-400' : 'text-red-400'}`}>
+                  {webglAnalysisMetrics.msssim.toFixed(4)}
+                </span>
+              </div>
+            )}
+            {enabledQualityMetrics.includes('psnr') && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-400">PSNR:</span>
+                <span className={`font-medium ${getPSNRColorClass(webglAnalysisMetrics.psnr)}`}>
+                  {formatPSNRValue(webglAnalysisMetrics.psnr)}
+                </span>
+              </div>
+            )}
+            {enabledQualityMetrics.includes('psnr-ycbcr') && (
+              <>
+                {(['y', 'cb', 'cr'] as const).map(channel => (
+                  <div key={channel} className="flex justify-between gap-4">
+                    <span className="text-gray-400">PSNR {channel === 'y' ? 'Y' : channel === 'cb' ? 'Cb' : 'Cr'}:</span>
+                    <span className={`font-medium ${getPSNRColorClass(webglAnalysisMetrics.psnrYCbCr[channel])}`}>
+                      {formatPSNRValue(webglAnalysisMetrics.psnrYCbCr[channel])}
+                    </span>
+                  </div>
+                ))}
+              </>
+            )}
+            {enabledQualityMetrics.includes('delta-e94') && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-400">Delta E:</span>
+                <span className={`font-medium ${webglAnalysisMetrics.deltaE < 1 ? 'text-green-400' : webglAnalysisMetrics.deltaE < 5 ? 'text-yellow-400' : 'text-red-400'}`}>
+                  {webglAnalysisMetrics.deltaE.toFixed(2)}
+                </span>
+              </div>
+            )}
+            {enabledQualityMetrics.includes('delta-e2000') && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-400">ΔE00:</span>
+                <span className={`font-medium ${webglAnalysisMetrics.deltaE2000 < 1 ? 'text-green-400' : webglAnalysisMetrics.deltaE2000 < 5 ? 'text-yellow-400' : 'text-red-400'}`}>
+                  {webglAnalysisMetrics.deltaE2000.toFixed(2)}
+                </span>
+              </div>
+            )}
+            {/* METRICS-003: Always shown while a FLIP map is displayed */}
+            {(enabledQualityMetrics.includes('flip') || webglComparisonSettings.mode.startsWith('perceptual-')) && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-400">FLIP:</span>
+                <span className={`font-medium ${webglAnalysisMetrics.flip < 0.05 ? 'text-green-400' : webglAnalysisMetrics.flip < 0.15 ? 'text-yellow-400' : 'text-red-400'}`}>
+                  {webglAnalysisMetrics.flip.toFixed(4)}
+                </span>
+              </div>
+            )}
+            {/* METRICS-004: No-reference scores for each side, better side highlighted */}
+            {webglAnalysisMetrics.noReferenceA && webglAnalysisMetrics.noReferenceB && NO_REFERENCE_ROWS.some(row => enabledQualityMetrics.includes(row.metric)) && (
+              <div className="border-t border-gray-600 mt-2 pt-2">
+                <div className="flex justify-between gap-4 text-gray-500">
+                  <span>No-reference</span>
+                  <span>A / B</span>
+                </div>
+                {NO_REFERENCE_ROWS.filter(row => enabledQualityMetrics.includes(row.metric)).map(({ key, label, higherIsBetter, format }) => {
+                  const a = webglAnalysisMetrics.noReferenceA![key]
+                  const b = webglAnalysisMetrics.noReferenceB![key]
+                  const better = a === b ? null : (a > b) === higherIsBetter ? 'a' : 'b'
+                  return (
+                    <div key={key} className="flex justify-between gap-4">
+                      <span className="text-gray-400">{label}:</span>
+                      <span className="font-medium">
+                        <span className={better === 'a' ? 'text-green-400' : 'text-gray-200'}>{format(a)}</span>
+                        <span className="text-gray-500"> / </span>
+                        <span className={better === 'b' ? 'text-green-400' : 'text-gray-200'}>{format(b)}</span>
+                      </span>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+            {/* ARTIFACT-001: No-reference scores for each side, worse side highlighted */}
+            {webglComparisonSettings.mode.startsWith('artifact-') && webglAnalysisMetrics.artifactsA && webglAnalysisMetrics.artifactsB && (
+              <div className="border-t border-gray-600 mt-2 pt-2">
+                <div className="flex justify-between gap-4 text-gray-500">
+                  <span>Artifacts</span>
+                  <span>A / B</span>
+                </div>
+                {ARTIFACT_ROWS.map(({ key, label, format }) => {
+                  const a = webglAnalysisMetrics.artifactsA![key]
+                  const b = webglAnalysisMetrics.artifactsB![key]
+                  return (
+                    <div key={key} className="flex justify-between gap-4">
+                      <span className="text-gray-400">{label}:</span>
+                      <span className="font-medium">
+                        <span className={a > b ? 'text-yellow-400' : 'text-gray-200'}>{format(a)}</span>
+                        <span className="text-gray-500"> / </span>
+                        <span className={b > a ? 'text-yellow-400' : 'text-gray-200'}>{format(b)}</span>
+                      </span>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+            {/* MASK-001: Inside vs outside the painted mask */}
+            {webglAnalysisMetrics.maskBreakdown && (
+              <div className="border-t border-gray-600 mt-2 pt-2">
+                <div className="flex justify-between gap-4 text-gray-500">
+                  <span>Mask ({(webglAnalysisMetrics.maskBreakdown.coverage * 100).toFixed(0)}%)</span>
+                  <span>In / Out</span>
+                </div>
+                {([
+                  { label: 'PSNR', format: (r: MaskRegionMetrics) => formatPSNRValue(r.psnr) },
+                  { label: 'MS-SSIM', format: (r: MaskRegionMetrics) => r.msssim.toFixed(4) },
+                  { label: 'ΔE00', format: (r: MaskRegionMetrics) => r.deltaE2000.toFixed(2) },
+                  { label: 'Mean Diff', format: (r: MaskRegionMetrics) => r.meanDifference.toFixed(1) },
+                ]).map(({ label, format }) => (
+                  <div key={label} className="flex justify-between gap-4">
+                    <span className="text-gray-400">{label}:</span>
+                    <span className="font-medium text-gray-200">
+                      <span className="text-cyan-400">{webglAnalysisMetrics.maskBreakdown!.inside ? format(webglAnalysisMetrics.maskBreakdown!.inside) : '---'}</span>
+                      <span className="text-gray-500"> / </span>
+                      {webglAnalysisMetrics.maskBreakdown!.outside ? format(webglAnalysisMetrics.maskBreakdown!.outside) : '---'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="flex justify-between gap-4">
               <span className="text-gray-400">Diff Pixels:</span>
               <span className={`font-medium ${webglAnalysisMetrics.diffPixelPercent < 1 ? 'text-green-400' : webglAnalysisMetrics.diffPixelPercent < 10 ? 'text-yellow-400' : 'text-red-400'}`}>
@@ -1123,6 +1434,9 @@ export function WebGLComparison() {
         </div>
       )}
 
+      {/* MASK-001: Painted metric mask (editor and preview) */}
+      <MetricMaskEditor />
+
       {/* WEBGL-004: ROI Drawing Mode Indicator */}
       {webglComparisonSettings.showROIControls && !webglComparisonSettings.roi && !tempROI && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
@@ -1179,6 +1493,15 @@ export function WebGLComparison() {
           </button>
         )}
 
+        {/* MASK-001: Paint metric mask */}
+        <button
+          onClick={toggleMaskEditor}
+          className={`p-2 rounded transition-colors ${webglComparisonSettings.showMaskEditor ? 'bg-[#ff5722] text-white' : 'bg-black/70 text-gray-400 hover:text-white'}`}
+          title="Paint Metric Mask (MASK-001)"
+        >
+          <Brush size={16} />
+        </button>
+
         {/* WEBGL-008: Flip A/B */}
         <button
           onClick={toggleWebGLFlipAB}
@@ -1263,6 +1586,8 @@ export function WebGLComparison() {
             >
               <LineChart size={16} />
             </button>
+            {/* METRICS-001: Per-frame Quality Report */}
+            <QualityReportToggle onClick={() => setShowQualityReport(true)} />
           </>
         )}
 
@@ -1297,6 +1622,9 @@ export function WebGLComparison() {
         </button>
       </div>
 
+      {/* HDR-001: Exposure / tone map / gamma for HDR images */}
+      <HDRDisplayControls mediaA={mediaA} mediaB={mediaB} />
+
       {/* Settings indicator */}
       <div className="absolute bottom-4 left-4 bg-black/70 px-3 py-1.5 rounded text-xs text-gray-400">
         Amp: {webglComparisonSettings.amplification}x |
@@ -1336,6 +1664,12 @@ export function WebGLComparison() {
         onClose={() => setShowBatchComparison(false)}
       />
 
+      {/* METRICS-001: Per-frame Quality Report */}
+      <QualityReportPanel
+        isOpen={showQualityReport}
+        onClose={() => setShowQualityReport(false)}
+      />
+
       {/* WEBGL-014: Custom Shader Editor */}
       <CustomShaderEditor
         isOpen={showShaderEditor}
@@ -25,3 +25,6 @@ export { CSVComparison } from './CSVComparison'
 export { ExcelComparison } from './ExcelComparison'
 export { DOCXComparison } from './DOCXComparison'
 export { PDFComparison } from './PDFComparison'
+export { PPTXComparison } from './PPTXComparison'
+// SUB-001: Subtitle comparison
+export { SubtitleComparison } from './SubtitleComparison'
@@ -34,6 +34,7 @@ const PROPERTY_GROUPS: Record<string, AnimatableProperty[]> = {
   Transform: ['positionX', 'positionY', 'scale', 'scaleX', 'scaleY', 'rotation'],
   Crop: ['cropTop', 'cropBottom', 'cropLeft', 'cropRight'],
   Effects: ['opacity', 'blur', 'brightness', 'contrast', 'saturation'],
+  Audio: ['volume'], // MIX-001
 }
 
 export function KeyframeEditor({ clipId, className }: KeyframeEditorProps) {
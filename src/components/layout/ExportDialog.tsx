@@ -4,6 +4,8 @@ import { useProjectStore } from '../../stores/projectStore'
 import { useMediaStore } from '../../stores/mediaStore'
 import { useTimelineStore } from '../../stores/timelineStore'
 import { usePlaybackStore } from '../../stores/playbackStore'
+import { useKeyframeStore } from '../../stores/keyframeStore'
+import { useLUTStore } from '../../stores/lutStore'
 import { X, Download, Loader2, Check, AlertCircle, Camera, FileText, Clipboard, Box, Sparkles, Film, Layers } from 'lucide-react'
 import { captureCanvasScreenshot, downloadBlob, generatePDFReport } from '../../lib/screenshotExport'
 import { downloadVideo } from '../../lib/sweepExport'
@@ -11,13 +13,17 @@ import { GIF_PRESETS } from '../../lib/gifEncoder'
 import { isWebCodecsSupported } from '../../lib/mp4Encoder'
 import { Muxer, ArrayBufferTarget } from 'mp4-muxer'
 import * as THREE from 'three'
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { getModelFormat, loadModel } from '../../lib/modelLoader'
 import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js'
 import { WebGLTransitionRenderer } from '../../lib/webgl/WebGLTransitionRenderer'
 import { getAllEngines, getAllVariants, getShader, getTotalShaderCount } from '../../lib/webgl/shaders'
 import { exportStitchedVideo, downloadStitchedVideo, getTrackExportInfo, type StitchExportProgress } from '../../lib/stitchExport'
-import type { ExportSource, SweepStyle, TransitionEngine, TransitionExportMode } from '../../types'
+import type { ExportSource, SweepStyle, TransitionEngine, TransitionExportMode, MediaFile, TimelineClip } from '../../types'
 import { formatTime } from '../../lib/utils'
+import { drawTextElements, filterRenderableTextElements } from '../../lib/textOverlay'
+import { MIX_MUXER_AUDIO, encodeMixToMuxer, prepareExportMix } from '../../lib/audioMix'
+import { ColorGradeRenderer, type GradeSource } from '../../lib/webgl/ColorGradeRenderer'
+import { isIdentityGrade } from '../../lib/colorGrade'
 
 type ExportMode = 'video' | 'screenshot' | 'pdf' | '3d' | 'transition' | 'stitch'
 
@@ -35,6 +41,23 @@ function formatFileSize(bytes: number): string {
   return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`
 }
 
+// COLOR-001: Draws one side's frames through its clip's colour grade
+interface ExportGrader {
+  apply: (source: GradeSource) => GradeSource
+  dispose: () => void
+}
+
+function createExportGrader(clip: TimelineClip | undefined): ExportGrader {
+  const grade = clip?.colorGrade
+  const lut = useLUTStore.getState().getLUT(grade?.lutId)
+  // Ungraded clips draw their media directly, without a WebGL context
+  const renderer = grade && !isIdentityGrade(grade, lut) ? new ColorGradeRenderer() : null
+  return {
+    apply: (source) => renderer ? renderer.apply(source, grade, lut) : source,
+    dispose: () => renderer?.dispose(),
+  }
+}
+
 export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps) {
   const { exportSettings, setExportSettings, exportProgress, setExportProgress, comparisonMode, metricsSSIM, metricsPSNR, setSliderPosition } = useProjectStore()
   const [exportMode, setExportMode] = useState<ExportMode>('video')
@@ -73,6 +96,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
   const [stitchResolution, setStitchResolution] = useState<'720p' | '1080p' | '4k'>('1080p')
   const [stitchQuality, setStitchQuality] = useState<'low' | 'medium' | 'high'>('medium')
   const [stitchFps, setStitchFps] = useState<24 | 30 | 60>(30)
+  const [stitchIncludeAudio, setStitchIncludeAudio] = useState(true) // MIX-001
   const [stitchProgress, setStitchProgress] = useState<StitchExportProgress>({
     status: 'idle',
     progress: 0,
@@ -81,7 +105,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
     totalClips: 0,
   })
   const { getFile } = useMediaStore()
-  const { tracks, duration } = useTimelineStore()
+  const { tracks, duration, textElements } = useTimelineStore()
   const { setExporting } = usePlaybackStore()
 
   // Get video elements from the DOM using data-track attributes
@@ -112,6 +136,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
     setExporting(true) // Disable sync hooks during export
     setError(null)
     setProgress(0)
+    const graders: ExportGrader[] = []
 
     try {
       // Get video/image elements using data-track attributes
@@ -133,6 +158,9 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       const clipB = trackB?.clips[0]
       const fileA = clipA ? getFile(clipA.mediaId) : null
       const fileB = clipB ? getFile(clipB.mediaId) : null
+      const graderA = createExportGrader(clipA)
+      const graderB = createExportGrader(clipB)
+      graders.push(graderA, graderB)
       const loopDuration = Math.max(fileA?.duration || duration, fileB?.duration || duration, 1)
 
       // Create canvas for rendering
@@ -141,6 +169,15 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       captureCanvas.height = 1080
       const ctx = captureCanvas.getContext('2d')!
 
+      // TEXT-001: Burn text track elements into every frame at its timeline time
+      const burnInElements = exportSettings.burnInText ? filterRenderableTextElements(textElements, tracks) : []
+      const drawText = (time: number) => drawTextElements(ctx, burnInElements, time, 1920, 1080)
+
+      // MIX-001: Timeline audio mix for MP4 exports (null: write video only)
+      const prepareMix = (end: number) => exportSettings.includeAudio
+        ? prepareExportMix({ tracks, getFile, clipKeyframes: useKeyframeStore.getState().clipKeyframes }, [[0, end]])
+        : Promise.resolve(null)
+
       setExportProgress({ status: 'encoding', progress: 0, message: 'Recording sweep...' })
 
       // Generate random parameters for spotlight animation (once per export)
@@ -161,20 +198,22 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       const drawSweepFrame = (progress: number, style: SweepStyle) => {
         const width = 1920
         const height = 1080
+        const frameA = mediaA && graderA.apply(mediaA)
+        const frameB = mediaB && graderB.apply(mediaB)
 
         // Clear canvas
         ctx.fillStyle = '#000'
         ctx.fillRect(0, 0, width, height)
 
         // Draw media B as background
-        if (mediaB) {
+        if (frameB) {
           try {
-            ctx.drawImage(mediaB, 0, 0, width, height)
+            ctx.drawImage(frameB, 0, 0, width, height)
           } catch {}
         }
 
         // Draw media A with different clip shapes based on sweep style
-        if (mediaA) {
+        if (frameA) {
           ctx.save()
           ctx.beginPath()
 
@@ -184,7 +223,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
               const sliderX = (progress / 100) * width
               ctx.rect(0, 0, sliderX, height)
               ctx.clip()
-              try { ctx.drawImage(mediaA, 0, 0, width, height) } catch {}
+              try { ctx.drawImage(frameA, 0, 0, width, height) } catch {}
               ctx.restore()
               // Draw slider line
               ctx.fillStyle = '#ffffff'
@@ -197,7 +236,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
               const sliderY = (progress / 100) * height
               ctx.rect(0, 0, width, sliderY)
               ctx.clip()
-              try { ctx.drawImage(mediaA, 0, 0, width, height) } catch {}
+              try { ctx.drawImage(frameA, 0, 0, width, height) } catch {}
               ctx.restore()
               // Draw slider line
               ctx.fillStyle = '#ffffff'
@@ -215,7 +254,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
               ctx.lineTo(-width, 0)
               ctx.closePath()
               ctx.clip()
-              try { ctx.drawImage(mediaA, 0, 0, width, height) } catch {}
+              try { ctx.drawImage(frameA, 0, 0, width, height) } catch {}
               ctx.restore()
               // Draw diagonal line
               ctx.strokeStyle = '#ffffff'
@@ -235,7 +274,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
               const centerY = height / 2
               ctx.arc(centerX, centerY, radius, 0, Math.PI * 2)
               ctx.clip()
-              try { ctx.drawImage(mediaA, 0, 0, width, height) } catch {}
+              try { ctx.drawImage(frameA, 0, 0, width, height) } catch {}
               ctx.restore()
               // Draw circle outline
               ctx.strokeStyle = '#ffffff'
@@ -256,7 +295,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
               const rectY = (height - rectH) / 2
               ctx.rect(rectX, rectY, rectW, rectH)
               ctx.clip()
-              try { ctx.drawImage(mediaA, 0, 0, width, height) } catch {}
+              try { ctx.drawImage(frameA, 0, 0, width, height) } catch {}
               ctx.restore()
               // Draw rectangle outline
               ctx.strokeStyle = '#ffffff'
@@ -301,7 +340,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
 
               ctx.rect(rectX, rectY, rectW, rectH)
               ctx.clip()
-              try { ctx.drawImage(mediaA, 0, 0, width, height) } catch {}
+              try { ctx.drawImage(frameA, 0, 0, width, height) } catch {}
               ctx.restore()
               // Draw rectangle outline
               ctx.strokeStyle = '#ffffff'
@@ -344,7 +383,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
 
               ctx.arc(centerX, centerY, circleRadius, 0, Math.PI * 2)
               ctx.clip()
-              try { ctx.drawImage(mediaA, 0, 0, width, height) } catch {}
+              try { ctx.drawImage(frameA, 0, 0, width, height) } catch {}
               ctx.restore()
               // Draw circle outline
               ctx.strokeStyle = '#ffffff'
@@ -361,14 +400,14 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       }
 
       // Function to draw single media (for A-only or B-only export)
-      const drawSingleMedia = (media: HTMLVideoElement | HTMLImageElement | null) => {
+      const drawSingleMedia = (media: HTMLVideoElement | HTMLImageElement | null, grader: ExportGrader) => {
         const width = 1920
         const height = 1080
         ctx.fillStyle = '#000'
         ctx.fillRect(0, 0, width, height)
         if (media) {
           try {
-            ctx.drawImage(media, 0, 0, width, height)
+            ctx.drawImage(grader.apply(media), 0, 0, width, height)
           } catch {}
         }
       }
@@ -376,6 +415,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       // Handle A-only or B-only export (no sweep animation)
       if (exportSettings.exportSource === 'a-only' || exportSettings.exportSource === 'b-only') {
         const targetMedia = exportSettings.exportSource === 'a-only' ? mediaA : mediaB
+        const targetGrader = exportSettings.exportSource === 'a-only' ? graderA : graderB
         const targetVideo = exportSettings.exportSource === 'a-only' ? videoA : videoB
         const targetFile = exportSettings.exportSource === 'a-only' ? fileA : fileB
         const targetDuration = targetFile?.duration || duration || 1
@@ -399,9 +439,11 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
           // Pause and prepare for seeking
           if (targetVideo) targetVideo.pause()
 
+          const mix = await prepareMix(targetDuration)
           const muxer = new Muxer({
             target: new ArrayBufferTarget(),
             video: { codec: 'avc', width: 1920, height: 1080 },
+            ...(mix && { audio: MIX_MUXER_AUDIO }),
             fastStart: 'in-memory',
           })
 
@@ -438,7 +480,8 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
               })
             }
 
-            drawSingleMedia(targetMedia)
+            drawSingleMedia(targetMedia, targetGrader)
+            drawText(frameTime)
 
             const frame = new VideoFrame(captureCanvas, {
               timestamp: i * frameDuration,
@@ -457,6 +500,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
 
           await encoder.flush()
           encoder.close()
+          if (mix) await encodeMixToMuxer(mix, muxer, targetDuration)
           muxer.finalize()
 
           const { buffer } = muxer.target as ArrayBufferTarget
@@ -499,7 +543,8 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
               })
             }
 
-            drawSingleMedia(targetMedia)
+            drawSingleMedia(targetMedia, targetGrader)
+            drawText(frameTime)
             gifCtx.drawImage(captureCanvas, 0, 0, gifOptions.width, gifOptions.height)
             frames.push(gifCtx.getImageData(0, 0, gifOptions.width, gifOptions.height))
 
@@ -590,7 +635,8 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
             return
           }
 
-          drawSingleMedia(targetMedia)
+          drawSingleMedia(targetMedia, targetGrader)
+          drawText(elapsed / 1000)
           setProgress(Math.round(progressPct * 100))
           setExportProgress({ status: 'encoding', progress: Math.round(progressPct * 100), message: `Recording... ${Math.round(progressPct * 100)}%` })
           requestAnimationFrame(animateSingle)
@@ -673,6 +719,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
 
         // Draw the sweep frame directly to canvas (no React dependency)
         drawSweepFrame(sweepPos, exportSettings.sweepStyle)
+        drawText((elapsed % loopDurationMs) / 1000)
 
         // Also update UI slider for visual feedback (only for horizontal mode)
         if (exportSettings.sweepStyle === 'horizontal') {
@@ -722,6 +769,9 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
         if (videoA) videoA.pause()
         if (videoB) videoB.pause()
 
+        // MIX-001: One loop of the timeline mix, repeated with the video
+        const mix = await prepareMix(loopDuration)
+
         // Create muxer
         const muxer = new Muxer({
           target: new ArrayBufferTarget(),
@@ -730,6 +780,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
             width: 1920,
             height: 1080,
           },
+          ...(mix && { audio: MIX_MUXER_AUDIO }),
           fastStart: 'in-memory',
         })
 
@@ -783,6 +834,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
 
           // Draw the frame with current video positions
           drawSweepFrame(sweepPos, exportSettings.sweepStyle)
+          drawText(timeWithinLoop)
 
           // Create VideoFrame from canvas
           const frame = new VideoFrame(captureCanvas, {
@@ -810,6 +862,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
         setExportProgress({ status: 'encoding', progress: 95, message: 'Finalizing MP4...' })
         await encoder.flush()
         encoder.close()
+        if (mix) await encodeMixToMuxer(mix, muxer, totalExportDuration)
         muxer.finalize()
 
         const { buffer } = muxer.target as ArrayBufferTarget
@@ -875,6 +928,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
 
           // Draw the frame with current video positions
           drawSweepFrame(sweepPos, exportSettings.sweepStyle)
+          drawText(timeWithinLoop)
 
           // Scale down to GIF size
           gifCtx.drawImage(captureCanvas, 0, 0, gifOptions.width, gifOptions.height)
@@ -956,6 +1010,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       setError(message)
       setExportProgress({ status: 'error', progress: 0, message })
     } finally {
+      graders.forEach(grader => grader.dispose())
       setIsExporting(false)
       setExporting(false) // Re-enable sync hooks
       setSliderPosition(50) // Reset slider
@@ -964,6 +1019,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
 
   const handleScreenshotExport = async (copyToClipboard = false) => {
     setIsExportingScreenshot(true)
+    const graders: ExportGrader[] = []
     try {
       // Get resolution dimensions
       const resolutions = {
@@ -984,6 +1040,10 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
         throw new Error('No media to capture')
       }
 
+      const graderA = createExportGrader(tracks.find(t => t.type === 'a')?.clips[0])
+      const graderB = createExportGrader(tracks.find(t => t.type === 'b')?.clips[0])
+      graders.push(graderA, graderB)
+
       // Create canvas at target resolution
       const canvas = document.createElement('canvas')
       canvas.width = width
@@ -997,18 +1057,18 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       if (screenshotSource === 'a-only') {
         // Draw only media A
         if (mediaA) {
-          ctx.drawImage(mediaA, 0, 0, width, height)
+          ctx.drawImage(graderA.apply(mediaA), 0, 0, width, height)
         }
       } else if (screenshotSource === 'b-only') {
         // Draw only media B
         if (mediaB) {
-          ctx.drawImage(mediaB, 0, 0, width, height)
+          ctx.drawImage(graderB.apply(mediaB), 0, 0, width, height)
         }
       } else {
         // Comparison mode - draw with slider
         // Draw media B as background
         if (mediaB) {
-          ctx.drawImage(mediaB, 0, 0, width, height)
+          ctx.drawImage(graderB.apply(mediaB), 0, 0, width, height)
         }
 
         // Draw media A with clip based on slider position
@@ -1018,7 +1078,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
           ctx.beginPath()
           ctx.rect(0, 0, sliderX, height)
           ctx.clip()
-          ctx.drawImage(mediaA, 0, 0, width, height)
+          ctx.drawImage(graderA.apply(mediaA), 0, 0, width, height)
           ctx.restore()
 
           // Draw slider line
@@ -1062,6 +1122,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       console.error('Screenshot export failed:', err)
       setError(err instanceof Error ? err.message : 'Screenshot failed')
     } finally {
+      graders.forEach(grader => grader.dispose())
       setIsExportingScreenshot(false)
     }
   }
@@ -1162,7 +1223,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       setExportProgress({ status: 'encoding', progress: 0, message: 'Setting up 3D scene...' })
 
       // Helper to create a 3D scene for a model
-      const createScene = async (modelUrl: string) => {
+      const createScene = async (media: MediaFile) => {
         const scene = new THREE.Scene()
 
         // Flat dark grey background
@@ -1180,14 +1241,11 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
         dirLight2.position.set(-5, 5, -5)
         scene.add(dirLight2)
 
-        // Load the model
-        const loader = new GLTFLoader()
-        const gltf = await new Promise<any>((resolve, reject) => {
-          loader.load(modelUrl, resolve, undefined, reject)
-        })
+        // MODEL-001: Load the model in any supported format
+        const loaded = await loadModel(media.url, getModelFormat(media.name) ?? 'gltf', media.modelResources)
 
         // Use SkeletonUtils.clone for proper skinned mesh support (characters with bones)
-        const model = SkeletonUtils.clone(gltf.scene)
+        const model = SkeletonUtils.clone(loaded)
 
         // Calculate bounding box and center/scale model
         const box = new THREE.Box3().setFromObject(model)
@@ -1233,10 +1291,10 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       setExportProgress({ status: 'encoding', progress: 5, message: 'Loading 3D models...' })
 
       if (export3DSource === 'side-by-side' || export3DSource === 'a-only') {
-        if (modelAUrl) sceneA = await createScene(modelAUrl)
+        if (modelA && modelAUrl) sceneA = await createScene(modelA)
       }
       if (export3DSource === 'side-by-side' || export3DSource === 'b-only') {
-        if (modelBUrl) sceneB = await createScene(modelBUrl)
+        if (modelB && modelBUrl) sceneB = await createScene(modelB)
       }
 
       // Calculate total frames
@@ -1491,6 +1549,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
     setExporting(true)
     setError(null)
     setProgress(0)
+    const graders: ExportGrader[] = []
 
     try {
       // Get video/image elements
@@ -1518,6 +1577,9 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       const fileB = clipB ? getFile(clipB.mediaId) : null
       const durationA = fileA?.duration || 0
       const durationB = fileB?.duration || 0
+      const graderA = createExportGrader(clipA)
+      const graderB = createExportGrader(clipB)
+      graders.push(graderA, graderB)
 
       // Determine total export duration based on mode
       let totalDuration: number
@@ -1588,7 +1650,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       }
 
       // Helper to draw media to canvas
-      const drawToCanvas = (source: HTMLVideoElement | HTMLImageElement) => {
+      const drawToCanvas = (source: GradeSource) => {
         ctx.drawImage(source, 0, 0, width, height)
       }
 
@@ -1716,16 +1778,16 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
           // Render frame
           if (showA && showB && transitionProgress > 0 && transitionProgress < 1) {
             // WebGL transition
-            renderer.updateTexture('A', mediaA)
-            renderer.updateTexture('B', mediaB)
+            renderer.updateTexture('A', graderA.apply(mediaA))
+            renderer.updateTexture('B', graderB.apply(mediaB))
             renderer.render(transitionProgress, transitionIntensity, currentTime)
             ctx.drawImage(renderer.getCanvas(), 0, 0)
           } else if (showB && (!showA || transitionProgress >= 1)) {
             // Show B only
-            drawToCanvas(mediaB)
+            drawToCanvas(graderB.apply(mediaB))
           } else {
             // Show A only
-            drawToCanvas(mediaA)
+            drawToCanvas(graderA.apply(mediaA))
           }
 
           // Encode frame
@@ -1811,14 +1873,14 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
           if (showB && videoB) await seekVideoAndWait(videoB, timeB)
 
           if (showA && showB && transitionProgress > 0 && transitionProgress < 1) {
-            renderer.updateTexture('A', mediaA)
-            renderer.updateTexture('B', mediaB)
+            renderer.updateTexture('A', graderA.apply(mediaA))
+            renderer.updateTexture('B', graderB.apply(mediaB))
             renderer.render(transitionProgress, transitionIntensity, currentTime)
             ctx.drawImage(renderer.getCanvas(), 0, 0)
           } else if (showB && (!showA || transitionProgress >= 1)) {
-            drawToCanvas(mediaB)
+            drawToCanvas(graderB.apply(mediaB))
           } else {
-            drawToCanvas(mediaA)
+            drawToCanvas(graderA.apply(mediaA))
           }
 
           gifCtx.drawImage(captureCanvas, 0, 0, gifOptions.width, gifOptions.height)
@@ -1887,6 +1949,7 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
       setError(message)
       setExportProgress({ status: 'error', progress: 0, message })
     } finally {
+      graders.forEach(grader => grader.dispose())
       setIsExportingTransition(false)
       setExporting(false)
     }
@@ -2087,6 +2150,34 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
                 <span className="text-sm text-text-primary">Loop shorter video to match longer</span>
               </label>
 
+              {/* TEXT-001: Burn-in text tracks */}
+              {textElements.length > 0 && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={exportSettings.burnInText}
+                    onChange={(e) => setExportSettings({ burnInText: e.target.checked })}
+                    className="w-4 h-4 accent-accent"
+                  />
+                  <span className="text-sm text-text-primary">Burn in text tracks</span>
+                  <span className="text-xs text-text-muted">({textElements.length} captions/titles, muted tracks skipped)</span>
+                </label>
+              )}
+
+              {/* MIX-001: Timeline audio mix */}
+              {exportSettings.format === 'mp4' && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={exportSettings.includeAudio}
+                    onChange={(e) => setExportSettings({ includeAudio: e.target.checked })}
+                    className="w-4 h-4 accent-accent"
+                  />
+                  <span className="text-sm text-text-primary">Include audio mix</span>
+                  <span className="text-xs text-text-muted">(track volume, pan, solo, clip gain, fades and envelopes)</span>
+                </label>
+              )}
+
               {/* Sweep Settings for Comparison Export */}
               {exportSettings.exportSource === 'comparison' && (
                 <>
@@ -3130,6 +3221,18 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
                 </div>
               </div>
 
+              {/* MIX-001: Timeline audio mix under the stitched clips */}
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={stitchIncludeAudio}
+                  onChange={(e) => setStitchIncludeAudio(e.target.checked)}
+                  className="w-4 h-4 accent-accent"
+                />
+                <span className="text-sm text-text-primary">Include audio mix</span>
+                <span className="text-xs text-text-muted">(all tracks under each clip, with volume, pan and fades)</span>
+              </label>
+
               {/* Progress */}
               {stitchProgress.status === 'encoding' && (
                 <div className="p-4 bg-surface-alt border border-border space-y-3">
@@ -3209,9 +3312,11 @@ export function ExportDialog({ isOpen, onClose, canvasRef }: ExportDialogProps)
                           resolution: stitchResolution,
                           quality: stitchQuality,
                           fps: stitchFps,
-                          includeAudio: false,
+                          includeAudio: stitchIncludeAudio,
                         },
-                        setStitchProgress
+                        setStitchProgress,
+                        { tracks, getFile, clipKeyframes: useKeyframeStore.getState().clipKeyframes },
+                        useLUTStore.getState().getLUT
                       )
 
                       if (blob) {
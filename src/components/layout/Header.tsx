@@ -4,12 +4,14 @@ import { useProjectStore } from '../../stores/projectStore'
 import { useTimelineStore } from '../../stores/timelineStore'
 import { useHistoryStore } from '../../stores/historyStore'
 import { MetadataComparison } from './MetadataComparison'
+import { HistoryPanel } from './HistoryPanel'
 import {
   Play,
   Pause,
   Download,
   Undo2,
   Redo2,
+  History,
   Layers,
   SplitSquareHorizontal,
   Blend,
@@ -33,6 +35,8 @@ import {
   Shrink,
   // Document comparison icon
   FileSpreadsheet,
+  // SUB-001: Subtitle comparison icon
+  Captions,
 } from 'lucide-react'
 import type { ComparisonMode } from '../../types'
 
@@ -51,10 +55,11 @@ const mainModes: ModeConfig[] = [
   { mode: 'side-by-side', icon: Columns2, label: 'Side by Side', shortcut: '2', description: 'View both at once' },
   { mode: 'webgl-compare', icon: Microscope, label: 'Difference', shortcut: '3', description: 'Advanced difference analysis' },
   { mode: 'audio', icon: AudioLines, label: 'Audio', shortcut: '4', description: 'Compare waveforms' },
-  { mode: 'prompt-diff', icon: FileText, label: 'Prompt', shortcut: '5', description: 'Compare text/prompts' },
-  { mode: 'json-diff', icon: Braces, label: 'JSON', shortcut: '6', description: 'Compare JSON data' },
-  { mode: 'model-3d', icon: Box, label: '3D', shortcut: '7', description: 'Compare GLB/GLTF models' },
-  { mode: 'document', icon: FileSpreadsheet, label: 'Document', shortcut: '8', description: 'Compare CSV, Excel, DOCX, PDF' },
+  { mode: 'prompt-diff', icon: FileText, label: 'Prompt', shortcut: '5', description: 'Compare text, prompts and code' },
+  { mode: 'json-diff', icon: Braces, label: 'JSON', shortcut: '6', description: 'Compare JSON, YAML, TOML, XML' },
+  { mode: 'model-3d', icon: Box, label: '3D', shortcut: '7', description: 'Compare 3D models and point clouds' },
+  { mode: 'document', icon: FileSpreadsheet, label: 'Document', shortcut: '8', description: 'Compare CSV, Excel, DOCX, PDF, PPTX, ODT/ODS' },
+  { mode: 'subtitle', icon: Captions, label: 'Subtitles', shortcut: '9', description: 'Compare SRT, WebVTT, ASS cues' },
 ]
 
 // Additional modes in dropdown - grouped by use case (Law of Common Region)
@@ -97,7 +102,9 @@ export function Header({ onExport, onShowShortcuts, onToggleSidebar }: HeaderPro
   const { undo, redo, canUndo, canRedo } = useHistoryStore()
   const [showMoreMenu, setShowMoreMenu] = useState(false)
   const [showMobileMenu, setShowMobileMenu] = useState(false)
+  const [showHistory, setShowHistory] = useState(false) // HISTORY-001
   const menuRef = useRef<HTMLDivElement>(null)
+  const historyRef = useRef<HTMLDivElement>(null)
   const mobileMenuRef = useRef<HTMLDivElement>(null)
 
   // Close menu when clicking outside
@@ -109,6 +116,9 @@ export function Header({ onExport, onShowShortcuts, onToggleSidebar }: HeaderPro
       if (mobileMenuRef.current && !mobileMenuRef.current.contains(e.target as Node)) {
         setShowMobileMenu(false)
       }
+      if (historyRef.current && !historyRef.current.contains(e.target as Node)) {
+        setShowHistory(false)
+      }
     }
     document.addEventListener('mousedown', handleClickOutside)
     return () => document.removeEventListener('mousedown', handleClickOutside)
@@ -151,7 +161,7 @@ export function Header({ onExport, onShowShortcuts, onToggleSidebar }: HeaderPro
 
           <div className="h-5 w-px bg-border hide-mobile" />
 
-          <div className="flex items-center gap-0.5 hide-mobile">
+          <div className="relative flex items-center gap-0.5 hide-mobile" ref={historyRef}>
             <Button
               variant="ghost"
               size="icon"
@@ -172,6 +182,17 @@ export function Header({ onExport, onShowShortcuts, onToggleSidebar }: HeaderPro
             >
               <Redo2 className="w-3.5 h-3.5" />
             </Button>
+            {/* HISTORY-001: Undo history panel */}
+            <Button
+              variant={showHistory ? 'secondary' : 'ghost'}
+              size="icon"
+              title="History"
+              onClick={() => setShowHistory(!showHistory)}
+              className="w-7 h-7"
+            >
+              <History className="w-3.5 h-3.5" />
+            </Button>
+            {showHistory && <HistoryPanel onClose={() => setShowHistory(false)} />}
           </div>
         </div>
 
@@ -0,0 +1,85 @@
+/**
+ * HISTORY-001: Undo history dropdown
+ * Lists every recorded change across the timeline, keyframes, comparison
+ * settings and media; click an entry to return to the state after it
+ */
+import { useHistoryStore, type HistoryEntry } from '../../stores/historyStore'
+import { Circle, Trash2 } from 'lucide-react'
+
+const DOMAIN_LABELS: Record<string, string> = {
+  timeline: 'Timeline',
+  keyframes: 'Keyframes',
+  project: 'Settings',
+  media: 'Media',
+}
+
+function describeDomains(entry: HistoryEntry) {
+  return [...new Set(entry.patches.map(patch => DOMAIN_LABELS[patch.domain]))].join(' · ')
+}
+
+interface HistoryPanelProps {
+  onClose: () => void
+}
+
+export function HistoryPanel({ onClose }: HistoryPanelProps) {
+  const past = useHistoryStore((state) => state.past)
+  const future = useHistoryStore((state) => state.future)
+  const jumpTo = useHistoryStore((state) => state.jumpTo)
+  const clear = useHistoryStore((state) => state.clear)
+
+  const currentId = past[past.length - 1]?.id ?? null
+  // Newest first
+  const entries = [...past, ...future].reverse()
+
+  const renderRow = (entry: HistoryEntry | null, undone: boolean) => {
+    const id = entry?.id ?? null
+    const isCurrent = id === currentId
+    return (
+      <button
+        key={id ?? 'initial'}
+        onClick={() => jumpTo(id)}
+        className={`w-full px-3 py-1.5 flex items-center gap-2 text-left transition-colors hover:bg-surface-hover ${
+          isCurrent ? 'bg-accent/10 text-accent' : undone ? 'text-text-muted opacity-50' : 'text-text-primary'
+        }`}
+        title={undone ? 'Redo to here' : 'Undo to here'}
+      >
+        <Circle className={`w-2 h-2 flex-shrink-0 ${isCurrent ? 'fill-current' : ''}`} />
+        <span className="text-xs flex-1 truncate">{entry ? entry.label : 'Initial state'}</span>
+        {entry && (
+          <span className="text-[9px] text-text-muted flex-shrink-0">
+            {describeDomains(entry)} · {new Date(entry.timestamp).toLocaleTimeString()}
+          </span>
+        )}
+      </button>
+    )
+  }
+
+  return (
+    <div className="absolute top-full left-0 mt-2 w-80 bg-surface border border-border shadow-2xl z-50 py-2 animate-slide-down">
+      <div className="px-3 py-2 border-b border-border mb-1 flex items-center justify-between">
+        <div>
+          <div className="text-[10px] uppercase tracking-wider text-accent font-semibold">History</div>
+          <div className="text-[9px] text-text-muted mt-0.5">
+            {past.length} step{past.length === 1 ? '' : 's'} to undo, {future.length} to redo
+          </div>
+        </div>
+        <button
+          onClick={() => {
+            clear()
+            onClose()
+          }}
+          disabled={entries.length === 0}
+          className="flex items-center gap-1 px-2 py-1 text-[10px] text-text-muted hover:text-error disabled:opacity-40 disabled:hover:text-text-muted"
+          title="Forget all history (the current state is kept)"
+        >
+          <Trash2 className="w-3 h-3" />
+          Clear
+        </button>
+      </div>
+      <div className="max-h-80 overflow-y-auto">
+        {entries.map(entry => renderRow(entry, future.includes(entry)))}
+        {renderRow(null, false)}
+      </div>
+    </div>
+  )
+}
@@ -325,9 +325,10 @@ interface SettingsPanelProps {
     loupeSize: number
     loupeZoom: number
     checkerSize: number
+    flipPixelsPerDegree: number
   }
   setWebGLComparisonMode: (mode: WebGLComparisonMode) => void
-  setWebGLComparisonSettings: (settings: Partial<{ amplification: number; threshold: number; blockSize: number; opacity: number; loupeSize: number; loupeZoom: number; checkerSize: number }>) => void
+  setWebGLComparisonSettings: (settings: Partial<{ amplification: number; threshold: number; blockSize: number; opacity: number; loupeSize: number; loupeZoom: number; checkerSize: number; flipPixelsPerDegree: number }>) => void
 }
 
 function SettingsPanel({
@@ -357,8 +358,9 @@ function SettingsPanel({
     flicker: 'Rapidly switches between A and B to spot differences',
     heatmap: 'Shows pixel-level differences as a heat map',
     'prompt-diff': 'Highlights text changes between prompts',
-    'json-diff': 'Compares JSON structures with syntax highlighting',
+    'json-diff': 'Compares JSON, YAML, TOML and XML structures as a tree',
     audio: 'Visualizes audio waveforms for comparison',
+    subtitle: 'Compares subtitle cues for timing and text changes',
   }
 
   return (
@@ -472,6 +474,19 @@ function SettingsPanel({
             />
           )}
 
+          {/* ARTIFACT-001: Coding grid for the blockiness map */}
+          {webglComparisonSettings.mode === 'artifact-blockiness' && (
+            <Select
+              label="Coding Grid"
+              value={webglComparisonSettings.blockSize < 12 ? '8' : '16'}
+              onChange={(e) => setWebGLComparisonSettings({ blockSize: Number(e.target.value) })}
+              options={[
+                { value: '8', label: '8x8 (JPEG, MPEG-2, H.264 transform)' },
+                { value: '16', label: '16x16 (macroblocks)' },
+              ]}
+            />
+          )}
+
           {/* Checker size for pro-checkerboard mode */}
           {webglComparisonSettings.mode === 'pro-checkerboard' && (
             <Slider
@@ -653,6 +668,31 @@ function SettingsPanel({
               </div>
             </div>
           )}
+
+          {/* METRICS-003: FLIP viewing condition */}
+          {webglComparisonSettings.mode.startsWith('perceptual-') && (
+            <>
+              <Select
+                label="Viewing Condition"
+                value={String(webglComparisonSettings.flipPixelsPerDegree ?? 67)}
+                onChange={(e) => setWebGLComparisonSettings({ flipPixelsPerDegree: Number(e.target.value) })}
+                options={[
+                  { value: '30', label: 'Far / small display (30 ppd)' },
+                  { value: '67', label: 'Desktop 4K at 0.7 m (67 ppd)' },
+                  { value: '100', label: 'Close inspection (100 ppd)' },
+                ]}
+              />
+              <Slider
+                label={`Pixels per degree: ${webglComparisonSettings.flipPixelsPerDegree ?? 67}`}
+                min={10}
+                max={120}
+                step={1}
+                value={webglComparisonSettings.flipPixelsPerDegree ?? 67}
+                onChange={(e) => setWebGLComparisonSettings({ flipPixelsPerDegree: Number(e.target.value) })}
+              />
+              <p className="text-[10px] text-text-muted">Higher = viewer further away relative to pixel size (fine detail matters less)</p>
+            </>
+          )}
         </div>
       )}
 
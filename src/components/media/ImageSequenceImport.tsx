@@ -0,0 +1,127 @@
+/**
+ * SEQ-001: Image Sequence Import
+ * Shown when a selection contains numbered frames. Each detected pattern
+ * can be edited (`frame_%04d.png`, `frame_####.png`) and is imported as one
+ * video clip at the chosen frame rate, or the files import as single images.
+ */
+
+import { useMemo, useState } from 'react'
+import { Film, X, AlertCircle } from 'lucide-react'
+import { Button } from '../ui'
+import { cn } from '../../lib/utils'
+import {
+  countMissingFrames,
+  matchSequenceFrames,
+  parseSequencePattern,
+  SEQUENCE_FRAME_RATES,
+  type ImageSequence,
+} from '../../lib/imageSequence'
+
+interface ImageSequenceImportProps {
+  files: File[]
+  sequences: ImageSequence[]
+  onImport: (sequences: ImageSequence[], frameRate: number) => void
+  onImportAsImages: () => void
+  onClose: () => void
+}
+
+export function ImageSequenceImport({ files, sequences, onImport, onImportAsImages, onClose }: ImageSequenceImportProps) {
+  const [patterns, setPatterns] = useState(() => sequences.map(s => s.pattern))
+  const [frameRate, setFrameRate] = useState(24)
+
+  // Re-match the whole selection whenever a pattern is edited
+  const matched = useMemo(
+    () => patterns.map(pattern => ({ pattern, frames: matchSequenceFrames(files, pattern) })),
+    [files, patterns]
+  )
+
+  const valid = frameRate > 0 && matched.every(s => s.frames.length > 0)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface border border-border p-6 w-full max-w-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-text-primary flex items-center gap-2">
+            <Film className="w-5 h-5" />
+            Import Image Sequence
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-surface-hover rounded"
+          >
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {matched.map(({ pattern, frames }, index) => {
+            const missing = countMissingFrames(frames)
+            const invalidPattern = !parseSequencePattern(pattern)
+            return (
+              <div key={index} className="space-y-1">
+                <label className="block text-sm text-text-secondary">
+                  Pattern
+                </label>
+                <input
+                  type="text"
+                  value={pattern}
+                  onChange={(e) => setPatterns(prev => prev.map((p, i) => (i === index ? e.target.value : p)))}
+                  className={cn(
+                    "w-full px-3 py-2 bg-background border rounded font-mono text-sm text-text-primary focus:outline-none focus:ring-1",
+                    frames.length === 0 ? "border-error focus:ring-error" : "border-border focus:ring-accent"
+                  )}
+                />
+                <p className={cn('text-xs', frames.length === 0 ? 'text-error' : 'text-text-muted')}>
+                  {invalidPattern
+                    ? 'Use %04d, %d or #### for the frame number'
+                    : frames.length === 0
+                      ? 'No files match this pattern'
+                      : `${frames.length} frames (${frames[0].number}–${frames[frames.length - 1].number})` +
+                        (missing > 0 ? ` • ${missing} missing, previous frame held` : '')}
+                </p>
+              </div>
+            )
+          })}
+
+          <div>
+            <label className="block text-sm text-text-secondary mb-1">
+              Frame rate
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={240}
+              step={0.001}
+              list="sequence-frame-rates"
+              value={frameRate}
+              onChange={(e) => setFrameRate(parseFloat(e.target.value) || 0)}
+              className="w-32 px-3 py-2 bg-background border border-border rounded text-text-primary focus:outline-none focus:ring-1 focus:ring-accent"
+            />
+            <datalist id="sequence-frame-rates">
+              {SEQUENCE_FRAME_RATES.map(rate => <option key={rate} value={rate} />)}
+            </datalist>
+            <p className="text-xs text-text-muted mt-1">
+              Frames are encoded to an MP4 clip that plays and syncs like a video
+            </p>
+          </div>
+
+          {matched.some(s => s.frames.some(f => /\.(exr|hdr)$/i.test(f.file.name))) && (
+            <div className="flex items-center gap-2 text-text-muted text-xs">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              HDR frames are tone-mapped with the default exposure and ACES curve
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onImportAsImages}>
+              Import as Images
+            </Button>
+            <Button onClick={() => onImport(matched, frameRate)} disabled={!valid}>
+              Import {matched.length > 1 ? `${matched.length} Sequences` : 'Sequence'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
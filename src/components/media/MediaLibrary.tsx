@@ -3,7 +3,7 @@ import type { DragEvent } from 'react'
 import { useMediaStore } from '../../stores/mediaStore'
 import { useTimelineStore } from '../../stores/timelineStore'
 import { cn, formatTime } from '../../lib/utils'
-import { Film, Image, Music, Trash2, Plus, Box, FileText, Layers, X, Search, Loader2, AlertCircle, RotateCcw, Clock } from 'lucide-react'
+import { Film, Image, Music, Trash2, Plus, Box, FileText, Layers, X, Search, Loader2, AlertCircle, RotateCcw, Clock, Captions } from 'lucide-react'
 import { Button } from '../ui'
 import type { MediaType, MediaStatus } from '../../types'
 
@@ -34,6 +34,7 @@ const FILTER_CONFIG: FilterConfig[] = [
   { type: 'audio', label: 'Audio', icon: <Music className="w-3 h-3" />, shortcut: '3' },
   { type: 'prompt', label: 'Text', icon: <FileText className="w-3 h-3" />, shortcut: '4' },
   { type: 'model', label: '3D', icon: <Box className="w-3 h-3" />, shortcut: '5' },
+  { type: 'subtitle', label: 'Subs', icon: <Captions className="w-3 h-3" />, shortcut: '6' },
 ]
 
 // MEDIA-012: Status indicator component
@@ -457,6 +458,7 @@ export function MediaLibrary() {
                     {file.type === 'image' && <Image className="w-5 h-5" />}
                     {file.type === 'audio' && <Music className="w-5 h-5" />}
                     {file.type === 'model' && <Box className="w-5 h-5" />}
+                    {file.type === 'subtitle' && <Captions className="w-5 h-5" />}
                   </div>
                 )}
                 {/* MEDIA-012: Error overlay */}
@@ -481,8 +483,14 @@ export function MediaLibrary() {
                   />
                 </div>
                 <div className="flex items-center gap-2 text-[10px] text-text-muted mt-0.5">
-                  <span className="capitalize">{file.type}</span>
+                  <span className="capitalize">{file.sequence ? 'sequence' : file.type}</span>
                   {file.duration && <span>{formatTime(file.duration)}</span>}
+                  {/* SEQ-001: Frame count and rate of image sequences */}
+                  {file.sequence && (
+                    <span title={file.sequence.pattern}>
+                      {file.sequence.frameCount}f @ {file.sequence.frameRate}fps
+                    </span>
+                  )}
                   {file.width && file.height && (
                     <span>
                       {file.width}x{file.height}
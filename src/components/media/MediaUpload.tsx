@@ -2,8 +2,13 @@ import { useCallback, useState, useEffect } from 'react'
 import { useMediaStore } from '../../stores/mediaStore'
 import { useTimelineStore } from '../../stores/timelineStore'
 import { cn } from '../../lib/utils'
-import { Upload, Film, Image, Music, AlertCircle, Link, Clipboard, Monitor, Box, FileSpreadsheet } from 'lucide-react'
+import { Upload, Film, Image, Music, AlertCircle, Link, Clipboard, Monitor, Box, FileSpreadsheet, FolderOpen, Captions } from 'lucide-react'
 import { URLImport } from './URLImport'
+import { ImageSequenceImport } from './ImageSequenceImport'
+import { detectImageSequences, type ImageSequence } from '../../lib/imageSequence'
+import { groupModelCompanions, isModelFileName, MODEL_ACCEPT } from '../../lib/modelLoader'
+import { isSubtitleFileName, SUBTITLE_ACCEPT } from '../../lib/subtitleParser'
+import { getDocumentType } from '../../lib/documentParser'
 import { captureScreenAsFile, isScreenCaptureSupported } from '../../lib/screenCapture'
 
 interface MediaUploadProps {
@@ -11,6 +16,15 @@ interface MediaUploadProps {
   onUpload?: () => void
 }
 
+type TargetTrack = 'a' | 'b' | 'auto'
+
+// SEQ-001: How numbered frames in a selection are imported (no sequences =
+// every file on its own)
+interface SequenceChoice {
+  sequences: ImageSequence[]
+  frameRate: number
+}
+
 export function MediaUpload({ className, onUpload }: MediaUploadProps) {
   const [isDragOverA, setIsDragOverA] = useState(false)
   const [isDragOverB, setIsDragOverB] = useState(false)
@@ -20,9 +34,15 @@ export function MediaUpload({ className, onUpload }: MediaUploadProps) {
   const [error, setError] = useState<string | null>(null)
   const [isURLImportOpen, setIsURLImportOpen] = useState(false)
   const [isCapturing, setIsCapturing] = useState(false)
+  // SEQ-001: Selection waiting for the sequence import dialog
+  const [pendingSequences, setPendingSequences] = useState<{
+    files: File[]
+    sequences: ImageSequence[]
+    targetTrack: TargetTrack
+  } | null>(null)
 
-  const { addFile } = useMediaStore()
-  const { addClip, tracks } = useTimelineStore()
+  const { addFile, addImageSequence } = useMediaStore()
+  const { addClip, addTrack, tracks } = useTimelineStore()
 
   // Clipboard paste handler (IMPORT-002)
   useEffect(() => {
@@ -72,8 +92,26 @@ export function MediaUpload({ className, onUpload }: MediaUploadProps) {
 
   // Handle files with optional target track ('a', 'b', or 'auto' for alternating)
   const handleFiles = useCallback(
-    async (files: FileList | null, targetTrack: 'a' | 'b' | 'auto' = 'auto') => {
-      if (!files || files.length === 0) return
+    async (selection: FileList | File[] | null, targetTrack: TargetTrack = 'auto', sequenceChoice?: SequenceChoice) => {
+      if (!selection || selection.length === 0) return
+      // MODEL-001: MTL / texture files travel with their OBJ
+      const { files: selected, companions } = await groupModelCompanions(Array.from(selection))
+
+      // SEQ-001: Numbered frames ask whether to import them as a clip
+      if (!sequenceChoice) {
+        const { sequences } = detectImageSequences(selected)
+        if (sequences.length > 0) {
+          setPendingSequences({ files: selected, sequences, targetTrack })
+          return
+        }
+      }
+
+      // Sequences first, then the files they do not use
+      const sequenceFrames = new Set(sequenceChoice?.sequences.flatMap(s => s.frames.map(f => f.file)))
+      const files: (File | ImageSequence)[] = [
+        ...(sequenceChoice?.sequences ?? []),
+        ...selected.filter(file => !sequenceFrames.has(file)),
+      ]
 
       setIsUploading(true)
       setError(null)
@@ -88,16 +126,43 @@ export function MediaUpload({ className, onUpload }: MediaUploadProps) {
       for (let i = 0; i < files.length; i++) {
         const file = files[i]
 
+        if (!(file instanceof File)) {
+          try {
+            setUploadProgress({ current: i + 1, total: files.length })
+            const mediaFile = await addImageSequence(file, sequenceChoice?.frameRate ?? 24)
+            const duration = mediaFile.duration || 10
+            const trackA = tracks.find(t => t.type === 'a')
+            const trackB = tracks.find(t => t.type === 'b')
+            if ((targetTrack === 'a' || (targetTrack === 'auto' && i % 2 === 0)) && trackA) {
+              addClip(trackA.id, mediaFile.id, nextStartTimeA, duration)
+              nextStartTimeA += duration
+            } else if (trackB) {
+              addClip(trackB.id, mediaFile.id, nextStartTimeB, duration)
+              nextStartTimeB += duration
+            }
+          } catch (error) {
+            console.error('Failed to import image sequence:', error)
+            invalidFiles.push(file.pattern)
+          }
+          continue
+        }
+
         // Validate file type (including 3D models and documents by extension)
         const extension = file.name.toLowerCase().split('.').pop()
-        const isModel = extension === 'glb' || extension === 'gltf'
-        const isDocument = extension === 'csv' || extension === 'xlsx' || extension === 'xls' || extension === 'docx' || extension === 'pdf'
+        const isModel = isModelFileName(file.name) // MODEL-001
+        const isDocument = getDocumentType(file.name) !== null // PPTX-001: includes PPTX, ODT, ODS
+        const isHDR = extension === 'exr' || extension === 'hdr' // HDR-001
+        const isTIFF = extension === 'tif' || extension === 'tiff' // BITDEPTH-001
+        const isSubtitle = isSubtitleFileName(file.name) // SUB-001
         if (
           !file.type.startsWith('video/') &&
           !file.type.startsWith('image/') &&
           !file.type.startsWith('audio/') &&
           !isModel &&
-          !isDocument
+          !isDocument &&
+          !isHDR &&
+          !isTIFF &&
+          !isSubtitle
         ) {
           invalidFiles.push(file.name)
           setUploadProgress(prev => ({ ...prev, current: i + 1 }))
@@ -106,9 +171,16 @@ export function MediaUpload({ className, onUpload }: MediaUploadProps) {
 
         try {
           setUploadProgress({ current: i + 1, total: files.length })
-          const mediaFile = await addFile(file)
+          const mediaFile = await addFile(file, companions.get(file))
           const duration = mediaFile.duration || 10
 
+          // SUB-001: Subtitles go to a text track from the start, one lane per file
+          if (mediaFile.type === 'subtitle') {
+            const textTrack = useTimelineStore.getState().tracks.find(t => t.type === 'text') ?? addTrack('text')
+            addClip(textTrack.id, mediaFile.id, 0, duration)
+            continue
+          }
+
           // Auto-add to timeline based on target track
           const trackA = tracks.find(t => t.type === 'a')
           const trackB = tracks.find(t => t.type === 'b')
@@ -152,7 +224,17 @@ export function MediaUpload({ className, onUpload }: MediaUploadProps) {
       setUploadProgress({ current: 0, total: 0 })
       onUpload?.()
     },
-    [addFile, addClip, tracks, onUpload]
+    [addFile, addImageSequence, addClip, addTrack, tracks, onUpload]
+  )
+
+  // SEQ-001: Import the selection with the dialog's choice
+  const resolvePendingSequences = useCallback(
+    (choice: SequenceChoice) => {
+      if (!pendingSequences) return
+      setPendingSequences(null)
+      handleFiles(pendingSequences.files, pendingSequences.targetTrack, choice)
+    },
+    [pendingSequences, handleFiles]
   )
 
   // General drop handler (auto mode)
@@ -223,7 +305,7 @@ export function MediaUpload({ className, onUpload }: MediaUploadProps) {
     const input = document.createElement('input')
     input.type = 'file'
     input.multiple = true
-    input.accept = 'video/*,image/*,audio/*,.glb,.gltf,.csv,.xlsx,.xls,.docx,.pdf'
+    input.accept = `video/*,image/*,audio/*,.exr,.hdr,.tif,.tiff,${MODEL_ACCEPT},.mtl,.csv,.xlsx,.xls,.ods,.docx,.odt,.pdf,.pptx,${SUBTITLE_ACCEPT}`
     input.onchange = (e) => {
       const target = e.target as HTMLInputElement
       handleFiles(target.files, 'a')
@@ -235,7 +317,7 @@ export function MediaUpload({ className, onUpload }: MediaUploadProps) {
     const input = document.createElement('input')
     input.type = 'file'
     input.multiple = true
-    input.accept = 'video/*,image/*,audio/*,.glb,.gltf,.csv,.xlsx,.xls,.docx,.pdf'
+    input.accept = `video/*,image/*,audio/*,.exr,.hdr,.tif,.tiff,${MODEL_ACCEPT},.mtl,.csv,.xlsx,.xls,.ods,.docx,.odt,.pdf,.pptx,${SUBTITLE_ACCEPT}`
     input.onchange = (e) => {
       const target = e.target as HTMLInputElement
       handleFiles(target.files, 'b')
@@ -247,7 +329,19 @@ export function MediaUpload({ className, onUpload }: MediaUploadProps) {
     const input = document.createElement('input')
     input.type = 'file'
     input.multiple = true
-    input.accept = 'video/*,image/*,audio/*,.glb,.gltf,.csv,.xlsx,.xls,.docx,.pdf'
+    input.accept = `video/*,image/*,audio/*,.exr,.hdr,.tif,.tiff,${MODEL_ACCEPT},.mtl,.csv,.xlsx,.xls,.ods,.docx,.odt,.pdf,.pptx,${SUBTITLE_ACCEPT}`
+    input.onchange = (e) => {
+      const target = e.target as HTMLInputElement
+      handleFiles(target.files, 'auto')
+    }
+    input.click()
+  }
+
+  // SEQ-001: Pick a folder of frames
+  const handleClickFolder = () => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.webkitdirectory = true
     input.onchange = (e) => {
       const target = e.target as HTMLInputElement
       handleFiles(target.files, 'auto')
@@ -389,12 +483,13 @@ export function MediaUpload({ className, onUpload }: MediaUploadProps) {
             <Music className="w-3 h-3 text-text-muted/50" />
             <Box className="w-3 h-3 text-text-muted/50" />
             <FileSpreadsheet className="w-3 h-3 text-text-muted/50" />
+            <Captions className="w-3 h-3 text-text-muted/50" />
           </div>
         </div>
       </div>
 
       {/* Import options */}
-      <div className="grid grid-cols-3 gap-2">
+      <div className="grid grid-cols-4 gap-2">
         <button
           onClick={(e) => { e.stopPropagation(); setIsURLImportOpen(true) }}
           className="flex items-center justify-center gap-1 px-2 py-2 text-xs text-text-secondary hover:text-text-primary bg-surface-hover hover:bg-surface border border-border rounded transition-colors"
@@ -422,6 +517,14 @@ export function MediaUpload({ className, onUpload }: MediaUploadProps) {
           <Monitor className="w-3 h-3" />
           {isCapturing ? '...' : 'Screen'}
         </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); handleClickFolder() }}
+          className="flex items-center justify-center gap-1 px-2 py-2 text-xs text-text-secondary hover:text-text-primary bg-surface-hover hover:bg-surface border border-border rounded transition-colors"
+          title="Import a folder of numbered frames as a clip"
+        >
+          <FolderOpen className="w-3 h-3" />
+          Folder
+        </button>
       </div>
 
       {error && (
@@ -433,6 +536,17 @@ export function MediaUpload({ className, onUpload }: MediaUploadProps) {
 
       {/* URL Import Modal */}
       <URLImport isOpen={isURLImportOpen} onClose={() => setIsURLImportOpen(false)} />
+
+      {/* SEQ-001: Image sequence import */}
+      {pendingSequences && (
+        <ImageSequenceImport
+          files={pendingSequences.files}
+          sequences={pendingSequences.sequences}
+          onImport={(sequences, frameRate) => resolvePendingSequences({ sequences, frameRate })}
+          onImportAsImages={() => resolvePendingSequences({ sequences: [], frameRate: 0 })}
+          onClose={() => setPendingSequences(null)}
+        />
+      )}
     </div>
   )
 }
@@ -1,5 +1,8 @@
 import { useRef, useImperativeHandle, forwardRef } from 'react'
 import { useProjectStore } from '../../stores/projectStore'
+import { TextOverlay } from './TextOverlay'
+import { TextElementEditor } from './TextElementEditor'
+import type { ComparisonMode } from '../../types'
 import {
   SliderComparison,
   SideBySide,
@@ -19,8 +22,13 @@ import {
   MorphologicalView,
   // Document comparison
   DocumentComparison,
+  // SUB-001: Subtitle comparison
+  SubtitleComparison,
 } from '../comparison'
 
+// TEXT-001: Modes that show documents rather than frames get no text overlay
+const TEXT_OVERLAY_HIDDEN_MODES: ComparisonMode[] = ['prompt-diff', 'json-diff', 'document', 'subtitle']
+
 export interface PreviewCanvasHandle {
   captureFrame: () => HTMLCanvasElement | null
 }
@@ -96,7 +104,7 @@ export const PreviewCanvas = forwardRef<PreviewCanvasHandle, PreviewCanvasProps>
       <div className="flex-1 bg-black flex items-center justify-center overflow-hidden relative">
         <div
           ref={containerRef}
-          className={`w-full h-full max-w-[1920px] relative ${isTimelineVisible && comparisonMode !== 'document' ? 'max-h-[1080px] aspect-video' : ''}`}
+          className={`w-full h-full max-w-[1920px] relative ${isTimelineVisible && comparisonMode !== 'document' && comparisonMode !== 'subtitle' ? 'max-h-[1080px] aspect-video' : ''}`}
         >
           {comparisonMode === 'slider' && <SliderComparison />}
           {comparisonMode === 'side-by-side' && <SideBySide />}
@@ -116,8 +124,13 @@ export const PreviewCanvas = forwardRef<PreviewCanvasHandle, PreviewCanvasProps>
           {comparisonMode === 'morphological' && <MorphologicalView />}
           {/* Document comparison */}
           {comparisonMode === 'document' && <DocumentComparison />}
+          {comparisonMode === 'subtitle' && <SubtitleComparison />}
+          {/* TEXT-001: Text tracks over the comparison */}
+          {!TEXT_OVERLAY_HIDDEN_MODES.includes(comparisonMode) && <TextOverlay />}
         </div>
 
+        <TextElementEditor />
+
         {/* Hidden canvas for export frame capture */}
         <canvas
           ref={exportCanvasRef}
@@ -0,0 +1,250 @@
+/**
+ * TEXT-001: Text element editor
+ * Floating panel over the preview for the selected text element, so
+ * every change is visible in the live overlay while editing
+ */
+import { useTimelineStore } from '../../stores/timelineStore'
+import { useHistoryStore } from '../../stores/historyStore'
+import { cn, formatTime } from '../../lib/utils'
+import { TEXT_ANIMATION_LABELS, TEXT_FONT_FAMILIES, type TextAnimation } from '../../lib/textOverlay'
+import type { TextElement } from '../../types'
+import { AlignCenter, AlignLeft, AlignRight, Bold, Italic, Trash2, Type, X } from 'lucide-react'
+
+// Common label spots: [label, positionX, positionY, textAlign]
+const POSITION_PRESETS: [string, number, number, TextElement['textAlign']][] = [
+  ['Top left', 4, 8, 'left'],
+  ['Top', 50, 8, 'center'],
+  ['Top right', 96, 8, 'right'],
+  ['Bottom left', 4, 90, 'left'],
+  ['Bottom', 50, 90, 'center'],
+  ['Bottom right', 96, 90, 'right'],
+]
+
+const ALIGN_OPTIONS: { value: TextElement['textAlign']; icon: typeof AlignLeft }[] = [
+  { value: 'left', icon: AlignLeft },
+  { value: 'center', icon: AlignCenter },
+  { value: 'right', icon: AlignRight },
+]
+
+const inputClass = 'w-full bg-background border border-border px-2 py-1 text-xs text-text-primary focus:outline-none focus:border-accent'
+
+function ToggleButton({ active, onClick, title, children }: {
+  active: boolean
+  onClick: () => void
+  title: string
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={cn(
+        'p-1.5 transition-colors',
+        active ? 'bg-accent/20 text-accent' : 'text-text-muted hover:text-text-primary hover:bg-surface-hover'
+      )}
+    >
+      {children}
+    </button>
+  )
+}
+
+export function TextElementEditor() {
+  const { textElements, selectedTextElementId, frameRate, updateTextElement, removeTextElement, selectTextElement } = useTimelineStore()
+  const { pushState } = useHistoryStore()
+
+  const element = textElements.find(e => e.id === selectedTextElementId)
+  if (!element) return null
+
+  const update = (updates: Partial<TextElement>) => updateTextElement(element.id, updates)
+  const frameStep = 1 / frameRate
+
+  return (
+    // One undo step per field the user starts editing
+    <div
+      className="absolute bottom-3 right-3 z-30 w-72 bg-surface border border-border shadow-lg text-xs"
+      onFocus={() => pushState()}
+      onKeyDown={e => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <div className="flex items-center gap-2 text-text-primary font-medium">
+          <Type className="w-3.5 h-3.5 text-purple-400" />
+          Text
+          <span className="text-text-muted font-normal tabular-nums">
+            {formatTime(element.startTime)} – {formatTime(element.endTime)}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => removeTextElement(element.id)}
+            className="p-1 text-text-muted hover:text-error"
+            title="Delete text"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => selectTextElement(null)} className="p-1 text-text-muted hover:text-text-primary" title="Close">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-3 space-y-3">
+        <textarea
+          value={element.text}
+          onChange={e => update({ text: e.target.value })}
+          rows={2}
+          className={cn(inputClass, 'resize-none text-sm')}
+          placeholder="Caption or title"
+        />
+
+        {/* Font */}
+        <div className="flex items-center gap-1">
+          <select
+            value={element.fontFamily}
+            onChange={e => update({ fontFamily: e.target.value })}
+            className={cn(inputClass, 'flex-1')}
+          >
+            {TEXT_FONT_FAMILIES.map(font => (
+              <option key={font.value} value={font.value}>{font.label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={8}
+            max={400}
+            value={element.fontSize}
+            onChange={e => update({ fontSize: Math.max(8, Number(e.target.value) || 8) })}
+            className={cn(inputClass, 'w-16')}
+            title="Font size (pixels at 1080p)"
+          />
+          <ToggleButton
+            active={element.fontWeight === 'bold'}
+            onClick={() => update({ fontWeight: element.fontWeight === 'bold' ? 'normal' : 'bold' })}
+            title="Bold"
+          >
+            <Bold className="w-3.5 h-3.5" />
+          </ToggleButton>
+          <ToggleButton
+            active={element.fontStyle === 'italic'}
+            onClick={() => update({ fontStyle: element.fontStyle === 'italic' ? 'normal' : 'italic' })}
+            title="Italic"
+          >
+            <Italic className="w-3.5 h-3.5" />
+          </ToggleButton>
+        </div>
+
+        {/* Colours and alignment */}
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1.5 text-text-secondary">
+            <input
+              type="color"
+              value={element.color}
+              onChange={e => update({ color: e.target.value })}
+              className="w-6 h-6 bg-transparent border border-border cursor-pointer"
+            />
+            Text
+          </label>
+          <label className="flex items-center gap-1.5 text-text-secondary">
+            <input
+              type="checkbox"
+              checked={element.backgroundColor !== undefined}
+              onChange={e => update({ backgroundColor: e.target.checked ? '#000000' : undefined })}
+              className="w-3 h-3 accent-accent"
+            />
+            <input
+              type="color"
+              value={element.backgroundColor ?? '#000000'}
+              onChange={e => update({ backgroundColor: e.target.value })}
+              disabled={element.backgroundColor === undefined}
+              className="w-6 h-6 bg-transparent border border-border cursor-pointer disabled:opacity-30"
+            />
+            Box
+          </label>
+          <div className="flex-1" />
+          {ALIGN_OPTIONS.map(({ value, icon: Icon }) => (
+            <ToggleButton key={value} active={element.textAlign === value} onClick={() => update({ textAlign: value })} title={`Align ${value}`}>
+              <Icon className="w-3.5 h-3.5" />
+            </ToggleButton>
+          ))}
+        </div>
+
+        {/* Position */}
+        <div className="space-y-1.5">
+          <div className="grid grid-cols-3 gap-1">
+            {POSITION_PRESETS.map(([label, x, y, align]) => (
+              <button
+                key={label}
+                onClick={() => update({ positionX: x, positionY: y, textAlign: align })}
+                className={cn(
+                  'px-1 py-1 text-[10px] border transition-colors',
+                  element.positionX === x && element.positionY === y
+                    ? 'border-accent text-accent'
+                    : 'border-border text-text-muted hover:text-text-primary'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {(['positionX', 'positionY'] as const).map(key => (
+            <label key={key} className="flex items-center gap-2 text-text-secondary">
+              <span className="w-3">{key === 'positionX' ? 'X' : 'Y'}</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={0.5}
+                value={element[key]}
+                onChange={e => update({ [key]: Number(e.target.value) })}
+                className="flex-1 accent-accent"
+              />
+              <span className="w-10 text-right tabular-nums">{element[key]}%</span>
+            </label>
+          ))}
+        </div>
+
+        {/* Timing and animation */}
+        <div className="grid grid-cols-3 gap-1.5">
+          <label className="flex flex-col gap-1 text-text-secondary">
+            Start
+            <input
+              type="number"
+              min={0}
+              step={frameStep}
+              value={Number(element.startTime.toFixed(3))}
+              onChange={e => {
+                const startTime = Math.max(0, Number(e.target.value) || 0)
+                // Keep the duration when moving the start
+                update({ startTime, endTime: startTime + (element.endTime - element.startTime) })
+              }}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-text-secondary">
+            End
+            <input
+              type="number"
+              min={element.startTime + frameStep}
+              step={frameStep}
+              value={Number(element.endTime.toFixed(3))}
+              onChange={e => update({ endTime: Number(e.target.value) || element.endTime })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-text-secondary">
+            Animation
+            <select
+              value={element.animation ?? 'none'}
+              onChange={e => update({ animation: e.target.value as TextAnimation })}
+              className={inputClass}
+            >
+              {Object.entries(TEXT_ANIMATION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+    </div>
+  )
+}
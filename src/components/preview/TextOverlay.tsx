@@ -0,0 +1,50 @@
+/**
+ * TEXT-001: Live text track overlay
+ * Renders the text elements under the playhead over the preview through
+ * the same canvas routine the exporters use for burn-in
+ */
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useTimelineStore } from '../../stores/timelineStore'
+import { usePlaybackStore } from '../../stores/playbackStore'
+import { drawTextElements, filterRenderableTextElements } from '../../lib/textOverlay'
+
+export function TextOverlay() {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const { currentTime } = usePlaybackStore()
+  const tracks = useTimelineStore((state) => state.tracks)
+  const textElements = useTimelineStore((state) => state.textElements)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+
+  const elements = useMemo(() => filterRenderableTextElements(textElements, tracks), [textElements, tracks])
+
+  // Follow the preview size so text scales like it does in exports
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || size.width === 0 || size.height === 0) return
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = Math.round(size.width * dpr)
+    canvas.height = Math.round(size.height * dpr)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, size.width, size.height)
+    drawTextElements(ctx, elements, currentTime, size.width, size.height)
+  }, [elements, currentTime, size])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 w-full h-full pointer-events-none z-20"
+    />
+  )
+}
@@ -3,6 +3,7 @@
  * SCOPE-001: Waveform Monitor
  * SCOPE-002: Vectorscope Display
  * SCOPE-003: RGB Parade
+ * COLOR-001: Scopes read the selected clip's colour-graded frames
  *
  * Professional video scopes for color grading and exposure analysis
  */
@@ -11,7 +12,11 @@ import { useEffect, useRef, useCallback, useState } from 'react'
 import { useProjectStore } from '../../stores/projectStore'
 import { useMediaStore } from '../../stores/mediaStore'
 import { useTimelineStore } from '../../stores/timelineStore'
+import { useLUTStore } from '../../stores/lutStore'
 import { ScopesRenderer } from '../../lib/webgl/ScopesRenderer'
+import { getSharedColorGradeRenderer } from '../../lib/webgl/ColorGradeRenderer'
+import type { CubeLUT } from '../../lib/colorGrade'
+import type { ColorGrade } from '../../types'
 import {
   Activity,
   Target,
@@ -35,9 +40,11 @@ interface ScopeCanvasProps {
   }
   width: number
   height: number
+  grade?: ColorGrade
+  lut?: CubeLUT
 }
 
-function ScopeCanvas({ type, source, settings, width, height }: ScopeCanvasProps) {
+function ScopeCanvas({ type, source, settings, width, height, grade, lut }: ScopeCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const rendererRef = useRef<ScopesRenderer | null>(null)
   const animationRef = useRef<number>(0)
@@ -68,11 +75,12 @@ function ScopeCanvas({ type, source, settings, width, height }: ScopeCanvasProps
         return
       }
 
-      // Update source texture
+      // Update source texture (COLOR-001: through the clip's grade)
+      const grader = getSharedColorGradeRenderer()
       if ('videoWidth' in source && source.readyState >= 2) {
-        renderer.updateSource(source)
+        renderer.updateSource(grader.apply(source, grade, lut))
       } else if ('naturalWidth' in source && source.complete) {
-        renderer.updateSource(source)
+        renderer.updateSource(grader.apply(source, grade, lut))
       }
 
       // Render the scope
@@ -94,7 +102,7 @@ function ScopeCanvas({ type, source, settings, width, height }: ScopeCanvasProps
         cancelAnimationFrame(animationRef.current)
       }
     }
-  }, [type, source, settings])
+  }, [type, source, settings, grade, lut])
 
   return (
     <canvas
@@ -140,6 +148,9 @@ export function ScopesPanel() {
   const selectedMedia = scopesSettings.scopeSource === 'a' ? mediaA :
                         scopesSettings.scopeSource === 'b' ? mediaB :
                         mediaA // Comparison uses A for now
+  const selectedClip = scopesSettings.scopeSource === 'b' ? firstClipB : firstClipA
+  const selectedGrade = selectedClip?.colorGrade
+  const selectedLUT = useLUTStore((state) => state.getLUT(selectedGrade?.lutId))
 
   // Track video/image loading
   const [sourceLoaded, setSourceLoaded] = useState(false)
@@ -380,6 +391,8 @@ export function ScopesPanel() {
                 <ScopeCanvas
                   type="waveform"
                   source={getSourceElement()}
+                  grade={selectedGrade}
+                  lut={selectedLUT}
                   settings={{
                     intensity: scopesSettings.scopeIntensity
                   }}
@@ -409,6 +422,8 @@ export function ScopesPanel() {
                 <ScopeCanvas
                   type="vectorscope"
                   source={getSourceElement()}
+                  grade={selectedGrade}
+                  lut={selectedLUT}
                   settings={{
                     intensity: scopesSettings.scopeIntensity,
                     zoom: scopesSettings.vectorscopeZoom,
@@ -436,6 +451,8 @@ export function ScopesPanel() {
                 <ScopeCanvas
                   type="parade"
                   source={getSourceElement()}
+                  grade={selectedGrade}
+                  lut={selectedLUT}
                   settings={{
                     intensity: scopesSettings.scopeIntensity,
                     isolatedChannel: scopesSettings.paradeChannelIsolation === 'all' ? 0 :
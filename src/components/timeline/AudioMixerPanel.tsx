@@ -0,0 +1,251 @@
+/**
+ * MIX-001: Audio Mixer
+ * Per-track volume, pan, mute and solo, plus gain, fades and envelope reset
+ * for the selected clip. The mix drives playback and MP4 / stitch export audio
+ */
+
+import { useTimelineStore } from '../../stores/timelineStore'
+import { usePlaybackStore } from '../../stores/playbackStore'
+import { useKeyframeStore } from '../../stores/keyframeStore'
+import { useHistoryStore, useHistoryDrag } from '../../stores/historyStore'
+import { useMediaStore } from '../../stores/mediaStore'
+import {
+  MIN_VOLUME_DB,
+  MAX_VOLUME_DB,
+  formatDb,
+  formatPan,
+  getVolumeKeyframes,
+  isAudioTrack,
+  isTrackAudible,
+} from '../../lib/audioMix'
+import { cn } from '../../lib/utils'
+import { SlidersHorizontal, X, RotateCcw } from 'lucide-react'
+
+interface AudioMixerPanelProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const MAX_FADE = 10
+
+export function AudioMixerPanel({ isOpen, onClose }: AudioMixerPanelProps) {
+  const {
+    tracks,
+    selectedClipId,
+    setTrackVolume,
+    setTrackPan,
+    toggleTrackMute,
+    toggleTrackSolo,
+    setClipAudio,
+  } = useTimelineStore()
+  const { volume, isMuted, setVolume, toggleMute } = usePlaybackStore()
+  const { clipKeyframes, resetPropertyKeyframes } = useKeyframeStore()
+  const { pushState } = useHistoryStore()
+  // One undo step per slider drag
+  const { bind: sliderHistory } = useHistoryDrag()
+  const { getFile } = useMediaStore()
+
+  if (!isOpen) return null
+
+  const audioTracks = tracks.filter(isAudioTrack)
+  const selectedClip = selectedClipId
+    ? tracks.flatMap(t => t.clips).find(c => c.id === selectedClipId)
+    : undefined
+  const selectedMedia = selectedClip ? getFile(selectedClip.mediaId) : undefined
+  const envelopePoints = selectedClip ? getVolumeKeyframes(clipKeyframes.get(selectedClip.id)).length : 0
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1a1a1a] rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <SlidersHorizontal size={20} className="text-[#ff5722]" />
+            <h2 className="text-lg font-semibold text-white">Audio Mixer</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {/* Track strips */}
+          <div className="px-6 py-4 border-b border-gray-700 space-y-3">
+            <h3 className="text-sm font-medium text-gray-300">Tracks</h3>
+            {audioTracks.length === 0 && (
+              <p className="text-sm text-gray-500">No audio-carrying tracks</p>
+            )}
+            {audioTracks.map(track => {
+              const trackVolume = track.volume ?? 0
+              const pan = track.pan ?? 0
+              const audible = isTrackAudible(track, tracks)
+              return (
+                <div key={track.id} className="flex items-center gap-4">
+                  <span className={cn('w-28 text-sm truncate', audible ? 'text-white' : 'text-gray-500')}>
+                    {track.name}
+                  </span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => toggleTrackMute(track.id)}
+                      className={cn(
+                        'w-7 h-7 rounded text-xs font-semibold border',
+                        track.muted ? 'bg-red-600 border-red-500 text-white' : 'border-gray-600 text-gray-400 hover:text-white'
+                      )}
+                      title={track.muted ? 'Unmute' : 'Mute'}
+                    >
+                      M
+                    </button>
+                    <button
+                      onClick={() => toggleTrackSolo(track.id)}
+                      className={cn(
+                        'w-7 h-7 rounded text-xs font-semibold border',
+                        track.solo ? 'bg-yellow-500 border-yellow-400 text-black' : 'border-gray-600 text-gray-400 hover:text-white'
+                      )}
+                      title={track.solo ? 'Unsolo' : 'Solo'}
+                    >
+                      S
+                    </button>
+                  </div>
+                  <label className="flex-1 flex items-center gap-2 text-xs text-gray-400">
+                    Vol
+                    <input
+                      type="range"
+                      min={MIN_VOLUME_DB}
+                      max={MAX_VOLUME_DB}
+                      step={0.5}
+                      value={trackVolume}
+                      onChange={(e) => setTrackVolume(track.id, Number(e.target.value))}
+                      onDoubleClick={() => setTrackVolume(track.id, 0)}
+                      {...sliderHistory('Track volume')}
+                      className="flex-1"
+                      title="Double-click to reset to 0 dB"
+                    />
+                    <span className="w-14 text-right text-white tabular-nums">{formatDb(trackVolume)}</span>
+                  </label>
+                  <label className="w-44 flex items-center gap-2 text-xs text-gray-400">
+                    Pan
+                    <input
+                      type="range"
+                      min={-1}
+                      max={1}
+                      step={0.01}
+                      value={pan}
+                      onChange={(e) => setTrackPan(track.id, Number(e.target.value))}
+                      onDoubleClick={() => setTrackPan(track.id, 0)}
+                      {...sliderHistory('Track pan')}
+                      className="flex-1"
+                      title="Double-click to center"
+                    />
+                    <span className="w-8 text-right text-white tabular-nums">{formatPan(pan)}</span>
+                  </label>
+                </div>
+              )
+            })}
+          </div>
+
+          {/* Selected clip */}
+          <div className="px-6 py-4 border-b border-gray-700 space-y-3">
+            <h3 className="text-sm font-medium text-gray-300">
+              Clip{selectedMedia ? `: ${selectedMedia.name}` : ''}
+            </h3>
+            {selectedClip ? (
+              <>
+                <label className="flex items-center gap-2 text-xs text-gray-400">
+                  <span className="w-16">Gain</span>
+                  <input
+                    type="range"
+                    min={MIN_VOLUME_DB}
+                    max={MAX_VOLUME_DB}
+                    step={0.5}
+                    value={selectedClip.gain ?? 0}
+                    onChange={(e) => setClipAudio(selectedClip.id, { gain: Number(e.target.value) })}
+                    onDoubleClick={() => setClipAudio(selectedClip.id, { gain: 0 })}
+                    {...sliderHistory('Clip gain')}
+                    className="flex-1"
+                    title="Double-click to reset to 0 dB"
+                  />
+                  <span className="w-14 text-right text-white tabular-nums">{formatDb(selectedClip.gain ?? 0)}</span>
+                </label>
+                <div className="flex flex-wrap items-center gap-4 text-xs text-gray-400">
+                  <label className="flex items-center gap-2">
+                    <span className="w-16">Fade in</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_FADE}
+                      step={0.1}
+                      value={selectedClip.fadeIn ?? 0}
+                      onChange={(e) => setClipAudio(selectedClip.id, { fadeIn: Number(e.target.value) })}
+                      className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                    />
+                    s
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Fade out
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_FADE}
+                      step={0.1}
+                      value={selectedClip.fadeOut ?? 0}
+                      onChange={(e) => setClipAudio(selectedClip.id, { fadeOut: Number(e.target.value) })}
+                      className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                    />
+                    s
+                  </label>
+                  <span className="flex-1" />
+                  <span>{envelopePoints} envelope point{envelopePoints === 1 ? '' : 's'}</span>
+                  <button
+                    onClick={() => {
+                      pushState('Reset volume envelope')
+                      resetPropertyKeyframes(selectedClip.id, 'volume')
+                    }}
+                    disabled={envelopePoints === 0}
+                    className="flex items-center gap-1 px-2 py-1 rounded border border-gray-600 text-gray-300 hover:text-white disabled:opacity-40"
+                  >
+                    <RotateCcw size={12} />
+                    Reset envelope
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Double-click the envelope line on the selected clip to add a point, drag points to shape it
+                  and drag the top-corner handles to set fades.
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Select a clip to adjust its gain, fades and envelope</p>
+            )}
+          </div>
+
+          {/* Monitor */}
+          <div className="px-6 py-4 space-y-2">
+            <h3 className="text-sm font-medium text-gray-300">Monitor</h3>
+            <div className="flex items-center gap-4 text-xs text-gray-400">
+              <button
+                onClick={toggleMute}
+                className={cn(
+                  'w-7 h-7 rounded text-xs font-semibold border',
+                  isMuted ? 'bg-red-600 border-red-500 text-white' : 'border-gray-600 text-gray-400 hover:text-white'
+                )}
+                title={isMuted ? 'Unmute' : 'Mute'}
+              >
+                M
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={volume}
+                onChange={(e) => setVolume(Number(e.target.value))}
+                className="flex-1"
+              />
+              <span className="w-10 text-right text-white tabular-nums">{Math.round(volume * 100)}%</span>
+            </div>
+            <p className="text-xs text-gray-500">Playback level only; exports use the track and clip mix.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
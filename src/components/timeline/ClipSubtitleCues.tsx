@@ -0,0 +1,44 @@
+/**
+ * SUB-001: Clip Subtitle Cues
+ * Draws each cue of a subtitle clip as a block at its time, so two files
+ * in parallel lanes show retimed, missing and extra cues at a glance
+ */
+import { memo } from 'react'
+import type { SubtitleCue } from '../../types'
+
+interface ClipSubtitleCuesProps {
+  cues: SubtitleCue[]
+  inPoint: number
+  outPoint: number
+  color?: string
+}
+
+export const ClipSubtitleCues = memo(function ClipSubtitleCues({
+  cues,
+  inPoint,
+  outPoint,
+  color = 'rgba(255, 255, 255, 0.6)',
+}: ClipSubtitleCuesProps) {
+  const span = outPoint - inPoint
+  if (span <= 0) return null
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 h-1/2 pointer-events-none">
+      {cues
+        .filter(cue => cue.end > inPoint && cue.start < outPoint)
+        .map(cue => (
+          <div
+            key={cue.index}
+            className="absolute top-0 bottom-0 rounded-[1px]"
+            style={{
+              left: `${((Math.max(cue.start, inPoint) - inPoint) / span) * 100}%`,
+              width: `${((Math.min(cue.end, outPoint) - Math.max(cue.start, inPoint)) / span) * 100}%`,
+              minWidth: 1,
+              backgroundColor: color,
+            }}
+            title={cue.text}
+          />
+        ))}
+    </div>
+  )
+})
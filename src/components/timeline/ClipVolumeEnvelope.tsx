@@ -0,0 +1,177 @@
+/**
+ * MIX-001: Volume envelope and fades drawn over a clip's waveform
+ * Double-click the line to add a point, drag points to reshape the envelope,
+ * double-click a point to remove it. The top handles set fade-in/out
+ */
+import { memo, useCallback, useEffect, useRef, useState } from 'react'
+import { useTimelineStore } from '../../stores/timelineStore'
+import { useKeyframeStore } from '../../stores/keyframeStore'
+import { useHistoryStore } from '../../stores/historyStore'
+import { getVolumeKeyframes } from '../../lib/audioMix'
+import { PROPERTY_CONFIGS } from '../../lib/keyframes'
+import type { TimelineClip } from '../../types'
+
+const MAX_VALUE = PROPERTY_CONFIGS.volume.max
+
+type EnvelopeDrag =
+  | { kind: 'point'; keyframeId: string }
+  | { kind: 'fadeIn' | 'fadeOut' }
+
+interface ClipVolumeEnvelopeProps {
+  clip: TimelineClip
+  width: number
+  editable: boolean
+  color: string
+}
+
+export const ClipVolumeEnvelope = memo(function ClipVolumeEnvelope({
+  clip,
+  width,
+  editable,
+  color,
+}: ClipVolumeEnvelopeProps) {
+  const keyframes = useKeyframeStore((state) => state.clipKeyframes.get(clip.id))
+  const addKeyframeToClip = useKeyframeStore((state) => state.addKeyframeToClip)
+  const updateKeyframeById = useKeyframeStore((state) => state.updateKeyframeById)
+  const removeKeyframeById = useKeyframeStore((state) => state.removeKeyframeById)
+  const setClipAudio = useTimelineStore((state) => state.setClipAudio)
+  const pushState = useHistoryStore((state) => state.pushState)
+  const beginTransaction = useHistoryStore((state) => state.beginTransaction)
+  const endTransaction = useHistoryStore((state) => state.endTransaction)
+
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [drag, setDrag] = useState<EnvelopeDrag | null>(null)
+
+  const length = clip.endTime - clip.startTime
+  const points = [...getVolumeKeyframes(keyframes)].sort((a, b) => a.time - b.time)
+
+  // Clip-relative time and envelope value under the pointer
+  const pointerToEnvelope = useCallback((clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect()
+    const x = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width))
+    const y = Math.max(0, Math.min(1, (clientY - rect.top) / rect.height))
+    return { time: x * length, value: Math.round((1 - y) * MAX_VALUE * 100) / 100 }
+  }, [length])
+
+  useEffect(() => {
+    if (!drag) return
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const { time, value } = pointerToEnvelope(e.clientX, e.clientY)
+      if (drag.kind === 'point') {
+        updateKeyframeById(clip.id, drag.keyframeId, { time, value })
+      } else if (drag.kind === 'fadeIn') {
+        setClipAudio(clip.id, { fadeIn: time })
+      } else {
+        setClipAudio(clip.id, { fadeOut: length - time })
+      }
+    }
+
+    const handleMouseUp = () => {
+      endTransaction()
+      setDrag(null)
+    }
+
+    window.addEventListener('mousemove', handleMouseMove)
+    window.addEventListener('mouseup', handleMouseUp)
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove)
+      window.removeEventListener('mouseup', handleMouseUp)
+    }
+  }, [drag, clip.id, length, pointerToEnvelope, updateKeyframeById, setClipAudio, endTransaction])
+
+  const startDrag = (e: React.MouseEvent, next: EnvelopeDrag, label: string) => {
+    if (e.button !== 0) return
+    e.preventDefault()
+    e.stopPropagation()
+    beginTransaction(label)
+    setDrag(next)
+  }
+
+  const handleLineDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    const { time, value } = pointerToEnvelope(e.clientX, e.clientY)
+    pushState('Add volume point')
+    addKeyframeToClip(clip.id, 'volume', time, value, 'linear')
+  }
+
+  const toX = (time: number) => (time / length) * width
+  const toY = (value: number) => (1 - value / MAX_VALUE) * 100
+  const linePoints = points.length > 0
+    ? [
+        `0,${toY(points[0].value)}`,
+        ...points.map(kf => `${toX(kf.time)},${toY(kf.value)}`),
+        `${width},${toY(points[points.length - 1].value)}`,
+      ].join(' ')
+    : `0,${toY(1)} ${width},${toY(1)}`
+
+  const fadeInWidth = toX(clip.fadeIn ?? 0)
+  const fadeOutWidth = toX(clip.fadeOut ?? 0)
+
+  return (
+    // Above the clip label; only the line, points and handles take the pointer
+    <div ref={containerRef} className="absolute inset-0 z-[11] pointer-events-none">
+      <svg className="absolute inset-0 w-full h-full" viewBox={`0 0 ${Math.max(width, 1)} 100`} preserveAspectRatio="none">
+        {/* Fade ramps */}
+        {fadeInWidth > 0 && (
+          <polygon points={`0,0 ${fadeInWidth},0 0,100`} fill="rgba(0, 0, 0, 0.45)" />
+        )}
+        {fadeOutWidth > 0 && (
+          <polygon points={`${width - fadeOutWidth},0 ${width},0 ${width},100`} fill="rgba(0, 0, 0, 0.45)" />
+        )}
+        <polyline
+          points={linePoints}
+          fill="none"
+          stroke={color}
+          strokeWidth={editable ? 1.5 : 1}
+          vectorEffect="non-scaling-stroke"
+        />
+        {editable && (
+          <polyline
+            points={linePoints}
+            fill="none"
+            stroke="transparent"
+            strokeWidth={8}
+            vectorEffect="non-scaling-stroke"
+            className="pointer-events-auto cursor-copy"
+            onDoubleClick={handleLineDoubleClick}
+          >
+            <title>Double-click to add a volume point</title>
+          </polyline>
+        )}
+      </svg>
+
+      {editable && (
+        <>
+          {points.map(kf => (
+            <div
+              key={kf.id}
+              className="absolute w-2 h-2 -ml-1 -mt-1 pointer-events-auto bg-white border border-black/50 rounded-full cursor-move hover:scale-150 transition-transform"
+              style={{ left: toX(kf.time), top: `${toY(kf.value)}%` }}
+              onMouseDown={(e) => startDrag(e, { kind: 'point', keyframeId: kf.id }, 'Volume envelope')}
+              onDoubleClick={(e) => {
+                e.stopPropagation()
+                pushState('Remove volume point')
+                removeKeyframeById(clip.id, kf.id)
+              }}
+              title={`Volume ${kf.value.toFixed(2)}x @ ${kf.time.toFixed(2)}s (double-click to remove)`}
+            />
+          ))}
+          {/* Fade handles sit on the top edge, clear of the trim handles */}
+          <div
+            className="absolute top-0 w-2 h-2 pointer-events-auto bg-white/80 hover:bg-white cursor-ew-resize"
+            style={{ left: Math.max(fadeInWidth - 4, 8) }}
+            onMouseDown={(e) => startDrag(e, { kind: 'fadeIn' }, 'Fade in')}
+            title={`Fade in ${(clip.fadeIn ?? 0).toFixed(2)}s`}
+          />
+          <div
+            className="absolute top-0 w-2 h-2 pointer-events-auto bg-white/80 hover:bg-white cursor-ew-resize"
+            style={{ right: Math.max(fadeOutWidth - 4, 8) }}
+            onMouseDown={(e) => startDrag(e, { kind: 'fadeOut' }, 'Fade out')}
+            title={`Fade out ${(clip.fadeOut ?? 0).toFixed(2)}s`}
+          />
+        </>
+      )}
+    </div>
+  )
+})
@@ -0,0 +1,405 @@
+/**
+ * COLOR-001: Colour Grade
+ * Per-clip white balance, lift / gamma / gain, curves and a .cube LUT for the
+ * selected clip. The grade drives the preview, WebGL analysis, scopes and exports
+ */
+
+import { useRef, useState } from 'react'
+import { useTimelineStore } from '../../stores/timelineStore'
+import { useHistoryStore, useHistoryDrag } from '../../stores/historyStore'
+import { useMediaStore } from '../../stores/mediaStore'
+import { useLUTStore } from '../../stores/lutStore'
+import { CURVE_CHANNELS, createDefaultGrade, evaluateCurve } from '../../lib/colorGrade'
+import { cn } from '../../lib/utils'
+import { Palette, X, RotateCcw, Upload, Trash2 } from 'lucide-react'
+import type { ColorGrade, CurveChannel, CurvePoint, GradeRGB } from '../../types'
+
+interface ColorGradePanelProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+type WheelKey = 'lift' | 'gamma' | 'gain'
+
+const WHEELS: { key: WheelKey; label: string; min: number; max: number; neutral: number }[] = [
+  { key: 'lift', label: 'Lift', min: -0.5, max: 0.5, neutral: 0 },
+  { key: 'gamma', label: 'Gamma', min: 0.2, max: 3, neutral: 1 },
+  { key: 'gain', label: 'Gain', min: 0, max: 3, neutral: 1 },
+]
+
+const RGB_LABELS = ['R', 'G', 'B'] as const
+const RGB_TEXT = ['text-red-400', 'text-green-400', 'text-blue-400']
+
+const CURVE_STROKE: Record<CurveChannel, string> = {
+  master: '#e5e7eb',
+  red: '#f87171',
+  green: '#4ade80',
+  blue: '#60a5fa',
+}
+
+export function ColorGradePanel({ isOpen, onClose }: ColorGradePanelProps) {
+  const { tracks, selectedClipId, setClipColorGrade } = useTimelineStore()
+  const { pushState } = useHistoryStore()
+  // One undo step per slider or curve drag
+  const { bind: sliderHistory, begin: beginDrag, end: endDrag } = useHistoryDrag()
+  const { getFile } = useMediaStore()
+  const { luts, importLUT, removeLUT } = useLUTStore()
+  const [curveChannel, setCurveChannel] = useState<CurveChannel>('master')
+  const [lutError, setLutError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  if (!isOpen) return null
+
+  const selectedClip = selectedClipId
+    ? tracks.flatMap(t => t.clips).find(c => c.id === selectedClipId)
+    : undefined
+  const selectedMedia = selectedClip ? getFile(selectedClip.mediaId) : undefined
+  const gradable = selectedMedia?.type === 'video' || selectedMedia?.type === 'image'
+  const grade = selectedClip?.colorGrade ?? createDefaultGrade()
+  const selectedLUT = luts.find(l => l.id === grade.lutId)
+
+  const update = (updates: Partial<ColorGrade>) => {
+    if (selectedClip) setClipColorGrade(selectedClip.id, updates)
+  }
+
+  const setChannel = (key: WheelKey, channel: number, value: number) => {
+    const next = [...grade[key]] as GradeRGB
+    next[channel] = value
+    update({ [key]: next })
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setLutError(null)
+    try {
+      const lut = await importLUT(file)
+      if (selectedClip && gradable) {
+        pushState('Apply LUT')
+        update({ lutId: lut.id })
+      }
+    } catch (err) {
+      setLutError(err instanceof Error ? err.message : 'Failed to read LUT')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1a1a1a] rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <Palette size={20} className="text-[#ff5722]" />
+            <h2 className="text-lg font-semibold text-white">
+              Colour Grade{selectedMedia ? `: ${selectedMedia.name}` : ''}
+            </h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {!selectedClip || !gradable ? (
+          <p className="px-6 py-8 text-sm text-gray-500">Select a video or image clip to grade it</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto">
+            {/* Enable / reset */}
+            <div className="px-6 py-3 border-b border-gray-700 flex items-center gap-4 text-sm">
+              <label className="flex items-center gap-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={grade.enabled}
+                  onChange={(e) => {
+                    pushState(e.target.checked ? 'Enable grade' : 'Bypass grade')
+                    update({ enabled: e.target.checked })
+                  }}
+                />
+                Enabled
+              </label>
+              <span className="flex-1 text-xs text-gray-500">
+                Applied in order: white balance, lift / gamma / gain, curves, LUT
+              </span>
+              <button
+                onClick={() => {
+                  pushState('Reset grade')
+                  setClipColorGrade(selectedClip.id, null)
+                }}
+                disabled={!selectedClip.colorGrade}
+                className="flex items-center gap-1 px-2 py-1 rounded border border-gray-600 text-xs text-gray-300 hover:text-white disabled:opacity-40"
+              >
+                <RotateCcw size={12} />
+                Reset grade
+              </button>
+            </div>
+
+            {/* White balance */}
+            <div className="px-6 py-4 border-b border-gray-700 space-y-2">
+              <h3 className="text-sm font-medium text-gray-300">White Balance</h3>
+              {([
+                { key: 'temperature', label: 'Temperature' },
+                { key: 'tint', label: 'Tint' },
+              ] as const).map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-xs text-gray-400">
+                  <span className="w-20">{label}</span>
+                  <input
+                    type="range"
+                    min={-1}
+                    max={1}
+                    step={0.01}
+                    value={grade[key]}
+                    onChange={(e) => update({ [key]: Number(e.target.value) })}
+                    onDoubleClick={() => update({ [key]: 0 })}
+                    {...sliderHistory(label)}
+                    className="flex-1"
+                    title="Double-click to reset"
+                  />
+                  <span className="w-12 text-right text-white tabular-nums">{grade[key].toFixed(2)}</span>
+                </label>
+              ))}
+            </div>
+
+            {/* Lift / gamma / gain */}
+            <div className="px-6 py-4 border-b border-gray-700 space-y-3">
+              <h3 className="text-sm font-medium text-gray-300">Lift / Gamma / Gain</h3>
+              <div className="grid grid-cols-3 gap-4">
+                {WHEELS.map(wheel => (
+                  <div key={wheel.key} className="space-y-1">
+                    <div className="text-xs text-gray-400">{wheel.label}</div>
+                    {RGB_LABELS.map((channelLabel, channel) => (
+                      <label key={channelLabel} className="flex items-center gap-2 text-xs">
+                        <span className={cn('w-3', RGB_TEXT[channel])}>{channelLabel}</span>
+                        <input
+                          type="range"
+                          min={wheel.min}
+                          max={wheel.max}
+                          step={0.01}
+                          value={grade[wheel.key][channel]}
+                          onChange={(e) => setChannel(wheel.key, channel, Number(e.target.value))}
+                          onDoubleClick={() => setChannel(wheel.key, channel, wheel.neutral)}
+                          {...sliderHistory(wheel.label)}
+                          className="flex-1 min-w-0"
+                          title="Double-click to reset"
+                        />
+                        <span className="w-10 text-right text-white tabular-nums">
+                          {grade[wheel.key][channel].toFixed(2)}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Curves */}
+            <div className="px-6 py-4 border-b border-gray-700 space-y-3">
+              <div className="flex items-center gap-2">
+                <h3 className="text-sm font-medium text-gray-300 flex-1">Curves</h3>
+                {CURVE_CHANNELS.map(channel => (
+                  <button
+                    key={channel}
+                    onClick={() => setCurveChannel(channel)}
+                    className={cn(
+                      'px-2 py-1 rounded text-xs capitalize border',
+                      curveChannel === channel ? 'border-[#ff5722] text-white' : 'border-gray-600 text-gray-400 hover:text-white'
+                    )}
+                  >
+                    {channel}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-start gap-4">
+                <CurveEditor
+                  points={grade.curves[curveChannel]}
+                  stroke={CURVE_STROKE[curveChannel]}
+                  onBegin={() => beginDrag('Curve')}
+                  onEnd={endDrag}
+                  onChange={(points) => update({ curves: { ...grade.curves, [curveChannel]: points } })}
+                />
+                <div className="flex-1 space-y-2 text-xs text-gray-500">
+                  <p>Click to add a point and drag to shape the curve. Double-click a point to remove it.</p>
+                  <button
+                    onClick={() => {
+                      pushState('Reset curve')
+                      update({ curves: { ...grade.curves, [curveChannel]: createDefaultGrade().curves[curveChannel] } })
+                    }}
+                    className="flex items-center gap-1 px-2 py-1 rounded border border-gray-600 text-gray-300 hover:text-white"
+                  >
+                    <RotateCcw size={12} />
+                    Reset {curveChannel}
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* LUT */}
+            <div className="px-6 py-4 space-y-3">
+              <h3 className="text-sm font-medium text-gray-300">3D LUT</h3>
+              <div className="flex items-center gap-2 text-xs text-gray-400">
+                <select
+                  value={grade.lutId ?? ''}
+                  onChange={(e) => {
+                    pushState('Apply LUT')
+                    update({ lutId: e.target.value || undefined })
+                  }}
+                  className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+                >
+                  <option value="">None</option>
+                  {luts.map(lut => (
+                    <option key={lut.id} value={lut.id}>{lut.name} ({lut.size}³)</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex items-center gap-1 px-2 py-1 rounded border border-gray-600 text-gray-300 hover:text-white"
+                >
+                  <Upload size={12} />
+                  Import .cube
+                </button>
+                <button
+                  onClick={() => selectedLUT && removeLUT(selectedLUT.id)}
+                  disabled={!selectedLUT}
+                  className="p-1.5 rounded border border-gray-600 text-gray-300 hover:text-white disabled:opacity-40"
+                  title="Remove this LUT from the project"
+                >
+                  <Trash2 size={12} />
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".cube"
+                  onChange={handleImport}
+                  className="hidden"
+                />
+              </div>
+              {lutError && <p className="text-xs text-red-400">{lutError}</p>}
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                <span className="w-20">Intensity</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={grade.lutIntensity}
+                  onChange={(e) => update({ lutIntensity: Number(e.target.value) })}
+                  onDoubleClick={() => update({ lutIntensity: 1 })}
+                  {...sliderHistory('LUT intensity')}
+                  disabled={!selectedLUT}
+                  className="flex-1"
+                  title="Double-click to reset"
+                />
+                <span className="w-12 text-right text-white tabular-nums">{Math.round(grade.lutIntensity * 100)}%</span>
+              </label>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface CurveEditorProps {
+  points: CurvePoint[]
+  stroke: string
+  onBegin: () => void
+  onEnd: () => void
+  onChange: (points: CurvePoint[]) => void
+}
+
+const CURVE_SIZE = 200
+// Grab distance for an existing point, in unit curve space
+const HIT_RADIUS = 0.04
+// Interior points keep this far from their neighbours
+const MIN_GAP = 0.01
+const CURVE_SAMPLES = 64
+
+const clampUnit = (v: number) => Math.min(1, Math.max(0, v))
+
+function CurveEditor({ points, stroke, onBegin, onEnd, onChange }: CurveEditorProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+
+  const toPoint = (e: React.PointerEvent<SVGSVGElement> | React.MouseEvent<SVGSVGElement>): CurvePoint => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: clampUnit((e.clientX - rect.left) / rect.width),
+      y: clampUnit(1 - (e.clientY - rect.top) / rect.height),
+    }
+  }
+  const hitTest = (p: CurvePoint) => points.findIndex(pt => Math.hypot(pt.x - p.x, pt.y - p.y) < HIT_RADIUS)
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const p = toPoint(e)
+    let index = hitTest(p)
+    onBegin()
+    if (index < 0) {
+      const next = [...points, p].sort((a, b) => a.x - b.x)
+      index = next.indexOf(p)
+      onChange(next)
+    }
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDragIndex(index)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return
+    const p = toPoint(e)
+    const last = points.length - 1
+    // End points slide vertically only; interior points stay between neighbours
+    const x = dragIndex === 0 || dragIndex === last
+      ? points[dragIndex].x
+      : Math.min(points[dragIndex + 1].x - MIN_GAP, Math.max(points[dragIndex - 1].x + MIN_GAP, p.x))
+    onChange(points.map((pt, i) => (i === dragIndex ? { x, y: p.y } : pt)))
+  }
+
+  const handlePointerUp = () => {
+    if (dragIndex === null) return
+    setDragIndex(null)
+    onEnd()
+  }
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const index = hitTest(toPoint(e))
+    if (index <= 0 || index >= points.length - 1) return
+    onBegin()
+    onChange(points.filter((_, i) => i !== index))
+    onEnd()
+  }
+
+  const path = Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) => {
+    const x = i / CURVE_SAMPLES
+    return `${i === 0 ? 'M' : 'L'}${x * CURVE_SIZE},${(1 - evaluateCurve(points, x)) * CURVE_SIZE}`
+  }).join(' ')
+
+  return (
+    <svg
+      width={CURVE_SIZE}
+      height={CURVE_SIZE}
+      className="bg-black rounded cursor-crosshair touch-none flex-shrink-0"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onLostPointerCapture={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+    >
+      {[0.25, 0.5, 0.75].map(t => (
+        <g key={t} stroke="#374151" strokeWidth={1}>
+          <line x1={t * CURVE_SIZE} y1={0} x2={t * CURVE_SIZE} y2={CURVE_SIZE} />
+          <line x1={0} y1={t * CURVE_SIZE} x2={CURVE_SIZE} y2={t * CURVE_SIZE} />
+        </g>
+      ))}
+      <line x1={0} y1={CURVE_SIZE} x2={CURVE_SIZE} y2={0} stroke="#4b5563" strokeDasharray="4 4" />
+      <path d={path} fill="none" stroke={stroke} strokeWidth={2} />
+      {points.map((pt, i) => (
+        <circle
+          key={i}
+          cx={pt.x * CURVE_SIZE}
+          cy={(1 - pt.y) * CURVE_SIZE}
+          r={dragIndex === i ? 5 : 4}
+          fill={stroke}
+          stroke="#000"
+        />
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,274 @@
+/**
+ * QA-001: Frame Defect Detection
+ * Scan one video clip for dropped, duplicated, frozen and black frames,
+ * list the hits with seek-on-click and mirror them as timeline markers
+ */
+
+import { useState, useCallback, useRef, useMemo } from 'react'
+import { useMediaStore } from '../../stores/mediaStore'
+import { useTimelineStore } from '../../stores/timelineStore'
+import { usePlaybackStore } from '../../stores/playbackStore'
+import { useProjectStore } from '../../stores/projectStore'
+import { detectFrameDefects } from '../../lib/frameDefectDetector'
+import { formatTimecode } from '../../lib/utils'
+import type { FrameDefect, FrameDefectType } from '../../types'
+import { ScanSearch, X, Play, Pause, AlertTriangle, Trash2 } from 'lucide-react'
+
+interface FrameDefectPanelProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+// Marker source used to replace previous scan results
+const MARKER_SOURCE = 'frame-defect'
+
+const DEFECT_TYPES: Record<FrameDefectType, { label: string; color: string }> = {
+  dropped: { label: 'Dropped', color: '#ef4444' },
+  duplicate: { label: 'Duplicate', color: '#eab308' },
+  frozen: { label: 'Frozen', color: '#60a5fa' },
+  black: { label: 'Black', color: '#9ca3af' },
+}
+
+const ALL_TYPES = Object.keys(DEFECT_TYPES) as FrameDefectType[]
+
+export function FrameDefectPanel({ isOpen, onClose }: FrameDefectPanelProps) {
+  const { files } = useMediaStore()
+  const { tracks, frameRate, setSourceMarkers } = useTimelineStore()
+  const { seek } = usePlaybackStore()
+  const { frameDefectReport, setFrameDefectReport } = useProjectStore()
+
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedClipId, setSelectedClipId] = useState<string | null>(null)
+  const [visibleTypes, setVisibleTypes] = useState<FrameDefectType[]>(ALL_TYPES)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Every video clip on the timeline
+  const videoClips = useMemo(() => {
+    return tracks.flatMap(track =>
+      track.clips.flatMap(clip => {
+        const media = files.find(f => f.id === clip.mediaId)
+        return media?.type === 'video' ? [{ clip, media, trackName: track.name }] : []
+      })
+    )
+  }, [tracks, files])
+
+  const selected = videoClips.find(c => c.clip.id === selectedClipId) ?? videoClips[0] ?? null
+
+  const runDetection = useCallback(async () => {
+    if (!selected) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsProcessing(true)
+    setProgress(0)
+    setError(null)
+
+    const { clip, media } = selected
+
+    try {
+      const report = await detectFrameDefects(
+        { clip, name: media.name, url: media.url },
+        {
+          frameRate,
+          startTime: clip.startTime,
+          endTime: clip.endTime,
+          onProgress: setProgress,
+          signal: controller.signal,
+        }
+      )
+      setFrameDefectReport(report)
+      setSourceMarkers(MARKER_SOURCE, report.defects.map(defect => ({
+        time: defect.time,
+        label: formatDefect(defect),
+        color: DEFECT_TYPES[defect.type].color,
+      })))
+    } catch (err) {
+      console.error('Frame defect detection failed:', err)
+      setError(err instanceof Error ? err.message : 'Detection failed')
+    }
+
+    abortRef.current = null
+    setIsProcessing(false)
+  }, [selected, frameRate, setFrameDefectReport, setSourceMarkers])
+
+  const stopDetection = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
+  const clearResults = useCallback(() => {
+    setFrameDefectReport(null)
+    setSourceMarkers(MARKER_SOURCE, [])
+  }, [setFrameDefectReport, setSourceMarkers])
+
+  const toggleType = useCallback((type: FrameDefectType) => {
+    setVisibleTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type])
+  }, [])
+
+  if (!isOpen) return null
+
+  const defects = frameDefectReport?.defects.filter(d => visibleTypes.includes(d.type)) ?? []
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1a1a1a] rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <ScanSearch size={20} className="text-[#ff5722]" />
+            <h2 className="text-lg font-semibold text-white">Frame Defects</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="px-6 py-3 border-b border-gray-700 flex flex-wrap items-center gap-4">
+          {videoClips.length > 0 ? (
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Clip:
+              <select
+                value={selected?.clip.id ?? ''}
+                onChange={e => setSelectedClipId(e.target.value)}
+                disabled={isProcessing}
+                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white max-w-[240px]"
+              >
+                {videoClips.map(({ clip, media, trackName }) => (
+                  <option key={clip.id} value={clip.id}>{trackName}: {media.name}</option>
+                ))}
+              </select>
+            </label>
+          ) : (
+            <div className="flex items-center gap-2 text-xs text-yellow-400">
+              <AlertTriangle size={14} />
+              Place a video clip on the timeline to scan
+            </div>
+          )}
+
+          <div className="flex-1" />
+
+          {frameDefectReport && !isProcessing && (
+            <button
+              onClick={clearResults}
+              className="px-3 py-1.5 bg-gray-700 text-gray-300 rounded flex items-center gap-2 text-sm hover:bg-gray-600"
+              title="Clear results and their timeline markers"
+            >
+              <Trash2 size={14} />
+              Clear
+            </button>
+          )}
+
+          {isProcessing ? (
+            <button
+              onClick={stopDetection}
+              className="px-4 py-1.5 bg-red-600 text-white rounded flex items-center gap-2 text-sm"
+            >
+              <Pause size={14} />
+              Stop ({progress.toFixed(0)}%)
+            </button>
+          ) : (
+            <button
+              onClick={runDetection}
+              disabled={!selected}
+              className="px-4 py-1.5 bg-[#ff5722] text-white rounded flex items-center gap-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Play size={14} />
+              Scan clip
+            </button>
+          )}
+        </div>
+
+        {isProcessing && (
+          <div className="px-6 py-2 border-b border-gray-700">
+            <div className="h-1 bg-gray-800 rounded">
+              <div className="h-1 bg-[#ff5722] rounded" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="px-6 py-2 text-sm text-red-400 border-b border-gray-700">{error}</div>
+        )}
+
+        {/* Summary + filters */}
+        {frameDefectReport && (
+          <div className="px-6 py-3 border-b border-gray-700 flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-gray-400 mr-2">
+              {frameDefectReport.mediaName} • {frameDefectReport.analyzedFrames} frames
+            </span>
+            {ALL_TYPES.map(type => {
+              const count = frameDefectReport.defects.filter(d => d.type === type).length
+              const active = visibleTypes.includes(type)
+              return (
+                <button
+                  key={type}
+                  onClick={() => toggleType(type)}
+                  className={`px-2 py-1 rounded flex items-center gap-1.5 ${active ? 'bg-gray-700 text-white' : 'bg-gray-800 text-gray-500'}`}
+                >
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: DEFECT_TYPES[type].color }} />
+                  {DEFECT_TYPES[type].label} ({count})
+                </button>
+              )
+            })}
+          </div>
+        )}
+
+        {/* Results */}
+        <div className="flex-1 overflow-auto">
+          {!frameDefectReport ? (
+            <div className="flex items-center justify-center h-48 text-gray-500 text-sm text-center px-6">
+              Compares every frame with the previous one to find dropped, duplicated,
+              frozen and black frames. Hits are added as timeline markers.
+            </div>
+          ) : defects.length === 0 ? (
+            <div className="px-6 py-6 text-sm text-gray-500">No defects detected</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-[#252525] sticky top-0">
+                <tr>
+                  <th className="text-left px-6 py-2 text-gray-400 font-medium">Defect</th>
+                  <th className="text-left px-4 py-2 text-gray-400 font-medium">Timecode</th>
+                  <th className="text-right px-4 py-2 text-gray-400 font-medium">Frame</th>
+                  <th className="text-right px-4 py-2 text-gray-400 font-medium">Frames</th>
+                  <th className="text-right px-6 py-2 text-gray-400 font-medium">Diff</th>
+                </tr>
+              </thead>
+              <tbody>
+                {defects.map((defect, idx) => (
+                  <tr
+                    key={`${defect.type}-${defect.frame}`}
+                    onClick={() => seek(defect.time)}
+                    className={`cursor-pointer hover:bg-[#ff5722]/10 ${idx % 2 === 0 ? 'bg-[#1a1a1a]' : 'bg-[#222]'}`}
+                  >
+                    <td className="px-6 py-1.5" style={{ color: DEFECT_TYPES[defect.type].color }}>
+                      {DEFECT_TYPES[defect.type].label}
+                    </td>
+                    <td className="px-4 py-1.5 text-gray-300 font-mono">{formatTimecode(defect.time, frameDefectReport.frameRate)}</td>
+                    <td className="px-4 py-1.5 text-right text-gray-300 font-mono">{defect.frame}</td>
+                    <td className="px-4 py-1.5 text-right text-gray-300 font-mono">{defect.frames}</td>
+                    <td className="px-6 py-1.5 text-right text-gray-300 font-mono">{defect.score.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function formatDefect(defect: FrameDefect): string {
+  switch (defect.type) {
+    case 'dropped':
+      return `Dropped ~${defect.frames} frame${defect.frames === 1 ? '' : 's'}`
+    case 'duplicate':
+      return defect.frames === 1 ? 'Duplicate frame' : `${defect.frames} duplicate frames`
+    case 'frozen':
+      return `Frozen for ${defect.frames} frames`
+    case 'black':
+      return `Black for ${defect.frames} frame${defect.frames === 1 ? '' : 's'}`
+  }
+}
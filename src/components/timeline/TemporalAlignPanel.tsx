@@ -0,0 +1,346 @@
+/**
+ * ALIGN-001: Temporal Alignment
+ * Match A/B videos by content (frame fingerprints + audio), report dropped and
+ * duplicated frames, and shift or retime the B clip to line up with A
+ */
+
+import { useState, useCallback, useRef, useMemo } from 'react'
+import { useMediaStore } from '../../stores/mediaStore'
+import { useTimelineStore } from '../../stores/timelineStore'
+import { usePlaybackStore } from '../../stores/playbackStore'
+import { useHistoryStore } from '../../stores/historyStore'
+import { alignVideosByContent, type TemporalAlignmentResult } from '../../lib/autoAlign'
+import { formatTimecode } from '../../lib/utils'
+import { Clock, X, Play, Pause, AlertTriangle, MoveHorizontal, Gauge } from 'lucide-react'
+
+interface TemporalAlignPanelProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+// Seconds of A analysed per run
+const DURATION_OPTIONS = [5, 10, 20, 40]
+
+// Below this rate difference a retime is not worth offering
+const RETIME_TOLERANCE = 0.002
+
+export function TemporalAlignPanel({ isOpen, onClose }: TemporalAlignPanelProps) {
+  const { files } = useMediaStore()
+  const { tracks, frameRate, alignClipToReference } = useTimelineStore()
+  const { seek } = usePlaybackStore()
+  const { pushState } = useHistoryStore()
+
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [stage, setStage] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<TemporalAlignmentResult | null>(null)
+  const [duration, setDuration] = useState(10)
+  const [maxOffset, setMaxOffset] = useState(5)
+  const [useAudio, setUseAudio] = useState(true)
+  const [applied, setApplied] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // First clip of each comparison track
+  const clips = useMemo(() => {
+    const clipA = tracks.find(t => t.type === 'a')?.clips[0]
+    const clipB = tracks.find(t => t.type === 'b')?.clips[0]
+    if (!clipA || !clipB) return null
+
+    const mediaA = files.find(f => f.id === clipA.mediaId)
+    const mediaB = files.find(f => f.id === clipB.mediaId)
+    if (mediaA?.type !== 'video' || mediaB?.type !== 'video') return null
+
+    return { clipA, clipB, mediaA, mediaB }
+  }, [tracks, files])
+
+  const runAlignment = useCallback(async () => {
+    if (!clips) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsProcessing(true)
+    setProgress(0)
+    setError(null)
+    setResult(null)
+    setApplied(null)
+
+    // B media time currently shown alongside A's in-point
+    const { clipA, clipB } = clips
+    const startB = clipB.inPoint + (clipA.startTime - clipB.startTime) * (clipB.speed || 1)
+
+    try {
+      const alignment = await alignVideosByContent(clips.mediaA.url, clips.mediaB.url, {
+        frameRate,
+        startA: clipA.inPoint,
+        startB: Math.max(0, startB),
+        duration,
+        maxOffsetSeconds: maxOffset,
+        useAudio,
+        onProgress: (p, s) => {
+          setProgress(p)
+          setStage(s)
+        },
+        signal: controller.signal,
+      })
+      setResult(alignment)
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Temporal alignment failed:', err)
+        setError(err instanceof Error ? err.message : 'Alignment failed')
+      }
+    }
+
+    abortRef.current = null
+    setIsProcessing(false)
+  }, [clips, frameRate, duration, maxOffset, useAudio])
+
+  const stopAlignment = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
+  const applyShift = useCallback(() => {
+    if (!clips || !result) return
+    pushState()
+    if (!alignClipToReference(clips.clipB.id, clips.clipA.id, result.offsetSeconds, 1, clips.mediaB.duration)) {
+      setError('B has no frames left at this offset')
+      return
+    }
+    setApplied(`Shifted B by ${formatOffset(result.offsetSeconds)}`)
+  }, [clips, result, pushState, alignClipToReference])
+
+  const applyRetime = useCallback(() => {
+    if (!clips || !result) return
+    pushState()
+    if (!alignClipToReference(clips.clipB.id, clips.clipA.id, result.retimeOffsetSeconds, result.speedRatio, clips.mediaB.duration)) {
+      setError('B has no frames left at this offset')
+      return
+    }
+    setApplied(`Shifted and retimed B to ${result.speedRatio.toFixed(4)}x`)
+  }, [clips, result, pushState, alignClipToReference])
+
+  // Seek the timeline to an A media time
+  const seekToMediaTimeA = useCallback((timeA: number) => {
+    if (!clips) return
+    const { clipA } = clips
+    seek(clipA.startTime + (timeA - clipA.inPoint) / (clipA.speed || 1))
+  }, [clips, seek])
+
+  if (!isOpen) return null
+
+  const drops = result?.events.filter(e => e.type === 'drop') ?? []
+  const duplicates = result?.events.filter(e => e.type === 'duplicate') ?? []
+  const suggestRetime = result !== null && Math.abs(result.speedRatio - 1) > RETIME_TOLERANCE
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1a1a1a] rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <Clock size={20} className="text-[#ff5722]" />
+            <h2 className="text-lg font-semibold text-white">Temporal Alignment</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="px-6 py-3 border-b border-gray-700 flex flex-wrap items-center gap-4">
+          {clips ? (
+            <div className="text-xs text-gray-400">
+              <span className="text-orange-400">{clips.mediaA.name}</span>
+              {' vs '}
+              <span className="text-lime-400">{clips.mediaB.name}</span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-xs text-yellow-400">
+              <AlertTriangle size={14} />
+              Place video clips on tracks A and B to align
+            </div>
+          )}
+
+          <div className="flex-1" />
+
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Analyse:
+            <select
+              value={duration}
+              onChange={e => setDuration(Number(e.target.value))}
+              disabled={isProcessing}
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+            >
+              {DURATION_OPTIONS.map(d => (
+                <option key={d} value={d}>{d}s</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Search ±
+            <input
+              type="number"
+              min={0.5}
+              max={60}
+              step={0.5}
+              value={maxOffset}
+              onChange={e => setMaxOffset(Math.max(0.5, Number(e.target.value)))}
+              disabled={isProcessing}
+              className="w-16 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+            />
+            s
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={useAudio}
+              onChange={e => setUseAudio(e.target.checked)}
+              disabled={isProcessing}
+            />
+            Audio
+          </label>
+
+          {isProcessing ? (
+            <button
+              onClick={stopAlignment}
+              className="px-4 py-1.5 bg-red-600 text-white rounded flex items-center gap-2 text-sm"
+            >
+              <Pause size={14} />
+              Stop ({progress.toFixed(0)}%)
+            </button>
+          ) : (
+            <button
+              onClick={runAlignment}
+              disabled={!clips}
+              className="px-4 py-1.5 bg-[#ff5722] text-white rounded flex items-center gap-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Play size={14} />
+              Find alignment
+            </button>
+          )}
+        </div>
+
+        {isProcessing && (
+          <div className="px-6 py-2 border-b border-gray-700">
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>{stage}</span>
+              <span>{progress.toFixed(0)}%</span>
+            </div>
+            <div className="h-1 bg-gray-800 rounded">
+              <div className="h-1 bg-[#ff5722] rounded" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="px-6 py-2 text-sm text-red-400 border-b border-gray-700">{error}</div>
+        )}
+
+        {/* Result */}
+        <div className="flex-1 overflow-auto">
+          {!result ? (
+            <div className="flex items-center justify-center h-48 text-gray-500 text-sm text-center px-6">
+              Fingerprints frames of A and B (and correlates audio) to find the offset,
+              dropped and duplicated frames
+            </div>
+          ) : (
+            <>
+              <div className="px-6 py-4 border-b border-gray-700 grid grid-cols-4 gap-4 text-xs">
+                <div>
+                  <div className="text-gray-500">Offset (B − A)</div>
+                  <div className="text-white font-mono">{formatOffset(result.offsetSeconds)}</div>
+                  <div className="text-gray-500 font-mono">{(result.offsetSeconds * frameRate).toFixed(1)} frames</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Rate B / A</div>
+                  <div className={`font-mono ${suggestRetime ? 'text-yellow-400' : 'text-white'}`}>
+                    {result.speedRatio.toFixed(4)}x
+                  </div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Confidence</div>
+                  <div className={`font-mono ${result.confidence > 0.8 ? 'text-green-400' : result.confidence > 0.5 ? 'text-yellow-400' : 'text-red-400'}`}>
+                    {(result.confidence * 100).toFixed(0)}%
+                  </div>
+                  <div className="text-gray-500">{result.method}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Drops / Duplicates</div>
+                  <div className="text-white font-mono">
+                    {drops.reduce((s, e) => s + e.frames, 0)} / {duplicates.reduce((s, e) => s + e.frames, 0)}
+                  </div>
+                  <div className="text-gray-500">{result.matchedFrames} frames matched</div>
+                </div>
+                {result.videoOffsetSeconds !== null && result.audioOffsetSeconds !== null && (
+                  <div className="col-span-4 text-gray-500">
+                    Video: {formatOffset(result.videoOffsetSeconds)} • Audio: {formatOffset(result.audioOffsetSeconds)}
+                    {result.audioConfidence !== null && ` (${(result.audioConfidence * 100).toFixed(0)}%)`}
+                  </div>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="px-6 py-3 border-b border-gray-700 flex items-center gap-3">
+                <button
+                  onClick={applyShift}
+                  className="px-3 py-1.5 bg-[#ff5722] text-white rounded flex items-center gap-2 text-sm"
+                >
+                  <MoveHorizontal size={14} />
+                  Shift B
+                </button>
+                <button
+                  onClick={applyRetime}
+                  disabled={!suggestRetime}
+                  className="px-3 py-1.5 bg-gray-700 text-gray-300 rounded flex items-center gap-2 text-sm hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={suggestRetime ? 'Shift and change B speed to match A' : 'B already runs at the same rate as A'}
+                >
+                  <Gauge size={14} />
+                  Shift + retime B
+                </button>
+                {applied && <span className="text-xs text-green-400">{applied}</span>}
+              </div>
+
+              {/* Events */}
+              {result.events.length === 0 ? (
+                <div className="px-6 py-6 text-sm text-gray-500">No dropped or duplicated frames detected</div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-[#252525] sticky top-0">
+                    <tr>
+                      <th className="text-left px-6 py-2 text-gray-400 font-medium">Event</th>
+                      <th className="text-left px-4 py-2 text-gray-400 font-medium">A time</th>
+                      <th className="text-left px-4 py-2 text-gray-400 font-medium">B time</th>
+                      <th className="text-right px-6 py-2 text-gray-400 font-medium">Frames</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.events.map((event, idx) => (
+                      <tr
+                        key={`${event.type}-${event.timeA}`}
+                        onClick={() => seekToMediaTimeA(event.timeA)}
+                        className={`cursor-pointer hover:bg-[#ff5722]/10 ${idx % 2 === 0 ? 'bg-[#1a1a1a]' : 'bg-[#222]'}`}
+                      >
+                        <td className={`px-6 py-1.5 ${event.type === 'drop' ? 'text-red-400' : 'text-yellow-400'}`}>
+                          {event.type === 'drop' ? 'Dropped in B' : 'Duplicated in B'}
+                        </td>
+                        <td className="px-4 py-1.5 text-gray-300 font-mono">{formatTimecode(event.timeA, frameRate)}</td>
+                        <td className="px-4 py-1.5 text-gray-300 font-mono">{formatTimecode(event.timeB, frameRate)}</td>
+                        <td className="px-6 py-1.5 text-right text-gray-300 font-mono">{event.frames}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function formatOffset(seconds: number): string {
+  return `${seconds >= 0 ? '+' : '−'}${Math.abs(seconds).toFixed(3)}s`
+}
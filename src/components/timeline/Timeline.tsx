@@ -4,14 +4,22 @@ import { useTimelineStore } from '../../stores/timelineStore'
 import { usePlaybackStore } from '../../stores/playbackStore'
 import { useMediaStore } from '../../stores/mediaStore'
 import { useHistoryStore } from '../../stores/historyStore'
+import { useKeyframeStore } from '../../stores/keyframeStore'
 import { useTimelineDrag, useTimelineTrim } from '../../hooks/useTimelineDrag'
 import { useEdgeAutoScroll } from '../../hooks/useEdgeAutoScroll'
 import { useMarqueeSelect } from '../../hooks/useMarqueeSelect'
 import { formatTime, cn } from '../../lib/utils'
+import { getVolumeKeyframes } from '../../lib/audioMix'
 import { extractFilmstrip, getCachedFilmstrip, type FilmstripData } from '../../lib/filmstripExtractor'
 import { Button } from '../ui'
 import { ClipContextMenu } from './ClipContextMenu'
+import { TemporalAlignPanel } from './TemporalAlignPanel'
+import { FrameDefectPanel } from './FrameDefectPanel'
+import { TimelineInterchangeDialog } from './TimelineInterchangeDialog'
+import { AudioMixerPanel } from './AudioMixerPanel'
+import { ColorGradePanel } from './ColorGradePanel'
 import { TimelineClip } from './TimelineClip'
+import { TimelineTextElement } from './TimelineTextElement'
 import { MEDIA_DRAG_TYPE, type MediaDragData } from '../media/MediaLibrary'
 import {
   Play,
@@ -40,6 +48,11 @@ import {
   Plus,
   Type,
   Trash2,
+  Clock,
+  ScanSearch,
+  ArrowDownUp,
+  SlidersHorizontal,
+  Palette,
 } from 'lucide-react'
 import type { MediaType } from '../../types'
 
@@ -50,6 +63,16 @@ export function Timeline() {
   const [openTrackSettings, setOpenTrackSettings] = useState<string | null>(null)
   // Simplified timeline - hide advanced tools by default (Cognitive Load reduction)
   const [showAdvancedTools, setShowAdvancedTools] = useState(false)
+  // ALIGN-001: Temporal alignment panel
+  const [showTemporalAlign, setShowTemporalAlign] = useState(false)
+  // QA-001: Frame defect panel
+  const [showFrameDefects, setShowFrameDefects] = useState(false)
+  // INTERCHANGE-001: EDL / FCPXML / OTIO import and export
+  const [showInterchange, setShowInterchange] = useState(false)
+  // MIX-001: Audio mixer
+  const [showMixer, setShowMixer] = useState(false)
+  // COLOR-001: Colour grade panel
+  const [showColorGrade, setShowColorGrade] = useState(false)
   // TL-013: Context menu state
   const [contextMenu, setContextMenu] = useState<{
     x: number
@@ -92,6 +115,7 @@ export function Timeline() {
     zoomIn,
     zoomOut,
     toggleTrackMute,
+    toggleTrackSolo,
     toggleTrackLock,
     selectClip,
     setTrackAcceptedTypes,
@@ -134,10 +158,18 @@ export function Timeline() {
     removeTrack,
     // Overlap detection
     getOverlappingClips,
+    // TEXT-001: Text elements
+    textElements,
+    selectedTextElementId,
+    addTextElement,
+    removeTextElement,
+    selectTextElement,
   } = useTimelineStore()
 
   const { getFile, files } = useMediaStore()
   const { pushState } = useHistoryStore()
+  // MIX-001: Clip volume envelopes mark shaped video clips
+  const clipKeyframes = useKeyframeStore((state) => state.clipKeyframes)
 
   const pixelsPerSecond = 50 * zoom
   const timelineWidth = duration * pixelsPerSecond
@@ -421,6 +453,17 @@ export function Timeline() {
         return
       }
 
+      // TEXT-001: Delete selected text element
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedTextElementId) {
+        const element = textElements.find(el => el.id === selectedTextElementId)
+        const track = tracks.find(t => t.id === element?.trackId)
+        if (element && !track?.locked) {
+          pushState()
+          removeTextElement(element.id)
+        }
+        return
+      }
+
       // Delete selected clip(s)
       if ((e.key === 'Delete' || e.key === 'Backspace') && (selectedClipId || selectedClipIds.length > 0)) {
         const clipsToDelete = selectedClipIds.length > 0 ? selectedClipIds : (selectedClipId ? [selectedClipId] : [])
@@ -509,7 +552,7 @@ export function Timeline() {
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [selectedClipId, selectedClipIds, tracks, removeClip, pushState, splitClip, splitAndKeepLeft, splitAndKeepRight, duplicateClip, currentTime, copyClip, pasteClip, selectAllClips, clearSelection, toggleSnap, toggleRipple])
+  }, [selectedClipId, selectedClipIds, selectedTextElementId, textElements, removeTextElement, tracks, removeClip, pushState, splitClip, splitAndKeepLeft, splitAndKeepRight, duplicateClip, currentTime, copyClip, pasteClip, selectAllClips, clearSelection, toggleSnap, toggleRipple])
 
   // TL-015: Generate adaptive time markers based on zoom level
   const timeMarkers = useMemo(() => {
@@ -796,6 +839,51 @@ export function Timeline() {
                 >
                   <ArrowRightLeft className="w-3.5 h-3.5" />
                 </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowTemporalAlign(true)}
+                  title="Align A/B by content (offset, drops, duplicates)"
+                  className="h-7 w-7"
+                >
+                  <Clock className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowFrameDefects(true)}
+                  title="Detect dropped, duplicated, frozen and black frames"
+                  className="h-7 w-7"
+                >
+                  <ScanSearch className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowInterchange(true)}
+                  title="Import / export EDL, FCPXML or OpenTimelineIO"
+                  className="h-7 w-7"
+                >
+                  <ArrowDownUp className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowMixer(true)}
+                  title="Audio mixer: track volume, pan and solo, clip gain and fades"
+                  className="h-7 w-7"
+                >
+                  <SlidersHorizontal className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowColorGrade(true)}
+                  title="Colour grade: lift / gamma / gain, curves and .cube LUTs for the selected clip"
+                  className="h-7 w-7"
+                >
+                  <Palette className="w-3.5 h-3.5" />
+                </Button>
               </div>
             </>
           )}
@@ -830,6 +918,20 @@ export function Timeline() {
                   {track.name}
                 </span>
                 <div className="flex gap-1">
+                  {/* TEXT-001: New text element at the playhead */}
+                  {track.type === 'text' && (
+                    <button
+                      onClick={() => {
+                        pushState()
+                        addTextElement(track.id, currentTime)
+                      }}
+                      disabled={track.locked}
+                      className="p-1 hover:bg-surface disabled:opacity-30"
+                      title="Add text at playhead"
+                    >
+                      <Plus className="w-3 h-3 text-purple-400" />
+                    </button>
+                  )}
                   <button
                     data-track-settings
                     onClick={() => setOpenTrackSettings(openTrackSettings === track.id ? null : track.id)}
@@ -852,6 +954,19 @@ export function Timeline() {
                       <Volume2 className="w-3 h-3 text-text-muted" />
                     )}
                   </button>
+                  {/* MIX-001: Solo */}
+                  {track.type !== 'text' && (
+                    <button
+                      onClick={() => toggleTrackSolo(track.id)}
+                      className={cn(
+                        "p-1 hover:bg-surface text-[10px] leading-3 w-5 font-semibold",
+                        track.solo ? "text-warning" : "text-text-muted"
+                      )}
+                      title={track.solo ? 'Unsolo' : 'Solo'}
+                    >
+                      S
+                    </button>
+                  )}
                   <button
                     onClick={() => toggleTrackLock(track.id)}
                     className="p-1 hover:bg-surface"
@@ -1044,7 +1159,10 @@ export function Timeline() {
                   }}
                   title={`${marker.label} - ${formatTime(marker.time)}`}
                 >
-                  <Flag className="w-3 h-3 text-secondary fill-secondary" />
+                  <Flag
+                    className="w-3 h-3 text-secondary fill-secondary"
+                    style={marker.color ? { color: marker.color, fill: marker.color } : undefined}
+                  />
                   <button
                     className="absolute -top-1 -right-1 opacity-0 group-hover:opacity-100 p-0.5 bg-error rounded-full"
                     onClick={(e) => {
@@ -1084,15 +1202,21 @@ export function Timeline() {
                   </div>
                 )}
                 {/* Clips - using memoized component for performance */}
-                {track.clips.map((clip) => {
+                {track.clips.map((clip, _, clips) => {
                   const media = getFile(clip.mediaId)
                   const clipWidth = (clip.endTime - clip.startTime) * pixelsPerSecond
                   const visualStartTime = getClipPosition(clip.id, clip.startTime)
                   const clipLeft = visualStartTime * pixelsPerSecond
                   const isBeingDragged = isClipDragging(clip.id)
                   const isSelected = selectedClipId === clip.id || selectedClipIds.includes(clip.id)
-                  // Overlap detection
-                  const overlappingClips = getOverlappingClips(track.id, clip.startTime, clip.endTime, clip.id)
+                  // SUB-001: Subtitle files on a text track share it as parallel lanes
+                  const subtitleClips = track.type === 'text'
+                    ? clips.filter(c => getFile(c.mediaId)?.type === 'subtitle')
+                    : []
+                  const laneIndex = subtitleClips.indexOf(clip)
+                  const lane = laneIndex >= 0 ? { index: laneIndex, count: subtitleClips.length } : undefined
+                  // Overlap detection (lanes overlap by design)
+                  const overlappingClips = lane ? [] : getOverlappingClips(track.id, clip.startTime, clip.endTime, clip.id)
                   const hasOverlap = overlappingClips.length > 0
 
                   return (
@@ -1111,6 +1235,9 @@ export function Timeline() {
                       mediaThumbnail={media?.thumbnail}
                       mediaType={media?.type}
                       waveformPeaks={media?.waveformPeaks}
+                      hasVolumeEnvelope={getVolumeKeyframes(clipKeyframes.get(clip.id)).length > 0}
+                      subtitleCues={media?.subtitles?.cues}
+                      lane={lane}
                       filmstrip={filmstrips.get(clip.mediaId) || null}
                       filmstripLoading={filmstripLoading.has(clip.mediaId)}
                       showFilmstrip={showFilmstrip}
@@ -1137,6 +1264,23 @@ export function Timeline() {
                     />
                   )
                 })}
+                {/* TEXT-001: Captions and titles */}
+                {track.type === 'text' && textElements
+                  .filter(element => element.trackId === track.id)
+                  .map(element => (
+                    <TimelineTextElement
+                      key={element.id}
+                      element={element}
+                      pixelsPerSecond={pixelsPerSecond}
+                      trackLocked={track.locked}
+                      isSelected={selectedTextElementId === element.id}
+                      onSelect={selectTextElement}
+                      onDelete={(id) => {
+                        pushState()
+                        removeTextElement(id)
+                      }}
+                    />
+                  ))}
               </div>
             ))}
 
@@ -1188,6 +1332,19 @@ export function Timeline() {
         />
       )}
 
+      {/* ALIGN-001: Temporal alignment */}
+      <TemporalAlignPanel isOpen={showTemporalAlign} onClose={() => setShowTemporalAlign(false)} />
+
+      {/* QA-001: Frame defect detection */}
+      <FrameDefectPanel isOpen={showFrameDefects} onClose={() => setShowFrameDefects(false)} />
+
+      {/* INTERCHANGE-001: Timeline import / export */}
+      <TimelineInterchangeDialog isOpen={showInterchange} onClose={() => setShowInterchange(false)} />
+
+      {/* MIX-001: Audio mixer */}
+      <AudioMixerPanel isOpen={showMixer} onClose={() => setShowMixer(false)} />
+      <ColorGradePanel isOpen={showColorGrade} onClose={() => setShowColorGrade(false)} />
+
 
     </div>
   )
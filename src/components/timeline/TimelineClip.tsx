@@ -9,7 +9,9 @@ import { cn } from '../../lib/utils'
 import { Trash2, AlertTriangle } from 'lucide-react'
 import { ClipWaveform } from './ClipWaveform'
 import { ClipFilmstrip, FilmstripLoading } from './ClipFilmstrip'
-import type { TimelineClip as ClipType } from '../../types'
+import { ClipSubtitleCues } from './ClipSubtitleCues'
+import { ClipVolumeEnvelope } from './ClipVolumeEnvelope'
+import type { TimelineClip as ClipType, SubtitleCue } from '../../types'
 import type { FilmstripData } from '../../lib/filmstripExtractor'
 
 interface TimelineClipProps {
@@ -26,6 +28,10 @@ interface TimelineClipProps {
   mediaThumbnail?: string
   mediaType?: string
   waveformPeaks?: number[]
+  hasVolumeEnvelope?: boolean // MIX-001
+  // SUB-001: Subtitle cues, and the lane of a subtitle file on a text track
+  subtitleCues?: SubtitleCue[]
+  lane?: { index: number; count: number }
   // FILMSTRIP-001, FILMSTRIP-002: Filmstrip support
   filmstrip?: FilmstripData | null
   filmstripLoading?: boolean
@@ -55,6 +61,9 @@ export const TimelineClip = memo(function TimelineClip({
   mediaThumbnail,
   mediaType,
   waveformPeaks,
+  hasVolumeEnvelope = false,
+  subtitleCues,
+  lane,
   filmstrip,
   filmstripLoading,
   showFilmstrip = true,
@@ -92,15 +101,20 @@ export const TimelineClip = memo(function TimelineClip({
     onDelete(clip.id)
   }, [onDelete, clip.id])
 
-  const bgColorClass = trackType === 'a'
+  // SUB-001: The first two subtitle lanes take the A and B colours
+  const colorType = lane?.index === 0 ? 'a' : lane?.index === 1 ? 'b' : trackType
+
+  const bgColorClass = colorType === 'a'
     ? 'bg-orange-500/30 border border-orange-500/60'
-    : trackType === 'b'
+    : colorType === 'b'
       ? 'bg-lime-400/30 border border-lime-400/60'
       : 'bg-gray-500/30 border border-gray-500/60'
 
-  const waveformColor = trackType === 'a'
+  const hasAudioShaping = !!(clip.fadeIn || clip.fadeOut || clip.gain || hasVolumeEnvelope)
+
+  const waveformColor = colorType === 'a'
     ? 'rgba(249, 115, 22, 0.8)'
-    : trackType === 'b'
+    : colorType === 'b'
       ? 'rgba(163, 230, 53, 0.8)'
       : 'rgba(156, 163, 175, 0.8)'
 
@@ -108,7 +122,8 @@ export const TimelineClip = memo(function TimelineClip({
     <div
       data-clip
       className={cn(
-        'absolute top-1 bottom-1 overflow-hidden group/clip',
+        'absolute overflow-hidden group/clip',
+        !lane && 'top-1 bottom-1',
         trackLocked ? 'cursor-not-allowed' : 'cursor-grab active:cursor-grabbing',
         bgColorClass,
         isSelected && 'ring-2 ring-accent',
@@ -120,6 +135,10 @@ export const TimelineClip = memo(function TimelineClip({
       style={{
         left: clipLeft,
         width: Math.max(clipWidth, 20),
+        ...(lane && {
+          top: `calc(${(lane.index / lane.count) * 100}% + 2px)`,
+          height: `calc(${100 / lane.count}% - 4px)`,
+        }),
       }}
       onClick={handleClick}
       onMouseDown={handleMouseDown}
@@ -164,6 +183,26 @@ export const TimelineClip = memo(function TimelineClip({
         </div>
       )}
 
+      {/* MIX-001: Volume envelope and fades; on video clips only while selected or once shaped */}
+      {(mediaType === 'audio' || (mediaType === 'video' && (isSelected || hasAudioShaping))) && (
+        <ClipVolumeEnvelope
+          clip={clip}
+          width={clipWidth}
+          editable={isSelected && !trackLocked}
+          color={waveformColor}
+        />
+      )}
+
+      {/* SUB-001: Cue blocks for subtitle clips */}
+      {mediaType === 'subtitle' && subtitleCues && (
+        <ClipSubtitleCues
+          cues={subtitleCues}
+          inPoint={clip.inPoint}
+          outPoint={clip.outPoint}
+          color={waveformColor}
+        />
+      )}
+
       <div className="absolute inset-0 p-1 flex items-start justify-between z-10">
         <div className="flex items-center gap-1">
           {/* Overlap warning icon */}
@@ -0,0 +1,318 @@
+/**
+ * INTERCHANGE-001: Timeline import / export
+ * Bring in selects cut in Premiere or Resolve as EDL, FCPXML or
+ * OpenTimelineIO, relink their media to the library by file name, and
+ * write the current timeline back out in the same formats
+ */
+
+import { useState, useMemo, useRef } from 'react'
+import { useMediaStore } from '../../stores/mediaStore'
+import { useTimelineStore } from '../../stores/timelineStore'
+import { useHistoryStore } from '../../stores/historyStore'
+import { usePersistenceStore } from '../../stores/persistenceStore'
+import {
+  INTERCHANGE_ACCEPT,
+  INTERCHANGE_EXTENSIONS,
+  INTERCHANGE_FORMAT_LABELS,
+  buildInterchangeTimeline,
+  detectInterchangeFormat,
+  matchMediaFile,
+  parseInterchange,
+  serializeInterchange,
+} from '../../lib/timelineInterchange'
+import { downloadBlob } from '../../lib/screenshotExport'
+import type { InterchangeFormat } from '../../types'
+import { ArrowDownUp, X, Upload, Download, FolderOpen, Check, AlertTriangle } from 'lucide-react'
+
+interface TimelineInterchangeDialogProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const FORMATS = Object.keys(INTERCHANGE_FORMAT_LABELS) as InterchangeFormat[]
+
+// EDL timecodes carry no frame rate, so the user picks it
+const EDL_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60]
+
+const EXPORT_NOTES: Record<InterchangeFormat, string> = {
+  edl: 'First picture track and up to four audio tracks. Text tracks are not included.',
+  fcpxml: 'First picture track as the primary storyline, other tracks as connected clips.',
+  otio: 'All clip tracks with speed changes and markers. Text tracks are not included.',
+}
+
+interface ImportSource {
+  fileName: string
+  content: string
+  format: InterchangeFormat
+}
+
+export function TimelineInterchangeDialog({ isOpen, onClose }: TimelineInterchangeDialogProps) {
+  const { files, addFile } = useMediaStore()
+  const { tracks, markers, frameRate, importTimeline } = useTimelineStore()
+  const { pushState } = useHistoryStore()
+  const projectName = usePersistenceStore((state) => state.projectMetadata?.name)
+
+  const [exportFormat, setExportFormat] = useState<InterchangeFormat>('otio')
+  const [source, setSource] = useState<ImportSource | null>(null)
+  const [edlFrameRate, setEdlFrameRate] = useState(frameRate)
+  const [overrides, setOverrides] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [isAddingFiles, setIsAddingFiles] = useState(false)
+  const timelineInputRef = useRef<HTMLInputElement>(null)
+  const mediaInputRef = useRef<HTMLInputElement>(null)
+
+  const parsed = useMemo(() => {
+    if (!source) return null
+    try {
+      return { timeline: parseInterchange(source.content, source.format, edlFrameRate), error: null }
+    } catch (err) {
+      return { timeline: null, error: err instanceof Error ? err.message : 'Could not read timeline' }
+    }
+  }, [source, edlFrameRate])
+
+  // Each source file with its clip count and library match (manual choice wins)
+  const sources = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const track of parsed?.timeline?.tracks ?? []) {
+      for (const clip of track.clips) {
+        counts.set(clip.sourceName, (counts.get(clip.sourceName) ?? 0) + 1)
+      }
+    }
+    return [...counts.entries()].map(([name, clips]) => ({
+      name,
+      clips,
+      mediaId: overrides[name] ?? matchMediaFile(name, files),
+    }))
+  }, [parsed, files, overrides])
+
+  if (!isOpen) return null
+
+  const timeline = parsed?.timeline ?? null
+  const clipCount = sources.reduce((sum, s) => sum + s.clips, 0)
+  const missingClips = sources.reduce((sum, s) => sum + (s.mediaId ? 0 : s.clips), 0)
+
+  const handleTimelineFile = async (file: File) => {
+    setError(null)
+    setOverrides({})
+    const content = await file.text()
+    const format = detectInterchangeFormat(file.name, content)
+    if (!format) {
+      setSource(null)
+      setError(`${file.name} is not an EDL, FCPXML or OpenTimelineIO file`)
+      return
+    }
+    setSource({ fileName: file.name, content, format })
+  }
+
+  const handleMediaFiles = async (fileList: FileList) => {
+    setIsAddingFiles(true)
+    for (const file of Array.from(fileList)) {
+      try {
+        await addFile(file)
+      } catch (err) {
+        console.error('Failed to add media for relink:', err)
+      }
+    }
+    setIsAddingFiles(false)
+  }
+
+  const handleImport = () => {
+    if (!timeline) return
+    const mediaIds: Record<string, string> = {}
+    for (const s of sources) {
+      if (s.mediaId) mediaIds[s.name] = s.mediaId
+    }
+    pushState()
+    importTimeline(timeline, mediaIds)
+    setSource(null)
+    onClose()
+  }
+
+  const handleExport = () => {
+    const name = projectName || 'DualView timeline'
+    const content = serializeInterchange(buildInterchangeTimeline(name, frameRate, tracks, markers, files), exportFormat)
+    const type = exportFormat === 'otio' ? 'application/json' : exportFormat === 'fcpxml' ? 'application/xml' : 'text/plain'
+    downloadBlob(new Blob([content], { type }), `${name}.${INTERCHANGE_EXTENSIONS[exportFormat]}`)
+  }
+
+  const hasClips = tracks.some(t => t.type !== 'text' && t.clips.length > 0)
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1a1a1a] rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <ArrowDownUp size={20} className="text-[#ff5722]" />
+            <h2 className="text-lg font-semibold text-white">Timeline Import / Export</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Export */}
+        <div className="px-6 py-3 border-b border-gray-700 space-y-2">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm text-gray-400">Export as</span>
+            <div className="flex gap-1">
+              {FORMATS.map(format => (
+                <button
+                  key={format}
+                  onClick={() => setExportFormat(format)}
+                  className={`px-2 py-1 rounded text-xs ${exportFormat === format ? 'bg-gray-700 text-white' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}
+                >
+                  {INTERCHANGE_FORMAT_LABELS[format]}
+                </button>
+              ))}
+            </div>
+            <div className="flex-1" />
+            <button
+              onClick={handleExport}
+              disabled={!hasClips}
+              className="px-4 py-1.5 bg-[#ff5722] text-white rounded flex items-center gap-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={14} />
+              Download
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">{EXPORT_NOTES[exportFormat]}</p>
+        </div>
+
+        {/* Import */}
+        <div className="px-6 py-3 border-b border-gray-700 flex flex-wrap items-center gap-3">
+          <span className="text-sm text-gray-400">Import</span>
+          <button
+            onClick={() => timelineInputRef.current?.click()}
+            className="px-3 py-1.5 bg-gray-700 text-gray-300 rounded flex items-center gap-2 text-sm hover:bg-gray-600"
+          >
+            <FolderOpen size={14} />
+            {source ? source.fileName : 'Choose EDL, FCPXML or OTIO…'}
+          </button>
+          <input
+            ref={timelineInputRef}
+            type="file"
+            accept={INTERCHANGE_ACCEPT}
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0]
+              if (file) handleTimelineFile(file)
+              e.target.value = ''
+            }}
+          />
+          {source?.format === 'edl' && (
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Frame rate:
+              <select
+                value={edlFrameRate}
+                onChange={e => setEdlFrameRate(Number(e.target.value))}
+                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+              >
+                {[...new Set([...EDL_FRAME_RATES, frameRate])].sort((a, b) => a - b).map(rate => (
+                  <option key={rate} value={rate}>{rate} fps</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {timeline && (
+            <span className="text-xs text-gray-500">
+              {INTERCHANGE_FORMAT_LABELS[source?.format ?? 'otio']} • {timeline.tracks.length} tracks • {clipCount} clips • {timeline.markers.length} markers • {Number(timeline.frameRate.toFixed(3))} fps
+            </span>
+          )}
+        </div>
+
+        {(error || parsed?.error) && (
+          <div className="px-6 py-2 text-sm text-red-400 border-b border-gray-700">{error || parsed?.error}</div>
+        )}
+
+        {/* Relink */}
+        <div className="flex-1 overflow-auto">
+          {!timeline ? (
+            <div className="flex items-center justify-center h-48 text-gray-500 text-sm text-center px-6">
+              Imported clips are matched to library media by file name.
+              Sources that are not found can be picked from the library or added here.
+            </div>
+          ) : sources.length === 0 ? (
+            <div className="px-6 py-6 text-sm text-gray-500">The timeline has no clips</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-[#252525] sticky top-0">
+                <tr>
+                  <th className="text-left px-6 py-2 text-gray-400 font-medium">Source</th>
+                  <th className="text-right px-4 py-2 text-gray-400 font-medium">Clips</th>
+                  <th className="text-left px-6 py-2 text-gray-400 font-medium">Library media</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sources.map((s, idx) => (
+                  <tr key={s.name} className={idx % 2 === 0 ? 'bg-[#1a1a1a]' : 'bg-[#222]'}>
+                    <td className="px-6 py-1.5 text-gray-300">
+                      <div className="flex items-center gap-2">
+                        {s.mediaId
+                          ? <Check size={14} className="text-green-400 flex-shrink-0" />
+                          : <AlertTriangle size={14} className="text-yellow-400 flex-shrink-0" />}
+                        <span className="truncate font-mono text-xs">{s.name || '(unnamed)'}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-1.5 text-right text-gray-300 font-mono">{s.clips}</td>
+                    <td className="px-6 py-1.5">
+                      <select
+                        value={s.mediaId ?? ''}
+                        onChange={e => setOverrides(prev => ({ ...prev, [s.name]: e.target.value }))}
+                        className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs text-white w-full max-w-[260px]"
+                      >
+                        <option value="">Skip these clips</option>
+                        {files.map(file => (
+                          <option key={file.id} value={file.id}>{file.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        {timeline && (
+          <div className="px-6 py-3 border-t border-gray-700 flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => mediaInputRef.current?.click()}
+              disabled={isAddingFiles}
+              className="px-3 py-1.5 bg-gray-700 text-gray-300 rounded flex items-center gap-2 text-sm hover:bg-gray-600 disabled:opacity-50"
+              title="Add the missing files to the library; they are matched by name"
+            >
+              <Upload size={14} />
+              {isAddingFiles ? 'Adding…' : 'Add media files'}
+            </button>
+            <input
+              ref={mediaInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={e => {
+                if (e.target.files?.length) handleMediaFiles(e.target.files)
+                e.target.value = ''
+              }}
+            />
+            <span className="text-xs text-gray-500 flex-1">
+              {missingClips > 0
+                ? `${missingClips} clip${missingClips === 1 ? '' : 's'} without media will be skipped. `
+                : ''}
+              Replaces the clips and markers on the timeline (undo restores the clips).
+            </span>
+            <button
+              onClick={handleImport}
+              disabled={clipCount === missingClips && timeline.markers.length === 0}
+              className="px-4 py-1.5 bg-[#ff5722] text-white rounded flex items-center gap-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ArrowDownUp size={14} />
+              Import
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
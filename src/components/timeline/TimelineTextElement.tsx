@@ -0,0 +1,182 @@
+/**
+ * TEXT-001: Text element block on a text track
+ * Drag to move, drag the edges to change when the text shows; snaps to
+ * the same points as clips
+ */
+import { memo, useEffect, useRef, useState } from 'react'
+import { useTimelineStore } from '../../stores/timelineStore'
+import { useHistoryStore } from '../../stores/historyStore'
+import { cn, snapTimeToFrame } from '../../lib/utils'
+import { Trash2, Type } from 'lucide-react'
+import type { TextElement } from '../../types'
+
+// Minimum mouse movement to distinguish drag from click
+const DRAG_THRESHOLD = 5
+
+type DragMode = 'move' | 'start' | 'end'
+
+interface DragState {
+  mode: DragMode
+  startX: number
+  startTime: number
+  endTime: number
+  moved: boolean
+}
+
+interface TimelineTextElementProps {
+  element: TextElement
+  pixelsPerSecond: number
+  trackLocked: boolean
+  isSelected: boolean
+  onSelect: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+export const TimelineTextElement = memo(function TimelineTextElement({
+  element,
+  pixelsPerSecond,
+  trackLocked,
+  isSelected,
+  onSelect,
+  onDelete,
+}: TimelineTextElementProps) {
+  const updateTextElement = useTimelineStore((state) => state.updateTextElement)
+  const getSnapPoint = useTimelineStore((state) => state.getSnapPoint)
+  const frameRate = useTimelineStore((state) => state.frameRate)
+  const beginTransaction = useHistoryStore((state) => state.beginTransaction)
+  const endTransaction = useHistoryStore((state) => state.endTransaction)
+
+  const [dragMode, setDragMode] = useState<DragMode | null>(null)
+  const dragRef = useRef<DragState | null>(null)
+
+  const handleMouseDown = (e: React.MouseEvent, mode: DragMode) => {
+    if (e.button !== 0) return
+    e.preventDefault()
+    e.stopPropagation()
+    onSelect(element.id)
+    if (trackLocked) return
+    dragRef.current = { mode, startX: e.clientX, startTime: element.startTime, endTime: element.endTime, moved: false }
+    setDragMode(mode)
+  }
+
+  useEffect(() => {
+    if (!dragMode) return
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const drag = dragRef.current
+      if (!drag) return
+      const dx = e.clientX - drag.startX
+      if (!drag.moved) {
+        if (Math.abs(dx) < DRAG_THRESHOLD) return
+        drag.moved = true
+        // HISTORY-001: The whole drag is one undo step, closed on mouseup, Escape or unmount
+        beginTransaction(drag.mode === 'move' ? 'Move text' : 'Trim text')
+      }
+
+      const delta = dx / pixelsPerSecond
+      const snap = (time: number) => getSnapPoint(time) ?? snapTimeToFrame(time, frameRate)
+      if (drag.mode === 'move') {
+        const startTime = Math.max(0, snap(drag.startTime + delta))
+        updateTextElement(element.id, { startTime, endTime: startTime + (drag.endTime - drag.startTime) })
+      } else if (drag.mode === 'start') {
+        updateTextElement(element.id, { startTime: Math.min(snap(drag.startTime + delta), drag.endTime - 1 / frameRate) })
+      } else {
+        updateTextElement(element.id, { endTime: snap(drag.endTime + delta) })
+      }
+    }
+
+    const handleMouseUp = () => {
+      if (dragRef.current?.moved) endTransaction()
+      dragRef.current = null
+      setDragMode(null)
+    }
+
+    // Escape cancels the drag and puts the text back where it was
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const drag = dragRef.current
+      if (e.key !== 'Escape' || !drag) return
+      if (drag.moved) {
+        updateTextElement(element.id, { startTime: drag.startTime, endTime: drag.endTime })
+        endTransaction()
+      }
+      dragRef.current = null
+      setDragMode(null)
+    }
+
+    window.addEventListener('mousemove', handleMouseMove)
+    window.addEventListener('mouseup', handleMouseUp)
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove)
+      window.removeEventListener('mouseup', handleMouseUp)
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [dragMode, element.id, pixelsPerSecond, frameRate, getSnapPoint, updateTextElement, beginTransaction, endTransaction])
+
+  // Close a drag's history transaction if unmounted mid-drag
+  useEffect(() => {
+    return () => {
+      if (dragRef.current?.moved) endTransaction()
+    }
+  }, [endTransaction])
+
+  const width = (element.endTime - element.startTime) * pixelsPerSecond
+
+  return (
+    <div
+      data-clip
+      className={cn(
+        'absolute top-1 bottom-1 overflow-hidden group/text bg-purple-500/30 border border-purple-400/60',
+        trackLocked ? 'cursor-not-allowed' : 'cursor-grab active:cursor-grabbing',
+        isSelected && 'ring-2 ring-accent',
+        dragMode ? 'opacity-80 z-10' : 'transition-colors'
+      )}
+      style={{ left: element.startTime * pixelsPerSecond, width: Math.max(width, 20) }}
+      onMouseDown={(e) => handleMouseDown(e, 'move')}
+      onClick={(e) => e.stopPropagation()}
+      title={element.text}
+    >
+      <div className="absolute inset-0 p-1 flex items-start justify-between gap-1 z-10">
+        <div className="flex items-center gap-1 min-w-0">
+          <Type className="w-3 h-3 flex-shrink-0 text-purple-200" />
+          <span className="text-[10px] text-white font-medium drop-shadow truncate">
+            {element.text || 'Empty text'}
+          </span>
+        </div>
+        {!trackLocked && (
+          <button
+            className="opacity-0 group-hover/text:opacity-100 p-0.5 bg-error/80 hover:bg-error rounded transition-opacity"
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => {
+              e.stopPropagation()
+              onDelete(element.id)
+            }}
+            title="Delete text (Del)"
+          >
+            <Trash2 className="w-3 h-3 text-white" />
+          </button>
+        )}
+      </div>
+
+      {/* Trim handles */}
+      {!trackLocked && (
+        <>
+          <div
+            className={cn(
+              'absolute left-0 top-0 bottom-0 w-2 bg-white/30 hover:bg-white/80 cursor-ew-resize z-10 transition-colors',
+              dragMode === 'start' && 'bg-accent'
+            )}
+            onMouseDown={(e) => handleMouseDown(e, 'start')}
+          />
+          <div
+            className={cn(
+              'absolute right-0 top-0 bottom-0 w-2 bg-white/30 hover:bg-white/80 cursor-ew-resize z-10 transition-colors',
+              dragMode === 'end' && 'bg-accent'
+            )}
+            onMouseDown={(e) => handleMouseDown(e, 'end')}
+          />
+        </>
+      )}
+    </div>
+  )
+})
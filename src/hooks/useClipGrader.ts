@@ -0,0 +1,24 @@
+/**
+ * Clip Grader Hook (COLOR-001)
+ *
+ * For canvas-drawn comparison modes: returns a function that takes a
+ * clip's video or image and gives back the frame through the clip's colour
+ * grade and LUT (the element itself when the clip is ungraded). Draw the
+ * result straight away; every preview shares one grade renderer and canvas. The function
+ * changes when the grade does, so render callbacks that depend on it redraw.
+ */
+import { useCallback } from 'react'
+import { useLUTStore } from '../stores/lutStore'
+import { isIdentityGrade } from '../lib/colorGrade'
+import { getSharedColorGradeRenderer, type GradeSource } from '../lib/webgl/ColorGradeRenderer'
+import type { TimelineClip } from '../types'
+
+export function useClipGrader(clip: TimelineClip | null | undefined) {
+  const grade = clip?.colorGrade
+  const lut = useLUTStore((state) => state.getLUT(grade?.lutId))
+
+  return useCallback((source: GradeSource): GradeSource => {
+    if (!grade || isIdentityGrade(grade, lut)) return source
+    return getSharedColorGradeRenderer().apply(source, grade, lut)
+  }, [grade, lut])
+}
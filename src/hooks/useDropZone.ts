@@ -1,6 +1,7 @@
 import { useState, useCallback, useRef } from 'react'
 import { useMediaStore } from '../stores/mediaStore'
 import { useTimelineStore } from '../stores/timelineStore'
+import { groupModelCompanions, isModelFileName } from '../lib/modelLoader'
 
 interface UseDropZoneOptions {
   trackType: 'a' | 'b'
@@ -41,8 +42,9 @@ export function useDropZone({ trackType }: UseDropZoneOptions) {
     e.stopPropagation()
     setIsDragOver(false)
 
-    const files = e.dataTransfer.files
-    if (!files || files.length === 0) return
+    if (!e.dataTransfer.files || e.dataTransfer.files.length === 0) return
+    // MODEL-001: MTL / texture files travel with their OBJ
+    const { files, companions } = await groupModelCompanions(Array.from(e.dataTransfer.files))
 
     const track = tracks.find(t => t.type === trackType)
     if (!track) return
@@ -55,8 +57,7 @@ export function useDropZone({ trackType }: UseDropZoneOptions) {
       const file = files[i]
 
       // Validate file type (including 3D models by extension)
-      const extension = file.name.toLowerCase().split('.').pop()
-      const isModel = extension === 'glb' || extension === 'gltf'
+      const isModel = isModelFileName(file.name)
       if (
         !file.type.startsWith('video/') &&
         !file.type.startsWith('image/') &&
@@ -67,7 +68,7 @@ export function useDropZone({ trackType }: UseDropZoneOptions) {
       }
 
       try {
-        const mediaFile = await addFile(file)
+        const mediaFile = await addFile(file, companions.get(file))
         const duration = mediaFile.duration || 10
 
         addClip(track.id, mediaFile.id, nextStartTime, duration)
@@ -82,8 +83,10 @@ export function useDropZone({ trackType }: UseDropZoneOptions) {
 
   // Handle file input change (for click-to-upload) - supports multiple files
   const handleFileInputChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files
-    if (!files || files.length === 0) return
+    const input = e.target
+    if (!input.files || input.files.length === 0) return
+    // MODEL-001: MTL / texture files travel with their OBJ
+    const { files, companions } = await groupModelCompanions(Array.from(input.files))
 
     const track = tracks.find(t => t.type === trackType)
     if (!track) return
@@ -96,8 +99,7 @@ export function useDropZone({ trackType }: UseDropZoneOptions) {
       const file = files[i]
 
       // Validate file type (including 3D models by extension)
-      const ext = file.name.toLowerCase().split('.').pop()
-      const is3DModel = ext === 'glb' || ext === 'gltf'
+      const is3DModel = isModelFileName(file.name)
       if (
         !file.type.startsWith('video/') &&
         !file.type.startsWith('image/') &&
@@ -108,7 +110,7 @@ export function useDropZone({ trackType }: UseDropZoneOptions) {
       }
 
       try {
-        const mediaFile = await addFile(file)
+        const mediaFile = await addFile(file, companions.get(file))
         const duration = mediaFile.duration || 10
 
         addClip(track.id, mediaFile.id, nextStartTime, duration)
@@ -121,7 +123,7 @@ export function useDropZone({ trackType }: UseDropZoneOptions) {
     }
 
     // Reset input so same file can be selected again
-    e.target.value = ''
+    input.value = ''
   }, [addFile, addClip, tracks, trackType])
 
   // Open file dialog
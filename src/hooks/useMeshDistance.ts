@@ -0,0 +1,53 @@
+/**
+ * Mesh Distance Hook (MESHDIFF-001)
+ *
+ * Measures two loaded models against each other while the distance view is
+ * on. Geometry is flattened on the main thread; the nearest-surface search
+ * runs on the metrics worker pool and is aborted when either model changes.
+ */
+import { useEffect, useMemo, useState } from 'react'
+import type * as THREE from 'three'
+import { extractMeshGeometry } from '../lib/meshHeatmap'
+import { isAbortError, runMetricsJob } from '../lib/metricsWorkerPool'
+import type { MeshDistanceResult } from '../lib/meshDistance'
+
+export function useMeshDistance(modelA: THREE.Object3D | null, modelB: THREE.Object3D | null, enabled: boolean) {
+  const extracted = useMemo(
+    () => (enabled && modelA && modelB
+      ? { a: extractMeshGeometry(modelA), b: extractMeshGeometry(modelB) }
+      : null),
+    [enabled, modelA, modelB]
+  )
+
+  // Outcome of the last job, tagged with the geometry it measured
+  const [outcome, setOutcome] = useState<{
+    source: typeof extracted
+    result: MeshDistanceResult | null
+    error: string | null
+  } | null>(null)
+
+  useEffect(() => {
+    if (!extracted) return
+    const controller = new AbortController()
+
+    runMetricsJob({ kind: 'mesh-distance', meshA: extracted.a.data, meshB: extracted.b.data }, controller.signal)
+      .then(result => setOutcome({ source: extracted, result, error: null }))
+      .catch(err => {
+        if (isAbortError(err)) return
+        console.error('Mesh distance failed:', err)
+        setOutcome({ source: extracted, result: null, error: err instanceof Error ? err.message : String(err) })
+      })
+
+    return () => controller.abort()
+  }, [extracted])
+
+  const current = outcome && outcome.source === extracted ? outcome : null
+
+  return {
+    statsA: extracted?.a.stats ?? null,
+    statsB: extracted?.b.stats ?? null,
+    result: current?.result ?? null,
+    error: current?.error ?? null,
+    isComputing: extracted !== null && current === null,
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Metrics Worker Status Hook (WORKER-001)
+ *
+ * Mirrors the metrics worker pool queue into the project store so panels
+ * can show how much metric work is pending.
+ */
+import { useEffect } from 'react'
+import { useProjectStore } from '../stores/projectStore'
+import { getMetricsWorkerStatus, subscribeMetricsWorkerStatus } from '../lib/metricsWorkerPool'
+
+export function useMetricsWorkerStatus() {
+  const setMetricsWorkerStatus = useProjectStore(state => state.setMetricsWorkerStatus)
+
+  useEffect(() => {
+    setMetricsWorkerStatus(getMetricsWorkerStatus())
+    return subscribeMetricsWorkerStatus(setMetricsWorkerStatus)
+  }, [setMetricsWorkerStatus])
+}
@@ -1,9 +1,12 @@
 /**
  * IMG-003: Pixel Inspector Hook
  * Handles clicking on images/videos to get pixel values
+ * BITDEPTH-001: 16-bit PNG / TIFF report their decoded code values
  */
 import { useCallback, useRef } from 'react'
 import { useProjectStore } from '../stores/projectStore'
+import { getHighBitDepthImage, readHighBitDepthPixel } from '../lib/highBitDepthImage'
+import type { InspectedPixel } from '../types'
 
 export function usePixelInspector() {
   const { pixelInspectorEnabled, setPixelInfo } = useProjectStore()
@@ -14,7 +17,14 @@ export function usePixelInspector() {
     element: HTMLImageElement | HTMLVideoElement,
     x: number,
     y: number
-  ): { r: number; g: number; b: number } | null => {
+  ): Omit<InspectedPixel, 'x' | 'y'> | null => {
+    // BITDEPTH-001: The <img> shows an 8-bit preview of decoded samples
+    const highBitImage = element instanceof HTMLImageElement ? getHighBitDepthImage(element.src) : null
+    if (highBitImage) {
+      const pixel = readHighBitDepthPixel(highBitImage, x, y)
+      return pixel && { ...pixel, bitDepth: highBitImage.bitDepth }
+    }
+
     try {
       if (!canvasRef.current) {
         canvasRef.current = document.createElement('canvas')
@@ -0,0 +1,85 @@
+/**
+ * Scene Cuts Hook (SHOT-001)
+ *
+ * Detects shot boundaries in the video on track A and keeps them as
+ * timeline markers, so every view splits per-shot averages at the same cuts.
+ */
+import { useState, useCallback, useRef, useMemo } from 'react'
+import { useMediaStore } from '../stores/mediaStore'
+import { useTimelineStore } from '../stores/timelineStore'
+import { detectSceneCuts, SCENE_CUT_MARKER_SOURCE } from '../lib/sceneCutDetector'
+
+// Detected cuts are drawn in purple on the timeline
+const SCENE_CUT_COLOR = '#a855f7'
+
+export function useSceneCuts() {
+  const { files } = useMediaStore()
+  const { tracks, markers, frameRate, setSourceMarkers } = useTimelineStore()
+  const [isDetecting, setIsDetecting] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Cut times on the timeline, sorted
+  const cutTimes = useMemo(
+    () => markers.filter(m => m.source === SCENE_CUT_MARKER_SOURCE).map(m => m.time).sort((a, b) => a - b),
+    [markers]
+  )
+
+  const source = useMemo(() => {
+    const clip = tracks.find(t => t.type === 'a')?.clips[0]
+    const media = clip ? files.find(f => f.id === clip.mediaId) : undefined
+    return clip && media?.type === 'video' ? { clip, media } : null
+  }, [tracks, files])
+
+  const detect = useCallback(async () => {
+    if (!source) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsDetecting(true)
+    setProgress(0)
+
+    const { clip, media } = source
+
+    try {
+      const cuts = await detectSceneCuts(media.url, {
+        clip,
+        startTime: clip.startTime,
+        endTime: clip.endTime,
+        sampleInterval: 1 / frameRate,
+        onProgress: setProgress,
+        signal: controller.signal,
+      })
+      if (!controller.signal.aborted) {
+        setSourceMarkers(SCENE_CUT_MARKER_SOURCE, cuts.map((cut, i) => ({
+          time: cut.time,
+          label: `Shot ${i + 2}`,
+          color: SCENE_CUT_COLOR,
+        })))
+      }
+    } catch (err) {
+      console.error('Scene cut detection failed:', err)
+    }
+
+    abortRef.current = null
+    setIsDetecting(false)
+  }, [source, frameRate, setSourceMarkers])
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
+  const clear = useCallback(() => {
+    setSourceMarkers(SCENE_CUT_MARKER_SOURCE, [])
+  }, [setSourceMarkers])
+
+  return {
+    cutTimes,
+    canDetect: source !== null,
+    isDetecting,
+    progress,
+    detect,
+    stop,
+    clear,
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Timeline Audio Hook (MIX-001)
+ *
+ * Plays the timeline audio mix while the timeline plays. Preview videos stay
+ * muted; every clip on a sound-carrying track is scheduled on one
+ * AudioContext and rescheduled after a seek, loop, speed change or edit.
+ * Fader, pan, mute and solo changes apply to the running graph.
+ * Audio comparison mode plays its own A/B elements, so the mix stays silent there.
+ */
+import { useEffect } from 'react'
+import { usePlaybackStore } from '../stores/playbackStore'
+import { useTimelineStore } from '../stores/timelineStore'
+import { useMediaStore } from '../stores/mediaStore'
+import { useKeyframeStore } from '../stores/keyframeStore'
+import { useProjectStore } from '../stores/projectStore'
+import { applyTrackMix, collectMixClips, scheduleMix, type TrackNodes } from '../lib/audioMix'
+import type { TimelineTrack } from '../types'
+
+// Lead time so the first samples are not late
+const START_LATENCY = 0.05
+// Playhead / audio disagreement (seconds) that triggers a reschedule
+const DRIFT_TOLERANCE = 0.15
+
+// Only fader, pan, mute or solo changed: the clips are the same
+const isMixOnlyChange = (tracks: TimelineTrack[], previous: TimelineTrack[]) =>
+  tracks.length === previous.length &&
+  tracks.every((track, i) => track.id === previous[i].id && track.clips === previous[i].clips)
+
+export function useTimelineAudio() {
+  useEffect(() => {
+    let context: AudioContext | null = null
+    let master: GainNode | null = null
+    let sources: AudioBufferSourceNode[] = []
+    let trackNodes = new Map<string, TrackNodes>()
+    // Timeline time and context time of the running schedule
+    let anchor: { time: number; contextTime: number; rate: number } | null = null
+    let generation = 0
+
+    const applyMasterVolume = () => {
+      if (!context || !master) return
+      const { volume, isMuted } = usePlaybackStore.getState()
+      master.gain.setTargetAtTime(isMuted ? 0 : volume, context.currentTime, 0.02)
+    }
+
+    const stop = () => {
+      generation++
+      sources.forEach(source => {
+        source.stop()
+        source.disconnect()
+      })
+      trackNodes.forEach(nodes => nodes.panner.disconnect())
+      sources = []
+      trackNodes = new Map()
+      anchor = null
+    }
+
+    const start = async () => {
+      stop()
+      const { isPlaying, isExporting } = usePlaybackStore.getState()
+      if (!isPlaying || isExporting) return
+      if (useProjectStore.getState().comparisonMode === 'audio') return
+
+      // Created on the first play, which follows a user gesture
+      if (!context) {
+        context = new AudioContext()
+        master = context.createGain()
+        master.connect(context.destination)
+        applyMasterVolume()
+      }
+      if (context.state === 'suspended') void context.resume()
+
+      const current = generation
+      const { tracks } = useTimelineStore.getState()
+      const clips = await collectMixClips({
+        tracks,
+        getFile: useMediaStore.getState().getFile,
+        clipKeyframes: useKeyframeStore.getState().clipKeyframes,
+      })
+      if (current !== generation || !context || !master) return
+
+      const { currentTime, playbackSpeed } = usePlaybackStore.getState()
+      const contextTime = context.currentTime + START_LATENCY
+      const from = currentTime + START_LATENCY * playbackSpeed
+      const scheduled = scheduleMix(context, master, clips, tracks, { from, when: contextTime, rate: playbackSpeed })
+      sources = scheduled.sources
+      trackNodes = scheduled.trackNodes
+      anchor = { time: from, contextTime, rate: playbackSpeed }
+    }
+
+    const unsubscribePlayback = usePlaybackStore.subscribe((state, previous) => {
+      if (state.volume !== previous.volume || state.isMuted !== previous.isMuted) {
+        applyMasterVolume()
+      }
+      if (
+        state.isPlaying !== previous.isPlaying ||
+        state.isExporting !== previous.isExporting ||
+        state.playbackSpeed !== previous.playbackSpeed
+      ) {
+        void start()
+      }
+    })
+
+    const unsubscribeTimeline = useTimelineStore.subscribe((state, previous) => {
+      if (state.tracks === previous.tracks || !usePlaybackStore.getState().isPlaying) return
+      if (isMixOnlyChange(state.tracks, previous.tracks) && context) {
+        applyTrackMix(trackNodes, state.tracks, context)
+      } else {
+        void start()
+      }
+    })
+
+    const unsubscribeProject = useProjectStore.subscribe((state, previous) => {
+      if (state.comparisonMode !== previous.comparisonMode) void start()
+    })
+
+    const unsubscribeKeyframes = useKeyframeStore.subscribe((state, previous) => {
+      if (state.clipKeyframes !== previous.clipKeyframes && usePlaybackStore.getState().isPlaying) {
+        void start()
+      }
+    })
+
+    const handleSeek = () => {
+      if (usePlaybackStore.getState().isPlaying) void start()
+    }
+
+    // Loop wraps move the playhead without a seek event
+    const handleUpdate = (e: CustomEvent<{ time: number; isPlaying: boolean }>) => {
+      if (!anchor || !context || !e.detail.isPlaying) return
+      const expected = anchor.time + (context.currentTime - anchor.contextTime) * anchor.rate
+      if (Math.abs(e.detail.time - expected) > DRIFT_TOLERANCE) void start()
+    }
+
+    window.addEventListener('playback-seek', handleSeek)
+    window.addEventListener('playback-update', handleUpdate)
+
+    return () => {
+      unsubscribePlayback()
+      unsubscribeTimeline()
+      unsubscribeKeyframes()
+      unsubscribeProject()
+      window.removeEventListener('playback-seek', handleSeek)
+      window.removeEventListener('playback-update', handleUpdate)
+      stop()
+      void context?.close()
+    }
+  }, [])
+}
@@ -53,7 +53,7 @@ export function useTimelineDrag(options: UseTimelineDragOptions) {
   const hasMovedRef = useRef(false)
 
   const { moveClip, frameRate, tracks, getSnapPoint } = useTimelineStore()
-  const { pushState } = useHistoryStore()
+  const { beginTransaction, endTransaction } = useHistoryStore()
 
   // Convert pixels to time
   const pixelsToTime = useCallback((pixels: number) => {
@@ -114,8 +114,8 @@ export function useTimelineDrag(options: UseTimelineDragOptions) {
         isDraggingRef.current = true
         hasMovedRef.current = true
 
-        // Push history state at drag start (OpenCut pattern)
-        pushState()
+        // HISTORY-001: The drag is one undo step, closed on mouseup, Escape or unmount
+        beginTransaction('Move clip')
 
         onDragStart?.(dragState.clipId)
 
@@ -165,6 +165,7 @@ export function useTimelineDrag(options: UseTimelineDragOptions) {
         }
 
         onDragEnd?.(dragState.clipId, hasMovedRef.current)
+        endTransaction()
       } else if (dragState) {
         // It was a click, not a drag
         onDragEnd?.(dragState.clipId, false)
@@ -181,6 +182,7 @@ export function useTimelineDrag(options: UseTimelineDragOptions) {
         setDragState(null)
         isDraggingRef.current = false
         onDragEnd?.(dragState.clipId, false)
+        endTransaction()
       }
     }
 
@@ -193,7 +195,14 @@ export function useTimelineDrag(options: UseTimelineDragOptions) {
       document.removeEventListener('mouseup', handleMouseUp)
       document.removeEventListener('keydown', handleKeyDown)
     }
-  }, [dragState, pixelsToTime, frameRate, tracks, trackHeight, moveClip, pushState, onDragStart, onDragEnd, getSnapPoint])
+  }, [dragState, pixelsToTime, frameRate, tracks, trackHeight, moveClip, beginTransaction, endTransaction, onDragStart, onDragEnd, getSnapPoint])
+
+  // Close a drag's history transaction if unmounted mid-drag
+  useEffect(() => {
+    return () => {
+      if (isDraggingRef.current) endTransaction()
+    }
+  }, [endTransaction])
 
   // Get current position for a clip (either drag position or actual position)
   const getClipPosition = useCallback((clipId: string, actualStartTime: number) => {
@@ -273,7 +282,7 @@ export function useTimelineTrim(options: UseTimelineTrimOptions) {
   const isTrimmingRef = useRef(false)
 
   const { trimClip, frameRate, getSnapPoint } = useTimelineStore()
-  const { pushState } = useHistoryStore()
+  const { beginTransaction, endTransaction } = useHistoryStore()
 
   const handleTrimStart = useCallback((
     e: React.MouseEvent,
@@ -284,8 +293,8 @@ export function useTimelineTrim(options: UseTimelineTrimOptions) {
     e.preventDefault()
     e.stopPropagation()
 
-    // Push history at trim start
-    pushState()
+    // HISTORY-001: The whole trim is one undo step
+    beginTransaction('Trim clip')
 
     setTrimState({
       isTrimming: true,
@@ -301,7 +310,7 @@ export function useTimelineTrim(options: UseTimelineTrimOptions) {
 
     isTrimmingRef.current = true
     onTrimStart?.(clipId, side)
-  }, [pushState, onTrimStart])
+  }, [beginTransaction, onTrimStart])
 
   useEffect(() => {
     if (!trimState) return
@@ -339,6 +348,7 @@ export function useTimelineTrim(options: UseTimelineTrimOptions) {
       if (trimState) {
         onTrimEnd?.(trimState.clipId)
       }
+      endTransaction()
       setTrimState(null)
       isTrimmingRef.current = false
     }
@@ -350,7 +360,14 @@ export function useTimelineTrim(options: UseTimelineTrimOptions) {
       document.removeEventListener('mousemove', handleMouseMove)
       document.removeEventListener('mouseup', handleMouseUp)
     }
-  }, [trimState, pixelsPerSecond, frameRate, trimClip, onTrimEnd, getSnapPoint])
+  }, [trimState, pixelsPerSecond, frameRate, trimClip, onTrimEnd, getSnapPoint, endTransaction])
+
+  // Close a trim's history transaction if unmounted mid-trim
+  useEffect(() => {
+    return () => {
+      if (isTrimmingRef.current) endTransaction()
+    }
+  }, [endTransaction])
 
   // TL-006: Get trim snap indicator for visual feedback
   const getTrimSnapIndicator = useCallback(() => {
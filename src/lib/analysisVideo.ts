@@ -0,0 +1,101 @@
+/**
+ * Analysis Videos
+ * Hidden video elements for frame-by-frame analysis (quality report, frame
+ * defects, scene cuts, temporal alignment), so the preview playback is not
+ * disturbed: create, wait for loading, seek frame-accurately and release.
+ */
+
+// Give up on a video that has not loaded after this long
+const LOAD_TIMEOUT_MS = 10000
+
+// Carry on with whatever frame is shown if a seek never reports back
+const SEEK_TIMEOUT_MS = 2000
+
+/**
+ * Create a hidden, muted video element for frame-accurate seeking
+ */
+export function createAnalysisVideo(url: string): HTMLVideoElement {
+  const video = document.createElement('video')
+  video.src = url
+  video.muted = true
+  video.playsInline = true
+  video.preload = 'auto'
+  video.crossOrigin = 'anonymous'
+  return video
+}
+
+function waitForReadyState(
+  video: HTMLVideoElement,
+  readyState: number,
+  event: 'loadedmetadata' | 'loadeddata'
+): Promise<void> {
+  if (video.readyState >= readyState) return Promise.resolve()
+
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      cleanup()
+      reject(new Error('Video load timeout'))
+    }, LOAD_TIMEOUT_MS)
+
+    const onLoaded = () => {
+      cleanup()
+      resolve()
+    }
+
+    const onError = () => {
+      cleanup()
+      reject(new Error('Video failed to load'))
+    }
+
+    const cleanup = () => {
+      clearTimeout(timeout)
+      video.removeEventListener(event, onLoaded)
+      video.removeEventListener('error', onError)
+    }
+
+    video.addEventListener(event, onLoaded)
+    video.addEventListener('error', onError)
+  })
+}
+
+/**
+ * Wait until a video has metadata, so its duration and size are known
+ */
+export function waitForVideoMetadata(video: HTMLVideoElement): Promise<void> {
+  return waitForReadyState(video, 1, 'loadedmetadata')
+}
+
+/**
+ * Wait for video metadata and first frame
+ */
+export function waitForVideoReady(video: HTMLVideoElement): Promise<void> {
+  return waitForReadyState(video, 2, 'loadeddata')
+}
+
+/**
+ * Seek a video and wait for the frame to be decoded
+ */
+export function seekVideoAndWait(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      video.removeEventListener('seeked', onSeeked)
+      resolve() // Resolve anyway after timeout
+    }, SEEK_TIMEOUT_MS)
+
+    const onSeeked = () => {
+      clearTimeout(timeout)
+      resolve()
+    }
+
+    video.addEventListener('seeked', onSeeked, { once: true })
+    video.currentTime = time
+  })
+}
+
+/**
+ * Stop loading and free the decoder of an analysis video
+ */
+export function releaseAnalysisVideo(video: HTMLVideoElement): void {
+  video.removeAttribute('src')
+  video.load()
+}
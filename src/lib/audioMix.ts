@@ -0,0 +1,333 @@
+/**
+ * MIX-001: Timeline audio mix
+ *
+ * Clip gain, volume envelopes (the clip's 'volume' keyframes), fades and
+ * per-track volume / pan / solo, scheduled on a Web Audio graph. The same
+ * graph plays live during timeline playback and renders offline into the
+ * audio track of MP4 exports.
+ */
+
+import type { Muxer, ArrayBufferTarget } from 'mp4-muxer'
+import { interpolateKeyframes, PROPERTY_CONFIGS, type ClipKeyframes, type Keyframe } from './keyframes'
+import type { MediaFile, TimelineClip, TimelineTrack } from '../types'
+
+// Fader range; the bottom of the range is silence
+export const MIN_VOLUME_DB = -60
+export const MAX_VOLUME_DB = 12
+
+export const MIX_SAMPLE_RATE = 48000
+const MIX_CHANNELS = 2
+const MIX_AUDIO_CODEC = 'mp4a.40.2' // AAC-LC
+const MIX_AUDIO_BITRATE = 192_000
+
+// Gain automation points per second of timeline
+const CURVE_RATE = 100
+
+// Audio track declaration for mp4-muxer
+export const MIX_MUXER_AUDIO = { codec: 'aac' as const, numberOfChannels: MIX_CHANNELS, sampleRate: MIX_SAMPLE_RATE }
+
+// Everything the mix is built from; components pass the store state in
+export interface MixSource {
+  tracks: TimelineTrack[]
+  getFile: (id: string) => MediaFile | undefined
+  clipKeyframes: Map<string, ClipKeyframes>
+}
+
+export interface MixClip {
+  clip: TimelineClip
+  track: TimelineTrack
+  buffer: AudioBuffer
+  keyframes?: ClipKeyframes
+}
+
+export interface MixSchedule {
+  from: number  // Timeline time the schedule starts at
+  to?: number   // Timeline time it ends at (default: end of each clip)
+  when: number  // Context time that plays `from`
+  rate?: number // Timeline playback speed
+}
+
+export interface TrackNodes {
+  gain: GainNode
+  panner: StereoPannerNode
+}
+
+export function dbToGain(db: number): number {
+  return db <= MIN_VOLUME_DB ? 0 : Math.pow(10, db / 20)
+}
+
+export function formatDb(db: number): string {
+  if (db <= MIN_VOLUME_DB) return '-∞ dB'
+  return `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`
+}
+
+export function formatPan(pan: number): string {
+  if (Math.abs(pan) < 0.005) return 'C'
+  return `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`
+}
+
+// Text tracks carry no sound
+export function isAudioTrack(track: TimelineTrack): boolean {
+  return track.type !== 'text'
+}
+
+// Soloing any track silences every track that is not soloed
+export function isTrackAudible(track: TimelineTrack, tracks: TimelineTrack[]): boolean {
+  if (track.muted) return false
+  return !tracks.some(t => t.solo) || !!track.solo
+}
+
+export function getTrackGain(track: TimelineTrack, tracks: TimelineTrack[]): number {
+  return isTrackAudible(track, tracks) ? dbToGain(track.volume ?? 0) : 0
+}
+
+export function getVolumeKeyframes(keyframes?: ClipKeyframes): Keyframe[] {
+  return keyframes?.tracks.find(track => track.property === 'volume')?.keyframes ?? []
+}
+
+/**
+ * Fade ramp (0-1) at a timeline time. Linear in amplitude; overlapping
+ * fade-in and fade-out multiply
+ */
+export function getClipFadeGain(clip: TimelineClip, time: number): number {
+  const elapsed = time - clip.startTime
+  const remaining = clip.endTime - time
+  let gain = 1
+  if (clip.fadeIn && elapsed < clip.fadeIn) gain *= Math.max(0, elapsed / clip.fadeIn)
+  if (clip.fadeOut && remaining < clip.fadeOut) gain *= Math.max(0, remaining / clip.fadeOut)
+  return gain
+}
+
+// Envelope value (linear, 1 = unchanged) at a timeline time
+export function getEnvelopeGain(clip: TimelineClip, time: number, keyframes?: ClipKeyframes): number {
+  return interpolateKeyframes(getVolumeKeyframes(keyframes), time - clip.startTime, PROPERTY_CONFIGS.volume.defaultValue)
+}
+
+// Linear gain of a clip at a timeline time: clip gain × envelope × fades
+export function getClipGainAt(clip: TimelineClip, time: number, keyframes?: ClipKeyframes): number {
+  return dbToGain(clip.gain ?? 0) * getEnvelopeGain(clip, time, keyframes) * getClipFadeGain(clip, time)
+}
+
+// Decoded audio per media URL; null when the media has no audio track
+const decodedAudio = new Map<string, Promise<AudioBuffer | null>>()
+const reversedAudio = new WeakMap<AudioBuffer, AudioBuffer>()
+
+export function decodeMediaAudio(media: MediaFile): Promise<AudioBuffer | null> {
+  if ((media.type !== 'audio' && media.type !== 'video') || !media.url) return Promise.resolve(null)
+
+  let pending = decodedAudio.get(media.url)
+  if (!pending) {
+    pending = media.file.arrayBuffer()
+      .then(data => new OfflineAudioContext(1, 1, MIX_SAMPLE_RATE).decodeAudioData(data))
+      .catch(() => null)
+    decodedAudio.set(media.url, pending)
+  }
+  return pending
+}
+
+export function releaseMediaAudio(url: string): void {
+  decodedAudio.delete(url)
+}
+
+function reverseBuffer(buffer: AudioBuffer): AudioBuffer {
+  let reversed = reversedAudio.get(buffer)
+  if (!reversed) {
+    reversed = new AudioBuffer({ length: buffer.length, numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate })
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      reversed.copyToChannel(buffer.getChannelData(c).slice().reverse(), c)
+    }
+    reversedAudio.set(buffer, reversed)
+  }
+  return reversed
+}
+
+/**
+ * Decode the audio of every clip on a sound-carrying track. Muted tracks are
+ * included so unmuting during playback only changes a gain
+ */
+export async function collectMixClips({ tracks, getFile, clipKeyframes }: MixSource): Promise<MixClip[]> {
+  const entries = tracks.filter(isAudioTrack).flatMap(track =>
+    track.clips.map(clip => ({ clip, track, media: getFile(clip.mediaId) }))
+  )
+  const buffers = await Promise.all(entries.map(({ media }) => (media ? decodeMediaAudio(media) : null)))
+
+  return entries.flatMap(({ clip, track }, i) => {
+    const buffer = buffers[i]
+    return buffer ? [{ clip, track, buffer, keyframes: clipKeyframes.get(clip.id) }] : []
+  })
+}
+
+// Set track faders, pan and mute / solo on an already scheduled graph
+export function applyTrackMix(nodes: Map<string, TrackNodes>, tracks: TimelineTrack[], context: BaseAudioContext): void {
+  tracks.forEach(track => {
+    const node = nodes.get(track.id)
+    if (!node) return
+    // Short glide so fader moves don't click
+    node.gain.gain.setTargetAtTime(getTrackGain(track, tracks), context.currentTime, 0.02)
+    node.panner.pan.setTargetAtTime(track.pan ?? 0, context.currentTime, 0.02)
+  })
+}
+
+/**
+ * Schedule every clip from `from` onwards: source → clip gain (envelope and
+ * fades as an automation curve) → track gain → track pan → destination
+ */
+export function scheduleMix(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  clips: MixClip[],
+  tracks: TimelineTrack[],
+  { from, to = Infinity, when, rate = 1 }: MixSchedule
+): { sources: AudioBufferSourceNode[]; trackNodes: Map<string, TrackNodes> } {
+  const trackNodes = new Map<string, TrackNodes>()
+  const getTrackNodes = (track: TimelineTrack) => {
+    let nodes = trackNodes.get(track.id)
+    if (!nodes) {
+      nodes = { gain: context.createGain(), panner: context.createStereoPanner() }
+      nodes.gain.gain.value = getTrackGain(track, tracks)
+      nodes.panner.pan.value = track.pan ?? 0
+      nodes.gain.connect(nodes.panner).connect(destination)
+      trackNodes.set(track.id, nodes)
+    }
+    return nodes
+  }
+
+  const sources: AudioBufferSourceNode[] = []
+  for (const { clip, track, buffer, keyframes } of clips) {
+    const start = Math.max(clip.startTime, from)
+    const end = Math.min(clip.endTime, to)
+    if (end <= start) continue
+
+    // Media seconds already played, and left to play, at `start`
+    const speed = clip.speed || 1
+    const elapsed = (start - clip.startTime) * speed
+    const length = Math.min(clip.outPoint - clip.inPoint, (end - clip.startTime) * speed) - elapsed
+    if (length <= 0) continue
+
+    const source = context.createBufferSource()
+    source.buffer = clip.reverse ? reverseBuffer(buffer) : buffer
+    source.playbackRate.value = speed * rate
+    const offset = clip.reverse ? buffer.duration - (clip.outPoint - elapsed) : clip.inPoint + elapsed
+
+    const samples = Math.max(2, Math.ceil((end - start) * CURVE_RATE))
+    const curve = new Float32Array(samples)
+    for (let i = 0; i < samples; i++) {
+      curve[i] = getClipGainAt(clip, start + (i / (samples - 1)) * (end - start), keyframes)
+    }
+    const startAt = when + (start - from) / rate
+    const gain = context.createGain()
+    gain.gain.value = curve[0]
+    gain.gain.setValueCurveAtTime(curve, startAt, (end - start) / rate)
+
+    source.connect(gain).connect(getTrackNodes(track).gain)
+    source.start(startAt, Math.max(0, offset), length)
+    sources.push(source)
+  }
+
+  return { sources, trackNodes }
+}
+
+/**
+ * Render the mix of the given timeline spans back to back, e.g. the whole
+ * timeline, or each clip of a stitched export. Null when nothing is audible
+ */
+export async function renderTimelineMix(
+  source: MixSource,
+  spans: Array<[start: number, end: number]>
+): Promise<AudioBuffer | null> {
+  const clips = (await collectMixClips(source)).filter(({ track }) => getTrackGain(track, source.tracks) > 0)
+  if (clips.length === 0) return null
+
+  const totalLength = spans.reduce((sum, [start, end]) => sum + Math.max(0, Math.round((end - start) * MIX_SAMPLE_RATE)), 0)
+  if (totalLength === 0) return null
+
+  const mix = new AudioBuffer({ length: totalLength, numberOfChannels: MIX_CHANNELS, sampleRate: MIX_SAMPLE_RATE })
+  let offset = 0
+  for (const [start, end] of spans) {
+    const length = Math.round((end - start) * MIX_SAMPLE_RATE)
+    if (length <= 0) continue
+    const context = new OfflineAudioContext(MIX_CHANNELS, length, MIX_SAMPLE_RATE)
+    scheduleMix(context, context.destination, clips, source.tracks, { from: start, to: end, when: 0 })
+    const rendered = await context.startRendering()
+    for (let c = 0; c < MIX_CHANNELS; c++) {
+      mix.copyToChannel(rendered.getChannelData(c), c, offset)
+    }
+    offset += length
+  }
+  return mix
+}
+
+export async function isAudioExportSupported(): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined' || typeof OfflineAudioContext === 'undefined') return false
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: MIX_AUDIO_CODEC,
+      sampleRate: MIX_SAMPLE_RATE,
+      numberOfChannels: MIX_CHANNELS,
+      bitrate: MIX_AUDIO_BITRATE,
+    })
+    return !!supported
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Render the mix for an MP4 export, or null when the browser cannot encode
+ * AAC or nothing is audible (the file is then written without audio)
+ */
+export async function prepareExportMix(
+  source: MixSource,
+  spans: Array<[start: number, end: number]>
+): Promise<AudioBuffer | null> {
+  if (!(await isAudioExportSupported())) return null
+  return renderTimelineMix(source, spans)
+}
+
+/**
+ * Encode a rendered mix as AAC into the muxer's audio track. The mix
+ * repeats when `duration` is longer, matching looped video exports
+ */
+export async function encodeMixToMuxer(
+  mix: AudioBuffer,
+  muxer: Muxer<ArrayBufferTarget>,
+  duration: number
+): Promise<void> {
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: (e) => console.error('AudioEncoder error:', e),
+  })
+  encoder.configure({
+    codec: MIX_AUDIO_CODEC,
+    sampleRate: MIX_SAMPLE_RATE,
+    numberOfChannels: MIX_CHANNELS,
+    bitrate: MIX_AUDIO_BITRATE,
+  })
+
+  const totalFrames = Math.round(duration * MIX_SAMPLE_RATE)
+  const chunkFrames = MIX_SAMPLE_RATE / 10
+  const channels = Array.from({ length: MIX_CHANNELS }, (_, c) => mix.getChannelData(c))
+
+  for (let offset = 0; offset < totalFrames; offset += chunkFrames) {
+    const frames = Math.min(chunkFrames, totalFrames - offset)
+    const data = new Float32Array(frames * MIX_CHANNELS)
+    channels.forEach((channel, c) => {
+      for (let i = 0; i < frames; i++) {
+        data[c * frames + i] = channel[(offset + i) % mix.length]
+      }
+    })
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: MIX_SAMPLE_RATE,
+      numberOfFrames: frames,
+      numberOfChannels: MIX_CHANNELS,
+      timestamp: Math.round((offset / MIX_SAMPLE_RATE) * 1_000_000),
+      data,
+    })
+    encoder.encode(audioData)
+    audioData.close()
+  }
+
+  await encoder.flush()
+  encoder.close()
+}
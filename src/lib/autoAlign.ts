@@ -5,6 +5,8 @@
  * Detects translation, scale, and rotation differences between two images.
  */
 
+import { createAnalysisVideo, releaseAnalysisVideo, seekVideoAndWait, waitForVideoMetadata } from './analysisVideo'
+
 export interface AlignmentResult {
   offsetX: number      // Horizontal shift in pixels
   offsetY: number      // Vertical shift in pixels
@@ -386,3 +388,380 @@ export async function alignVideoStartPoints(
     confidence: Math.max(0, bestCorr)
   }
 }
+
+// ---------------------------------------------------------------------------
+// ALIGN-001: Content-based temporal alignment
+// ---------------------------------------------------------------------------
+
+const FINGERPRINT_WIDTH = 32
+const FINGERPRINT_HEIGHT = 18
+const AUDIO_ENVELOPE_RATE = 500 // Envelope samples per second for audio correlation
+const STEP_PENALTY = 0.02 // Cost of a non-diagonal step in the frame matcher
+const MAX_FRAME_STEP = 3 // Largest jump in B frames per A frame (2 repeated frames)
+
+export interface TemporalFrameEvent {
+  type: 'drop' | 'duplicate'
+  timeA: number  // A media time where the event occurs
+  timeB: number  // B media time where the event occurs
+  frames: number // Number of frames dropped or repeated
+}
+
+export interface TemporalAlignmentResult {
+  offsetSeconds: number             // B media time minus A media time at the start of the range
+  speedRatio: number                // B media seconds per A media second (1 = same rate)
+  retimeOffsetSeconds: number       // Intercept to use together with speedRatio: tB = offset + ratio * tA
+  confidence: number                // 0-1
+  method: 'video' | 'audio' | 'video+audio'
+  videoOffsetSeconds: number | null
+  audioOffsetSeconds: number | null
+  audioConfidence: number | null
+  events: TemporalFrameEvent[]
+  matchedFrames: number
+}
+
+export interface TemporalAlignmentOptions {
+  frameRate: number
+  startA?: number           // A media time to start analysing from
+  startB?: number           // B media time expected to match startA
+  duration?: number         // Seconds of A to analyse
+  maxOffsetSeconds?: number // Search range around startB
+  useVideo?: boolean
+  useAudio?: boolean
+  onProgress?: (progress: number, stage: string) => void
+  signal?: AbortSignal
+}
+
+/**
+ * Small normalised luma thumbnail used as a frame fingerprint
+ */
+export function computeFrameFingerprint(source: HTMLImageElement | HTMLVideoElement): Float32Array {
+  return normalize(getGrayscaleData(source, FINGERPRINT_WIDTH, FINGERPRINT_HEIGHT))
+}
+
+/**
+ * Similarity of two fingerprints (normalised cross-correlation, -1 to 1)
+ */
+function fingerprintSimilarity(a: Float32Array, b: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum / a.length
+}
+
+/**
+ * Fingerprint consecutive frames of a video starting at a media time
+ */
+export async function extractFrameFingerprints(
+  video: HTMLVideoElement,
+  startTime: number,
+  frameCount: number,
+  frameRate: number,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Float32Array[]> {
+  const fingerprints: Float32Array[] = []
+
+  for (let i = 0; i < frameCount; i++) {
+    if (signal?.aborted) break
+
+    // Sample the middle of each frame to avoid landing on a boundary
+    const time = startTime + (i + 0.5) / frameRate
+    if (time >= video.duration) break
+
+    await seekVideoAndWait(video, time)
+    fingerprints.push(computeFrameFingerprint(video))
+    onProgress?.((i + 1) / frameCount)
+  }
+
+  return fingerprints
+}
+
+/**
+ * Match two fingerprint sequences frame by frame.
+ * Dynamic programming over A frames; each step advances B by 0-3 frames.
+ * A step of 0 means B dropped a frame, a step of 2+ means B repeated frames.
+ */
+export function matchFrameSequences(
+  framesA: Float32Array[],
+  framesB: Float32Array[]
+): { path: number[]; similarity: number } {
+  const nA = framesA.length
+  const nB = framesB.length
+  if (nA === 0 || nB === 0) return { path: [], similarity: 0 }
+
+  const cost = new Float64Array(nA * nB).fill(Infinity)
+  const prev = new Int32Array(nA * nB).fill(-1)
+  const dist = (i: number, j: number) => (1 - fingerprintSimilarity(framesA[i], framesB[j])) / 2
+
+  // Any B frame may match the first A frame (unknown offset)
+  for (let j = 0; j < nB; j++) cost[j] = dist(0, j)
+
+  for (let i = 1; i < nA; i++) {
+    for (let j = 0; j < nB; j++) {
+      let best = Infinity
+      let bestPrev = -1
+      for (let step = 0; step <= MAX_FRAME_STEP; step++) {
+        const pj = j - step
+        if (pj < 0) break
+        const c = cost[(i - 1) * nB + pj] + (step === 1 ? 0 : STEP_PENALTY * Math.max(1, step - 1))
+        if (c < best) {
+          best = c
+          bestPrev = pj
+        }
+      }
+      if (bestPrev >= 0) {
+        cost[i * nB + j] = best + dist(i, j)
+        prev[i * nB + j] = bestPrev
+      }
+    }
+  }
+
+  // Best end point, then backtrack
+  let endJ = 0
+  for (let j = 1; j < nB; j++) {
+    if (cost[(nA - 1) * nB + j] < cost[(nA - 1) * nB + endJ]) endJ = j
+  }
+
+  const path = new Array<number>(nA)
+  let j = endJ
+  let totalDist = 0
+  for (let i = nA - 1; i >= 0; i--) {
+    path[i] = j
+    totalDist += dist(i, j)
+    j = i > 0 ? prev[i * nB + j] : j
+  }
+
+  return { path, similarity: 1 - 2 * (totalDist / nA) }
+}
+
+/**
+ * Least-squares fit of path[i] = intercept + slope * i
+ */
+function fitLine(path: number[]): { slope: number; intercept: number } {
+  const n = path.length
+  if (n < 2) return { slope: 1, intercept: path[0] ?? 0 }
+
+  let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0
+  for (let i = 0; i < n; i++) {
+    sumX += i
+    sumY += path[i]
+    sumXY += i * path[i]
+    sumXX += i * i
+  }
+  const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX)
+  return { slope, intercept: (sumY - slope * sumX) / n }
+}
+
+/**
+ * Decode the audio track of a media URL to a mono onset envelope
+ */
+async function decodeAudioEnvelope(url: string, startTime: number, duration: number): Promise<Float32Array | null> {
+  try {
+    const response = await fetch(url)
+    const arrayBuffer = await response.arrayBuffer()
+    const audioContext = new AudioContext()
+    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
+    audioContext.close()
+
+    const sampleRate = audioBuffer.sampleRate
+    const hop = Math.max(1, Math.floor(sampleRate / AUDIO_ENVELOPE_RATE))
+    const startSample = Math.max(0, Math.floor(startTime * sampleRate))
+    const endSample = Math.min(audioBuffer.length, Math.floor((startTime + duration) * sampleRate))
+    const length = Math.floor((endSample - startSample) / hop)
+    if (length <= 1) return null
+
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, c) => audioBuffer.getChannelData(c))
+    const energy = new Float32Array(length)
+    for (let k = 0; k < length; k++) {
+      let sum = 0
+      const offset = startSample + k * hop
+      for (const channel of channels) {
+        for (let s = 0; s < hop; s++) sum += Math.abs(channel[offset + s])
+      }
+      energy[k] = sum / (hop * channels.length)
+    }
+
+    // Onset strength: positive change in energy (robust to gain differences)
+    const envelope = new Float32Array(length)
+    for (let k = 1; k < length; k++) envelope[k] = Math.max(0, energy[k] - energy[k - 1])
+    return envelope
+  } catch {
+    return null // No audio track or undecodable
+  }
+}
+
+/**
+ * Find the lag of B relative to A by normalised cross-correlation of audio envelopes
+ */
+export async function estimateAudioOffset(
+  urlA: string,
+  urlB: string,
+  startA: number,
+  startB: number,
+  duration: number,
+  maxOffsetSeconds: number
+): Promise<{ offsetSeconds: number; confidence: number } | null> {
+  const searchStartB = Math.max(0, startB - maxOffsetSeconds)
+  const [envA, envB] = await Promise.all([
+    decodeAudioEnvelope(urlA, startA, duration),
+    decodeAudioEnvelope(urlB, searchStartB, duration + (startB - searchStartB) + maxOffsetSeconds),
+  ])
+  if (!envA || !envB) return null
+
+  const normA = normalize(envA)
+  const normB = normalize(envB)
+  const maxLag = normB.length - 1
+
+  let bestLag = 0
+  let bestCorr = -Infinity
+  for (let lag = 0; lag <= maxLag; lag++) {
+    const overlap = Math.min(normA.length, normB.length - lag)
+    // Require at least half of A to overlap
+    if (overlap < normA.length / 2) break
+
+    let corr = 0
+    for (let k = 0; k < overlap; k++) corr += normA[k] * normB[k + lag]
+    corr /= overlap
+
+    if (corr > bestCorr) {
+      bestCorr = corr
+      bestLag = lag
+    }
+  }
+
+  return {
+    offsetSeconds: searchStartB + bestLag / AUDIO_ENVELOPE_RATE - startA,
+    confidence: Math.max(0, Math.min(1, bestCorr)),
+  }
+}
+
+/**
+ * Find the temporal offset between two videos and detect dropped/duplicated frames.
+ * Uses frame fingerprints and, when available, audio cross-correlation.
+ */
+export async function alignVideosByContent(
+  urlA: string,
+  urlB: string,
+  options: TemporalAlignmentOptions
+): Promise<TemporalAlignmentResult> {
+  const {
+    frameRate,
+    startA = 0,
+    startB = 0,
+    duration = 10,
+    maxOffsetSeconds = 5,
+    useVideo = true,
+    useAudio = true,
+    onProgress,
+    signal,
+  } = options
+
+  let videoOffset: number | null = null
+  let videoConfidence = 0
+  let speedRatio = 1
+  let retimeOffset = 0
+  let matchedFrames = 0
+  const events: TemporalFrameEvent[] = []
+
+  if (useVideo) {
+    const videoA = createAnalysisVideo(urlA)
+    const videoB = createAnalysisVideo(urlB)
+
+    try {
+      await Promise.all([waitForVideoMetadata(videoA), waitForVideoMetadata(videoB)])
+
+      const countA = Math.max(2, Math.floor(Math.min(duration, videoA.duration - startA) * frameRate))
+      const searchStartB = Math.max(0, startB - maxOffsetSeconds)
+      const countB = Math.floor((startB - searchStartB + duration + maxOffsetSeconds) * frameRate)
+
+      const framesA = await extractFrameFingerprints(
+        videoA, startA, countA, frameRate, p => onProgress?.(p * 40, 'Fingerprinting A'), signal
+      )
+      const framesB = await extractFrameFingerprints(
+        videoB, searchStartB, countB, frameRate, p => onProgress?.(40 + p * 40, 'Fingerprinting B'), signal
+      )
+      if (signal?.aborted) throw new DOMException('Alignment cancelled', 'AbortError')
+
+      onProgress?.(85, 'Matching frames')
+      const { path, similarity } = matchFrameSequences(framesA, framesB)
+
+      if (path.length > 0) {
+        matchedFrames = path.length
+        videoConfidence = Math.max(0, Math.min(1, similarity))
+
+        // Start offset from the median lag over the first second
+        const head = path.slice(0, Math.max(1, Math.min(path.length, Math.round(frameRate))))
+          .map((j, i) => j - i)
+          .sort((a, b) => a - b)
+        const startLag = head[Math.floor(head.length / 2)]
+        videoOffset = searchStartB - startA + startLag / frameRate
+
+        // Systematic rate difference (e.g. 25 vs 23.976 fps conform)
+        const fit = fitLine(path)
+        speedRatio = fit.slope
+        // tB = searchStartB + (intercept + slope * (tA - startA) * fps) / fps
+        retimeOffset = searchStartB + fit.intercept / frameRate - fit.slope * startA
+
+        // Drops and duplicates from non-diagonal steps
+        for (let i = 1; i < path.length; i++) {
+          const step = path[i] - path[i - 1]
+          if (step === 1) continue
+          const event: TemporalFrameEvent = {
+            type: step === 0 ? 'drop' : 'duplicate',
+            timeA: startA + i / frameRate,
+            timeB: searchStartB + path[i] / frameRate,
+            frames: step === 0 ? 1 : step - 1,
+          }
+          // Merge runs of consecutive drops
+          const last = events[events.length - 1]
+          if (last && last.type === event.type && event.type === 'drop' && Math.abs(last.timeB - event.timeB) < 0.5 / frameRate) {
+            last.frames++
+          } else {
+            events.push(event)
+          }
+        }
+      }
+    } finally {
+      releaseAnalysisVideo(videoA)
+      releaseAnalysisVideo(videoB)
+    }
+  }
+
+  let audio: { offsetSeconds: number; confidence: number } | null = null
+  if (useAudio && !signal?.aborted) {
+    onProgress?.(90, 'Correlating audio')
+    audio = await estimateAudioOffset(urlA, urlB, startA, startB, duration, maxOffsetSeconds)
+  }
+  onProgress?.(100, 'Done')
+
+  // Combine: prefer video, fall back to audio when video is unreliable
+  let method: TemporalAlignmentResult['method'] = 'video'
+  let offsetSeconds = videoOffset ?? 0
+  let confidence = videoConfidence
+
+  if (audio) {
+    const agrees = videoOffset !== null && Math.abs(audio.offsetSeconds - videoOffset) <= 1.5 / frameRate
+    if (videoOffset === null || (!agrees && audio.confidence > videoConfidence)) {
+      method = 'audio'
+      offsetSeconds = audio.offsetSeconds
+      confidence = audio.confidence
+      speedRatio = 1
+      retimeOffset = audio.offsetSeconds
+    } else if (agrees) {
+      method = 'video+audio'
+      confidence = Math.max(videoConfidence, audio.confidence)
+    }
+  }
+
+  return {
+    offsetSeconds,
+    speedRatio,
+    retimeOffsetSeconds: retimeOffset,
+    confidence,
+    method,
+    videoOffsetSeconds: videoOffset,
+    audioOffsetSeconds: audio?.offsetSeconds ?? null,
+    audioConfidence: audio?.confidence ?? null,
+    events,
+    matchedFrames,
+  }
+}
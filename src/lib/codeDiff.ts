@@ -0,0 +1,272 @@
+/**
+ * Code Diff
+ * CODE-001: Side-by-side line diff for source code. Lines are aligned by
+ * LCS on a comparison key (optionally without whitespace or comments),
+ * changed lines are paired for intra-line token highlighting, and blocks
+ * removed in one place and added unchanged in another are reported as
+ * moves instead of a deletion plus an insertion.
+ */
+
+import { computeCodeTokenDiff, type DiffPart } from './textDiff'
+import { tokenizeCode, type CodeLanguage, type SyntaxToken } from './syntaxHighlight'
+
+export type CodeDiffCellKind = 'equal' | 'added' | 'removed' | 'moved' | 'ignored'
+
+export interface CodeDiffCell {
+  line: number // 1-based
+  text: string
+  tokens: SyntaxToken[]
+  kind: CodeDiffCellKind
+  inline?: DiffPart[] // Intra-line diff (equal + own side's changes) when paired
+  moveId?: number
+  movedLine?: number // Line on the other side for moved cells
+}
+
+export interface CodeDiffRow {
+  left: CodeDiffCell | null
+  right: CodeDiffCell | null
+}
+
+export interface CodeDiffStats {
+  added: number
+  removed: number
+  modified: number
+  movedBlocks: number
+  movedLines: number
+}
+
+export interface CodeDiffResult {
+  rows: CodeDiffRow[]
+  stats: CodeDiffStats
+  aligned: boolean // False when the files were too large to align line by line
+}
+
+export interface CodeDiffOptions {
+  ignoreWhitespace: boolean
+  ignoreComments: boolean
+}
+
+// Shortest run of lines reported as a moved block
+const MIN_MOVED_LINES = 3
+
+// Largest LCS table (lines A × lines B) before giving up on alignment
+const MAX_ALIGN_CELLS = 16_000_000
+
+// Largest intra-line token table before a pair is shown as whole lines
+const MAX_INLINE_CELLS = 250_000
+
+interface SourceLine {
+  text: string
+  tokens: SyntaxToken[]
+  key: string // What is compared
+  ignorable: boolean // Blank or comment-only under the current options
+}
+
+type LineOp = { type: 'equal'; a: number; b: number } | { type: 'removed'; a: number } | { type: 'added'; b: number }
+
+function prepareLines(text: string, language: CodeLanguage, options: CodeDiffOptions): SourceLine[] {
+  const lines = text.split('\n')
+  const tokenLines = tokenizeCode(text, language)
+
+  return lines.map((line, i) => {
+    const tokens = tokenLines[i]
+    let key = options.ignoreComments
+      ? tokens.filter(t => t.type !== 'comment').map(t => t.text).join('').trimEnd()
+      : line
+    if (options.ignoreWhitespace) key = key.replace(/\s+/g, '')
+    const ignorable = key.trim() === '' && (
+      (options.ignoreWhitespace && line.trim() === '') ||
+      (options.ignoreComments && tokens.some(t => t.type === 'comment'))
+    )
+    return { text: line, tokens, key, ignorable }
+  })
+}
+
+/**
+ * LCS alignment of line keys; a common prefix and suffix are matched
+ * first so the table only covers the changed middle
+ */
+function alignLines(a: SourceLine[], b: SourceLine[]): { ops: LineOp[]; aligned: boolean } {
+  let start = 0
+  while (start < a.length && start < b.length && a[start].key === b[start].key) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1].key === b[endB - 1].key) {
+    endA--
+    endB--
+  }
+
+  const ops: LineOp[] = []
+  for (let i = 0; i < start; i++) ops.push({ type: 'equal', a: i, b: i })
+
+  const m = endA - start
+  const n = endB - start
+  const aligned = m * n <= MAX_ALIGN_CELLS
+  if (!aligned) {
+    for (let i = start; i < endA; i++) ops.push({ type: 'removed', a: i })
+    for (let j = start; j < endB; j++) ops.push({ type: 'added', b: j })
+  } else {
+    const width = n + 1
+    const dp = new Uint32Array((m + 1) * width)
+    for (let i = m - 1; i >= 0; i--) {
+      for (let j = n - 1; j >= 0; j--) {
+        dp[i * width + j] = a[start + i].key === b[start + j].key
+          ? dp[(i + 1) * width + j + 1] + 1
+          : Math.max(dp[(i + 1) * width + j], dp[i * width + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < m || j < n) {
+      if (i < m && j < n && a[start + i].key === b[start + j].key) {
+        ops.push({ type: 'equal', a: start + i, b: start + j })
+        i++
+        j++
+      } else if (i < m && (j === n || dp[(i + 1) * width + j] >= dp[i * width + j + 1])) {
+        ops.push({ type: 'removed', a: start + i })
+        i++
+      } else {
+        ops.push({ type: 'added', b: start + j })
+        j++
+      }
+    }
+  }
+
+  for (let k = 0; endA + k < a.length; k++) ops.push({ type: 'equal', a: endA + k, b: endB + k })
+  return { ops, aligned }
+}
+
+/**
+ * Runs of removed lines that reappear as consecutive added lines
+ */
+function findMoves(
+  a: SourceLine[],
+  b: SourceLine[],
+  ops: LineOp[]
+): { movedA: Map<number, [number, number]>; movedB: Map<number, [number, number]>; blocks: number } {
+  const removed = new Set<number>()
+  const added = new Set<number>()
+  const addedByKey = new Map<string, number[]>()
+  for (const op of ops) {
+    if (op.type === 'removed' && !a[op.a].ignorable) removed.add(op.a)
+    if (op.type === 'added' && !b[op.b].ignorable) {
+      added.add(op.b)
+      addedByKey.set(b[op.b].key, [...(addedByKey.get(b[op.b].key) ?? []), op.b])
+    }
+  }
+
+  // Line → [move id, line on the other side]
+  const movedA = new Map<number, [number, number]>()
+  const movedB = new Map<number, [number, number]>()
+  let blocks = 0
+  const isFree = (i: number, j: number) =>
+    removed.has(i) && !movedA.has(i) && added.has(j) && !movedB.has(j) && a[i].key === b[j].key
+
+  for (let i = 0; i < a.length; i++) {
+    if (!removed.has(i) || movedA.has(i)) continue
+
+    let bestStart = -1
+    let bestLength = 0
+    for (const j of addedByKey.get(a[i].key) ?? []) {
+      let length = 0
+      while (isFree(i + length, j + length)) length++
+      if (length > bestLength) {
+        bestStart = j
+        bestLength = length
+      }
+    }
+
+    // Ignore runs of braces and other lines with nothing to identify them
+    const substantial = Array.from({ length: bestLength }, (_, k) => a[i + k].key).filter(key => /\w/.test(key)).length
+    if (bestLength < MIN_MOVED_LINES || substantial < 2) continue
+
+    blocks++
+    for (let k = 0; k < bestLength; k++) {
+      movedA.set(i + k, [blocks, bestStart + k])
+      movedB.set(bestStart + k, [blocks, i + k])
+    }
+    i += bestLength - 1
+  }
+
+  return { movedA, movedB, blocks }
+}
+
+/**
+ * Diff two versions of a source file into side-by-side rows
+ */
+export function computeCodeDiff(
+  textA: string,
+  textB: string,
+  language: CodeLanguage,
+  options: CodeDiffOptions
+): CodeDiffResult {
+  const a = prepareLines(textA, language, options)
+  const b = prepareLines(textB, language, options)
+  const { ops, aligned } = alignLines(a, b)
+  const { movedA, movedB, blocks } = findMoves(a, b, ops)
+  const stats: CodeDiffStats = { added: 0, removed: 0, modified: 0, movedBlocks: blocks, movedLines: movedA.size }
+
+  const cell = (lines: SourceLine[], index: number, kind: CodeDiffCellKind, moved?: [number, number]): CodeDiffCell => ({
+    line: index + 1,
+    text: lines[index].text,
+    tokens: lines[index].tokens,
+    kind: moved ? 'moved' : lines[index].ignorable && kind !== 'equal' ? 'ignored' : kind,
+    moveId: moved?.[0],
+    movedLine: moved ? moved[1] + 1 : undefined,
+  })
+
+  const rows: CodeDiffRow[] = []
+  let k = 0
+  while (k < ops.length) {
+    const op = ops[k]
+    if (op.type === 'equal') {
+      rows.push({ left: cell(a, op.a, 'equal'), right: cell(b, op.b, 'equal') })
+      k++
+      continue
+    }
+
+    // A hunk: pair plain removed and added lines in order; moved and
+    // ignored lines get rows of their own
+    const left: CodeDiffCell[] = []
+    const right: CodeDiffCell[] = []
+    for (; k < ops.length && ops[k].type !== 'equal'; k++) {
+      const hunkOp = ops[k]
+      if (hunkOp.type === 'removed') left.push(cell(a, hunkOp.a, 'removed', movedA.get(hunkOp.a)))
+      else if (hunkOp.type === 'added') right.push(cell(b, hunkOp.b, 'added', movedB.get(hunkOp.b)))
+    }
+
+    let l = 0
+    let r = 0
+    while (l < left.length || r < right.length) {
+      const leftCell = left[l]
+      const rightCell = right[r]
+      if (leftCell && (leftCell.kind !== 'removed' || !rightCell)) {
+        if (leftCell.kind === 'removed') stats.removed++
+        rows.push({ left: leftCell, right: null })
+        l++
+      } else if (rightCell && (rightCell.kind !== 'added' || !leftCell)) {
+        if (rightCell.kind === 'added') stats.added++
+        rows.push({ left: null, right: rightCell })
+        r++
+      } else {
+        stats.modified++
+        const cellsA = leftCell.text.length
+        const cellsB = rightCell.text.length
+        if (cellsA * cellsB <= MAX_INLINE_CELLS) {
+          const parts = computeCodeTokenDiff(leftCell.text, rightCell.text)
+          // Only worth highlighting when the lines still share some code
+          if (parts.some(p => p.type === 'equal' && /\w/.test(p.text))) {
+            leftCell.inline = parts.filter(p => p.type !== 'added')
+            rightCell.inline = parts.filter(p => p.type !== 'removed')
+          }
+        }
+        rows.push({ left: leftCell, right: rightCell })
+        l++
+        r++
+      }
+    }
+  }
+
+  return { rows, stats, aligned }
+}
@@ -0,0 +1,363 @@
+/**
+ * Colour Grading
+ * COLOR-001: Per-clip grade (temperature/tint, lift/gamma/gain, curves) and
+ * 3D LUTs loaded from .cube files. The WebGL grade renderer runs the same
+ * maths in a shader; this CPU version is its fallback and reference.
+ */
+
+import type { ColorGrade, CurveChannel, CurvePoint, GradeRGB } from '../types'
+
+// Adobe / Resolve .cube 3D LUT, red varying fastest
+export interface CubeLUT {
+  title: string
+  size: number
+  domainMin: GradeRGB
+  domainMax: GradeRGB
+  data: Float32Array // size^3 RGB triplets
+}
+
+// LUT library entry
+export interface ColorLUT extends CubeLUT {
+  id: string
+  name: string
+}
+
+export const CURVE_CHANNELS: CurveChannel[] = ['master', 'red', 'green', 'blue']
+
+// Resolution of the baked curve tables
+export const CURVE_TABLE_SIZE = 256
+
+// 1D LUTs are expanded to a 3D LUT of this size
+const EXPANDED_1D_SIZE = 33
+
+// Largest LUT accepted (65 is the common maximum)
+const MAX_LUT_SIZE = 65
+
+// Temperature and tint scale at ±1
+const WHITE_BALANCE_RANGE = 0.2
+
+const identityCurve = (): CurvePoint[] => [{ x: 0, y: 0 }, { x: 1, y: 1 }]
+
+export function createDefaultGrade(): ColorGrade {
+  return {
+    enabled: true,
+    lift: [0, 0, 0],
+    gamma: [1, 1, 1],
+    gain: [1, 1, 1],
+    temperature: 0,
+    tint: 0,
+    curves: {
+      master: identityCurve(),
+      red: identityCurve(),
+      green: identityCurve(),
+      blue: identityCurve(),
+    },
+    lutIntensity: 1,
+  }
+}
+
+const isIdentityCurve = (points: CurvePoint[]) =>
+  points.every(p => Math.abs(p.x - p.y) < 1e-4)
+
+/**
+ * Whether a grade leaves pixels unchanged (nothing to render)
+ */
+export function isIdentityGrade(grade: ColorGrade | undefined, lut?: CubeLUT | null): boolean {
+  if (!grade || !grade.enabled) return true
+  return (
+    grade.lift.every(v => v === 0) &&
+    grade.gamma.every(v => v === 1) &&
+    grade.gain.every(v => v === 1) &&
+    grade.temperature === 0 &&
+    grade.tint === 0 &&
+    CURVE_CHANNELS.every(channel => isIdentityCurve(grade.curves[channel])) &&
+    (!lut || grade.lutIntensity <= 0)
+  )
+}
+
+// ============================================================================
+// .cube parsing
+// ============================================================================
+
+/**
+ * Parse a .cube file. 1D LUTs are expanded to an equivalent 3D LUT.
+ * Throws with a line-specific message on malformed input.
+ */
+export function parseCubeLUT(text: string): CubeLUT {
+  let title = ''
+  let size3D = 0
+  let size1D = 0
+  let domainMin: GradeRGB = [0, 0, 0]
+  let domainMax: GradeRGB = [1, 1, 1]
+  const values: number[] = []
+
+  const lines = text.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (!line || line.startsWith('#')) continue
+
+    const [keyword, ...rest] = line.split(/\s+/)
+    switch (keyword) {
+      case 'TITLE':
+        title = line.slice(5).trim().replace(/^"|"$/g, '')
+        continue
+      case 'LUT_3D_SIZE':
+        size3D = parseInt(rest[0], 10)
+        continue
+      case 'LUT_1D_SIZE':
+        size1D = parseInt(rest[0], 10)
+        continue
+      case 'DOMAIN_MIN':
+        domainMin = parseTriplet(rest, i)
+        continue
+      case 'DOMAIN_MAX':
+        domainMax = parseTriplet(rest, i)
+        continue
+      case 'LUT_1D_INPUT_RANGE':
+      case 'LUT_3D_INPUT_RANGE': {
+        const [min, max] = rest.map(Number)
+        domainMin = [min, min, min]
+        domainMax = [max, max, max]
+        continue
+      }
+    }
+
+    if (/^[-+.\d]/.test(keyword)) {
+      values.push(...parseTriplet([keyword, ...rest], i))
+    }
+    // Other keywords (LUT_IN_VIDEO_RANGE, vendor extensions) are ignored
+  }
+
+  if (!size3D && !size1D) {
+    throw new Error('Not a .cube LUT: missing LUT_3D_SIZE or LUT_1D_SIZE')
+  }
+  if (domainMax.some((max, c) => max <= domainMin[c])) {
+    throw new Error('Invalid .cube LUT: DOMAIN_MAX must exceed DOMAIN_MIN')
+  }
+
+  if (size3D) {
+    if (size3D < 2 || size3D > MAX_LUT_SIZE) {
+      throw new Error(`Unsupported LUT size ${size3D} (2-${MAX_LUT_SIZE})`)
+    }
+    const expected = size3D ** 3 * 3
+    if (values.length !== expected) {
+      throw new Error(`Invalid .cube LUT: expected ${expected / 3} entries, found ${values.length / 3}`)
+    }
+    return { title, size: size3D, domainMin, domainMax, data: new Float32Array(values) }
+  }
+
+  if (size1D < 2 || values.length !== size1D * 3) {
+    throw new Error(`Invalid .cube LUT: expected ${size1D} 1D entries, found ${values.length / 3}`)
+  }
+  return { title, size: EXPANDED_1D_SIZE, domainMin, domainMax, data: expand1DLUT(values, size1D) }
+}
+
+function parseTriplet(parts: string[], lineIndex: number): GradeRGB {
+  const triplet = parts.slice(0, 3).map(Number)
+  if (triplet.length !== 3 || triplet.some(v => !Number.isFinite(v))) {
+    throw new Error(`Invalid .cube LUT: bad values on line ${lineIndex + 1}`)
+  }
+  return triplet as GradeRGB
+}
+
+// Per-channel 1D table resampled onto a 3D grid
+function expand1DLUT(values: number[], size1D: number): Float32Array {
+  const n = EXPANDED_1D_SIZE
+  const sample = (channel: number, t: number) => {
+    const x = t * (size1D - 1)
+    const i = Math.min(Math.floor(x), size1D - 2)
+    const f = x - i
+    return values[i * 3 + channel] * (1 - f) + values[(i + 1) * 3 + channel] * f
+  }
+  const data = new Float32Array(n ** 3 * 3)
+  for (let b = 0; b < n; b++) {
+    for (let g = 0; g < n; g++) {
+      for (let r = 0; r < n; r++) {
+        const index = ((b * n + g) * n + r) * 3
+        data[index] = sample(0, r / (n - 1))
+        data[index + 1] = sample(1, g / (n - 1))
+        data[index + 2] = sample(2, b / (n - 1))
+      }
+    }
+  }
+  return data
+}
+
+/**
+ * Trilinear LUT lookup of a 0-1 RGB value (already in the LUT domain)
+ */
+export function sampleLUT(lut: CubeLUT, r: number, g: number, b: number): GradeRGB {
+  const n = lut.size
+  const coords = [r, g, b].map((v, c) => {
+    const t = (v - lut.domainMin[c]) / (lut.domainMax[c] - lut.domainMin[c])
+    const x = Math.max(0, Math.min(1, t)) * (n - 1)
+    const i = Math.min(Math.floor(x), n - 2)
+    return { i, f: x - i }
+  })
+  const at = (ri: number, gi: number, bi: number, c: number) => lut.data[((bi * n + gi) * n + ri) * 3 + c]
+
+  const out: GradeRGB = [0, 0, 0]
+  const [cr, cg, cb] = coords
+  for (let c = 0; c < 3; c++) {
+    const c00 = at(cr.i, cg.i, cb.i, c) * (1 - cr.f) + at(cr.i + 1, cg.i, cb.i, c) * cr.f
+    const c10 = at(cr.i, cg.i + 1, cb.i, c) * (1 - cr.f) + at(cr.i + 1, cg.i + 1, cb.i, c) * cr.f
+    const c01 = at(cr.i, cg.i, cb.i + 1, c) * (1 - cr.f) + at(cr.i + 1, cg.i, cb.i + 1, c) * cr.f
+    const c11 = at(cr.i, cg.i + 1, cb.i + 1, c) * (1 - cr.f) + at(cr.i + 1, cg.i + 1, cb.i + 1, c) * cr.f
+    const c0 = c00 * (1 - cg.f) + c10 * cg.f
+    const c1 = c01 * (1 - cg.f) + c11 * cg.f
+    out[c] = c0 * (1 - cb.f) + c1 * cb.f
+  }
+  return out
+}
+
+/**
+ * 8-bit texture of a 3D LUT for WebGL 1: blue slices as size x size tiles
+ * in a near-square grid, row by row, so a 65³ LUT stays well inside
+ * MAX_TEXTURE_SIZE. The shader blends the two nearest slices.
+ */
+export function packLUTTexture(lut: CubeLUT): { width: number; height: number; columns: number; rows: number; data: Uint8Array } {
+  const n = lut.size
+  const columns = Math.ceil(Math.sqrt(n))
+  const rows = Math.ceil(n / columns)
+  const width = columns * n
+  const data = new Uint8Array(width * rows * n * 4)
+  for (let b = 0; b < n; b++) {
+    const tileX = (b % columns) * n
+    const tileY = Math.floor(b / columns) * n
+    for (let g = 0; g < n; g++) {
+      for (let r = 0; r < n; r++) {
+        const src = ((b * n + g) * n + r) * 3
+        const dst = ((tileY + g) * width + tileX + r) * 4
+        data[dst] = Math.round(Math.max(0, Math.min(1, lut.data[src])) * 255)
+        data[dst + 1] = Math.round(Math.max(0, Math.min(1, lut.data[src + 1])) * 255)
+        data[dst + 2] = Math.round(Math.max(0, Math.min(1, lut.data[src + 2])) * 255)
+        data[dst + 3] = 255
+      }
+    }
+  }
+  return { width, height: rows * n, columns, rows, data }
+}
+
+// ============================================================================
+// Curves
+// ============================================================================
+
+/**
+ * Monotone cubic (Fritsch-Carlson) curve through the points, flat beyond
+ * the first and last point
+ */
+export function evaluateCurve(points: CurvePoint[], x: number): number {
+  const sorted = [...points].sort((a, b) => a.x - b.x)
+  if (sorted.length === 0) return x
+  if (sorted.length === 1 || x <= sorted[0].x) return clamp01(sorted[0].y)
+  const last = sorted[sorted.length - 1]
+  if (x >= last.x) return clamp01(last.y)
+
+  const n = sorted.length
+  const slopes: number[] = []
+  for (let i = 0; i < n - 1; i++) {
+    const dx = sorted[i + 1].x - sorted[i].x
+    slopes.push(dx > 0 ? (sorted[i + 1].y - sorted[i].y) / dx : 0)
+  }
+  const tangents = sorted.map((_, i) => {
+    if (i === 0) return slopes[0]
+    if (i === n - 1) return slopes[n - 2]
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2
+  })
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0
+      tangents[i + 1] = 0
+      continue
+    }
+    const a = tangents[i] / slopes[i]
+    const b = tangents[i + 1] / slopes[i]
+    const h = Math.hypot(a, b)
+    if (h > 3) {
+      tangents[i] = (3 / h) * a * slopes[i]
+      tangents[i + 1] = (3 / h) * b * slopes[i]
+    }
+  }
+
+  let i = 0
+  while (x > sorted[i + 1].x) i++
+  const p0 = sorted[i]
+  const p1 = sorted[i + 1]
+  const h = p1.x - p0.x
+  const t = (x - p0.x) / h
+  const t2 = t * t
+  const t3 = t2 * t
+  const y =
+    (2 * t3 - 3 * t2 + 1) * p0.y +
+    (t3 - 2 * t2 + t) * h * tangents[i] +
+    (-2 * t3 + 3 * t2) * p1.y +
+    (t3 - t2) * h * tangents[i + 1]
+  return clamp01(y)
+}
+
+/**
+ * Master and per-channel curves baked into one RGBA table:
+ * channel(master(x)) for red, green and blue
+ */
+export function bakeCurves(curves: Record<CurveChannel, CurvePoint[]>): Uint8Array {
+  const table = new Uint8Array(CURVE_TABLE_SIZE * 4)
+  for (let i = 0; i < CURVE_TABLE_SIZE; i++) {
+    const master = evaluateCurve(curves.master, i / (CURVE_TABLE_SIZE - 1))
+    table[i * 4] = Math.round(evaluateCurve(curves.red, master) * 255)
+    table[i * 4 + 1] = Math.round(evaluateCurve(curves.green, master) * 255)
+    table[i * 4 + 2] = Math.round(evaluateCurve(curves.blue, master) * 255)
+    table[i * 4 + 3] = 255
+  }
+  return table
+}
+
+// ============================================================================
+// CPU grade
+// ============================================================================
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v))
+
+/**
+ * White balance multipliers: temperature trades red against blue, tint
+ * (positive = magenta) scales green
+ */
+export function getWhiteBalance(grade: ColorGrade): GradeRGB {
+  return [
+    1 + WHITE_BALANCE_RANGE * grade.temperature,
+    1 - WHITE_BALANCE_RANGE * grade.tint,
+    1 - WHITE_BALANCE_RANGE * grade.temperature,
+  ]
+}
+
+/**
+ * Grade 8-bit RGBA pixels in place. Must match COLOR_GRADE_SHADER.
+ */
+export function applyColorGrade(data: Uint8ClampedArray, grade: ColorGrade, lut?: CubeLUT | null): void {
+  const balance = getWhiteBalance(grade)
+  const invGamma = grade.gamma.map(g => 1 / Math.max(0.1, g))
+  const curves = bakeCurves(grade.curves)
+  const curve = (value: number, c: number) => {
+    const x = value * (CURVE_TABLE_SIZE - 1)
+    const i = Math.min(Math.floor(x), CURVE_TABLE_SIZE - 2)
+    const f = x - i
+    return (curves[i * 4 + c] * (1 - f) + curves[(i + 1) * 4 + c] * f) / 255
+  }
+  const lutMix = lut ? clamp01(grade.lutIntensity) : 0
+  const rgb: GradeRGB = [0, 0, 0]
+
+  for (let p = 0; p < data.length; p += 4) {
+    for (let c = 0; c < 3; c++) {
+      let v = (data[p + c] / 255) * balance[c]
+      v = grade.gain[c] * (v + grade.lift[c] * (1 - v))
+      v = Math.pow(Math.max(v, 0), invGamma[c])
+      rgb[c] = curve(clamp01(v), c)
+    }
+    if (lut && lutMix > 0) {
+      const mapped = sampleLUT(lut, rgb[0], rgb[1], rgb[2])
+      for (let c = 0; c < 3; c++) rgb[c] += (clamp01(mapped[c]) - rgb[c]) * lutMix
+    }
+    data[p] = Math.round(rgb[0] * 255)
+    data[p + 1] = Math.round(rgb[1] * 255)
+    data[p + 2] = Math.round(rgb[2] * 255)
+  }
+}
@@ -2,6 +2,8 @@
  * Document Parser Utilities
  *
  * Parses CSV, Excel, DOCX, and PDF files for comparison
+ * PPTX-001: PowerPoint slides; OpenDocument text (ODT) and spreadsheets
+ * (ODS) into the DOCX and Excel shapes so their comparisons are reused
  */
 
 import type { DocumentMetadata, ParsedDocumentContent, ParsedSheet, ParsedPDFPage, MediaType } from '../types'
@@ -9,6 +11,8 @@ import Papa from 'papaparse'
 import * as XLSX from 'xlsx'
 import mammoth from 'mammoth'
 import * as pdfjsLib from 'pdfjs-dist'
+import JSZip from 'jszip'
+import { parsePPTXSlides } from './pptxParser'
 
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`
@@ -23,11 +27,15 @@ export function getDocumentType(fileName: string): MediaType | null {
       return 'csv'
     case 'xlsx':
     case 'xls':
+    case 'ods': // SheetJS reads OpenDocument spreadsheets
       return 'excel'
     case 'docx':
+    case 'odt':
       return 'docx'
     case 'pdf':
       return 'pdf'
+    case 'pptx':
+      return 'pptx'
     default:
       return null
   }
@@ -136,6 +144,156 @@ export async function parseDOCX(file: File): Promise<DocumentMetadata> {
   }
 }
 
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Parse ODT file into the DOCX shape: HTML for headings, paragraphs, lists
+ * and tables (bold / italic from automatic styles), and paragraph text
+ */
+export async function parseODT(file: File): Promise<DocumentMetadata> {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer())
+  const xml = await zip.file('content.xml')?.async('string')
+  if (!xml) throw new Error('Not an OpenDocument text file: content.xml missing')
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+
+  // Automatic styles that make spans bold or italic
+  const inlineTags = new Map<string, string[]>()
+  for (const style of Array.from(doc.getElementsByTagName('style:style'))) {
+    const props = style.getElementsByTagName('style:text-properties')[0]
+    const tags: string[] = []
+    if (props?.getAttribute('fo:font-weight') === 'bold') tags.push('strong')
+    if (props?.getAttribute('fo:font-style') === 'italic') tags.push('em')
+    if (tags.length > 0) inlineTags.set(style.getAttribute('style:name') ?? '', tags)
+  }
+
+  const paragraphs: string[] = []
+
+  // Inline content of a paragraph or heading as [html, text]
+  const inline = (node: Node): [string, string] => {
+    let html = ''
+    let text = ''
+    for (const childNode of Array.from(node.childNodes)) {
+      if (childNode.nodeType === Node.TEXT_NODE) {
+        html += escapeHTML(childNode.textContent ?? '')
+        text += childNode.textContent ?? ''
+        continue
+      }
+      if (childNode.nodeType !== Node.ELEMENT_NODE) continue
+      const element = childNode as Element
+      switch (element.tagName) {
+        case 'text:s': {
+          const spaces = ' '.repeat(Number(element.getAttribute('text:c')) || 1)
+          html += spaces
+          text += spaces
+          break
+        }
+        case 'text:tab':
+          html += '\t'
+          text += '\t'
+          break
+        case 'text:line-break':
+          html += '<br>'
+          text += '\n'
+          break
+        case 'text:note':
+        case 'office:annotation':
+          break
+        default: {
+          const [innerHTML, innerText] = inline(element)
+          const tags = inlineTags.get(element.getAttribute('text:style-name') ?? '') ?? []
+          html += tags.map(t => `<${t}>`).join('') + innerHTML + [...tags].reverse().map(t => `</${t}>`).join('')
+          text += innerText
+        }
+      }
+    }
+    return [html, text]
+  }
+
+  // Block content as HTML; paragraph text collected in order
+  const block = (node: Element): string => {
+    let html = ''
+    for (const element of Array.from(node.children)) {
+      switch (element.tagName) {
+        case 'text:h': {
+          const level = Math.min(6, Math.max(1, Number(element.getAttribute('text:outline-level')) || 1))
+          const [content, text] = inline(element)
+          html += `<h${level}>${content}</h${level}>`
+          paragraphs.push(text)
+          break
+        }
+        case 'text:p': {
+          const [content, text] = inline(element)
+          html += `<p>${content}</p>`
+          paragraphs.push(text)
+          break
+        }
+        case 'text:list':
+          html += `<ul>${Array.from(element.children)
+            .filter(item => item.tagName === 'text:list-item')
+            .map(item => `<li>${block(item)}</li>`)
+            .join('')}</ul>`
+          break
+        case 'table:table':
+          html += `<table>${block(element)}</table>`
+          break
+        case 'table:table-row':
+          html += `<tr>${block(element)}</tr>`
+          break
+        case 'table:table-cell':
+          html += `<td>${block(element)}</td>`
+          break
+        case 'text:sequence-decls':
+        case 'text:variable-decls':
+        case 'office:forms':
+          break
+        default:
+          // Sections, table header rows and other containers
+          html += block(element)
+      }
+    }
+    return html
+  }
+
+  const body = doc.getElementsByTagName('office:text')[0]
+  const html = body ? block(body) : ''
+  const text = paragraphs.map(p => `${p}\n\n`).join('')
+
+  const words = text.trim().split(/\s+/).filter(w => w.length > 0)
+
+  const parsedContent: ParsedDocumentContent = {
+    type: 'docx',
+    html,
+    text
+  }
+
+  return {
+    wordCount: words.length,
+    paragraphCount: paragraphs.filter(p => p.trim().length > 0).length,
+    parsedContent
+  }
+}
+
+/**
+ * Parse PPTX file
+ */
+export async function parsePPTX(file: File): Promise<DocumentMetadata> {
+  const slides = await parsePPTXSlides(await file.arrayBuffer())
+
+  const parsedContent: ParsedDocumentContent = {
+    type: 'pptx',
+    slides
+  }
+
+  return {
+    slideCount: slides.length,
+    wordCount: slides.reduce((sum, slide) => sum + slide.text.split(/\s+/).filter(Boolean).length, 0),
+    hasText: slides.some(slide => slide.text.trim().length > 0),
+    parsedContent
+  }
+}
+
 /**
  * Parse PDF file
  */
@@ -208,9 +366,11 @@ export async function parseDocument(file: File): Promise<DocumentMetadata | null
     case 'excel':
       return parseExcel(file)
     case 'docx':
-      return parseDOCX(file)
+      return file.name.toLowerCase().endsWith('.odt') ? parseODT(file) : parseDOCX(file)
     case 'pdf':
       return parsePDF(file)
+    case 'pptx':
+      return parsePPTX(file)
     default:
       return null
   }
@@ -233,7 +393,8 @@ export function generateDocumentThumbnail(docType: MediaType): string {
     csv: { bg: '#22c55e', fg: '#ffffff', icon: 'CSV' },
     excel: { bg: '#16a34a', fg: '#ffffff', icon: 'XLS' },
     docx: { bg: '#2563eb', fg: '#ffffff', icon: 'DOC' },
-    pdf: { bg: '#dc2626', fg: '#ffffff', icon: 'PDF' }
+    pdf: { bg: '#dc2626', fg: '#ffffff', icon: 'PDF' },
+    pptx: { bg: '#ea580c', fg: '#ffffff', icon: 'PPT' }
   }
 
   const color = colors[docType] || { bg: '#6b7280', fg: '#ffffff', icon: '?' }
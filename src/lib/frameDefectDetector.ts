@@ -0,0 +1,229 @@
+/**
+ * Frame Defect Detection
+ * QA-001: Walk a single video clip frame by frame and flag duplicated frames,
+ * frozen runs, sudden black frames and dropped frames from the frame-to-frame
+ * luma difference and the expected cadence of the surrounding motion.
+ */
+
+import type { FrameDefect, FrameDefectReport, TimelineClip } from '../types'
+import { calculateExportMediaTime } from './optimizedExport'
+import { createAnalysisVideo, releaseAnalysisVideo, seekVideoAndWait, waitForVideoReady } from './analysisVideo'
+
+export interface FrameDefectSource {
+  // Timeline frames map to media time through the clip's in-point, speed and reverse
+  clip: TimelineClip
+  name: string
+  url: string
+}
+
+export interface FrameDefectThresholds {
+  stillDiff: number          // Mean luma diff (0-255) below which two frames are identical
+  motionDiff: number         // Local motion (0-255) needed before a repeat counts as a duplicate
+  frozenFrames: number       // Repeats in a row that make a frozen run
+  blackLuma: number          // Mean luma (0-255) below which a frame is black
+  blackDeviation: number     // Luma standard deviation below which a dark frame is flat
+  dropRatio: number          // Diff / local cadence above which frames were skipped
+  cutRatio: number           // Diff / local cadence above which the jump is a cut, not a drop
+}
+
+export const DEFAULT_FRAME_DEFECT_THRESHOLDS: FrameDefectThresholds = {
+  stillDiff: 0.5,
+  motionDiff: 1.5,
+  frozenFrames: 5,
+  blackLuma: 20,
+  blackDeviation: 8,
+  dropRatio: 1.8,
+  cutRatio: 4.5,
+}
+
+export interface FrameDefectOptions {
+  frameRate: number
+  startTime: number
+  endTime: number
+  sampleWidth?: number
+  sampleHeight?: number
+  thresholds?: Partial<FrameDefectThresholds>
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+}
+
+// Per-frame luma statistics
+export interface FrameLumaStats {
+  diff: number               // Mean absolute luma difference to the previous frame
+  mean: number
+  deviation: number
+}
+
+// Frames either side used to estimate the expected cadence
+const CADENCE_WINDOW = 5
+
+/**
+ * Rec.709 luma plane of an RGBA buffer
+ */
+function toLuma(data: Uint8ClampedArray): Float32Array {
+  const luma = new Float32Array(data.length / 4)
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2]
+  }
+  return luma
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+/**
+ * Classify per-frame luma statistics into defects.
+ * Frame indices are relative to the first analysed frame.
+ */
+export function classifyFrameDefects(
+  stats: FrameLumaStats[],
+  thresholds: FrameDefectThresholds = DEFAULT_FRAME_DEFECT_THRESHOLDS
+): Omit<FrameDefect, 'time'>[] {
+  const defects: Omit<FrameDefect, 'time'>[] = []
+  const isBlack = stats.map(s => s.mean < thresholds.blackLuma && s.deviation < thresholds.blackDeviation)
+  const isStill = stats.map((s, i) => i > 0 && s.diff < thresholds.stillDiff)
+
+  // Expected cadence: median motion of the neighbouring frames that actually moved
+  const cadence = (index: number, skipFrom: number, skipTo: number) => {
+    const window: number[] = []
+    for (let j = index - CADENCE_WINDOW; j <= index + CADENCE_WINDOW; j++) {
+      if (j < 1 || j >= stats.length || (j >= skipFrom && j <= skipTo)) continue
+      if (isStill[j] || isBlack[j] || isBlack[j - 1]) continue
+      window.push(stats[j].diff)
+    }
+    return median(window)
+  }
+
+  let i = 1
+  while (i < stats.length) {
+    // Sudden black: a flat dark run entered from a lit frame (fades never trip this)
+    if (isBlack[i]) {
+      let end = i
+      while (end + 1 < stats.length && isBlack[end + 1]) end++
+      if (stats[i - 1].mean >= thresholds.blackLuma * 2) {
+        defects.push({ type: 'black', frame: i, frames: end - i + 1, score: stats[i].diff })
+      }
+      i = end + 1
+      continue
+    }
+
+    // Repeated frames: long runs are frozen, short runs amid motion are duplicates
+    if (isStill[i]) {
+      let end = i
+      while (end + 1 < stats.length && isStill[end + 1] && !isBlack[end + 1]) end++
+      const run = end - i + 1
+      if (run >= thresholds.frozenFrames) {
+        defects.push({ type: 'frozen', frame: i, frames: run, score: stats[i].diff })
+      } else if (cadence(i, i, end) >= thresholds.motionDiff) {
+        defects.push({ type: 'duplicate', frame: i, frames: run, score: stats[i].diff })
+      }
+      i = end + 1
+      continue
+    }
+
+    // Dropped frames: a jump a few times larger than the local cadence
+    const expected = cadence(i, i, i)
+    if (!isBlack[i - 1] && expected >= thresholds.motionDiff) {
+      const ratio = stats[i].diff / expected
+      if (ratio >= thresholds.dropRatio && ratio < thresholds.cutRatio) {
+        defects.push({ type: 'dropped', frame: i, frames: Math.max(1, Math.round(ratio) - 1), score: stats[i].diff })
+      }
+    }
+    i++
+  }
+
+  return defects
+}
+
+/**
+ * Analyse every frame of a clip between startTime and endTime.
+ * Uses a dedicated video element so the preview playback is not disturbed.
+ */
+export async function detectFrameDefects(
+  source: FrameDefectSource,
+  options: FrameDefectOptions
+): Promise<FrameDefectReport> {
+  const {
+    frameRate,
+    startTime,
+    endTime,
+    sampleWidth = 160,
+    sampleHeight = 90,
+    onProgress,
+    signal,
+  } = options
+  const thresholds = { ...DEFAULT_FRAME_DEFECT_THRESHOLDS, ...options.thresholds }
+
+  const video = createAnalysisVideo(source.url)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = sampleWidth
+  canvas.height = sampleHeight
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) {
+    throw new Error('Failed to create canvas context')
+  }
+
+  const stats: FrameLumaStats[] = []
+
+  try {
+    await waitForVideoReady(video)
+
+    const totalFrames = Math.max(1, Math.floor((endTime - startTime) * frameRate))
+    let previous: Float32Array | null = null
+
+    for (let frame = 0; frame < totalFrames; frame++) {
+      if (signal?.aborted) break
+
+      // Sample the middle of each frame to avoid landing on a boundary
+      const mediaTime = calculateExportMediaTime(startTime + (frame + 0.5) / frameRate, source.clip)
+      await seekVideoAndWait(video, Math.min(mediaTime ?? source.clip.inPoint, video.duration))
+
+      ctx.drawImage(video, 0, 0, sampleWidth, sampleHeight)
+      const luma = toLuma(ctx.getImageData(0, 0, sampleWidth, sampleHeight).data)
+
+      let sum = 0
+      let sumSq = 0
+      let diff = 0
+      for (let p = 0; p < luma.length; p++) {
+        sum += luma[p]
+        sumSq += luma[p] * luma[p]
+        if (previous) diff += Math.abs(luma[p] - previous[p])
+      }
+      const mean = sum / luma.length
+      stats.push({
+        diff: previous ? diff / luma.length : 0,
+        mean,
+        deviation: Math.sqrt(Math.max(0, sumSq / luma.length - mean * mean)),
+      })
+      previous = luma
+
+      onProgress?.(((frame + 1) / totalFrames) * 100)
+
+      // Yield to UI every few frames
+      if (frame % 4 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+    }
+  } finally {
+    releaseAnalysisVideo(video)
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    clipId: source.clip.id,
+    mediaName: source.name,
+    frameRate,
+    startTime,
+    endTime,
+    analyzedFrames: stats.length,
+    defects: classifyFrameDefects(stats, thresholds).map(defect => ({
+      ...defect,
+      time: startTime + defect.frame / frameRate,
+    })),
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * HDR Display Transform
+ * HDR-001: Exposure, tone curve and gamma that map linear HDR values to
+ * display code values. The WebGL renderer runs the same curves in a shader;
+ * this CPU version makes previews, thumbnails and the display-referred
+ * metrics (ΔE, FLIP, artifacts) of HDR images.
+ */
+
+import type { HDRDisplaySettings, HDRToneMap } from '../types'
+
+export const HDR_DISPLAY_DEFAULTS: HDRDisplaySettings = {
+  exposure: 0,
+  gamma: 2.2,
+  toneMap: 'aces',
+}
+
+export const HDR_TONE_MAPS: Record<HDRToneMap, { label: string; description: string }> = {
+  'clip': { label: 'Clip', description: 'Linear, values above display white clip' },
+  'reinhard': { label: 'Reinhard', description: 'x / (1 + x), keeps highlight detail' },
+  'aces': { label: 'ACES (fitted)', description: 'Filmic curve fitted to the ACES RRT + ODT' },
+}
+
+// Shader index of each tone curve (u_toneMap)
+export const HDR_TONE_MAP_INDEX: Record<HDRToneMap, number> = {
+  'clip': 0,
+  'reinhard': 1,
+  'aces': 2,
+}
+
+/**
+ * Linear multiplier of an exposure in stops
+ */
+export function getExposureScale(exposure: number): number {
+  return Math.pow(2, exposure)
+}
+
+/**
+ * Apply a tone curve to one exposed linear value
+ */
+function toneMapValue(x: number, toneMap: HDRToneMap): number {
+  switch (toneMap) {
+    case 'reinhard':
+      return x / (1 + x)
+    case 'aces':
+      // Narkowicz 2015 fit
+      return (x * (2.51 * x + 0.03)) / (x * (2.43 * x + 0.59) + 0.14)
+    default:
+      return x
+  }
+}
+
+/**
+ * Map linear float RGBA to 8-bit display RGBA
+ */
+export function applyHDRDisplay(data: Float32Array, settings: HDRDisplaySettings): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(data.length)
+  const scale = getExposureScale(settings.exposure)
+  const invGamma = 1 / Math.max(0.1, settings.gamma)
+
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const mapped = toneMapValue(Math.max(0, data[i + c] * scale), settings.toneMap)
+      out[i + c] = Math.round(Math.pow(Math.min(1, Math.max(0, mapped)), invGamma) * 255)
+    }
+    out[i + 3] = Math.round(Math.min(1, Math.max(0, data[i + 3])) * 255)
+  }
+
+  return out
+}
+
+/**
+ * Exposed linear values scaled so display white is 255, for metrics that
+ * share the 8-bit scale (PSNR peak, SSIM constants, diff threshold)
+ */
+export function toLinearMetricData(data: Float32Array, settings: HDRDisplaySettings): Float32Array {
+  const out = new Float32Array(data.length)
+  const scale = getExposureScale(settings.exposure) * 255
+
+  for (let i = 0; i < data.length; i += 4) {
+    out[i] = Math.max(0, data[i] * scale)
+    out[i + 1] = Math.max(0, data[i + 1] * scale)
+    out[i + 2] = Math.max(0, data[i + 2] * scale)
+    out[i + 3] = 255
+  }
+
+  return out
+}
+
+/**
+ * Linearize 8-bit sRGB RGBA on the same scale as toLinearMetricData
+ */
+export function linearizeDisplayData(data: Uint8ClampedArray): Float32Array {
+  const lut = new Float32Array(256)
+  for (let v = 0; v < 256; v++) {
+    const c = v / 255
+    lut[v] = (c > 0.04045 ? Math.pow((c + 0.055) / 1.055, 2.4) : c / 12.92) * 255
+  }
+
+  const out = new Float32Array(data.length)
+  for (let i = 0; i < data.length; i += 4) {
+    out[i] = lut[data[i]]
+    out[i + 1] = lut[data[i + 1]]
+    out[i + 2] = lut[data[i + 2]]
+    out[i + 3] = 255
+  }
+
+  return out
+}
@@ -0,0 +1,375 @@
+/**
+ * HDR Image Decoding
+ * HDR-001: OpenEXR (half/float/uint, scanline or tiled, any layer) and
+ * Radiance RGBE (.hdr) files decoded to linear float RGBA, top row first.
+ * Decoded pixels stay in a registry keyed by the media URL so the WebGL
+ * renderer and metrics can read full-precision values; the URL itself
+ * points at a tone-mapped PNG preview for every other view.
+ */
+
+import { FloatType } from 'three'
+import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js'
+import { HDRLoader } from 'three/examples/jsm/loaders/HDRLoader.js'
+import type { HDRDisplaySettings, HDRImageInfo, ROIRect } from '../types'
+import { applyHDRDisplay } from './hdrDisplay'
+
+export interface HDRImage {
+  width: number
+  height: number
+  data: Float32Array // Linear RGBA, rows top to bottom
+}
+
+interface EXRChannel {
+  name: string
+  pixelType: number // 0 = uint, 1 = half, 2 = float
+  entryStart: number
+  entryEnd: number
+}
+
+interface EXRChannelList {
+  channels: EXRChannel[]
+  sizeOffset: number // Byte offset of the chlist attribute size field
+  valueEnd: number
+}
+
+const EXR_MAGIC = 20000630
+const EXR_PIXEL_TYPES: HDRImageInfo['pixelType'][] = ['uint', 'half', 'float']
+// Layers tried first when picking the default layer
+const PREFERRED_LAYERS = ['', 'beauty', 'combined', 'rgba', 'rgb']
+// Channels EXRLoader decodes by name
+const DECODED_CHANNELS = ['R', 'G', 'B', 'A', 'Y']
+
+const images = new Map<string, HDRImage>()
+
+/**
+ * True for file names the HDR decoder handles
+ */
+export function isHDRFileName(fileName: string): boolean {
+  const extension = fileName.toLowerCase().split('.').pop()
+  return extension === 'exr' || extension === 'hdr'
+}
+
+/**
+ * Keep decoded pixels for a media URL
+ */
+export function registerHDRImage(url: string, image: HDRImage): void {
+  images.set(url, image)
+}
+
+/**
+ * Decoded pixels of a media URL, if it is an HDR image
+ */
+export function getHDRImage(url: string | undefined): HDRImage | null {
+  return url ? images.get(url) ?? null : null
+}
+
+/**
+ * Drop decoded pixels when the media is removed
+ */
+export function releaseHDRImage(url: string): void {
+  images.delete(url)
+}
+
+function readString(bytes: Uint8Array, offset: number): { value: string; next: number } {
+  let end = offset
+  while (end < bytes.length && bytes[end] !== 0) end++
+  return { value: new TextDecoder().decode(bytes.subarray(offset, end)), next: end + 1 }
+}
+
+/**
+ * Find the channel list in an OpenEXR header
+ */
+function readEXRChannels(buffer: ArrayBuffer): EXRChannelList {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  if (buffer.byteLength < 8 || view.getUint32(0, true) !== EXR_MAGIC) {
+    throw new Error('Not an OpenEXR file')
+  }
+  // Bits 0x08 (deep) and 0x10 (multi-part) of the version field
+  if (view.getUint8(5) & 0x18) {
+    throw new Error('Multi-part and deep OpenEXR files are not supported')
+  }
+
+  let offset = 8
+  while (offset < bytes.length) {
+    const name = readString(bytes, offset)
+    if (name.value === '') break
+    const type = readString(bytes, name.next)
+    const sizeOffset = type.next
+    const size = view.getUint32(sizeOffset, true)
+    const valueStart = sizeOffset + 4
+
+    if (name.value === 'channels' && type.value === 'chlist') {
+      const channels: EXRChannel[] = []
+      let p = valueStart
+      while (p < valueStart + size - 1) {
+        const channelName = readString(bytes, p)
+        // pixel type (int32), pLinear + reserved (4 bytes), x/y sampling (2 x int32)
+        channels.push({
+          name: channelName.value,
+          pixelType: view.getInt32(channelName.next, true),
+          entryStart: channelName.next,
+          entryEnd: channelName.next + 16,
+        })
+        p = channelName.next + 16
+      }
+      return { channels, sizeOffset, valueEnd: valueStart + size }
+    }
+
+    offset = valueStart + size
+  }
+
+  throw new Error('OpenEXR header has no channel list')
+}
+
+function splitChannelName(name: string): { layer: string; suffix: string } {
+  const dot = name.lastIndexOf('.')
+  return dot < 0 ? { layer: '', suffix: name } : { layer: name.slice(0, dot), suffix: name.slice(dot + 1) }
+}
+
+/**
+ * Layers of an EXR channel list, in file order ('' = base layer)
+ */
+function getEXRLayers(channels: EXRChannel[]): string[] {
+  return [...new Set(channels.map(c => splitChannelName(c.name).layer))]
+}
+
+function layerSuffixes(channels: EXRChannel[], layer: string): Set<string> {
+  return new Set(
+    channels
+      .map(c => splitChannelName(c.name))
+      .filter(c => c.layer === layer)
+      .map(c => c.suffix.toUpperCase())
+  )
+}
+
+function pickDefaultLayer(channels: EXRChannel[]): string {
+  const layers = getEXRLayers(channels)
+  const hasRGB = (layer: string) => {
+    const suffixes = layerSuffixes(channels, layer)
+    return suffixes.has('R') && suffixes.has('G') && suffixes.has('B')
+  }
+  return PREFERRED_LAYERS.find(l => layers.includes(l) && hasRGB(l))
+    ?? layers.find(hasRGB)
+    ?? layers.find(l => layerSuffixes(channels, l).has('Y'))
+    ?? layers[0]
+}
+
+/**
+ * Names that make EXRLoader decode one layer: its R/G/B/A (or Y, or its
+ * first channel as Y) get plain names, clashing names elsewhere are hidden
+ */
+function mapLayerChannels(channels: EXRChannel[], layer: string): string[] {
+  const suffixes = layerSuffixes(channels, layer)
+  const hasRGB = suffixes.has('R') && suffixes.has('G') && suffixes.has('B')
+  const hasY = suffixes.has('Y')
+  const first = channels.find(c => splitChannelName(c.name).layer === layer)
+
+  return channels.map(channel => {
+    const { layer: channelLayer, suffix } = splitChannelName(channel.name)
+    if (channelLayer === layer) {
+      const upper = suffix.toUpperCase()
+      if (hasRGB && (upper === 'R' || upper === 'G' || upper === 'B' || upper === 'A')) return upper
+      if (!hasRGB && hasY && (upper === 'Y' || upper === 'A')) return upper
+      if (!hasRGB && !hasY && channel === first) return 'Y'
+    }
+    return DECODED_CHANNELS.includes(channel.name) ? `_${channel.name}` : channel.name
+  })
+}
+
+/**
+ * Copy of an EXR file with its channel list renamed. EXRLoader reads chunks
+ * in order and ignores the offset table, so the header may change length.
+ */
+function renameEXRChannels(buffer: ArrayBuffer, list: EXRChannelList, names: string[]): ArrayBuffer {
+  const bytes = new Uint8Array(buffer)
+  const encoder = new TextEncoder()
+  const entries = list.channels.map((channel, i) => {
+    const name = encoder.encode(names[i])
+    const entry = new Uint8Array(name.length + 1 + 16)
+    entry.set(name, 0)
+    entry.set(bytes.subarray(channel.entryStart, channel.entryEnd), name.length + 1)
+    return entry
+  })
+  // Entries plus the list's terminating null byte
+  const valueSize = entries.reduce((sum, e) => sum + e.length, 0) + 1
+
+  const out = new Uint8Array(list.sizeOffset + 4 + valueSize + (bytes.length - list.valueEnd))
+  out.set(bytes.subarray(0, list.sizeOffset), 0)
+  new DataView(out.buffer).setUint32(list.sizeOffset, valueSize, true)
+  let p = list.sizeOffset + 4
+  for (const entry of entries) {
+    out.set(entry, p)
+    p += entry.length
+  }
+  out[p++] = 0
+  out.set(bytes.subarray(list.valueEnd), p)
+  return out.buffer
+}
+
+/**
+ * Brightest pixel luminance (BT.709)
+ */
+function getPeakLuminance(data: Float32Array): number {
+  let peak = 0
+  for (let i = 0; i < data.length; i += 4) {
+    const lum = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]
+    if (lum > peak) peak = lum
+  }
+  return peak
+}
+
+function decodeEXR(buffer: ArrayBuffer, layer?: string): { image: HDRImage; info: HDRImageInfo } {
+  const list = readEXRChannels(buffer)
+  const layers = getEXRLayers(list.channels)
+  const chosen = layer !== undefined && layers.includes(layer) ? layer : pickDefaultLayer(list.channels)
+  const names = mapLayerChannels(list.channels, chosen)
+
+  const exr = new EXRLoader().setDataType(FloatType).parse(renameEXRChannels(buffer, list, names))
+  const source = exr.data as Float32Array
+  const { width, height } = exr
+
+  // EXRLoader returns the bottom row first
+  const data = new Float32Array(width * height * 4)
+  const rowLength = width * 4
+  for (let y = 0; y < height; y++) {
+    const from = (height - 1 - y) * rowLength
+    data.set(source.subarray(from, from + rowLength), y * rowLength)
+  }
+
+  const decodedIndex = names.findIndex(name => DECODED_CHANNELS.includes(name))
+  return {
+    image: { width, height, data },
+    info: {
+      format: 'exr',
+      pixelType: EXR_PIXEL_TYPES[list.channels[decodedIndex]?.pixelType] ?? 'half',
+      layers,
+      layer: chosen,
+      channels: list.channels.map(c => c.name),
+      peak: getPeakLuminance(data),
+    },
+  }
+}
+
+function decodeRadiance(buffer: ArrayBuffer): { image: HDRImage; info: HDRImageInfo } {
+  const hdr = new HDRLoader().setDataType(FloatType).parse(buffer)
+  const data = hdr.data as Float32Array
+
+  return {
+    image: { width: hdr.width, height: hdr.height, data },
+    info: {
+      format: 'hdr',
+      pixelType: 'rgbe',
+      layers: [''],
+      layer: '',
+      channels: ['R', 'G', 'B'],
+      peak: getPeakLuminance(data),
+    },
+  }
+}
+
+/**
+ * Decode an OpenEXR or Radiance file. For EXR, `layer` picks the layer to
+ * show (the base or beauty layer by default).
+ */
+export async function decodeHDRFile(file: File, layer?: string): Promise<{ image: HDRImage; info: HDRImageInfo }> {
+  const buffer = await file.arrayBuffer()
+  const extension = file.name.toLowerCase().split('.').pop()
+  return extension === 'exr' ? decodeEXR(buffer, layer) : decodeRadiance(buffer)
+}
+
+/**
+ * Tone-mapped PNG of an HDR image, for views that show plain images
+ */
+export async function createHDRPreview(image: HDRImage, settings: HDRDisplaySettings): Promise<Blob> {
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas 2D not available')
+
+  const pixels = new ImageData(image.width, image.height)
+  pixels.data.set(applyHDRDisplay(image.data, settings))
+  ctx.putImageData(pixels, 0, 0)
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Preview encoding failed'))), 'image/png')
+  })
+}
+
+const samples = new WeakMap<HDRImage, Map<string, Float32Array>>()
+
+/**
+ * Box-filtered linear RGBA of the whole image at a smaller size (cached)
+ */
+export function getHDRSample(image: HDRImage, width: number, height: number): Float32Array {
+  const key = `${width}x${height}`
+  const cached = samples.get(image)?.get(key)
+  if (cached) return cached
+
+  const out = new Float32Array(width * height * 4)
+  const scaleX = image.width / width
+  const scaleY = image.height / height
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scaleY)
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY))
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scaleX)
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX))
+      let r = 0, g = 0, b = 0, a = 0
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4
+          r += image.data[i]
+          g += image.data[i + 1]
+          b += image.data[i + 2]
+          a += image.data[i + 3]
+        }
+      }
+      const n = (y1 - y0) * (x1 - x0)
+      const o = (y * width + x) * 4
+      out[o] = r / n
+      out[o + 1] = g / n
+      out[o + 2] = b / n
+      out[o + 3] = a / n
+    }
+  }
+
+  if (!samples.has(image)) samples.set(image, new Map())
+  samples.get(image)!.set(key, out)
+  return out
+}
+
+// Same crop as the 8-bit native crop in metrics.ts
+const NATIVE_CROP_SIZE = 384
+const NATIVE_CROP_GRID = 16
+
+/**
+ * Native-resolution linear crop from the centre of the ROI (or image),
+ * for artifact and no-reference scores
+ */
+export function getHDRNativeCrop(
+  image: HDRImage,
+  roi?: ROIRect | null
+): { data: Float32Array; width: number; height: number } | null {
+  const regionX = roi ? roi.x * image.width : 0
+  const regionY = roi ? roi.y * image.height : 0
+  const regionW = roi ? roi.width * image.width : image.width
+  const regionH = roi ? roi.height * image.height : image.height
+
+  const cropW = Math.min(NATIVE_CROP_SIZE, Math.floor(regionW / NATIVE_CROP_GRID) * NATIVE_CROP_GRID)
+  const cropH = Math.min(NATIVE_CROP_SIZE, Math.floor(regionH / NATIVE_CROP_GRID) * NATIVE_CROP_GRID)
+  if (cropW < NATIVE_CROP_GRID * 2 || cropH < NATIVE_CROP_GRID * 2) return null
+
+  const alignToGrid = (v: number) => Math.floor(v / NATIVE_CROP_GRID) * NATIVE_CROP_GRID
+  const cropX = Math.min(alignToGrid(regionX + (regionW - cropW) / 2), alignToGrid(image.width - cropW))
+  const cropY = Math.min(alignToGrid(regionY + (regionH - cropH) / 2), alignToGrid(image.height - cropH))
+
+  const data = new Float32Array(cropW * cropH * 4)
+  for (let y = 0; y < cropH; y++) {
+    const from = ((cropY + y) * image.width + cropX) * 4
+    data.set(image.data.subarray(from, from + cropW * 4), y * cropW * 4)
+  }
+  return { data, width: cropW, height: cropH }
+}
@@ -0,0 +1,128 @@
+/**
+ * High Bit Depth Images
+ * BITDEPTH-001: 16-bit PNG and TIFF files decoded without the 8-bit
+ * truncation of canvas getImageData. Decoded samples stay in a registry
+ * keyed by the media URL so the WebGL renderer can upload them as float
+ * textures and the pixel inspector can read true code values; the URL
+ * itself points at an 8-bit PNG preview for every other view.
+ */
+
+import type { HighBitDepthInfo } from '../types'
+import { decodePNG16, getPNGBitDepth } from './pngDecoder'
+import { decodeTIFF } from './tiffDecoder'
+
+export interface HighBitDepthImage {
+  width: number
+  height: number
+  bitDepth: number
+  data: Uint16Array // RGBA code values (0 .. 2^bitDepth - 1), top row first
+}
+
+const images = new Map<string, HighBitDepthImage>()
+
+/**
+ * True for file names that may need the high bit depth decoder
+ */
+export function isHighBitDepthFileName(fileName: string): boolean {
+  return /\.(png|tiff?)$/i.test(fileName)
+}
+
+/**
+ * True for TIFF file names (never displayable by the browser)
+ */
+export function isTIFFFileName(fileName: string): boolean {
+  return /\.tiff?$/i.test(fileName)
+}
+
+/**
+ * Keep decoded samples for a media URL
+ */
+export function registerHighBitDepthImage(url: string, image: HighBitDepthImage): void {
+  images.set(url, image)
+}
+
+/**
+ * Decoded samples of a media URL, if it is a high bit depth image
+ */
+export function getHighBitDepthImage(url: string | undefined): HighBitDepthImage | null {
+  return (url && images.get(url)) || null
+}
+
+/**
+ * Drop decoded samples when the media is removed
+ */
+export function releaseHighBitDepthImage(url: string): void {
+  images.delete(url)
+}
+
+/**
+ * Decode a 16-bit PNG or any supported TIFF. Returns null for 8-bit PNGs,
+ * which the browser decodes losslessly on its own.
+ */
+export async function decodeHighBitDepthFile(file: File): Promise<{ image: HighBitDepthImage; info: HighBitDepthInfo } | null> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+
+  if (isTIFFFileName(file.name)) {
+    const { channels, compression, ...image } = await decodeTIFF(bytes)
+    return { image, info: { format: 'tiff', bitDepth: image.bitDepth, channels, compression } }
+  }
+
+  if (getPNGBitDepth(bytes) !== 16) return null
+  const { channels, ...image } = await decodePNG16(bytes)
+  return { image, info: { format: 'png', bitDepth: 16, channels } }
+}
+
+/**
+ * Largest code value of an image
+ */
+export function getMaxCodeValue(image: HighBitDepthImage): number {
+  return 2 ** image.bitDepth - 1
+}
+
+/**
+ * RGBA normalized to 0-1, for float texture upload
+ */
+export function toNormalizedFloat(image: HighBitDepthImage): Float32Array {
+  const scale = 1 / getMaxCodeValue(image)
+  const out = new Float32Array(image.data.length)
+  for (let i = 0; i < image.data.length; i++) out[i] = image.data[i] * scale
+  return out
+}
+
+/**
+ * RGBA rounded to 8 bits, for previews and 8-bit texture fallback
+ */
+export function toDisplayBytes(image: HighBitDepthImage): Uint8ClampedArray {
+  const scale = 255 / getMaxCodeValue(image)
+  const out = new Uint8ClampedArray(image.data.length)
+  for (let i = 0; i < image.data.length; i++) out[i] = Math.round(image.data[i] * scale)
+  return out
+}
+
+/**
+ * RGB code values of one pixel
+ */
+export function readHighBitDepthPixel(image: HighBitDepthImage, x: number, y: number): { r: number; g: number; b: number } | null {
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) return null
+  const o = (y * image.width + x) * 4
+  return { r: image.data[o], g: image.data[o + 1], b: image.data[o + 2] }
+}
+
+/**
+ * 8-bit PNG of a high bit depth image, for views that show plain images
+ */
+export async function createHighBitDepthPreview(image: HighBitDepthImage): Promise<Blob> {
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas 2D not available')
+
+  const pixels = new ImageData(image.width, image.height)
+  pixels.data.set(toDisplayBytes(image))
+  ctx.putImageData(pixels, 0, 0)
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Preview encoding failed'))), 'image/png')
+  })
+}
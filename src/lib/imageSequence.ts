@@ -0,0 +1,326 @@
+/**
+ * Image Sequences
+ * SEQ-001: Numbered frames (render output, frame interpolation) grouped by
+ * pattern (`frame_%04d.png`, `frame_####.png`) and encoded to an MP4 at a
+ * chosen frame rate, so the sequence plays, seeks and syncs as a regular
+ * video clip. EXR / HDR frames use the default tone map, 16-bit frames are
+ * rounded to 8 bits; missing frame numbers hold the previous frame.
+ * The MP4 is only for playback: metrics read the decoded source frames
+ * (linear for EXR / HDR), so they measure the frames, not H.264 artefacts.
+ */
+
+import { Muxer, ArrayBufferTarget } from 'mp4-muxer'
+import { isWebCodecsSupported } from './mp4Encoder'
+import { decodeHDRFile, isHDRFileName, type HDRImage } from './hdrImage'
+import { applyHDRDisplay, HDR_DISPLAY_DEFAULTS } from './hdrDisplay'
+import { decodeHighBitDepthFile, isHighBitDepthFileName, toDisplayBytes } from './highBitDepthImage'
+
+export interface SequenceFrame {
+  number: number
+  file: File
+}
+
+export interface ImageSequence {
+  pattern: string
+  frames: SequenceFrame[] // Sorted by frame number
+}
+
+// A decoded source frame: display-referred bitmap, plus linear pixels for EXR / HDR
+export interface SequenceSourceFrame {
+  frame: ImageBitmap
+  hdr: HDRImage | null
+}
+
+interface RegisteredSequence {
+  frameRate: number
+  firstNumber: number
+  lastNumber: number
+  byNumber: Map<number, File>
+  // Last decoded frame, so repeated metrics on a paused frame decode it once
+  cached: { number: number; frame: Promise<SequenceSourceFrame> } | null
+}
+
+export const SEQUENCE_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60]
+
+const SEQUENCE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'bmp', 'exr', 'hdr', 'tif', 'tiff']
+
+// H.264 High profile, largest level first
+const AVC_CODECS = ['avc1.640033', 'avc1.64002A', 'avc1.640028']
+
+// Keyframe interval in frames (short, so seeking stays cheap)
+const KEYFRAME_INTERVAL = 12
+
+// Source frames of imported sequences by media URL
+const registered = new Map<string, RegisteredSequence>()
+
+function getPath(file: File): string {
+  return file.webkitRelativePath || file.name
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Regex for a sequence pattern; the frame number is capture group 1.
+ * Supports printf (`%04d`, `%d`) and hash (`####`) placeholders.
+ */
+export function parseSequencePattern(pattern: string): RegExp | null {
+  const token = /%0?(\d*)d|#+/.exec(pattern)
+  if (!token) return null
+
+  const before = escapeRegExp(pattern.slice(0, token.index))
+  const after = escapeRegExp(pattern.slice(token.index + token[0].length))
+  const width = token[0].startsWith('#') ? token[0].length : parseInt(token[1] || '0', 10)
+  const digits = width > 1 ? `(\\d{${width},})` : '(\\d+)'
+
+  return new RegExp(`^${before}${digits}${after}$`, 'i')
+}
+
+/**
+ * Files of a selection that match a pattern, sorted by frame number
+ */
+export function matchSequenceFrames(files: File[], pattern: string): SequenceFrame[] {
+  const regex = parseSequencePattern(pattern)
+  if (!regex) return []
+
+  return files
+    .flatMap(file => {
+      const match = regex.exec(file.name)
+      return match ? [{ number: parseInt(match[1], 10), file }] : []
+    })
+    .sort((a, b) => a.number - b.number)
+}
+
+/**
+ * Group a selection into numbered sequences (two or more frames of the
+ * same name pattern and folder) and the remaining single files
+ */
+export function detectImageSequences(files: File[]): { sequences: ImageSequence[]; others: File[] } {
+  const groups = new Map<string, { prefix: string; extension: string; entries: { digits: string; file: File }[] }>()
+  const others: File[] = []
+
+  for (const file of files) {
+    const match = /^(.*?)(\d+)\.([a-z0-9]+)$/i.exec(file.name)
+    if (!match || !SEQUENCE_EXTENSIONS.includes(match[3].toLowerCase())) {
+      others.push(file)
+      continue
+    }
+    const [, prefix, digits, extension] = match
+    const folder = getPath(file).slice(0, -file.name.length)
+    const key = `${folder}\0${prefix}\0${extension.toLowerCase()}`
+    const group = groups.get(key) ?? { prefix, extension, entries: [] }
+    group.entries.push({ digits, file })
+    groups.set(key, group)
+  }
+
+  const sequences: ImageSequence[] = []
+  for (const { prefix, extension, entries } of groups.values()) {
+    if (entries.length < 2) {
+      others.push(...entries.map(e => e.file))
+      continue
+    }
+
+    // Zero-padded when every frame number has the same width
+    const width = entries[0].digits.length
+    const padded = entries.every(e => e.digits.length === width) && width > 1
+    const pattern = `${prefix}${padded ? `%0${width}d` : '%d'}.${extension}`
+
+    sequences.push({
+      pattern,
+      frames: entries
+        .map(e => ({ number: parseInt(e.digits, 10), file: e.file }))
+        .sort((a, b) => a.number - b.number),
+    })
+  }
+
+  return { sequences, others }
+}
+
+/**
+ * Frame numbers absent between the first and last frame
+ */
+export function countMissingFrames(frames: SequenceFrame[]): number {
+  if (frames.length === 0) return 0
+  const span = frames[frames.length - 1].number - frames[0].number + 1
+  return span - new Set(frames.map(f => f.number)).size
+}
+
+/**
+ * Decode one frame file
+ */
+async function decodeFrame(file: File): Promise<SequenceSourceFrame> {
+  if (isHDRFileName(file.name)) {
+    const { image } = await decodeHDRFile(file)
+    const pixels = new ImageData(image.width, image.height)
+    pixels.data.set(applyHDRDisplay(image.data, HDR_DISPLAY_DEFAULTS))
+    return { frame: await createImageBitmap(pixels), hdr: image }
+  }
+
+  if (isHighBitDepthFileName(file.name)) {
+    const decoded = await decodeHighBitDepthFile(file)
+    if (decoded) {
+      const pixels = new ImageData(decoded.image.width, decoded.image.height)
+      pixels.data.set(toDisplayBytes(decoded.image))
+      return { frame: await createImageBitmap(pixels), hdr: null }
+    }
+  }
+
+  return { frame: await createImageBitmap(file), hdr: null }
+}
+
+/**
+ * Keep a sequence's frame files for a media URL
+ */
+export function registerImageSequence(url: string, sequence: ImageSequence, frameRate: number): void {
+  const { frames } = sequence
+  if (frames.length === 0) return
+  registered.set(url, {
+    frameRate,
+    firstNumber: frames[0].number,
+    lastNumber: frames[frames.length - 1].number,
+    byNumber: new Map(frames.map(f => [f.number, f.file])),
+    cached: null,
+  })
+}
+
+/**
+ * True when a media URL's frames are available for loadSequenceFrameAt
+ */
+export function hasImageSequence(url: string | undefined): boolean {
+  return url ? registered.has(url) : false
+}
+
+/**
+ * Drop a sequence's frames when the media is removed
+ */
+export function releaseImageSequence(url: string): void {
+  registered.delete(url)
+}
+
+/**
+ * The source frame a sequence's MP4 shows at a media time, decoded from
+ * its file (null if the URL is not a registered sequence). The caller owns
+ * the returned bitmap.
+ */
+export async function loadSequenceFrameAt(url: string, mediaTime: number): Promise<SequenceSourceFrame | null> {
+  const entry = registered.get(url)
+  if (!entry) return null
+
+  // MP4 frame i starts at i / frameRate; a small epsilon absorbs seek rounding
+  const index = Math.floor(mediaTime * entry.frameRate + 1e-3)
+  let number = Math.min(entry.lastNumber, Math.max(entry.firstNumber, entry.firstNumber + index))
+  // Missing numbers hold the previous frame, as in the MP4
+  while (!entry.byNumber.has(number)) number--
+
+  let cached = entry.cached
+  if (cached?.number !== number) {
+    const frame = decodeFrame(entry.byNumber.get(number)!)
+    cached = { number, frame }
+    entry.cached = cached
+    frame.catch(() => {
+      if (entry.cached?.frame === frame) entry.cached = null
+    })
+  }
+
+  const decoded = await cached.frame
+  return { frame: await createImageBitmap(decoded.frame), hdr: decoded.hdr }
+}
+
+async function pickCodec(width: number, height: number, bitrate: number, frameRate: number): Promise<string> {
+  for (const codec of AVC_CODECS) {
+    const { supported } = await VideoEncoder.isConfigSupported({ codec, width, height, bitrate, framerate: frameRate })
+    if (supported) return codec
+  }
+  throw new Error(`No H.264 encoder for ${width}x${height} in this browser`)
+}
+
+/**
+ * Encode a sequence to MP4. Every frame must be the first frame's size; an
+ * odd width or height loses its last column or row (H.264 needs even sizes).
+ */
+export async function encodeImageSequence(
+  sequence: ImageSequence,
+  frameRate: number,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  if (!isWebCodecsSupported()) {
+    throw new Error('WebCodecs not supported in this browser. Try Chrome or Edge.')
+  }
+  const { frames } = sequence
+  if (frames.length === 0) throw new Error(`No frames match ${sequence.pattern}`)
+
+  const first = (await decodeFrame(frames[0].file)).frame
+  const frameWidth = first.width
+  const frameHeight = first.height
+  first.close()
+  const width = frameWidth & ~1
+  const height = frameHeight & ~1
+  if (width === 0 || height === 0) throw new Error('Sequence frames are too small to encode')
+
+  // Near-transparent quality: ~0.4 bits per pixel per frame
+  const bitrate = Math.min(200_000_000, Math.max(8_000_000, Math.round(width * height * frameRate * 0.4)))
+  const codec = await pickCodec(width, height, bitrate, frameRate)
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: 'avc', width, height, frameRate },
+    fastStart: 'in-memory',
+  })
+
+  let encodeError: unknown = null
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (e) => { encodeError = e },
+  })
+  encoder.configure({ codec, width, height, bitrate, framerate: frameRate })
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas 2D not available')
+
+  const frameDuration = 1_000_000 / frameRate // microseconds
+  const firstNumber = frames[0].number
+  const total = frames[frames.length - 1].number - firstNumber + 1
+  const byNumber = new Map(frames.map(f => [f.number, f.file]))
+
+  for (let i = 0; i < total; i++) {
+    if (encodeError) break
+
+    // Missing numbers keep the canvas of the previous frame
+    const file = byNumber.get(firstNumber + i)
+    if (file) {
+      const bitmap = (await decodeFrame(file)).frame
+      const sizeMatches = bitmap.width === frameWidth && bitmap.height === frameHeight
+      if (sizeMatches) {
+        ctx.clearRect(0, 0, width, height)
+        ctx.drawImage(bitmap, 0, 0)
+      }
+      bitmap.close()
+      if (!sizeMatches) {
+        encoder.close()
+        throw new Error(`${file.name} is not ${frameWidth}x${frameHeight} like the first frame`)
+      }
+    }
+
+    const frame = new VideoFrame(canvas, { timestamp: Math.round(i * frameDuration), duration: Math.round(frameDuration) })
+    encoder.encode(frame, { keyFrame: i % KEYFRAME_INTERVAL === 0 })
+    frame.close()
+
+    // Keep the encoder queue short so frames are not all held in memory
+    while (encoder.encodeQueueSize > 4) {
+      await new Promise(r => setTimeout(r, 1))
+    }
+    onProgress?.(((i + 1) / total) * 100)
+  }
+
+  if (!encodeError) await encoder.flush()
+  encoder.close()
+  if (encodeError) throw encodeError instanceof Error ? encodeError : new Error('Sequence encoding failed')
+
+  muxer.finalize()
+  const { buffer } = muxer.target as ArrayBufferTarget
+  return new Blob([buffer], { type: 'video/mp4' })
+}
@@ -28,6 +28,12 @@ export interface ProjectRecord {
   
   // KEYFRAME-001: Keyframe data (serialized as array of [clipId, ClipKeyframes] tuples)
   keyframeData?: string // JSON - array of [string, ClipKeyframes][]
+
+  // HISTORY-001: Undo / redo log (serialized by historyStore)
+  historyData?: string
+
+  // COLOR-001: LUT library (serialized as [{ ...lut, data: number[] }])
+  lutData?: string
 }
 
 export interface MediaManifestEntry {
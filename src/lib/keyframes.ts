@@ -41,6 +41,7 @@ export type AnimatableProperty =
   | 'brightness'
   | 'contrast'
   | 'saturation'
+  | 'volume' // MIX-001: Clip volume envelope
 
 // Property configuration with default value and range
 export interface PropertyConfig {
@@ -69,6 +70,7 @@ export const PROPERTY_CONFIGS: Record<AnimatableProperty, PropertyConfig> = {
   brightness: { name: 'brightness', label: 'Brightness', defaultValue: 1, min: 0, max: 3, step: 0.01, unit: '' },
   contrast: { name: 'contrast', label: 'Contrast', defaultValue: 1, min: 0, max: 3, step: 0.01, unit: '' },
   saturation: { name: 'saturation', label: 'Saturation', defaultValue: 1, min: 0, max: 3, step: 0.01, unit: '' },
+  volume: { name: 'volume', label: 'Volume', defaultValue: 1, min: 0, max: 2, step: 0.01, unit: 'x' },
 }
 
 // Keyframe track for a single property
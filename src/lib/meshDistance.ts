@@ -0,0 +1,328 @@
+/**
+ * Mesh Distance
+ * MESHDIFF-001: Per-vertex distance from one model to the nearest point on
+ * the surface of another (triangles, or points for point clouds), in model
+ * units. A→B and B→A give the one-sided Hausdorff distances; their maximum
+ * is the symmetric Hausdorff distance. Nearest-surface queries use an AABB
+ * tree over the target primitives. Free of three.js so it runs in the
+ * metrics worker.
+ */
+
+export interface MeshGeometryData {
+  positions: Float32Array // xyz per vertex, every mesh and point cloud of the model
+  indices: Uint32Array | null // Triangle vertex indices; null when the model has no faces
+}
+
+export interface DistanceStats {
+  mean: number
+  max: number // One-sided Hausdorff distance
+  rms: number
+}
+
+export interface MeshDistanceResult {
+  distancesA: Float32Array // Per vertex of A, to the surface of B
+  distancesB: Float32Array // Per vertex of B, to the surface of A
+  aToB: DistanceStats
+  bToA: DistanceStats
+  hausdorff: number // Symmetric Hausdorff distance
+}
+
+// Primitives per leaf of the AABB tree
+const LEAF_SIZE = 8
+
+interface SurfaceTree {
+  positions: Float32Array
+  indices: Uint32Array | null
+  order: Uint32Array // Primitive ids, grouped by leaf
+  bounds: Float32Array // minX, minY, minZ, maxX, maxY, maxZ per node
+  start: Uint32Array // First entry in `order` (leaves)
+  count: Uint32Array // Primitive count (leaves), 0 for inner nodes
+  right: Uint32Array // Right child (inner nodes); the left child follows its parent
+}
+
+function primitiveCount(mesh: MeshGeometryData): number {
+  return mesh.indices ? Math.floor(mesh.indices.length / 3) : Math.floor(mesh.positions.length / 3)
+}
+
+/**
+ * Bounds of every primitive: a triangle, or a single point
+ */
+function getPrimitiveBounds(mesh: MeshGeometryData, count: number): Float32Array {
+  const { positions, indices } = mesh
+  const bounds = new Float32Array(count * 6)
+
+  for (let p = 0; p < count; p++) {
+    const o = p * 6
+    for (let axis = 0; axis < 3; axis++) {
+      let min = Infinity
+      let max = -Infinity
+      const corners = indices ? 3 : 1
+      for (let c = 0; c < corners; c++) {
+        const vertex = indices ? indices[p * 3 + c] : p
+        const value = positions[vertex * 3 + axis]
+        if (value < min) min = value
+        if (value > max) max = value
+      }
+      bounds[o + axis] = min
+      bounds[o + 3 + axis] = max
+    }
+  }
+  return bounds
+}
+
+/**
+ * Reorder order[lo, hi) so the entry at k has the k-th smallest centroid
+ * on the axis, smaller before it and larger after it
+ */
+function selectByCentroid(order: Uint32Array, primBounds: Float32Array, axis: number, lo: number, hi: number, k: number): void {
+  const centroid = (p: number) => primBounds[p * 6 + axis] + primBounds[p * 6 + 3 + axis]
+
+  let left = lo
+  let right = hi - 1
+  while (left < right) {
+    const pivot = centroid(order[(left + right) >> 1])
+    let i = left
+    let j = right
+    while (i <= j) {
+      while (centroid(order[i]) < pivot) i++
+      while (centroid(order[j]) > pivot) j--
+      if (i <= j) {
+        const swap = order[i]
+        order[i] = order[j]
+        order[j] = swap
+        i++
+        j--
+      }
+    }
+    if (k <= j) right = j
+    else if (k >= i) left = i
+    else return
+  }
+}
+
+function buildSurfaceTree(mesh: MeshGeometryData): SurfaceTree {
+  const count = primitiveCount(mesh)
+  const primBounds = getPrimitiveBounds(mesh, count)
+  const order = new Uint32Array(count)
+  for (let i = 0; i < count; i++) order[i] = i
+
+  // Median splits keep every leaf at LEAF_SIZE / 2 primitives or more
+  const capacity = 2 * Math.max(1, Math.ceil(count / (LEAF_SIZE / 2)))
+  const bounds = new Float32Array(capacity * 6)
+  const start = new Uint32Array(capacity)
+  const countArray = new Uint32Array(capacity)
+  const right = new Uint32Array(capacity)
+  let nodeCount = 0
+
+  const build = (lo: number, hi: number): number => {
+    const node = nodeCount++
+    const o = node * 6
+    bounds.fill(Infinity, o, o + 3)
+    bounds.fill(-Infinity, o + 3, o + 6)
+    let cMinX = Infinity, cMinY = Infinity, cMinZ = Infinity
+    let cMaxX = -Infinity, cMaxY = -Infinity, cMaxZ = -Infinity
+
+    for (let i = lo; i < hi; i++) {
+      const p = order[i] * 6
+      for (let axis = 0; axis < 3; axis++) {
+        if (primBounds[p + axis] < bounds[o + axis]) bounds[o + axis] = primBounds[p + axis]
+        if (primBounds[p + 3 + axis] > bounds[o + 3 + axis]) bounds[o + 3 + axis] = primBounds[p + 3 + axis]
+      }
+      const cx = primBounds[p] + primBounds[p + 3]
+      const cy = primBounds[p + 1] + primBounds[p + 4]
+      const cz = primBounds[p + 2] + primBounds[p + 5]
+      if (cx < cMinX) cMinX = cx
+      if (cx > cMaxX) cMaxX = cx
+      if (cy < cMinY) cMinY = cy
+      if (cy > cMaxY) cMaxY = cy
+      if (cz < cMinZ) cMinZ = cz
+      if (cz > cMaxZ) cMaxZ = cz
+    }
+
+    if (hi - lo <= LEAF_SIZE) {
+      start[node] = lo
+      countArray[node] = hi - lo
+      return node
+    }
+
+    // Split at the median centroid along the widest axis
+    const extents = [cMaxX - cMinX, cMaxY - cMinY, cMaxZ - cMinZ]
+    const axis = extents.indexOf(Math.max(...extents))
+    const mid = (lo + hi) >> 1
+    selectByCentroid(order, primBounds, axis, lo, hi, mid)
+
+    build(lo, mid)
+    right[node] = build(mid, hi)
+    return node
+  }
+
+  if (count > 0) build(0, count)
+
+  return { positions: mesh.positions, indices: mesh.indices, order, bounds, start, count: countArray, right }
+}
+
+/**
+ * Squared distance from a point to triangle abc (closest-point regions,
+ * Ericson, Real-Time Collision Detection 5.1.5)
+ */
+function pointTriangleDistanceSq(
+  px: number, py: number, pz: number,
+  ax: number, ay: number, az: number,
+  bx: number, by: number, bz: number,
+  cx: number, cy: number, cz: number
+): number {
+  const abx = bx - ax, aby = by - ay, abz = bz - az
+  const acx = cx - ax, acy = cy - ay, acz = cz - az
+  const apx = px - ax, apy = py - ay, apz = pz - az
+
+  const d1 = abx * apx + aby * apy + abz * apz
+  const d2 = acx * apx + acy * apy + acz * apz
+  let qx: number, qy: number, qz: number
+
+  if (d1 <= 0 && d2 <= 0) {
+    qx = ax; qy = ay; qz = az
+  } else {
+    const bpx = px - bx, bpy = py - by, bpz = pz - bz
+    const d3 = abx * bpx + aby * bpy + abz * bpz
+    const d4 = acx * bpx + acy * bpy + acz * bpz
+    const cpx = px - cx, cpy = py - cy, cpz = pz - cz
+    const d5 = abx * cpx + aby * cpy + abz * cpz
+    const d6 = acx * cpx + acy * cpy + acz * cpz
+    const vc = d1 * d4 - d3 * d2
+    const vb = d5 * d2 - d1 * d6
+    const va = d3 * d6 - d5 * d4
+
+    if (d3 >= 0 && d4 <= d3) {
+      qx = bx; qy = by; qz = bz
+    } else if (d6 >= 0 && d5 <= d6) {
+      qx = cx; qy = cy; qz = cz
+    } else if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+      const v = d1 / (d1 - d3)
+      qx = ax + abx * v; qy = ay + aby * v; qz = az + abz * v
+    } else if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+      const w = d2 / (d2 - d6)
+      qx = ax + acx * w; qy = ay + acy * w; qz = az + acz * w
+    } else if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+      const w = (d4 - d3) / ((d4 - d3) + (d5 - d6))
+      qx = bx + (cx - bx) * w; qy = by + (cy - by) * w; qz = bz + (cz - bz) * w
+    } else {
+      const denom = va + vb + vc
+      // Degenerate (zero-area) triangles fall back to the first corner
+      const v = denom !== 0 ? vb / denom : 0
+      const w = denom !== 0 ? vc / denom : 0
+      qx = ax + abx * v + acx * w; qy = ay + aby * v + acy * w; qz = az + abz * v + acz * w
+    }
+  }
+
+  const dx = px - qx, dy = py - qy, dz = pz - qz
+  return dx * dx + dy * dy + dz * dz
+}
+
+function boxDistanceSq(bounds: Float32Array, node: number, x: number, y: number, z: number): number {
+  const o = node * 6
+  const dx = Math.max(bounds[o] - x, 0, x - bounds[o + 3])
+  const dy = Math.max(bounds[o + 1] - y, 0, y - bounds[o + 4])
+  const dz = Math.max(bounds[o + 2] - z, 0, z - bounds[o + 5])
+  return dx * dx + dy * dy + dz * dz
+}
+
+/**
+ * Distance from a point to the nearest primitive of the tree
+ */
+function nearestDistance(tree: SurfaceTree, stack: Uint32Array, x: number, y: number, z: number): number {
+  const { positions, indices, order, bounds, start, count, right } = tree
+  let best = Infinity
+  let top = 0
+  stack[top++] = 0
+
+  while (top > 0) {
+    const node = stack[--top]
+    if (boxDistanceSq(bounds, node, x, y, z) >= best) continue
+
+    if (count[node] > 0) {
+      const end = start[node] + count[node]
+      for (let i = start[node]; i < end; i++) {
+        const p = order[i]
+        let distanceSq: number
+        if (indices) {
+          const a = indices[p * 3] * 3
+          const b = indices[p * 3 + 1] * 3
+          const c = indices[p * 3 + 2] * 3
+          distanceSq = pointTriangleDistanceSq(
+            x, y, z,
+            positions[a], positions[a + 1], positions[a + 2],
+            positions[b], positions[b + 1], positions[b + 2],
+            positions[c], positions[c + 1], positions[c + 2]
+          )
+        } else {
+          const dx = x - positions[p * 3], dy = y - positions[p * 3 + 1], dz = z - positions[p * 3 + 2]
+          distanceSq = dx * dx + dy * dy + dz * dz
+        }
+        if (distanceSq < best) best = distanceSq
+      }
+      continue
+    }
+
+    // Visit the nearer child first so the far one is usually pruned
+    const left = node + 1
+    const far = right[node]
+    if (boxDistanceSq(bounds, left, x, y, z) <= boxDistanceSq(bounds, far, x, y, z)) {
+      stack[top++] = far
+      stack[top++] = left
+    } else {
+      stack[top++] = left
+      stack[top++] = far
+    }
+  }
+
+  return Math.sqrt(best)
+}
+
+/**
+ * Distance from every vertex of `source` to the surface of `target`
+ */
+function computeOneSided(source: MeshGeometryData, target: SurfaceTree): { distances: Float32Array; stats: DistanceStats } {
+  const vertexCount = Math.floor(source.positions.length / 3)
+  const distances = new Float32Array(vertexCount)
+  // Median splits keep the tree depth near log2(n), far below this
+  const stack = new Uint32Array(128)
+  let sum = 0
+  let sumSq = 0
+  let max = 0
+
+  for (let v = 0; v < vertexCount; v++) {
+    const d = nearestDistance(target, stack, source.positions[v * 3], source.positions[v * 3 + 1], source.positions[v * 3 + 2])
+    distances[v] = d
+    sum += d
+    sumSq += d * d
+    if (d > max) max = d
+  }
+
+  return {
+    distances,
+    stats: {
+      mean: vertexCount > 0 ? sum / vertexCount : 0,
+      max,
+      rms: vertexCount > 0 ? Math.sqrt(sumSq / vertexCount) : 0,
+    },
+  }
+}
+
+/**
+ * Distances between two models in a shared coordinate frame
+ */
+export function computeMeshDistance(meshA: MeshGeometryData, meshB: MeshGeometryData): MeshDistanceResult {
+  if (primitiveCount(meshA) === 0) throw new Error('Model A has no geometry')
+  if (primitiveCount(meshB) === 0) throw new Error('Model B has no geometry')
+
+  const aToB = computeOneSided(meshA, buildSurfaceTree(meshB))
+  const bToA = computeOneSided(meshB, buildSurfaceTree(meshA))
+
+  return {
+    distancesA: aToB.distances,
+    distancesB: bToA.distances,
+    aToB: aToB.stats,
+    bToA: bToA.stats,
+    hausdorff: Math.max(aToB.stats.max, bToA.stats.max),
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Mesh Heatmap
+ * MESHDIFF-001: Bridges loaded three.js models and the mesh distance job.
+ * Flattens a model into one vertex / triangle list in the model's own
+ * coordinate frame (node transforms applied, viewer normalisation not), so
+ * a decimated or generated mesh is measured against the reference in the
+ * units both were authored in. Topology stats and the heatmap object use
+ * the same traversal order, so distances map back to each vertex.
+ */
+
+import * as THREE from 'three'
+import type { MeshGeometryData } from './meshDistance'
+
+export interface MeshTopologyStats {
+  vertices: number
+  triangles: number
+  points: number // Vertices of point clouds
+  meshes: number
+  materials: string[] // Unique material names
+  boundsMin: [number, number, number]
+  boundsMax: [number, number, number]
+}
+
+// Blue (on the surface) → cyan → green → yellow → red (at the range maximum)
+const RAMP_STOPS: [number, number, number][] = [
+  [0.16, 0.27, 0.86],
+  [0.0, 0.75, 0.9],
+  [0.22, 0.8, 0.29],
+  [0.98, 0.85, 0.18],
+  [0.9, 0.17, 0.16],
+]
+
+// Point size for point cloud heatmaps (pixels), as in the model loader
+const POINT_SIZE = 2
+
+/**
+ * CSS gradient of the heatmap ramp (left = 0, right = range maximum)
+ */
+export const DISTANCE_RAMP_CSS = `linear-gradient(to right, ${RAMP_STOPS.map(
+  ([r, g, b]) => `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})`
+).join(', ')})`
+
+/**
+ * Ramp colour of a distance in [0, maxDistance] (clamped)
+ */
+export function distanceToColor(distance: number, maxDistance: number, target: THREE.Color): THREE.Color {
+  const t = maxDistance > 0 ? Math.min(1, Math.max(0, distance / maxDistance)) : 0
+  const position = t * (RAMP_STOPS.length - 1)
+  const index = Math.min(RAMP_STOPS.length - 2, Math.floor(position))
+  const f = position - index
+  const [r0, g0, b0] = RAMP_STOPS[index]
+  const [r1, g1, b1] = RAMP_STOPS[index + 1]
+  return target.setRGB(r0 + (r1 - r0) * f, g0 + (g1 - g0) * f, b0 + (b1 - b0) * f, THREE.SRGBColorSpace)
+}
+
+/**
+ * Meshes and point clouds of a model in traversal order
+ */
+function getSurfaceObjects(model: THREE.Object3D): (THREE.Mesh | THREE.Points)[] {
+  model.updateMatrixWorld(true)
+  const objects: (THREE.Mesh | THREE.Points)[] = []
+  model.traverse(child => {
+    if ((child instanceof THREE.Mesh || child instanceof THREE.Points) && child.geometry.getAttribute('position')) {
+      objects.push(child)
+    }
+  })
+  return objects
+}
+
+/**
+ * Matrix from an object to the model root (the root's own transform is
+ * part of the file, so it is kept)
+ */
+function getModelMatrix(object: THREE.Object3D, model: THREE.Object3D): THREE.Matrix4 {
+  const matrix = object.matrixWorld.clone()
+  if (model.parent) matrix.premultiply(model.parent.matrixWorld.clone().invert())
+  return matrix
+}
+
+/**
+ * Vertex positions and triangles of a model, plus its topology stats
+ */
+export function extractMeshGeometry(model: THREE.Object3D): { data: MeshGeometryData; stats: MeshTopologyStats } {
+  const objects = getSurfaceObjects(model)
+  const vertexCount = objects.reduce((sum, o) => sum + o.geometry.getAttribute('position').count, 0)
+  const positions = new Float32Array(vertexCount * 3)
+  const triangles: number[] = []
+  const materials = new Set<THREE.Material>()
+  const box = new THREE.Box3()
+  const vertex = new THREE.Vector3()
+  let offset = 0
+  let points = 0
+  let meshes = 0
+
+  for (const object of objects) {
+    const position = object.geometry.getAttribute('position')
+    const matrix = getModelMatrix(object, model)
+
+    for (let i = 0; i < position.count; i++) {
+      vertex.fromBufferAttribute(position, i).applyMatrix4(matrix)
+      positions[(offset + i) * 3] = vertex.x
+      positions[(offset + i) * 3 + 1] = vertex.y
+      positions[(offset + i) * 3 + 2] = vertex.z
+      box.expandByPoint(vertex)
+    }
+
+    if (object instanceof THREE.Points) {
+      points += position.count
+    } else {
+      meshes++
+      const index = object.geometry.getIndex()
+      const count = index ? index.count : position.count
+      for (let i = 0; i + 2 < count; i += 3) {
+        for (let c = 0; c < 3; c++) triangles.push(offset + (index ? index.getX(i + c) : i + c))
+      }
+    }
+
+    for (const material of Array.isArray(object.material) ? object.material : [object.material]) {
+      materials.add(material)
+    }
+    offset += position.count
+  }
+
+  return {
+    data: {
+      positions,
+      // Without faces, the whole model is measured as points
+      indices: triangles.length > 0 ? new Uint32Array(triangles) : null,
+    },
+    stats: {
+      vertices: vertexCount,
+      triangles: triangles.length / 3,
+      points,
+      meshes,
+      materials: Array.from(new Set(Array.from(materials, (m, i) => m.name || `Material ${i + 1}`))),
+      boundsMin: box.isEmpty() ? [0, 0, 0] : [box.min.x, box.min.y, box.min.z],
+      boundsMax: box.isEmpty() ? [0, 0, 0] : [box.max.x, box.max.y, box.max.z],
+    },
+  }
+}
+
+/**
+ * Copy of a model painted with per-vertex distances (from extractMeshGeometry
+ * order). Unlit, so the colours read the same from every side.
+ */
+export function createDistanceHeatmap(model: THREE.Object3D, distances: Float32Array, maxDistance: number): THREE.Group {
+  const group = new THREE.Group()
+  const color = new THREE.Color()
+  let offset = 0
+
+  // Same placement as the model root
+  group.matrixAutoUpdate = false
+  group.matrix.copy(model.matrix)
+
+  for (const object of getSurfaceObjects(model)) {
+    const source = object.geometry
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', source.getAttribute('position').clone())
+    const index = source.getIndex()
+    if (index) geometry.setIndex(index.clone())
+
+    const count = source.getAttribute('position').count
+    const colors = new Float32Array(count * 3)
+    for (let i = 0; i < count; i++) {
+      distanceToColor(distances[offset + i] ?? 0, maxDistance, color)
+      colors[i * 3] = color.r
+      colors[i * 3 + 1] = color.g
+      colors[i * 3 + 2] = color.b
+    }
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
+    offset += count
+
+    const painted = object instanceof THREE.Points
+      ? new THREE.Points(geometry, new THREE.PointsMaterial({ size: POINT_SIZE, sizeAttenuation: false, vertexColors: true }))
+      : new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ vertexColors: true, side: THREE.DoubleSide }))
+
+    // Transform relative to the model root, which the group carries
+    painted.matrixAutoUpdate = false
+    painted.matrix.copy(model.matrixWorld).invert().multiply(object.matrixWorld)
+    group.add(painted)
+  }
+
+  return group
+}
+
+/**
+ * Free the geometry and materials of a heatmap
+ */
+export function disposeDistanceHeatmap(heatmap: THREE.Group): void {
+  heatmap.traverse(child => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.Points) {
+      child.geometry.dispose()
+      ;(child.material as THREE.Material).dispose()
+    }
+  })
+}
@@ -0,0 +1,180 @@
+/**
+ * Metric Masks
+ * MASK-001: Rasterize painted brush/polygon masks and the ROI into per-pixel
+ * planes at whatever resolution a metric runs, so every metric path scores
+ * exactly the same region. Planes hold 1 for pixels that count, 0 otherwise.
+ */
+
+import type { MaskShape, MetricMask, ROIRect } from '../types'
+
+/**
+ * True when the mask is enabled and adds at least one shape
+ */
+export function isMaskActive(mask: MetricMask | null | undefined): mask is MetricMask {
+  return !!mask && mask.enabled && mask.shapes.some(shape => !shape.erase)
+}
+
+/**
+ * Pixel bounds of the ROI (same rounding as the ROI crop in metricsComputation)
+ */
+export function getROIBounds(
+  width: number,
+  height: number,
+  roi?: ROIRect | null
+): { startX: number; startY: number; endX: number; endY: number } {
+  if (!roi) return { startX: 0, startY: 0, endX: width, endY: height }
+  return {
+    startX: Math.max(0, Math.floor(roi.x * width)),
+    startY: Math.max(0, Math.floor(roi.y * height)),
+    endX: Math.min(width, Math.floor((roi.x + roi.width) * width)),
+    endY: Math.min(height, Math.floor((roi.y + roi.height) * height)),
+  }
+}
+
+/**
+ * Squared distance from a point to a line segment
+ */
+function distanceToSegmentSq(px: number, py: number, ax: number, ay: number, bx: number, by: number): number {
+  const dx = bx - ax
+  const dy = by - ay
+  const lengthSq = dx * dx + dy * dy
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq)) : 0
+  const cx = ax + t * dx - px
+  const cy = ay + t * dy - py
+  return cx * cx + cy * cy
+}
+
+/**
+ * Paint one shape into the plane (1 to add, 0 to erase)
+ */
+function paintShape(plane: Uint8Array, width: number, height: number, shape: MaskShape): void {
+  if (shape.points.length === 0) return
+  const value = shape.erase ? 0 : 1
+  const points = shape.points.map(p => ({ x: p.x * width, y: p.y * height }))
+
+  if (shape.type === 'brush') {
+    // Stroke of round dabs: pixel centres within the radius of any segment
+    const radius = Math.max(0.5, shape.radius * width)
+    const radiusSq = radius * radius
+    const segments = points.length === 1 ? [[points[0], points[0]]] : points.slice(1).map((p, i) => [points[i], p])
+
+    for (const [a, b] of segments) {
+      const minX = Math.max(0, Math.floor(Math.min(a.x, b.x) - radius))
+      const maxX = Math.min(width - 1, Math.ceil(Math.max(a.x, b.x) + radius))
+      const minY = Math.max(0, Math.floor(Math.min(a.y, b.y) - radius))
+      const maxY = Math.min(height - 1, Math.ceil(Math.max(a.y, b.y) + radius))
+      for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+          if (distanceToSegmentSq(x + 0.5, y + 0.5, a.x, a.y, b.x, b.y) <= radiusSq) {
+            plane[y * width + x] = value
+          }
+        }
+      }
+    }
+    return
+  }
+
+  // Polygon: even-odd scanline fill at pixel centres
+  if (points.length < 3) return
+  const crossings: number[] = []
+  for (let y = 0; y < height; y++) {
+    const cy = y + 0.5
+    crossings.length = 0
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i]
+      const b = points[(i + 1) % points.length]
+      if ((a.y <= cy) !== (b.y <= cy)) {
+        crossings.push(a.x + ((cy - a.y) / (b.y - a.y)) * (b.x - a.x))
+      }
+    }
+    crossings.sort((m, n) => m - n)
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const startX = Math.max(0, Math.ceil(crossings[i] - 0.5))
+      const endX = Math.min(width - 1, Math.floor(crossings[i + 1] - 0.5))
+      for (let x = startX; x <= endX; x++) plane[y * width + x] = value
+    }
+  }
+}
+
+/**
+ * Rasterize a mask over the full frame
+ */
+export function rasterizeMask(mask: MetricMask, width: number, height: number): Uint8Array {
+  const plane = new Uint8Array(width * height)
+  for (const shape of mask.shapes) {
+    paintShape(plane, width, height, shape)
+  }
+  return plane
+}
+
+/**
+ * Full-frame plane of the pixels every metric should score: the ROI,
+ * further restricted to the mask when one is active.
+ * Returns null when neither applies (score the whole frame).
+ */
+export function buildMetricRegion(
+  width: number,
+  height: number,
+  roi?: ROIRect | null,
+  mask?: MetricMask | null
+): Uint8Array | null {
+  const hasMask = isMaskActive(mask)
+  if (!roi && !hasMask) return null
+
+  const plane = hasMask ? rasterizeMask(mask, width, height) : new Uint8Array(width * height).fill(1)
+  if (roi) {
+    const { startX, startY, endX, endY } = getROIBounds(width, height, roi)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (x < startX || x >= endX || y < startY || y >= endY) plane[y * width + x] = 0
+      }
+    }
+  }
+  return plane
+}
+
+/**
+ * Inside and outside mask planes, both within the ROI.
+ * Returns null when no mask is active.
+ */
+export function buildMaskBreakdownRegions(
+  width: number,
+  height: number,
+  roi?: ROIRect | null,
+  mask?: MetricMask | null
+): { inside: Uint8Array; outside: Uint8Array } | null {
+  if (!isMaskActive(mask)) return null
+
+  const inside = buildMetricRegion(width, height, roi, mask)!
+  const outside = buildMetricRegion(width, height, roi, null) ?? new Uint8Array(width * height).fill(1)
+  for (let i = 0; i < outside.length; i++) {
+    if (inside[i]) outside[i] = 0
+  }
+  return { inside, outside }
+}
+
+/**
+ * Copy the ROI rectangle out of a full-frame plane
+ */
+export function cropPlaneToROI(plane: Uint8Array, width: number, height: number, roi?: ROIRect | null): Uint8Array {
+  if (!roi) return plane
+
+  const { startX, startY, endX, endY } = getROIBounds(width, height, roi)
+  const cropW = Math.max(0, endX - startX)
+  const cropH = Math.max(0, endY - startY)
+  const out = new Uint8Array(cropW * cropH)
+  for (let y = 0; y < cropH; y++) {
+    const srcStart = (startY + y) * width + startX
+    out.set(plane.subarray(srcStart, srcStart + cropW), y * cropW)
+  }
+  return out
+}
+
+/**
+ * Number of pixels set in a plane
+ */
+export function countMaskPixels(plane: Uint8Array): number {
+  let count = 0
+  for (let i = 0; i < plane.length; i++) count += plane[i]
+  return count
+}
@@ -1,27 +1,63 @@
 /**
  * Video Quality Metrics - SSIM and PSNR calculations
  * VID-004: Video Quality Metrics
+ * METRICS-002: MS-SSIM, CIEDE2000 and per-channel (Y/Cb/Cr) PSNR
+ * METRICS-003: FLIP perceptual error
+ * ARTIFACT-001: No-reference blockiness, banding and ringing scores
+ * METRICS-004: No-reference sharpness, noise and naturalness per side
+ * MASK-001: Optional per-pixel region masks for every full-reference metric
+ * WORKER-001: Frame sources may be ImageBitmaps read on an OffscreenCanvas
+ * HDR-001: Full-reference metrics also take linear float pixels
  */
 
+import type { ArtifactScores, ChannelPSNR, MaskBreakdown, MaskRegionMetrics, MetricMask, NoReferenceScores, QualityMetricId, ROIRect } from '../types'
+import { buildMetricRegion, buildMaskBreakdownRegions, countMaskPixels } from './metricMask'
+
+/**
+ * METRICS-002: Display metadata for selectable metrics
+ */
+export const QUALITY_METRICS: Record<QualityMetricId, { label: string; description: string }> = {
+  'ssim': { label: 'SSIM', description: 'Single-scale structural similarity (1.0 = identical)' },
+  'ms-ssim': { label: 'MS-SSIM', description: 'Multi-scale SSIM, 5 scales (1.0 = identical)' },
+  'psnr': { label: 'PSNR', description: 'RGB peak signal-to-noise ratio (higher = similar)' },
+  'psnr-ycbcr': { label: 'PSNR Y/Cb/Cr', description: 'Per-channel PSNR in BT.601 YCbCr' },
+  'delta-e94': { label: 'ΔE94', description: 'Mean CIE94 color difference (lower = similar)' },
+  'delta-e2000': { label: 'ΔE00', description: 'Mean CIEDE2000 color difference (lower = similar)' },
+  'flip': { label: 'FLIP', description: 'Mean FLIP perceptual error for the viewing distance (0 = identical)' },
+  'sharpness': { label: 'Sharpness', description: 'Laplacian variance of each side, no reference needed (higher = sharper)' },
+  'noise': { label: 'Noise σ', description: 'Estimated noise standard deviation of each side in 8-bit code values' },
+  'naturalness': { label: 'Naturalness', description: 'Deviation of MSCN statistics from natural images, NIQE-style (lower = more natural)' },
+}
+
+/**
+ * HDR-001: RGBA pixels, either 8-bit code values or linear floats scaled so
+ * display white is 255 (values above 255 are highlights)
+ */
+export type PixelData = Uint8ClampedArray | Float32Array
+
 /**
  * Calculate Mean Squared Error between two image data arrays
+ * MASK-001: Only pixels set in the mask count (all pixels without one)
  */
-function calculateMSE(dataA: Uint8ClampedArray, dataB: Uint8ClampedArray): number {
+function calculateMSE(dataA: PixelData, dataB: PixelData, mask?: Uint8Array | null): number {
   if (dataA.length !== dataB.length) return Infinity
 
   let sum = 0
-  const pixelCount = dataA.length / 4 // RGBA
+  let pixelCount = 0
+
+  for (let i = 0, p = 0; i < dataA.length; i += 4, p++) {
+    if (mask && !mask[p]) continue
 
-  for (let i = 0; i < dataA.length; i += 4) {
     // Only compare RGB, skip alpha
     const diffR = dataA[i] - dataB[i]
     const diffG = dataA[i + 1] - dataB[i + 1]
     const diffB = dataA[i + 2] - dataB[i + 2]
 
     sum += (diffR * diffR + diffG * diffG + diffB * diffB) / 3
+    pixelCount++
   }
 
-  return sum / pixelCount
+  return pixelCount > 0 ? sum / pixelCount : Infinity
 }
 
 /**
@@ -29,8 +65,8 @@ function calculateMSE(dataA: Uint8ClampedArray, dataB: Uint8ClampedArray): numbe
  * Higher values indicate better quality / more similarity
  * Typical values: 30-50 dB for good quality, Infinity for identical images
  */
-export function calculatePSNR(dataA: Uint8ClampedArray, dataB: Uint8ClampedArray): number {
-  const mse = calculateMSE(dataA, dataB)
+export function calculatePSNR(dataA: PixelData, dataB: PixelData, mask?: Uint8Array | null): number {
+  const mse = calculateMSE(dataA, dataB, mask)
 
   if (mse === 0) return Infinity // Identical images
   if (mse === Infinity) return 0
@@ -43,21 +79,25 @@ export function calculatePSNR(dataA: Uint8ClampedArray, dataB: Uint8ClampedArray
 /**
  * Calculate mean and variance of image data
  */
-function calculateStats(data: Uint8ClampedArray): { mean: number; variance: number } {
-  const pixelCount = data.length / 4
+function calculateStats(data: PixelData, mask?: Uint8Array | null): { mean: number; variance: number } {
+  let pixelCount = 0
   let sum = 0
 
   // Calculate mean (luminance only for simplicity)
-  for (let i = 0; i < data.length; i += 4) {
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    if (mask && !mask[p]) continue
     // Convert to grayscale: 0.299*R + 0.587*G + 0.114*B
     const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
     sum += luminance
+    pixelCount++
   }
+  if (pixelCount === 0) return { mean: 0, variance: 0 }
   const mean = sum / pixelCount
 
   // Calculate variance
   let varianceSum = 0
-  for (let i = 0; i < data.length; i += 4) {
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    if (mask && !mask[p]) continue
     const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
     varianceSum += (luminance - mean) * (luminance - mean)
   }
@@ -70,21 +110,24 @@ function calculateStats(data: Uint8ClampedArray): { mean: number; variance: numb
  * Calculate covariance between two images
  */
 function calculateCovariance(
-  dataA: Uint8ClampedArray,
-  dataB: Uint8ClampedArray,
+  dataA: PixelData,
+  dataB: PixelData,
   meanA: number,
-  meanB: number
+  meanB: number,
+  mask?: Uint8Array | null
 ): number {
-  const pixelCount = dataA.length / 4
+  let pixelCount = 0
   let sum = 0
 
-  for (let i = 0; i < dataA.length; i += 4) {
+  for (let i = 0, p = 0; i < dataA.length; i += 4, p++) {
+    if (mask && !mask[p]) continue
     const lumA = 0.299 * dataA[i] + 0.587 * dataA[i + 1] + 0.114 * dataA[i + 2]
     const lumB = 0.299 * dataB[i] + 0.587 * dataB[i + 1] + 0.114 * dataB[i + 2]
     sum += (lumA - meanA) * (lumB - meanB)
+    pixelCount++
   }
 
-  return sum / pixelCount
+  return pixelCount > 0 ? sum / pixelCount : 0
 }
 
 /**
@@ -92,12 +135,12 @@ function calculateCovariance(
  * Range: -1 to 1, where 1 = identical images
  * Typical threshold: > 0.98 considered visually identical
  */
-export function calculateSSIM(dataA: Uint8ClampedArray, dataB: Uint8ClampedArray): number {
+export function calculateSSIM(dataA: PixelData, dataB: PixelData, mask?: Uint8Array | null): number {
   if (dataA.length !== dataB.length) return 0
 
-  const statsA = calculateStats(dataA)
-  const statsB = calculateStats(dataB)
-  const covariance = calculateCovariance(dataA, dataB, statsA.mean, statsB.mean)
+  const statsA = calculateStats(dataA, mask)
+  const statsB = calculateStats(dataB, mask)
+  const covariance = calculateCovariance(dataA, dataB, statsA.mean, statsB.mean, mask)
 
   // SSIM constants
   const L = 255 // Dynamic range
@@ -115,45 +158,1228 @@ export function calculateSSIM(dataA: Uint8ClampedArray, dataB: Uint8ClampedArray
 }
 
 /**
- * Get frame data from a video element
+ * METRICS-002: Multi-scale SSIM (Wang, Simoncelli & Bovik 2003)
  */
-export function getVideoFrameData(
-  video: HTMLVideoElement,
-  width: number = 256,
-  height: number = 144
-): Uint8ClampedArray | null {
-  if (!video || video.readyState < 2) return null
 
+// Standard MS-SSIM scale weights (5 scales)
+const MS_SSIM_WEIGHTS = [0.0448, 0.2856, 0.3001, 0.2363, 0.1333]
+const SSIM_WINDOW_SIZE = 11
+const SSIM_WINDOW_SIGMA = 1.5
+
+/**
+ * Build a normalized 1D Gaussian kernel
+ */
+function gaussianKernel(size: number, sigma: number): Float32Array {
+  const kernel = new Float32Array(size)
+  const center = (size - 1) / 2
+  let sum = 0
+  for (let i = 0; i < size; i++) {
+    const x = i - center
+    kernel[i] = Math.exp(-(x * x) / (2 * sigma * sigma))
+    sum += kernel[i]
+  }
+  for (let i = 0; i < size; i++) kernel[i] /= sum
+  return kernel
+}
+
+/**
+ * Separable 'valid' convolution (output shrinks by kernel size - 1)
+ */
+function filterValid(
+  src: Float32Array,
+  width: number,
+  height: number,
+  kernel: Float32Array
+): { data: Float32Array; width: number; height: number } {
+  const k = kernel.length
+  const outW = width - k + 1
+  const outH = height - k + 1
+
+  // Horizontal pass
+  const tmp = new Float32Array(outW * height)
+  for (let y = 0; y < height; y++) {
+    const row = y * width
+    for (let x = 0; x < outW; x++) {
+      let sum = 0
+      for (let i = 0; i < k; i++) sum += src[row + x + i] * kernel[i]
+      tmp[y * outW + x] = sum
+    }
+  }
+
+  // Vertical pass
+  const out = new Float32Array(outW * outH)
+  for (let y = 0; y < outH; y++) {
+    for (let x = 0; x < outW; x++) {
+      let sum = 0
+      for (let i = 0; i < k; i++) sum += tmp[(y + i) * outW + x] * kernel[i]
+      out[y * outW + x] = sum
+    }
+  }
+
+  return { data: out, width: outW, height: outH }
+}
+
+/**
+ * Extract BT.601 luma plane from RGBA data
+ */
+function toLumaPlane(data: PixelData): Float32Array {
+  const luma = new Float32Array(data.length / 4)
+  for (let i = 0, j = 0; i < data.length; i += 4, j++) {
+    luma[j] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+  }
+  return luma
+}
+
+/**
+ * 2x2 average downsample
+ */
+function downsample2x(src: Float32Array, width: number, height: number): { data: Float32Array; width: number; height: number } {
+  const outW = Math.floor(width / 2)
+  const outH = Math.floor(height / 2)
+  const out = new Float32Array(outW * outH)
+  for (let y = 0; y < outH; y++) {
+    for (let x = 0; x < outW; x++) {
+      const i = 2 * y * width + 2 * x
+      out[y * outW + x] = (src[i] + src[i + 1] + src[i + width] + src[i + width + 1]) / 4
+    }
+  }
+  return { data: out, width: outW, height: outH }
+}
+
+/**
+ * Mean luminance and contrast-structure terms of windowed SSIM at one scale.
+ * MASK-001: With a coverage plane, each window is weighted by how much of
+ * it (Gaussian-weighted) lies inside the mask.
+ */
+function ssimComponents(
+  a: Float32Array,
+  b: Float32Array,
+  width: number,
+  height: number,
+  kernel: Float32Array,
+  coverage?: Float32Array | null
+): { luminance: number; contrastStructure: number } {
+  const c1 = (0.01 * 255) ** 2
+  const c2 = (0.03 * 255) ** 2
+
+  const aa = new Float32Array(a.length)
+  const bb = new Float32Array(a.length)
+  const ab = new Float32Array(a.length)
+  for (let i = 0; i < a.length; i++) {
+    aa[i] = a[i] * a[i]
+    bb[i] = b[i] * b[i]
+    ab[i] = a[i] * b[i]
+  }
+
+  const muA = filterValid(a, width, height, kernel).data
+  const muB = filterValid(b, width, height, kernel).data
+  const sAA = filterValid(aa, width, height, kernel).data
+  const sBB = filterValid(bb, width, height, kernel).data
+  const sAB = filterValid(ab, width, height, kernel).data
+  const weights = coverage ? filterValid(coverage, width, height, kernel).data : null
+
+  let lumSum = 0
+  let csSum = 0
+  let weightSum = 0
+  for (let i = 0; i < muA.length; i++) {
+    const w = weights ? weights[i] : 1
+    if (w <= 0) continue
+    const mA = muA[i]
+    const mB = muB[i]
+    const varA = sAA[i] - mA * mA
+    const varB = sBB[i] - mB * mB
+    const cov = sAB[i] - mA * mB
+    lumSum += w * (2 * mA * mB + c1) / (mA * mA + mB * mB + c1)
+    csSum += w * (2 * cov + c2) / (varA + varB + c2)
+    weightSum += w
+  }
+
+  const n = weightSum || 1
+  return { luminance: lumSum / n, contrastStructure: csSum / n }
+}
+
+/**
+ * Calculate MS-SSIM between two RGBA frames of the same size.
+ * Uses 11x11 Gaussian windows (sigma 1.5) and up to 5 dyadic scales;
+ * fewer scales are used for small frames with the weights renormalized.
+ * Range: 0 to 1, where 1 = identical images
+ */
+export function calculateMSSSIM(
+  dataA: PixelData,
+  dataB: PixelData,
+  width: number,
+  height: number,
+  mask?: Uint8Array | null
+): number {
+  if (dataA.length !== dataB.length || dataA.length !== width * height * 4) return 0
+  if (width < SSIM_WINDOW_SIZE || height < SSIM_WINDOW_SIZE) {
+    return calculateSSIM(dataA, dataB, mask)
+  }
+
+  // Number of scales the frame can support
+  let scales = 1
+  while (
+    scales < MS_SSIM_WEIGHTS.length &&
+    Math.min(width, height) / Math.pow(2, scales) >= SSIM_WINDOW_SIZE
+  ) {
+    scales++
+  }
+  const weights = MS_SSIM_WEIGHTS.slice(0, scales)
+  const weightSum = weights.reduce((s, w) => s + w, 0)
+
+  const kernel = gaussianKernel(SSIM_WINDOW_SIZE, SSIM_WINDOW_SIGMA)
+  let a = { data: toLumaPlane(dataA), width, height }
+  let b = { data: toLumaPlane(dataB), width, height }
+  // MASK-001: Fractional coverage, averaged down with the image. Outside the
+  // mask B is replaced by A so differences there cannot leak into windows
+  // that straddle the mask edge.
+  let coverage: { data: Float32Array; width: number; height: number } | null = mask ? { data: Float32Array.from(mask), width, height } : null
+  if (mask) {
+    for (let i = 0; i < mask.length; i++) {
+      if (!mask[i]) b.data[i] = a.data[i]
+    }
+  }
+  let result = 1
+
+  for (let scale = 0; scale < scales; scale++) {
+    const { luminance, contrastStructure } = ssimComponents(a.data, b.data, a.width, a.height, kernel, coverage?.data)
+    const weight = weights[scale] / weightSum
+    const isLast = scale === scales - 1
+    // Clamp negative values so fractional powers stay real
+    const term = Math.max(0, isLast ? luminance * contrastStructure : contrastStructure)
+    result *= Math.pow(term, weight)
+
+    if (!isLast) {
+      a = downsample2x(a.data, a.width, a.height)
+      b = downsample2x(b.data, b.width, b.height)
+      if (coverage) coverage = downsample2x(coverage.data, coverage.width, coverage.height)
+    }
+  }
+
+  return result
+}
+
+/**
+ * METRICS-002: Per-channel PSNR in BT.601 full-range Y/Cb/Cr
+ */
+export function calculateChannelPSNR(dataA: PixelData, dataB: PixelData, mask?: Uint8Array | null): ChannelPSNR {
+  if (dataA.length !== dataB.length || dataA.length === 0) {
+    return { y: 0, cb: 0, cr: 0 }
+  }
+
+  let sumY = 0
+  let sumCb = 0
+  let sumCr = 0
+  let pixelCount = 0
+
+  for (let i = 0, p = 0; i < dataA.length; i += 4, p++) {
+    if (mask && !mask[p]) continue
+
+    const rA = dataA[i], gA = dataA[i + 1], bA = dataA[i + 2]
+    const rB = dataB[i], gB = dataB[i + 1], bB = dataB[i + 2]
+
+    const dY = 0.299 * (rA - rB) + 0.587 * (gA - gB) + 0.114 * (bA - bB)
+    const dCb = -0.168736 * (rA - rB) - 0.331264 * (gA - gB) + 0.5 * (bA - bB)
+    const dCr = 0.5 * (rA - rB) - 0.418688 * (gA - gB) - 0.081312 * (bA - bB)
+
+    sumY += dY * dY
+    sumCb += dCb * dCb
+    sumCr += dCr * dCr
+    pixelCount++
+  }
+
+  if (pixelCount === 0) return { y: 0, cb: 0, cr: 0 }
+  const toPSNR = (sum: number) => {
+    const mse = sum / pixelCount
+    return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse)
+  }
+
+  return { y: toPSNR(sumY), cb: toPSNR(sumCb), cr: toPSNR(sumCr) }
+}
+
+export interface LabColor {
+  L: number
+  a: number
+  b: number
+}
+
+/**
+ * Convert sRGB (0-255) to CIE L*a*b* (D65)
+ */
+export function rgbToLab(r: number, g: number, b: number): LabColor {
+  // Normalize RGB to 0-1
+  let rn = r / 255
+  let gn = g / 255
+  let bn = b / 255
+
+  // Apply gamma correction
+  rn = rn > 0.04045 ? Math.pow((rn + 0.055) / 1.055, 2.4) : rn / 12.92
+  gn = gn > 0.04045 ? Math.pow((gn + 0.055) / 1.055, 2.4) : gn / 12.92
+  bn = bn > 0.04045 ? Math.pow((bn + 0.055) / 1.055, 2.4) : bn / 12.92
+
+  // Convert to XYZ
+  const x = (rn * 0.4124564 + gn * 0.3575761 + bn * 0.1804375) / 0.95047
+  const y = (rn * 0.2126729 + gn * 0.7151522 + bn * 0.0721750)
+  const z = (rn * 0.0193339 + gn * 0.1191920 + bn * 0.9503041) / 1.08883
+
+  // Convert to LAB
+  const fx = x > 0.008856 ? Math.pow(x, 1/3) : (7.787 * x) + 16/116
+  const fy = y > 0.008856 ? Math.pow(y, 1/3) : (7.787 * y) + 16/116
+  const fz = z > 0.008856 ? Math.pow(z, 1/3) : (7.787 * z) + 16/116
+
+  return {
+    L: (116 * fy) - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz)
+  }
+}
+
+/**
+ * METRICS-002: CIEDE2000 color difference (Sharma, Wu & Dalal 2005)
+ */
+export function deltaE2000(lab1: LabColor, lab2: LabColor): number {
+  const deg = Math.PI / 180
+  const pow25_7 = Math.pow(25, 7)
+
+  const c1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b)
+  const c2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b)
+  const cMean = (c1 + c2) / 2
+  const cMean7 = Math.pow(cMean, 7)
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + pow25_7)))
+
+  const a1p = (1 + g) * lab1.a
+  const a2p = (1 + g) * lab2.a
+  const c1p = Math.sqrt(a1p * a1p + lab1.b * lab1.b)
+  const c2p = Math.sqrt(a2p * a2p + lab2.b * lab2.b)
+
+  const hueAngle = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0
+    const h = Math.atan2(b, a) / deg
+    return h < 0 ? h + 360 : h
+  }
+  const h1p = hueAngle(lab1.b, a1p)
+  const h2p = hueAngle(lab2.b, a2p)
+
+  const dLp = lab2.L - lab1.L
+  const dCp = c2p - c1p
+
+  let dhp = 0
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p
+    if (dhp > 180) dhp -= 360
+    else if (dhp < -180) dhp += 360
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp / 2) * deg)
+
+  const lMean = (lab1.L + lab2.L) / 2
+  const cpMean = (c1p + c2p) / 2
+
+  let hpMean = h1p + h2p
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hpMean /= 2
+    else hpMean = h1p + h2p < 360 ? (hpMean + 360) / 2 : (hpMean - 360) / 2
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((hpMean - 30) * deg) +
+    0.24 * Math.cos(2 * hpMean * deg) +
+    0.32 * Math.cos((3 * hpMean + 6) * deg) -
+    0.2 * Math.cos((4 * hpMean - 63) * deg)
+
+  const dTheta = 30 * Math.exp(-Math.pow((hpMean - 275) / 25, 2))
+  const cpMean7 = Math.pow(cpMean, 7)
+  const rc = 2 * Math.sqrt(cpMean7 / (cpMean7 + pow25_7))
+  const lMean50 = (lMean - 50) * (lMean - 50)
+  const sl = 1 + (0.015 * lMean50) / Math.sqrt(20 + lMean50)
+  const sc = 1 + 0.045 * cpMean
+  const sh = 1 + 0.015 * cpMean * t
+  const rt = -Math.sin(2 * dTheta * deg) * rc
+
+  const tL = dLp / sl
+  const tC = dCp / sc
+  const tH = dHp / sh
+
+  return Math.sqrt(tL * tL + tC * tC + tH * tH + rt * tC * tH)
+}
+
+/**
+ * Mean CIEDE2000 over two RGBA frames, sampling every Nth pixel
+ */
+export function calculateMeanDeltaE2000(
+  dataA: PixelData,
+  dataB: PixelData,
+  sampleRate: number = 1,
+  mask?: Uint8Array | null
+): number {
+  if (dataA.length !== dataB.length || dataA.length === 0) return 0
+
+  let sum = 0
+  let count = 0
+  const step = 4 * Math.max(1, sampleRate)
+  for (let i = 0; i < dataA.length; i += step) {
+    if (mask && !mask[i / 4]) continue
+    sum += deltaE2000(
+      rgbToLab(dataA[i], dataA[i + 1], dataA[i + 2]),
+      rgbToLab(dataB[i], dataB[i + 1], dataB[i + 2])
+    )
+    count++
+  }
+
+  return count > 0 ? sum / count : 0
+}
+
+// METRICS-003: FLIP constants (Andersson et al. 2020, LDR variant)
+export const FLIP_DEFAULT_PPD = 67 // 0.7 m from a 0.7 m wide 4K display
+const FLIP_QC = 0.7
+const FLIP_QF = 0.5
+const FLIP_PC = 0.4
+const FLIP_PT = 0.95
+const FLIP_GW = 0.082
+const FLIP_WHITE = [0.950428545, 1.0, 1.088900371]
+
+// Contrast sensitivity filters as sums of Gaussians: [a, b] pairs per channel
+const FLIP_CSF_Y: [number, number][] = [[1, 0.0047]]
+const FLIP_CSF_CX: [number, number][] = [[1, 0.0053]]
+const FLIP_CSF_CZ: [number, number][] = [[34.1, 0.04], [13.5, 0.025]]
+
+interface FlipPlanes {
+  y: Float32Array
+  cx: Float32Array
+  cz: Float32Array
+  lum: Float32Array
+}
+
+/**
+ * Convert RGBA data to FLIP's YCxCz opponent space plus linear luminance
+ */
+function toFlipPlanes(data: Uint8ClampedArray): FlipPlanes {
+  const n = data.length / 4
+  const planes: FlipPlanes = {
+    y: new Float32Array(n),
+    cx: new Float32Array(n),
+    cz: new Float32Array(n),
+    lum: new Float32Array(n),
+  }
+  const toLinear = (v: number) => {
+    const c = v / 255
+    return c > 0.04045 ? Math.pow((c + 0.055) / 1.055, 2.4) : c / 12.92
+  }
+
+  for (let i = 0; i < n; i++) {
+    const r = toLinear(data[i * 4])
+    const g = toLinear(data[i * 4 + 1])
+    const b = toLinear(data[i * 4 + 2])
+    const x = (r * 0.4124564 + g * 0.3575761 + b * 0.1804375) / FLIP_WHITE[0]
+    const y = r * 0.2126729 + g * 0.7151522 + b * 0.0721750
+    const z = (r * 0.0193339 + g * 0.1191920 + b * 0.9503041) / FLIP_WHITE[2]
+    planes.y[i] = 116 * y - 16
+    planes.cx[i] = 500 * (x - y)
+    planes.cz[i] = 200 * (y - z)
+    planes.lum[i] = y
+  }
+
+  return planes
+}
+
+/**
+ * Separable convolution with clamp-to-edge borders
+ */
+function convolveSeparable(
+  src: Float32Array,
+  width: number,
+  height: number,
+  kernelX: Float32Array,
+  kernelY: Float32Array
+): Float32Array {
+  const rx = (kernelX.length - 1) / 2
+  const ry = (kernelY.length - 1) / 2
+  const tmp = new Float32Array(src.length)
+  const out = new Float32Array(src.length)
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let k = 0; k < kernelX.length; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k - rx))
+        sum += src[row + sx] * kernelX[k]
+      }
+      tmp[row + x] = sum
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let k = 0; k < kernelY.length; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k - ry))
+        sum += tmp[sy * width + x] * kernelY[k]
+      }
+      out[y * width + x] = sum
+    }
+  }
+
+  return out
+}
+
+/**
+ * Apply a contrast sensitivity filter. Each Gaussian term is separable,
+ * so the 2D filter is the weighted sum of separable passes.
+ */
+function flipCsfFilter(
+  src: Float32Array,
+  width: number,
+  height: number,
+  terms: [number, number][],
+  radius: number,
+  ppd: number
+): Float32Array {
+  const passes = terms.map(([a, b]) => {
+    const kernel = new Float32Array(radius * 2 + 1)
+    let sum = 0
+    for (let i = -radius; i <= radius; i++) {
+      const d = i / ppd
+      kernel[i + radius] = Math.exp((-Math.PI * Math.PI * d * d) / b)
+      sum += kernel[i + radius]
+    }
+    // Weight of this term in the 2D kernel (before normalisation)
+    return { kernel, weight: ((a * Math.PI) / b) * sum * sum, sum }
+  })
+  const totalWeight = passes.reduce((s, p) => s + p.weight, 0)
+
+  const out = new Float32Array(src.length)
+  for (const pass of passes) {
+    const normalized = pass.kernel.map(v => v / pass.sum)
+    const filtered = convolveSeparable(src, width, height, normalized, normalized)
+    const w = pass.weight / totalWeight
+    for (let i = 0; i < out.length; i++) out[i] += filtered[i] * w
+  }
+
+  return out
+}
+
+/**
+ * Hunt-adjusted CIELab from filtered YCxCz (linear RGB clamped to gamut)
+ */
+function flipHuntLab(yy: number, cx: number, cz: number): LabColor {
+  const ny = (yy + 16) / 116
+  const x = (cx / 500 + ny) * FLIP_WHITE[0]
+  const z = (ny - cz / 200) * FLIP_WHITE[2]
+
+  const r = Math.min(1, Math.max(0, 3.2404542 * x - 1.5371385 * ny - 0.4985314 * z))
+  const g = Math.min(1, Math.max(0, -0.9692660 * x + 1.8760108 * ny + 0.0415560 * z))
+  const b = Math.min(1, Math.max(0, 0.0556434 * x - 0.2040259 * ny + 1.0572252 * z))
+
+  return flipLinearRgbToHuntLab(r, g, b)
+}
+
+function flipLinearRgbToHuntLab(r: number, g: number, b: number): LabColor {
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116)
+  const fx = f((r * 0.4124564 + g * 0.3575761 + b * 0.1804375) / FLIP_WHITE[0])
+  const fy = f(r * 0.2126729 + g * 0.7151522 + b * 0.0721750)
+  const fz = f((r * 0.0193339 + g * 0.1191920 + b * 0.9503041) / FLIP_WHITE[2])
+  const L = 116 * fy - 16
+
+  return { L, a: 0.01 * L * 500 * (fx - fy), b: 0.01 * L * 200 * (fy - fz) }
+}
+
+function hyAB(lab1: LabColor, lab2: LabColor): number {
+  const da = lab1.a - lab2.a
+  const db = lab1.b - lab2.b
+  return Math.abs(lab1.L - lab2.L) + Math.sqrt(da * da + db * db)
+}
+
+/**
+ * Edge (first derivative) and point (second derivative) detector kernels.
+ * Positive and negative weights are normalised to +1 and -1 separately.
+ */
+function flipFeatureKernels(ppd: number): { gauss: Float32Array; edge: Float32Array; point: Float32Array } {
+  const sd = 0.5 * FLIP_GW * ppd
+  const radius = Math.ceil(3 * sd)
+  const size = radius * 2 + 1
+  const gauss = new Float32Array(size)
+  const edge = new Float32Array(size)
+  const point = new Float32Array(size)
+
+  for (let i = -radius; i <= radius; i++) {
+    const g = Math.exp((-i * i) / (2 * sd * sd))
+    gauss[i + radius] = g
+    edge[i + radius] = -i * g
+    point[i + radius] = ((i * i) / (sd * sd) - 1) * g
+  }
+
+  const normalize = (kernel: Float32Array) => {
+    let pos = 0
+    let neg = 0
+    for (const v of kernel) {
+      if (v > 0) pos += v
+      else neg -= v
+    }
+    return kernel.map(v => (v > 0 ? v / (pos || 1) : v / (neg || 1)))
+  }
+  const gaussSum = gauss.reduce((s, v) => s + v, 0)
+
+  return { gauss: gauss.map(v => v / gaussSum), edge: normalize(edge), point: normalize(point) }
+}
+
+/**
+ * Per-pixel edge and point feature magnitudes of a luminance plane
+ */
+function flipFeatures(
+  lum: Float32Array,
+  width: number,
+  height: number,
+  kernels: ReturnType<typeof flipFeatureKernels>
+): { edges: Float32Array; points: Float32Array } {
+  const edgeX = convolveSeparable(lum, width, height, kernels.edge, kernels.gauss)
+  const edgeY = convolveSeparable(lum, width, height, kernels.gauss, kernels.edge)
+  const pointX = convolveSeparable(lum, width, height, kernels.point, kernels.gauss)
+  const pointY = convolveSeparable(lum, width, height, kernels.gauss, kernels.point)
+
+  const edges = new Float32Array(lum.length)
+  const points = new Float32Array(lum.length)
+  for (let i = 0; i < lum.length; i++) {
+    edges[i] = Math.hypot(edgeX[i], edgeY[i])
+    points[i] = Math.hypot(pointX[i], pointY[i])
+  }
+
+  return { edges, points }
+}
+
+/**
+ * METRICS-003: Per-pixel FLIP error map (0 = identical, 1 = maximal error).
+ * Colour differences are measured after contrast sensitivity filtering for
+ * the given viewing condition, then amplified where edges or points differ.
+ */
+export function calculateFLIPMap(
+  dataA: Uint8ClampedArray,
+  dataB: Uint8ClampedArray,
+  width: number,
+  height: number,
+  pixelsPerDegree: number = FLIP_DEFAULT_PPD
+): Float32Array {
+  const n = width * height
+  if (n === 0 || dataA.length !== n * 4 || dataB.length !== n * 4) return new Float32Array(0)
+
+  const ppd = Math.max(1, pixelsPerDegree)
+  const csfRadius = Math.ceil(3 * Math.sqrt(0.04 / (2 * Math.PI * Math.PI)) * ppd)
+  const planesA = toFlipPlanes(dataA)
+  const planesB = toFlipPlanes(dataB)
+
+  const filter = (plane: Float32Array, terms: [number, number][]) =>
+    flipCsfFilter(plane, width, height, terms, csfRadius, ppd)
+  const yA = filter(planesA.y, FLIP_CSF_Y)
+  const cxA = filter(planesA.cx, FLIP_CSF_CX)
+  const czA = filter(planesA.cz, FLIP_CSF_CZ)
+  const yB = filter(planesB.y, FLIP_CSF_Y)
+  const cxB = filter(planesB.cx, FLIP_CSF_CX)
+  const czB = filter(planesB.cz, FLIP_CSF_CZ)
+
+  const kernels = flipFeatureKernels(ppd)
+  const featA = flipFeatures(planesA.lum, width, height, kernels)
+  const featB = flipFeatures(planesB.lum, width, height, kernels)
+
+  const cmax = Math.pow(hyAB(flipLinearRgbToHuntLab(0, 1, 0), flipLinearRgbToHuntLab(0, 0, 1)), FLIP_QC)
+  const pccmax = FLIP_PC * cmax
+
+  const map = new Float32Array(n)
+  for (let i = 0; i < n; i++) {
+    // Colour pipeline: HyAB distance, compressed into [0, 1]
+    let dc = Math.pow(hyAB(flipHuntLab(yA[i], cxA[i], czA[i]), flipHuntLab(yB[i], cxB[i], czB[i])), FLIP_QC)
+    dc = dc < pccmax
+      ? dc * (FLIP_PT / pccmax)
+      : FLIP_PT + ((dc - pccmax) / (cmax - pccmax)) * (1 - FLIP_PT)
+
+    // Feature pipeline
+    const featureDiff = Math.max(
+      Math.abs(featA.edges[i] - featB.edges[i]),
+      Math.abs(featA.points[i] - featB.points[i])
+    )
+    const df = Math.pow(featureDiff / Math.SQRT2, FLIP_QF)
+
+    map[i] = Math.pow(dc, 1 - df)
+  }
+
+  return map
+}
+
+/**
+ * METRICS-003: Mean FLIP error between two RGBA frames
+ * MASK-001: The map is filtered over the whole frame (surroundings affect
+ * visibility) and averaged over the masked pixels only
+ */
+export function calculateFLIP(
+  dataA: Uint8ClampedArray,
+  dataB: Uint8ClampedArray,
+  width: number,
+  height: number,
+  pixelsPerDegree: number = FLIP_DEFAULT_PPD,
+  mask?: Uint8Array | null
+): number {
+  const map = calculateFLIPMap(dataA, dataB, width, height, pixelsPerDegree)
+  if (map.length === 0) return 0
+
+  let sum = 0
+  let count = 0
+  for (let i = 0; i < map.length; i++) {
+    if (mask && !mask[i]) continue
+    sum += map[i]
+    count++
+  }
+  return count > 0 ? sum / count : 0
+}
+
+/**
+ * MASK-001: Full-reference metrics over the pixels of one region
+ */
+function calculateRegionMetrics(
+  dataA: PixelData,
+  dataB: PixelData,
+  width: number,
+  height: number,
+  region: Uint8Array
+): MaskRegionMetrics | null {
+  const pixelCount = countMaskPixels(region)
+  if (pixelCount === 0) return null
+
+  let diffSum = 0
+  for (let i = 0, p = 0; i < dataA.length; i += 4, p++) {
+    if (!region[p]) continue
+    diffSum += (Math.abs(dataA[i] - dataB[i]) + Math.abs(dataA[i + 1] - dataB[i + 1]) + Math.abs(dataA[i + 2] - dataB[i + 2])) / 3
+  }
+
+  return {
+    psnr: calculatePSNR(dataA, dataB, region),
+    msssim: calculateMSSSIM(dataA, dataB, width, height, region),
+    deltaE2000: calculateMeanDeltaE2000(dataA, dataB, 2, region),
+    meanDifference: diffSum / pixelCount,
+    pixelCount,
+  }
+}
+
+/**
+ * MASK-001: Inside vs outside mask breakdown from two region planes
+ */
+export function calculateMaskBreakdown(
+  dataA: PixelData,
+  dataB: PixelData,
+  width: number,
+  height: number,
+  inside: Uint8Array,
+  outside: Uint8Array
+): MaskBreakdown {
+  const insideCount = countMaskPixels(inside)
+  const total = insideCount + countMaskPixels(outside)
+
+  return {
+    coverage: total > 0 ? insideCount / total : 0,
+    inside: calculateRegionMetrics(dataA, dataB, width, height, inside),
+    outside: calculateRegionMetrics(dataA, dataB, width, height, outside),
+  }
+}
+
+/**
+ * ARTIFACT-001: No-reference compression artifact scores.
+ * All three work on the luma plane at native resolution; downscaled frames
+ * blur away the 8x8/16x16 grid and the single-code-value steps they look for.
+ */
+
+// Luma step (0-255) that counts as a contour edge in an otherwise flat area
+const BANDING_MIN_STEP = 1.5
+const BANDING_MAX_STEP = 6
+// Flat run either side of a contour step, in pixels
+const BANDING_FLAT_RUN = 4
+// Gradient (0-255, central difference sum) of an edge that can ring
+const RINGING_EDGE_GRADIENT = 48
+// Gradient below which a pixel is smooth enough to show ringing
+const RINGING_FLAT_GRADIENT = 24
+// Distance from an edge, in pixels, where ringing is measured
+const RINGING_RADIUS = 4
+
+/**
+ * Blocking artifact strength on a grid of the given block size.
+ * Compares the mean luma step across block boundaries with the step inside
+ * blocks (Wang, Bovik & Evans 2000). For 16x16 the 8x8 sub-grid is excluded
+ * from the interior so 8x8 blocking does not mask 16x16 blocking.
+ * Range: 0 (no grid) to 1 (steps only at block boundaries).
+ */
+export function calculateBlockiness(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  blockSize: number = 8
+): number {
+  const lum = toLumaPlane(data)
+  const subGrid = Math.min(blockSize, 8)
+  let boundarySum = 0
+  let boundaryCount = 0
+  let interiorSum = 0
+  let interiorCount = 0
+
+  const accumulate = (pos: number, step: number) => {
+    if (pos % blockSize === 0) {
+      boundarySum += step
+      boundaryCount++
+    } else if (pos % subGrid !== 0) {
+      interiorSum += step
+      interiorCount++
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      if (x > 0) accumulate(x, Math.abs(lum[i] - lum[i - 1]))
+      if (y > 0) accumulate(y, Math.abs(lum[i] - lum[i - width]))
+    }
+  }
+
+  if (boundaryCount === 0 || interiorCount === 0) return 0
+  const boundary = boundarySum / boundaryCount
+  const interior = interiorSum / interiorCount
+  return boundary + interior > 0 ? Math.max(0, (boundary - interior) / (boundary + interior)) : 0
+}
+
+/**
+ * Gradient banding (false contouring).
+ * A contour pixel is a small luma step with flat runs on both sides; the
+ * score is the fraction of smooth-area pixels that sit on such a step.
+ * Range: 0 to 1
+ */
+export function calculateBanding(data: Uint8ClampedArray, width: number, height: number): number {
+  const lum = toLumaPlane(data)
+  const run = BANDING_FLAT_RUN
+  let contourCount = 0
+  let smoothCount = 0
+
+  // Step at i (to i + stride) with flat runs before and after
+  const isContour = (i: number, stride: number) => {
+    const step = Math.abs(lum[i + stride] - lum[i])
+    if (step < BANDING_MIN_STEP || step > BANDING_MAX_STEP) return false
+    for (let k = 1; k <= run; k++) {
+      if (Math.abs(lum[i - (k - 1) * stride] - lum[i - k * stride]) > step * 0.5) return false
+      if (Math.abs(lum[i + (k + 1) * stride] - lum[i + k * stride]) > step * 0.5) return false
+    }
+    return true
+  }
+
+  for (let y = run; y < height - run - 1; y++) {
+    for (let x = run; x < width - run - 1; x++) {
+      const i = y * width + x
+      const gradient = Math.max(Math.abs(lum[i + 1] - lum[i]), Math.abs(lum[i + width] - lum[i]))
+      if (gradient > BANDING_MAX_STEP) continue
+      smoothCount++
+      if (isContour(i, 1) || isContour(i, width)) contourCount++
+    }
+  }
+
+  return smoothCount > 0 ? contourCount / smoothCount : 0
+}
+
+/**
+ * Edge ringing (Gibbs / mosquito noise).
+ * Mean Laplacian activity of smooth pixels next to strong edges, minus the
+ * same activity away from edges so plain sensor noise is not counted.
+ * Range: 0-255 luma code values (typically below 10)
+ */
+export function calculateRinging(data: Uint8ClampedArray, width: number, height: number): number {
+  const lum = toLumaPlane(data)
+  const n = width * height
+
+  // Central-difference gradient and strong edge mask
+  const gradient = new Float32Array(n)
+  const edge = new Uint8Array(n)
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      gradient[i] = Math.abs(lum[i + 1] - lum[i - 1]) + Math.abs(lum[i + width] - lum[i - width])
+      edge[i] = gradient[i] > RINGING_EDGE_GRADIENT ? 1 : 0
+    }
+  }
+
+  // Dilate the edge mask by RINGING_RADIUS (separable box max)
+  const dilatedX = new Uint8Array(n)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let hit = 0
+      for (let k = -RINGING_RADIUS; k <= RINGING_RADIUS && !hit; k++) {
+        const nx = x + k
+        if (nx >= 0 && nx < width) hit = edge[y * width + nx]
+      }
+      dilatedX[y * width + x] = hit
+    }
+  }
+
+  let nearSum = 0
+  let nearCount = 0
+  let farSum = 0
+  let farCount = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      if (edge[i] || gradient[i] > RINGING_FLAT_GRADIENT) continue
+
+      let near = 0
+      for (let k = -RINGING_RADIUS; k <= RINGING_RADIUS && !near; k++) {
+        const ny = y + k
+        if (ny >= 0 && ny < height) near = dilatedX[ny * width + x]
+      }
+
+      const laplacian = Math.abs(4 * lum[i] - lum[i - 1] - lum[i + 1] - lum[i - width] - lum[i + width])
+      if (near) {
+        nearSum += laplacian
+        nearCount++
+      } else {
+        farSum += laplacian
+        farCount++
+      }
+    }
+  }
+
+  if (nearCount === 0) return 0
+  const baseline = farCount > 0 ? farSum / farCount : 0
+  return Math.max(0, nearSum / nearCount - baseline)
+}
+
+/**
+ * ARTIFACT-001: All artifact scores for one RGBA frame at native resolution
+ */
+export function calculateArtifactScores(data: Uint8ClampedArray, width: number, height: number): ArtifactScores {
+  return {
+    blockiness8: calculateBlockiness(data, width, height, 8),
+    blockiness16: calculateBlockiness(data, width, height, 16),
+    banding: calculateBanding(data, width, height),
+    ringing: calculateRinging(data, width, height),
+  }
+}
+
+/**
+ * WORKER-001: A decoded frame to read pixels from. ImageBitmaps are what the
+ * metrics worker receives, where no DOM elements exist.
+ * COLOR-001: Canvases carry colour-graded frames.
+ */
+export type FrameSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap
+
+/**
+ * Native size of a frame source (0 until a video or image has loaded)
+ */
+function getFrameSize(source: FrameSource): { width: number; height: number } {
+  if (typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight }
+  }
+  if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight }
+  }
+  return { width: source.width, height: source.height }
+}
+
+/**
+ * True when the source has a decoded frame that can be drawn
+ */
+export function isFrameReady(source: FrameSource): boolean {
+  if (typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement) {
+    return source.readyState >= 2
+  }
+  if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement) {
+    return source.complete && source.naturalWidth > 0
+  }
+  return source.width > 0 && source.height > 0
+}
+
+/**
+ * 2D context for reading pixels back; an OffscreenCanvas inside workers
+ */
+export function createReadbackContext(width: number, height: number): OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height).getContext('2d', { willReadFrequently: true })
+  }
   const canvas = document.createElement('canvas')
   canvas.width = width
   canvas.height = height
-  const ctx = canvas.getContext('2d')
+  return canvas.getContext('2d', { willReadFrequently: true })
+}
+
+/**
+ * METRICS-004: No-reference metrics, computed on one image at a time
+ */
+
+// Largest native-resolution crop scored per frame
+const NATIVE_CROP_SIZE = 384
+// Crops start on this grid so 8x8 and 16x16 block boundaries stay aligned
+const NATIVE_CROP_GRID = 16
+// MSCN local normalisation window (Mittal et al. 2012)
+const MSCN_WINDOW_SIZE = 7
+const MSCN_WINDOW_SIGMA = 7 / 6
+
+/**
+ * Copy a native-resolution crop from the centre of the ROI (or frame).
+ * Downscaling would smooth away the noise, grid and detail these metrics
+ * measure, so large frames are cropped instead. Returns null if the source
+ * has no decoded frame yet.
+ */
+export function getNativeFrameCrop(
+  source: FrameSource,
+  roi?: ROIRect | null
+): { data: Uint8ClampedArray; width: number; height: number } | null {
+  const { width: nativeWidth, height: nativeHeight } = getFrameSize(source)
+  if (!nativeWidth || !nativeHeight) return null
+
+  const regionX = roi ? roi.x * nativeWidth : 0
+  const regionY = roi ? roi.y * nativeHeight : 0
+  const regionW = roi ? roi.width * nativeWidth : nativeWidth
+  const regionH = roi ? roi.height * nativeHeight : nativeHeight
+
+  const cropW = Math.min(NATIVE_CROP_SIZE, Math.floor(regionW / NATIVE_CROP_GRID) * NATIVE_CROP_GRID)
+  const cropH = Math.min(NATIVE_CROP_SIZE, Math.floor(regionH / NATIVE_CROP_GRID) * NATIVE_CROP_GRID)
+  if (cropW < NATIVE_CROP_GRID * 2 || cropH < NATIVE_CROP_GRID * 2) return null
+
+  const alignToGrid = (v: number) => Math.floor(v / NATIVE_CROP_GRID) * NATIVE_CROP_GRID
+  const cropX = Math.min(alignToGrid(regionX + (regionW - cropW) / 2), alignToGrid(nativeWidth - cropW))
+  const cropY = Math.min(alignToGrid(regionY + (regionH - cropH) / 2), alignToGrid(nativeHeight - cropH))
+
+  const ctx = createReadbackContext(cropW, cropH)
+  if (!ctx) return null
+
+  ctx.drawImage(source, cropX, cropY, cropW, cropH, 0, 0, cropW, cropH)
+  return { data: ctx.getImageData(0, 0, cropW, cropH).data, width: cropW, height: cropH }
+}
+
+/**
+ * Variance of the 3x3 Laplacian of luma (Pech-Pacheco et al. 2000).
+ * Higher = more high-frequency detail; compare A and B of the same content.
+ */
+export function calculateLaplacianVariance(data: Uint8ClampedArray, width: number, height: number): number {
+  const lum = toLumaPlane(data)
+  let sum = 0
+  let sumSq = 0
+  let count = 0
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const laplacian = lum[i - 1] + lum[i + 1] + lum[i - width] + lum[i + width] - 4 * lum[i]
+      sum += laplacian
+      sumSq += laplacian * laplacian
+      count++
+    }
+  }
+
+  if (count === 0) return 0
+  const mean = sum / count
+  return sumSq / count - mean * mean
+}
+
+/**
+ * Noise standard deviation in 8-bit code values (Immerkær 1996).
+ * The mask is the difference of two Laplacians, which cancels image
+ * structure to second order and leaves mostly the noise.
+ */
+export function estimateNoiseSigma(data: Uint8ClampedArray, width: number, height: number): number {
+  if (width < 3 || height < 3) return 0
+  const lum = toLumaPlane(data)
+  let sum = 0
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const response =
+        lum[i - width - 1] - 2 * lum[i - width] + lum[i - width + 1]
+        - 2 * lum[i - 1] + 4 * lum[i] - 2 * lum[i + 1]
+        + lum[i + width - 1] - 2 * lum[i + width] + lum[i + width + 1]
+      sum += Math.abs(response)
+    }
+  }
+
+  return Math.sqrt(Math.PI / 2) * sum / (6 * (width - 2) * (height - 2))
+}
+
+/**
+ * Gamma function (Lanczos approximation, g = 7)
+ */
+function gammaFunction(x: number): number {
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ]
+  if (x < 0.5) return Math.PI / (Math.sin(Math.PI * x) * gammaFunction(1 - x))
+
+  const z = x - 1
+  let a = coefficients[0]
+  const t = z + 7.5
+  for (let i = 1; i < coefficients.length; i++) a += coefficients[i] / (z + i)
+  return Math.sqrt(2 * Math.PI) * Math.pow(t, z + 0.5) * Math.exp(-t) * a
+}
+
+// Generalised Gaussian shape lookup: ratio E[x²]/E[|x|]² for alpha 0.2-10
+let ggdRatioTable: { alpha: number; ratio: number }[] | null = null
+
+/**
+ * Moment-matching estimate of the generalised Gaussian shape parameter
+ * (2 = Gaussian, 1 = Laplacian, larger = flatter)
+ */
+function estimateGGDShape(values: Float32Array): number {
+  if (!ggdRatioTable) {
+    ggdRatioTable = []
+    for (let alpha = 0.2; alpha <= 10; alpha += 0.001) {
+      const g2 = gammaFunction(2 / alpha)
+      ggdRatioTable.push({ alpha, ratio: (gammaFunction(1 / alpha) * gammaFunction(3 / alpha)) / (g2 * g2) })
+    }
+  }
+
+  let absSum = 0
+  let sqSum = 0
+  for (let i = 0; i < values.length; i++) {
+    absSum += Math.abs(values[i])
+    sqSum += values[i] * values[i]
+  }
+  if (absSum === 0) return 2
+
+  const meanAbs = absSum / values.length
+  const ratio = sqSum / values.length / (meanAbs * meanAbs)
+
+  let best = ggdRatioTable[0]
+  for (const entry of ggdRatioTable) {
+    if (Math.abs(entry.ratio - ratio) < Math.abs(best.ratio - ratio)) best = entry
+  }
+  return best.alpha
+}
+
+/**
+ * Mean-subtracted contrast-normalised coefficients of a luma plane
+ */
+function mscnCoefficients(lum: Float32Array, width: number, height: number): Float32Array {
+  const kernel = gaussianKernel(MSCN_WINDOW_SIZE, MSCN_WINDOW_SIGMA)
+  const squared = lum.map(v => v * v)
+  const mu = convolveSeparable(lum, width, height, kernel, kernel)
+  const muSq = convolveSeparable(squared, width, height, kernel, kernel)
 
+  const mscn = new Float32Array(lum.length)
+  for (let i = 0; i < lum.length; i++) {
+    const sigma = Math.sqrt(Math.abs(muSq[i] - mu[i] * mu[i]))
+    mscn[i] = (lum[i] - mu[i]) / (sigma + 1)
+  }
+  return mscn
+}
+
+/**
+ * NIQE-style naturalness: pristine natural images have near-Gaussian MSCN
+ * coefficients (Ruderman 1994). Blur and compression make them peakier,
+ * noise flattens them. Returns the mean |ln(alpha / 2)| over two scales.
+ * Range: 0 (natural) upwards, typically below 1
+ */
+export function calculateNaturalness(data: Uint8ClampedArray, width: number, height: number): number {
+  let lum = toLumaPlane(data)
+  let w = width
+  let h = height
+  let total = 0
+  let scales = 0
+
+  for (let scale = 0; scale < 2 && w >= MSCN_WINDOW_SIZE * 2 && h >= MSCN_WINDOW_SIZE * 2; scale++) {
+    const alpha = estimateGGDShape(mscnCoefficients(lum, w, h))
+    total += Math.abs(Math.log(alpha / 2))
+    scales++
+
+    const down = downsample2x(lum, w, h)
+    lum = down.data
+    w = down.width
+    h = down.height
+  }
+
+  return scales > 0 ? total / scales : 0
+}
+
+/**
+ * METRICS-004: All no-reference scores for one RGBA frame
+ */
+export function calculateNoReferenceScores(data: Uint8ClampedArray, width: number, height: number): NoReferenceScores {
+  return {
+    sharpness: calculateLaplacianVariance(data, width, height),
+    noiseSigma: estimateNoiseSigma(data, width, height),
+    naturalness: calculateNaturalness(data, width, height),
+  }
+}
+
+/**
+ * METRICS-004: No-reference scores of a video frame or image at native resolution
+ */
+export function calculateNoReferenceFromSource(
+  source: FrameSource,
+  roi?: ROIRect | null
+): NoReferenceScores | null {
+  const crop = getNativeFrameCrop(source, roi)
+  return crop ? calculateNoReferenceScores(crop.data, crop.width, crop.height) : null
+}
+
+/**
+ * WORKER-001: Draw a frame at the given size and read it back
+ */
+export function getFrameImageData(source: FrameSource, width: number, height: number): ImageData | null {
+  if (!source || !isFrameReady(source)) return null
+
+  const ctx = createReadbackContext(width, height)
   if (!ctx) return null
 
-  ctx.drawImage(video, 0, 0, width, height)
-  return ctx.getImageData(0, 0, width, height).data
+  ctx.drawImage(source, 0, 0, width, height)
+  return ctx.getImageData(0, 0, width, height)
+}
+
+/**
+ * Get frame data from a video element
+ */
+export function getVideoFrameData(
+  video: FrameSource,
+  width: number = 256,
+  height: number = 144
+): Uint8ClampedArray | null {
+  return getFrameImageData(video, width, height)?.data ?? null
 }
 
 export interface QualityMetrics {
   ssim: number
   psnr: number
+  // METRICS-002
+  msssim: number
+  psnrYCbCr: ChannelPSNR
+  deltaE2000: number
+  // METRICS-004
+  noReferenceA: NoReferenceScores | null
+  noReferenceB: NoReferenceScores | null
+  // MASK-001
+  maskBreakdown: MaskBreakdown | null
 }
 
 /**
- * Calculate quality metrics between two video elements
+ * Calculate quality metrics between two video elements (or images)
+ * MASK-001: Full-reference metrics are restricted to the ROI and mask
  */
 export function calculateVideoMetrics(
-  videoA: HTMLVideoElement,
-  videoB: HTMLVideoElement
+  videoA: FrameSource,
+  videoB: FrameSource,
+  roi?: ROIRect | null,
+  mask?: MetricMask | null
 ): QualityMetrics | null {
-  const dataA = getVideoFrameData(videoA)
-  const dataB = getVideoFrameData(videoB)
+  const width = 256
+  const height = 144
+  const dataA = getVideoFrameData(videoA, width, height)
+  const dataB = getVideoFrameData(videoB, width, height)
 
   if (!dataA || !dataB) return null
 
+  const region = buildMetricRegion(width, height, roi, mask)
+  const breakdownRegions = buildMaskBreakdownRegions(width, height, roi, mask)
+
   return {
-    ssim: calculateSSIM(dataA, dataB),
-    psnr: calculatePSNR(dataA, dataB),
+    ssim: calculateSSIM(dataA, dataB, region),
+    psnr: calculatePSNR(dataA, dataB, region),
+    msssim: calculateMSSSIM(dataA, dataB, width, height, region),
+    psnrYCbCr: calculateChannelPSNR(dataA, dataB, region),
+    deltaE2000: calculateMeanDeltaE2000(dataA, dataB, 2, region),
+    noReferenceA: calculateNoReferenceFromSource(videoA, roi),
+    noReferenceB: calculateNoReferenceFromSource(videoB, roi),
+    maskBreakdown: breakdownRegions
+      ? calculateMaskBreakdown(dataA, dataB, width, height, breakdownRegions.inside, breakdownRegions.outside)
+      : null,
   }
 }
@@ -0,0 +1,155 @@
+/**
+ * Metrics Jobs
+ * WORKER-001: Units of metric work that can run in the metrics worker.
+ * Each job carries its frames as ImageBitmaps, which are transferred to the
+ * worker and closed once the job has run.
+ */
+
+import type { FrameQualityScores, HDRDisplaySettings, MetricMask, NoReferenceScores, ROIRect, WebGLAnalysisMetrics } from '../types'
+import { calculateVideoMetrics, calculateNoReferenceFromSource, getFrameImageData, type QualityMetrics } from './metrics'
+import {
+  computeMetricsFromFrames,
+  computeMetricsFromImageData,
+  computeFrameQualityScores,
+  computeHDRMetrics,
+  type HDRMetricsSide,
+} from './webgl/metricsComputation'
+import { computeMeshDistance, type MeshDistanceResult, type MeshGeometryData } from './meshDistance'
+
+// HDR-001: 8-bit sides travel as ImageBitmaps, HDR sides as (copied) floats
+export type HDRJobSide = { kind: 'frame'; frame: ImageBitmap } | Extract<HDRMetricsSide, { kind: 'linear' }>
+
+export type MetricsJob =
+  // Side-by-side overlay (calculateVideoMetrics)
+  | { kind: 'video'; frameA: ImageBitmap; frameB: ImageBitmap; roi: ROIRect | null; mask: MetricMask | null }
+  // WebGL analysis overlay, sized from the display canvas
+  | {
+      kind: 'analysis'
+      frameA: ImageBitmap
+      frameB: ImageBitmap
+      width: number
+      height: number
+      threshold: number
+      roi: ROIRect | null
+      pixelsPerDegree: number
+      mask: MetricMask | null
+    }
+  // Batch comparison pair, scaled to a fixed grid
+  | {
+      kind: 'pair'
+      frameA: ImageBitmap
+      frameB: ImageBitmap
+      width: number
+      height: number
+      threshold: number
+      roi: ROIRect | null
+      mask: MetricMask | null
+    }
+  // METRICS-004: No-reference scores of a single image
+  | { kind: 'no-reference'; frame: ImageBitmap; roi: ROIRect | null }
+  // METRICS-001: One frame of the quality report
+  | {
+      kind: 'quality-frame'
+      frameA: ImageBitmap
+      frameB: ImageBitmap
+      sampleWidth: number
+      sampleHeight: number
+      threshold: number
+      roi: ROIRect | null
+      mask: MetricMask | null
+    }
+  // HDR-001: Analysis overlay or batch pair with an HDR side
+  | {
+      kind: 'hdr-analysis'
+      sideA: HDRJobSide
+      sideB: HDRJobSide
+      sampleWidth: number
+      sampleHeight: number
+      display: HDRDisplaySettings
+      threshold: number
+      roi: ROIRect | null
+      pixelsPerDegree: number
+      mask: MetricMask | null
+      scoreSides: boolean
+    }
+  // MESHDIFF-001: Nearest-surface distances between two models (no frames)
+  | { kind: 'mesh-distance'; meshA: MeshGeometryData; meshB: MeshGeometryData }
+
+export interface MetricsJobResults {
+  'video': QualityMetrics | null
+  'analysis': WebGLAnalysisMetrics
+  'pair': WebGLAnalysisMetrics | null
+  'no-reference': NoReferenceScores | null
+  'quality-frame': FrameQualityScores | null
+  'hdr-analysis': WebGLAnalysisMetrics | null
+  'mesh-distance': MeshDistanceResult
+}
+
+export type MetricsJobResult<J extends MetricsJob> = MetricsJobResults[J['kind']]
+
+/**
+ * Frames a job owns (transferred with it, closed after it)
+ */
+export function getJobFrames(job: MetricsJob): ImageBitmap[] {
+  if (job.kind === 'no-reference') return [job.frame]
+  if (job.kind === 'mesh-distance') return []
+  if (job.kind === 'hdr-analysis') {
+    return [job.sideA, job.sideB].flatMap(side => (side.kind === 'frame' ? [side.frame] : []))
+  }
+  return [job.frameA, job.frameB]
+}
+
+/**
+ * Run a job synchronously (inside the worker, or as the main-thread fallback)
+ */
+export function executeMetricsJob<J extends MetricsJob>(job: J): MetricsJobResult<J>
+export function executeMetricsJob(job: MetricsJob): MetricsJobResults[MetricsJob['kind']] {
+  switch (job.kind) {
+    case 'video':
+      return calculateVideoMetrics(job.frameA, job.frameB, job.roi, job.mask)
+    case 'analysis':
+      return computeMetricsFromFrames(
+        job.frameA,
+        job.frameB,
+        job.width,
+        job.height,
+        job.threshold,
+        job.roi,
+        job.pixelsPerDegree,
+        job.mask
+      )
+    case 'pair': {
+      const imageDataA = getFrameImageData(job.frameA, job.width, job.height)
+      const imageDataB = getFrameImageData(job.frameB, job.width, job.height)
+      if (!imageDataA || !imageDataB) return null
+      return computeMetricsFromImageData(imageDataA, imageDataB, job.threshold, job.roi, undefined, job.mask)
+    }
+    case 'no-reference':
+      return calculateNoReferenceFromSource(job.frame, job.roi)
+    case 'quality-frame':
+      return computeFrameQualityScores(
+        job.frameA,
+        job.frameB,
+        job.sampleWidth,
+        job.sampleHeight,
+        job.threshold,
+        job.roi,
+        job.mask
+      )
+    case 'hdr-analysis':
+      return computeHDRMetrics(
+        job.sideA,
+        job.sideB,
+        job.sampleWidth,
+        job.sampleHeight,
+        job.display,
+        job.threshold,
+        job.roi,
+        job.pixelsPerDegree,
+        job.mask,
+        job.scoreSides
+      )
+    case 'mesh-distance':
+      return computeMeshDistance(job.meshA, job.meshB)
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Metrics Worker
+ * WORKER-001: Entry point of each worker in the metrics pool. Runs one job
+ * at a time and posts the result (or error message) back with the job id.
+ */
+
+import { executeMetricsJob, getJobFrames } from './metricsJobs'
+import type { MetricsWorkerRequest, MetricsWorkerResponse } from './metricsWorkerPool'
+
+self.onmessage = (e: MessageEvent<MetricsWorkerRequest>) => {
+  const { id, job } = e.data
+  let response: MetricsWorkerResponse
+
+  try {
+    response = { id, result: executeMetricsJob(job) }
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) }
+  } finally {
+    getJobFrames(job).forEach(frame => frame.close())
+  }
+
+  self.postMessage(response)
+}
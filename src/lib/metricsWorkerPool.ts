@@ -0,0 +1,292 @@
+/**
+ * Metrics Worker Pool
+ * WORKER-001: Keep metric computation off the UI thread. Jobs wait in a FIFO
+ * queue and run on a small pool of module workers; frames are transferred as
+ * ImageBitmaps. Aborting a queued job drops it, aborting a running one
+ * terminates its worker (a fresh one is started for the next job).
+ * Browsers without module workers or OffscreenCanvas run jobs inline.
+ */
+
+import { executeMetricsJob, getJobFrames, type HDRJobSide, type MetricsJob, type MetricsJobResult } from './metricsJobs'
+import { isFrameReady, type FrameSource } from './metrics'
+import { getHDRNativeCrop, getHDRSample, type HDRImage } from './hdrImage'
+import { hasImageSequence, loadSequenceFrameAt, type SequenceSourceFrame } from './imageSequence'
+import type { MetricsWorkerStatus, ROIRect } from '../types'
+
+// Messages between the pool and a worker
+export interface MetricsWorkerRequest {
+  id: number
+  job: MetricsJob
+}
+
+export type MetricsWorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string }
+
+interface QueuedJob {
+  id: number
+  job: MetricsJob
+  resolve: (result: unknown) => void
+  reject: (error: unknown) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+interface PoolWorker {
+  worker: Worker
+  current: QueuedJob | null
+}
+
+// Leave a core for the UI, and cap memory held by in-flight frames
+const POOL_SIZE = Math.max(1, Math.min(4, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2) - 1))
+
+const supportsWorkers = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
+
+const workers: PoolWorker[] = []
+const queue: QueuedJob[] = []
+const listeners = new Set<(status: MetricsWorkerStatus) => void>()
+let nextJobId = 1
+let completedJobs = 0
+
+/**
+ * Current queue and pool state
+ */
+export function getMetricsWorkerStatus(): MetricsWorkerStatus {
+  return {
+    workers: POOL_SIZE,
+    queued: queue.length,
+    running: workers.filter(w => w.current).length,
+    completed: completedJobs,
+  }
+}
+
+/**
+ * Number of jobs that can run at the same time
+ */
+export function getMetricsPoolSize(): number {
+  return POOL_SIZE
+}
+
+/**
+ * Listen for queue changes. Returns the unsubscribe function.
+ */
+export function subscribeMetricsWorkerStatus(listener: (status: MetricsWorkerStatus) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function notifyStatus(): void {
+  const status = getMetricsWorkerStatus()
+  listeners.forEach(listener => listener(status))
+}
+
+/**
+ * True for the rejection of an aborted job
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError'
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Metrics job aborted', 'AbortError')
+}
+
+function settle(entry: QueuedJob): void {
+  if (entry.onAbort) entry.signal?.removeEventListener('abort', entry.onAbort)
+}
+
+function removeWorker(poolWorker: PoolWorker): void {
+  poolWorker.worker.terminate()
+  const index = workers.indexOf(poolWorker)
+  if (index >= 0) workers.splice(index, 1)
+}
+
+function createWorker(): PoolWorker {
+  const poolWorker: PoolWorker = {
+    worker: new Worker(new URL('./metricsWorker.ts', import.meta.url), { type: 'module' }),
+    current: null,
+  }
+
+  poolWorker.worker.onmessage = (e: MessageEvent<MetricsWorkerResponse>) => {
+    const entry = poolWorker.current
+    if (!entry || entry.id !== e.data.id) return
+
+    poolWorker.current = null
+    completedJobs++
+    settle(entry)
+    if ('error' in e.data) {
+      entry.reject(new Error(e.data.error))
+    } else {
+      entry.resolve(e.data.result)
+    }
+    pump()
+  }
+
+  // A crashed worker fails its job and is replaced on the next pump
+  poolWorker.worker.onerror = (e: ErrorEvent) => {
+    const entry = poolWorker.current
+    removeWorker(poolWorker)
+    if (entry) {
+      settle(entry)
+      entry.reject(new Error(e.message || 'Metrics worker failed'))
+    }
+    pump()
+  }
+
+  workers.push(poolWorker)
+  return poolWorker
+}
+
+/**
+ * Hand queued jobs to idle workers, starting workers up to the pool size
+ */
+function pump(): void {
+  while (queue.length > 0) {
+    const idle = workers.find(w => !w.current) ?? (workers.length < POOL_SIZE ? createWorker() : null)
+    if (!idle) break
+
+    const entry = queue.shift()!
+    idle.current = entry
+    const request: MetricsWorkerRequest = { id: entry.id, job: entry.job }
+    idle.worker.postMessage(request, getJobFrames(entry.job))
+  }
+  notifyStatus()
+}
+
+/**
+ * Run a job inline, yielding first so callers behave the same as with workers
+ */
+async function runInline<J extends MetricsJob>(job: J, signal?: AbortSignal): Promise<MetricsJobResult<J>> {
+  await new Promise(resolve => setTimeout(resolve, 0))
+  try {
+    if (signal?.aborted) throw createAbortError()
+    return executeMetricsJob(job)
+  } finally {
+    getJobFrames(job).forEach(frame => frame.close())
+    completedJobs++
+    notifyStatus()
+  }
+}
+
+/**
+ * Queue a metrics job. The job's frames are transferred and must not be used
+ * afterwards. Rejects with an AbortError if the signal fires first.
+ */
+export function runMetricsJob<J extends MetricsJob>(job: J, signal?: AbortSignal): Promise<MetricsJobResult<J>> {
+  if (!supportsWorkers) return runInline(job, signal)
+
+  if (signal?.aborted) {
+    getJobFrames(job).forEach(frame => frame.close())
+    return Promise.reject(createAbortError())
+  }
+
+  return new Promise<MetricsJobResult<J>>((resolve, reject) => {
+    const entry: QueuedJob = {
+      id: nextJobId++,
+      job,
+      resolve: result => resolve(result as MetricsJobResult<J>),
+      reject,
+      signal,
+    }
+
+    if (signal) {
+      entry.onAbort = () => {
+        const queuedIndex = queue.indexOf(entry)
+        if (queuedIndex >= 0) {
+          // Never transferred, so the frames are still ours to close
+          queue.splice(queuedIndex, 1)
+          getJobFrames(entry.job).forEach(frame => frame.close())
+        } else {
+          const running = workers.find(w => w.current === entry)
+          if (running) removeWorker(running)
+        }
+        settle(entry)
+        reject(createAbortError())
+        pump()
+      }
+      signal.addEventListener('abort', entry.onAbort, { once: true })
+    }
+
+    queue.push(entry)
+    pump()
+  })
+}
+
+/**
+ * SEQ-001: The decoded source frame a video element playing an image
+ * sequence shows, or null for any other source. The caller closes the frame.
+ */
+export function captureSequenceFrame(source: FrameSource): Promise<SequenceSourceFrame | null> {
+  if (typeof HTMLVideoElement === 'undefined' || !(source instanceof HTMLVideoElement) || !hasImageSequence(source.src)) {
+    return Promise.resolve(null)
+  }
+  return loadSequenceFrameAt(source.src, source.currentTime)
+}
+
+// Image sequences give their source frame, not the frame of their lossy MP4
+async function captureFrame(source: FrameSource): Promise<ImageBitmap> {
+  const sequence = await captureSequenceFrame(source)
+  return sequence ? sequence.frame : createImageBitmap(source)
+}
+
+/**
+ * Capture the current frames of two sources for a job.
+ * Returns null if either has no decoded frame yet.
+ */
+export async function captureFramePair(sourceA: FrameSource, sourceB: FrameSource): Promise<[ImageBitmap, ImageBitmap] | null> {
+  if (!isFrameReady(sourceA) || !isFrameReady(sourceB)) return null
+
+  const frames = await Promise.allSettled([captureFrame(sourceA), captureFrame(sourceB)])
+  if (frames[0].status === 'fulfilled' && frames[1].status === 'fulfilled') {
+    return [frames[0].value, frames[1].value]
+  }
+  frames.forEach(frame => {
+    if (frame.status === 'fulfilled') frame.value.close()
+  })
+  return null
+}
+
+/**
+ * HDR-001: Capture both sides of a pair where either may be an HDR image.
+ * HDR sides use their decoded linear pixels (sampled on the main thread,
+ * where they live) instead of the tone-mapped preview. SEQ-001: so do EXR /
+ * HDR image sequences, from the frame currently shown.
+ */
+export async function captureHDRSides(
+  sourceA: FrameSource,
+  hdrA: HDRImage | null,
+  sourceB: FrameSource,
+  hdrB: HDRImage | null,
+  sampleWidth: number,
+  sampleHeight: number,
+  roi: ROIRect | null,
+  withCrops: boolean
+): Promise<[HDRJobSide, HDRJobSide] | null> {
+  if ((!hdrA && !isFrameReady(sourceA)) || (!hdrB && !isFrameReady(sourceB))) return null
+
+  const linear = (image: HDRImage): HDRJobSide => ({
+    kind: 'linear',
+    sample: getHDRSample(image, sampleWidth, sampleHeight),
+    crop: withCrops ? getHDRNativeCrop(image, roi) : null,
+  })
+  const capture = async (source: FrameSource, hdr: HDRImage | null): Promise<HDRJobSide> => {
+    if (hdr) return linear(hdr)
+    const sequence = await captureSequenceFrame(source)
+    if (sequence?.hdr) {
+      sequence.frame.close()
+      return linear(sequence.hdr)
+    }
+    return { kind: 'frame', frame: sequence ? sequence.frame : await createImageBitmap(source) }
+  }
+
+  const sides = await Promise.allSettled([capture(sourceA, hdrA), capture(sourceB, hdrB)])
+  if (sides[0].status === 'fulfilled' && sides[1].status === 'fulfilled') {
+    return [sides[0].value, sides[1].value]
+  }
+  sides.forEach(side => {
+    if (side.status === 'fulfilled' && side.value.kind === 'frame') side.value.frame.close()
+  })
+  return null
+}
@@ -0,0 +1,207 @@
+/**
+ * Model Inspection
+ * INSPECT-001: Shading overrides for judging topology and UVs in the 3D
+ * viewer: normals as colour (smooth vertex or flat face normals), a UV
+ * checker texture, a neutral clay matcap, a wireframe overlay, and
+ * isolation of one material. Applied to the viewer's clone of a model;
+ * materials are swapped, never modified, since clones share them with
+ * the cached original.
+ */
+
+import * as THREE from 'three'
+
+export type ModelShading = 'default' | 'vertex-normals' | 'face-normals' | 'uv-checker' | 'matcap'
+
+export interface ModelInspection {
+  shading: ModelShading
+  wireframe: boolean
+  material: string | null // Only this material is shown
+}
+
+export const DEFAULT_MODEL_INSPECTION: ModelInspection = {
+  shading: 'default',
+  wireframe: false,
+  material: null,
+}
+
+export const MODEL_SHADING_LABELS: Record<ModelShading, string> = {
+  'default': 'Default',
+  'vertex-normals': 'Vertex Normals',
+  'face-normals': 'Face Normals',
+  'uv-checker': 'UV Checker',
+  'matcap': 'Matcap',
+}
+
+// Checker squares per UV unit
+const CHECKER_CELLS = 8
+const WIREFRAME_COLOR = 0xcddc39
+
+let checkerTexture: THREE.Texture | null = null
+let matcapTexture: THREE.Texture | null = null
+
+/**
+ * Name shown for a material (unnamed materials share one entry)
+ */
+export function getMaterialName(material: THREE.Material): string {
+  return material.name || 'Unnamed'
+}
+
+function getMaterials(object: THREE.Mesh | THREE.Points): THREE.Material[] {
+  return Array.isArray(object.material) ? object.material : [object.material]
+}
+
+/**
+ * Material names of a model, sorted
+ */
+export function getMaterialNames(model: THREE.Object3D): string[] {
+  const names = new Set<string>()
+  model.traverse(child => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.Points) {
+      getMaterials(child).forEach(m => names.add(getMaterialName(m)))
+    }
+  })
+  return Array.from(names).sort()
+}
+
+/**
+ * Labelled checker: a hue per column and row/column numbers, so stretching,
+ * flipped islands and seams stand out
+ */
+function getCheckerTexture(): THREE.Texture {
+  if (checkerTexture) return checkerTexture
+
+  const size = 512
+  const cell = size / CHECKER_CELLS
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')!
+
+  ctx.font = `bold ${Math.round(cell * 0.3)}px sans-serif`
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  for (let row = 0; row < CHECKER_CELLS; row++) {
+    for (let col = 0; col < CHECKER_CELLS; col++) {
+      const hue = (col / CHECKER_CELLS) * 360
+      ctx.fillStyle = (row + col) % 2 === 0 ? `hsl(${hue}, 55%, 55%)` : `hsl(${hue}, 25%, 85%)`
+      ctx.fillRect(col * cell, row * cell, cell, cell)
+      ctx.fillStyle = '#222'
+      ctx.fillText(`${String.fromCharCode(65 + col)}${CHECKER_CELLS - row}`, (col + 0.5) * cell, (row + 0.5) * cell)
+    }
+  }
+
+  checkerTexture = new THREE.CanvasTexture(canvas)
+  checkerTexture.wrapS = THREE.RepeatWrapping
+  checkerTexture.wrapT = THREE.RepeatWrapping
+  checkerTexture.colorSpace = THREE.SRGBColorSpace
+  checkerTexture.anisotropy = 8
+  return checkerTexture
+}
+
+/**
+ * Neutral clay sphere: key light from the top left, dark rim
+ */
+function getMatcapTexture(): THREE.Texture {
+  if (matcapTexture) return matcapTexture
+
+  const size = 256
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')!
+
+  const gradient = ctx.createRadialGradient(size * 0.35, size * 0.3, size * 0.05, size / 2, size / 2, size / 2)
+  gradient.addColorStop(0, '#f2ede6')
+  gradient.addColorStop(0.5, '#a89f94')
+  gradient.addColorStop(0.9, '#4a4540')
+  gradient.addColorStop(1, '#2a2724')
+  ctx.fillStyle = gradient
+  ctx.fillRect(0, 0, size, size)
+
+  matcapTexture = new THREE.CanvasTexture(canvas)
+  matcapTexture.colorSpace = THREE.SRGBColorSpace
+  return matcapTexture
+}
+
+function createShadingMaterial(shading: ModelShading, geometry: THREE.BufferGeometry): THREE.Material | null {
+  switch (shading) {
+    case 'default':
+      return null
+    case 'vertex-normals':
+      return new THREE.MeshNormalMaterial({ side: THREE.DoubleSide })
+    case 'face-normals':
+      return new THREE.MeshNormalMaterial({ flatShading: true, side: THREE.DoubleSide })
+    case 'uv-checker':
+      // Meshes without UVs show magenta instead of one stretched texel
+      return geometry.getAttribute('uv')
+        ? new THREE.MeshBasicMaterial({ map: getCheckerTexture(), side: THREE.DoubleSide })
+        : new THREE.MeshBasicMaterial({ color: 0xff00ff, side: THREE.DoubleSide })
+    case 'matcap':
+      return new THREE.MeshMatcapMaterial({ matcap: getMatcapTexture(), flatShading: true, side: THREE.DoubleSide })
+  }
+}
+
+/**
+ * Apply an inspection to a viewer clone. Returns a function that restores
+ * the original materials and frees everything the inspection created.
+ */
+export function applyModelInspection(model: THREE.Object3D, inspection: ModelInspection): () => void {
+  const originals = new Map<THREE.Mesh | THREE.Points, THREE.Material | THREE.Material[]>()
+  const created: THREE.Material[] = []
+  const overlays: THREE.Object3D[] = []
+  const hidden = new THREE.MeshBasicMaterial({ visible: false })
+  created.push(hidden)
+
+  const targets: (THREE.Mesh | THREE.Points)[] = []
+  model.traverse(child => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.Points) targets.push(child)
+  })
+
+  for (const object of targets) {
+    const materials = getMaterials(object)
+    const isolate = (m: THREE.Material) => inspection.material !== null && getMaterialName(m) !== inspection.material
+    if (object instanceof THREE.Points) {
+      if (materials.some(isolate)) {
+        originals.set(object, object.material)
+        object.material = materials.map(m => (isolate(m) ? hidden : m))
+      }
+      continue
+    }
+
+    // One override per mesh; isolated-out slots stay in place but invisible
+    const override = createShadingMaterial(inspection.shading, object.geometry)
+    if (override) created.push(override)
+    if (override || materials.some(isolate)) {
+      originals.set(object, object.material)
+      const swapped = materials.map(m => (isolate(m) ? hidden : override ?? m))
+      object.material = Array.isArray(object.material) ? swapped : swapped[0]
+    }
+
+    if (inspection.wireframe && !materials.every(isolate)) {
+      const wireframe = new THREE.MeshBasicMaterial({
+        color: WIREFRAME_COLOR,
+        wireframe: true,
+        transparent: true,
+        opacity: 0.6,
+      })
+      created.push(wireframe)
+      // Shares the geometry (and skeleton) so it follows the mesh exactly
+      let overlay: THREE.Mesh
+      if (object instanceof THREE.SkinnedMesh) {
+        const skinned = new THREE.SkinnedMesh(object.geometry, wireframe)
+        skinned.bind(object.skeleton, object.bindMatrix)
+        overlay = skinned
+      } else {
+        overlay = new THREE.Mesh(object.geometry, wireframe)
+      }
+      object.add(overlay)
+      overlays.push(overlay)
+    }
+  }
+
+  return () => {
+    originals.forEach((material, object) => { object.material = material })
+    overlays.forEach(overlay => overlay.removeFromParent())
+    created.forEach(material => material.dispose())
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * 3D Model Loading
+ * MODEL-001: glTF/GLB, OBJ (+MTL and textures), STL, PLY, FBX and point
+ * clouds (PLY without faces, PCD, XYZ) loaded into a three.js object for
+ * the viewer, thumbnails and turntable export. Media URLs are blob URLs
+ * without an extension, so the format comes from the file name; files an
+ * OBJ refers to (MTL, textures) are passed as name → URL resources.
+ */
+
+import * as THREE from 'three'
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js'
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js'
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js'
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js'
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js'
+import { PCDLoader } from 'three/examples/jsm/loaders/PCDLoader.js'
+import { XYZLoader } from 'three/examples/jsm/loaders/XYZLoader.js'
+import type { ModelFormat } from '../types'
+
+const MODEL_FORMATS: Record<string, ModelFormat> = {
+  glb: 'gltf',
+  gltf: 'gltf',
+  obj: 'obj',
+  stl: 'stl',
+  ply: 'ply',
+  fbx: 'fbx',
+  pcd: 'pcd',
+  xyz: 'xyz',
+}
+
+// File input accept list for model formats
+export const MODEL_ACCEPT = Object.keys(MODEL_FORMATS).map(ext => `.${ext}`).join(',')
+
+// Files an OBJ may reference
+const COMPANION_EXTENSIONS = ['mtl', 'png', 'jpg', 'jpeg', 'bmp', 'tga', 'webp']
+
+// Screen-space point size for point clouds (pixels)
+const POINT_SIZE = 2
+
+const cache = new Map<string, Promise<THREE.Object3D>>()
+
+function getExtension(fileName: string): string {
+  return fileName.toLowerCase().split('.').pop() ?? ''
+}
+
+function getBaseName(path: string): string {
+  return path.split(/[\\/]/).pop() ?? path
+}
+
+/**
+ * Model format of a file name, or null if it is not a model
+ */
+export function getModelFormat(fileName: string): ModelFormat | null {
+  return MODEL_FORMATS[getExtension(fileName)] ?? null
+}
+
+/**
+ * True for file names the model loader handles
+ */
+export function isModelFileName(fileName: string): boolean {
+  return getModelFormat(fileName) !== null
+}
+
+/**
+ * Split a selection into files to import and the MTL / texture files that
+ * belong to an OBJ in it. Textures count as companions only when an MTL in
+ * the selection names them.
+ */
+export async function groupModelCompanions(files: File[]): Promise<{ files: File[]; companions: Map<File, File[]> }> {
+  const companions = new Map<File, File[]>()
+  const objFiles = files.filter(f => getExtension(f.name) === 'obj')
+  if (objFiles.length === 0) return { files, companions }
+
+  const mtlFiles = files.filter(f => getExtension(f.name) === 'mtl')
+  const textureNames = new Set<string>()
+  for (const mtl of mtlFiles) {
+    for (const match of (await mtl.text()).matchAll(/^\s*(?:map_\w+|bump|disp|decal|refl)\s+(.+)$/gim)) {
+      // Options (-s 1 1 1) come before the file name
+      textureNames.add(getBaseName(match[1].trim().split(/\s+/).pop() ?? '').toLowerCase())
+    }
+  }
+
+  const used = files.filter(f =>
+    getExtension(f.name) === 'mtl' ||
+    (COMPANION_EXTENSIONS.includes(getExtension(f.name)) && textureNames.has(f.name.toLowerCase()))
+  )
+  for (const obj of objFiles) companions.set(obj, used)
+
+  return { files: files.filter(f => !used.includes(f)), companions }
+}
+
+/**
+ * Loading manager that resolves relative file references to resource URLs
+ */
+function createManager(resources: Record<string, string> = {}): THREE.LoadingManager {
+  const lookup = new Map(Object.entries(resources).map(([name, url]) => [name.toLowerCase(), url]))
+  const manager = new THREE.LoadingManager()
+  manager.setURLModifier(url => lookup.get(getBaseName(decodeURIComponent(url)).toLowerCase()) ?? url)
+  return manager
+}
+
+/**
+ * Mesh or point cloud for a loaded geometry. Geometry without faces, or
+ * any PCD / XYZ file, is shown as points; vertex colours are kept.
+ */
+function geometryToObject(geometry: THREE.BufferGeometry, asPoints: boolean): THREE.Object3D {
+  const vertexColors = !!geometry.getAttribute('color')
+
+  if (asPoints) {
+    const material = new THREE.PointsMaterial({
+      size: POINT_SIZE,
+      sizeAttenuation: false,
+      vertexColors,
+      color: vertexColors ? 0xffffff : 0xcccccc,
+    })
+    return new THREE.Points(geometry, material)
+  }
+
+  if (!geometry.getAttribute('normal')) geometry.computeVertexNormals()
+  const material = new THREE.MeshStandardMaterial({
+    vertexColors,
+    color: vertexColors ? 0xffffff : 0xcccccc,
+    roughness: 0.7,
+    metalness: 0.1,
+    side: THREE.DoubleSide,
+  })
+  const mesh = new THREE.Mesh(geometry, material)
+  mesh.castShadow = true
+  mesh.receiveShadow = true
+  return mesh
+}
+
+async function loadOBJ(url: string, resources: Record<string, string>): Promise<THREE.Object3D> {
+  const manager = createManager(resources)
+  const text = await (await fetch(url)).text()
+  const loader = new OBJLoader(manager)
+
+  // Material library named by the OBJ, else any MTL that came with it
+  const mtllib = /^\s*mtllib\s+(.+)$/m.exec(text)?.[1].trim()
+  const mtlUrl = (mtllib && resources[getBaseName(mtllib)]) ||
+    Object.entries(resources).find(([name]) => getExtension(name) === 'mtl')?.[1]
+  if (mtlUrl) {
+    const mtlLoader = new MTLLoader(manager)
+    const materials = mtlLoader.parse(await (await fetch(mtlUrl)).text(), '')
+    materials.preload()
+    loader.setMaterials(materials)
+  }
+
+  const object = loader.parse(text)
+  object.traverse(child => {
+    if (child instanceof THREE.Mesh) {
+      child.castShadow = true
+      child.receiveShadow = true
+    }
+  })
+  return object
+}
+
+/**
+ * Load a model into a new object (callers own and dispose it)
+ */
+export async function loadModel(url: string, format: ModelFormat, resources: Record<string, string> = {}): Promise<THREE.Object3D> {
+  const manager = createManager(resources)
+
+  switch (format) {
+    case 'gltf':
+      return (await new GLTFLoader(manager).loadAsync(url)).scene
+    case 'obj':
+      return loadOBJ(url, resources)
+    case 'stl':
+      return geometryToObject(await new STLLoader(manager).loadAsync(url), false)
+    case 'ply': {
+      const geometry = await new PLYLoader(manager).loadAsync(url)
+      // Photogrammetry point clouds have vertices but no faces
+      return geometryToObject(geometry, !geometry.index)
+    }
+    case 'fbx':
+      return new FBXLoader(manager).loadAsync(url)
+    case 'pcd': {
+      const points = await new PCDLoader(manager).loadAsync(url)
+      return geometryToObject(points.geometry, true)
+    }
+    case 'xyz':
+      return geometryToObject(await new XYZLoader(manager).loadAsync(url), true)
+  }
+}
+
+/**
+ * Shared load per URL for viewers (do not dispose the result)
+ */
+export function loadModelCached(url: string, format: ModelFormat, resources?: Record<string, string>): Promise<THREE.Object3D> {
+  let promise = cache.get(url)
+  if (!promise) {
+    promise = loadModel(url, format, resources)
+    promise.catch(() => cache.delete(url))
+    cache.set(url, promise)
+  }
+  return promise
+}
+
+/**
+ * Drop the cached model of a removed media URL
+ */
+export function releaseModel(url: string): void {
+  cache.delete(url)
+}
@@ -0,0 +1,185 @@
+/**
+ * 16-bit PNG Decoder
+ * BITDEPTH-001: Browsers decode PNG to 8 bits per channel, so 16-bit files
+ * are decoded here (all colour types, Adam7 interlacing, tRNS colour key).
+ * 8-bit and palette PNGs are left to the browser.
+ */
+
+import type { HighBitDepthImage } from './highBitDepthImage'
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10]
+
+// Channels per colour type (grey, RGB, grey + alpha, RGBA)
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 }
+
+// Adam7 passes: x start, y start, x step, y step
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+]
+
+interface PNGHeader {
+  width: number
+  height: number
+  bitDepth: number
+  colorType: number
+  interlace: number
+}
+
+/**
+ * True when the bytes start with the PNG signature
+ */
+export function isPNG(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((b, i) => bytes[i] === b)
+}
+
+/**
+ * Bit depth from the IHDR chunk (0 if not a PNG)
+ */
+export function getPNGBitDepth(bytes: Uint8Array): number {
+  return isPNG(bytes) && bytes.length > 24 ? bytes[24] : 0
+}
+
+/**
+ * Inflate zlib data (PNG IDAT, TIFF Deflate) with the native stream API
+ */
+export async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c
+}
+
+/**
+ * Undo the per-row filters of one (sub)image. Returns the offset after it.
+ */
+function unfilter(src: Uint8Array, offset: number, out: Uint8Array, rowBytes: number, rows: number, bpp: number): number {
+  for (let y = 0; y < rows; y++) {
+    const filter = src[offset++]
+    const row = y * rowBytes
+    const prev = row - rowBytes
+    for (let x = 0; x < rowBytes; x++) {
+      const raw = src[offset + x]
+      const left = x >= bpp ? out[row + x - bpp] : 0
+      const up = y > 0 ? out[prev + x] : 0
+      const upLeft = y > 0 && x >= bpp ? out[prev + x - bpp] : 0
+      switch (filter) {
+        case 0: out[row + x] = raw; break
+        case 1: out[row + x] = raw + left; break
+        case 2: out[row + x] = raw + up; break
+        case 3: out[row + x] = raw + ((left + up) >> 1); break
+        case 4: out[row + x] = raw + paeth(left, up, upLeft); break
+        default: throw new Error(`Invalid PNG filter type ${filter}`)
+      }
+    }
+    offset += rowBytes
+  }
+  return offset
+}
+
+/**
+ * Decode a 16-bit PNG to RGBA samples (0-65535)
+ */
+export async function decodePNG16(bytes: Uint8Array): Promise<HighBitDepthImage & { channels: number }> {
+  if (!isPNG(bytes)) throw new Error('Not a PNG file')
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let header: PNGHeader | null = null
+  let transparent: number[] | null = null
+  const idat: Uint8Array[] = []
+
+  let offset = 8
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    const data = bytes.subarray(offset + 8, offset + 8 + length)
+    offset += 12 + length
+
+    if (type === 'IHDR') {
+      header = {
+        width: view.getUint32(data.byteOffset - bytes.byteOffset),
+        height: view.getUint32(data.byteOffset - bytes.byteOffset + 4),
+        bitDepth: data[8],
+        colorType: data[9],
+        interlace: data[12],
+      }
+    } else if (type === 'tRNS' && data.length >= 2) {
+      // Colour key: one 16-bit value per colour channel
+      transparent = []
+      for (let i = 0; i + 1 < data.length; i += 2) transparent.push((data[i] << 8) | data[i + 1])
+    } else if (type === 'IDAT') {
+      idat.push(data)
+    } else if (type === 'IEND') {
+      break
+    }
+  }
+
+  if (!header) throw new Error('PNG has no IHDR chunk')
+  const { width, height, bitDepth, colorType, interlace } = header
+  const channels = PNG_CHANNELS[colorType]
+  if (bitDepth !== 16 || !channels) throw new Error(`Unsupported PNG: ${bitDepth}-bit, colour type ${colorType}`)
+
+  const compressed = new Uint8Array(idat.reduce((sum, d) => sum + d.length, 0))
+  let p = 0
+  for (const d of idat) {
+    compressed.set(d, p)
+    p += d.length
+  }
+  const raw = await inflate(compressed)
+
+  // Unfiltered big-endian samples, row-major
+  const bpp = channels * 2
+  const pixels = new Uint8Array(width * height * bpp)
+  if (interlace === 1) {
+    let src = 0
+    for (const [xStart, yStart, xStep, yStep] of ADAM7_PASSES) {
+      const passWidth = Math.ceil((width - xStart) / xStep)
+      const passHeight = Math.ceil((height - yStart) / yStep)
+      if (passWidth <= 0 || passHeight <= 0) continue
+      const pass = new Uint8Array(passWidth * passHeight * bpp)
+      src = unfilter(raw, src, pass, passWidth * bpp, passHeight, bpp)
+      for (let y = 0; y < passHeight; y++) {
+        for (let x = 0; x < passWidth; x++) {
+          const to = ((yStart + y * yStep) * width + xStart + x * xStep) * bpp
+          pixels.set(pass.subarray((y * passWidth + x) * bpp, (y * passWidth + x + 1) * bpp), to)
+        }
+      }
+    }
+  } else {
+    unfilter(raw, 0, pixels, width * bpp, height, bpp)
+  }
+
+  const data = new Uint16Array(width * height * 4)
+  const sample = (i: number, c: number) => (pixels[i * bpp + c * 2] << 8) | pixels[i * bpp + c * 2 + 1]
+  for (let i = 0; i < width * height; i++) {
+    const o = i * 4
+    if (channels <= 2) {
+      const grey = sample(i, 0)
+      data[o] = data[o + 1] = data[o + 2] = grey
+      data[o + 3] = channels === 2 ? sample(i, 1) : transparent && grey === transparent[0] ? 0 : 65535
+    } else {
+      data[o] = sample(i, 0)
+      data[o + 1] = sample(i, 1)
+      data[o + 2] = sample(i, 2)
+      data[o + 3] = channels === 4
+        ? sample(i, 3)
+        : transparent && transparent.length >= 3 &&
+          data[o] === transparent[0] && data[o + 1] === transparent[1] && data[o + 2] === transparent[2]
+          ? 0
+          : 65535
+    }
+  }
+
+  return { width, height, bitDepth: 16, data, channels }
+}
@@ -0,0 +1,505 @@
+/**
+ * PowerPoint Parser
+ * PPTX-001: Slides of a .pptx in presentation order with their text,
+ * title and speaker notes, plus a thumbnail drawn from the slide XML:
+ * backgrounds, filled shapes, pictures and text boxes at their positions
+ * (placeholders take their position from the layout or master). Themes are
+ * reduced to their colour scheme and text uses system fonts, so thumbnails
+ * show layout changes rather than pixel-exact slides.
+ */
+
+import JSZip from 'jszip'
+import type { ParsedSlide } from '../types'
+
+// Thumbnail width in pixels; height follows the slide aspect ratio
+const THUMBNAIL_WIDTH = 960
+
+// Office measures in EMU: 914400 per inch, 12700 per point
+const EMU_PER_POINT = 12700
+const DEFAULT_SLIDE_SIZE = { cx: 12192000, cy: 6858000 } // 16:9
+
+// Text box insets (bodyPr defaults)
+const INSET_X = 91440
+const INSET_Y = 45720
+
+interface Part {
+  path: string
+  doc: Document
+  rels: Map<string, { target: string; type: string }> // rId → part path
+}
+
+interface Transform {
+  sx: number
+  sy: number
+  tx: number
+  ty: number
+}
+
+interface Box {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+interface Placeholder {
+  type: string
+  idx: string | null
+}
+
+/**
+ * Child / descendant elements by local name, so namespace prefixes
+ * (p:, a:, r:) do not matter
+ */
+function childElements(parent: Element | Document, name?: string): Element[] {
+  return Array.from(parent.childNodes).filter(
+    (node): node is Element => node.nodeType === Node.ELEMENT_NODE && (!name || (node as Element).localName === name)
+  )
+}
+
+function child(parent: Element | Document | null | undefined, ...path: string[]): Element | null {
+  let current: Element | Document | null | undefined = parent
+  for (const name of path) {
+    current = current ? childElements(current, name)[0] : null
+  }
+  return (current as Element | null) ?? null
+}
+
+function descendants(parent: Element | Document, name: string): Element[] {
+  return Array.from(parent.getElementsByTagName('*')).filter(el => el.localName === name)
+}
+
+// Attribute by local name (r:embed, r:id)
+function attr(element: Element | null, name: string): string | null {
+  if (!element) return null
+  for (const attribute of Array.from(element.attributes)) {
+    if (attribute.localName === name) return attribute.value
+  }
+  return null
+}
+
+function resolvePath(basePath: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1)
+  const parts = basePath.split('/').slice(0, -1)
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop()
+    else if (segment !== '.') parts.push(segment)
+  }
+  return parts.join('/')
+}
+
+async function loadPart(zip: JSZip, path: string): Promise<Part | null> {
+  const xml = await zip.file(path)?.async('string')
+  if (!xml) return null
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+
+  const rels = new Map<string, { target: string; type: string }>()
+  const relsPath = path.replace(/([^/]+)$/, '_rels/$1.rels')
+  const relsXml = await zip.file(relsPath)?.async('string')
+  if (relsXml) {
+    const relsDoc = new DOMParser().parseFromString(relsXml, 'application/xml')
+    for (const rel of descendants(relsDoc, 'Relationship')) {
+      if (rel.getAttribute('TargetMode') === 'External') continue
+      rels.set(rel.getAttribute('Id') ?? '', {
+        target: resolvePath(path, rel.getAttribute('Target') ?? ''),
+        type: rel.getAttribute('Type')?.split('/').pop() ?? '',
+      })
+    }
+  }
+
+  return { path, doc, rels }
+}
+
+async function loadRelated(zip: JSZip, part: Part | null, type: string): Promise<Part | null> {
+  const rel = part && Array.from(part.rels.values()).find(r => r.type === type)
+  return rel ? loadPart(zip, rel.target) : null
+}
+
+// ---------------------------------------------------------------------------
+// Text
+// ---------------------------------------------------------------------------
+
+function paragraphText(paragraph: Element): string {
+  return childElements(paragraph)
+    .map(el => {
+      if (el.localName === 'r' || el.localName === 'fld') return child(el, 't')?.textContent ?? ''
+      if (el.localName === 'br') return '\n'
+      return ''
+    })
+    .join('')
+}
+
+function shapeText(shape: Element): string {
+  const body = child(shape, 'txBody')
+  return body ? childElements(body, 'p').map(paragraphText).join('\n').trim() : ''
+}
+
+function getPlaceholder(shape: Element): Placeholder | null {
+  const nvPr = childElements(shape).find(el => el.localName.startsWith('nv'))
+  const ph = nvPr ? child(nvPr, 'nvPr', 'ph') : null
+  if (!ph) return null
+  return { type: ph.getAttribute('type') ?? 'body', idx: ph.getAttribute('idx') }
+}
+
+/**
+ * All text of a slide in reading (document) order, tables included
+ */
+function slideText(slide: Part): string {
+  const tree = child(slide.doc.documentElement, 'cSld', 'spTree')
+  if (!tree) return ''
+  return descendants(tree, 'txBody')
+    .map(body => childElements(body, 'p').map(paragraphText).join('\n').trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+function slideTitle(slide: Part): string | undefined {
+  const tree = child(slide.doc.documentElement, 'cSld', 'spTree')
+  if (!tree) return undefined
+  const title = descendants(tree, 'sp').find(sp => {
+    const type = getPlaceholder(sp)?.type
+    return type === 'title' || type === 'ctrTitle'
+  })
+  return title ? shapeText(title) || undefined : undefined
+}
+
+function notesText(notes: Part | null): string {
+  if (!notes) return ''
+  return descendants(notes.doc, 'sp')
+    .filter(sp => getPlaceholder(sp)?.type === 'body')
+    .map(shapeText)
+    .filter(Boolean)
+    .join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/**
+ * Theme colour scheme (dk1, lt1, accent1…) as hex, with the bg/tx aliases
+ */
+function readThemeColors(theme: Part | null): Map<string, string> {
+  const colors = new Map<string, string>()
+  const scheme = theme ? descendants(theme.doc, 'clrScheme')[0] : null
+  if (!scheme) return colors
+  for (const entry of childElements(scheme)) {
+    const srgb = child(entry, 'srgbClr')?.getAttribute('val')
+    const sys = child(entry, 'sysClr')?.getAttribute('lastClr')
+    const value = srgb ?? sys
+    if (value) colors.set(entry.localName, `#${value}`)
+  }
+  const aliases: Record<string, string> = { bg1: 'lt1', tx1: 'dk1', bg2: 'lt2', tx2: 'dk2' }
+  for (const [alias, name] of Object.entries(aliases)) {
+    const value = colors.get(name)
+    if (value) colors.set(alias, value)
+  }
+  return colors
+}
+
+/**
+ * Colour of a fill / colour element (srgbClr, sysClr, schemeClr), ignoring
+ * tints and shades
+ */
+function readColor(fill: Element | null, theme: Map<string, string>): string | null {
+  if (!fill) return null
+  const srgb = child(fill, 'srgbClr')?.getAttribute('val')
+  if (srgb) return `#${srgb}`
+  const sys = child(fill, 'sysClr')?.getAttribute('lastClr')
+  if (sys) return `#${sys}`
+  const scheme = child(fill, 'schemeClr')?.getAttribute('val')
+  return scheme ? theme.get(scheme) ?? null : null
+}
+
+function readXfrm(xfrm: Element | null): Box | null {
+  const off = child(xfrm, 'off')
+  const ext = child(xfrm, 'ext')
+  if (!off || !ext) return null
+  return {
+    x: Number(off.getAttribute('x')) || 0,
+    y: Number(off.getAttribute('y')) || 0,
+    w: Number(ext.getAttribute('cx')) || 0,
+    h: Number(ext.getAttribute('cy')) || 0,
+  }
+}
+
+function applyTransform(box: Box, t: Transform): Box {
+  return { x: box.x * t.sx + t.tx, y: box.y * t.sy + t.ty, w: box.w * t.sx, h: box.h * t.sy }
+}
+
+/**
+ * Positions of a layout's or master's placeholders, by idx and by type
+ */
+function readPlaceholderBoxes(part: Part | null): { byIdx: Map<string, Box>; byType: Map<string, Box> } {
+  const byIdx = new Map<string, Box>()
+  const byType = new Map<string, Box>()
+  if (!part) return { byIdx, byType }
+  for (const sp of descendants(part.doc, 'sp')) {
+    const ph = getPlaceholder(sp)
+    const box = readXfrm(child(sp, 'spPr', 'xfrm'))
+    if (!ph || !box) continue
+    if (ph.idx !== null && !byIdx.has(ph.idx)) byIdx.set(ph.idx, box)
+    if (!byType.has(ph.type)) byType.set(ph.type, box)
+  }
+  return { byIdx, byType }
+}
+
+interface RenderContext {
+  ctx: CanvasRenderingContext2D
+  zip: JSZip
+  slide: Part
+  scale: number // Pixels per EMU
+  theme: Map<string, string>
+  placeholders: ReturnType<typeof readPlaceholderBoxes>[] // Layout, then master
+}
+
+function placeholderBox(ph: Placeholder, context: RenderContext): Box | null {
+  // Titles match any title placeholder; a body matches by index first
+  const types = ph.type === 'ctrTitle' || ph.type === 'title' ? [ph.type, 'title', 'ctrTitle'] : [ph.type]
+  for (const { byIdx, byType } of context.placeholders) {
+    const box = (ph.idx !== null ? byIdx.get(ph.idx) : undefined) ?? types.map(t => byType.get(t)).find(Boolean)
+    if (box) return box
+  }
+  return null
+}
+
+async function loadImage(zip: JSZip, path: string): Promise<ImageBitmap | null> {
+  try {
+    const blob = await zip.file(path)?.async('blob')
+    // EMF / WMF and other formats the browser cannot decode are skipped
+    return blob ? await createImageBitmap(blob) : null
+  } catch {
+    return null
+  }
+}
+
+async function drawBackground(context: RenderContext, parts: (Part | null)[], width: number, height: number) {
+  const { ctx } = context
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, width, height)
+
+  // The first of slide, layout and master that defines a background wins
+  for (const part of parts) {
+    const bgPr = part ? child(part.doc.documentElement, 'cSld', 'bg', 'bgPr') : null
+    if (!part || !bgPr) continue
+    const color = readColor(child(bgPr, 'solidFill'), context.theme)
+    if (color) {
+      ctx.fillStyle = color
+      ctx.fillRect(0, 0, width, height)
+    }
+    const embed = attr(child(bgPr, 'blipFill', 'blip'), 'embed')
+    const target = embed ? part.rels.get(embed)?.target : null
+    const image = target ? await loadImage(context.zip, target) : null
+    if (image) ctx.drawImage(image, 0, 0, width, height)
+    return
+  }
+}
+
+/**
+ * Wrap and draw a text body inside its box
+ */
+function drawText(body: Element, box: Box, placeholder: Placeholder | null, context: RenderContext) {
+  const { ctx, scale, theme } = context
+  const isTitle = placeholder?.type === 'title' || placeholder?.type === 'ctrTitle'
+  const defaultSize = isTitle ? 44 : 18
+  const maxWidth = (box.w - INSET_X * 2) * scale
+
+  const lines: { text: string; font: string; color: string; size: number; align: string }[] = []
+  for (const paragraph of childElements(body, 'p')) {
+    const run = child(paragraph, 'r')
+    const rPr = child(run, 'rPr') ?? child(paragraph, 'endParaRPr')
+    const size = (Number(rPr?.getAttribute('sz')) || defaultSize * 100) / 100 * EMU_PER_POINT * scale
+    const bold = rPr?.getAttribute('b') === '1' || isTitle
+    const typeface = attr(child(rPr, 'latin'), 'typeface')
+    const font = `${bold ? 'bold ' : ''}${size}px ${typeface && !typeface.startsWith('+') ? `"${typeface}", ` : ''}system-ui, sans-serif`
+    const color = readColor(child(rPr, 'solidFill'), theme) ?? theme.get('tx1') ?? '#000000'
+    const align = child(paragraph, 'pPr')?.getAttribute('algn') ?? (placeholder?.type === 'ctrTitle' ? 'ctr' : 'l')
+
+    ctx.font = font
+    for (const text of paragraphText(paragraph).split('\n')) {
+      let line = ''
+      for (const word of text.split(/(\s+)/)) {
+        if (line && ctx.measureText(line + word).width > maxWidth) {
+          lines.push({ text: line.trimEnd(), font, color, size, align })
+          line = word.trimStart()
+        } else {
+          line += word
+        }
+      }
+      lines.push({ text: line, font, color, size, align })
+    }
+  }
+
+  const lineHeight = (line: { size: number }) => line.size * 1.2
+  const textHeight = lines.reduce((sum, line) => sum + lineHeight(line), 0)
+  const anchor = child(body, 'bodyPr')?.getAttribute('anchor') ?? (isTitle ? 'ctr' : 't')
+  const top = box.y * scale + INSET_Y * scale
+  const innerHeight = (box.h - INSET_Y * 2) * scale
+  let y = anchor === 'ctr' ? top + (innerHeight - textHeight) / 2 : anchor === 'b' ? top + innerHeight - textHeight : top
+
+  ctx.textBaseline = 'top'
+  for (const line of lines) {
+    ctx.font = line.font
+    ctx.fillStyle = line.color
+    const left = (box.x + INSET_X) * scale
+    ctx.textAlign = line.align === 'ctr' ? 'center' : line.align === 'r' ? 'right' : 'left'
+    const x = line.align === 'ctr' ? left + maxWidth / 2 : line.align === 'r' ? left + maxWidth : left
+    ctx.fillText(line.text, x, y + line.size * 0.1)
+    y += lineHeight(line)
+  }
+}
+
+async function drawShapeTree(tree: Element, transform: Transform, context: RenderContext) {
+  const { ctx, scale, theme, slide } = context
+
+  for (const element of childElements(tree)) {
+    if (element.localName === 'grpSp') {
+      // Children are laid out in the group's child coordinate space
+      const xfrm = child(element, 'grpSpPr', 'xfrm')
+      const box = readXfrm(xfrm)
+      const chOff = child(xfrm, 'chOff')
+      const chExt = child(xfrm, 'chExt')
+      if (!box || !chOff || !chExt) {
+        await drawShapeTree(element, transform, context)
+        continue
+      }
+      const sx = box.w / (Number(chExt.getAttribute('cx')) || box.w || 1)
+      const sy = box.h / (Number(chExt.getAttribute('cy')) || box.h || 1)
+      await drawShapeTree(element, {
+        sx: transform.sx * sx,
+        sy: transform.sy * sy,
+        tx: transform.tx + transform.sx * (box.x - (Number(chOff.getAttribute('x')) || 0) * sx),
+        ty: transform.ty + transform.sy * (box.y - (Number(chOff.getAttribute('y')) || 0) * sy),
+      }, context)
+      continue
+    }
+
+    const placeholder = getPlaceholder(element)
+    const ownBox = readXfrm(child(element, 'spPr', 'xfrm') ?? child(element, 'xfrm'))
+    const rawBox = ownBox ?? (placeholder ? placeholderBox(placeholder, context) : null)
+    if (!rawBox) continue
+    const box = applyTransform(rawBox, transform)
+    const [x, y, w, h] = [box.x * scale, box.y * scale, box.w * scale, box.h * scale]
+
+    if (element.localName === 'pic') {
+      const embed = attr(child(element, 'blipFill', 'blip'), 'embed')
+      const target = embed ? slide.rels.get(embed)?.target : null
+      const image = target ? await loadImage(context.zip, target) : null
+      if (image) ctx.drawImage(image, x, y, w, h)
+      continue
+    }
+
+    if (element.localName === 'sp' || element.localName === 'cxnSp') {
+      const spPr = child(element, 'spPr')
+      const geometry = child(spPr, 'prstGeom')?.getAttribute('prst') ?? 'rect'
+      const path = new Path2D()
+      if (geometry === 'ellipse') path.ellipse(x + w / 2, y + h / 2, w / 2, h / 2, 0, 0, Math.PI * 2)
+      else if (geometry === 'line' || element.localName === 'cxnSp') {
+        path.moveTo(x, y)
+        path.lineTo(x + w, y + h)
+      } else if (geometry === 'roundRect') path.roundRect(x, y, w, h, Math.min(w, h) * 0.1)
+      else path.rect(x, y, w, h)
+
+      const fill = readColor(child(spPr, 'solidFill'), theme)
+      if (fill) {
+        ctx.fillStyle = fill
+        ctx.fill(path)
+      }
+      const line = child(spPr, 'ln')
+      const stroke = readColor(child(line, 'solidFill'), theme)
+      if (stroke) {
+        ctx.strokeStyle = stroke
+        ctx.lineWidth = Math.max(1, (Number(line?.getAttribute('w')) || EMU_PER_POINT) * scale)
+        ctx.stroke(path)
+      }
+    }
+
+    // Text of shapes and of table cells (drawn as one block in the frame)
+    const bodies = element.localName === 'graphicFrame' ? descendants(element, 'txBody') : [child(element, 'txBody')]
+    for (const body of bodies) {
+      if (body) drawText(body, box, placeholder, context)
+    }
+  }
+}
+
+async function renderSlide(
+  zip: JSZip,
+  slide: Part,
+  layout: Part | null,
+  master: Part | null,
+  theme: Map<string, string>,
+  size: { cx: number; cy: number }
+): Promise<string> {
+  const scale = THUMBNAIL_WIDTH / size.cx
+  const canvas = document.createElement('canvas')
+  canvas.width = THUMBNAIL_WIDTH
+  canvas.height = Math.round(size.cy * scale)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return ''
+
+  const context: RenderContext = {
+    ctx,
+    zip,
+    slide,
+    scale,
+    theme,
+    placeholders: [readPlaceholderBoxes(layout), readPlaceholderBoxes(master)],
+  }
+
+  await drawBackground(context, [slide, layout, master], canvas.width, canvas.height)
+  const tree = child(slide.doc.documentElement, 'cSld', 'spTree')
+  if (tree) await drawShapeTree(tree, { sx: 1, sy: 1, tx: 0, ty: 0 }, context)
+
+  return canvas.toDataURL('image/jpeg', 0.8)
+}
+
+/**
+ * Parse the slides of a PPTX file
+ */
+export async function parsePPTXSlides(arrayBuffer: ArrayBuffer): Promise<ParsedSlide[]> {
+  const zip = await JSZip.loadAsync(arrayBuffer)
+  const presentation = await loadPart(zip, 'ppt/presentation.xml')
+  if (!presentation) throw new Error('Not a PowerPoint file: ppt/presentation.xml missing')
+
+  const sldSz = descendants(presentation.doc, 'sldSz')[0]
+  const size = sldSz
+    ? { cx: Number(sldSz.getAttribute('cx')), cy: Number(sldSz.getAttribute('cy')) }
+    : DEFAULT_SLIDE_SIZE
+
+  const slides: ParsedSlide[] = []
+  const themes = new Map<string, Map<string, string>>() // By master path
+
+  for (const sldId of descendants(presentation.doc, 'sldId')) {
+    const target = presentation.rels.get(attr(sldId, 'id') ?? '')?.target
+    const slide = target ? await loadPart(zip, target) : null
+    if (!slide) continue
+
+    const layout = await loadRelated(zip, slide, 'slideLayout')
+    const master = await loadRelated(zip, layout, 'slideMaster')
+    const notes = await loadRelated(zip, slide, 'notesSlide')
+
+    const masterKey = master?.path ?? ''
+    let theme = themes.get(masterKey)
+    if (!theme) {
+      theme = readThemeColors(await loadRelated(zip, master, 'theme'))
+      themes.set(masterKey, theme)
+    }
+
+    let imageDataUrl: string | undefined
+    try {
+      imageDataUrl = await renderSlide(zip, slide, layout, master, theme, size)
+    } catch (error) {
+      console.warn(`Failed to render slide ${slides.length + 1}:`, error)
+    }
+
+    slides.push({
+      slideNumber: slides.length + 1,
+      title: slideTitle(slide),
+      text: slideText(slide),
+      notes: notesText(notes),
+      imageDataUrl,
+    })
+  }
+
+  return slides
+}
@@ -0,0 +1,388 @@
+/**
+ * Per-frame Video Quality Report
+ * METRICS-001: Walk every frame where tracks A and B overlap, record PSNR/SSIM/Delta E/diff stats
+ * and export the results as CSV or JSON with timecodes.
+ * MASK-001: Metrics restricted to the ROI and painted mask
+ * WORKER-001: Frames are scored in the metrics worker pool
+ */
+
+import type { ArtifactScores, FrameQualityMetrics, FrameQualityScores, MetricMask, QualityReport, QualityReportSummary, ROIRect, ShotQualitySummary, TimelineClip } from '../types'
+import { buildMetricRegion, countMaskPixels, isMaskActive } from './metricMask'
+import { runMetricsJob, captureFramePair, isAbortError } from './metricsWorkerPool'
+import { formatTimecode } from './utils'
+import { splitIntoShots, findShotIndex } from './sceneCutDetector'
+import { calculateExportMediaTime } from './optimizedExport'
+import { createAnalysisVideo, releaseAnalysisVideo, seekVideoAndWait, waitForVideoReady } from './analysisVideo'
+
+export interface QualityReportClip {
+  clip: TimelineClip
+  name: string
+  url: string
+}
+
+/**
+ * A stretch of the timeline where a video clip on A overlaps one on B
+ */
+export interface QualityReportSpan {
+  startTime: number
+  endTime: number
+  a: QualityReportClip
+  b: QualityReportClip
+}
+
+// One analysed frame: its index from the report start and the span it falls in
+interface PlannedFrame {
+  frame: number
+  time: number
+  span: QualityReportSpan
+}
+
+export interface QualityReportOptions {
+  frameRate: number
+  sampleWidth?: number
+  sampleHeight?: number
+  threshold?: number // 0-255
+  roi?: ROIRect | null
+  mask?: MetricMask | null
+  onProgress?: (progress: number, frame: FrameQualityMetrics) => void
+  signal?: AbortSignal
+}
+
+/**
+ * Overlaps of the A and B clips, in timeline order. Clips without a video
+ * source (resolve returns null) are left out, so gaps are not analysed.
+ */
+export function findQualityReportSpans(
+  clipsA: TimelineClip[],
+  clipsB: TimelineClip[],
+  resolve: (clip: TimelineClip) => QualityReportClip | null
+): QualityReportSpan[] {
+  const videoA = clipsA.map(resolve).filter((c): c is QualityReportClip => c !== null)
+  const videoB = clipsB.map(resolve).filter((c): c is QualityReportClip => c !== null)
+
+  const spans: QualityReportSpan[] = []
+  for (const a of videoA) {
+    for (const b of videoB) {
+      const startTime = Math.max(a.clip.startTime, b.clip.startTime)
+      const endTime = Math.min(a.clip.endTime, b.clip.endTime)
+      if (endTime > startTime) spans.push({ startTime, endTime, a, b })
+    }
+  }
+  return spans.sort((x, y) => x.startTime - y.startTime)
+}
+
+/**
+ * Frames sampled across the spans at the middle of each frame, numbered from
+ * the first span's start so gaps keep their timeline frame numbers
+ */
+function planQualityFrames(spans: QualityReportSpan[], frameRate: number): PlannedFrame[] {
+  if (spans.length === 0) return []
+  const origin = spans[0].startTime
+  const planned: PlannedFrame[] = []
+  let next = 0
+  for (const span of spans) {
+    const first = Math.max(next, Math.ceil((span.startTime - origin) * frameRate - 0.5))
+    const end = Math.ceil((span.endTime - origin) * frameRate - 0.5)
+    for (let frame = first; frame < end; frame++) {
+      planned.push({ frame, time: origin + (frame + 0.5) / frameRate, span })
+    }
+    next = Math.max(next, end)
+  }
+  return planned
+}
+
+/**
+ * Number of frames a full pass over the spans analyses
+ */
+export function countQualityReportFrames(spans: QualityReportSpan[], frameRate: number): number {
+  return planQualityFrames(spans, frameRate).length
+}
+
+const joinNames = (clips: QualityReportClip[]) => [...new Set(clips.map(c => c.name))].join(' + ')
+
+/**
+ * ARTIFACT-001: Mean artifact scores over the frames that have them
+ */
+function meanArtifactScores(scores: (ArtifactScores | null)[]): ArtifactScores | null {
+  const valid = scores.filter((s): s is ArtifactScores => s !== null)
+  if (valid.length === 0) return null
+
+  const mean = (key: keyof ArtifactScores) => valid.reduce((sum, s) => sum + s[key], 0) / valid.length
+  return {
+    blockiness8: mean('blockiness8'),
+    blockiness16: mean('blockiness16'),
+    banding: mean('banding'),
+    ringing: mean('ringing'),
+  }
+}
+
+/**
+ * Summarise per-frame metrics
+ */
+export function summarizeQualityFrames(frames: FrameQualityMetrics[]): QualityReportSummary {
+  if (frames.length === 0) {
+    return {
+      frameCount: 0,
+      meanPSNR: 0,
+      minPSNR: 0,
+      meanSSIM: 0,
+      minSSIM: 0,
+      meanMSSSIM: 0,
+      meanDeltaE: 0,
+      meanDeltaE2000: 0,
+      maxDeltaE: 0,
+      meanDiffPixelPercent: 0,
+      maxPeakDifference: 0,
+      worstFrame: null,
+      meanArtifactsA: null,
+      meanArtifactsB: null,
+    }
+  }
+
+  // One pass for extremes; spreading every frame into Math.min/max overflows
+  // the argument limit on long encodes
+  let worst = frames[0]
+  let psnrSum = 0
+  let finitePSNRCount = 0
+  let minPSNR = Infinity
+  let maxDeltaE = 0
+  let maxPeakDifference = 0
+  for (const frame of frames) {
+    if (frame.ssim < worst.ssim) worst = frame
+    if (Number.isFinite(frame.psnr)) {
+      psnrSum += frame.psnr
+      finitePSNRCount++
+    }
+    minPSNR = Math.min(minPSNR, frame.psnr)
+    maxDeltaE = Math.max(maxDeltaE, frame.deltaE)
+    maxPeakDifference = Math.max(maxPeakDifference, frame.peakDifference)
+  }
+
+  return {
+    frameCount: frames.length,
+    meanPSNR: finitePSNRCount > 0 ? psnrSum / finitePSNRCount : Infinity,
+    minPSNR,
+    meanSSIM: frames.reduce((s, f) => s + f.ssim, 0) / frames.length,
+    minSSIM: worst.ssim,
+    meanMSSSIM: frames.reduce((s, f) => s + f.msssim, 0) / frames.length,
+    meanDeltaE: frames.reduce((s, f) => s + f.deltaE, 0) / frames.length,
+    meanDeltaE2000: frames.reduce((s, f) => s + f.deltaE2000, 0) / frames.length,
+    maxDeltaE,
+    meanDiffPixelPercent: frames.reduce((s, f) => s + f.diffPixelPercent, 0) / frames.length,
+    maxPeakDifference,
+    worstFrame: worst.frame,
+    meanArtifactsA: meanArtifactScores(frames.map(f => f.artifactsA)),
+    meanArtifactsB: meanArtifactScores(frames.map(f => f.artifactsB)),
+  }
+}
+
+/**
+ * Analyse every frame where A and B overlap, mapping each timeline time
+ * through its clip's in-point, speed and reverse as playback does.
+ * Uses dedicated video elements so the preview playback is not disturbed.
+ */
+export async function analyzeVideoQuality(
+  spans: QualityReportSpan[],
+  options: QualityReportOptions
+): Promise<QualityReport> {
+  const {
+    frameRate,
+    sampleWidth = 480,
+    sampleHeight = 270,
+    threshold = 10,
+    roi = null,
+    mask = null,
+    onProgress,
+    signal,
+  } = options
+  const region = buildMetricRegion(sampleWidth, sampleHeight, roi, mask)
+  const startTime = spans.length > 0 ? spans[0].startTime : 0
+  const endTime = spans.reduce((end, span) => Math.max(end, span.endTime), startTime)
+  const planned = planQualityFrames(spans, frameRate)
+
+  // One element per source and side, so A and B seek independently
+  const videos = { a: new Map<string, HTMLVideoElement>(), b: new Map<string, HTMLVideoElement>() }
+  const getVideo = async (side: 'a' | 'b', url: string) => {
+    let video = videos[side].get(url)
+    if (!video) {
+      video = createAnalysisVideo(url)
+      videos[side].set(url, video)
+    }
+    await waitForVideoReady(video)
+    return video
+  }
+
+  const frames: FrameQualityMetrics[] = []
+
+  try {
+    // Seek both sides to a planned frame and return the elements showing it
+    const seekToFrame = async ({ time, span }: PlannedFrame) => {
+      const [videoA, videoB] = await Promise.all([getVideo('a', span.a.url), getVideo('b', span.b.url)])
+      const timeA = Math.min(calculateExportMediaTime(time, span.a.clip) ?? span.a.clip.inPoint, videoA.duration)
+      const timeB = Math.min(calculateExportMediaTime(time, span.b.clip) ?? span.b.clip.inPoint, videoB.duration)
+      await Promise.all([seekVideoAndWait(videoA, timeA), seekVideoAndWait(videoB, timeB)])
+      return [videoA, videoB] as const
+    }
+
+    let current = planned.length > 0 ? await seekToFrame(planned[0]) : null
+
+    for (let i = 0; i < planned.length && current; i++) {
+      if (signal?.aborted) break
+      const { frame } = planned[i]
+
+      // WORKER-001: Score this frame in the worker pool while seeking to the next
+      const captured = await captureFramePair(current[0], current[1])
+      if (!captured) {
+        throw new Error('Failed to capture video frames')
+      }
+      const job = runMetricsJob({
+        kind: 'quality-frame',
+        frameA: captured[0],
+        frameB: captured[1],
+        sampleWidth,
+        sampleHeight,
+        threshold,
+        roi,
+        mask,
+      }, signal)
+
+      const nextSeek = i + 1 < planned.length ? seekToFrame(planned[i + 1]) : null
+      // Not awaited if the job is aborted first; a later load failure must not go unhandled
+      nextSeek?.catch(() => {})
+
+      let scores: FrameQualityScores | null
+      try {
+        scores = await job
+        current = await nextSeek
+      } catch (err) {
+        if (isAbortError(err)) break
+        throw err
+      }
+      if (!scores) {
+        throw new Error('Failed to read video frames')
+      }
+
+      const metrics: FrameQualityMetrics = {
+        frame,
+        time: startTime + frame / frameRate,
+        timecode: formatTimecode(startTime + frame / frameRate, frameRate),
+        ...scores,
+      }
+      frames.push(metrics)
+
+      onProgress?.(((i + 1) / planned.length) * 100, metrics)
+    }
+  } finally {
+    for (const video of [...videos.a.values(), ...videos.b.values()]) {
+      releaseAnalysisVideo(video)
+    }
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    mediaA: joinNames(spans.map(span => span.a)),
+    mediaB: joinNames(spans.map(span => span.b)),
+    frameRate,
+    startTime,
+    endTime,
+    sampleWidth,
+    sampleHeight,
+    threshold,
+    roi,
+    maskCoverage: region && isMaskActive(mask) ? countMaskPixels(region) / region.length : null,
+    frames,
+    summary: summarizeQualityFrames(frames),
+  }
+}
+
+/**
+ * SHOT-001: Summarise frames per shot, split at scene cut times
+ */
+export function summarizeQualityByShot(report: QualityReport, cutTimes: number[]): ShotQualitySummary[] {
+  const shots = splitIntoShots(cutTimes, report.startTime, report.endTime)
+  const framesByShot: FrameQualityMetrics[][] = shots.map(() => [])
+  for (const frame of report.frames) {
+    framesByShot[findShotIndex(shots, frame.time)].push(frame)
+  }
+
+  return shots.map((shot, i) => ({
+    shot: shot.index,
+    startTime: shot.startTime,
+    endTime: shot.endTime,
+    summary: summarizeQualityFrames(framesByShot[i]),
+  }))
+}
+
+const formatPSNRValue = (psnr: number) => (Number.isFinite(psnr) ? psnr.toFixed(4) : 'inf')
+
+/**
+ * Escape a CSV field (quotes, commas, newlines)
+ */
+function escapeCSV(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Export report as CSV (one row per frame)
+ */
+export function qualityReportToCSV(report: QualityReport): string {
+  const header = [
+    'frame', 'timecode', 'time', 'psnr_db', 'psnr_y_db', 'psnr_cb_db', 'psnr_cr_db',
+    'ssim', 'msssim', 'delta_e', 'delta_e2000', 'diff_pixel_percent', 'peak_difference',
+    'blockiness8_a', 'blockiness8_b', 'blockiness16_a', 'blockiness16_b',
+    'banding_a', 'banding_b', 'ringing_a', 'ringing_b',
+  ]
+  const formatArtifact = (scores: ArtifactScores | null, key: keyof ArtifactScores) =>
+    scores ? scores[key].toFixed(4) : ''
+  const rows = report.frames.map(f => [
+    f.frame.toString(),
+    f.timecode,
+    f.time.toFixed(4),
+    formatPSNRValue(f.psnr),
+    formatPSNRValue(f.psnrY),
+    formatPSNRValue(f.psnrCb),
+    formatPSNRValue(f.psnrCr),
+    f.ssim.toFixed(6),
+    f.msssim.toFixed(6),
+    f.deltaE.toFixed(4),
+    f.deltaE2000.toFixed(4),
+    f.diffPixelPercent.toFixed(4),
+    f.peakDifference.toFixed(0),
+    formatArtifact(f.artifactsA, 'blockiness8'),
+    formatArtifact(f.artifactsB, 'blockiness8'),
+    formatArtifact(f.artifactsA, 'blockiness16'),
+    formatArtifact(f.artifactsB, 'blockiness16'),
+    formatArtifact(f.artifactsA, 'banding'),
+    formatArtifact(f.artifactsB, 'banding'),
+    formatArtifact(f.artifactsA, 'ringing'),
+    formatArtifact(f.artifactsB, 'ringing'),
+  ])
+
+  const meta = [
+    `# DualView quality report`,
+    `# A: ${report.mediaA}`,
+    `# B: ${report.mediaB}`,
+    `# fps: ${report.frameRate}, sample: ${report.sampleWidth}x${report.sampleHeight}, threshold: ${report.threshold}`,
+    ...(report.roi ? [`# roi: x=${report.roi.x.toFixed(3)} y=${report.roi.y.toFixed(3)} w=${report.roi.width.toFixed(3)} h=${report.roi.height.toFixed(3)}`] : []),
+    ...(report.maskCoverage !== null ? [`# mask coverage: ${(report.maskCoverage * 100).toFixed(1)}%`] : []),
+    `# created: ${report.createdAt}`,
+  ]
+
+  return [
+    ...meta,
+    header.join(','),
+    ...rows.map(row => row.map(escapeCSV).join(',')),
+  ].join('\n')
+}
+
+/**
+ * Export report as JSON. Infinite PSNR (identical frames) is written as null.
+ * Per-shot summaries are included when scene cuts are known.
+ */
+export function qualityReportToJSON(report: QualityReport, shots?: ShotQualitySummary[]): string {
+  return JSON.stringify(
+    shots && shots.length > 1 ? { ...report, shots } : report,
+    (_key, value) => (typeof value === 'number' && !Number.isFinite(value) ? null : value),
+    2
+  )
+}
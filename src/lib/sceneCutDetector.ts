@@ -0,0 +1,237 @@
+/**
+ * Scene Cut Detection
+ * SHOT-001: Find shot boundaries in a video from colour histogram and edge
+ * change ratio between consecutive sampled frames, and split timeline ranges
+ * into shots for per-shot metric averages.
+ */
+
+import type { TimelineClip } from '../types'
+import { calculateExportMediaTime } from './optimizedExport'
+import { createAnalysisVideo, releaseAnalysisVideo, seekVideoAndWait, waitForVideoMetadata } from './analysisVideo'
+
+export interface SceneCut {
+  time: number               // Timeline time of the first frame of the new shot
+  histogramDiff: number      // 0-1, half L1 distance of RGB histograms
+  edgeChange: number         // 0-1, edge change ratio
+}
+
+export interface Shot {
+  index: number
+  startTime: number
+  endTime: number
+}
+
+export interface SceneCutOptions {
+  clip: TimelineClip         // Maps timeline time to media time (in-point, speed, reverse)
+  startTime: number          // Timeline time to start scanning
+  endTime: number            // Timeline time to stop scanning
+  sampleInterval: number     // Timeline seconds between sampled frames
+  sampleWidth?: number
+  sampleHeight?: number
+  histogramThreshold?: number
+  edgeThreshold?: number
+  minShotLength?: number     // Seconds, closer cuts are merged into the first
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+}
+
+// Marker source for detected cuts on the timeline
+export const SCENE_CUT_MARKER_SOURCE = 'scene-cut'
+
+// 8 bins per RGB channel
+const HISTOGRAM_BITS = 3
+const HISTOGRAM_BINS = 1 << (HISTOGRAM_BITS * 3)
+
+// Sobel magnitude above which a pixel is an edge
+const EDGE_MAGNITUDE = 48
+
+// Fewer edge pixels than this fraction and the edge test is skipped (flat frames)
+const MIN_EDGE_FRACTION = 0.005
+
+interface FrameFeatures {
+  histogram: Float32Array
+  edges: Uint8Array
+  edgeCount: number
+}
+
+/**
+ * Normalised RGB histogram and binary Sobel edge map of an RGBA frame
+ */
+export function computeFrameFeatures(data: Uint8ClampedArray, width: number, height: number): FrameFeatures {
+  const pixelCount = width * height
+  const histogram = new Float32Array(HISTOGRAM_BINS)
+  const luma = new Float32Array(pixelCount)
+  const shift = 8 - HISTOGRAM_BITS
+
+  for (let i = 0; i < pixelCount; i++) {
+    const r = data[i * 4]
+    const g = data[i * 4 + 1]
+    const b = data[i * 4 + 2]
+    histogram[((r >> shift) << (HISTOGRAM_BITS * 2)) | ((g >> shift) << HISTOGRAM_BITS) | (b >> shift)] += 1 / pixelCount
+    luma[i] = 0.299 * r + 0.587 * g + 0.114 * b
+  }
+
+  const edges = new Uint8Array(pixelCount)
+  let edgeCount = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const gx = luma[i - width + 1] + 2 * luma[i + 1] + luma[i + width + 1]
+        - luma[i - width - 1] - 2 * luma[i - 1] - luma[i + width - 1]
+      const gy = luma[i + width - 1] + 2 * luma[i + width] + luma[i + width + 1]
+        - luma[i - width - 1] - 2 * luma[i - width] - luma[i - width + 1]
+      if (Math.sqrt(gx * gx + gy * gy) > EDGE_MAGNITUDE) {
+        edges[i] = 1
+        edgeCount++
+      }
+    }
+  }
+
+  return { histogram, edges, edgeCount }
+}
+
+/**
+ * Half L1 distance between two normalised histograms (0 = same, 1 = disjoint)
+ */
+export function histogramDifference(a: Float32Array, b: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i])
+  }
+  return sum / 2
+}
+
+/**
+ * Fraction of edge pixels with no edge within one pixel in the other frame
+ */
+function unmatchedEdges(from: Uint8Array, to: Uint8Array, count: number, width: number, height: number): number {
+  if (count === 0) return 0
+  let unmatched = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!from[y * width + x]) continue
+      let found = false
+      for (let dy = -1; dy <= 1 && !found; dy++) {
+        for (let dx = -1; dx <= 1 && !found; dx++) {
+          const nx = x + dx
+          const ny = y + dy
+          if (nx >= 0 && nx < width && ny >= 0 && ny < height && to[ny * width + nx]) found = true
+        }
+      }
+      if (!found) unmatched++
+    }
+  }
+  return unmatched / count
+}
+
+/**
+ * Edge change ratio (Zabih et al.): max of entering and exiting edge fractions
+ */
+export function edgeChangeRatio(a: FrameFeatures, b: FrameFeatures, width: number, height: number): number {
+  const exiting = unmatchedEdges(a.edges, b.edges, a.edgeCount, width, height)
+  const entering = unmatchedEdges(b.edges, a.edges, b.edgeCount, width, height)
+  return Math.max(exiting, entering)
+}
+
+/**
+ * Scan a clip's video as the timeline plays it and return the detected cuts in timeline time
+ */
+export async function detectSceneCuts(videoUrl: string, options: SceneCutOptions): Promise<SceneCut[]> {
+  const {
+    clip,
+    startTime,
+    endTime,
+    sampleInterval,
+    sampleWidth = 96,
+    sampleHeight = 54,
+    histogramThreshold = 0.35,
+    edgeThreshold = 0.6,
+    minShotLength = 0.5,
+    onProgress,
+    signal,
+  } = options
+
+  const video = createAnalysisVideo(videoUrl)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = sampleWidth
+  canvas.height = sampleHeight
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) {
+    throw new Error('Failed to create canvas context')
+  }
+
+  const cuts: SceneCut[] = []
+  const minEdges = sampleWidth * sampleHeight * MIN_EDGE_FRACTION
+
+  try {
+    await waitForVideoMetadata(video)
+
+    const totalSamples = Math.max(1, Math.floor((endTime - startTime) / sampleInterval))
+    let previous: FrameFeatures | null = null
+
+    for (let i = 0; i < totalSamples; i++) {
+      if (signal?.aborted) break
+
+      const time = startTime + i * sampleInterval
+      const mediaTime = calculateExportMediaTime(time, clip) ?? clip.inPoint
+      await seekVideoAndWait(video, Math.min(mediaTime, video.duration))
+
+      ctx.drawImage(video, 0, 0, sampleWidth, sampleHeight)
+      const features = computeFrameFeatures(ctx.getImageData(0, 0, sampleWidth, sampleHeight).data, sampleWidth, sampleHeight)
+
+      if (previous) {
+        const histogramDiff = histogramDifference(previous.histogram, features.histogram)
+        const hasEdges = previous.edgeCount >= minEdges && features.edgeCount >= minEdges
+        const edgeChange = hasEdges ? edgeChangeRatio(previous, features, sampleWidth, sampleHeight) : 0
+
+        // Colour and structure both change on a cut; a very large colour jump alone also counts
+        const isCut = histogramDiff >= Math.min(1, histogramThreshold * 2) ||
+          (histogramDiff >= histogramThreshold && (!hasEdges || edgeChange >= edgeThreshold))
+
+        const last = cuts[cuts.length - 1]
+        if (isCut && (!last || time - last.time >= minShotLength) && time - startTime >= minShotLength) {
+          cuts.push({ time, histogramDiff, edgeChange })
+        }
+      }
+      previous = features
+
+      onProgress?.(((i + 1) / totalSamples) * 100)
+
+      // Yield to UI every few frames
+      if (i % 4 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+    }
+  } finally {
+    releaseAnalysisVideo(video)
+  }
+
+  return cuts
+}
+
+/**
+ * Split a time range into shots at the given cut times
+ */
+export function splitIntoShots(cutTimes: number[], startTime: number, endTime: number): Shot[] {
+  const bounds = cutTimes
+    .filter(t => t > startTime && t < endTime)
+    .sort((a, b) => a - b)
+
+  const edges = [startTime, ...bounds, endTime]
+  return edges.slice(0, -1).map((start, index) => ({
+    index,
+    startTime: start,
+    endTime: edges[index + 1],
+  }))
+}
+
+/**
+ * Index of the shot containing a time (last shot for times past the end)
+ */
+export function findShotIndex(shots: Shot[], time: number): number {
+  for (let i = shots.length - 1; i >= 0; i--) {
+    if (time >= shots[i].startTime) return i
+  }
+  return 0
+}
@@ -3,10 +3,22 @@
  *
  * Composes multiple clips from a track into a single sequential video.
  * Uses WebCodecs API for encoding.
+ * COLOR-001: Each clip is drawn through its colour grade.
+ * Clips last as long as on the timeline, playing their media at the clip's
+ * speed (and reversed), so the mixed audio stays in step with the picture.
  */
 
 import { Muxer, ArrayBufferTarget } from 'mp4-muxer'
-import type { TimelineTrack, MediaFile } from '../types'
+import type { TimelineTrack, TimelineClip, MediaFile } from '../types'
+import { MIX_MUXER_AUDIO, encodeMixToMuxer, prepareExportMix, type MixSource } from './audioMix'
+import { ColorGradeRenderer } from './webgl/ColorGradeRenderer'
+import type { CubeLUT } from './colorGrade'
+import { calculateExportMediaTime } from './optimizedExport'
+
+// Timeline length of a clip (its media length divided by its speed)
+function getClipLength(clip: TimelineClip): number {
+  return clip.endTime - clip.startTime
+}
 
 export interface StitchExportSettings {
   trackId: string
@@ -115,13 +127,16 @@ async function waitForVideoReady(video: HTMLVideoElement): Promise<void> {
 }
 
 /**
- * Export stitched video from track clips
+ * Export stitched video from track clips. With `includeAudio` and a mix
+ * source, each clip carries the timeline audio mix under its span (MIX-001)
  */
 export async function exportStitchedVideo(
   track: TimelineTrack,
   getFile: (id: string) => MediaFile | undefined,
   settings: StitchExportSettings,
-  onProgress: (progress: StitchExportProgress) => void
+  onProgress: (progress: StitchExportProgress) => void,
+  mixSource?: MixSource,
+  getLUT?: (id: string | undefined) => CubeLUT | undefined
 ): Promise<Blob | null> {
   // Sort clips by start time
   const sortedClips = [...track.clips].sort((a, b) => a.startTime - b.startTime)
@@ -170,10 +185,32 @@ export async function exportStitchedVideo(
   // Calculate total frames needed
   let totalDuration = 0
   for (const clip of sortedClips) {
-    totalDuration += clip.outPoint - clip.inPoint
+    totalDuration += getClipLength(clip)
   }
   const totalFrames = Math.ceil(totalDuration * fps)
 
+  // MIX-001: Audio spans match the frames each clip contributes
+  let mix: AudioBuffer | null = null
+  let mixDuration = 0
+  if (settings.includeAudio && mixSource) {
+    const spans: Array<[number, number]> = []
+    for (const clip of sortedClips) {
+      const media = getFile(clip.mediaId)
+      if (media?.type !== 'video' && media?.type !== 'image') continue
+      const clipSpan = Math.ceil(getClipLength(clip) * fps) / fps
+      spans.push([clip.startTime, clip.startTime + clipSpan])
+      mixDuration += clipSpan
+    }
+    onProgress({
+      status: 'preparing',
+      progress: 0,
+      message: 'Mixing audio...',
+      currentClip: 0,
+      totalClips: sortedClips.length,
+    })
+    mix = await prepareExportMix(mixSource, spans)
+  }
+
   // Setup MP4 muxer
   const target = new ArrayBufferTarget()
   const muxer = new Muxer({
@@ -183,6 +220,7 @@ export async function exportStitchedVideo(
       width,
       height,
     },
+    ...(mix && { audio: MIX_MUXER_AUDIO }),
     fastStart: 'in-memory',
   })
 
@@ -217,6 +255,7 @@ export async function exportStitchedVideo(
 
   let globalFrameIndex = 0
   const frameDuration = 1 / fps
+  const grader = new ColorGradeRenderer()
 
   // Process each clip
   for (let clipIndex = 0; clipIndex < sortedClips.length; clipIndex++) {
@@ -236,6 +275,8 @@ export async function exportStitchedVideo(
       totalClips: sortedClips.length,
     })
 
+    const lut = getLUT?.(clip.colorGrade?.lutId)
+
     // Handle different media types
     if (media.type === 'video') {
       // Create video element for this clip
@@ -243,13 +284,14 @@ export async function exportStitchedVideo(
       await waitForVideoReady(video)
 
       // Calculate clip duration and frames
-      const clipDuration = clip.outPoint - clip.inPoint
+      const clipDuration = getClipLength(clip)
       const clipFrames = Math.ceil(clipDuration * fps)
 
       // Process each frame of the clip
       for (let frameInClip = 0; frameInClip < clipFrames; frameInClip++) {
-        // Calculate source time in video
-        const sourceTime = clip.inPoint + (frameInClip * frameDuration)
+        // Calculate source time in video (speed and reverse applied)
+        const timelineTime = Math.min(clip.startTime + frameInClip * frameDuration, clip.endTime - frameDuration / 2)
+        const sourceTime = calculateExportMediaTime(timelineTime, clip) ?? clip.inPoint
 
         // Seek video
         await seekVideoAndWait(video, sourceTime)
@@ -274,7 +316,7 @@ export async function exportStitchedVideo(
           drawX = (width - drawWidth) / 2
         }
 
-        ctx.drawImage(video, drawX, drawY, drawWidth, drawHeight)
+        ctx.drawImage(grader.apply(video, clip.colorGrade, lut), drawX, drawY, drawWidth, drawHeight)
 
         // Create video frame
         const frame = new VideoFrame(canvas, {
@@ -316,11 +358,12 @@ export async function exportStitchedVideo(
         img.src = media.url
       })
 
-      // Calculate clip duration (use outPoint - inPoint, or default to 5 seconds)
-      const clipDuration = clip.outPoint - clip.inPoint
+      // Calculate clip duration
+      const clipDuration = getClipLength(clip)
       const clipFrames = Math.ceil(clipDuration * fps)
 
       // Draw image for duration
+      const graded = grader.apply(img, clip.colorGrade, lut)
       for (let frameInClip = 0; frameInClip < clipFrames; frameInClip++) {
         // Draw to canvas with aspect ratio correction
         ctx.fillStyle = '#000'
@@ -341,7 +384,7 @@ export async function exportStitchedVideo(
           drawX = (width - drawWidth) / 2
         }
 
-        ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight)
+        ctx.drawImage(graded, drawX, drawY, drawWidth, drawHeight)
 
         // Create video frame
         const frame = new VideoFrame(canvas, {
@@ -361,6 +404,9 @@ export async function exportStitchedVideo(
   // Flush encoder
   await encoder.flush()
   encoder.close()
+  grader.dispose()
+
+  if (mix) await encodeMixToMuxer(mix, muxer, mixDuration)
 
   // Finalize muxer
   muxer.finalize()
@@ -410,7 +456,7 @@ export function getTrackExportInfo(
 
   for (const clip of sortedClips) {
     const media = getFile(clip.mediaId)
-    const duration = clip.outPoint - clip.inPoint
+    const duration = getClipLength(clip)
     totalDuration += duration
 
     clips.push({
@@ -0,0 +1,209 @@
+/**
+ * Structured Data Parsing
+ * STRUCT-001: JSON, YAML, TOML and XML parsed into the plain value tree the
+ * structured diff compares, so a config in one format diffs like any other.
+ * Format details the plain tree loses are kept alongside it: YAML anchors,
+ * aliases and merge keys by tree path; XML attributes and text content as
+ * `@name` and `#text` keys next to child elements.
+ */
+
+import { parseDocument, isAlias, isMap, isScalar, isSeq } from 'yaml'
+import { parse as parseToml } from 'smol-toml'
+
+export type StructuredFormat = 'json' | 'yaml' | 'toml' | 'xml'
+
+export interface StructuredNodeInfo {
+  anchor?: string // YAML &anchor defined on this node
+  alias?: string // YAML *alias this node was copied from
+  merges?: string[] // YAML `<<: *base` merged into this mapping
+}
+
+export interface StructuredDocument {
+  format: StructuredFormat | null // null: not recognised, loose key: value fallback
+  value: unknown
+  nodeInfo: Map<string, StructuredNodeInfo> // By diff tree path (root.key.0)
+  error?: string
+}
+
+export const STRUCTURED_FORMAT_LABELS: Record<StructuredFormat, string> = {
+  json: 'JSON',
+  yaml: 'YAML',
+  toml: 'TOML',
+  xml: 'XML',
+}
+
+// File input accept list for structured data files
+export const STRUCTURED_ACCEPT = '.json,.yaml,.yml,.toml,.xml'
+
+// XML attributes are `@name` keys, text next to child elements is `#text`
+export const XML_ATTRIBUTE_PREFIX = '@'
+export const XML_TEXT_KEY = '#text'
+
+// Path of the tree root, matching the diff tree
+const ROOT_PATH = 'root'
+
+function childPath(path: string, key: string | number): string {
+  return `${path}.${key}`
+}
+
+/**
+ * Element as a plain value: attributes and child elements as keys
+ * (repeated elements become arrays), text-only elements as strings
+ */
+function xmlElementToValue(element: Element): unknown {
+  const value: Record<string, unknown> = {}
+  for (const attribute of Array.from(element.attributes)) {
+    value[`${XML_ATTRIBUTE_PREFIX}${attribute.name}`] = attribute.value
+  }
+
+  const children = new Map<string, unknown[]>()
+  const text: string[] = []
+  for (const child of Array.from(element.childNodes)) {
+    if (child.nodeType === Node.ELEMENT_NODE) {
+      const childElement = child as Element
+      const siblings = children.get(childElement.tagName) ?? []
+      siblings.push(xmlElementToValue(childElement))
+      children.set(childElement.tagName, siblings)
+    } else if (child.nodeType === Node.TEXT_NODE || child.nodeType === Node.CDATA_SECTION_NODE) {
+      const trimmed = child.textContent?.trim()
+      if (trimmed) text.push(trimmed)
+    }
+  }
+
+  for (const [tagName, values] of children) {
+    value[tagName] = values.length === 1 ? values[0] : values
+  }
+
+  if (Object.keys(value).length === 0) return text.join(' ')
+  if (text.length > 0) value[XML_TEXT_KEY] = text.join(' ')
+  return value
+}
+
+function parseXML(content: string): unknown {
+  const doc = new DOMParser().parseFromString(content, 'application/xml')
+  const error = doc.getElementsByTagName('parsererror')[0]
+  if (error) throw new Error(error.textContent?.trim() || 'Invalid XML')
+  const root = doc.documentElement
+  return { [root.tagName]: xmlElementToValue(root) }
+}
+
+/**
+ * YAML value plus anchors, aliases and merge keys found walking the AST
+ */
+function parseYAML(content: string): { value: unknown; nodeInfo: Map<string, StructuredNodeInfo> } {
+  const doc = parseDocument(content, { merge: true })
+  if (doc.errors.length > 0) throw doc.errors[0]
+
+  const nodeInfo = new Map<string, StructuredNodeInfo>()
+  const annotate = (path: string, info: StructuredNodeInfo) => {
+    nodeInfo.set(path, { ...nodeInfo.get(path), ...info })
+  }
+
+  const visit = (node: unknown, path: string) => {
+    if (isAlias(node)) {
+      annotate(path, { alias: node.source })
+      return
+    }
+    if (!isScalar(node) && !isMap(node) && !isSeq(node)) return
+    if (node.anchor) annotate(path, { anchor: node.anchor })
+
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        // With merge on, `<<` keys parse to a symbol
+        const isMerge = isScalar(pair.key) && (typeof pair.key.value === 'symbol' || pair.key.value === '<<')
+        if (isMerge) {
+          // Merged mappings add keys to this one rather than a `<<` child
+          const sources = isSeq(pair.value) ? pair.value.items : [pair.value]
+          const merges = sources.filter(isAlias).map(alias => alias.source)
+          annotate(path, { merges: [...(nodeInfo.get(path)?.merges ?? []), ...merges] })
+          continue
+        }
+        visit(pair.value, childPath(path, isScalar(pair.key) ? String(pair.key.value) : String(pair.key)))
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, i) => visit(item, childPath(path, i)))
+    }
+  }
+
+  visit(doc.contents, ROOT_PATH)
+  return { value: doc.toJS({ maxAliasCount: -1 }), nodeInfo }
+}
+
+/**
+ * Unrecognised text: `key: value` lines as a flat object, else the text
+ */
+function parseLooseKeyValues(content: string): unknown {
+  const result: Record<string, string> = {}
+  for (const line of content.split('\n')) {
+    const match = line.match(/^(\s*)([^:]+):\s*(.*)$/)
+    if (match) {
+      result[match[2].trim()] = match[3].trim()
+    }
+  }
+  return Object.keys(result).length > 0 ? result : content
+}
+
+function parseAs(content: string, format: StructuredFormat): Omit<StructuredDocument, 'format'> {
+  switch (format) {
+    case 'json': return { value: JSON.parse(content), nodeInfo: new Map() }
+    case 'yaml': return parseYAML(content)
+    case 'toml': return { value: parseToml(content), nodeInfo: new Map() }
+    case 'xml': return { value: parseXML(content), nodeInfo: new Map() }
+  }
+}
+
+function parses(content: string, format: StructuredFormat): boolean {
+  try {
+    parseAs(content, format)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Format of structured text by its syntax, or null for plain text
+ */
+export function detectStructuredFormat(content: string): StructuredFormat | null {
+  const trimmed = content.trim()
+  if (!trimmed) return null
+
+  // TOML table headers also start with `[`, so fall through when not JSON
+  if ((trimmed.startsWith('{') || trimmed.startsWith('[')) && parses(trimmed, 'json')) return 'json'
+  if (trimmed.startsWith('<')) {
+    return typeof DOMParser !== 'undefined' && parses(trimmed, 'xml') ? 'xml' : null
+  }
+
+  const lines = trimmed.split('\n').filter(line => line.trim() && !/^\s*#/.test(line))
+  const tomlLines = lines.filter(line => /^\s*(\[\[?[^\]]+\]\]?|[\w."'-]+\s*=\s*\S)/.test(line))
+  if (tomlLines.length > lines.length * 0.5 && parses(trimmed, 'toml')) return 'toml'
+
+  const yamlLines = lines.filter(line => /^\s*(- +)?("[^"]*"|'[^']*'|[\w.-]+)\s*:(\s|$)/.test(line) || /^\s*- /.test(line))
+  if ((trimmed.startsWith('---') || yamlLines.length > lines.length * 0.5) && parses(trimmed, 'yaml')) {
+    return 'yaml'
+  }
+
+  return null
+}
+
+/**
+ * Parse structured text into the diff tree model; unrecognised or invalid
+ * text falls back to loose `key: value` lines with the parse error
+ */
+export function parseStructuredData(content: string): StructuredDocument {
+  const format = detectStructuredFormat(content)
+  if (!format) {
+    return { format: null, value: parseLooseKeyValues(content), nodeInfo: new Map() }
+  }
+
+  try {
+    return { format, ...parseAs(content.trim(), format) }
+  } catch (error) {
+    return {
+      format: null,
+      value: parseLooseKeyValues(content),
+      nodeInfo: new Map(),
+      error: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
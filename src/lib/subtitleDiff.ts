@@ -0,0 +1,194 @@
+/**
+ * Subtitle Comparison
+ * SUB-001: Pairs the cues of two subtitle files and reports timing offsets,
+ * word diffs and overlaps / short gaps within each file. Cues are aligned
+ * in order (like a diff) by how much they overlap in time and how similar
+ * their words are, so a retimed file still pairs by text and a translation
+ * still pairs by timing.
+ */
+
+import type { SubtitleCue } from '../types'
+import { computeWordDiff, type DiffPart } from './textDiff'
+
+export interface SubtitleCuePair {
+  a: SubtitleCue | null // null: cue only in B
+  b: SubtitleCue | null // null: cue only in A
+  startOffset: number | null // B start − A start (seconds)
+  endOffset: number | null // B end − A end (seconds)
+  timingChanged: boolean
+  textChanged: boolean
+  diff: DiffPart[] | null // Word diff A → B when the text changed
+}
+
+export interface SubtitleTimingIssue {
+  kind: 'overlap' | 'gap'
+  cue: SubtitleCue
+  next: SubtitleCue
+  duration: number // Overlap length, or gap length below the minimum
+}
+
+export interface SubtitleComparisonSummary {
+  matched: number
+  onlyA: number
+  onlyB: number
+  textChanged: number
+  timingChanged: number
+  meanStartOffset: number // Signed: a constant sync offset shows here
+  maxStartOffset: number // Largest absolute offset
+}
+
+export interface SubtitleComparisonResult {
+  pairs: SubtitleCuePair[]
+  issuesA: SubtitleTimingIssue[]
+  issuesB: SubtitleTimingIssue[]
+  summary: SubtitleComparisonSummary
+}
+
+export interface SubtitleCompareOptions {
+  timingTolerance: number // Offsets up to this count as unchanged (seconds)
+  minGap: number // Shorter gaps between cues are reported (seconds, 0 = off)
+}
+
+// Cues further apart than this never pair (seconds)
+const MATCH_WINDOW = 10
+
+// Pairs must score above this (time overlap + word similarity, 0–2)
+const MIN_MATCH_SCORE = 0.2
+
+function getWords(text: string): string[] {
+  return text.toLowerCase().split(/[\s.,!?;:"“”«»()-]+/).filter(Boolean)
+}
+
+function wordSimilarity(wordsA: string[], wordsB: string[]): number {
+  if (wordsA.length === 0 && wordsB.length === 0) return 1
+  if (wordsA.length === 0 || wordsB.length === 0) return 0
+  const setB = new Set(wordsB)
+  const shared = new Set(wordsA.filter(w => setB.has(w))).size
+  return shared / new Set([...wordsA, ...wordsB]).size
+}
+
+function timeOverlap(a: SubtitleCue, b: SubtitleCue): number {
+  const union = Math.max(a.end, b.end) - Math.min(a.start, b.start)
+  const intersection = Math.min(a.end, b.end) - Math.max(a.start, b.start)
+  return union > 0 ? Math.max(0, intersection) / union : 1
+}
+
+/**
+ * Order-preserving alignment that maximises the summed match score
+ */
+function alignCues(cuesA: SubtitleCue[], cuesB: SubtitleCue[]): [number, number][] {
+  const m = cuesA.length
+  const n = cuesB.length
+  const width = n + 1
+  const scores = new Float32Array((m + 1) * width)
+  const wordsA = cuesA.map(c => getWords(c.text))
+  const wordsB = cuesB.map(c => getWords(c.text))
+
+  const matchScore = (i: number, j: number): number => {
+    const a = cuesA[i]
+    const b = cuesB[j]
+    if (Math.abs(a.start - b.start) > MATCH_WINDOW) return -1
+    const score = timeOverlap(a, b) + wordSimilarity(wordsA[i], wordsB[j])
+    return score > MIN_MATCH_SCORE ? score : -1
+  }
+
+  const matches = new Float32Array((m + 1) * width).fill(-1)
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const skip = Math.max(scores[(i - 1) * width + j], scores[i * width + j - 1])
+      const match = matchScore(i - 1, j - 1)
+      matches[i * width + j] = match
+      scores[i * width + j] = match >= 0 ? Math.max(skip, scores[(i - 1) * width + j - 1] + match) : skip
+    }
+  }
+
+  const pairs: [number, number][] = []
+  let i = m
+  let j = n
+  while (i > 0 || j > 0) {
+    const match = i > 0 && j > 0 ? matches[i * width + j] : -1
+    if (match >= 0 && scores[i * width + j] === Math.fround(scores[(i - 1) * width + j - 1] + match)) {
+      pairs.push([i - 1, j - 1])
+      i--
+      j--
+    } else if (j > 0 && (i === 0 || scores[i * width + j - 1] >= scores[(i - 1) * width + j])) {
+      pairs.push([-1, j - 1])
+      j--
+    } else {
+      pairs.push([i - 1, -1])
+      i--
+    }
+  }
+  return pairs.reverse()
+}
+
+/**
+ * Overlapping cues and gaps shorter than `minGap` within one file
+ */
+export function findTimingIssues(cues: SubtitleCue[], minGap: number): SubtitleTimingIssue[] {
+  const issues: SubtitleTimingIssue[] = []
+  // Compare with the cue that ends last so far, so long cues are not skipped
+  let previous: SubtitleCue | null = null
+
+  for (const cue of cues) {
+    if (previous) {
+      const gap = cue.start - previous.end
+      if (gap < 0) {
+        issues.push({ kind: 'overlap', cue: previous, next: cue, duration: -gap })
+      } else if (gap < minGap) {
+        issues.push({ kind: 'gap', cue: previous, next: cue, duration: gap })
+      }
+    }
+    if (!previous || cue.end > previous.end) previous = cue
+  }
+
+  return issues
+}
+
+/**
+ * Compare two files cue by cue
+ */
+export function compareSubtitles(
+  cuesA: SubtitleCue[],
+  cuesB: SubtitleCue[],
+  { timingTolerance, minGap }: SubtitleCompareOptions
+): SubtitleComparisonResult {
+  const pairs: SubtitleCuePair[] = alignCues(cuesA, cuesB).map(([i, j]) => {
+    const a = i >= 0 ? cuesA[i] : null
+    const b = j >= 0 ? cuesB[j] : null
+    if (!a || !b) {
+      return { a, b, startOffset: null, endOffset: null, timingChanged: false, textChanged: false, diff: null }
+    }
+
+    const startOffset = b.start - a.start
+    const endOffset = b.end - a.end
+    const textChanged = a.text !== b.text
+    return {
+      a,
+      b,
+      startOffset,
+      endOffset,
+      timingChanged: Math.abs(startOffset) > timingTolerance || Math.abs(endOffset) > timingTolerance,
+      textChanged,
+      diff: textChanged ? computeWordDiff(a.text, b.text) : null,
+    }
+  })
+
+  const matched = pairs.filter(p => p.a && p.b)
+  const offsets = matched.map(p => p.startOffset ?? 0)
+
+  return {
+    pairs,
+    issuesA: findTimingIssues(cuesA, minGap),
+    issuesB: findTimingIssues(cuesB, minGap),
+    summary: {
+      matched: matched.length,
+      onlyA: pairs.filter(p => !p.b).length,
+      onlyB: pairs.filter(p => !p.a).length,
+      textChanged: matched.filter(p => p.textChanged).length,
+      timingChanged: matched.filter(p => p.timingChanged).length,
+      meanStartOffset: offsets.length > 0 ? offsets.reduce((sum, o) => sum + o, 0) / offsets.length : 0,
+      maxStartOffset: offsets.reduce((max, o) => Math.max(max, Math.abs(o)), 0),
+    },
+  }
+}
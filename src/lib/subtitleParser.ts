@@ -0,0 +1,182 @@
+/**
+ * Subtitle Parsing
+ * SUB-001: SRT, WebVTT and ASS/SSA files parsed into timed cues with plain
+ * text. Styling markup (HTML-like tags, ASS override blocks) is removed so
+ * versions compare by what the viewer reads; line breaks are kept.
+ */
+
+import type { SubtitleCue, SubtitleFormat, SubtitleInfo } from '../types'
+
+const SUBTITLE_FORMATS: Record<string, SubtitleFormat> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  ass: 'ass',
+  ssa: 'ass',
+}
+
+// File input accept list for subtitle files
+export const SUBTITLE_ACCEPT = Object.keys(SUBTITLE_FORMATS).map(ext => `.${ext}`).join(',')
+
+// [hh:]mm:ss,mmm (SRT) or [hh:]mm:ss.mmm (WebVTT)
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/
+
+/**
+ * Subtitle format of a file name, or null if it is not a subtitle file
+ */
+export function getSubtitleFormat(fileName: string): SubtitleFormat | null {
+  return SUBTITLE_FORMATS[fileName.toLowerCase().split('.').pop() ?? ''] ?? null
+}
+
+/**
+ * True for file names the subtitle parser handles
+ */
+export function isSubtitleFileName(fileName: string): boolean {
+  return getSubtitleFormat(fileName) !== null
+}
+
+function parseTimestamp(text: string): number | null {
+  const match = TIMESTAMP.exec(text)
+  if (!match) return null
+  const [, hours, minutes, seconds, fraction] = match
+  return (
+    parseInt(hours || '0', 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(fraction.padEnd(3, '0'), 10) / 1000
+  )
+}
+
+/**
+ * Plain text of SRT / WebVTT cue lines
+ */
+function stripMarkup(lines: string[]): string {
+  return lines
+    .map(line => line
+      .replace(/<[^>]*>/g, '') // <i>, <c.yellow>, <v Speaker>, <00:01.500>
+      .replace(/\{\\[^}]*\}/g, '') // {\an8} in SRT
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * SRT and WebVTT: blank-line separated blocks with a `start --> end` line
+ */
+function parseBlocks(text: string): Omit<SubtitleCue, 'index'>[] {
+  const cues: Omit<SubtitleCue, 'index'>[] = []
+
+  for (const block of text.split(/\n[ \t]*\n/)) {
+    const lines = block.split('\n')
+    const timing = lines.findIndex(line => line.includes('-->'))
+    // Header, NOTE, STYLE and REGION blocks have no timing line
+    if (timing < 0) continue
+
+    const [startText, endText] = lines[timing].split('-->')
+    const start = parseTimestamp(startText)
+    const end = parseTimestamp(endText)
+    if (start === null || end === null) continue
+
+    cues.push({ start, end, text: stripMarkup(lines.slice(timing + 1)) })
+  }
+
+  return cues
+}
+
+/**
+ * ASS / SSA: `Dialogue:` lines of the [Events] section, fields named by
+ * its `Format:` line (Text is last and may contain commas)
+ */
+function parseASS(text: string): Omit<SubtitleCue, 'index'>[] {
+  const cues: Omit<SubtitleCue, 'index'>[] = []
+  let inEvents = false
+  let fields: string[] = []
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim()
+    if (trimmed.startsWith('[')) {
+      inEvents = trimmed.toLowerCase() === '[events]'
+      continue
+    }
+    if (!inEvents) continue
+
+    const separator = trimmed.indexOf(':')
+    if (separator < 0) continue
+    const key = trimmed.slice(0, separator).toLowerCase()
+    const value = trimmed.slice(separator + 1).trim()
+
+    if (key === 'format') {
+      fields = value.split(',').map(f => f.trim().toLowerCase())
+      continue
+    }
+    if (key !== 'dialogue' || fields.length === 0) continue
+
+    const values = value.split(',')
+    const textValue = values.slice(fields.length - 1).join(',')
+    const get = (name: string) => values[fields.indexOf(name)] ?? ''
+    const start = parseTimestamp(get('start')) // h:mm:ss.cc
+    const end = parseTimestamp(get('end'))
+    if (start === null || end === null) continue
+
+    cues.push({
+      start,
+      end,
+      text: textValue
+        .replace(/\{[^}]*\}/g, '') // Override blocks
+        .replace(/\\[Nn]/g, '\n')
+        .replace(/\\h/g, ' ')
+        .split('\n')
+        .map(l => l.trim())
+        .filter(Boolean)
+        .join('\n'),
+    })
+  }
+
+  return cues
+}
+
+/**
+ * Cues of a subtitle file's text, sorted by start time
+ */
+export function parseSubtitles(text: string, format: SubtitleFormat): SubtitleCue[] {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  const parsed = format === 'ass' ? parseASS(normalized) : parseBlocks(normalized)
+
+  return parsed
+    .map((cue, i) => ({ ...cue, index: i + 1 }))
+    .sort((a, b) => a.start - b.start || a.index - b.index)
+}
+
+/**
+ * Parse a subtitle file (format from the file name)
+ */
+export async function parseSubtitleFile(file: File): Promise<SubtitleInfo> {
+  const format = getSubtitleFormat(file.name)
+  if (!format) throw new Error(`Unsupported subtitle file: ${file.name}`)
+
+  const cues = parseSubtitles(await file.text(), format)
+  if (cues.length === 0) throw new Error(`No subtitle cues found in ${file.name}`)
+  return { format, cues }
+}
+
+/**
+ * End of the last cue, in seconds
+ */
+export function getSubtitleDuration(cues: SubtitleCue[]): number {
+  return cues.reduce((max, cue) => Math.max(max, cue.end), 0)
+}
+
+/**
+ * hh:mm:ss.mmm for cue tables
+ */
+export function formatSubtitleTime(seconds: number): string {
+  const ms = Math.round(Math.max(0, seconds) * 1000)
+  const h = Math.floor(ms / 3_600_000)
+  const m = Math.floor((ms % 3_600_000) / 60_000)
+  const s = Math.floor((ms % 60_000) / 1000)
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0')
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`
+}
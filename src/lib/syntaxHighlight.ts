@@ -0,0 +1,366 @@
+/**
+ * Syntax Highlighting
+ * CODE-001: Lightweight per-language tokenizer for the code diff. Knows
+ * each language's comments, strings and keywords (enough to colour a diff
+ * and to strip comments), carrying block comments and multi-line strings
+ * across lines. Not a parser: nesting and string interpolation are ignored.
+ */
+
+export type CodeLanguage =
+  | 'javascript' | 'typescript' | 'python' | 'rust' | 'go' | 'java' | 'kotlin'
+  | 'c' | 'cpp' | 'csharp' | 'shell' | 'sql' | 'css' | 'html' | 'json'
+  | 'yaml' | 'toml' | 'markdown' | 'plaintext'
+
+export type SyntaxTokenType = 'keyword' | 'string' | 'comment' | 'number' | 'function' | 'type' | 'plain'
+
+export interface SyntaxToken {
+  type: SyntaxTokenType
+  text: string
+}
+
+interface LanguageSpec {
+  label: string
+  extensions: string[]
+  lineComments: string[]
+  blockComment: [string, string] | null
+  quotes: string[] // Longest first; triple quotes and backticks may span lines
+  keywords: string[]
+}
+
+const C_KEYWORDS = [
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return',
+  'goto', 'sizeof', 'typedef', 'struct', 'union', 'enum', 'const', 'static', 'extern', 'volatile',
+  'inline', 'void', 'char', 'short', 'int', 'long', 'float', 'double', 'signed', 'unsigned', 'bool',
+  'true', 'false', 'NULL',
+]
+
+const JS_KEYWORDS = [
+  'var', 'let', 'const', 'function', 'return', 'if', 'else', 'for', 'while', 'do', 'switch', 'case',
+  'default', 'break', 'continue', 'new', 'delete', 'typeof', 'instanceof', 'in', 'of', 'class',
+  'extends', 'super', 'this', 'import', 'export', 'from', 'as', 'async', 'await', 'yield', 'try',
+  'catch', 'finally', 'throw', 'true', 'false', 'null', 'undefined', 'void', 'static', 'get', 'set',
+]
+
+const LANGUAGES: Record<CodeLanguage, LanguageSpec> = {
+  javascript: {
+    label: 'JavaScript',
+    extensions: ['js', 'jsx', 'mjs', 'cjs'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['`', '"', "'"],
+    keywords: JS_KEYWORDS,
+  },
+  typescript: {
+    label: 'TypeScript',
+    extensions: ['ts', 'tsx', 'mts', 'cts'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['`', '"', "'"],
+    keywords: [
+      ...JS_KEYWORDS, 'type', 'interface', 'enum', 'namespace', 'declare', 'readonly', 'keyof',
+      'implements', 'private', 'protected', 'public', 'abstract', 'satisfies', 'any', 'unknown',
+      'never', 'string', 'number', 'boolean',
+    ],
+  },
+  python: {
+    label: 'Python',
+    extensions: ['py', 'pyi', 'pyw'],
+    lineComments: ['#'],
+    blockComment: null,
+    quotes: ['"""', "'''", '"', "'"],
+    keywords: [
+      'def', 'class', 'return', 'if', 'elif', 'else', 'for', 'while', 'break', 'continue', 'pass',
+      'import', 'from', 'as', 'try', 'except', 'finally', 'raise', 'with', 'lambda', 'yield', 'async',
+      'await', 'global', 'nonlocal', 'assert', 'del', 'in', 'is', 'not', 'and', 'or', 'None', 'True',
+      'False', 'self', 'match', 'case',
+    ],
+  },
+  rust: {
+    label: 'Rust',
+    extensions: ['rs'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"'],
+    keywords: [
+      'fn', 'let', 'mut', 'const', 'static', 'struct', 'enum', 'trait', 'impl', 'pub', 'use', 'mod',
+      'crate', 'self', 'Self', 'super', 'return', 'if', 'else', 'match', 'for', 'while', 'loop',
+      'break', 'continue', 'in', 'as', 'ref', 'move', 'where', 'async', 'await', 'dyn', 'unsafe',
+      'type', 'true', 'false',
+    ],
+  },
+  go: {
+    label: 'Go',
+    extensions: ['go'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['`', '"', "'"],
+    keywords: [
+      'package', 'import', 'func', 'var', 'const', 'type', 'struct', 'interface', 'map', 'chan',
+      'return', 'if', 'else', 'for', 'range', 'switch', 'case', 'default', 'break', 'continue',
+      'go', 'defer', 'select', 'fallthrough', 'goto', 'nil', 'true', 'false',
+    ],
+  },
+  java: {
+    label: 'Java',
+    extensions: ['java'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"""', '"', "'"],
+    keywords: [
+      'class', 'interface', 'enum', 'record', 'extends', 'implements', 'package', 'import', 'public',
+      'private', 'protected', 'static', 'final', 'abstract', 'new', 'return', 'if', 'else', 'for',
+      'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'try', 'catch', 'finally',
+      'throw', 'throws', 'this', 'super', 'void', 'int', 'long', 'double', 'float', 'boolean',
+      'char', 'byte', 'short', 'var', 'null', 'true', 'false',
+    ],
+  },
+  kotlin: {
+    label: 'Kotlin',
+    extensions: ['kt', 'kts'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"""', '"', "'"],
+    keywords: [
+      'fun', 'val', 'var', 'class', 'object', 'interface', 'data', 'sealed', 'enum', 'companion',
+      'package', 'import', 'return', 'if', 'else', 'when', 'for', 'while', 'do', 'break', 'continue',
+      'try', 'catch', 'finally', 'throw', 'is', 'in', 'as', 'this', 'super', 'null', 'true', 'false',
+      'private', 'public', 'internal', 'override', 'suspend',
+    ],
+  },
+  c: {
+    label: 'C',
+    extensions: ['c', 'h'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: C_KEYWORDS,
+  },
+  cpp: {
+    label: 'C++',
+    extensions: ['cpp', 'cc', 'cxx', 'hpp', 'hh', 'hxx', 'cu'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: [
+      ...C_KEYWORDS, 'class', 'namespace', 'template', 'typename', 'public', 'private', 'protected',
+      'virtual', 'override', 'new', 'delete', 'this', 'using', 'auto', 'constexpr', 'nullptr',
+      'try', 'catch', 'throw',
+    ],
+  },
+  csharp: {
+    label: 'C#',
+    extensions: ['cs'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: [
+      'class', 'struct', 'interface', 'enum', 'record', 'namespace', 'using', 'public', 'private',
+      'protected', 'internal', 'static', 'readonly', 'const', 'new', 'return', 'if', 'else', 'for',
+      'foreach', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'try', 'catch',
+      'finally', 'throw', 'this', 'base', 'var', 'void', 'int', 'string', 'bool', 'async', 'await',
+      'null', 'true', 'false',
+    ],
+  },
+  shell: {
+    label: 'Shell',
+    extensions: ['sh', 'bash', 'zsh'],
+    lineComments: ['#'],
+    blockComment: null,
+    quotes: ['"', "'"],
+    keywords: [
+      'if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done', 'case', 'esac',
+      'in', 'function', 'return', 'local', 'export', 'readonly',
+    ],
+  },
+  sql: {
+    label: 'SQL',
+    extensions: ['sql'],
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    keywords: [
+      'SELECT', 'FROM', 'WHERE', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'ON', 'GROUP', 'BY',
+      'ORDER', 'HAVING', 'LIMIT', 'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE',
+      'TABLE', 'ALTER', 'DROP', 'INDEX', 'AND', 'OR', 'NOT', 'NULL', 'AS', 'DISTINCT', 'UNION', 'WITH',
+    ],
+  },
+  css: {
+    label: 'CSS',
+    extensions: ['css', 'scss', 'less'],
+    lineComments: [],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: ['important', 'media', 'import', 'keyframes', 'from', 'to'],
+  },
+  html: {
+    label: 'HTML',
+    extensions: ['html', 'htm', 'xml', 'svg', 'vue'],
+    lineComments: [],
+    blockComment: ['<!--', '-->'],
+    quotes: ['"'],
+    keywords: [],
+  },
+  json: {
+    label: 'JSON',
+    extensions: ['json', 'jsonc', 'jsonl'],
+    lineComments: [],
+    blockComment: null,
+    quotes: ['"'],
+    keywords: ['true', 'false', 'null'],
+  },
+  yaml: {
+    label: 'YAML',
+    extensions: ['yaml', 'yml'],
+    lineComments: ['#'],
+    blockComment: null,
+    quotes: ['"', "'"],
+    keywords: ['true', 'false', 'null', 'yes', 'no'],
+  },
+  toml: {
+    label: 'TOML',
+    extensions: ['toml'],
+    lineComments: ['#'],
+    blockComment: null,
+    quotes: ['"""', "'''", '"', "'"],
+    keywords: ['true', 'false'],
+  },
+  markdown: {
+    label: 'Markdown',
+    extensions: ['md', 'markdown'],
+    lineComments: [],
+    blockComment: ['<!--', '-->'],
+    quotes: [],
+    keywords: [],
+  },
+  plaintext: {
+    label: 'Plain Text',
+    extensions: ['txt'],
+    lineComments: [],
+    blockComment: null,
+    quotes: [],
+    keywords: [],
+  },
+}
+
+export const CODE_LANGUAGE_LABELS = Object.fromEntries(
+  Object.entries(LANGUAGES).map(([id, spec]) => [id, spec.label])
+) as Record<CodeLanguage, string>
+
+// Quotes that may continue onto the next line
+const MULTILINE_QUOTES = new Set(['`', '"""', "'''"])
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y
+const NUMBER = /(?:0x[\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)[a-zA-Z]*/y
+
+/**
+ * Language of a file name by its extension, or null if unknown
+ */
+export function getLanguageFromFileName(fileName: string): CodeLanguage | null {
+  const extension = fileName.toLowerCase().split('.').pop() ?? ''
+  for (const [id, spec] of Object.entries(LANGUAGES)) {
+    if (spec.extensions.includes(extension)) return id as CodeLanguage
+  }
+  return null
+}
+
+/**
+ * Tokens of each line of `text`; block comments and multi-line strings
+ * carry over from one line to the next
+ */
+export function tokenizeCode(text: string, language: CodeLanguage): SyntaxToken[][] {
+  const spec = LANGUAGES[language]
+  const keywords = new Set(language === 'sql' ? spec.keywords.map(k => k.toLowerCase()) : spec.keywords)
+  const highlightsIdentifiers = language !== 'markdown' && language !== 'plaintext'
+  let openBlock: string | null = null // End of the block comment we are inside
+  let openQuote: string | null = null // Quote of the multi-line string we are inside
+
+  return text.split('\n').map(line => {
+    const tokens: SyntaxToken[] = []
+    const push = (type: SyntaxTokenType, value: string) => {
+      if (!value) return
+      const last = tokens[tokens.length - 1]
+      if (last && last.type === type) last.text += value
+      else tokens.push({ type, text: value })
+    }
+
+    // Index after the closing quote, or -1 if the string runs past the line
+    const closeString = (from: number, quote: string): number => {
+      for (let i = from; i < line.length; i++) {
+        if (line[i] === '\\' && quote !== "'''") { i++; continue }
+        if (line.startsWith(quote, i)) return i + quote.length
+      }
+      return -1
+    }
+
+    let i = 0
+    while (i < line.length) {
+      if (openBlock) {
+        const end = line.indexOf(openBlock, i)
+        const stop = end < 0 ? line.length : end + openBlock.length
+        push('comment', line.slice(i, stop))
+        if (end >= 0) openBlock = null
+        i = stop
+        continue
+      }
+      if (openQuote) {
+        const end = closeString(i, openQuote)
+        const stop = end < 0 ? line.length : end
+        push('string', line.slice(i, stop))
+        if (end >= 0) openQuote = null
+        i = stop
+        continue
+      }
+
+      if (spec.lineComments.some(c => line.startsWith(c, i))) {
+        push('comment', line.slice(i))
+        break
+      }
+      if (spec.blockComment && line.startsWith(spec.blockComment[0], i)) {
+        openBlock = spec.blockComment[1]
+        push('comment', spec.blockComment[0])
+        i += spec.blockComment[0].length
+        continue
+      }
+
+      const quote = spec.quotes.find(q => line.startsWith(q, i))
+      if (quote) {
+        const end = closeString(i + quote.length, quote)
+        if (end < 0 && MULTILINE_QUOTES.has(quote)) openQuote = quote
+        const stop = end < 0 ? line.length : end
+        push('string', line.slice(i, stop))
+        i = stop
+        continue
+      }
+
+      const prev = i > 0 ? line[i - 1] : ''
+      if (!/[\w$]/.test(prev)) {
+        NUMBER.lastIndex = i
+        const number = NUMBER.exec(line)
+        if (number) {
+          push('number', number[0])
+          i += number[0].length
+          continue
+        }
+      }
+
+      IDENTIFIER.lastIndex = i
+      const identifier = !/[\w$]/.test(prev) ? IDENTIFIER.exec(line) : null
+      if (identifier) {
+        const word = identifier[0]
+        const end = i + word.length
+        let type: SyntaxTokenType = 'plain'
+        if (keywords.has(language === 'sql' ? word.toLowerCase() : word)) type = 'keyword'
+        else if (highlightsIdentifiers && /^\s*\(/.test(line.slice(end))) type = 'function'
+        else if (highlightsIdentifiers && /^[A-Z][a-z]/.test(word)) type = 'type'
+        push(type, word)
+        i = end
+        continue
+      }
+
+      push('plain', line[i])
+      i++
+    }
+
+    return tokens
+  })
+}
@@ -0,0 +1,114 @@
+/**
+ * Text Diff
+ * LCS diffs at character, word and line level, shared by the prompt diff
+ * and the subtitle comparison (SUB-001), plus code tokens for intra-line
+ * highlighting in the code diff (CODE-001).
+ */
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+  lineNumber?: number
+}
+
+/**
+ * LCS diff of two token lists, runs of the same type merged
+ */
+function diffTokens(tokensA: string[], tokensB: string[]): DiffPart[] {
+  const result: DiffPart[] = []
+  const m = tokensA.length
+  const n = tokensB.length
+  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0))
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      if (tokensA[i - 1] === tokensB[j - 1]) {
+        dp[i][j] = dp[i - 1][j - 1] + 1
+      } else {
+        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1])
+      }
+    }
+  }
+
+  let i = m, j = n
+  const parts: DiffPart[] = []
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && tokensA[i - 1] === tokensB[j - 1]) {
+      parts.unshift({ type: 'equal', text: tokensA[i - 1] })
+      i--; j--
+    } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
+      parts.unshift({ type: 'added', text: tokensB[j - 1] })
+      j--
+    } else if (i > 0) {
+      parts.unshift({ type: 'removed', text: tokensA[i - 1] })
+      i--
+    }
+  }
+
+  for (const part of parts) {
+    if (result.length > 0 && result[result.length - 1].type === part.type) {
+      result[result.length - 1].text += part.text
+    } else {
+      result.push({ ...part })
+    }
+  }
+  return result
+}
+
+// Character-level diff using LCS
+export function computeCharDiff(textA: string, textB: string): DiffPart[] {
+  return diffTokens(textA.split(''), textB.split(''))
+}
+
+// Word-level diff
+export function computeWordDiff(textA: string, textB: string): DiffPart[] {
+  return diffTokens(textA.split(/(\s+)/), textB.split(/(\s+)/))
+}
+
+// CODE-001: Code token diff (identifiers, whitespace runs, punctuation)
+function splitCodeTokens(text: string): string[] {
+  return text.split(/(\w+|\s+)/).filter(Boolean)
+}
+
+export function computeCodeTokenDiff(textA: string, textB: string): DiffPart[] {
+  return diffTokens(splitCodeTokens(textA), splitCodeTokens(textB))
+}
+
+// Line-level diff
+export function computeLineDiff(textA: string, textB: string): DiffPart[] {
+  const linesA = textA.split('\n')
+  const linesB = textB.split('\n')
+  const m = linesA.length
+  const n = linesB.length
+  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0))
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      if (linesA[i - 1] === linesB[j - 1]) {
+        dp[i][j] = dp[i - 1][j - 1] + 1
+      } else {
+        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1])
+      }
+    }
+  }
+
+  let i = m, j = n
+  const parts: DiffPart[] = []
+  let lineNumA = linesA.length
+  let lineNumB = linesB.length
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && linesA[i - 1] === linesB[j - 1]) {
+      parts.unshift({ type: 'equal', text: linesA[i - 1] + '\n', lineNumber: lineNumA })
+      i--; j--; lineNumA--; lineNumB--
+    } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
+      parts.unshift({ type: 'added', text: linesB[j - 1] + '\n', lineNumber: lineNumB })
+      j--; lineNumB--
+    } else if (i > 0) {
+      parts.unshift({ type: 'removed', text: linesA[i - 1] + '\n', lineNumber: lineNumA })
+      i--; lineNumA--
+    }
+  }
+  return parts
+}
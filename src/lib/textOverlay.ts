@@ -0,0 +1,157 @@
+/**
+ * Text Overlay Rendering
+ * TEXT-001: Draws caption/title text elements onto a 2D canvas. The live
+ * preview overlay and the MP4/WebM/GIF burn-in both render through here,
+ * so exported labels match what was placed in the preview. Font sizes are
+ * stored in pixels of a 1080p frame and scaled to the target height.
+ */
+
+import type { TextElement, TimelineTrack } from '../types'
+
+export type TextAnimation = NonNullable<TextElement['animation']>
+
+// Frame height the stored font sizes refer to
+export const TEXT_REFERENCE_HEIGHT = 1080
+
+export const TEXT_FONT_FAMILIES: { value: string; label: string }[] = [
+  { value: 'Inter, system-ui, sans-serif', label: 'Sans' },
+  { value: 'Georgia, "Times New Roman", serif', label: 'Serif' },
+  { value: '"JetBrains Mono", ui-monospace, monospace', label: 'Mono' },
+  { value: 'Impact, "Arial Black", sans-serif', label: 'Impact' },
+]
+
+export const TEXT_ANIMATION_LABELS: Record<TextAnimation, string> = {
+  none: 'None',
+  fade: 'Fade',
+  'slide-up': 'Slide up',
+  'slide-down': 'Slide down',
+  typewriter: 'Typewriter',
+}
+
+// Length of fade / slide transitions, capped to a third of the element
+const TRANSITION_SECONDS = 0.3
+
+// Distance slides travel, as a fraction of the frame height
+const SLIDE_DISTANCE = 0.05
+
+// Typewriter speed, capped so the text is complete by half the element
+const TYPEWRITER_SECONDS_PER_CHAR = 0.05
+
+// Background boxes are translucent so the picture stays visible
+const BACKGROUND_OPACITY = 0.6
+
+const LINE_HEIGHT = 1.2
+
+export interface TextAnimationState {
+  opacity: number
+  offsetY: number // Fraction of the frame height
+  visibleChars: number
+}
+
+/**
+ * Opacity, vertical offset and revealed characters of an element at a
+ * timeline time inside its range
+ */
+export function getTextAnimationState(element: TextElement, time: number): TextAnimationState {
+  const duration = element.endTime - element.startTime
+  const elapsed = time - element.startTime
+  const remaining = element.endTime - time
+  const transition = Math.min(TRANSITION_SECONDS, duration / 3)
+  const fadeIn = transition > 0 ? Math.min(1, elapsed / transition) : 1
+  const fadeOut = transition > 0 ? Math.min(1, remaining / transition) : 1
+
+  const state: TextAnimationState = { opacity: 1, offsetY: 0, visibleChars: element.text.length }
+  switch (element.animation ?? 'none') {
+    case 'fade':
+      state.opacity = Math.max(0, Math.min(fadeIn, fadeOut))
+      break
+    case 'slide-up':
+    case 'slide-down': {
+      const direction = element.animation === 'slide-up' ? 1 : -1
+      const eased = 1 - Math.pow(1 - Math.max(0, fadeIn), 3)
+      state.offsetY = direction * SLIDE_DISTANCE * (1 - eased)
+      state.opacity = Math.max(0, Math.min(fadeIn, fadeOut))
+      break
+    }
+    case 'typewriter': {
+      const typing = Math.min(element.text.length * TYPEWRITER_SECONDS_PER_CHAR, duration / 2)
+      state.visibleChars = typing > 0
+        ? Math.min(element.text.length, Math.ceil((elapsed / typing) * element.text.length))
+        : element.text.length
+      break
+    }
+  }
+  return state
+}
+
+/**
+ * Elements that are rendered: on an existing text track that is not muted
+ */
+export function filterRenderableTextElements(elements: TextElement[], tracks: TimelineTrack[]): TextElement[] {
+  const visibleTrackIds = new Set(tracks.filter(t => t.type === 'text' && !t.muted).map(t => t.id))
+  return elements.filter(e => visibleTrackIds.has(e.trackId))
+}
+
+export function isTextElementActive(element: TextElement, time: number): boolean {
+  return time >= element.startTime && time < element.endTime
+}
+
+function drawTextElement(ctx: CanvasRenderingContext2D, element: TextElement, time: number, width: number, height: number) {
+  const { opacity, offsetY, visibleChars } = getTextAnimationState(element, time)
+  if (opacity <= 0 || !element.text) return
+
+  const fontSize = element.fontSize * (height / TEXT_REFERENCE_HEIGHT)
+  const lineHeight = fontSize * LINE_HEIGHT
+  const allLines = element.text.split('\n')
+  const shownLines = element.text.slice(0, visibleChars).split('\n')
+
+  const x = (element.positionX / 100) * width
+  const centerY = (element.positionY / 100 + offsetY) * height
+  const top = centerY - (allLines.length * lineHeight) / 2
+
+  ctx.save()
+  ctx.globalAlpha = opacity
+  ctx.font = `${element.fontStyle} ${element.fontWeight} ${fontSize}px ${element.fontFamily}`
+  ctx.textAlign = element.textAlign
+  ctx.textBaseline = 'middle'
+
+  if (element.backgroundColor) {
+    // Sized to the full text so the box does not grow while typing
+    const textWidth = Math.max(...allLines.map(line => ctx.measureText(line).width))
+    const padding = fontSize * 0.3
+    const left = element.textAlign === 'left' ? x
+      : element.textAlign === 'right' ? x - textWidth
+      : x - textWidth / 2
+    ctx.globalAlpha = opacity * BACKGROUND_OPACITY
+    ctx.fillStyle = element.backgroundColor
+    ctx.fillRect(left - padding, top - padding / 2, textWidth + padding * 2, allLines.length * lineHeight + padding)
+    ctx.globalAlpha = opacity
+  } else {
+    // Without a box a soft shadow keeps light text readable on bright frames
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.7)'
+    ctx.shadowBlur = fontSize * 0.15
+  }
+
+  ctx.fillStyle = element.color
+  shownLines.forEach((line, i) => {
+    ctx.fillText(line, x, top + lineHeight * (i + 0.5))
+  })
+  ctx.restore()
+}
+
+/**
+ * Draw every element active at `time` over a frame of width × height
+ */
+export function drawTextElements(
+  ctx: CanvasRenderingContext2D,
+  elements: TextElement[],
+  time: number,
+  width: number,
+  height: number
+) {
+  for (const element of elements) {
+    if (isTextElementActive(element, time)) {
+      drawTextElement(ctx, element, time, width, height)
+    }
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * TIFF Decoder
+ * BITDEPTH-001: Baseline TIFF (first page) at 8 or 16 bits per sample:
+ * greyscale, RGB(A) and palette images, strips or tiles, chunky or planar,
+ * uncompressed / LZW / Deflate / PackBits with horizontal predictor.
+ * Browsers cannot display TIFF at all, so every TIFF goes through here.
+ */
+
+import { inflate } from './pngDecoder'
+import type { HighBitDepthImage } from './highBitDepthImage'
+
+const TAG = {
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  Photometric: 262,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  PlanarConfiguration: 284,
+  Predictor: 317,
+  ColorMap: 320,
+  TileWidth: 322,
+  TileLength: 323,
+  TileOffsets: 324,
+  TileByteCounts: 325,
+  SampleFormat: 339,
+} as const
+
+export const TIFF_COMPRESSION_NAMES: Record<number, string> = {
+  1: 'none',
+  5: 'LZW',
+  8: 'Deflate',
+  32773: 'PackBits',
+  32946: 'Deflate',
+}
+
+// Byte size of each IFD field type
+const FIELD_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 }
+
+export interface TIFFDecodeResult extends HighBitDepthImage {
+  channels: number
+  compression: string
+}
+
+/**
+ * True when the bytes start with a classic TIFF header
+ */
+export function isTIFF(bytes: Uint8Array): boolean {
+  return (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42)
+}
+
+/**
+ * Read the tags of the first IFD as number arrays
+ */
+function readIFD(view: DataView, little: boolean): Map<number, number[]> {
+  const tags = new Map<number, number[]>()
+  const ifd = view.getUint32(4, little)
+  const count = view.getUint16(ifd, little)
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12
+    const tag = view.getUint16(entry, little)
+    const type = view.getUint16(entry + 2, little)
+    const n = view.getUint32(entry + 4, little)
+    const size = FIELD_SIZES[type]
+    if (!size) continue
+
+    const at = size * n <= 4 ? entry + 8 : view.getUint32(entry + 8, little)
+    const values: number[] = []
+    for (let k = 0; k < n; k++) {
+      const o = at + k * size
+      switch (type) {
+        case 3: values.push(view.getUint16(o, little)); break
+        case 4: values.push(view.getUint32(o, little)); break
+        case 5: values.push(view.getUint32(o, little) / (view.getUint32(o + 4, little) || 1)); break
+        default: if (size === 1) values.push(view.getUint8(o))
+      }
+    }
+    tags.set(tag, values)
+  }
+
+  return tags
+}
+
+/**
+ * TIFF LZW (MSB-first codes, 9-12 bits, early code width change)
+ */
+function decodeLZW(input: Uint8Array, expected: number): Uint8Array {
+  const out = new Uint8Array(expected)
+  let outPos = 0
+  const table: Uint8Array[] = []
+  const reset = () => {
+    table.length = 258
+    for (let i = 0; i < 256; i++) table[i] = new Uint8Array([i])
+  }
+  reset()
+
+  let bitPos = 0
+  let width = 9
+  let prev: Uint8Array | null = null
+  const totalBits = input.length * 8
+
+  while (bitPos + width <= totalBits && outPos < expected) {
+    let code = 0
+    for (let b = 0; b < width; b++) {
+      const bit = (input[(bitPos + b) >> 3] >> (7 - ((bitPos + b) & 7))) & 1
+      code = (code << 1) | bit
+    }
+    bitPos += width
+
+    if (code === 256) {
+      reset()
+      width = 9
+      prev = null
+      continue
+    }
+    if (code === 257) break
+
+    let entry: Uint8Array
+    if (code < table.length) {
+      entry = table[code]
+      if (prev) {
+        const next = new Uint8Array(prev.length + 1)
+        next.set(prev)
+        next[prev.length] = entry[0]
+        table.push(next)
+      }
+    } else if (prev) {
+      entry = new Uint8Array(prev.length + 1)
+      entry.set(prev)
+      entry[prev.length] = prev[0]
+      table.push(entry)
+    } else {
+      throw new Error('Corrupt LZW data')
+    }
+
+    out.set(entry.subarray(0, expected - outPos), outPos)
+    outPos += entry.length
+    prev = entry
+
+    if (table.length + 1 >= 1 << width && width < 12) width++
+  }
+
+  return out
+}
+
+/**
+ * PackBits run-length decoding
+ */
+function decodePackBits(input: Uint8Array, expected: number): Uint8Array {
+  const out = new Uint8Array(expected)
+  let i = 0
+  let o = 0
+  while (i < input.length && o < expected) {
+    const n = (input[i++] << 24) >> 24
+    if (n >= 0) {
+      out.set(input.subarray(i, i + n + 1).subarray(0, expected - o), o)
+      i += n + 1
+      o += n + 1
+    } else if (n !== -128) {
+      out.fill(input[i++], o, Math.min(expected, o + 1 - n))
+      o += 1 - n
+    }
+  }
+  return out
+}
+
+async function decompress(input: Uint8Array, compression: number, expected: number): Promise<Uint8Array> {
+  switch (compression) {
+    case 1: return input
+    case 5: return decodeLZW(input, expected)
+    case 8:
+    case 32946: return inflate(input)
+    case 32773: return decodePackBits(input, expected)
+    default: throw new Error(`Unsupported TIFF compression ${compression}`)
+  }
+}
+
+/**
+ * Decode the first page of a TIFF to RGBA samples at its own bit depth
+ */
+export async function decodeTIFF(bytes: Uint8Array): Promise<TIFFDecodeResult> {
+  if (!isTIFF(bytes)) throw new Error('Not a TIFF file (BigTIFF is not supported)')
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const little = bytes[0] === 0x49
+  const tags = readIFD(view, little)
+  const tag = (id: number, fallback: number) => tags.get(id)?.[0] ?? fallback
+
+  const width = tag(TAG.ImageWidth, 0)
+  const height = tag(TAG.ImageLength, 0)
+  const samplesPerPixel = tag(TAG.SamplesPerPixel, 1)
+  const bits = tags.get(TAG.BitsPerSample) ?? [1]
+  const bitsPerSample = bits[0]
+  const compression = tag(TAG.Compression, 1)
+  const photometric = tag(TAG.Photometric, samplesPerPixel >= 3 ? 2 : 1)
+  const planar = tag(TAG.PlanarConfiguration, 1) === 2
+  const predictor = tag(TAG.Predictor, 1)
+  const sampleFormat = tag(TAG.SampleFormat, 1)
+
+  if (!width || !height) throw new Error('TIFF has no image size')
+  if ((bitsPerSample !== 8 && bitsPerSample !== 16) || bits.some(b => b !== bitsPerSample)) {
+    throw new Error(`Unsupported TIFF sample size ${bits.join('/')}-bit`)
+  }
+  if (sampleFormat !== 1) throw new Error('Only unsigned integer TIFF samples are supported')
+  if (![0, 1, 2, 3].includes(photometric)) throw new Error(`Unsupported TIFF photometric interpretation ${photometric}`)
+  if (photometric === 2 && samplesPerPixel < 3) throw new Error('RGB TIFF needs three samples per pixel')
+
+  // Strip or tile layout
+  const tiled = tags.has(TAG.TileOffsets)
+  const offsets = tags.get(tiled ? TAG.TileOffsets : TAG.StripOffsets) ?? []
+  const byteCounts = tags.get(tiled ? TAG.TileByteCounts : TAG.StripByteCounts) ?? []
+  const chunkWidth = tiled ? tag(TAG.TileWidth, width) : width
+  const chunkHeight = tiled ? tag(TAG.TileLength, height) : Math.min(tag(TAG.RowsPerStrip, height), height)
+  const across = Math.ceil(width / chunkWidth)
+  const chunksPerPlane = across * Math.ceil(height / chunkHeight)
+  const bytesPerSample = bitsPerSample / 8
+
+  // Samples as stored, pixel-interleaved
+  const samples = new Uint16Array(width * height * samplesPerPixel)
+
+  for (let k = 0; k < offsets.length; k++) {
+    const plane = planar ? Math.floor(k / chunksPerPlane) : 0
+    const index = planar ? k % chunksPerPlane : k
+    const x0 = (index % across) * chunkWidth
+    const y0 = Math.floor(index / across) * chunkHeight
+    const rows = tiled ? chunkHeight : Math.min(chunkHeight, height - y0)
+    const perPixel = planar ? 1 : samplesPerPixel
+    const rowSamples = chunkWidth * perPixel
+    const expected = rowSamples * rows * bytesPerSample
+
+    const raw = await decompress(bytes.subarray(offsets[k], offsets[k] + (byteCounts[k] ?? expected)), compression, expected)
+    const chunkView = new DataView(raw.buffer, raw.byteOffset, raw.byteLength)
+
+    for (let y = 0; y < rows; y++) {
+      const row = new Uint16Array(rowSamples)
+      for (let i = 0; i < rowSamples; i++) {
+        const o = (y * rowSamples + i) * bytesPerSample
+        if (o + bytesPerSample > raw.length) break
+        row[i] = bytesPerSample === 2 ? chunkView.getUint16(o, little) : raw[o]
+      }
+      if (predictor === 2) {
+        const mask = bitsPerSample === 16 ? 0xffff : 0xff
+        for (let i = perPixel; i < rowSamples; i++) row[i] = (row[i] + row[i - perPixel]) & mask
+      }
+
+      const py = y0 + y
+      if (py >= height) break
+      for (let x = 0; x < chunkWidth && x0 + x < width; x++) {
+        const to = (py * width + x0 + x) * samplesPerPixel
+        if (planar) {
+          samples[to + plane] = row[x]
+        } else {
+          for (let s = 0; s < samplesPerPixel; s++) samples[to + s] = row[x * samplesPerPixel + s]
+        }
+      }
+    }
+  }
+
+  // Expand to RGBA
+  const max = (1 << bitsPerSample) - 1
+  const colorMap = photometric === 3 ? tags.get(TAG.ColorMap) : undefined
+  if (photometric === 3 && (!colorMap || colorMap.length < 3 * (max + 1))) throw new Error('Palette TIFF has no colour map')
+
+  const outMax = colorMap ? 65535 : max
+  const data = new Uint16Array(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    const s = i * samplesPerPixel
+    const o = i * 4
+    if (colorMap) {
+      const entry = samples[s]
+      data[o] = colorMap[entry]
+      data[o + 1] = colorMap[max + 1 + entry]
+      data[o + 2] = colorMap[2 * (max + 1) + entry]
+      data[o + 3] = outMax
+    } else if (photometric === 2) {
+      data[o] = samples[s]
+      data[o + 1] = samples[s + 1]
+      data[o + 2] = samples[s + 2]
+      data[o + 3] = samplesPerPixel > 3 ? samples[s + 3] : outMax
+    } else {
+      const grey = photometric === 0 ? max - samples[s] : samples[s]
+      data[o] = data[o + 1] = data[o + 2] = grey
+      data[o + 3] = samplesPerPixel > 1 ? samples[s + 1] : outMax
+    }
+  }
+
+  return {
+    width,
+    height,
+    bitDepth: colorMap ? 16 : bitsPerSample,
+    data,
+    channels: colorMap ? 3 : samplesPerPixel,
+    compression: TIFF_COMPRESSION_NAMES[compression] ?? String(compression),
+  }
+}
@@ -0,0 +1,973 @@
+/**
+ * Timeline Interchange
+ * INTERCHANGE-001: CMX3600 EDL, FCPXML and OpenTimelineIO JSON read into
+ * and written from a neutral timeline of picture and sound tracks, clips
+ * with source in/out points, speed and reverse, and markers. Media is
+ * referred to by file name; matching it to the library is left to the UI.
+ */
+
+import { DEFAULT_FRAME_RATE } from './utils'
+import type {
+  InterchangeClip,
+  InterchangeFormat,
+  InterchangeMarker,
+  InterchangeTimeline,
+  InterchangeTrack,
+  MediaFile,
+  TimelineTrack,
+} from '../types'
+
+export const INTERCHANGE_FORMAT_LABELS: Record<InterchangeFormat, string> = {
+  edl: 'CMX3600 EDL',
+  fcpxml: 'FCPXML',
+  otio: 'OpenTimelineIO',
+}
+
+export const INTERCHANGE_EXTENSIONS: Record<InterchangeFormat, string> = {
+  edl: 'edl',
+  fcpxml: 'fcpxml',
+  otio: 'otio',
+}
+
+// File input accept list (.xml and .json are recognised by their content)
+export const INTERCHANGE_ACCEPT = '.edl,.fcpxml,.xml,.otio,.json'
+
+// Marker colour names used by EDL locators and OpenTimelineIO
+const MARKER_COLORS: Record<string, string> = {
+  RED: '#ef4444',
+  PINK: '#ec4899',
+  ORANGE: '#f97316',
+  YELLOW: '#eab308',
+  GREEN: '#22c55e',
+  CYAN: '#06b6d4',
+  BLUE: '#3b82f6',
+  PURPLE: '#a855f7',
+  MAGENTA: '#d946ef',
+  BLACK: '#000000',
+  WHITE: '#ffffff',
+}
+
+const DEFAULT_MARKER_COLOR = 'RED'
+
+// Record timecode of exported EDLs starts at 01:00:00:00 like Resolve and Premiere
+const EDL_RECORD_START_HOURS = 1
+
+// An EDL holds one picture track and up to four sound channels
+const EDL_AUDIO_CHANNELS = 4
+
+// Reels for black slugs, which are not media
+const EDL_BLACK_REELS = new Set(['BL', 'BLK', 'BLACK'])
+
+/**
+ * Interchange format of a file, from its extension or (for .xml / .json)
+ * its content; null if it is not a timeline
+ */
+export function detectInterchangeFormat(fileName: string, content: string): InterchangeFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop()
+  if (extension === 'edl') return 'edl'
+  if (extension === 'fcpxml') return 'fcpxml'
+  if (extension === 'otio') return 'otio'
+
+  const trimmed = content.trimStart()
+  if (trimmed.startsWith('<')) return /<fcpxml[\s>]/.test(trimmed) ? 'fcpxml' : null
+  if (trimmed.startsWith('{')) return /"OTIO_SCHEMA"\s*:\s*"Timeline\./.test(trimmed) ? 'otio' : null
+  if (/^TITLE:/m.test(trimmed) || /^\d{3,6}\s+\S+\s+\S+\s+[CDWK]/m.test(trimmed)) return 'edl'
+  return null
+}
+
+/**
+ * Parse a timeline file. The frame rate is used for EDL timecodes, which do
+ * not carry one; FCPXML and OpenTimelineIO use their own.
+ */
+export function parseInterchange(content: string, format: InterchangeFormat, frameRate: number): InterchangeTimeline {
+  switch (format) {
+    case 'edl': return parseEDL(content, frameRate)
+    case 'fcpxml': return parseFCPXML(content)
+    case 'otio': return parseOTIO(content)
+  }
+}
+
+export function serializeInterchange(timeline: InterchangeTimeline, format: InterchangeFormat): string {
+  switch (format) {
+    case 'edl': return serializeEDL(timeline)
+    case 'fcpxml': return serializeFCPXML(timeline)
+    case 'otio': return serializeOTIO(timeline)
+  }
+}
+
+/**
+ * Neutral timeline of the clip tracks in track order (text tracks have no
+ * equivalent in these formats). Clips whose media is gone are left out.
+ */
+export function buildInterchangeTimeline(
+  name: string,
+  frameRate: number,
+  tracks: TimelineTrack[],
+  markers: InterchangeMarker[],
+  files: Pick<MediaFile, 'id' | 'name' | 'duration' | 'width' | 'height'>[]
+): InterchangeTimeline {
+  const filesById = new Map(files.map(f => [f.id, f]))
+  const clipTracks = tracks.filter(t => t.type !== 'text')
+
+  const picture = clipTracks
+    .filter(t => t.type !== 'audio')
+    .flatMap(t => t.clips.map(c => filesById.get(c.mediaId)))
+    .find(media => media?.width && media.height)
+
+  return {
+    name,
+    frameRate,
+    width: picture?.width,
+    height: picture?.height,
+    tracks: clipTracks.map(track => ({
+      name: track.name,
+      kind: track.type === 'audio' ? 'audio' : 'video',
+      clips: [...track.clips]
+        .sort((a, b) => a.startTime - b.startTime)
+        .flatMap(clip => {
+          const media = filesById.get(clip.mediaId)
+          if (!media) return []
+          return [{
+            name: clip.label || media.name,
+            sourceName: media.name,
+            startTime: clip.startTime,
+            endTime: clip.endTime,
+            inPoint: clip.inPoint,
+            outPoint: clip.outPoint,
+            speed: clip.speed,
+            reverse: clip.reverse,
+            mediaDuration: media.duration,
+          }]
+        }),
+    })),
+    markers: markers.map(({ time, label, color }) => ({ time, label, color })),
+  }
+}
+
+/**
+ * Library file for a clip's source: same file name, then same name without
+ * extension (EDL reels and clip names often drop it). Case-insensitive.
+ */
+export function matchMediaFile(sourceName: string, files: Pick<MediaFile, 'id' | 'name'>[]): string | null {
+  const name = normalizeName(sourceName)
+  if (!name) return null
+  const exact = files.find(f => normalizeName(f.name) === name)
+  if (exact) return exact.id
+  const stem = stripExtension(name)
+  return files.find(f => stripExtension(normalizeName(f.name)) === stem)?.id ?? null
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+function fileNameFromPath(path: string): string {
+  const name = path.split(/[?#]/)[0].split(/[\\/]/).pop() ?? path
+  try {
+    return decodeURIComponent(name)
+  } catch {
+    return name
+  }
+}
+
+function normalizeName(name: string): string {
+  return fileNameFromPath(name).trim().toLowerCase()
+}
+
+function stripExtension(name: string): string {
+  return name.replace(/\.[^.]+$/, '')
+}
+
+function markerColorFromName(name: string | undefined): string | undefined {
+  if (!name) return undefined
+  return MARKER_COLORS[name.toUpperCase().replace(/^RESOLVECOLOR/, '')]
+}
+
+// Nearest named colour, since both formats only know a fixed palette
+function markerColorName(color: string | undefined): string {
+  const match = color ? /^#?([0-9a-f]{6})$/i.exec(color) : null
+  if (!match) return DEFAULT_MARKER_COLOR
+  const rgb = (hex: string) => [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16))
+  const [r, g, b] = rgb(match[1])
+  let best = DEFAULT_MARKER_COLOR
+  let bestDistance = Infinity
+  for (const [name, hex] of Object.entries(MARKER_COLORS)) {
+    const [r2, g2, b2] = rgb(hex.slice(1))
+    const distance = (r - r2) ** 2 + (g - g2) ** 2 + (b - b2) ** 2
+    if (distance < bestDistance) {
+      best = name
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+function sortClips(clips: InterchangeClip[]): InterchangeClip[] {
+  return clips.sort((a, b) => a.startTime - b.startTime)
+}
+
+/**
+ * Source range of a clip that starts reading `sourceStart` and consumes
+ * `consumed` seconds; reversed clips read backwards from `sourceStart`
+ */
+function sourceRange(sourceStart: number, consumed: number, rate: number): Pick<InterchangeClip, 'inPoint' | 'outPoint' | 'speed' | 'reverse'> {
+  const reverse = rate < 0
+  const speed = Math.abs(rate)
+  return {
+    inPoint: Math.max(0, reverse ? sourceStart - consumed : sourceStart),
+    outPoint: reverse ? sourceStart : sourceStart + consumed,
+    speed: speed !== 1 ? speed : undefined,
+    reverse: reverse || undefined,
+  }
+}
+
+function clipRate(clip: InterchangeClip): number {
+  return (clip.speed ?? 1) * (clip.reverse ? -1 : 1)
+}
+
+// ---------------------------------------------------------------------------
+// CMX3600 EDL
+// ---------------------------------------------------------------------------
+
+interface EDLEvent {
+  reel: string
+  channels: string
+  sourceIn: number // Frames
+  sourceOut: number
+  recordIn: number
+  recordOut: number
+  recordTimecode: string
+  speed?: number // Source frames per second from an M2 line
+  clipName?: string
+  sourceFile?: string
+}
+
+function isDropFrameRate(frameRate: number): boolean {
+  const nominal = Math.round(frameRate)
+  return (nominal === 30 || nominal === 60) && Math.abs(frameRate - nominal) > 0.01
+}
+
+function timecodeToFrames(timecode: string, frameRate: number, dropFrame: boolean): number | null {
+  const match = /^(\d{1,2}):(\d{2}):(\d{2})([:;.,])(\d{2,3})$/.exec(timecode)
+  if (!match) return null
+  const [, hours, minutes, seconds, separator, frames] = match
+  const nominal = Math.round(frameRate)
+  const totalMinutes = Number(hours) * 60 + Number(minutes)
+  let count = (totalMinutes * 60 + Number(seconds)) * nominal + Number(frames)
+  if ((dropFrame || separator === ';' || separator === ',') && isDropFrameRate(frameRate)) {
+    // Drop-frame skips the first frame numbers of every minute but each tenth
+    count -= (nominal / 15) * (totalMinutes - Math.floor(totalMinutes / 10))
+  }
+  return count
+}
+
+function framesToTimecode(frames: number, frameRate: number): string {
+  const nominal = Math.round(frameRate)
+  const count = Math.max(0, Math.round(frames))
+  const totalSeconds = Math.floor(count / nominal)
+  const pad = (n: number) => n.toString().padStart(2, '0')
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}:${pad(count % nominal)}`
+}
+
+// V, A, A2, AA (A1 + A2), B (V + A1) and combinations like AA/V
+function parseEDLChannels(token: string): { video: boolean; audio: number[] } {
+  let video = false
+  const audio: number[] = []
+  for (const part of token.toUpperCase().split('/')) {
+    if (part === 'V') {
+      video = true
+    } else if (part === 'B') {
+      video = true
+      audio.push(1)
+    } else if (part === 'AA') {
+      audio.push(1, 2)
+    } else {
+      const match = /^A(\d)?$/.exec(part)
+      if (match) audio.push(Number(match[1] ?? 1))
+    }
+  }
+  return { video, audio }
+}
+
+function parseEDL(content: string, frameRate: number): InterchangeTimeline {
+  let name = 'EDL'
+  let dropFrame = false
+  const events: EDLEvent[] = []
+  const locators: { timecode: string; color?: string; label: string }[] = []
+  const toFrames = (timecode: string) => timecodeToFrames(timecode, frameRate, dropFrame)
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line) continue
+
+    if (/^TITLE:/i.test(line)) {
+      name = line.slice(6).trim() || name
+      continue
+    }
+    if (/^FCM:/i.test(line)) {
+      dropFrame = !/NON/i.test(line) && /DROP/i.test(line)
+      continue
+    }
+
+    const comment = /^\*\s*(.*)$/.exec(line)
+    if (comment) {
+      const text = comment[1]
+      const last = events[events.length - 1]
+      const clipName = /^FROM CLIP NAME:\s*(.+)$/i.exec(text)
+      const sourceFile = /^SOURCE FILE:\s*(.+)$/i.exec(text)
+      const locator = /^LOC:\s*(\S+)\s+(\S+)\s*(.*)$/i.exec(text)
+      if (clipName && last) last.clipName = clipName[1].trim()
+      else if (sourceFile && last) last.sourceFile = sourceFile[1].trim()
+      else if (locator) {
+        const color = markerColorFromName(locator[2])
+        // An unknown colour word is part of the label
+        const label = color ? locator[3] : `${locator[2]} ${locator[3]}`
+        locators.push({ timecode: locator[1], color, label: label.trim() })
+      }
+      continue
+    }
+
+    // Motion effect: M2 <reel> <source fps, negative for reverse> <source in>
+    const motion = /^M2\s+(\S+)\s+(-?\d+(?:\.\d+)?)\s/i.exec(line)
+    if (motion) {
+      const event = [...events].reverse().find(e => e.reel === motion[1])
+      if (event) event.speed = Number(motion[2])
+      continue
+    }
+
+    const tokens = line.split(/\s+/)
+    if (!/^\d+$/.test(tokens[0]) || tokens.length < 8) continue
+    const [sourceIn, sourceOut, recordIn, recordOut] = tokens.slice(-4).map(toFrames)
+    if (sourceIn === null || sourceOut === null || recordIn === null || recordOut === null) continue
+    events.push({ reel: tokens[1], channels: tokens[2], sourceIn, sourceOut, recordIn, recordOut, recordTimecode: tokens[tokens.length - 2] })
+  }
+
+  const clipEvents = events.filter(e => e.recordOut > e.recordIn && !EDL_BLACK_REELS.has(e.reel.toUpperCase()))
+
+  // Start the timeline at the hour of the first record timecode (usually 01:00:00:00)
+  const first = clipEvents.reduce<EDLEvent | null>((earliest, e) => (!earliest || e.recordIn < earliest.recordIn ? e : earliest), null)
+  const recordOffset = first ? toFrames(`${first.recordTimecode.split(/[:;.,]/)[0]}:00:00:00`) ?? 0 : 0
+
+  const video: InterchangeClip[] = []
+  const audio = new Map<number, InterchangeClip[]>()
+  for (const event of clipEvents) {
+    const recordFrames = event.recordOut - event.recordIn
+    // Freeze frames (speed 0) are placed at normal speed
+    const rate = event.speed ? event.speed / frameRate : 1
+    const consumed = event.speed ? recordFrames * Math.abs(rate) : event.sourceOut - event.sourceIn
+    const clip: InterchangeClip = {
+      name: event.clipName ?? event.reel,
+      sourceName: event.sourceFile ?? event.clipName ?? event.reel,
+      startTime: (event.recordIn - recordOffset) / frameRate,
+      endTime: (event.recordOut - recordOffset) / frameRate,
+      ...sourceRange(event.sourceIn / frameRate, consumed / frameRate, rate),
+    }
+
+    const channels = parseEDLChannels(event.channels)
+    if (channels.video) video.push(clip)
+    for (const channel of channels.audio) {
+      audio.set(channel, [...(audio.get(channel) ?? []), { ...clip }])
+    }
+  }
+
+  const tracks: InterchangeTrack[] = []
+  if (video.length > 0) tracks.push({ name: 'V1', kind: 'video', clips: sortClips(video) })
+  for (const channel of [...audio.keys()].sort((a, b) => a - b)) {
+    tracks.push({ name: `A${channel}`, kind: 'audio', clips: sortClips(audio.get(channel) ?? []) })
+  }
+
+  const markers = locators.flatMap(({ timecode, color, label }) => {
+    const frames = toFrames(timecode)
+    return frames === null ? [] : [{ time: Math.max(0, (frames - recordOffset) / frameRate), label, color }]
+  })
+
+  return { name, frameRate, tracks, markers }
+}
+
+function formatM2Speed(sourceFps: number): string {
+  return `${sourceFps < 0 ? '-' : ''}${Math.abs(sourceFps).toFixed(1).padStart(5, '0')}`
+}
+
+function serializeEDL(timeline: InterchangeTimeline): string {
+  const { frameRate } = timeline
+  const toFrames = (seconds: number) => Math.round(seconds * frameRate)
+  const timecode = (frames: number) => framesToTimecode(frames, frameRate)
+  const recordStart = Math.round(frameRate) * 3600 * EDL_RECORD_START_HOURS
+  const reel = 'AX' // File-based media, identified by the clip name comments
+
+  const picture = timeline.tracks.find(t => t.kind === 'video')
+  const sound = timeline.tracks.filter(t => t.kind === 'audio').slice(0, EDL_AUDIO_CHANNELS)
+  const entries = [
+    ...(picture?.clips.map(clip => ({ clip, channel: 'V' })) ?? []),
+    ...sound.flatMap((track, i) => track.clips.map(clip => ({ clip, channel: i === 0 ? 'A' : `A${i + 1}` }))),
+  ].sort((a, b) => a.clip.startTime - b.clip.startTime)
+
+  const lines = [`TITLE: ${timeline.name}`, 'FCM: NON-DROP FRAME', '']
+  entries.forEach(({ clip, channel }, index) => {
+    const rate = clipRate(clip)
+    const recordIn = recordStart + toFrames(clip.startTime)
+    const recordOut = recordStart + toFrames(clip.endTime)
+    // Motion events list the first source frame played and the record length
+    const sourceIn = toFrames(rate < 0 ? clip.outPoint : clip.inPoint)
+    const sourceOut = sourceIn + (recordOut - recordIn)
+
+    lines.push(
+      `${(index + 1).toString().padStart(3, '0')}  ${reel.padEnd(8)} ${channel.padEnd(6)}C        ` +
+      `${timecode(sourceIn)} ${timecode(sourceOut)} ${timecode(recordIn)} ${timecode(recordOut)}`
+    )
+    if (rate !== 1) {
+      lines.push(`M2   ${reel.padEnd(8)} ${formatM2Speed(rate * frameRate)}${' '.repeat(16)}${timecode(sourceIn)}`)
+    }
+    lines.push(`* FROM CLIP NAME: ${clip.name}`)
+    if (clip.sourceName !== clip.name) lines.push(`* SOURCE FILE: ${clip.sourceName}`)
+    lines.push('')
+  })
+
+  for (const marker of timeline.markers) {
+    lines.push(`* LOC: ${timecode(recordStart + toFrames(marker.time))} ${markerColorName(marker.color).padEnd(7)} ${marker.label}`)
+  }
+
+  return lines.join('\n').trimEnd() + '\n'
+}
+
+// ---------------------------------------------------------------------------
+// FCPXML
+// ---------------------------------------------------------------------------
+
+interface FCPAsset {
+  sourceName: string
+  start: number
+  duration?: number
+  audioOnly: boolean
+}
+
+interface LaneClip {
+  lane: number
+  audio: boolean
+  clip: InterchangeClip
+}
+
+// Story elements that take time on a storyline
+const FCP_STORY_ELEMENTS = new Set(['asset-clip', 'clip', 'video', 'audio', 'gap', 'sync-clip', 'spine'])
+
+const FCP_MARKER_ELEMENTS = new Set(['marker', 'chapter-marker'])
+
+// "1001/30000s", "10s"
+function parseFCPTime(value: string | null): number | null {
+  if (!value) return null
+  const match = /^(-?\d+(?:\.\d+)?)(?:\/(\d+))?s$/.exec(value.trim())
+  if (!match) return null
+  return Number(match[1]) / (match[2] ? Number(match[2]) : 1)
+}
+
+function childElements(element: Element): Element[] {
+  return Array.from(element.children)
+}
+
+// Linear rate and mapping of a retimed clip's local time to source time
+function readTimeMap(item: Element): { rate: number; map: (local: number) => number } | null {
+  const timeMap = childElements(item).find(c => c.tagName === 'timeMap')
+  if (!timeMap) return null
+  const points = childElements(timeMap)
+    .filter(c => c.tagName === 'timept')
+    .map(c => ({ time: parseFCPTime(c.getAttribute('time')), value: parseFCPTime(c.getAttribute('value')) }))
+    .filter((p): p is { time: number; value: number } => p.time !== null && p.value !== null)
+  if (points.length < 2) return null
+  const first = points[0]
+  const last = points[points.length - 1]
+  if (last.time === first.time) return null
+  const rate = (last.value - first.value) / (last.time - first.time)
+  return { rate, map: local => first.value + (local - first.time) * rate }
+}
+
+// Asset and source start of a story element, or null if it is not a media clip
+function readClipMedia(item: Element, assets: Map<string, FCPAsset>, start: number): { asset: FCPAsset; sourceStart: number; rate: number } | null {
+  const timeMap = readTimeMap(item)
+  const mapped = timeMap ? timeMap.map(start) : start
+  let ref = item.getAttribute('ref')
+  let sourceStart = mapped
+
+  if (item.tagName === 'clip') {
+    // A clip wraps its media in a video or audio element with its own timing
+    const inner = childElements(item).find(c => (c.tagName === 'video' || c.tagName === 'audio') && c.hasAttribute('ref') && !c.hasAttribute('lane'))
+    if (!inner) return null
+    ref = inner.getAttribute('ref')
+    sourceStart = mapped - (parseFCPTime(inner.getAttribute('offset')) ?? 0) + (parseFCPTime(inner.getAttribute('start')) ?? 0)
+  } else if (item.tagName !== 'asset-clip' && item.tagName !== 'video' && item.tagName !== 'audio') {
+    return null
+  }
+
+  const asset = ref ? assets.get(ref) : undefined
+  return asset ? { asset, sourceStart, rate: timeMap?.rate ?? 1 } : null
+}
+
+function parseFCPXML(content: string): InterchangeTimeline {
+  const doc = new DOMParser().parseFromString(content, 'application/xml')
+  const error = doc.getElementsByTagName('parsererror')[0]
+  if (error) throw new Error(error.textContent?.trim() || 'Invalid XML')
+  if (doc.documentElement.tagName !== 'fcpxml') throw new Error('Not an FCPXML document')
+
+  const formats = new Map<string, { frameRate?: number; width?: number; height?: number }>()
+  for (const format of Array.from(doc.getElementsByTagName('format'))) {
+    const frameDuration = parseFCPTime(format.getAttribute('frameDuration'))
+    formats.set(format.getAttribute('id') ?? '', {
+      frameRate: frameDuration ? 1 / frameDuration : undefined,
+      width: Number(format.getAttribute('width')) || undefined,
+      height: Number(format.getAttribute('height')) || undefined,
+    })
+  }
+
+  const assets = new Map<string, FCPAsset>()
+  for (const asset of Array.from(doc.getElementsByTagName('asset'))) {
+    // FCPXML 1.10+ moved the file URL into a media-rep child
+    const src = asset.getAttribute('src') ?? asset.getElementsByTagName('media-rep')[0]?.getAttribute('src')
+    assets.set(asset.getAttribute('id') ?? '', {
+      sourceName: src ? fileNameFromPath(src) : asset.getAttribute('name') ?? '',
+      start: parseFCPTime(asset.getAttribute('start')) ?? 0,
+      duration: parseFCPTime(asset.getAttribute('duration')) ?? undefined,
+      audioOnly: asset.getAttribute('hasVideo') !== '1' && asset.getAttribute('hasAudio') === '1',
+    })
+  }
+
+  const sequence = doc.getElementsByTagName('sequence')[0]
+  if (!sequence) throw new Error('FCPXML has no sequence')
+  const format = formats.get(sequence.getAttribute('format') ?? '')
+  const frameRate = format?.frameRate ?? DEFAULT_FRAME_RATE
+  const tcStart = parseFCPTime(sequence.getAttribute('tcStart')) ?? 0
+
+  const laneClips: LaneClip[] = []
+  const markers: InterchangeMarker[] = []
+
+  // Walk a container whose local times map to the timeline via toTimeline.
+  // Inside clips only lane children are connected items; the rest is the
+  // clip's own media.
+  const walk = (container: Element, toTimeline: (local: number) => number, lane: number, connectedOnly: boolean) => {
+    for (const item of childElements(container)) {
+      if (!FCP_STORY_ELEMENTS.has(item.tagName)) continue
+      if (connectedOnly && !item.hasAttribute('lane')) continue
+
+      const itemLane = item.hasAttribute('lane') ? Number(item.getAttribute('lane')) : lane
+      const start = parseFCPTime(item.getAttribute('start')) ?? 0
+      const duration = parseFCPTime(item.getAttribute('duration')) ?? 0
+      const itemStart = toTimeline(parseFCPTime(item.getAttribute('offset')) ?? 0)
+      const itemToTimeline = (local: number) => itemStart + local - start
+
+      if (item.tagName === 'spine') {
+        // Secondary storyline: child offsets count from its first item
+        const first = childElements(item).map(c => parseFCPTime(c.getAttribute('offset'))).find(t => t !== null) ?? 0
+        walk(item, local => itemStart + local - first, itemLane, false)
+        continue
+      }
+
+      const media = readClipMedia(item, assets, start)
+      if (media && duration > 0) {
+        laneClips.push({
+          lane: itemLane,
+          audio: item.tagName === 'audio' || item.getAttribute('srcEnable') === 'audio' || media.asset.audioOnly || itemLane < 0,
+          clip: {
+            name: item.getAttribute('name') || media.asset.sourceName,
+            sourceName: media.asset.sourceName,
+            startTime: itemStart,
+            endTime: itemStart + duration,
+            mediaDuration: media.asset.duration,
+            ...sourceRange(media.sourceStart - media.asset.start, duration * Math.abs(media.rate), media.rate),
+          },
+        })
+      }
+
+      for (const marker of childElements(item)) {
+        if (!FCP_MARKER_ELEMENTS.has(marker.tagName)) continue
+        markers.push({
+          time: Math.max(0, itemToTimeline(parseFCPTime(marker.getAttribute('start')) ?? start)),
+          label: marker.getAttribute('value') ?? '',
+        })
+      }
+
+      walk(item, itemToTimeline, itemLane, item.tagName !== 'sync-clip')
+    }
+  }
+
+  const spine = childElements(sequence).find(c => c.tagName === 'spine')
+  if (spine) walk(spine, local => local - tcStart, 0, false)
+
+  // Picture lanes bottom-up from the primary storyline, sound lanes top-down below it
+  const laneTracks = (audio: boolean) => {
+    const lanes = [...new Set(laneClips.filter(c => c.audio === audio).map(c => c.lane))]
+      .sort((a, b) => (audio ? b - a : a - b))
+    return lanes.map((lane, i): InterchangeTrack => ({
+      name: `${audio ? 'A' : 'V'}${i + 1}`,
+      kind: audio ? 'audio' : 'video',
+      clips: sortClips(laneClips.filter(c => c.audio === audio && c.lane === lane).map(c => c.clip)),
+    }))
+  }
+
+  return {
+    name: sequence.parentElement?.getAttribute('name') || 'FCPXML',
+    frameRate,
+    width: format?.width,
+    height: format?.height,
+    tracks: [...laneTracks(false), ...laneTracks(true)],
+    markers: markers.sort((a, b) => a.time - b.time),
+  }
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Frame duration as a rational; NTSC rates use the 1001 base
+function frameDurationOf(frameRate: number): [number, number] {
+  const ntsc = Math.round(frameRate * 1.001)
+  if (!Number.isInteger(frameRate) && Math.abs(frameRate * 1.001 - ntsc) < 0.01) return [1001, ntsc * 1000]
+  return [100, Math.round(frameRate * 100)]
+}
+
+interface FCPItem {
+  start: number // Timeline frames
+  end: number
+  localStart: number // Local frames at the item start
+  open: string
+  lines: string[]
+}
+
+function serializeFCPXML(timeline: InterchangeTimeline): string {
+  const { frameRate } = timeline
+  const [frameNumerator, frameDenominator] = frameDurationOf(frameRate)
+  const toFrames = (seconds: number) => Math.round(seconds * frameRate)
+  const time = (frames: number) => (frames === 0 ? '0s' : `${frames * frameNumerator}/${frameDenominator}s`)
+  const attributes = (values: Record<string, string | number | undefined>) => Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}="${escapeXML(String(value))}"`)
+    .join(' ')
+
+  const pictureTracks = timeline.tracks.filter(t => t.kind === 'video')
+  const soundTracks = timeline.tracks.filter(t => t.kind === 'audio')
+
+  // One asset per source file
+  const assets = new Map<string, { id: string; duration: number; video: boolean; audio: boolean }>()
+  for (const track of timeline.tracks) {
+    for (const clip of track.clips) {
+      const asset = assets.get(clip.sourceName) ?? { id: `r${assets.size + 2}`, duration: 0, video: false, audio: false }
+      asset.duration = Math.max(asset.duration, clip.mediaDuration ?? 0, clip.outPoint)
+      if (track.kind === 'video') asset.video = true
+      else asset.audio = true
+      assets.set(clip.sourceName, asset)
+    }
+  }
+
+  const clipItem = (clip: InterchangeClip, lane?: number, audioOnly = false): FCPItem => {
+    const start = toFrames(clip.startTime)
+    const end = toFrames(clip.endTime)
+    const rate = clipRate(clip)
+    const localStart = rate === 1 ? toFrames(clip.inPoint) : 0
+    const lines: string[] = []
+    if (rate !== 1) {
+      // Retimed clips map local time from zero onto the source range
+      const [from, to] = rate < 0 ? [clip.outPoint, clip.inPoint] : [clip.inPoint, clip.outPoint]
+      lines.push(
+        '<timeMap>',
+        `    <timept ${attributes({ time: '0s', value: time(toFrames(from)), interp: 'linear' })}/>`,
+        `    <timept ${attributes({ time: time(end - start), value: time(toFrames(to)), interp: 'linear' })}/>`,
+        '</timeMap>'
+      )
+    }
+    return {
+      start,
+      end,
+      localStart,
+      open: `asset-clip ${attributes({
+        ref: assets.get(clip.sourceName)?.id,
+        lane,
+        offset: '%OFFSET%',
+        name: clip.name,
+        start: time(localStart),
+        duration: time(end - start),
+        srcEnable: audioOnly ? 'audio' : undefined,
+      })}`,
+      lines,
+    }
+  }
+
+  const gapItem = (start: number, end: number): FCPItem => ({
+    start,
+    end,
+    localStart: 0,
+    open: `gap ${attributes({ name: 'Gap', offset: '%OFFSET%', start: '0s', duration: time(end - start) })}`,
+    lines: [],
+  })
+
+  // Primary storyline from the first picture track, gaps between clips
+  const [primary, ...connectedPicture] = pictureTracks
+  const spine: FCPItem[] = []
+  let cursor = 0
+  for (const clip of primary?.clips ?? []) {
+    const item = clipItem(clip)
+    if (item.start > cursor) spine.push(gapItem(cursor, item.start))
+    spine.push(item)
+    cursor = Math.max(cursor, item.end)
+  }
+
+  const allClips = timeline.tracks.flatMap(t => t.clips)
+  const end = Math.max(cursor, 1, ...allClips.map(c => toFrames(c.endTime)), ...timeline.markers.map(m => toFrames(m.time) + 1))
+  if (end > cursor) spine.push(gapItem(cursor, end))
+
+  const renderItem = (item: FCPItem, offset: string): string[] => {
+    const open = item.open.replace('%OFFSET%', offset)
+    if (item.lines.length === 0) return [`<${open}/>`]
+    const tag = open.split(' ')[0]
+    return [`<${open}>`, ...item.lines.map(line => `    ${line}`), `</${tag}>`]
+  }
+
+  // Connected items hang off the storyline item under their start
+  const hostAt = (frame: number) => spine.find(item => frame >= item.start && frame < item.end) ?? spine[spine.length - 1]
+  const localOffset = (host: FCPItem, frame: number) => time(host.localStart + frame - host.start)
+
+  const connect = (clip: InterchangeClip, lane: number, audioOnly: boolean) => {
+    const item = clipItem(clip, lane, audioOnly)
+    const host = hostAt(item.start)
+    host.lines.push(...renderItem(item, localOffset(host, item.start)))
+  }
+  connectedPicture.forEach((track, i) => track.clips.forEach(clip => connect(clip, i + 1, false)))
+  soundTracks.forEach((track, i) => track.clips.forEach(clip => connect(clip, -(i + 1), true)))
+
+  for (const marker of timeline.markers) {
+    const frame = toFrames(marker.time)
+    const host = hostAt(frame)
+    host.lines.push(`<marker ${attributes({ start: localOffset(host, frame), duration: time(1), value: marker.label })}/>`)
+  }
+
+  const indent = (lines: string[], depth: number) => lines.map(line => `${' '.repeat(depth * 4)}${line}`)
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '',
+    '<fcpxml version="1.9">',
+    '    <resources>',
+    `        <format ${attributes({ id: 'r1', frameDuration: `${frameNumerator}/${frameDenominator}s`, width: timeline.width, height: timeline.height })}/>`,
+    ...[...assets.entries()].map(([sourceName, asset]) => `        <asset ${attributes({
+      id: asset.id,
+      name: stripExtension(sourceName),
+      start: '0s',
+      duration: time(toFrames(asset.duration)),
+      hasVideo: asset.video ? 1 : undefined,
+      hasAudio: asset.audio ? 1 : undefined,
+      format: 'r1',
+      src: encodeURI(sourceName),
+    })}/>`),
+    '    </resources>',
+    '    <library>',
+    '        <event name="DualView">',
+    `            <project ${attributes({ name: timeline.name })}>`,
+    `                <sequence ${attributes({ format: 'r1', duration: time(end), tcStart: '0s', tcFormat: 'NDF' })}>`,
+    '                    <spine>',
+    ...indent(spine.flatMap(item => renderItem(item, time(item.start))), 6),
+    '                    </spine>',
+    '                </sequence>',
+    '            </project>',
+    '        </event>',
+    '    </library>',
+    '</fcpxml>',
+    '',
+  ].join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// OpenTimelineIO
+// ---------------------------------------------------------------------------
+
+interface OTIORationalTime {
+  value: number
+  rate: number
+}
+
+interface OTIOTimeRange {
+  start_time: OTIORationalTime
+  duration: OTIORationalTime
+}
+
+interface OTIOMarker {
+  name?: string
+  color?: string
+  marked_range?: OTIOTimeRange
+}
+
+interface OTIOMediaReference {
+  OTIO_SCHEMA?: string
+  name?: string
+  target_url?: string
+  available_range?: OTIOTimeRange | null
+}
+
+interface OTIOItem {
+  OTIO_SCHEMA?: string
+  name?: string
+  kind?: string
+  children?: OTIOItem[]
+  source_range?: OTIOTimeRange | null
+  markers?: OTIOMarker[]
+  effects?: { OTIO_SCHEMA?: string; time_scalar?: number }[]
+  media_reference?: OTIOMediaReference | null // Clip.1
+  media_references?: Record<string, OTIOMediaReference> // Clip.2
+  active_media_reference_key?: string
+}
+
+interface OTIOTimeline {
+  OTIO_SCHEMA?: string
+  name?: string
+  tracks?: OTIOItem
+}
+
+function schemaName(object: { OTIO_SCHEMA?: string }): string {
+  return object.OTIO_SCHEMA?.split('.')[0] ?? ''
+}
+
+function otioSeconds(time: OTIORationalTime | undefined): number {
+  return time && time.rate ? time.value / time.rate : 0
+}
+
+// Time an item takes in its parent: trimmed range, else its contents
+function otioDuration(item: OTIOItem): number {
+  if (item.source_range) return otioSeconds(item.source_range.duration)
+  const children = (item.children ?? []).filter(c => schemaName(c) !== 'Transition')
+  if (schemaName(item) === 'Track') return children.reduce((sum, c) => sum + otioDuration(c), 0)
+  if (schemaName(item) === 'Stack') return Math.max(0, ...children.map(otioDuration))
+  return 0
+}
+
+function readOTIOMarkers(markers: OTIOMarker[] | undefined, toTimeline: (local: number) => number): InterchangeMarker[] {
+  return (markers ?? []).map(marker => ({
+    time: Math.max(0, toTimeline(otioSeconds(marker.marked_range?.start_time))),
+    label: marker.name ?? '',
+    color: markerColorFromName(marker.color),
+  }))
+}
+
+function parseOTIO(content: string): InterchangeTimeline {
+  const root = JSON.parse(content) as OTIOTimeline
+  if (schemaName(root) !== 'Timeline') throw new Error('Not an OpenTimelineIO timeline')
+
+  const stack = root.tracks
+  const tracks: InterchangeTrack[] = []
+  const markers = readOTIOMarkers(stack?.markers, local => local)
+  let frameRate: number | undefined
+
+  for (const track of stack?.children ?? []) {
+    if (schemaName(track) !== 'Track') continue
+    const kind = track.kind === 'Audio' ? 'audio' : 'video'
+    const clips: InterchangeClip[] = []
+    let cursor = 0
+
+    for (const item of track.children ?? []) {
+      // Transitions overlap their neighbours and take no time of their own
+      if (schemaName(item) === 'Transition') continue
+      const duration = otioDuration(item)
+
+      if (schemaName(item) === 'Clip') {
+        const reference = item.media_references?.[item.active_media_reference_key ?? 'DEFAULT_MEDIA'] ?? item.media_reference
+        const range = item.source_range ?? reference?.available_range
+        if (range && duration > 0) {
+          frameRate ??= range.start_time.rate
+          const mediaStart = otioSeconds(reference?.available_range?.start_time)
+          const sourceStart = otioSeconds(range.start_time)
+          // The track duration is the trimmed range; a time warp changes how much media it reads
+          const rate = item.effects?.find(e => schemaName(e) === 'LinearTimeWarp')?.time_scalar || 1
+          const clipStart = cursor
+          clips.push({
+            name: item.name || reference?.name || '',
+            sourceName: reference?.target_url ? fileNameFromPath(reference.target_url) : reference?.name || item.name || '',
+            startTime: clipStart,
+            endTime: clipStart + duration,
+            mediaDuration: reference?.available_range ? otioSeconds(reference.available_range.duration) : undefined,
+            ...sourceRange(sourceStart - mediaStart, duration * Math.abs(rate), rate),
+          })
+          markers.push(...readOTIOMarkers(item.markers, local => clipStart + local - sourceStart))
+        }
+      }
+      cursor += duration
+    }
+
+    const trackStart = otioSeconds(track.source_range?.start_time)
+    markers.push(...readOTIOMarkers(track.markers, local => local - trackStart))
+    const count = tracks.filter(t => t.kind === kind).length + 1
+    tracks.push({ name: track.name || `${kind === 'audio' ? 'A' : 'V'}${count}`, kind, clips })
+  }
+
+  return {
+    name: root.name || 'OpenTimelineIO',
+    frameRate: frameRate ?? DEFAULT_FRAME_RATE,
+    tracks,
+    markers: markers.sort((a, b) => a.time - b.time),
+  }
+}
+
+function serializeOTIO(timeline: InterchangeTimeline): string {
+  const { frameRate } = timeline
+  const toFrames = (seconds: number) => Math.round(seconds * frameRate)
+  const rationalTime = (frames: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate: frameRate, value: frames })
+  const timeRange = (start: number, duration: number) => ({
+    OTIO_SCHEMA: 'TimeRange.1',
+    duration: rationalTime(duration),
+    start_time: rationalTime(start),
+  })
+  const item = (schema: string, name: string, fields: object) => ({
+    OTIO_SCHEMA: schema,
+    metadata: {},
+    name,
+    effects: [],
+    markers: [],
+    enabled: true,
+    ...fields,
+  })
+
+  const tracks = timeline.tracks.map(track => {
+    const children: object[] = []
+    let cursor = 0
+    for (const clip of track.clips) {
+      const start = toFrames(clip.startTime)
+      const end = toFrames(clip.endTime)
+      if (start > cursor) children.push(item('Gap.1', '', { source_range: timeRange(0, start - cursor) }))
+      const rate = clipRate(clip)
+      children.push(item('Clip.2', clip.name, {
+        source_range: timeRange(toFrames(rate < 0 ? clip.outPoint : clip.inPoint), end - start),
+        effects: rate !== 1
+          ? [{ OTIO_SCHEMA: 'LinearTimeWarp.1', metadata: {}, name: '', effect_name: 'LinearTimeWarp', time_scalar: rate }]
+          : [],
+        media_references: {
+          DEFAULT_MEDIA: {
+            OTIO_SCHEMA: 'ExternalReference.1',
+            metadata: {},
+            name: clip.sourceName,
+            available_range: clip.mediaDuration ? timeRange(0, toFrames(clip.mediaDuration)) : null,
+            available_image_bounds: null,
+            target_url: encodeURI(clip.sourceName),
+          },
+        },
+        active_media_reference_key: 'DEFAULT_MEDIA',
+      }))
+      cursor = Math.max(cursor, end)
+    }
+    return item('Track.1', track.name, { source_range: null, kind: track.kind === 'audio' ? 'Audio' : 'Video', children })
+  })
+
+  const markers = timeline.markers.map(marker => ({
+    OTIO_SCHEMA: 'Marker.2',
+    metadata: {},
+    name: marker.label,
+    color: markerColorName(marker.color),
+    marked_range: timeRange(toFrames(marker.time), 0),
+    comment: '',
+  }))
+
+  return JSON.stringify({
+    OTIO_SCHEMA: 'Timeline.1',
+    metadata: {},
+    name: timeline.name,
+    global_start_time: null,
+    tracks: item('Stack.1', 'tracks', { source_range: null, markers, children: tracks }),
+  }, null, 4) + '\n'
+}
@@ -0,0 +1,269 @@
+/**
+ * WebGL Colour Grade Renderer
+ * COLOR-001: Draws a video, image or canvas through a clip's colour grade
+ * and LUT into its own canvas. Preview layers, scopes and exports all grade
+ * through this class so they show the same pixels; without WebGL it falls
+ * back to applyColorGrade on a 2D canvas. On-screen previews share one
+ * instance (getSharedColorGradeRenderer), since browsers cap live WebGL
+ * contexts at around 16.
+ */
+
+import type { ColorGrade } from '../../types'
+import { COMPARISON_VERTEX_SHADER, COLOR_GRADE_SHADER } from './comparison-shaders'
+import {
+  applyColorGrade,
+  bakeCurves,
+  getWhiteBalance,
+  isIdentityGrade,
+  packLUTTexture,
+  CURVE_TABLE_SIZE,
+  type CubeLUT,
+} from '../colorGrade'
+
+export type GradeSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement
+
+// Intrinsic pixel size of a source (0 until it has loaded)
+export function getGradeSourceSize(source: GradeSource | ImageBitmap): { width: number; height: number } {
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight }
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight }
+  return { width: source.width, height: source.height }
+}
+
+// Packed LUT textures, so alternating between LUTs does not repack them
+const packedLUTs = new WeakMap<CubeLUT, ReturnType<typeof packLUTTexture>>()
+
+export class ColorGradeRenderer {
+  private canvas: HTMLCanvasElement
+  private gl: WebGLRenderingContext | null = null
+  private program: WebGLProgram | null = null
+
+  private sourceTexture: WebGLTexture | null = null
+  private curvesTexture: WebGLTexture | null = null
+  private lutTexture: WebGLTexture | null = null
+  private positionBuffer: WebGLBuffer | null = null
+  private texCoordBuffer: WebGLBuffer | null = null
+
+  // Uploaded curves and LUT, re-uploaded only when they change
+  private curvesKey = ''
+  private uploadedLUT: CubeLUT | null = null
+  private lutGrid: [number, number] = [1, 1]
+
+  constructor(canvas: HTMLCanvasElement = document.createElement('canvas')) {
+    this.canvas = canvas
+    this.initGL()
+  }
+
+  private initGL(): void {
+    const gl = this.canvas.getContext('webgl', {
+      premultipliedAlpha: false,
+      preserveDrawingBuffer: true,
+      antialias: false,
+      depth: false,
+      stencil: false
+    })
+
+    if (!gl) {
+      console.warn('[ColorGrade] WebGL not supported, grading on the CPU')
+      return
+    }
+
+    this.gl = gl
+    this.program = this.createProgram(COMPARISON_VERTEX_SHADER, COLOR_GRADE_SHADER)
+
+    this.sourceTexture = this.createTexture()
+    this.curvesTexture = this.createTexture()
+    this.lutTexture = this.createTexture()
+
+    // Full-screen quad; texture rows flipped so the output stays upright
+    this.positionBuffer = gl.createBuffer()
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer)
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW)
+
+    this.texCoordBuffer = gl.createBuffer()
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.texCoordBuffer)
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 1, 1, 1, 0, 0, 1, 0]), gl.STATIC_DRAW)
+  }
+
+  private createTexture(): WebGLTexture | null {
+    const gl = this.gl
+    if (!gl) return null
+
+    const texture = gl.createTexture()
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR)
+    return texture
+  }
+
+  private compileShader(source: string, type: number): WebGLShader | null {
+    const gl = this.gl
+    if (!gl) return null
+
+    const shader = gl.createShader(type)
+    if (!shader) return null
+
+    gl.shaderSource(shader, source)
+    gl.compileShader(shader)
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      console.error('[ColorGrade] Shader compile error:', gl.getShaderInfoLog(shader))
+      gl.deleteShader(shader)
+      return null
+    }
+    return shader
+  }
+
+  private createProgram(vertexSource: string, fragmentSource: string): WebGLProgram | null {
+    const gl = this.gl
+    if (!gl) return null
+
+    const vertexShader = this.compileShader(vertexSource, gl.VERTEX_SHADER)
+    const fragmentShader = this.compileShader(fragmentSource, gl.FRAGMENT_SHADER)
+    if (!vertexShader || !fragmentShader) return null
+
+    const program = gl.createProgram()
+    if (!program) return null
+
+    gl.attachShader(program, vertexShader)
+    gl.attachShader(program, fragmentShader)
+    gl.linkProgram(program)
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      console.error('[ColorGrade] Program link error:', gl.getProgramInfoLog(program))
+      gl.deleteProgram(program)
+      return null
+    }
+
+    gl.deleteShader(vertexShader)
+    gl.deleteShader(fragmentShader)
+    return program
+  }
+
+  getCanvas(): HTMLCanvasElement {
+    return this.canvas
+  }
+
+  /**
+   * Grade one frame of the source. Returns the source itself when the grade
+   * changes nothing or the source has not loaded, otherwise this canvas at
+   * the source's pixel size.
+   */
+  apply<S extends GradeSource | ImageBitmap>(source: S, grade: ColorGrade | undefined, lut?: CubeLUT | null): S | HTMLCanvasElement {
+    const { width, height } = getGradeSourceSize(source)
+    if (!grade || width === 0 || height === 0 || isIdentityGrade(grade, lut)) return source
+
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width
+      this.canvas.height = height
+    }
+
+    if (this.gl && this.program) {
+      this.drawGPU(source, grade, lut ?? null)
+    } else if (!this.gl) {
+      this.drawCPU(source, grade, lut ?? null)
+    } else {
+      return source // Shader failed to compile
+    }
+    return this.canvas
+  }
+
+  private drawGPU(source: GradeSource | ImageBitmap, grade: ColorGrade, lut: CubeLUT | null): void {
+    const gl = this.gl!
+    const program = this.program!
+
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height)
+    gl.useProgram(program)
+
+    const positionLoc = gl.getAttribLocation(program, 'a_position')
+    const texCoordLoc = gl.getAttribLocation(program, 'a_texCoord')
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer)
+    gl.enableVertexAttribArray(positionLoc)
+    gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 0, 0)
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.texCoordBuffer)
+    gl.enableVertexAttribArray(texCoordLoc)
+    gl.vertexAttribPointer(texCoordLoc, 2, gl.FLOAT, false, 0, 0)
+
+    gl.activeTexture(gl.TEXTURE0)
+    gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture)
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source)
+    gl.uniform1i(gl.getUniformLocation(program, 'u_source'), 0)
+
+    gl.activeTexture(gl.TEXTURE1)
+    gl.bindTexture(gl.TEXTURE_2D, this.curvesTexture)
+    const curvesKey = JSON.stringify(grade.curves)
+    if (curvesKey !== this.curvesKey) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, CURVE_TABLE_SIZE, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, bakeCurves(grade.curves))
+      this.curvesKey = curvesKey
+    }
+    gl.uniform1i(gl.getUniformLocation(program, 'u_curves'), 1)
+
+    gl.activeTexture(gl.TEXTURE2)
+    gl.bindTexture(gl.TEXTURE_2D, this.lutTexture)
+    if (lut && lut !== this.uploadedLUT) {
+      let packed = packedLUTs.get(lut)
+      if (!packed) {
+        packed = packLUTTexture(lut)
+        packedLUTs.set(lut, packed)
+      }
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, packed.width, packed.height, 0, gl.RGBA, gl.UNSIGNED_BYTE, packed.data)
+      this.uploadedLUT = lut
+      this.lutGrid = [packed.columns, packed.rows]
+    }
+    gl.uniform1i(gl.getUniformLocation(program, 'u_lut'), 2)
+    gl.uniform1f(gl.getUniformLocation(program, 'u_lutSize'), lut ? lut.size : 0)
+    gl.uniform2fv(gl.getUniformLocation(program, 'u_lutGrid'), this.lutGrid)
+    gl.uniform1f(gl.getUniformLocation(program, 'u_lutMix'), Math.max(0, Math.min(1, grade.lutIntensity)))
+    gl.uniform3fv(gl.getUniformLocation(program, 'u_domainMin'), lut?.domainMin ?? [0, 0, 0])
+    gl.uniform3fv(gl.getUniformLocation(program, 'u_domainMax'), lut?.domainMax ?? [1, 1, 1])
+
+    gl.uniform3fv(gl.getUniformLocation(program, 'u_balance'), getWhiteBalance(grade))
+    gl.uniform3fv(gl.getUniformLocation(program, 'u_lift'), grade.lift)
+    gl.uniform3fv(gl.getUniformLocation(program, 'u_invGamma'), grade.gamma.map(g => 1 / Math.max(0.1, g)))
+    gl.uniform3fv(gl.getUniformLocation(program, 'u_gain'), grade.gain)
+
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
+    gl.activeTexture(gl.TEXTURE0)
+  }
+
+  private drawCPU(source: GradeSource | ImageBitmap, grade: ColorGrade, lut: CubeLUT | null): void {
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true })
+    if (!ctx) return
+
+    ctx.drawImage(source, 0, 0)
+    const imageData = ctx.getImageData(0, 0, this.canvas.width, this.canvas.height)
+    applyColorGrade(imageData.data, grade, lut)
+    ctx.putImageData(imageData, 0, 0)
+  }
+
+  /**
+   * Clean up resources
+   */
+  dispose(): void {
+    const gl = this.gl
+    if (!gl) return
+
+    if (this.program) gl.deleteProgram(this.program)
+    if (this.sourceTexture) gl.deleteTexture(this.sourceTexture)
+    if (this.curvesTexture) gl.deleteTexture(this.curvesTexture)
+    if (this.lutTexture) gl.deleteTexture(this.lutTexture)
+    if (this.positionBuffer) gl.deleteBuffer(this.positionBuffer)
+    if (this.texCoordBuffer) gl.deleteBuffer(this.texCoordBuffer)
+    gl.getExtension('WEBGL_lose_context')?.loseContext()
+
+    this.gl = null
+    this.program = null
+  }
+}
+
+let shared: ColorGradeRenderer | null = null
+
+/**
+ * The renderer every on-screen preview grades through. Its output is
+ * overwritten by the next apply, so draw or upload the result straight away.
+ */
+export function getSharedColorGradeRenderer(): ColorGradeRenderer {
+  shared ??= new ColorGradeRenderer()
+  return shared
+}
@@ -1,10 +1,17 @@
 /**
  * WebGL Comparison Renderer
  * GPU-accelerated image/video comparison with 26 analysis modes
+ * HDR-001: Float textures for OpenEXR / Radiance images, drawn through the
+ * exposure / tone map / gamma transform into the comparison textures
+ * BITDEPTH-001: 16-bit PNG / TIFF samples uploaded as float textures so
+ * difference and threshold modes see every code value
  */
 
-import type { WebGLComparisonMode } from '../../types'
-import { COMPARISON_VERTEX_SHADER, getComparisonShader } from './comparison-shaders'
+import type { HDRToneMap, WebGLComparisonMode } from '../../types'
+import { COMPARISON_VERTEX_SHADER, HDR_DISPLAY_SHADER, getComparisonShader } from './comparison-shaders'
+import { applyHDRDisplay, getExposureScale, HDR_DISPLAY_DEFAULTS, HDR_TONE_MAP_INDEX } from '../hdrDisplay'
+import type { HDRImage } from '../hdrImage'
+import { toDisplayBytes, toNormalizedFloat, type HighBitDepthImage } from '../highBitDepthImage'
 
 export interface ComparisonUniforms {
   amplification?: number  // 1-100
@@ -20,6 +27,17 @@ export interface ComparisonUniforms {
   textureAHeight?: number // Original texture A height
   textureBWidth?: number  // Original texture B width
   textureBHeight?: number // Original texture B height
+  pixelsPerDegree?: number // METRICS-003: FLIP viewing condition
+  hdrExposure?: number    // HDR-001: Stops
+  hdrGamma?: number       // HDR-001: Display gamma
+  hdrToneMap?: HDRToneMap // HDR-001
+}
+
+// HDR-001: Float pixels of one side and the display transform last applied
+interface HDRSource {
+  image: HDRImage
+  texture: WebGLTexture | null // null when float textures are unsupported
+  displayKey: string
 }
 
 export class WebGLComparisonRenderer {
@@ -34,6 +52,17 @@ export class WebGLComparisonRenderer {
   private positionBuffer: WebGLBuffer | null = null
   private texCoordBuffer: WebGLBuffer | null = null
 
+  // HDR-001: Display transform pass
+  private hdrSources: Record<'A' | 'B', HDRSource | null> = { A: null, B: null }
+  private hdrProgram: WebGLProgram | null = null
+  private hdrFramebuffer: WebGLFramebuffer | null = null
+  private hdrTexCoordBuffer: WebGLBuffer | null = null
+  private floatTextures = false
+  private floatLinear = false
+
+  // BITDEPTH-001: High bit depth image held by each comparison texture
+  private highBitDepthImages: Record<'A' | 'B', HighBitDepthImage | null> = { A: null, B: null }
+
   private width: number = 0
   private height: number = 0
   private startTime: number = Date.now()
@@ -88,6 +117,10 @@ export class WebGLComparisonRenderer {
     // Create geometry buffers
     this.createBuffers()
     console.log('[WebGL] Buffers created')
+
+    // HDR-001: Float textures (linear filtering is a separate extension)
+    this.floatTextures = !!gl.getExtension('OES_texture_float')
+    this.floatLinear = !!gl.getExtension('OES_texture_float_linear')
   }
 
   private createTexture(): WebGLTexture | null {
@@ -133,6 +166,18 @@ export class WebGLComparisonRenderer {
     this.texCoordBuffer = gl.createBuffer()
     gl.bindBuffer(gl.ARRAY_BUFFER, this.texCoordBuffer)
     gl.bufferData(gl.ARRAY_BUFFER, texCoords, gl.STATIC_DRAW)
+
+    // HDR-001: Unflipped coordinates so the display pass keeps the row order
+    const hdrTexCoords = new Float32Array([
+      0, 0,
+      1, 0,
+      0, 1,
+      1, 1
+    ])
+
+    this.hdrTexCoordBuffer = gl.createBuffer()
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.hdrTexCoordBuffer)
+    gl.bufferData(gl.ARRAY_BUFFER, hdrTexCoords, gl.STATIC_DRAW)
   }
 
   private compileShader(source: string, type: number): WebGLShader | null {
@@ -267,10 +312,168 @@ export class WebGLComparisonRenderer {
     const texture = which === 'A' ? this.textureA : this.textureB
     if (!texture) return
 
+    this.releaseHDRSource(which)
+    this.releaseHighBitDepthSource(which)
     gl.bindTexture(gl.TEXTURE_2D, texture)
     gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source)
   }
 
+  /**
+   * BITDEPTH-001: Use a decoded 16-bit image for a side. Samples go into the
+   * comparison texture as normalized floats, uploaded once (8-bit without
+   * float texture support).
+   */
+  updateHighBitDepthTexture(which: 'A' | 'B', image: HighBitDepthImage): void {
+    const gl = this.gl
+    const texture = which === 'A' ? this.textureA : this.textureB
+    if (!gl || !texture || this.highBitDepthImages[which] === image) return
+
+    this.releaseHDRSource(which)
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+
+    if (this.floatTextures) {
+      const filter = this.floatLinear ? gl.LINEAR : gl.NEAREST
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter)
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, image.width, image.height, 0, gl.RGBA, gl.FLOAT, toNormalizedFloat(image))
+    } else {
+      const pixels = toDisplayBytes(image)
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, image.width, image.height, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(pixels.buffer))
+    }
+
+    this.highBitDepthImages[which] = image
+  }
+
+  /**
+   * BITDEPTH-001: Restore 8-bit filtering once a side stops showing a
+   * high bit depth image
+   */
+  private releaseHighBitDepthSource(which: 'A' | 'B'): void {
+    const gl = this.gl
+    const texture = which === 'A' ? this.textureA : this.textureB
+    if (!gl || !texture || !this.highBitDepthImages[which]) return
+
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR)
+    this.highBitDepthImages[which] = null
+  }
+
+  /**
+   * HDR-001: Use a decoded HDR image for a side. The float data is uploaded
+   * once; render() redraws the display transform when its settings change.
+   */
+  updateHDRTexture(which: 'A' | 'B', image: HDRImage): void {
+    const gl = this.gl
+    if (!gl || this.hdrSources[which]?.image === image) return
+
+    this.releaseHDRSource(which)
+    this.releaseHighBitDepthSource(which)
+
+    let texture: WebGLTexture | null = null
+    if (this.floatTextures) {
+      texture = gl.createTexture()
+      const filter = this.floatLinear ? gl.LINEAR : gl.NEAREST
+      gl.bindTexture(gl.TEXTURE_2D, texture)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter)
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, image.width, image.height, 0, gl.RGBA, gl.FLOAT, image.data)
+    }
+
+    this.hdrSources[which] = { image, texture, displayKey: '' }
+  }
+
+  private releaseHDRSource(which: 'A' | 'B'): void {
+    const source = this.hdrSources[which]
+    if (!source) return
+    if (source.texture) this.gl?.deleteTexture(source.texture)
+    this.hdrSources[which] = null
+  }
+
+  /**
+   * HDR-001: Draw an HDR side into its comparison texture with the current
+   * exposure, tone map and gamma (on the CPU without float textures)
+   */
+  private updateHDRDisplay(which: 'A' | 'B', uniforms: ComparisonUniforms): void {
+    const gl = this.gl
+    const source = this.hdrSources[which]
+    const target = which === 'A' ? this.textureA : this.textureB
+    if (!gl || !source || !target) return
+
+    const settings = {
+      exposure: uniforms.hdrExposure ?? HDR_DISPLAY_DEFAULTS.exposure,
+      gamma: Math.max(0.1, uniforms.hdrGamma ?? HDR_DISPLAY_DEFAULTS.gamma),
+      toneMap: uniforms.hdrToneMap ?? HDR_DISPLAY_DEFAULTS.toneMap,
+    }
+    const displayKey = `${settings.exposure}|${settings.gamma}|${settings.toneMap}`
+    if (source.displayKey === displayKey) return
+    source.displayKey = displayKey
+
+    const { width, height, data } = source.image
+    gl.bindTexture(gl.TEXTURE_2D, target)
+
+    if (source.texture && this.drawHDRDisplay(source.texture, target, width, height, settings)) {
+      return
+    }
+
+    const pixels = applyHDRDisplay(data, settings)
+    gl.bindTexture(gl.TEXTURE_2D, target)
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(pixels.buffer))
+  }
+
+  private drawHDRDisplay(
+    source: WebGLTexture,
+    target: WebGLTexture,
+    width: number,
+    height: number,
+    settings: { exposure: number; gamma: number; toneMap: HDRToneMap }
+  ): boolean {
+    const gl = this.gl
+    if (!gl) return false
+
+    if (!this.hdrProgram) {
+      this.hdrProgram = this.createProgram(COMPARISON_VERTEX_SHADER, HDR_DISPLAY_SHADER)
+      if (!this.hdrProgram) return false
+    }
+    if (!this.hdrFramebuffer) {
+      this.hdrFramebuffer = gl.createFramebuffer()
+    }
+
+    const program = this.hdrProgram
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null)
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.hdrFramebuffer)
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, target, 0)
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+      return false
+    }
+
+    gl.viewport(0, 0, width, height)
+    gl.useProgram(program)
+
+    const positionLoc = gl.getAttribLocation(program, 'a_position')
+    const texCoordLoc = gl.getAttribLocation(program, 'a_texCoord')
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer)
+    gl.enableVertexAttribArray(positionLoc)
+    gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 0, 0)
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.hdrTexCoordBuffer)
+    gl.enableVertexAttribArray(texCoordLoc)
+    gl.vertexAttribPointer(texCoordLoc, 2, gl.FLOAT, false, 0, 0)
+
+    gl.activeTexture(gl.TEXTURE0)
+    gl.bindTexture(gl.TEXTURE_2D, source)
+    gl.uniform1i(gl.getUniformLocation(program, 'u_source'), 0)
+    gl.uniform1f(gl.getUniformLocation(program, 'u_exposureScale'), getExposureScale(settings.exposure))
+    gl.uniform1f(gl.getUniformLocation(program, 'u_gamma'), settings.gamma)
+    gl.uniform1i(gl.getUniformLocation(program, 'u_toneMap'), HDR_TONE_MAP_INDEX[settings.toneMap])
+
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+    return true
+  }
+
   private renderCount = 0
 
   /**
@@ -298,6 +501,10 @@ export class WebGLComparisonRenderer {
       }
     }
 
+    // HDR-001: Refresh HDR sides before they are sampled
+    this.updateHDRDisplay('A', uniforms)
+    this.updateHDRDisplay('B', uniforms)
+
     // Store program in local const for TypeScript
     const program = this.currentProgram!
 
@@ -411,6 +618,11 @@ export class WebGLComparisonRenderer {
       uniforms.checkerSize ?? 32.0
     )
 
+    gl.uniform1f(
+      gl.getUniformLocation(program, 'u_pixelsPerDegree'),
+      uniforms.pixelsPerDegree ?? 67.0
+    )
+
     // Set texture dimensions for aspect ratio correction
     gl.uniform2f(
       gl.getUniformLocation(program, 'u_textureASize'),
@@ -494,10 +706,17 @@ export class WebGLComparisonRenderer {
     // Delete textures
     if (this.textureA) gl.deleteTexture(this.textureA)
     if (this.textureB) gl.deleteTexture(this.textureB)
+    this.releaseHDRSource('A')
+    this.releaseHDRSource('B')
 
     // Delete buffers
     if (this.positionBuffer) gl.deleteBuffer(this.positionBuffer)
     if (this.texCoordBuffer) gl.deleteBuffer(this.texCoordBuffer)
+    if (this.hdrTexCoordBuffer) gl.deleteBuffer(this.hdrTexCoordBuffer)
+
+    // HDR-001: Display pass resources
+    if (this.hdrProgram) gl.deleteProgram(this.hdrProgram)
+    if (this.hdrFramebuffer) gl.deleteFramebuffer(this.hdrFramebuffer)
 
     this.gl = null
   }
@@ -536,7 +755,11 @@ export class WebGLComparisonRenderer {
       'video-temporal', 'video-motion', 'video-flicker', 'video-blend',
       // Analysis (ANALYSIS-001, 002, 003)
       'analysis-multiscale-edge', 'analysis-local-contrast',
-      'analysis-gradient-direction', 'analysis-direction-histogram'
+      'analysis-gradient-direction', 'analysis-direction-histogram',
+      // Perceptual (METRICS-003)
+      'perceptual-flip', 'perceptual-flip-color', 'perceptual-flip-feature',
+      // Artifacts (ARTIFACT-001)
+      'artifact-blockiness', 'artifact-banding', 'artifact-ringing'
     ]
   }
 }
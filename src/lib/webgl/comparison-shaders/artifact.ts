@@ -0,0 +1,155 @@
+/**
+ * ARTIFACT-001: Compression Artifact Shaders
+ * No-reference blockiness, banding and ringing maps. Each side is analysed
+ * on its own texture grid: A left of the wipe, B right of it.
+ */
+
+import { COMPARISON_COMMON, type ComparisonShader } from './common'
+
+// Per-side sampling on the native texel grid so block boundaries line up
+const ARTIFACT_UTILS = `
+// Side under the fragment: 0 = A (left of the wipe), 1 = B
+float g_side;
+vec2 g_size;
+
+// Luma (0-255) of a texel of the current side, clamped to the image
+float artifactLuma(vec2 pixel) {
+  vec2 uv = (clamp(pixel, vec2(0.0), g_size - 1.0) + 0.5) / g_size;
+  vec3 c = g_side < 0.5 ? texture2D(u_textureA, uv).rgb : texture2D(u_textureB, uv).rgb;
+  return dot(c, vec3(0.299, 0.587, 0.114)) * 255.0;
+}
+`
+
+// Shared entry point: heatmap of artifactScore() over a dimmed luma image
+const ARTIFACT_MAIN = `
+void main() {
+  g_side = step(u_mouse.x, v_texCoord.x);
+  g_size = g_side < 0.5 ? u_textureASize : u_textureBSize;
+
+  vec2 uv = getAspectCorrectUV(v_texCoord, g_size, u_resolution);
+  if (!isUVValid(uv)) {
+    gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+    return;
+  }
+
+  vec2 pixel = floor(uv * g_size);
+  float heat = clamp(artifactScore(pixel) * u_amplification, 0.0, 1.0);
+  vec3 original = vec3(artifactLuma(pixel) / 255.0);
+
+  vec3 result = heat > u_threshold
+    ? mix(original, heatmapVis(heat), u_opacity)
+    : original * 0.5;
+
+  // Draw wipe line
+  float lineWidth = 2.0 / u_resolution.x;
+  if (abs(v_texCoord.x - u_mouse.x) < lineWidth) {
+    result = vec3(1.0, 0.84, 0.0);
+  }
+
+  gl_FragColor = vec4(result, 1.0);
+}
+`
+
+export const ARTIFACT_SHADERS: Record<string, ComparisonShader> = {
+  // Step across the block's left/top boundary beyond the gradient either side of it
+  'artifact-blockiness': {
+    name: 'artifact-blockiness',
+    label: 'Blockiness',
+    category: 'artifact',
+    description: 'Block boundary discontinuity on the 8x8 or 16x16 coding grid (block size setting), A left / B right',
+    fragment: `${COMPARISON_COMMON}
+${ARTIFACT_UTILS}
+
+float boundaryStep(vec2 at, vec2 dir) {
+  float before = artifactLuma(at - dir);
+  float here = artifactLuma(at);
+  float jump = abs(here - before);
+  float inner = 0.5 * (abs(before - artifactLuma(at - 2.0 * dir)) + abs(artifactLuma(at + dir) - here));
+  return max(0.0, jump - inner);
+}
+
+float artifactScore(vec2 pixel) {
+  float blockSize = u_blockSize < 12.0 ? 8.0 : 16.0;
+  vec2 origin = floor(pixel / blockSize) * blockSize;
+
+  float score = 0.0;
+  if (origin.x > 0.0) score += boundaryStep(vec2(origin.x, pixel.y), vec2(1.0, 0.0));
+  if (origin.y > 0.0) score += boundaryStep(vec2(pixel.x, origin.y), vec2(0.0, 1.0));
+  return score / 64.0;
+}
+${ARTIFACT_MAIN}`
+  },
+
+  // Small luma steps with flat runs on both sides (false contours)
+  'artifact-banding': {
+    name: 'artifact-banding',
+    label: 'Banding',
+    category: 'artifact',
+    description: 'Contour steps in smooth gradients (posterisation from quantisation), A left / B right',
+    fragment: `${COMPARISON_COMMON}
+${ARTIFACT_UTILS}
+
+const float BAND_MIN_STEP = 1.5;
+const float BAND_MAX_STEP = 6.0;
+
+// Step between pixel and pixel + dir if both sides are flat, else 0
+float contourStep(vec2 pixel, vec2 dir) {
+  float here = artifactLuma(pixel);
+  float jump = abs(artifactLuma(pixel + dir) - here);
+  if (jump < BAND_MIN_STEP || jump > BAND_MAX_STEP) return 0.0;
+
+  for (int k = 1; k <= 4; k++) {
+    float fk = float(k);
+    if (abs(artifactLuma(pixel - (fk - 1.0) * dir) - artifactLuma(pixel - fk * dir)) > jump * 0.5) return 0.0;
+    if (abs(artifactLuma(pixel + (fk + 1.0) * dir) - artifactLuma(pixel + fk * dir)) > jump * 0.5) return 0.0;
+  }
+  return jump;
+}
+
+float artifactScore(vec2 pixel) {
+  float jump = max(contourStep(pixel, vec2(1.0, 0.0)), contourStep(pixel, vec2(0.0, 1.0)));
+  return jump / 20.0;
+}
+${ARTIFACT_MAIN}`
+  },
+
+  // Laplacian activity of smooth pixels within a few pixels of a strong edge
+  'artifact-ringing': {
+    name: 'artifact-ringing',
+    label: 'Ringing',
+    category: 'artifact',
+    description: 'Oscillation (Gibbs / mosquito noise) in flat areas next to strong edges, A left / B right',
+    fragment: `${COMPARISON_COMMON}
+${ARTIFACT_UTILS}
+
+const float RING_EDGE_GRADIENT = 48.0;
+const float RING_FLAT_GRADIENT = 24.0;
+
+float gradientAt(vec2 pixel) {
+  return abs(artifactLuma(pixel + vec2(1.0, 0.0)) - artifactLuma(pixel - vec2(1.0, 0.0)))
+    + abs(artifactLuma(pixel + vec2(0.0, 1.0)) - artifactLuma(pixel - vec2(0.0, 1.0)));
+}
+
+float artifactScore(vec2 pixel) {
+  if (gradientAt(pixel) > RING_FLAT_GRADIENT) return 0.0;
+
+  // Strong edge within 4 pixels (sparse 5x5 probe at stride 2)
+  float nearEdge = 0.0;
+  for (int y = -2; y <= 2; y++) {
+    for (int x = -2; x <= 2; x++) {
+      if (gradientAt(pixel + vec2(float(x), float(y)) * 2.0) > RING_EDGE_GRADIENT) nearEdge = 1.0;
+    }
+  }
+  if (nearEdge < 0.5) return 0.0;
+
+  float center = artifactLuma(pixel);
+  float laplacian = abs(4.0 * center
+    - artifactLuma(pixel + vec2(1.0, 0.0)) - artifactLuma(pixel - vec2(1.0, 0.0))
+    - artifactLuma(pixel + vec2(0.0, 1.0)) - artifactLuma(pixel - vec2(0.0, 1.0)));
+  return laplacian / 48.0;
+}
+${ARTIFACT_MAIN}`
+  }
+}
+
+export const ARTIFACT_VARIANTS = Object.keys(ARTIFACT_SHADERS)
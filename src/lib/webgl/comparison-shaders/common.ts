@@ -404,7 +404,7 @@ ${VISUALIZATION_UTILS}
 export interface ComparisonShader {
   name: string
   label: string
-  category: 'difference' | 'structural' | 'color' | 'professional' | 'video' | 'weighting' | 'analysis' | 'exposure'
+  category: 'difference' | 'structural' | 'color' | 'professional' | 'video' | 'weighting' | 'analysis' | 'exposure' | 'perceptual' | 'artifact'
   description: string
   fragment: string
 }
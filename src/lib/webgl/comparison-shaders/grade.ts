@@ -0,0 +1,59 @@
+/**
+ * COLOR-001: Colour Grade Shader
+ * White balance, lift/gamma/gain, baked curves, then the 3D LUT stored as
+ * a grid of blue-slice tiles (WebGL 1 has no 3D textures). Must match
+ * applyColorGrade.
+ */
+
+export const COLOR_GRADE_SHADER = `
+precision highp float;
+
+uniform sampler2D u_source;
+uniform sampler2D u_curves;      // 256 x 1, channel(master(x)) per RGB
+uniform sampler2D u_lut;         // columns x rows tiles of size x size
+uniform vec3 u_balance;
+uniform vec3 u_lift;
+uniform vec3 u_invGamma;
+uniform vec3 u_gain;
+uniform float u_lutSize;         // 0 = no LUT
+uniform vec2 u_lutGrid;          // Tile columns, rows
+uniform float u_lutMix;
+uniform vec3 u_domainMin;
+uniform vec3 u_domainMax;
+
+varying vec2 v_texCoord;
+
+float curve(float x, int channel) {
+  vec4 c = texture2D(u_curves, vec2((x * 255.0 + 0.5) / 256.0, 0.5));
+  if (channel == 0) return c.r;
+  if (channel == 1) return c.g;
+  return c.b;
+}
+
+// Texel (r, g) of a blue slice; slices fill the grid row by row
+vec3 sampleSlice(float slice, vec2 texel) {
+  float row = floor((slice + 0.5) / u_lutGrid.x);
+  vec2 tile = vec2(slice - row * u_lutGrid.x, row);
+  return texture2D(u_lut, (tile * u_lutSize + texel) / (u_lutGrid * u_lutSize)).rgb;
+}
+
+vec3 sampleLUT(vec3 color) {
+  vec3 n = clamp((color - u_domainMin) / (u_domainMax - u_domainMin), 0.0, 1.0) * (u_lutSize - 1.0);
+  float slice = min(floor(n.b), u_lutSize - 2.0);
+  float f = n.b - slice;
+  vec2 texel = n.rg + 0.5;
+  return mix(sampleSlice(slice, texel), sampleSlice(slice + 1.0, texel), f);
+}
+
+void main() {
+  vec4 source = texture2D(u_source, v_texCoord);
+  vec3 c = source.rgb * u_balance;
+  c = u_gain * (c + u_lift * (1.0 - c));
+  c = clamp(pow(max(c, 0.0), u_invGamma), 0.0, 1.0);
+  c = vec3(curve(c.r, 0), curve(c.g, 1), curve(c.b, 2));
+  if (u_lutSize > 0.0) {
+    c = mix(c, sampleLUT(c), u_lutMix);
+  }
+  gl_FragColor = vec4(c, source.a);
+}
+`
@@ -0,0 +1,28 @@
+/**
+ * HDR-001: HDR Display Shader
+ * Maps a linear float texture to display values before comparison:
+ * exposure (2^stops), tone curve, then gamma. Must match applyHDRDisplay.
+ */
+
+export const HDR_DISPLAY_SHADER = `
+precision highp float;
+
+uniform sampler2D u_source;
+uniform float u_exposureScale;
+uniform float u_gamma;
+uniform int u_toneMap;  // 0 = clip, 1 = Reinhard, 2 = ACES (Narkowicz fit)
+
+varying vec2 v_texCoord;
+
+vec3 toneMap(vec3 x) {
+  if (u_toneMap == 1) return x / (1.0 + x);
+  if (u_toneMap == 2) return (x * (2.51 * x + 0.03)) / (x * (2.43 * x + 0.59) + 0.14);
+  return x;
+}
+
+void main() {
+  vec4 c = texture2D(u_source, v_texCoord);
+  vec3 mapped = clamp(toneMap(max(c.rgb * u_exposureScale, 0.0)), 0.0, 1.0);
+  gl_FragColor = vec4(pow(mapped, vec3(1.0 / u_gamma)), clamp(c.a, 0.0, 1.0));
+}
+`
@@ -16,6 +16,8 @@ import { WEIGHTING_SHADERS, WEIGHTING_VARIANTS } from './weighting'
 import { STRUCTURAL_ANALYSIS_SHADERS, STRUCTURAL_ANALYSIS_VARIANTS } from './structural-analysis'
 import { ANALYSIS_SHADERS, ANALYSIS_VARIANTS } from './analysis'
 import { EXPOSURE_SHADERS, EXPOSURE_VARIANTS } from './exposure'
+import { PERCEPTUAL_SHADERS, PERCEPTUAL_VARIANTS } from './perceptual'
+import { ARTIFACT_SHADERS, ARTIFACT_VARIANTS } from './artifact'
 
 // Merge all analysis shaders (ANALYSIS-001 to 003 from structural-analysis + ANALYSIS-004 to 008 from analysis)
 const MERGED_ANALYSIS_SHADERS = { ...STRUCTURAL_ANALYSIS_SHADERS, ...ANALYSIS_SHADERS }
@@ -23,6 +25,8 @@ const MERGED_ANALYSIS_VARIANTS = [...STRUCTURAL_ANALYSIS_VARIANTS, ...ANALYSIS_V
 
 // Re-export common utilities
 export { COMPARISON_VERTEX_SHADER, COMPARISON_COMMON, type ComparisonShader } from './common'
+export { HDR_DISPLAY_SHADER } from './hdr'
+export { COLOR_GRADE_SHADER } from './grade'
 
 // Map modes to shader collections
 const SHADER_COLLECTIONS: Record<WebGLComparisonCategory, Record<string, ComparisonShader>> = {
@@ -33,7 +37,9 @@ const SHADER_COLLECTIONS: Record<WebGLComparisonCategory, Record<string, Compari
   video: VIDEO_SHADERS,
   weighting: WEIGHTING_SHADERS,
   analysis: MERGED_ANALYSIS_SHADERS,
-  exposure: EXPOSURE_SHADERS
+  exposure: EXPOSURE_SHADERS,
+  perceptual: PERCEPTUAL_SHADERS,
+  artifact: ARTIFACT_SHADERS
 }
 
 // Map categories to variant lists
@@ -45,7 +51,9 @@ const VARIANT_LISTS: Record<WebGLComparisonCategory, string[]> = {
   video: VIDEO_VARIANTS,
   weighting: WEIGHTING_VARIANTS,
   analysis: MERGED_ANALYSIS_VARIANTS,
-  exposure: EXPOSURE_VARIANTS
+  exposure: EXPOSURE_VARIANTS,
+  perceptual: PERCEPTUAL_VARIANTS,
+  artifact: ARTIFACT_VARIANTS
 }
 
 // All shaders in a flat map
@@ -57,7 +65,9 @@ const ALL_SHADERS: Record<string, ComparisonShader> = {
   ...VIDEO_SHADERS,
   ...WEIGHTING_SHADERS,
   ...MERGED_ANALYSIS_SHADERS,
-  ...EXPOSURE_SHADERS
+  ...EXPOSURE_SHADERS,
+  ...PERCEPTUAL_SHADERS,
+  ...ARTIFACT_SHADERS
 }
 
 /**
@@ -160,6 +170,20 @@ export function getAllComparisonCategories(): ComparisonCategoryInfo[] {
       icon: '☀',
       description: 'Exposure analysis: false color, zebras, focus peaking, zone system',
       modes: EXPOSURE_VARIANTS as WebGLComparisonMode[]
+    },
+    {
+      id: 'perceptual',
+      label: 'Perceptual',
+      icon: '👁',
+      description: 'FLIP perceptual error: contrast sensitivity and edge-aware difference for a viewing distance',
+      modes: PERCEPTUAL_VARIANTS as WebGLComparisonMode[]
+    },
+    {
+      id: 'artifact',
+      label: 'Artifacts',
+      icon: '▩',
+      description: 'No-reference codec artifact maps: blockiness, banding and ringing of A and B',
+      modes: ARTIFACT_VARIANTS as WebGLComparisonMode[]
     }
   ]
 }
@@ -212,6 +236,8 @@ export {
   STRUCTURAL_ANALYSIS_SHADERS,
   ANALYSIS_SHADERS,
   EXPOSURE_SHADERS,
+  PERCEPTUAL_SHADERS,
+  ARTIFACT_SHADERS,
   MERGED_ANALYSIS_SHADERS,
   MERGED_ANALYSIS_VARIANTS
 }
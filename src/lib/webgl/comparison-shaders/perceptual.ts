@@ -0,0 +1,229 @@
+/**
+ * METRICS-003: FLIP Perceptual Error Shaders
+ * Contrast sensitivity filtering in YCxCz plus edge/point feature detection
+ * (Andersson et al. 2020), shown as a magma error map
+ */
+
+import { COMPARISON_COMMON, type ComparisonShader } from './common'
+
+// FLIP colour/feature pipelines shared by all perceptual modes
+const FLIP_UTILS = `
+uniform float u_pixelsPerDegree;
+
+const float FLIP_PI = 3.14159265;
+const float FLIP_QC = 0.7;
+const float FLIP_QF = 0.5;
+const float FLIP_PC = 0.4;
+const float FLIP_PT = 0.95;
+const float FLIP_GW = 0.082;
+const vec3 FLIP_WHITE = vec3(0.950428545, 1.0, 1.088900371);
+
+// Linear RGB to XYZ normalised by the reference white
+vec3 flipLinearToXyzN(vec3 c) {
+  return vec3(
+    dot(c, vec3(0.4124564, 0.3575761, 0.1804375)),
+    dot(c, vec3(0.2126729, 0.7151522, 0.0721750)),
+    dot(c, vec3(0.0193339, 0.1191920, 0.9503041))
+  ) / FLIP_WHITE;
+}
+
+// sRGB to YCxCz (linearised CIELab opponent space)
+vec3 flipYcxcz(vec3 srgb) {
+  vec3 n = flipLinearToXyzN(srgbToLinear(srgb));
+  return vec3(116.0 * n.y - 16.0, 500.0 * (n.x - n.y), 200.0 * (n.y - n.z));
+}
+
+// YCxCz back to linear RGB, clamped to gamut
+vec3 flipYcxczToLinear(vec3 c) {
+  float ny = (c.x + 16.0) / 116.0;
+  vec3 xyz = vec3(c.y / 500.0 + ny, ny, ny - c.z / 200.0) * FLIP_WHITE;
+  vec3 rgb = vec3(
+    dot(xyz, vec3(3.2404542, -1.5371385, -0.4985314)),
+    dot(xyz, vec3(-0.9692660, 1.8760108, 0.0415560)),
+    dot(xyz, vec3(0.0556434, -0.2040259, 1.0572252))
+  );
+  return clamp(rgb, 0.0, 1.0);
+}
+
+// Linear RGB to Hunt-adjusted CIELab
+vec3 flipHuntLab(vec3 linear) {
+  vec3 n = flipLinearToXyzN(linear);
+  vec3 f = mix(7.787 * n + 16.0 / 116.0, pow(max(n, vec3(0.0)), vec3(1.0 / 3.0)), step(0.008856, n));
+  float L = 116.0 * f.y - 16.0;
+  return vec3(L, 0.01 * L * 500.0 * (f.x - f.y), 0.01 * L * 200.0 * (f.y - f.z));
+}
+
+float flipHyAB(vec3 lab1, vec3 lab2) {
+  return abs(lab1.x - lab2.x) + length(lab1.yz - lab2.yz);
+}
+
+// One Gaussian term of a contrast sensitivity filter (r2 in degrees squared)
+float flipCsfTerm(float r2, float a, float b) {
+  return a * (FLIP_PI / b) * exp(-FLIP_PI * FLIP_PI * r2 / b);
+}
+
+// Magma colormap (polynomial fit)
+vec3 magma(float t) {
+  t = clamp(t, 0.0, 1.0);
+  const vec3 c0 = vec3(-0.002136485053939582, -0.000749655052795221, -0.005386127855323933);
+  const vec3 c1 = vec3(0.2516605407371642, 0.6775232436837668, 2.494026599312351);
+  const vec3 c2 = vec3(8.353717279216625, -3.577719514958484, 0.3144679030132573);
+  const vec3 c3 = vec3(-27.66873308576866, 14.26473078096533, -13.64921318813922);
+  const vec3 c4 = vec3(52.17613981234068, -27.94360607168351, 12.94416944238394);
+  const vec3 c5 = vec3(-50.76852536473588, 29.04658282127291, 4.23415299384598);
+  const vec3 c6 = vec3(18.65570506591883, -11.48977351997711, -5.601961508734096);
+  return clamp(c0 + t * (c1 + t * (c2 + t * (c3 + t * (c4 + t * (c5 + t * c6))))), 0.0, 1.0);
+}
+
+// Returns (FLIP, colour error, feature error)
+vec3 computeFlip(vec2 uv) {
+  vec2 texel = 1.0 / u_resolution;
+  float ppd = max(u_pixelsPerDegree, 1.0);
+
+  // Fine taps: achromatic and red-green CSFs (narrow kernels)
+  float fineStep = max(1.0, ppd / 67.0);
+  vec2 fineA = vec2(0.0);
+  vec2 fineB = vec2(0.0);
+  vec2 fineW = vec2(0.0);
+  for (int y = -3; y <= 3; y++) {
+    for (int x = -3; x <= 3; x++) {
+      vec2 offset = vec2(float(x), float(y)) * fineStep;
+      float r2 = dot(offset, offset) / (ppd * ppd);
+      vec2 w = vec2(flipCsfTerm(r2, 1.0, 0.0047), flipCsfTerm(r2, 1.0, 0.0053));
+      vec2 sampleUV = uv + offset * texel;
+      fineA += flipYcxcz(sampleTextureA(sampleUV).rgb).xy * w;
+      fineB += flipYcxcz(sampleTextureB(sampleUV).rgb).xy * w;
+      fineW += w;
+    }
+  }
+
+  // Coarse taps: blue-yellow CSF and edge/point detectors on luminance
+  float coarseStep = max(1.0, ppd / 33.5);
+  float sd = max(0.5 * FLIP_GW * ppd, 0.5);
+  float czA = 0.0;
+  float czB = 0.0;
+  float czW = 0.0;
+  vec4 edgeA = vec4(0.0);   // xy: positive lobes, zw: negative lobes
+  vec4 edgeB = vec4(0.0);
+  vec4 pointA = vec4(0.0);
+  vec4 pointB = vec4(0.0);
+  vec4 edgeW = vec4(0.0);
+  vec4 pointW = vec4(0.0);
+  for (int y = -5; y <= 5; y++) {
+    for (int x = -5; x <= 5; x++) {
+      vec2 offset = vec2(float(x), float(y)) * coarseStep;
+      float r2 = dot(offset, offset) / (ppd * ppd);
+      float w = flipCsfTerm(r2, 34.1, 0.04) + flipCsfTerm(r2, 13.5, 0.025);
+      vec2 sampleUV = uv + offset * texel;
+      vec3 a = flipYcxcz(sampleTextureA(sampleUV).rgb);
+      vec3 b = flipYcxcz(sampleTextureB(sampleUV).rgb);
+      czA += a.z * w;
+      czB += b.z * w;
+      czW += w;
+
+      float g = exp(-dot(offset, offset) / (2.0 * sd * sd));
+      vec2 dg = -offset * g;
+      vec2 ddg = (offset * offset / (sd * sd) - 1.0) * g;
+      vec4 dgSplit = vec4(max(dg, 0.0), max(-dg, 0.0));
+      vec4 ddgSplit = vec4(max(ddg, 0.0), max(-ddg, 0.0));
+      float lumA = (a.x + 16.0) / 116.0;
+      float lumB = (b.x + 16.0) / 116.0;
+      edgeA += dgSplit * lumA;
+      edgeB += dgSplit * lumB;
+      pointA += ddgSplit * lumA;
+      pointB += ddgSplit * lumB;
+      edgeW += dgSplit;
+      pointW += ddgSplit;
+    }
+  }
+
+  // Colour pipeline
+  vec3 filteredA = vec3(fineA / fineW, czA / czW);
+  vec3 filteredB = vec3(fineB / fineW, czB / czW);
+  float dc = pow(flipHyAB(flipHuntLab(flipYcxczToLinear(filteredA)), flipHuntLab(flipYcxczToLinear(filteredB))), FLIP_QC);
+  float cmax = pow(flipHyAB(flipHuntLab(vec3(0.0, 1.0, 0.0)), flipHuntLab(vec3(0.0, 0.0, 1.0))), FLIP_QC);
+  float pccmax = FLIP_PC * cmax;
+  dc = dc < pccmax
+    ? dc * (FLIP_PT / pccmax)
+    : FLIP_PT + ((dc - pccmax) / (cmax - pccmax)) * (1.0 - FLIP_PT);
+
+  // Feature pipeline (positive and negative lobes normalised separately)
+  vec4 ew = max(edgeW, vec4(1e-6));
+  vec4 pw = max(pointW, vec4(1e-6));
+  float edgesA = length(edgeA.xy / ew.xy - edgeA.zw / ew.zw);
+  float edgesB = length(edgeB.xy / ew.xy - edgeB.zw / ew.zw);
+  float pointsA = length(pointA.xy / pw.xy - pointA.zw / pw.zw);
+  float pointsB = length(pointB.xy / pw.xy - pointB.zw / pw.zw);
+  float df = pow(max(abs(edgesA - edgesB), abs(pointsA - pointsB)) / sqrt(2.0), FLIP_QF);
+
+  float flip = dc > 0.0 ? pow(dc, 1.0 - df) : 0.0;
+  return vec3(flip, dc, df);
+}
+`
+
+/**
+ * Full FLIP error map
+ */
+const PERCEPTUAL_FLIP: ComparisonShader = {
+  name: 'perceptual-flip',
+  label: 'FLIP Error Map',
+  category: 'perceptual',
+  description: 'FLIP perceptual error: contrast-sensitivity filtered colour difference amplified at edges, for the set viewing distance',
+  fragment: `${COMPARISON_COMMON}
+${FLIP_UTILS}
+
+void main() {
+  vec3 flip = computeFlip(v_texCoord);
+  gl_FragColor = vec4(magma(flip.x), 1.0);
+}
+`
+}
+
+/**
+ * Colour pipeline only
+ */
+const PERCEPTUAL_FLIP_COLOR: ComparisonShader = {
+  name: 'perceptual-flip-color',
+  label: 'FLIP Color Error',
+  category: 'perceptual',
+  description: 'Colour component of FLIP: HyAB difference after spatial contrast sensitivity filtering',
+  fragment: `${COMPARISON_COMMON}
+${FLIP_UTILS}
+
+void main() {
+  vec3 flip = computeFlip(v_texCoord);
+  gl_FragColor = vec4(magma(flip.y), 1.0);
+}
+`
+}
+
+/**
+ * Feature pipeline only
+ */
+const PERCEPTUAL_FLIP_FEATURE: ComparisonShader = {
+  name: 'perceptual-flip-feature',
+  label: 'FLIP Feature Error',
+  category: 'perceptual',
+  description: 'Feature component of FLIP: differences in edges and points (ringing, blur, aliasing)',
+  fragment: `${COMPARISON_COMMON}
+${FLIP_UTILS}
+
+void main() {
+  vec3 flip = computeFlip(v_texCoord);
+  gl_FragColor = vec4(magma(flip.z), 1.0);
+}
+`
+}
+
+// Export all perceptual shaders
+export const PERCEPTUAL_SHADERS: Record<string, ComparisonShader> = {
+  'perceptual-flip': PERCEPTUAL_FLIP,
+  'perceptual-flip-color': PERCEPTUAL_FLIP_COLOR,
+  'perceptual-flip-feature': PERCEPTUAL_FLIP_FEATURE
+}
+
+export const PERCEPTUAL_VARIANTS = [
+  'perceptual-flip',
+  'perceptual-flip-color',
+  'perceptual-flip-feature'
+]
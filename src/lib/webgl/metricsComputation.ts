@@ -2,31 +2,66 @@
  * WebGL Analysis Metrics Computation
  * WEBGL-001: Compute SSIM, Delta E, pixel difference stats from image data
  * WEBGL-004: Support ROI (Region of Interest) for localized analysis
+ * METRICS-002: MS-SSIM, CIEDE2000 and per-channel PSNR
+ * METRICS-003: Mean FLIP perceptual error
+ * ARTIFACT-001: Blockiness, banding and ringing per side at native resolution
+ * METRICS-004: Sharpness, noise and naturalness per side at native resolution
+ * MASK-001: Painted masks restrict every metric within the ROI
+ * WORKER-001: Frame sources may be ImageBitmaps inside the metrics worker
+ * HDR-001: Linear float metrics for OpenEXR / Radiance images
  */
 
-import type { WebGLAnalysisMetrics, ROIRect } from '../../types'
+import type { WebGLAnalysisMetrics, ArtifactScores, FrameQualityScores, HDRDisplaySettings, MetricMask, NoReferenceScores, ROIRect } from '../../types'
+import {
+  rgbToLab,
+  deltaE2000,
+  calculateMSSSIM,
+  calculatePSNR,
+  calculateSSIM as calculateFrameSSIM,
+  calculateChannelPSNR,
+  calculateFLIP,
+  calculateMaskBreakdown,
+  calculateArtifactScores,
+  calculateNoReferenceFromSource,
+  calculateNoReferenceScores,
+  getNativeFrameCrop,
+  getFrameImageData,
+  FLIP_DEFAULT_PPD,
+  type FrameSource,
+  type LabColor,
+  type PixelData
+} from '../metrics'
+import { buildMetricRegion, buildMaskBreakdownRegions, cropPlaneToROI, getROIBounds } from '../metricMask'
+import { applyHDRDisplay, linearizeDisplayData, toLinearMetricData } from '../hdrDisplay'
+
+// HDR-001: Pixels with their size (ImageData, or linear floats)
+interface PixelBuffer {
+  data: PixelData
+  width: number
+  height: number
+}
 
 /**
  * Sample pixels from image data at regular intervals for performance
  * WEBGL-004: Support ROI region for localized sampling
+ * MASK-001: Skip pixels outside the full-frame region plane
  */
 function samplePixels(
-  data: Uint8ClampedArray,
+  data: PixelData,
   width: number,
   height: number,
   sampleRate: number = 4,
-  roi?: ROIRect | null
+  roi?: ROIRect | null,
+  region?: Uint8Array | null
 ): { r: number; g: number; b: number }[] {
   const samples: { r: number; g: number; b: number }[] = []
 
   // Calculate actual pixel bounds from ROI (normalized 0-1 coords)
-  const startX = roi ? Math.floor(roi.x * width) : 0
-  const startY = roi ? Math.floor(roi.y * height) : 0
-  const endX = roi ? Math.floor((roi.x + roi.width) * width) : width
-  const endY = roi ? Math.floor((roi.y + roi.height) * height) : height
+  const { startX, startY, endX, endY } = getROIBounds(width, height, roi)
 
   for (let y = startY; y < endY; y += sampleRate) {
     for (let x = startX; x < endX; x += sampleRate) {
+      if (region && !region[y * width + x]) continue
       const i = (y * width + x) * 4
       samples.push({
         r: data[i],
@@ -39,41 +74,10 @@ function samplePixels(
   return samples
 }
 
-/**
- * Convert RGB to LAB color space for perceptual comparison
- */
-function rgbToLab(r: number, g: number, b: number): { L: number; a: number; b: number } {
-  // Normalize RGB to 0-1
-  let rn = r / 255
-  let gn = g / 255
-  let bn = b / 255
-
-  // Apply gamma correction
-  rn = rn > 0.04045 ? Math.pow((rn + 0.055) / 1.055, 2.4) : rn / 12.92
-  gn = gn > 0.04045 ? Math.pow((gn + 0.055) / 1.055, 2.4) : gn / 12.92
-  bn = bn > 0.04045 ? Math.pow((bn + 0.055) / 1.055, 2.4) : bn / 12.92
-
-  // Convert to XYZ
-  const x = (rn * 0.4124564 + gn * 0.3575761 + bn * 0.1804375) / 0.95047
-  const y = (rn * 0.2126729 + gn * 0.7151522 + bn * 0.0721750)
-  const z = (rn * 0.0193339 + gn * 0.1191920 + bn * 0.9503041) / 1.08883
-
-  // Convert to LAB
-  const fx = x > 0.008856 ? Math.pow(x, 1/3) : (7.787 * x) + 16/116
-  const fy = y > 0.008856 ? Math.pow(y, 1/3) : (7.787 * y) + 16/116
-  const fz = z > 0.008856 ? Math.pow(z, 1/3) : (7.787 * z) + 16/116
-
-  return {
-    L: (116 * fy) - 16,
-    a: 500 * (fx - fy),
-    b: 200 * (fy - fz)
-  }
-}
-
 /**
  * Calculate Delta E (CIE94) between two LAB colors
  */
-function deltaE94(lab1: { L: number; a: number; b: number }, lab2: { L: number; a: number; b: number }): number {
+function deltaE94(lab1: LabColor, lab2: LabColor): number {
   const dL = lab1.L - lab2.L
   const da = lab1.a - lab2.a
   const db = lab1.b - lab2.b
@@ -100,6 +104,58 @@ function deltaE94(lab1: { L: number; a: number; b: number }, lab2: { L: number;
   return Math.sqrt(t1 * t1 + t2 * t2 + t3 * t3)
 }
 
+/**
+ * METRICS-002: Copy the ROI region out of RGBA data so full-grid
+ * metrics (MS-SSIM, PSNR) see exactly the analysed area
+ */
+function cropToROI<T extends PixelData>(
+  data: T,
+  width: number,
+  height: number,
+  roi?: ROIRect | null
+): { data: T; width: number; height: number } {
+  if (!roi) return { data, width, height }
+
+  const { startX, startY, endX, endY } = getROIBounds(width, height, roi)
+  const cropW = Math.max(0, endX - startX)
+  const cropH = Math.max(0, endY - startY)
+
+  const out = (data instanceof Float32Array ? new Float32Array(cropW * cropH * 4) : new Uint8ClampedArray(cropW * cropH * 4)) as T
+  for (let y = 0; y < cropH; y++) {
+    const srcStart = ((startY + y) * width + startX) * 4
+    out.set(data.subarray(srcStart, srcStart + cropW * 4), y * cropW * 4)
+  }
+
+  return { data: out, width: cropW, height: cropH }
+}
+
+/**
+ * Empty metrics result used when no pixel data is available
+ */
+function emptyMetrics(): WebGLAnalysisMetrics {
+  return {
+    ssim: 0,
+    msssim: 0,
+    psnr: 0,
+    psnrYCbCr: { y: 0, cb: 0, cr: 0 },
+    deltaE: 0,
+    deltaE2000: 0,
+    flip: 0,
+    artifactsA: null,
+    artifactsB: null,
+    noReferenceA: null,
+    noReferenceB: null,
+    maskBreakdown: null,
+    diffPixelPercent: 0,
+    peakDifference: 0,
+    meanDifference: 0,
+    timestamp: Date.now(),
+    passPixelCount: 0,
+    failPixelCount: 0,
+    totalPixelCount: 0
+  }
+}
+
 /**
  * Calculate simplified SSIM for a window of pixels
  */
@@ -154,28 +210,22 @@ function calculateSSIM(
  * @param canvasB - Canvas containing image B
  * @param threshold - Threshold for "different" pixel detection (0-255)
  * @param roi - Optional ROI region for localized analysis
+ * @param pixelsPerDegree - FLIP viewing condition in canvas pixels
+ * @param mask - Optional painted mask, restricts metrics within the ROI
  */
 export function computeWebGLMetrics(
   canvasA: HTMLCanvasElement | OffscreenCanvas,
   canvasB: HTMLCanvasElement | OffscreenCanvas,
   threshold: number = 10,
-  roi?: ROIRect | null
+  roi?: ROIRect | null,
+  pixelsPerDegree: number = FLIP_DEFAULT_PPD,
+  mask?: MetricMask | null
 ): WebGLAnalysisMetrics {
   const ctxA = canvasA.getContext('2d')
   const ctxB = canvasB.getContext('2d')
 
   if (!ctxA || !ctxB) {
-    return {
-      ssim: 0,
-      deltaE: 0,
-      diffPixelPercent: 0,
-      peakDifference: 0,
-      meanDifference: 0,
-      timestamp: Date.now(),
-      passPixelCount: 0,
-      failPixelCount: 0,
-      totalPixelCount: 0
-    }
+    return emptyMetrics()
   }
 
   const width = Math.min(canvasA.width, canvasB.width)
@@ -184,34 +234,66 @@ export function computeWebGLMetrics(
   const imageDataA = ctxA.getImageData(0, 0, width, height)
   const imageDataB = ctxB.getImageData(0, 0, width, height)
 
-  return computeMetricsFromImageData(imageDataA, imageDataB, threshold, roi)
+  return computeMetricsFromImageData(imageDataA, imageDataB, threshold, roi, pixelsPerDegree, mask)
 }
 
 /**
  * Compute metrics directly from image data
  * WEBGL-004: Support ROI region for localized analysis
+ * MASK-001: Support a painted mask within the ROI
+ * HDR-001: Also takes linear float pixels (see PixelData)
  */
 export function computeMetricsFromImageData(
-  imageDataA: ImageData,
-  imageDataB: ImageData,
+  imageDataA: PixelBuffer,
+  imageDataB: PixelBuffer,
   threshold: number = 10,
-  roi?: ROIRect | null
+  roi?: ROIRect | null,
+  pixelsPerDegree: number = FLIP_DEFAULT_PPD,
+  mask?: MetricMask | null
 ): WebGLAnalysisMetrics {
   const width = imageDataA.width
   const height = imageDataA.height
   const dataA = imageDataA.data
   const dataB = imageDataB.data
 
+  // MASK-001: Region and breakdown planes in ROI-crop coordinates
+  const region = buildMetricRegion(width, height, null, mask)
+  const cropRegion = region ? cropPlaneToROI(region, width, height, roi) : null
+  const breakdownRegions = buildMaskBreakdownRegions(width, height, roi, mask)
+
   // Sample pixels for performance (every 4th pixel)
   const sampleRate = 4
-  const pixelsA = samplePixels(dataA, width, height, sampleRate, roi)
-  const pixelsB = samplePixels(dataB, width, height, sampleRate, roi)
+  const pixelsA = samplePixels(dataA, width, height, sampleRate, roi, region)
+  const pixelsB = samplePixels(dataB, width, height, sampleRate, roi, region)
 
   // Calculate SSIM
   const ssim = calculateSSIM(pixelsA, pixelsB)
 
+  // METRICS-002: Full-grid metrics over the (cropped) analysis region
+  const cropA = cropToROI(dataA, width, height, roi)
+  const cropB = cropToROI(dataB, width, height, roi)
+  const msssim = calculateMSSSIM(cropA.data, cropB.data, cropA.width, cropA.height, cropRegion)
+  const psnr = calculatePSNR(cropA.data, cropB.data, cropRegion)
+  const psnrYCbCr = calculateChannelPSNR(cropA.data, cropB.data, cropRegion)
+  // METRICS-003: FLIP needs the full grid for its spatial filters
+  // HDR-001: It is defined on display values, linear floats are skipped
+  const flip = cropA.data instanceof Uint8ClampedArray && cropB.data instanceof Uint8ClampedArray
+    ? calculateFLIP(cropA.data, cropB.data, cropA.width, cropA.height, pixelsPerDegree, cropRegion)
+    : 0
+  const maskBreakdown = breakdownRegions
+    ? calculateMaskBreakdown(
+        cropA.data,
+        cropB.data,
+        cropA.width,
+        cropA.height,
+        cropPlaneToROI(breakdownRegions.inside, width, height, roi),
+        cropPlaneToROI(breakdownRegions.outside, width, height, roi)
+      )
+    : null
+
   // Calculate Delta E and pixel differences
   let totalDeltaE = 0
+  let totalDeltaE2000 = 0
   let diffPixelCount = 0
   let peakDiff = 0
   let totalDiff = 0
@@ -238,6 +320,7 @@ export function computeMetricsFromImageData(
     const labA = rgbToLab(pA.r, pA.g, pA.b)
     const labB = rgbToLab(pB.r, pB.g, pB.b)
     totalDeltaE += deltaE94(labA, labB)
+    totalDeltaE2000 += deltaE2000(labA, labB)
   }
 
   const numSamples = pixelsA.length
@@ -246,7 +329,17 @@ export function computeMetricsFromImageData(
 
   return {
     ssim: Math.max(0, Math.min(1, ssim)),
+    msssim: Math.max(0, Math.min(1, msssim)),
+    psnr,
+    psnrYCbCr,
     deltaE: numSamples > 0 ? totalDeltaE / numSamples : 0,
+    deltaE2000: numSamples > 0 ? totalDeltaE2000 / numSamples : 0,
+    flip,
+    artifactsA: null,
+    artifactsB: null,
+    noReferenceA: null,
+    noReferenceB: null,
+    maskBreakdown,
     diffPixelPercent: numSamples > 0 ? (diffPixelCount / numSamples) * 100 : 0,
     peakDifference: peakDiff,
     meanDifference: numSamples > 0 ? totalDiff / numSamples : 0,
@@ -259,52 +352,213 @@ export function computeMetricsFromImageData(
 }
 
 /**
- * Compute metrics from WebGL canvas by reading pixels
- * This is used when we have a WebGL canvas and need to read back pixels
+ * Reduced grid the analysis overlay samples a display of the given size on
+ */
+export function getAnalysisSampleSize(width: number, height: number): { sampleWidth: number; sampleHeight: number } {
+  return { sampleWidth: Math.min(320, width), sampleHeight: Math.min(180, height) }
+}
+
+/**
+ * Compute metrics from two decoded frames by drawing them at a reduced size
  * WEBGL-004: Support ROI region for localized analysis
+ * WORKER-001: Takes ImageBitmaps too, so it runs in the metrics worker
  */
-export function computeMetricsFromWebGLCanvas(
-  _gl: WebGLRenderingContext,
+export function computeMetricsFromFrames(
+  sourceA: FrameSource,
+  sourceB: FrameSource,
   width: number,
   height: number,
-  videoA: HTMLVideoElement | HTMLImageElement,
-  videoB: HTMLVideoElement | HTMLImageElement,
   threshold: number = 10,
-  roi?: ROIRect | null
+  roi?: ROIRect | null,
+  pixelsPerDegree: number = FLIP_DEFAULT_PPD,
+  mask?: MetricMask | null
 ): WebGLAnalysisMetrics {
-  // Create temporary canvases to draw the video frames
-  const canvasA = document.createElement('canvas')
-  const canvasB = document.createElement('canvas')
-
   // Use smaller size for performance
-  const sampleWidth = Math.min(320, width)
-  const sampleHeight = Math.min(180, height)
+  const { sampleWidth, sampleHeight } = getAnalysisSampleSize(width, height)
 
-  canvasA.width = sampleWidth
-  canvasA.height = sampleHeight
-  canvasB.width = sampleWidth
-  canvasB.height = sampleHeight
+  const imageDataA = getFrameImageData(sourceA, sampleWidth, sampleHeight)
+  const imageDataB = getFrameImageData(sourceB, sampleWidth, sampleHeight)
 
-  const ctxA = canvasA.getContext('2d')
-  const ctxB = canvasB.getContext('2d')
+  if (!imageDataA || !imageDataB) {
+    return emptyMetrics()
+  }
 
-  if (!ctxA || !ctxB) {
+  // METRICS-003: Viewing condition is given in display pixels, scale to the sample grid
+  const samplePPD = pixelsPerDegree * (sampleWidth / width)
+
+  return {
+    ...computeMetricsFromImageData(imageDataA, imageDataB, threshold, roi, samplePPD, mask),
+    artifactsA: computeArtifactScoresFromSource(sourceA, roi),
+    artifactsB: computeArtifactScoresFromSource(sourceB, roi),
+    noReferenceA: calculateNoReferenceFromSource(sourceA, roi),
+    noReferenceB: calculateNoReferenceFromSource(sourceB, roi),
+  }
+}
+
+/**
+ * METRICS-001: Per-frame quality report scores of one frame pair
+ * WORKER-001: Runs in the metrics worker on transferred frames
+ */
+export function computeFrameQualityScores(
+  sourceA: FrameSource,
+  sourceB: FrameSource,
+  sampleWidth: number,
+  sampleHeight: number,
+  threshold: number = 10,
+  roi?: ROIRect | null,
+  mask?: MetricMask | null
+): FrameQualityScores | null {
+  const imageDataA = getFrameImageData(sourceA, sampleWidth, sampleHeight)
+  const imageDataB = getFrameImageData(sourceB, sampleWidth, sampleHeight)
+  if (!imageDataA || !imageDataB) return null
+
+  const region = buildMetricRegion(sampleWidth, sampleHeight, roi, mask)
+  const stats = computeMetricsFromImageData(imageDataA, imageDataB, threshold, roi, undefined, mask)
+
+  return {
+    psnr: calculatePSNR(imageDataA.data, imageDataB.data, region),
+    psnrY: stats.psnrYCbCr.y,
+    psnrCb: stats.psnrYCbCr.cb,
+    psnrCr: stats.psnrYCbCr.cr,
+    ssim: calculateFrameSSIM(imageDataA.data, imageDataB.data, region),
+    msssim: stats.msssim,
+    deltaE: stats.deltaE,
+    deltaE2000: stats.deltaE2000,
+    diffPixelPercent: stats.diffPixelPercent,
+    peakDifference: stats.peakDifference,
+    // ARTIFACT-001: Scored on the decoded frames, not the downscaled samples
+    artifactsA: computeArtifactScoresFromSource(sourceA, roi),
+    artifactsB: computeArtifactScoresFromSource(sourceB, roi),
+  }
+}
+
+/**
+ * ARTIFACT-001: Score compression artifacts on a native-resolution crop
+ * from the centre of the ROI (or frame). Returns null if the source has no
+ * decoded frame yet.
+ */
+export function computeArtifactScoresFromSource(
+  source: FrameSource,
+  roi?: ROIRect | null
+): ArtifactScores | null {
+  const crop = getNativeFrameCrop(source, roi)
+  return crop ? calculateArtifactScores(crop.data, crop.width, crop.height) : null
+}
+
+/**
+ * HDR-001: One side of a comparison involving HDR images. 8-bit frames are
+ * linearized from sRGB; HDR sides come as linear floats on the sample grid,
+ * with an optional native-resolution linear crop for the per-side scores.
+ */
+export type HDRMetricsSide =
+  | { kind: 'frame'; frame: FrameSource }
+  | {
+      kind: 'linear'
+      sample: Float32Array
+      crop: { data: Float32Array; width: number; height: number } | null
+    }
+
+interface ResolvedHDRSide {
+  linear: Float32Array
+  display: Uint8ClampedArray
+  artifacts: ArtifactScores | null
+  noReference: NoReferenceScores | null
+}
+
+function resolveHDRSide(
+  side: HDRMetricsSide,
+  sampleWidth: number,
+  sampleHeight: number,
+  display: HDRDisplaySettings,
+  roi: ROIRect | null | undefined,
+  scoreSides: boolean
+): ResolvedHDRSide | null {
+  if (side.kind === 'frame') {
+    const imageData = getFrameImageData(side.frame, sampleWidth, sampleHeight)
+    if (!imageData) return null
     return {
-      ssim: 0,
-      deltaE: 0,
-      diffPixelPercent: 0,
-      peakDifference: 0,
-      meanDifference: 0,
-      timestamp: Date.now(),
-      passPixelCount: 0,
-      failPixelCount: 0,
-      totalPixelCount: 0
+      linear: linearizeDisplayData(imageData.data),
+      display: imageData.data,
+      artifacts: scoreSides ? computeArtifactScoresFromSource(side.frame, roi) : null,
+      noReference: scoreSides ? calculateNoReferenceFromSource(side.frame, roi) : null,
     }
   }
 
-  // Draw video frames to canvases
-  ctxA.drawImage(videoA, 0, 0, sampleWidth, sampleHeight)
-  ctxB.drawImage(videoB, 0, 0, sampleWidth, sampleHeight)
+  const crop = scoreSides && side.crop
+    ? { data: applyHDRDisplay(side.crop.data, display), width: side.crop.width, height: side.crop.height }
+    : null
+  return {
+    linear: toLinearMetricData(side.sample, display),
+    display: applyHDRDisplay(side.sample, display),
+    artifacts: crop ? calculateArtifactScores(crop.data, crop.width, crop.height) : null,
+    noReference: crop ? calculateNoReferenceScores(crop.data, crop.width, crop.height) : null,
+  }
+}
 
-  return computeWebGLMetrics(canvasA, canvasB, threshold, roi)
+/**
+ * HDR-001: Metrics of a pair where at least one side is an HDR image.
+ * PSNR, SSIM, MS-SSIM and the pixel differences are computed on exposed
+ * linear floats (display white = 255, highlights above it still count).
+ * ΔE, FLIP and the per-side scores are defined for display-referred
+ * values, so they use the tone-mapped image as shown.
+ */
+export function computeHDRMetrics(
+  sideA: HDRMetricsSide,
+  sideB: HDRMetricsSide,
+  sampleWidth: number,
+  sampleHeight: number,
+  display: HDRDisplaySettings,
+  threshold: number = 10,
+  roi?: ROIRect | null,
+  pixelsPerDegree: number = FLIP_DEFAULT_PPD,
+  mask?: MetricMask | null,
+  scoreSides: boolean = true
+): WebGLAnalysisMetrics | null {
+  const a = resolveHDRSide(sideA, sampleWidth, sampleHeight, display, roi, scoreSides)
+  const b = resolveHDRSide(sideB, sampleWidth, sampleHeight, display, roi, scoreSides)
+  if (!a || !b) return null
+
+  const linear = computeMetricsFromImageData(
+    { data: a.linear, width: sampleWidth, height: sampleHeight },
+    { data: b.linear, width: sampleWidth, height: sampleHeight },
+    threshold,
+    roi,
+    pixelsPerDegree,
+    mask
+  )
+  const perceptual = computeMetricsFromImageData(
+    { data: a.display, width: sampleWidth, height: sampleHeight },
+    { data: b.display, width: sampleWidth, height: sampleHeight },
+    threshold,
+    roi,
+    pixelsPerDegree,
+    mask
+  )
+
+  // MASK-001: Breakdown ΔE00 from the display image as well
+  const breakdown = linear.maskBreakdown
+  const perceptualBreakdown = perceptual.maskBreakdown
+  const maskBreakdown = breakdown && perceptualBreakdown
+    ? {
+        coverage: breakdown.coverage,
+        inside: breakdown.inside && perceptualBreakdown.inside
+          ? { ...breakdown.inside, deltaE2000: perceptualBreakdown.inside.deltaE2000 }
+          : breakdown.inside,
+        outside: breakdown.outside && perceptualBreakdown.outside
+          ? { ...breakdown.outside, deltaE2000: perceptualBreakdown.outside.deltaE2000 }
+          : breakdown.outside,
+      }
+    : breakdown
+
+  return {
+    ...linear,
+    deltaE: perceptual.deltaE,
+    deltaE2000: perceptual.deltaE2000,
+    flip: perceptual.flip,
+    maskBreakdown,
+    artifactsA: a.artifacts,
+    artifactsB: b.artifacts,
+    noReferenceA: a.noReference,
+    noReferenceB: b.noReference,
+  }
 }
@@ -1,113 +1,487 @@
 /**
  * FIX-001: Undo/Redo System
- * Tracks history of timeline state for undo/redo operations
+ * HISTORY-001: Patch log spanning the timeline, keyframe, project and media
+ * stores. Every tracked field keeps a copy of its last known value; when a
+ * store changes, the fields that differ are recorded as before/after patches
+ * and undo / redo write those values back. Changes made in the same tick,
+ * inside a transaction, or repeated on the same fields within
+ * MERGE_WINDOW_MS become one entry.
  */
+import { useCallback, useEffect, useRef } from 'react'
 import { create } from 'zustand'
-import { useTimelineStore } from './timelineStore'
-import type { TimelineTrack } from '../types'
+import { useTimelineStore, type TimelineMarker } from './timelineStore'
+import { useKeyframeStore } from './keyframeStore'
+import { useProjectStore } from './projectStore'
+import { useMediaStore } from './mediaStore'
+import { generateId } from '../lib/utils'
+import type { ClipKeyframes } from '../lib/keyframes'
+import type { MediaFile, TimelineTrack, TextElement, WebGLComparisonSettings } from '../types'
 
-interface HistoryState {
-  tracks: TimelineTrack[]
-  duration: number
+export type HistoryDomain = 'timeline' | 'keyframes' | 'project' | 'media'
+
+export interface HistoryPatch {
+  domain: HistoryDomain
+  key: string
+  before: unknown
+  after: unknown
+}
+
+export interface HistoryEntry {
+  id: string
+  label: string
+  timestamp: number
+  patches: HistoryPatch[]
 }
 
 interface HistoryStore {
-  past: HistoryState[]
-  future: HistoryState[]
+  past: HistoryEntry[]
+  future: HistoryEntry[] // future[0] is the next redo
   maxHistory: number
 
   // Actions
-  pushState: () => void
+  pushState: (label?: string) => void
+  beginTransaction: (label: string) => void
+  endTransaction: () => void
   undo: () => void
   redo: () => void
+  jumpTo: (entryId: string | null) => void
   canUndo: () => boolean
   canRedo: () => boolean
   clear: () => void
+  // Persistence
+  suspend: () => void
+  resume: () => void
+  serialize: () => string
+  restore: (json: string) => void
 }
 
-const MAX_HISTORY = 50
+const MAX_HISTORY = 100
+// Consecutive edits to the same fields closer together than this merge
+const MERGE_WINDOW_MS = 1000
 
-// Deep clone tracks to avoid reference issues
-const cloneTracks = (tracks: TimelineTrack[]): TimelineTrack[] => {
-  return tracks.map(track => ({
-    ...track,
-    clips: track.clips.map(clip => ({ ...clip })),
-  }))
+interface TrackedField {
+  domain: HistoryDomain
+  key: string
+  // Recorded alongside other changes but never opens an entry on its own
+  companion?: boolean
+  clone?: (value: unknown) => unknown
+  equals?: (a: unknown, b: unknown) => boolean
+  toJSON?: (value: unknown) => unknown
+  fromJSON?: (value: unknown) => unknown
+  label: (before: unknown, after: unknown) => string
 }
 
-export const useHistoryStore = create<HistoryStore>((set, get) => ({
-  past: [],
-  future: [],
-  maxHistory: MAX_HISTORY,
+// WebGL settings that follow the viewer rather than the comparison
+const TRANSIENT_WEBGL_KEYS = ['webglZoom', 'webglPanX', 'webglPanY', 'showCursorInspector', 'showROIControls', 'showMaskEditor'] as const
 
-  pushState: () => {
-    const timelineState = useTimelineStore.getState()
-    const currentState: HistoryState = {
-      tracks: cloneTracks(timelineState.tracks),
-      duration: timelineState.duration,
-    }
+const withoutTransientKeys = (settings: WebGLComparisonSettings) => {
+  const copy: Partial<WebGLComparisonSettings> = { ...settings }
+  TRANSIENT_WEBGL_KEYS.forEach(key => delete copy[key])
+  return copy
+}
+
+const countClips = (tracks: TimelineTrack[]) => tracks.reduce((sum, track) => sum + track.clips.length, 0)
 
-    set((state) => ({
-      past: [...state.past.slice(-MAX_HISTORY + 1), currentState],
-      future: [], // Clear future when new action is performed
-    }))
+const countLabel = (before: unknown[], after: unknown[], noun: string, editVerb = 'Edit') => {
+  if (after.length > before.length) return `Add ${noun}`
+  if (after.length < before.length) return `Remove ${noun}`
+  return `${editVerb} ${noun}`
+}
+
+const projectField = (key: string, label: string): TrackedField => ({ domain: 'project', key, label: () => label })
+
+// Ordered by priority: the first changed field names the entry
+const FIELDS: TrackedField[] = [
+  {
+    domain: 'media',
+    key: 'files',
+    // File objects are kept by reference; a removed file is processed again on restore
+    clone: value => [...(value as MediaFile[])],
+    equals: (a, b) => {
+      const before = a as MediaFile[]
+      const after = b as MediaFile[]
+      return before.length === after.length && before.every((file, i) => file.id === after[i].id)
+    },
+    toJSON: value => (value as MediaFile[]).map(file => file.id),
+    fromJSON: value => {
+      const files = useMediaStore.getState().files
+      return (value as string[]).flatMap(id => files.filter(file => file.id === id))
+    },
+    label: (before, after) => countLabel(before as MediaFile[], after as MediaFile[], 'media', 'Reorder'),
   },
+  {
+    domain: 'timeline',
+    key: 'tracks',
+    label: (before, after) => {
+      const a = before as TimelineTrack[]
+      const b = after as TimelineTrack[]
+      if (a.length !== b.length) return countLabel(a, b, 'track')
+      const clipsBefore = countClips(a)
+      const clipsAfter = countClips(b)
+      if (clipsAfter > clipsBefore) return 'Add clip'
+      if (clipsAfter < clipsBefore) return 'Remove clip'
+      return 'Edit clips'
+    },
+  },
+  {
+    domain: 'timeline',
+    key: 'textElements',
+    label: (before, after) => countLabel(before as TextElement[], after as TextElement[], 'text'),
+  },
+  {
+    domain: 'timeline',
+    key: 'markers',
+    label: (before, after) => countLabel(before as TimelineMarker[], after as TimelineMarker[], 'marker'),
+  },
+  {
+    domain: 'timeline',
+    key: 'loopRegion',
+    label: (_before, after) => (after ? 'Set loop region' : 'Clear loop region'),
+  },
+  { domain: 'timeline', key: 'duration', companion: true, label: () => 'Duration' },
+  {
+    domain: 'keyframes',
+    key: 'clipKeyframes',
+    toJSON: value => Array.from((value as Map<string, ClipKeyframes>).entries()),
+    fromJSON: value => new Map(value as [string, ClipKeyframes][]),
+    label: () => 'Edit keyframes',
+  },
+  projectField('comparisonMode', 'Comparison mode'),
+  projectField('blendMode', 'Blend mode'),
+  projectField('splitLayout', 'Split layout'),
+  projectField('sliderPosition', 'Move slider'),
+  projectField('sliderOrientation', 'Slider orientation'),
+  projectField('hideSlider', 'Toggle slider'),
+  projectField('aspectRatioSettings', 'Aspect ratio'),
+  {
+    domain: 'project',
+    key: 'webglComparisonSettings',
+    equals: (a, b) => JSON.stringify(withoutTransientKeys(a as WebGLComparisonSettings)) ===
+      JSON.stringify(withoutTransientKeys(b as WebGLComparisonSettings)),
+    label: (before, after) => {
+      const a = before as WebGLComparisonSettings
+      const b = after as WebGLComparisonSettings
+      if (JSON.stringify(a.roi) !== JSON.stringify(b.roi)) return 'ROI'
+      if (JSON.stringify(a.metricMask) !== JSON.stringify(b.metricMask)) return 'Metric mask'
+      if (a.mode !== b.mode) return 'Analysis mode'
+      return 'Analysis settings'
+    },
+  },
+  projectField('scopesSettings', 'Scopes settings'),
+  projectField('quadViewSettings', 'Quad view settings'),
+  projectField('radialLoupeSettings', 'Loupe settings'),
+  projectField('gridTileSettings', 'Grid tile settings'),
+  projectField('pixelGridSettings', 'Pixel grid settings'),
+  projectField('morphologicalSettings', 'Morphology settings'),
+  projectField('exportSettings', 'Export settings'),
+]
 
-  undo: () => {
-    const { past } = get()
-    if (past.length === 0) return
+const fieldId = (domain: HistoryDomain, key: string) => `${domain}.${key}`
+const FIELD_BY_ID = new Map(FIELDS.map(field => [fieldId(field.domain, field.key), field]))
+
+const cloneValue = (field: TrackedField, value: unknown) =>
+  field.clone ? field.clone(value) : structuredClone(value)
+
+const readDomain = (domain: HistoryDomain): Record<string, unknown> => {
+  switch (domain) {
+    case 'timeline': return useTimelineStore.getState() as unknown as Record<string, unknown>
+    case 'keyframes': return useKeyframeStore.getState() as unknown as Record<string, unknown>
+    case 'project': return useProjectStore.getState() as unknown as Record<string, unknown>
+    case 'media': return useMediaStore.getState() as unknown as Record<string, unknown>
+  }
+}
 
-    const timelineState = useTimelineStore.getState()
-    const currentState: HistoryState = {
-      tracks: cloneTracks(timelineState.tracks),
-      duration: timelineState.duration,
+const writeDomain = (domain: HistoryDomain, values: Record<string, unknown>) => {
+  switch (domain) {
+    case 'timeline':
+      useTimelineStore.setState(values)
+      break
+    case 'keyframes':
+      useKeyframeStore.setState(values)
+      break
+    case 'project': {
+      // Keep the current zoom, pan and panel toggles
+      const settings = values.webglComparisonSettings as WebGLComparisonSettings | undefined
+      if (settings) {
+        const current = useProjectStore.getState().webglComparisonSettings
+        const transient = Object.fromEntries(TRANSIENT_WEBGL_KEYS.map(key => [key, current[key]]))
+        values = { ...values, webglComparisonSettings: { ...settings, ...transient } }
+      }
+      useProjectStore.setState(values)
+      break
     }
+    case 'media':
+      useMediaStore.getState().restoreFiles(values.files as MediaFile[])
+      break
+  }
+}
 
-    const previousState = past[past.length - 1]
-    const newPast = past.slice(0, -1)
+// Copies of each field's last recorded value, and the store reference it came from
+const baselines = new Map<string, unknown>()
+const lastSeen = new Map<string, unknown>()
 
-    // Apply previous state to timeline
-    useTimelineStore.setState({
-      tracks: cloneTracks(previousState.tracks),
-      duration: previousState.duration,
-    })
+let applying = false
+let suspended = false
+// Open entry changes are merged into, until the next boundary
+let openEntryId: string | null = null
+let openLabel: string | null = null
+let openFieldIds = ''
+let lastChangeAt = 0
+let sameTick = false
+let transactionDepth = 0
+let transactionLabel: string | null = null
+// Label given to pushState for the next entry
+let pendingLabel: string | null = null
 
-    set({
-      past: newPast,
-      future: [currentState, ...get().future],
-    })
-  },
+const rebaseline = (fields: TrackedField[] = FIELDS) => {
+  fields.forEach(field => {
+    const value = readDomain(field.domain)[field.key]
+    baselines.set(fieldId(field.domain, field.key), cloneValue(field, value))
+    lastSeen.set(fieldId(field.domain, field.key), value)
+  })
+}
+
+const closeEntry = () => {
+  openEntryId = null
+  openLabel = null
+  openFieldIds = ''
+  sameTick = false
+}
+
+const deriveLabel = (patches: HistoryPatch[]) => {
+  const primary = patches.find(patch => !FIELD_BY_ID.get(fieldId(patch.domain, patch.key))?.companion) ?? patches[0]
+  return FIELD_BY_ID.get(fieldId(primary.domain, primary.key))!.label(primary.before, primary.after)
+}
+
+const sortPatches = (patches: HistoryPatch[]) => {
+  const order = (patch: HistoryPatch) => FIELDS.indexOf(FIELD_BY_ID.get(fieldId(patch.domain, patch.key))!)
+  return [...patches].sort((a, b) => order(a) - order(b))
+}
 
-  redo: () => {
-    const { future } = get()
-    if (future.length === 0) return
+const applyPatches = (patches: HistoryPatch[], side: 'before' | 'after') => {
+  const byDomain = new Map<HistoryDomain, Record<string, unknown>>()
+  patches.forEach(patch => {
+    const field = FIELD_BY_ID.get(fieldId(patch.domain, patch.key))!
+    const values = byDomain.get(patch.domain) ?? {}
+    values[patch.key] = cloneValue(field, patch[side])
+    byDomain.set(patch.domain, values)
+  })
+
+  applying = true
+  try {
+    byDomain.forEach((values, domain) => writeDomain(domain, values))
+  } finally {
+    applying = false
+  }
+  rebaseline(patches.map(patch => FIELD_BY_ID.get(fieldId(patch.domain, patch.key))!))
+}
 
-    const timelineState = useTimelineStore.getState()
-    const currentState: HistoryState = {
-      tracks: cloneTracks(timelineState.tracks),
-      duration: timelineState.duration,
+export const useHistoryStore = create<HistoryStore>((set, get) => {
+  const record = (patches: HistoryPatch[]) => {
+    const now = Date.now()
+    const changedIds = patches
+      .filter(patch => !FIELD_BY_ID.get(fieldId(patch.domain, patch.key))?.companion)
+      .map(patch => fieldId(patch.domain, patch.key))
+      .sort()
+      .join(',')
+    const { past } = get()
+    const open = openEntryId !== null && past[past.length - 1]?.id === openEntryId ? past[past.length - 1] : null
+    const canMerge = open && (
+      transactionDepth > 0 ||
+      sameTick ||
+      (!changedIds || changedIds === openFieldIds) && now - lastChangeAt < MERGE_WINDOW_MS
+    )
+
+    if (!changedIds && !canMerge) return // Companion-only change: baselines already moved
+    lastChangeAt = now
+
+    if (open && canMerge) {
+      const merged = [...open.patches]
+      patches.forEach(patch => {
+        const index = merged.findIndex(p => p.domain === patch.domain && p.key === patch.key)
+        if (index === -1) merged.push(patch)
+        else merged[index] = { ...merged[index], after: patch.after }
+      })
+      const sorted = sortPatches(merged)
+      const entry = { ...open, patches: sorted, label: openLabel ?? deriveLabel(sorted) }
+      if (changedIds && transactionDepth === 0) {
+        openFieldIds = [...new Set([...openFieldIds.split(','), ...changedIds.split(',')])].filter(Boolean).sort().join(',')
+      }
+      set({ past: [...past.slice(0, -1), entry] })
+    } else {
+      const sorted = sortPatches(patches)
+      openLabel = transactionDepth > 0 ? transactionLabel : pendingLabel
+      pendingLabel = null
+      const entry: HistoryEntry = {
+        id: generateId(),
+        label: openLabel ?? deriveLabel(sorted),
+        timestamp: now,
+        patches: sorted,
+      }
+      openEntryId = entry.id
+      openFieldIds = changedIds
+      set({ past: [...past.slice(-MAX_HISTORY + 1), entry], future: [] })
     }
 
-    const nextState = future[0]
-    const newFuture = future.slice(1)
+    // Store actions often update several fields in consecutive set() calls
+    if (!sameTick) {
+      sameTick = true
+      queueMicrotask(() => { sameTick = false })
+    }
+  }
 
-    // Apply next state to timeline
-    useTimelineStore.setState({
-      tracks: cloneTracks(nextState.tracks),
-      duration: nextState.duration,
-    })
+  const handleChange = (domain: HistoryDomain) => {
+    if (applying || suspended) return
+    const state = readDomain(domain)
+    const patches: HistoryPatch[] = []
+
+    FIELDS.forEach(field => {
+      if (field.domain !== domain) return
+      const id = fieldId(domain, field.key)
+      const value = state[field.key]
+      if (Object.is(value, lastSeen.get(id))) return
+      lastSeen.set(id, value)
 
-    set({
-      past: [...get().past, currentState],
-      future: newFuture,
+      const before = baselines.get(id)
+      const after = cloneValue(field, value)
+      baselines.set(id, after)
+      const unchanged = field.equals ? field.equals(before, after) : JSON.stringify(field.toJSON?.(before) ?? before) === JSON.stringify(field.toJSON?.(after) ?? after)
+      if (!unchanged) patches.push({ domain, key: field.key, before, after })
     })
-  },
 
-  canUndo: () => get().past.length > 0,
-  canRedo: () => get().future.length > 0,
+    if (patches.length > 0) record(patches)
+  }
+
+  rebaseline()
+  useTimelineStore.subscribe(() => handleChange('timeline'))
+  useKeyframeStore.subscribe(() => handleChange('keyframes'))
+  useProjectStore.subscribe(() => handleChange('project'))
+  useMediaStore.subscribe(() => handleChange('media'))
+
+  return {
+    past: [],
+    future: [],
+    maxHistory: MAX_HISTORY,
+
+    // Start a new entry with the next change, e.g. before a drag is applied
+    pushState: (label?: string) => {
+      if (transactionDepth > 0) return
+      closeEntry()
+      pendingLabel = label ?? null
+    },
+
+    // Everything until endTransaction becomes one entry
+    beginTransaction: (label: string) => {
+      if (transactionDepth === 0) {
+        closeEntry()
+        transactionLabel = label
+      }
+      transactionDepth++
+    },
+
+    endTransaction: () => {
+      if (transactionDepth === 0) return
+      transactionDepth--
+      if (transactionDepth === 0) {
+        transactionLabel = null
+        closeEntry()
+      }
+    },
+
+    undo: () => {
+      const { past, future } = get()
+      if (past.length === 0) return
+      transactionDepth = 0
+      closeEntry()
 
-  clear: () => set({ past: [], future: [] }),
-}))
+      const entry = past[past.length - 1]
+      applyPatches(entry.patches, 'before')
+      set({ past: past.slice(0, -1), future: [entry, ...future] })
+    },
+
+    redo: () => {
+      const { past, future } = get()
+      if (future.length === 0) return
+      transactionDepth = 0
+      closeEntry()
+
+      const entry = future[0]
+      applyPatches(entry.patches, 'after')
+      set({ past: [...past, entry], future: future.slice(1) })
+    },
+
+    // Undo or redo until the given entry is the latest applied (null: before the first)
+    jumpTo: (entryId: string | null) => {
+      const { undo, redo } = get()
+      if (entryId === null) {
+        while (get().past.length > 0) undo()
+        return
+      }
+      if (get().past.some(entry => entry.id === entryId)) {
+        while (get().past[get().past.length - 1].id !== entryId) undo()
+      } else if (get().future.some(entry => entry.id === entryId)) {
+        while (get().past[get().past.length - 1]?.id !== entryId) redo()
+      }
+    },
+
+    canUndo: () => get().past.length > 0,
+    canRedo: () => get().future.length > 0,
+
+    clear: () => {
+      closeEntry()
+      set({ past: [], future: [] })
+    },
+
+    // Loading or resetting a project is not an undoable change
+    suspend: () => {
+      suspended = true
+      closeEntry()
+    },
+
+    resume: () => {
+      rebaseline()
+      suspended = false
+    },
+
+    serialize: () => {
+      const toJSON = (entry: HistoryEntry) => ({
+        ...entry,
+        patches: entry.patches.map(patch => {
+          const field = FIELD_BY_ID.get(fieldId(patch.domain, patch.key))!
+          const convert = field.toJSON ?? ((value: unknown) => value)
+          return { ...patch, before: convert(patch.before), after: convert(patch.after) }
+        }),
+      })
+      const { past, future } = get()
+      return JSON.stringify({ past: past.map(toJSON), future: future.map(toJSON) })
+    },
+
+    // Media removed before the project was saved was not stored with it,
+    // so restored entries can only bring back files still in the library
+    restore: (json: string) => {
+      const fromJSON = (entry: HistoryEntry): HistoryEntry => ({
+        ...entry,
+        patches: entry.patches.flatMap(patch => {
+          const field = FIELD_BY_ID.get(fieldId(patch.domain, patch.key))
+          if (!field) return []
+          const convert = field.fromJSON ?? ((value: unknown) => value)
+          return [{ ...patch, before: convert(patch.before), after: convert(patch.after) }]
+        }),
+      })
+      try {
+        const data = JSON.parse(json) as { past: HistoryEntry[]; future: HistoryEntry[] }
+        closeEntry()
+        set({
+          past: data.past.map(fromJSON).filter(entry => entry.patches.length > 0),
+          future: data.future.map(fromJSON).filter(entry => entry.patches.length > 0),
+        })
+      } catch (error) {
+        console.error('Failed to restore history:', error)
+        set({ past: [], future: [] })
+      }
+    },
+  }
+})
 
 // Hook to wrap timeline actions with history tracking
 export function useHistoryAction() {
@@ -123,3 +497,51 @@ export function useHistoryAction() {
     pushState,
   }
 }
+
+/**
+ * One undo step per continuous drag (sliders, curve points). bind(label)
+ * gives pointer handlers that capture the pointer and open a transaction;
+ * it is closed once, on release, cancel, lost capture, focus loss or unmount.
+ */
+export function useHistoryDrag() {
+  const beginTransaction = useHistoryStore((state) => state.beginTransaction)
+  const endTransaction = useHistoryStore((state) => state.endTransaction)
+  const closeRef = useRef<(() => void) | null>(null)
+
+  const end = useCallback(() => {
+    closeRef.current?.()
+  }, [])
+
+  const begin = useCallback((label: string) => {
+    if (closeRef.current) return
+    // Window listeners catch releases the control never sees (e.g. it was removed mid-drag)
+    const close = () => {
+      if (closeRef.current !== close) return
+      closeRef.current = null
+      window.removeEventListener('pointerup', close)
+      window.removeEventListener('pointercancel', close)
+      window.removeEventListener('blur', close)
+      endTransaction()
+    }
+    closeRef.current = close
+    window.addEventListener('pointerup', close)
+    window.addEventListener('pointercancel', close)
+    window.addEventListener('blur', close)
+    beginTransaction(label)
+  }, [beginTransaction, endTransaction])
+
+  useEffect(() => end, [end])
+
+  const bind = useCallback((label: string) => ({
+    onPointerDown: (e: React.PointerEvent<Element>) => {
+      e.currentTarget.setPointerCapture(e.pointerId)
+      begin(label)
+    },
+    onPointerUp: end,
+    onPointerCancel: end,
+    onLostPointerCapture: end,
+    onBlur: end,
+  }), [begin, end])
+
+  return { begin, end, bind }
+}
@@ -0,0 +1,44 @@
+/**
+ * LUT Library Store
+ * COLOR-001: 3D LUTs imported from .cube files, referenced by clip grades
+ * through lutId and saved with the project
+ */
+
+import { create } from 'zustand'
+import { generateId } from '../lib/utils'
+import { parseCubeLUT, type ColorLUT } from '../lib/colorGrade'
+
+interface LUTStore {
+  luts: ColorLUT[]
+
+  // Parse and add a .cube file; throws on malformed files
+  importLUT: (file: File) => Promise<ColorLUT>
+  removeLUT: (id: string) => void
+  getLUT: (id: string | undefined) => ColorLUT | undefined
+  setLUTs: (luts: ColorLUT[]) => void
+}
+
+export const useLUTStore = create<LUTStore>((set, get) => ({
+  luts: [],
+
+  importLUT: async (file: File) => {
+    const cube = parseCubeLUT(await file.text())
+    const lut: ColorLUT = {
+      ...cube,
+      id: generateId(),
+      name: cube.title || file.name.replace(/\.cube$/i, ''),
+    }
+    set((state) => ({ luts: [...state.luts, lut] }))
+    return lut
+  },
+
+  removeLUT: (id: string) => {
+    set((state) => ({ luts: state.luts.filter(l => l.id !== id) }))
+  },
+
+  getLUT: (id: string | undefined) => {
+    return id ? get().luts.find(l => l.id === id) : undefined
+  },
+
+  setLUTs: (luts: ColorLUT[]) => set({ luts }),
+}))
@@ -3,13 +3,27 @@ import type { MediaFile, MediaType } from '../types'
 import { generateId } from '../lib/utils'
 import { useTimelineStore } from './timelineStore'
 import { generateModelThumbnail } from '../lib/modelThumbnail'
+import { getModelFormat, isModelFileName, releaseModel } from '../lib/modelLoader'
 import { getDocumentType, parseDocument, generateDocumentThumbnail } from '../lib/documentParser'
+import { isHDRFileName, decodeHDRFile, createHDRPreview, registerHDRImage, releaseHDRImage } from '../lib/hdrImage'
+import { HDR_DISPLAY_DEFAULTS } from '../lib/hdrDisplay'
+import {
+  isHighBitDepthFileName,
+  isTIFFFileName,
+  decodeHighBitDepthFile,
+  createHighBitDepthPreview,
+  registerHighBitDepthImage,
+  releaseHighBitDepthImage,
+} from '../lib/highBitDepthImage'
+import { countMissingFrames, encodeImageSequence, registerImageSequence, releaseImageSequence, type ImageSequence } from '../lib/imageSequence'
+import { getSubtitleDuration, isSubtitleFileName, parseSubtitleFile } from '../lib/subtitleParser'
+import { releaseMediaAudio } from '../lib/audioMix'
 
 interface MediaStore {
   files: MediaFile[]
   selectedIds: string[]
 
-  addFile: (file: File) => Promise<MediaFile>
+  addFile: (file: File, companions?: File[]) => Promise<MediaFile>
   addPrompt: (promptText: string, name?: string) => Promise<MediaFile>
   removeFile: (id: string) => void
   selectFile: (id: string) => void
@@ -20,22 +34,56 @@ interface MediaStore {
   // MEDIA-012: Status management
   updateStatus: (id: string, status: MediaFile['status'], message?: string) => void
   retryProcessing: (id: string) => Promise<void>
+  // HDR-001: Show another layer of a multi-layer OpenEXR file
+  setHDRLayer: (id: string, layer: string) => Promise<void>
+  // SEQ-001: Import numbered frames as one video clip
+  addImageSequence: (sequence: ImageSequence, frameRate: number) => Promise<MediaFile>
+  // HISTORY-001: Set the library to exactly these files (undo / redo)
+  restoreFiles: (files: MediaFile[]) => void
 }
 
-async function processFile(file: File): Promise<MediaFile> {
+// SEQ-001: Frames of sequences that failed to encode, for retryProcessing
+const failedSequences = new Map<string, { sequence: ImageSequence; frameRate: number }>()
+
+// Release the object URL and decoded data held for a file
+function releaseFileResources(file: MediaFile) {
+  if (file.url.startsWith('blob:')) {
+    URL.revokeObjectURL(file.url)
+  }
+  releaseHDRImage(file.url)
+  releaseHighBitDepthImage(file.url)
+  releaseModel(file.url)
+  releaseMediaAudio(file.url) // MIX-001
+  releaseImageSequence(file.url) // SEQ-001
+  Object.values(file.modelResources ?? {}).forEach(url => URL.revokeObjectURL(url))
+}
+
+interface ProcessOptions {
+  hdrLayer?: string    // HDR-001: EXR layer to show
+  companions?: File[]  // MODEL-001: MTL / texture files of an OBJ
+}
+
+async function processFile(file: File, { hdrLayer, companions }: ProcessOptions = {}): Promise<MediaFile> {
   const id = generateId()
   const url = URL.createObjectURL(file)
 
   // Detect file type including 3D models and documents
-  const extension = file.name.toLowerCase().split('.').pop()
-  const isModel = extension === 'glb' || extension === 'gltf'
+  const isModel = isModelFileName(file.name) // MODEL-001
   const documentType = getDocumentType(file.name)
+  // HDR-001: OpenEXR / Radiance have no reliable MIME type
+  const isHDR = isHDRFileName(file.name)
+  // BITDEPTH-001: TIFF may also arrive without a MIME type
+  const isTIFF = isTIFFFileName(file.name)
 
   const type: MediaType = documentType
     ? documentType
-    : isModel
+    : isSubtitleFileName(file.name) // SUB-001
+      ? 'subtitle'
+      : isModel
       ? 'model'
-      : file.type.startsWith('video/')
+      : isHDR || isTIFF
+        ? 'image'
+        : file.type.startsWith('video/')
         ? 'video'
         : file.type.startsWith('image/')
           ? 'image'
@@ -82,8 +130,34 @@ async function processFile(file: File): Promise<MediaFile> {
       }
     })
   } else if (type === 'image') {
+    // HDR-001: Keep the float pixels for WebGL and metrics, show a
+    // tone-mapped preview everywhere else
+    if (isHDR) {
+      const { image, info } = await decodeHDRFile(file, hdrLayer)
+      URL.revokeObjectURL(url)
+      mediaFile.url = URL.createObjectURL(await createHDRPreview(image, HDR_DISPLAY_DEFAULTS))
+      mediaFile.hdr = info
+      registerHDRImage(mediaFile.url, image)
+    } else if (isHighBitDepthFileName(file.name)) {
+      // BITDEPTH-001: Keep 16-bit samples for WebGL and the pixel
+      // inspector; 8-bit PNGs stay on the browser's decoder. A PNG the
+      // decoder rejects still shows at 8 bits, a TIFF cannot.
+      try {
+        const decoded = await decodeHighBitDepthFile(file)
+        if (decoded) {
+          URL.revokeObjectURL(url)
+          mediaFile.url = URL.createObjectURL(await createHighBitDepthPreview(decoded.image))
+          mediaFile.highBitDepth = decoded.info
+          registerHighBitDepthImage(mediaFile.url, decoded.image)
+        }
+      } catch (err) {
+        if (isTIFF) throw err
+        console.warn('16-bit PNG decode failed, using 8-bit browser decode:', err)
+      }
+    }
+
     const img = new Image()
-    img.src = url
+    img.src = mediaFile.url
     await new Promise<void>((resolve) => {
       img.onload = () => {
         mediaFile.width = img.naturalWidth
@@ -146,29 +220,38 @@ async function processFile(file: File): Promise<MediaFile> {
     // Set default duration for 3D models (5 seconds = one full rotation)
     mediaFile.duration = 5
 
+    // MODEL-001: Referenced files resolve by name
+    if (companions?.length) {
+      mediaFile.modelResources = Object.fromEntries(companions.map(c => [c.name, URL.createObjectURL(c)]))
+    }
+
     // Generate thumbnail for 3D model
     try {
-      const thumbnail = await generateModelThumbnail(url)
+      const thumbnail = await generateModelThumbnail(url, getModelFormat(file.name) ?? 'gltf', mediaFile.modelResources)
       if (thumbnail) {
         mediaFile.thumbnail = thumbnail
       }
     } catch (error) {
       console.warn('Failed to generate model thumbnail:', error)
     }
-  } else if (type === 'csv' || type === 'excel' || type === 'docx' || type === 'pdf') {
+  } else if (type === 'csv' || type === 'excel' || type === 'docx' || type === 'pdf' || type === 'pptx') {
     // Parse document and extract metadata
     try {
       const documentMeta = await parseDocument(file)
       if (documentMeta) {
         mediaFile.documentMeta = documentMeta
       }
-      // Generate document thumbnail
-      mediaFile.thumbnail = generateDocumentThumbnail(type)
+      // Generate document thumbnail (PPTX-001: first slide when rendered)
+      mediaFile.thumbnail = documentMeta?.parsedContent?.slides?.[0]?.imageDataUrl || generateDocumentThumbnail(type)
       // Documents don't have duration, set a default for timeline
       mediaFile.duration = 10
     } catch (error) {
       console.warn('Failed to parse document:', error)
     }
+  } else if (type === 'subtitle') {
+    // SUB-001: Cues drive the comparison and the timeline lanes
+    mediaFile.subtitles = await parseSubtitleFile(file)
+    mediaFile.duration = Math.max(1, getSubtitleDuration(mediaFile.subtitles.cues))
   }
 
   // MEDIA-012: Mark as ready after all processing
@@ -178,23 +261,53 @@ async function processFile(file: File): Promise<MediaFile> {
   return mediaFile
 }
 
+/**
+ * SEQ-001: Encode an image sequence and process the MP4 like any video
+ */
+async function processSequence(
+  sequence: ImageSequence,
+  frameRate: number,
+  onProgress?: (progress: number) => void
+): Promise<MediaFile> {
+  const { pattern, frames } = sequence
+  const blob = await encodeImageSequence(sequence, frameRate, onProgress)
+
+  // Named .mp4 so a restored project sees a video, not an EXR/TIFF frame
+  const name = `${pattern.replace(/\.[^.]+$/, '')}.mp4`
+  const mediaFile = await processFile(new File([blob], name, { type: 'video/mp4' }))
+  mediaFile.sequence = {
+    pattern,
+    firstFrame: frames[0].number,
+    lastFrame: frames[frames.length - 1].number,
+    frameCount: frames.length,
+    missingFrames: countMissingFrames(frames),
+    frameRate,
+  }
+  // Metrics read the source frames, not the encoded MP4
+  registerImageSequence(mediaFile.url, sequence, frameRate)
+  return mediaFile
+}
+
 export const useMediaStore = create<MediaStore>((set, get) => ({
   files: [],
   selectedIds: [],
 
-  addFile: async (file: File) => {
+  addFile: async (file: File, companions?: File[]) => {
     // MEDIA-012: Create pending entry first
     const pendingId = generateId()
     
     // Detect file type including 3D models and documents (same logic as processFile)
-    const extension = file.name.toLowerCase().split('.').pop()
-    const isModel = extension === 'glb' || extension === 'gltf'
+    const isModel = isModelFileName(file.name) // MODEL-001
     const documentType = getDocumentType(file.name)
     const pendingType: MediaType = documentType
       ? documentType
-      : isModel
+      : isSubtitleFileName(file.name) // SUB-001
+        ? 'subtitle'
+        : isModel
         ? 'model'
-        : file.type.startsWith('video/')
+        : isHDRFileName(file.name) || isTIFFFileName(file.name)
+          ? 'image'
+          : file.type.startsWith('video/')
           ? 'video'
           : file.type.startsWith('image/')
             ? 'image'
@@ -226,7 +339,7 @@ export const useMediaStore = create<MediaStore>((set, get) => ({
     }))
 
     try {
-      const mediaFile = await processFile(file)
+      const mediaFile = await processFile(file, { companions })
       // Replace pending with processed file, keeping the pending ID
       set((state) => ({
         files: state.files.map(f => f.id === pendingId ? { ...mediaFile, id: pendingId } : f),
@@ -271,8 +384,9 @@ export const useMediaStore = create<MediaStore>((set, get) => ({
   removeFile: (id: string) => {
     const file = get().files.find(f => f.id === id)
     if (file) {
-      URL.revokeObjectURL(file.url)
+      releaseFileResources(file)
     }
+    failedSequences.delete(id)
 
     // Cascade delete: remove all clips using this media from the timeline
     useTimelineStore.getState().removeClipsByMediaId(id)
@@ -307,11 +421,8 @@ export const useMediaStore = create<MediaStore>((set, get) => ({
 
   clearFiles: () => {
     // Revoke all blob URLs
-    get().files.forEach(file => {
-      if (file.url.startsWith('blob:')) {
-        URL.revokeObjectURL(file.url)
-      }
-    })
+    get().files.forEach(releaseFileResources)
+    failedSequences.clear()
     set({ files: [], selectedIds: [] })
   },
 
@@ -341,7 +452,12 @@ export const useMediaStore = create<MediaStore>((set, get) => ({
     }))
 
     try {
-      const newMediaFile = await processFile(file.file)
+      // SEQ-001: Sequences re-encode from their frames
+      const failedSequence = failedSequences.get(id)
+      const newMediaFile = failedSequence
+        ? await processSequence(failedSequence.sequence, failedSequence.frameRate)
+        : await processFile(file.file)
+      failedSequences.delete(id)
       set((state) => ({
         files: state.files.map(f =>
           f.id === id
@@ -359,4 +475,105 @@ export const useMediaStore = create<MediaStore>((set, get) => ({
       }))
     }
   },
+
+  // HDR-001: Re-decode an OpenEXR file with another layer
+  setHDRLayer: async (id: string, layer: string) => {
+    const file = get().files.find(f => f.id === id)
+    if (!file?.hdr || file.hdr.layer === layer) return
+
+    const mediaFile = await processFile(file.file, { hdrLayer: layer })
+    set((state) => ({
+      files: state.files.map(f => (f.id === id ? { ...mediaFile, id } : f)),
+    }))
+    URL.revokeObjectURL(file.url)
+    releaseHDRImage(file.url)
+  },
+
+  addImageSequence: async (sequence: ImageSequence, frameRate: number) => {
+    // MEDIA-012: Pending entry while the frames are encoded
+    const pendingId = generateId()
+    const pendingFile: MediaFile = {
+      id: pendingId,
+      name: sequence.pattern,
+      type: 'video',
+      url: '',
+      file: sequence.frames[0].file,
+      status: 'processing',
+      processingProgress: 0,
+    }
+    set((state) => ({ files: [...state.files, pendingFile] }))
+
+    let lastProgress = 0
+    const setProgress = (progress: number) => {
+      const rounded = Math.round(progress * 0.9)
+      if (rounded === lastProgress) return
+      lastProgress = rounded
+      set((state) => ({
+        files: state.files.map(f => (f.id === pendingId ? { ...f, processingProgress: rounded } : f)),
+      }))
+    }
+
+    try {
+      const mediaFile = await processSequence(sequence, frameRate, setProgress)
+      set((state) => ({
+        files: state.files.map(f => f.id === pendingId ? { ...mediaFile, id: pendingId } : f),
+      }))
+      return { ...mediaFile, id: pendingId }
+    } catch (error) {
+      failedSequences.set(pendingId, { sequence, frameRate })
+      set((state) => ({
+        files: state.files.map(f =>
+          f.id === pendingId
+            ? { ...f, status: 'error' as const, statusMessage: error instanceof Error ? error.message : 'Sequence encoding failed' }
+            : f
+        ),
+      }))
+      throw error
+    }
+  },
+
+  // HISTORY-001: Files dropped from the list are released without touching
+  // the timeline (history restores clips separately). Files coming back had
+  // their URLs revoked, so they are processed again from their File; a
+  // failed sequence keeps its frames for retryProcessing.
+  restoreFiles: (files: MediaFile[]) => {
+    const current = new Map(get().files.map(f => [f.id, f]))
+    const keepIds = new Set(files.map(f => f.id))
+    get().files.filter(f => !keepIds.has(f.id)).forEach(releaseFileResources)
+
+    const returning = files.filter(f => !current.has(f.id) && f.type !== 'prompt' && f.status !== 'error')
+    set((state) => ({
+      files: files.map(f => {
+        const existing = current.get(f.id)
+        if (existing) return existing
+        if (f.type === 'prompt') return { ...f, url: URL.createObjectURL(f.file) }
+        if (f.status === 'error') return f
+        return { ...f, url: '', status: 'processing' as const, processingProgress: 10 }
+      }),
+      selectedIds: state.selectedIds.filter(id => keepIds.has(id)),
+    }))
+
+    returning.forEach(async (file) => {
+      try {
+        const mediaFile = await processFile(file.file, { hdrLayer: file.hdr?.layer })
+        if (!get().files.some(f => f.id === file.id)) {
+          releaseFileResources(mediaFile)
+          return
+        }
+        set((state) => ({
+          files: state.files.map(f =>
+            f.id === file.id ? { ...mediaFile, id: file.id, sequence: file.sequence } : f
+          ),
+        }))
+      } catch (error) {
+        set((state) => ({
+          files: state.files.map(f =>
+            f.id === file.id
+              ? { ...f, status: 'error' as const, statusMessage: error instanceof Error ? error.message : 'Processing failed' }
+              : f
+          ),
+        }))
+      }
+    })
+  },
 }))
@@ -27,7 +27,10 @@ import { useTimelineStore } from './timelineStore'
 import { useProjectStore } from './projectStore'
 import { useMediaStore } from './mediaStore'
 import { useKeyframeStore } from './keyframeStore'
+import { useHistoryStore } from './historyStore'
+import { useLUTStore } from './lutStore'
 import type { ClipKeyframes } from '../lib/keyframes'
+import type { ColorLUT } from '../lib/colorGrade'
 
 export type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'error'
 
@@ -105,6 +108,7 @@ function serializeTimelineState(): string {
     loopRegion: state.loopRegion,
     frameRate: state.frameRate,
     markers: state.markers,
+    textElements: state.textElements,
     snapEnabled: state.snapEnabled,
     snapThreshold: state.snapThreshold,
     rippleEnabled: state.rippleEnabled,
@@ -151,6 +155,21 @@ function deserializeKeyframeData(json: string): Map<string, ClipKeyframes> {
   }
 }
 
+// COLOR-001: Serialize the LUT library; typed arrays become plain arrays
+function serializeLUTData(): string {
+  return JSON.stringify(useLUTStore.getState().luts.map(lut => ({ ...lut, data: Array.from(lut.data) })))
+}
+
+// COLOR-001: Deserialize the LUT library
+function deserializeLUTData(json: string): ColorLUT[] {
+  try {
+    const entries = JSON.parse(json) as Array<Omit<ColorLUT, 'data'> & { data: number[] }>
+    return entries.map(entry => ({ ...entry, data: new Float32Array(entry.data) }))
+  } catch {
+    return []
+  }
+}
+
 // Get media manifest (metadata without blobs)
 function getMediaManifest(): MediaManifestEntry[] {
   const files = useMediaStore.getState().files
@@ -219,6 +238,10 @@ export const usePersistenceStore = create<PersistenceStore>((set, get) => ({
     })
 
     // Clear existing media, timeline, and keyframes
+    // HISTORY-001: Not undoable; the new project starts with an empty history
+    const history = useHistoryStore.getState()
+    history.suspend()
+    history.clear()
     useMediaStore.getState().clearFiles()
     useTimelineStore.setState({
       tracks: [
@@ -228,11 +251,16 @@ export const usePersistenceStore = create<PersistenceStore>((set, get) => ({
       currentTime: 0,
       duration: 30,
       markers: [],
+      textElements: [],
+      selectedTextElementId: null,
       selectedClipId: null,
       selectedClipIds: [],
     })
     // KEYFRAME-001: Clear keyframes for new project
     useKeyframeStore.setState({ clipKeyframes: new Map() })
+    // COLOR-001: Start with an empty LUT library
+    useLUTStore.getState().setLUTs([])
+    history.resume()
 
     // Save initial project
     await get().saveCurrentProject()
@@ -272,6 +300,10 @@ export const usePersistenceStore = create<PersistenceStore>((set, get) => ({
         mediaManifest: getMediaManifest(),
         // KEYFRAME-001: Include keyframe data
         keyframeData: serializeKeyframeData(),
+        // HISTORY-001: Include the undo / redo log
+        historyData: useHistoryStore.getState().serialize(),
+        // COLOR-001: Include the LUT library
+        lutData: serializeLUTData(),
       }
 
       // Save project record
@@ -312,6 +344,9 @@ export const usePersistenceStore = create<PersistenceStore>((set, get) => ({
     }
 
     set({ isLoading: true, error: null })
+    // HISTORY-001: Restoring the stores is not an undoable change
+    const history = useHistoryStore.getState()
+    history.suspend()
 
     try {
       // Get project record
@@ -361,6 +396,8 @@ export const usePersistenceStore = create<PersistenceStore>((set, get) => ({
         loopRegion: timelineState.loopRegion || null,
         frameRate: timelineState.frameRate || 30,
         markers: timelineState.markers || [],
+        textElements: timelineState.textElements || [],
+        selectedTextElementId: null,
         snapEnabled: timelineState.snapEnabled ?? true,
         snapThreshold: timelineState.snapThreshold || 0.1,
         rippleEnabled: timelineState.rippleEnabled ?? false,
@@ -383,7 +420,8 @@ export const usePersistenceStore = create<PersistenceStore>((set, get) => ({
         gridTileSettings: projectSettings.gridTileSettings,
         pixelGridSettings: projectSettings.pixelGridSettings,
         morphologicalSettings: projectSettings.morphologicalSettings,
-        exportSettings: projectSettings.exportSettings,
+        // Settings added since the project was saved keep their defaults
+        exportSettings: { ...useProjectStore.getState().exportSettings, ...projectSettings.exportSettings },
       })
 
       // KEYFRAME-001: Restore keyframe data
@@ -395,6 +433,16 @@ export const usePersistenceStore = create<PersistenceStore>((set, get) => ({
         useKeyframeStore.setState({ clipKeyframes: new Map() })
       }
 
+      // COLOR-001: Restore the LUT library
+      useLUTStore.getState().setLUTs(projectRecord.lutData ? deserializeLUTData(projectRecord.lutData) : [])
+
+      // HISTORY-001: Restore the undo / redo log once media ids are final
+      if (projectRecord.historyData) {
+        history.restore(projectRecord.historyData)
+      } else {
+        history.clear()
+      }
+
       // Update persistence state
       set({
         currentProjectId: projectId,
@@ -417,6 +465,8 @@ export const usePersistenceStore = create<PersistenceStore>((set, get) => ({
         isLoading: false,
         error: error instanceof Error ? error.message : 'Failed to load project',
       })
+    } finally {
+      history.resume()
     }
   },
 
@@ -437,7 +487,11 @@ export const usePersistenceStore = create<PersistenceStore>((set, get) => ({
           saveStatus: 'saved',
           lastSavedAt: null,
         })
+        const history = useHistoryStore.getState()
+        history.suspend()
+        history.clear()
         useMediaStore.getState().clearFiles()
+        history.resume()
       }
 
       await get().refreshProjectList()
@@ -715,6 +769,7 @@ useTimelineStore.subscribe((state, prevState) => {
   if (
     state.tracks !== prevState.tracks ||
     state.markers !== prevState.markers ||
+    state.textElements !== prevState.textElements ||
     state.duration !== prevState.duration
   ) {
     persistence._markUnsaved()
@@ -732,7 +787,9 @@ useProjectStore.subscribe((state, prevState) => {
     state.blendMode !== prevState.blendMode ||
     state.sliderOrientation !== prevState.sliderOrientation ||
     state.aspectRatioSettings !== prevState.aspectRatioSettings ||
-    state.exportSettings !== prevState.exportSettings
+    state.exportSettings !== prevState.exportSettings ||
+    // MASK-001: Painted masks are part of the project
+    state.webglComparisonSettings.metricMask !== prevState.webglComparisonSettings.metricMask
   ) {
     persistence._markUnsaved()
   }
@@ -747,3 +804,13 @@ useMediaStore.subscribe((state, prevState) => {
     persistence._markUnsaved()
   }
 })
+
+// COLOR-001: LUT library changes
+useLUTStore.subscribe((state, prevState) => {
+  const persistence = usePersistenceStore.getState()
+  if (!persistence.currentProjectId) return
+
+  if (state.luts !== prevState.luts) {
+    persistence._markUnsaved()
+  }
+})
@@ -1,5 +1,5 @@
 import { create } from 'zustand'
-import type { ComparisonMode, BlendMode, SplitLayout, ExportSettings, ExportProgress, TransitionEngine, TransitionExportMode, WebGLComparisonSettings, WebGLComparisonMode, WebGLAnalysisMetrics, ROIRect, ScopesSettings, QuadViewSettings, RadialLoupeSettings, GridTileSettings, PixelGridSettings, MorphologicalSettings, MorphOperation, AspectRatioPreset, AspectRatioSettings, ResolutionPreset, ResolutionConfig } from '../types'
+import type { ComparisonMode, BlendMode, SplitLayout, ExportSettings, ExportProgress, TransitionEngine, TransitionExportMode, WebGLComparisonSettings, WebGLComparisonMode, WebGLAnalysisMetrics, QualityReport, FrameDefectReport, QualityMetricId, ChannelPSNR, NoReferenceScores, MaskBreakdown, MaskShape, MetricMask, MetricsWorkerStatus, ROIRect, ScopesSettings, QuadViewSettings, RadialLoupeSettings, GridTileSettings, PixelGridSettings, MorphologicalSettings, MorphOperation, AspectRatioPreset, AspectRatioSettings, ResolutionPreset, ResolutionConfig, InspectedPixel } from '../types'
 
 // ASPECT-001: Aspect Ratio Presets configuration
 export const ASPECT_RATIO_PRESETS: Record<AspectRatioPreset, { label: string; ratio: number; description: string }> = {
@@ -74,6 +74,18 @@ interface ProjectStore {
   showMetrics: boolean
   metricsSSIM: number | null
   metricsPSNR: number | null
+  // METRICS-002: Extended full-reference metrics
+  metricsMSSSIM: number | null
+  metricsPSNRYCbCr: ChannelPSNR | null
+  metricsDeltaE2000: number | null
+  // METRICS-004: No-reference scores of each side
+  metricsNoReferenceA: NoReferenceScores | null
+  metricsNoReferenceB: NoReferenceScores | null
+  // MASK-001: Inside vs outside mask breakdown
+  metricsMaskBreakdown: MaskBreakdown | null
+  enabledQualityMetrics: QualityMetricId[]
+  // WORKER-001: Metrics worker pool queue
+  metricsWorkerStatus: MetricsWorkerStatus
 
   // Synchronized zoom/pan (IMG-002)
   zoom: number
@@ -82,8 +94,8 @@ interface ProjectStore {
 
   // Pixel inspector (IMG-003)
   pixelInspectorEnabled: boolean
-  pixelInfoA: { x: number; y: number; r: number; g: number; b: number } | null
-  pixelInfoB: { x: number; y: number; r: number; g: number; b: number } | null
+  pixelInfoA: InspectedPixel | null
+  pixelInfoB: InspectedPixel | null
 
   // Prompt diff
   promptA: string
@@ -95,6 +107,12 @@ interface ProjectStore {
   // WebGL Analysis metrics (WEBGL-001)
   webglAnalysisMetrics: WebGLAnalysisMetrics | null
 
+  // METRICS-001: Last full-pass quality report
+  qualityReport: QualityReport | null
+
+  // QA-001: Last frame defect scan
+  frameDefectReport: FrameDefectReport | null
+
   // SCOPE-001, SCOPE-002, SCOPE-003: Professional video scopes
   scopesSettings: ScopesSettings
 
@@ -118,16 +136,28 @@ interface ProjectStore {
   toggleHideSlider: () => void
   toggleMetrics: () => void
   setMetrics: (ssim: number | null, psnr: number | null) => void
+  setExtendedMetrics: (metrics: {
+    msssim: number
+    psnrYCbCr: ChannelPSNR
+    deltaE2000: number
+    noReferenceA: NoReferenceScores | null
+    noReferenceB: NoReferenceScores | null
+    maskBreakdown: MaskBreakdown | null
+  } | null) => void
+  toggleQualityMetric: (metric: QualityMetricId) => void
+  setMetricsWorkerStatus: (status: MetricsWorkerStatus) => void
   setZoom: (zoom: number) => void
   setPan: (x: number, y: number) => void
   resetZoom: () => void
   togglePixelInspector: () => void
-  setPixelInfo: (side: 'a' | 'b', info: { x: number; y: number; r: number; g: number; b: number } | null) => void
+  setPixelInfo: (side: 'a' | 'b', info: InspectedPixel | null) => void
   setPromptA: (prompt: string) => void
   setPromptB: (prompt: string) => void
   setWebGLComparisonMode: (mode: WebGLComparisonMode) => void
   setWebGLComparisonSettings: (settings: Partial<WebGLComparisonSettings>) => void
   setWebGLAnalysisMetrics: (metrics: WebGLAnalysisMetrics | null) => void
+  setQualityReport: (report: QualityReport | null) => void
+  setFrameDefectReport: (report: FrameDefectReport | null) => void
   toggleWebGLMetricsOverlay: () => void
   toggleWebGLScaleBar: () => void
   toggleWebGLFlipAB: () => void
@@ -139,6 +169,12 @@ interface ProjectStore {
   setROI: (roi: ROIRect | null) => void
   clearROI: () => void
   toggleROIControls: () => void
+  // MASK-001: Metric mask actions
+  setMetricMask: (mask: MetricMask | null) => void
+  addMaskShape: (shape: MaskShape) => void
+  undoMaskShape: () => void
+  toggleMetricMask: () => void
+  toggleMaskEditor: () => void
   // WEBGL-012: Importance weighting actions
   toggleWeightedAnalysis: () => void
   setWeightMode: (mode: 'saliency' | 'edge' | 'center' | 'custom') => void
@@ -201,6 +237,14 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
   showMetrics: false,
   metricsSSIM: null,
   metricsPSNR: null,
+  metricsMSSSIM: null,
+  metricsPSNRYCbCr: null,
+  metricsDeltaE2000: null,
+  metricsNoReferenceA: null,
+  metricsNoReferenceB: null,
+  metricsMaskBreakdown: null,
+  enabledQualityMetrics: ['ssim', 'psnr', 'delta-e94'],
+  metricsWorkerStatus: { workers: 0, queued: 0, running: 0, completed: 0 },
 
   // Synchronized zoom/pan (IMG-002)
   zoom: 1,
@@ -244,17 +288,31 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     // WEBGL-004: ROI selection
     roi: null,
     showROIControls: false,
+    metricMask: null,
+    showMaskEditor: false,
     // WEBGL-012: Perceptual Importance Weighting
     useWeightedAnalysis: false,
     weightMode: 'saliency',
     edgeWeight: 0.7,
     centerWeight: 0.5,
     showWeightMap: false,
+    // METRICS-003: FLIP viewing condition
+    flipPixelsPerDegree: 67,
+    // HDR-001: HDR display transform
+    hdrExposure: 0,
+    hdrGamma: 2.2,
+    hdrToneMap: 'aces',
   },
 
   // WebGL Analysis metrics (WEBGL-001)
   webglAnalysisMetrics: null,
 
+  // METRICS-001: Quality report
+  qualityReport: null,
+
+  // QA-001: Frame defect scan
+  frameDefectReport: null,
+
   // SCOPE-001, SCOPE-002, SCOPE-003: Scopes default settings
   scopesSettings: {
     showScopes: false,
@@ -336,6 +394,10 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     transitionDuration: 1.5,
     transitionIntensity: 1.0,
     transitionExportMode: 'sequential' as TransitionExportMode,
+    // TEXT-001: Burn-in text tracks
+    burnInText: true,
+    // MIX-001: Timeline audio mix in MP4 exports
+    includeAudio: true,
   },
 
   exportProgress: {
@@ -352,6 +414,22 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
   toggleHideSlider: () => set((state) => ({ hideSlider: !state.hideSlider })),
   toggleMetrics: () => set((state) => ({ showMetrics: !state.showMetrics })),
   setMetrics: (ssim, psnr) => set({ metricsSSIM: ssim, metricsPSNR: psnr }),
+  setExtendedMetrics: (metrics) =>
+    set({
+      metricsMSSSIM: metrics?.msssim ?? null,
+      metricsPSNRYCbCr: metrics?.psnrYCbCr ?? null,
+      metricsDeltaE2000: metrics?.deltaE2000 ?? null,
+      metricsNoReferenceA: metrics?.noReferenceA ?? null,
+      metricsNoReferenceB: metrics?.noReferenceB ?? null,
+      metricsMaskBreakdown: metrics?.maskBreakdown ?? null,
+    }),
+  toggleQualityMetric: (metric) =>
+    set((state) => ({
+      enabledQualityMetrics: state.enabledQualityMetrics.includes(metric)
+        ? state.enabledQualityMetrics.filter((m) => m !== metric)
+        : [...state.enabledQualityMetrics, metric],
+    })),
+  setMetricsWorkerStatus: (status) => set({ metricsWorkerStatus: status }),
   setZoom: (zoom) => set({ zoom: Math.max(1, Math.min(10, zoom)) }),
   setPan: (x, y) => set({ panX: x, panY: y }),
   resetZoom: () => set({ zoom: 1, panX: 0, panY: 0 }),
@@ -372,6 +450,10 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
 
   setWebGLAnalysisMetrics: (metrics) => set({ webglAnalysisMetrics: metrics }),
 
+  setQualityReport: (report) => set({ qualityReport: report }),
+
+  setFrameDefectReport: (report) => set({ frameDefectReport: report }),
+
   toggleWebGLMetricsOverlay: () =>
     set((state) => ({
       webglComparisonSettings: {
@@ -456,6 +538,60 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
       },
     })),
 
+  // MASK-001: Metric mask actions
+  setMetricMask: (mask) =>
+    set((state) => ({
+      webglComparisonSettings: {
+        ...state.webglComparisonSettings,
+        metricMask: mask,
+      },
+    })),
+
+  addMaskShape: (shape) =>
+    set((state) => ({
+      webglComparisonSettings: {
+        ...state.webglComparisonSettings,
+        metricMask: {
+          enabled: true,
+          shapes: [...(state.webglComparisonSettings.metricMask?.shapes ?? []), shape],
+        },
+      },
+    })),
+
+  undoMaskShape: () =>
+    set((state) => {
+      const mask = state.webglComparisonSettings.metricMask
+      if (!mask || mask.shapes.length === 0) return {}
+      return {
+        webglComparisonSettings: {
+          ...state.webglComparisonSettings,
+          metricMask: { ...mask, shapes: mask.shapes.slice(0, -1) },
+        },
+      }
+    }),
+
+  toggleMetricMask: () =>
+    set((state) => {
+      const mask = state.webglComparisonSettings.metricMask
+      if (!mask) return {}
+      return {
+        webglComparisonSettings: {
+          ...state.webglComparisonSettings,
+          metricMask: { ...mask, enabled: !mask.enabled },
+        },
+      }
+    }),
+
+  toggleMaskEditor: () =>
+    set((state) => ({
+      webglComparisonSettings: {
+        ...state.webglComparisonSettings,
+        showMaskEditor: !state.webglComparisonSettings.showMaskEditor,
+        // Painting and ROI dragging share the mouse
+        showROIControls: false,
+      },
+    })),
+
   // WEBGL-012: Importance weighting actions
   toggleWeightedAnalysis: () =>
     set((state) => ({
@@ -1,6 +1,9 @@
 import { create } from 'zustand'
-import type { TimelineTrack, TimelineClip, MediaType, TrackType } from '../types'
+import type { TimelineTrack, TimelineClip, MediaType, TrackType, TextElement, InterchangeTimeline, InterchangeTrack, ColorGrade } from '../types'
 import { generateId, snapTimeToFrame } from '../lib/utils'
+import { filterRenderableTextElements } from '../lib/textOverlay'
+import { MIN_VOLUME_DB, MAX_VOLUME_DB } from '../lib/audioMix'
+import { createDefaultGrade } from '../lib/colorGrade'
 
 // Track colors for visual distinction
 const TRACK_COLORS: Record<TrackType, string> = {
@@ -11,8 +14,35 @@ const TRACK_COLORS: Record<TrackType, string> = {
   'media': '#4ade80', // green
 }
 
-// Helper to calculate the maximum end time from all clips
-function calculateMaxDuration(tracks: TimelineTrack[]): number {
+// TEXT-001: Defaults for new text elements (font size in 1080p pixels)
+const DEFAULT_TEXT_ELEMENT: Omit<TextElement, 'id' | 'trackId' | 'startTime' | 'endTime'> = {
+  text: 'Label',
+  fontFamily: 'Inter, system-ui, sans-serif',
+  fontSize: 64,
+  fontWeight: 'bold',
+  fontStyle: 'normal',
+  color: '#ffffff',
+  backgroundColor: '#000000',
+  positionX: 50,
+  positionY: 88,
+  textAlign: 'center',
+  animation: 'none',
+}
+
+const DEFAULT_TEXT_DURATION = 3
+
+// Media types a new track of each type accepts
+function getAcceptedTypes(type: TrackType): MediaType[] {
+  switch (type) {
+    case 'audio': return ['audio']
+    case 'text': return ['prompt', 'subtitle'] // Text/prompts for captions, SUB-001 subtitle files
+    case 'media': return ['video', 'image', 'model']
+    default: return ['video', 'image', 'audio', 'model']
+  }
+}
+
+// Helper to calculate the maximum end time from all clips and text elements
+function calculateMaxDuration(tracks: TimelineTrack[], textElements: TextElement[]): number {
   let maxEndTime = 0
   for (const track of tracks) {
     for (const clip of track.clips) {
@@ -21,6 +51,11 @@ function calculateMaxDuration(tracks: TimelineTrack[]): number {
       }
     }
   }
+  for (const element of textElements) {
+    if (element.endTime > maxEndTime) {
+      maxEndTime = element.endTime
+    }
+  }
   // Return at least 1 second if no clips, otherwise the max end time
   return maxEndTime > 0 ? maxEndTime : 1
 }
@@ -35,6 +70,7 @@ export interface TimelineMarker {
   time: number
   label: string
   color?: string
+  source?: string // Analysis pass that created the marker (QA-001), user markers have none
 }
 
 interface TimelineStore {
@@ -54,6 +90,8 @@ interface TimelineStore {
   snapThreshold: number // TL-003: Snap threshold in seconds
   rippleEnabled: boolean // TL-007: Ripple edit mode
   clipboardClipId: string | null // TL-002: Copy/paste clipboard
+  textElements: TextElement[] // TEXT-001: Captions/titles on text tracks
+  selectedTextElementId: string | null
 
   // Playback controls
   play: () => void
@@ -92,11 +130,17 @@ interface TimelineStore {
   setTrackAcceptedTypes: (id: string, types: MediaType[]) => void
   renameTrack: (id: string, name: string) => void
   reorderTracks: (fromIndex: number, toIndex: number) => void
+  // MIX-001: Track mixing
+  setTrackVolume: (id: string, volume: number) => void
+  setTrackPan: (id: string, pan: number) => void
+  toggleTrackSolo: (id: string) => void
 
   // Clip operations
   addClip: (trackId: string, mediaId: string, startTime: number, duration: number) => TimelineClip
   removeClip: (clipId: string) => void
   updateClip: (clipId: string, updates: Partial<TimelineClip>) => void
+  setClipAudio: (clipId: string, updates: Partial<Pick<TimelineClip, 'gain' | 'fadeIn' | 'fadeOut'>>) => void // MIX-001
+  setClipColorGrade: (clipId: string, updates: Partial<ColorGrade> | null) => void // COLOR-001
   selectClip: (clipId: string | null) => void
   moveClip: (clipId: string, newTrackId: string, newStartTime: number) => void
   trimClip: (clipId: string, side: 'start' | 'end', newTime: number) => void
@@ -109,6 +153,7 @@ interface TimelineStore {
   pasteAtPlayhead: () => TimelineClip | null // Paste at current playhead with overlap resolution
   replaceClipMedia: (clipId: string, newMediaId: string, newDuration?: number) => void // Replace media keeping position
   separateAudio: (clipId: string) => string | null // Extract audio to new track, returns new clip id
+  alignClipToReference: (clipId: string, referenceClipId: string, offsetSeconds: number, speed?: number, mediaDuration?: number) => boolean // ALIGN-001: Shift/retime so media times match; false if no media would remain
 
   // TL-003: Snap
   toggleSnap: () => void
@@ -137,9 +182,20 @@ interface TimelineStore {
   getClipAtTime: (trackId: string, time: number) => TimelineClip | undefined
   getTrack: (id: string) => TimelineTrack | undefined
 
+  // TEXT-001: Text elements
+  addTextElement: (trackId: string, startTime: number, overrides?: Partial<TextElement>) => TextElement
+  updateTextElement: (id: string, updates: Partial<TextElement>) => void
+  removeTextElement: (id: string) => void
+  selectTextElement: (id: string | null) => void
+  getRenderableTextElements: () => TextElement[] // Elements on existing, unmuted tracks
+
+  // INTERCHANGE-001: Replace clip tracks and markers with an imported timeline, returns the clips placed
+  importTimeline: (timeline: InterchangeTimeline, mediaIds: Record<string, string>) => number
+
   // Markers (VID-006)
   addMarker: (label?: string) => TimelineMarker
   removeMarker: (id: string) => void
+  setSourceMarkers: (source: string, markers: Omit<TimelineMarker, 'id' | 'source'>[]) => void // QA-001: Replace markers of an analysis pass
   updateMarker: (id: string, updates: Partial<TimelineMarker>) => void
   jumpToMarker: (id: string) => void
   getMarkerAtTime: (time: number) => TimelineMarker | undefined
@@ -165,6 +221,8 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
   snapThreshold: 0.1, // 100ms snap threshold
   rippleEnabled: false,
   clipboardClipId: null,
+  textElements: [],
+  selectedTextElementId: null,
 
   play: () => set({ isPlaying: true }),
   pause: () => set({ isPlaying: false }),
@@ -271,21 +329,11 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
       }
     })()
 
-    // Determine accepted types based on track type
-    const acceptedTypes: MediaType[] = (() => {
-      switch (type) {
-        case 'audio': return ['audio']
-        case 'text': return ['prompt'] // Text/prompts for captions
-        case 'media': return ['video', 'image', 'model']
-        default: return ['video', 'image', 'audio', 'model']
-      }
-    })()
-
     const newTrack: TimelineTrack = {
       id: generateId(),
       name: trackName,
       type,
-      acceptedTypes,
+      acceptedTypes: getAcceptedTypes(type),
       clips: [],
       muted: false,
       locked: false,
@@ -307,7 +355,13 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
         return
       }
     }
-    set({ tracks: state.tracks.filter((t) => t.id !== id) })
+    set({
+      tracks: state.tracks.filter((t) => t.id !== id),
+      textElements: state.textElements.filter((e) => e.trackId !== id),
+      selectedTextElementId: state.textElements.some((e) => e.id === state.selectedTextElementId && e.trackId === id)
+        ? null
+        : state.selectedTextElementId,
+    })
   },
 
   toggleTrackMute: (id: string) => {
@@ -326,6 +380,26 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
     }))
   },
 
+  setTrackVolume: (id: string, volume: number) => {
+    const clamped = Math.max(MIN_VOLUME_DB, Math.min(MAX_VOLUME_DB, volume))
+    set((state) => ({
+      tracks: state.tracks.map((t) => (t.id === id ? { ...t, volume: clamped } : t)),
+    }))
+  },
+
+  setTrackPan: (id: string, pan: number) => {
+    const clamped = Math.max(-1, Math.min(1, pan))
+    set((state) => ({
+      tracks: state.tracks.map((t) => (t.id === id ? { ...t, pan: clamped } : t)),
+    }))
+  },
+
+  toggleTrackSolo: (id: string) => {
+    set((state) => ({
+      tracks: state.tracks.map((t) => (t.id === id ? { ...t, solo: !t.solo } : t)),
+    }))
+  },
+
   setTrackAcceptedTypes: (id: string, types: MediaType[]) => {
     set((state) => ({
       tracks: state.tracks.map((t) =>
@@ -371,7 +445,7 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
     )
 
     // Recalculate duration based on all clips
-    const newDuration = calculateMaxDuration(updatedTracks)
+    const newDuration = calculateMaxDuration(updatedTracks, get().textElements)
     set({ tracks: updatedTracks, duration: newDuration })
 
     return clip
@@ -417,7 +491,7 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
     })
 
     // Recalculate duration based on remaining clips
-    const newDuration = calculateMaxDuration(updatedTracks)
+    const newDuration = calculateMaxDuration(updatedTracks, get().textElements)
 
     set({
       tracks: updatedTracks,
@@ -437,8 +511,49 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
     }))
   },
 
+  // MIX-001: Fades are kept within the clip and never overlap
+  setClipAudio: (clipId: string, updates: Partial<Pick<TimelineClip, 'gain' | 'fadeIn' | 'fadeOut'>>) => {
+    set((state) => ({
+      tracks: state.tracks.map((t) => ({
+        ...t,
+        clips: t.clips.map((c) => {
+          if (c.id !== clipId) return c
+          const length = c.endTime - c.startTime
+          const next = { ...c, ...updates }
+          if (updates.gain !== undefined) {
+            next.gain = Math.max(MIN_VOLUME_DB, Math.min(MAX_VOLUME_DB, updates.gain))
+          }
+          if (updates.fadeIn !== undefined) {
+            next.fadeIn = Math.max(0, Math.min(updates.fadeIn, length - (next.fadeOut ?? 0)))
+          }
+          if (updates.fadeOut !== undefined) {
+            next.fadeOut = Math.max(0, Math.min(updates.fadeOut, length - (next.fadeIn ?? 0)))
+          }
+          return next
+        }),
+      })),
+    }))
+  },
+
+  // COLOR-001: Updates merge over the clip's grade (or the neutral grade); null removes it
+  setClipColorGrade: (clipId: string, updates: Partial<ColorGrade> | null) => {
+    set((state) => ({
+      tracks: state.tracks.map((t) => ({
+        ...t,
+        clips: t.clips.map((c) => {
+          if (c.id !== clipId) return c
+          if (!updates) return { ...c, colorGrade: undefined }
+          return { ...c, colorGrade: { ...(c.colorGrade ?? createDefaultGrade()), ...updates } }
+        }),
+      })),
+    }))
+  },
+
   selectClip: (clipId: string | null) => {
-    set({ selectedClipId: clipId })
+    set((state) => ({
+      selectedClipId: clipId,
+      selectedTextElementId: clipId ? null : state.selectedTextElementId,
+    }))
   },
 
   moveClip: (clipId: string, newTrackId: string, newStartTime: number) => {
@@ -470,7 +585,7 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
     )
 
     // Recalculate duration based on all clips
-    const newDuration = calculateMaxDuration(updatedTracks)
+    const newDuration = calculateMaxDuration(updatedTracks, get().textElements)
 
     set({ tracks: updatedTracks, duration: newDuration })
   },
@@ -555,7 +670,7 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
     }))
 
     // Recalculate duration based on all clips
-    const newDuration = calculateMaxDuration(updatedTracks)
+    const newDuration = calculateMaxDuration(updatedTracks, get().textElements)
 
     set({ tracks: updatedTracks, duration: newDuration })
   },
@@ -592,6 +707,11 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
         endTime: clip.endTime,
         inPoint: mediaSplitPoint,
         outPoint: clip.outPoint,
+        // MIX-001: Gain carries over; the fade-out moves to the second half
+        gain: clip.gain,
+        fadeOut: clip.fadeOut,
+        // COLOR-001: Both halves keep the grade
+        colorGrade: clip.colorGrade,
       }
 
       // Update first clip (before split) and add new clip
@@ -607,6 +727,7 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
                   ...c,
                   endTime: snappedSplitTime,
                   outPoint: mediaSplitPoint,
+                  fadeOut: undefined,
                 }
               }),
               newClip!,
@@ -732,6 +853,7 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
         endTime: clip.endTime + (clip.endTime - clip.startTime),
         inPoint: clip.inPoint,
         outPoint: clip.outPoint,
+        colorGrade: clip.colorGrade, // COLOR-001
       }
 
       set({
@@ -841,7 +963,7 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
         return { ...t, clips: [...t.clips, newClip] }
       })
 
-      const newDuration = calculateMaxDuration(updatedTracks)
+      const newDuration = calculateMaxDuration(updatedTracks, get().textElements)
       set({ tracks: updatedTracks, duration: newDuration })
 
       return newClip
@@ -881,6 +1003,56 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
     })
   },
 
+  // ALIGN-001: Shift (and optionally retime) a clip so that its media time
+  // follows tB = offsetSeconds + speed * tA relative to the reference clip.
+  // With the clip's media duration, the clip is shortened to end with its media.
+  alignClipToReference: (clipId: string, referenceClipId: string, offsetSeconds: number, speed: number = 1, mediaDuration?: number) => {
+    const state = get()
+    const allClips = state.tracks.flatMap(t => t.clips)
+    const clip = allClips.find(c => c.id === clipId)
+    const reference = allClips.find(c => c.id === referenceClipId)
+    if (!clip || !reference) return false
+
+    const mediaLength = clip.outPoint - clip.inPoint
+    // Reference media time at the clip's current start
+    const referenceSpeed = reference.speed || 1
+    const referenceTimeAtStart = reference.inPoint + (clip.startTime - reference.startTime) * referenceSpeed
+    const clampedSpeed = Math.max(0.25, Math.min(4, speed * referenceSpeed))
+
+    let startTime = clip.startTime
+    let inPoint = offsetSeconds + speed * referenceTimeAtStart
+    if (inPoint < 0) {
+      // Content starts later than the timeline position allows: move the clip instead
+      startTime = clip.startTime - inPoint / clampedSpeed
+      inPoint = 0
+    }
+    inPoint = snapTimeToFrame(inPoint, state.frameRate)
+    const outPoint = mediaDuration !== undefined ? Math.min(inPoint + mediaLength, mediaDuration) : inPoint + mediaLength
+    // Nothing of the media is left to show at this alignment
+    if (outPoint - inPoint < 1 / state.frameRate) return false
+
+    const updatedTracks = state.tracks.map(track => ({
+      ...track,
+      clips: track.clips.map(c => {
+        if (c.id !== clipId) return c
+        return {
+          ...c,
+          startTime,
+          endTime: startTime + (outPoint - inPoint) / clampedSpeed,
+          inPoint,
+          outPoint,
+          speed: clampedSpeed === 1 ? undefined : clampedSpeed,
+        }
+      }),
+    }))
+
+    set({
+      tracks: updatedTracks,
+      duration: calculateMaxDuration(updatedTracks, get().textElements),
+    })
+    return true
+  },
+
   // Separate audio from video clip to new audio track
   separateAudio: (clipId: string) => {
     const state = get()
@@ -1075,6 +1247,129 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
     return get().tracks.find((t) => t.id === id)
   },
 
+  // TEXT-001: Text elements
+  addTextElement: (trackId: string, startTime: number, overrides?: Partial<TextElement>) => {
+    const { frameRate, textElements, tracks } = get()
+    const snappedStart = snapTimeToFrame(Math.max(0, startTime), frameRate)
+    const element: TextElement = {
+      ...DEFAULT_TEXT_ELEMENT,
+      startTime: snappedStart,
+      endTime: snappedStart + DEFAULT_TEXT_DURATION,
+      ...overrides,
+      id: generateId(),
+      trackId,
+    }
+
+    const updatedElements = [...textElements, element]
+    set({
+      textElements: updatedElements,
+      selectedTextElementId: element.id,
+      selectedClipId: null,
+      selectedClipIds: [],
+      duration: calculateMaxDuration(tracks, updatedElements),
+    })
+    return element
+  },
+
+  updateTextElement: (id: string, updates: Partial<TextElement>) => {
+    const { frameRate, textElements, tracks } = get()
+    const minDuration = 1 / frameRate
+    const updatedElements = textElements.map((e) => {
+      if (e.id !== id) return e
+      const updated = { ...e, ...updates }
+      // Keep at least one frame on screen
+      updated.startTime = Math.max(0, updated.startTime)
+      updated.endTime = Math.max(updated.startTime + minDuration, updated.endTime)
+      return updated
+    })
+    set({ textElements: updatedElements, duration: calculateMaxDuration(tracks, updatedElements) })
+  },
+
+  removeTextElement: (id: string) => {
+    const { textElements, tracks, selectedTextElementId } = get()
+    const updatedElements = textElements.filter((e) => e.id !== id)
+    set({
+      textElements: updatedElements,
+      selectedTextElementId: selectedTextElementId === id ? null : selectedTextElementId,
+      duration: calculateMaxDuration(tracks, updatedElements),
+    })
+  },
+
+  selectTextElement: (id: string | null) => {
+    set((state) => ({
+      selectedTextElementId: id,
+      selectedClipId: id ? null : state.selectedClipId,
+      selectedClipIds: id ? [] : state.selectedClipIds,
+    }))
+  },
+
+  getRenderableTextElements: () => {
+    const { tracks, textElements } = get()
+    return filterRenderableTextElements(textElements, tracks)
+  },
+
+  // INTERCHANGE-001: Picture tracks fill A, B, then extra media tracks; sound
+  // tracks become audio tracks. Text tracks and their elements are kept.
+  // Clips whose source has no entry in mediaIds are left out.
+  importTimeline: (timeline: InterchangeTimeline, mediaIds: Record<string, string>) => {
+    const state = get()
+    const picture = timeline.tracks.filter(t => t.kind === 'video')
+    const sound = timeline.tracks.filter(t => t.kind === 'audio')
+    const layout: [TrackType, InterchangeTrack | undefined][] = [
+      ['a', picture[0]],
+      ['b', picture[1]],
+      ...picture.slice(2).map((t): [TrackType, InterchangeTrack] => ['media', t]),
+      ...sound.map((t): [TrackType, InterchangeTrack] => ['audio', t]),
+    ]
+
+    let placed = 0
+    const tracks = layout.map(([type, source]) => {
+      // A and B keep their identity, so comparison settings still apply
+      const existing = type === 'a' || type === 'b' ? state.tracks.find(t => t.type === type) : undefined
+      const track: TimelineTrack = existing ?? {
+        id: generateId(),
+        name: source?.name || (type === 'audio' ? 'Audio' : 'Track'),
+        type,
+        acceptedTypes: getAcceptedTypes(type),
+        clips: [],
+        muted: false,
+        locked: false,
+        color: TRACK_COLORS[type],
+      }
+      const clips = (source?.clips ?? []).flatMap((clip): TimelineClip[] => {
+        const mediaId = mediaIds[clip.sourceName]
+        if (!mediaId) return []
+        return [{
+          id: generateId(),
+          mediaId,
+          trackId: track.id,
+          startTime: clip.startTime,
+          endTime: clip.endTime,
+          inPoint: clip.inPoint,
+          outPoint: clip.outPoint,
+          label: clip.name !== clip.sourceName ? clip.name : undefined,
+          speed: clip.speed,
+          reverse: clip.reverse,
+        }]
+      })
+      placed += clips.length
+      return { ...track, clips }
+    })
+
+    const newTracks = [...tracks, ...state.tracks.filter(t => t.type === 'text')]
+    set({
+      tracks: newTracks,
+      markers: timeline.markers
+        .map(m => ({ id: generateId(), time: m.time, label: m.label, color: m.color }))
+        .sort((a, b) => a.time - b.time),
+      frameRate: timeline.frameRate,
+      duration: calculateMaxDuration(newTracks, state.textElements),
+      selectedClipId: null,
+      selectedClipIds: [],
+    })
+    return placed
+  },
+
   // Markers (VID-006)
   addMarker: (label?: string) => {
     const { currentTime, markers } = get()
@@ -1093,6 +1388,15 @@ export const useTimelineStore = create<TimelineStore>((set, get) => ({
     }))
   },
 
+  setSourceMarkers: (source: string, markers: Omit<TimelineMarker, 'id' | 'source'>[]) => {
+    set((state) => ({
+      markers: [
+        ...state.markers.filter((m) => m.source !== source),
+        ...markers.map((m) => ({ ...m, id: generateId(), source })),
+      ].sort((a, b) => a.time - b.time),
+    }))
+  },
+
   updateMarker: (id: string, updates: Partial<TimelineMarker>) => {
     set((state) => ({
       markers: state.markers.map((m) =>
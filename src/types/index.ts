@@ -1,6 +1,6 @@
-export type MediaType = 'video' | 'image' | 'audio' | 'prompt' | 'model' | 'csv' | 'excel' | 'docx' | 'pdf'
+export type MediaType = 'video' | 'image' | 'audio' | 'prompt' | 'model' | 'csv' | 'excel' | 'docx' | 'pdf' | 'pptx' | 'subtitle'
 
-export type ComparisonMode = 'slider' | 'side-by-side' | 'blend' | 'split' | 'flicker' | 'prompt-diff' | 'json-diff' | 'heatmap' | 'audio' | 'model-3d' | 'webgl-compare' | 'quad' | 'radial-loupe' | 'grid-tile' | 'morphological' | 'document'
+export type ComparisonMode = 'slider' | 'side-by-side' | 'blend' | 'split' | 'flicker' | 'prompt-diff' | 'json-diff' | 'heatmap' | 'audio' | 'model-3d' | 'webgl-compare' | 'quad' | 'radial-loupe' | 'grid-tile' | 'morphological' | 'document' | 'subtitle'
 
 // ASPECT-001: Aspect Ratio Presets
 export type AspectRatioPreset = '16:9' | '9:16' | '1:1' | '4:3' | '21:9' | '4:5' | 'custom'
@@ -34,7 +34,7 @@ export interface AspectRatioSettings {
 }
 
 // WebGL Comparison Mode Types
-export type WebGLComparisonCategory = 'difference' | 'structural' | 'color' | 'professional' | 'video' | 'weighting' | 'analysis' | 'exposure'
+export type WebGLComparisonCategory = 'difference' | 'structural' | 'color' | 'professional' | 'video' | 'weighting' | 'analysis' | 'exposure' | 'perceptual' | 'artifact'
 
 export type WebGLComparisonMode =
   // Debug
@@ -109,6 +109,14 @@ export type WebGLComparisonMode =
   | 'exposure-zebra-compare'     // Zebra Stripes A vs B comparison
   | 'exposure-zone-system'       // Zone System overlay (Ansel Adams)
   | 'exposure-zone-compare'      // Zone System A vs B comparison
+  // METRICS-003: FLIP perceptual error (3 modes)
+  | 'perceptual-flip'            // Full FLIP error map (magma)
+  | 'perceptual-flip-color'      // Colour pipeline only (CSF-filtered HyAB)
+  | 'perceptual-flip-feature'    // Feature pipeline only (edges and points)
+  // ARTIFACT-001: No-reference compression artifact maps (3 modes)
+  | 'artifact-blockiness'        // 8x8/16x16 block boundary discontinuity
+  | 'artifact-banding'           // Contour steps in smooth gradients
+  | 'artifact-ringing'           // Oscillation next to strong edges
 
 export type ComparisonColorScheme = 'grayscale' | 'heat' | 'rainbow' | 'redgreen' | 'custom'
 
@@ -120,6 +128,20 @@ export interface ROIRect {
   height: number  // Height (0-1)
 }
 
+// MASK-001: Painted metric mask shape in the same normalized space as ROIRect
+export interface MaskShape {
+  type: 'brush' | 'polygon'
+  points: { x: number; y: number }[]
+  radius: number  // Brush radius as a fraction of frame width (0 for polygons)
+  erase: boolean  // Removes the shape from the mask instead of adding it
+}
+
+// MASK-001: Shapes are applied in order; an empty mask covers nothing
+export interface MetricMask {
+  enabled: boolean
+  shapes: MaskShape[]
+}
+
 export interface WebGLComparisonSettings {
   mode: WebGLComparisonMode
   amplification: number      // 1-100
@@ -151,18 +173,130 @@ export interface WebGLComparisonSettings {
   // WEBGL-004: ROI selection
   roi: ROIRect | null        // null = full frame
   showROIControls: boolean   // Show ROI drawing mode
+  // MASK-001: Painted metric mask (restricts metrics within the ROI)
+  metricMask: MetricMask | null
+  showMaskEditor: boolean
   // WEBGL-012: Perceptual Importance Weighting
   useWeightedAnalysis: boolean    // Enable importance weighting
   weightMode: 'saliency' | 'edge' | 'center' | 'custom'  // Weighting method
   edgeWeight: number              // 0-1, importance of edges
   centerWeight: number            // 0-1, importance of center region
   showWeightMap: boolean          // Visualize importance weights
+  // METRICS-003: FLIP viewing condition
+  flipPixelsPerDegree: number     // Display pixels per degree of visual angle
+  // HDR-001: Display transform for OpenEXR / Radiance images (shared by A and B)
+  hdrExposure: number             // Exposure in stops (-10 to 10)
+  hdrGamma: number                // Display gamma (1-3)
+  hdrToneMap: HDRToneMap
+}
+
+// HDR-001: Tone curve applied to exposed linear values before gamma
+export type HDRToneMap = 'clip' | 'reinhard' | 'aces'
+
+// HDR-001: Linear-to-display transform of HDR images
+export interface HDRDisplaySettings {
+  exposure: number
+  gamma: number
+  toneMap: HDRToneMap
+}
+
+// HDR-001: Decoded HDR image details
+export interface HDRImageInfo {
+  format: 'exr' | 'hdr'
+  pixelType: 'half' | 'float' | 'uint' | 'rgbe'
+  layers: string[]   // EXR layers ('' = base layer)
+  layer: string      // Layer shown
+  channels: string[] // All channel names in the file
+  peak: number       // Brightest luminance (1.0 = display white)
+}
+
+// BITDEPTH-001: 16-bit PNG / TIFF decoded without 8-bit truncation
+export interface HighBitDepthInfo {
+  format: 'png' | 'tiff'
+  bitDepth: number     // Bits per sample of the decoded values
+  channels: number     // Samples per pixel in the file
+  compression?: string // TIFF compression scheme
+}
+
+// SEQ-001: Numbered image frames imported as one video clip
+export interface ImageSequenceInfo {
+  pattern: string       // e.g. frame_%04d.png
+  firstFrame: number
+  lastFrame: number
+  frameCount: number    // Frame files found
+  missingFrames: number // Gaps filled with the previous frame
+  frameRate: number
+}
+
+// MODEL-001: 3D formats the model loader reads (glTF covers .glb)
+export type ModelFormat = 'gltf' | 'obj' | 'stl' | 'ply' | 'fbx' | 'pcd' | 'xyz'
+
+// IMG-003: Pixel picked with the pixel inspector
+export interface InspectedPixel {
+  x: number
+  y: number
+  r: number
+  g: number
+  b: number
+  bitDepth?: number // BITDEPTH-001: Bits of r/g/b (8 when absent)
+}
+
+// METRICS-002: Selectable full-reference quality metrics
+export type QualityMetricId = 'ssim' | 'ms-ssim' | 'psnr' | 'psnr-ycbcr' | 'delta-e94' | 'delta-e2000' | 'flip'
+  | 'sharpness' | 'noise' | 'naturalness'
+
+// METRICS-002: PSNR per BT.601 Y/Cb/Cr channel (dB, Infinity when identical)
+export interface ChannelPSNR {
+  y: number
+  cb: number
+  cr: number
+}
+
+// MASK-001: Full-reference metrics over one side of the mask
+export interface MaskRegionMetrics {
+  psnr: number               // dB, Infinity when identical
+  msssim: number             // 0-1
+  deltaE2000: number         // Mean CIEDE2000
+  meanDifference: number     // 0-255
+  pixelCount: number         // Pixels in the region at metric resolution
+}
+
+// MASK-001: Inside vs outside the mask, both within the ROI (or frame)
+export interface MaskBreakdown {
+  coverage: number           // 0-1, masked fraction of the analysed area
+  inside: MaskRegionMetrics | null   // null when the region is empty
+  outside: MaskRegionMetrics | null
 }
 
 // WEBGL-001: Computed metrics for WebGL analysis
+// ARTIFACT-001: No-reference compression artifact scores for one side
+export interface ArtifactScores {
+  blockiness8: number        // 0-1, 8x8 grid discontinuity
+  blockiness16: number       // 0-1, 16x16 grid discontinuity
+  banding: number            // 0-1, fraction of smooth pixels on a contour step
+  ringing: number            // 0-255, excess Laplacian activity next to edges
+}
+
+// METRICS-004: No-reference quality estimates for one side
+export interface NoReferenceScores {
+  sharpness: number          // Laplacian variance of luma, higher = sharper
+  noiseSigma: number         // 0-255, estimated noise standard deviation
+  naturalness: number        // 0+, MSCN deviation from natural statistics, lower = more natural
+}
+
 export interface WebGLAnalysisMetrics {
   ssim: number               // 0-1, Structural Similarity Index
+  msssim: number             // 0-1, Multi-scale SSIM (METRICS-002)
+  psnr: number               // dB, RGB PSNR (METRICS-002)
+  psnrYCbCr: ChannelPSNR     // dB per channel (METRICS-002)
   deltaE: number             // 0-100, perceptual color difference (CIE94)
+  deltaE2000: number         // 0-100, perceptual color difference (CIEDE2000, METRICS-002)
+  flip: number               // 0-1, mean FLIP perceptual error (METRICS-003)
+  artifactsA: ArtifactScores | null  // ARTIFACT-001: native-resolution scores, null when not sampled
+  artifactsB: ArtifactScores | null
+  noReferenceA: NoReferenceScores | null  // METRICS-004: native-resolution scores, null when not sampled
+  noReferenceB: NoReferenceScores | null
+  maskBreakdown: MaskBreakdown | null  // MASK-001: null when no mask is active
   diffPixelPercent: number   // 0-100, percentage of pixels above threshold
   peakDifference: number     // 0-255, maximum pixel difference
   meanDifference: number     // 0-255, average pixel difference
@@ -173,6 +307,99 @@ export interface WebGLAnalysisMetrics {
   totalPixelCount: number    // Total sampled pixels
 }
 
+// METRICS-001: Per-frame quality report (full pass over tracks A and B)
+export interface FrameQualityMetrics {
+  frame: number              // Frame index from the start of the analysed range
+  time: number               // Timeline time in seconds
+  timecode: string           // HH:MM:SS:FF
+  psnr: number               // dB, Infinity for identical frames
+  psnrY: number              // dB, luma channel
+  psnrCb: number             // dB, blue-difference chroma
+  psnrCr: number             // dB, red-difference chroma
+  ssim: number               // 0-1
+  msssim: number             // 0-1
+  deltaE: number             // Mean CIE94 Delta E
+  deltaE2000: number         // Mean CIEDE2000
+  diffPixelPercent: number   // 0-100
+  peakDifference: number     // 0-255
+  artifactsA: ArtifactScores | null  // ARTIFACT-001: native-resolution scores of each side
+  artifactsB: ArtifactScores | null
+}
+
+// WORKER-001: Scores of one frame pair, computed in the metrics worker
+export type FrameQualityScores = Omit<FrameQualityMetrics, 'frame' | 'time' | 'timecode'>
+
+// WORKER-001: Metrics worker pool queue state
+export interface MetricsWorkerStatus {
+  workers: number     // Pool size
+  queued: number      // Jobs waiting for a worker
+  running: number     // Jobs being computed
+  completed: number   // Jobs finished since the page loaded
+}
+
+export interface QualityReportSummary {
+  frameCount: number
+  meanPSNR: number           // Mean over finite PSNR values, Infinity if all identical
+  minPSNR: number
+  meanSSIM: number
+  minSSIM: number
+  meanMSSSIM: number
+  meanDeltaE: number
+  maxDeltaE: number
+  meanDeltaE2000: number
+  meanDiffPixelPercent: number
+  maxPeakDifference: number
+  worstFrame: number | null  // Frame index with the lowest SSIM
+  meanArtifactsA: ArtifactScores | null  // ARTIFACT-001: artifact profile of each side
+  meanArtifactsB: ArtifactScores | null
+}
+
+export interface QualityReport {
+  createdAt: string          // ISO timestamp
+  mediaA: string             // File name of source A
+  mediaB: string             // File name of source B
+  frameRate: number
+  startTime: number
+  endTime: number
+  sampleWidth: number
+  sampleHeight: number
+  threshold: number          // 0-255 diff threshold used for diffPixelPercent
+  roi: ROIRect | null        // MASK-001: analysed region, null = full frame
+  maskCoverage: number | null  // MASK-001: 0-1 fraction of the frame scored, null = no mask
+  frames: FrameQualityMetrics[]
+  summary: QualityReportSummary
+}
+
+// SHOT-001: Quality summary of one shot between scene cuts
+export interface ShotQualitySummary {
+  shot: number               // Shot index from the start of the report
+  startTime: number
+  endTime: number
+  summary: QualityReportSummary
+}
+
+// QA-001: Frame defect detection on a single video clip
+export type FrameDefectType = 'duplicate' | 'frozen' | 'black' | 'dropped'
+
+export interface FrameDefect {
+  type: FrameDefectType
+  time: number               // Timeline time of the first affected frame
+  frame: number              // Frame index from the start of the analysed range
+  frames: number             // Run length (frozen/black) or estimated missing frames (dropped)
+  score: number              // Frame difference (0-255) that triggered the detection
+}
+
+export interface FrameDefectReport {
+  createdAt: string          // ISO timestamp
+  clipId: string
+  mediaName: string
+  frameRate: number
+  startTime: number
+  endTime: number
+  analyzedFrames: number
+  defects: FrameDefect[]
+}
+
 export type BlendMode = 'difference' | 'overlay' | 'multiply' | 'screen'
 
 export type SplitLayout = '2x1' | '1x2' | '2x2'
@@ -196,8 +423,33 @@ export interface MediaFile {
   status: MediaStatus
   statusMessage?: string // Error message or processing info
   processingProgress?: number // 0-100 for progress display
-  // Document-specific metadata (CSV, Excel, DOCX, PDF)
+  // Document-specific metadata (CSV, Excel / ODS, DOCX / ODT, PDF, PPTX)
   documentMeta?: DocumentMetadata
+  // HDR-001: OpenEXR / Radiance images (url is a tone-mapped preview)
+  hdr?: HDRImageInfo
+  // BITDEPTH-001: 16-bit PNG / TIFF (url is an 8-bit preview)
+  highBitDepth?: HighBitDepthInfo
+  // SEQ-001: Image sequence (url is an MP4 encoded from the frames)
+  sequence?: ImageSequenceInfo
+  // MODEL-001: Files an OBJ references (MTL, textures), file name → URL
+  modelResources?: Record<string, string>
+  // SUB-001: Parsed SRT / WebVTT / ASS cues
+  subtitles?: SubtitleInfo
+}
+
+// SUB-001: Subtitle formats and cues (times in seconds)
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass'
+
+export interface SubtitleCue {
+  index: number // Position in the file, from 1
+  start: number
+  end: number
+  text: string // Plain text, markup removed; lines joined with \n
+}
+
+export interface SubtitleInfo {
+  format: SubtitleFormat
+  cues: SubtitleCue[] // Sorted by start time
 }
 
 // Document metadata for spreadsheets and documents
@@ -214,13 +466,15 @@ export interface DocumentMetadata {
   // PDF
   pageCount?: number
   hasText?: boolean // Whether PDF has extractable text
+  // PPTX
+  slideCount?: number
   // Common
   parsedContent?: ParsedDocumentContent
 }
 
 // Parsed document content for comparison
 export interface ParsedDocumentContent {
-  type: 'csv' | 'excel' | 'docx' | 'pdf'
+  type: 'csv' | 'excel' | 'docx' | 'pdf' | 'pptx'
   // CSV/Excel data
   sheets?: ParsedSheet[]
   // DOCX content
@@ -228,6 +482,8 @@ export interface ParsedDocumentContent {
   text?: string // Plain text extraction
   // PDF pages
   pages?: ParsedPDFPage[]
+  // PPTX-001: Slides
+  slides?: ParsedSlide[]
 }
 
 export interface ParsedSheet {
@@ -242,6 +498,15 @@ export interface ParsedPDFPage {
   imageDataUrl?: string // Rendered page as image
 }
 
+// PPTX-001: Slide text, speaker notes and an approximate rendered thumbnail
+export interface ParsedSlide {
+  slideNumber: number
+  title?: string
+  text: string // All slide text, one paragraph per line
+  notes: string
+  imageDataUrl?: string
+}
+
 // STITCH-002: Ease curve for clip timing
 export interface EaseCurve {
   id: string
@@ -287,6 +552,37 @@ export interface TimelineClip {
   speed?: number
   // Play clip in reverse
   reverse?: boolean
+  // MIX-001: Clip gain in dB (default 0) and fade lengths in seconds;
+  // the volume envelope is the clip's 'volume' keyframe track
+  gain?: number
+  fadeIn?: number
+  fadeOut?: number
+  // COLOR-001: Colour grade, applied in preview, scopes and exports
+  colorGrade?: ColorGrade
+}
+
+// COLOR-001: Per-clip colour pipeline. Temperature/tint, then lift/gamma/gain,
+// then curves, then the 3D LUT (grading under a show LUT)
+export type GradeRGB = [r: number, g: number, b: number]
+
+export type CurveChannel = 'master' | 'red' | 'green' | 'blue'
+
+// Curve control point, both axes 0-1
+export interface CurvePoint {
+  x: number
+  y: number
+}
+
+export interface ColorGrade {
+  enabled: boolean
+  lift: GradeRGB        // Added to shadows, -1 to 1 (0 = none)
+  gamma: GradeRGB       // Midtone power, 0.1 to 4 (1 = none)
+  gain: GradeRGB        // Multiplier, 0 to 4 (1 = none)
+  temperature: number   // -1 (cool) to 1 (warm)
+  tint: number          // -1 (green) to 1 (magenta)
+  curves: Record<CurveChannel, CurvePoint[]>
+  lutId?: string        // Entry in the LUT library
+  lutIntensity: number  // 0-1 mix of the LUT result
 }
 
 // Track types: 'a', 'b' are comparison tracks, 'audio' for audio-only, 'text' for captions, 'media' for additional video/image tracks
@@ -302,6 +598,10 @@ export interface TimelineTrack {
   locked: boolean
   // Track color for visual distinction
   color?: string
+  // MIX-001: Fader in dB (default 0), pan from -1 (left) to 1 (right), solo
+  volume?: number
+  pan?: number
+  solo?: boolean
 }
 
 // Text element for caption/title tracks
@@ -313,7 +613,7 @@ export interface TextElement {
   text: string
   // Styling
   fontFamily: string
-  fontSize: number
+  fontSize: number // Pixels at 1080p, scaled to the output height (TEXT-001)
   fontWeight: 'normal' | 'bold'
   fontStyle: 'normal' | 'italic'
   color: string
@@ -327,6 +627,42 @@ export interface TextElement {
   animation?: 'none' | 'fade' | 'slide-up' | 'slide-down' | 'typewriter'
 }
 
+// INTERCHANGE-001: Timeline exchanged with other editors (times in seconds)
+export type InterchangeFormat = 'edl' | 'fcpxml' | 'otio'
+
+export interface InterchangeClip {
+  name: string
+  sourceName: string // File name (or EDL reel) used to find the media in the library
+  startTime: number
+  endTime: number
+  inPoint: number
+  outPoint: number
+  speed?: number
+  reverse?: boolean
+  mediaDuration?: number
+}
+
+export interface InterchangeTrack {
+  name: string
+  kind: 'video' | 'audio'
+  clips: InterchangeClip[]
+}
+
+export interface InterchangeMarker {
+  time: number
+  label: string
+  color?: string
+}
+
+export interface InterchangeTimeline {
+  name: string
+  frameRate: number
+  width?: number
+  height?: number
+  tracks: InterchangeTrack[]
+  markers: InterchangeMarker[]
+}
+
 export interface Project {
   id: string
   name: string
@@ -392,6 +728,10 @@ export interface ExportSettings {
   transitionDuration: number      // 0.5 - 5.0 seconds
   transitionIntensity: number     // 0 - 1
   transitionExportMode: TransitionExportMode
+  // TEXT-001: Draw text track elements into exported frames
+  burnInText: boolean
+  // MIX-001: Mux the timeline audio mix into MP4 exports
+  includeAudio: boolean
 }
 
 export interface ExportProgress {